@@ -68,6 +68,14 @@ const runMigrations = () => {
     { name: '017_financeiro_projected_card_info', fn: migration017FinanceiroProjectedCardInfo },
     { name: '018_knowledge_packages', fn: migration018KnowledgePackages },
     { name: '019_google_drive_tokens', fn: migration019GoogleDriveTokens },
+    { name: '020_sync_sessions', fn: migration020SyncSessions },
+    { name: '021_ai_usage', fn: migration021AIUsage },
+    { name: '022_workspaces', fn: migration022Workspaces },
+    { name: '023_model_revisions', fn: migration023ModelRevisions },
+    { name: '024_audit_log', fn: migration024AuditLog },
+    { name: '025_financeiro_budgets', fn: migration025FinanceiroBudgets },
+    { name: '026_noticias_clusters', fn: migration026NoticiasClusters },
+    { name: '027_analysis_jobs', fn: migration027AnalysisJobs },
   ];
 
   const applied = db.prepare('SELECT name FROM migrations').all().map(r => r.name);
@@ -688,5 +696,237 @@ function migration019GoogleDriveTokens(db) {
   console.log('[Database] Migration 019: Created google_drive_tokens table');
 }
 
+// Migration 020 v1.53.41 — Sessões de trabalho sincronizadas (E2E)
+// label e payload chegam encriptados pelo cliente (frase-senha); o servidor só
+// guarda o envelope e controla conflitos por sync_version, como em models.
+function migration020SyncSessions(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sync_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      label_cipher TEXT NOT NULL,
+      payload_cipher TEXT NOT NULL,
+      payload_size INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT,
+      sync_version INTEGER DEFAULT 1
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sync_sessions_user ON sync_sessions(user_id, updated_at);
+  `);
+  console.log('[Database] Migration 020: Created sync_sessions table');
+}
+
+// v1.53.42: Livro-razão de uso de IA (tokens e custo por usuário/app/operação)
+// e orçamentos mensais. ai_budgets.scope = 'default' ou user_id.
+function migration021AIUsage(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ai_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      app TEXT NOT NULL DEFAULT 'sentencify',
+      operation TEXT NOT NULL DEFAULT 'geral',
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_user_date ON ai_usage(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_ai_usage_date ON ai_usage(created_at);
+
+    CREATE TABLE IF NOT EXISTS ai_budgets (
+      scope TEXT PRIMARY KEY,
+      soft_limit_usd REAL,
+      hard_limit_usd REAL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  console.log('[Database] Migration 021: Created ai_usage and ai_budgets tables');
+}
+
+// v1.53.43: Gabinetes (workspaces) com papéis juiz/assessor/estagiário.
+// Modelos, pacotes de conhecimento e análises passam a poder pertencer a um
+// gabinete (workspace_id); user_id continua sendo o autor. Convites ficam em
+// workspace_members com user_id NULL até o aceite (casados por email).
+function migration022Workspaces(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      deleted_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS workspace_members (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+      user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+      email TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('juiz', 'assessor', 'estagiario')),
+      invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+      invited_at TEXT NOT NULL DEFAULT (datetime('now')),
+      accepted_at TEXT,
+      UNIQUE(workspace_id, email)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_wm_user ON workspace_members(user_id);
+    CREATE INDEX IF NOT EXISTS idx_wm_email ON workspace_members(email);
+
+    ALTER TABLE models ADD COLUMN workspace_id TEXT REFERENCES workspaces(id) ON DELETE SET NULL;
+    ALTER TABLE models ADD COLUMN approved_at TEXT;
+    ALTER TABLE models ADD COLUMN approved_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+    ALTER TABLE knowledge_packages ADD COLUMN workspace_id TEXT REFERENCES workspaces(id) ON DELETE SET NULL;
+    ALTER TABLE analyses ADD COLUMN workspace_id TEXT REFERENCES workspaces(id) ON DELETE SET NULL;
+    ALTER TABLE prova_oral_analyses ADD COLUMN workspace_id TEXT REFERENCES workspaces(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_models_workspace ON models(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_kp_workspace ON knowledge_packages(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_analyses_workspace ON analyses(workspace_id);
+    CREATE INDEX IF NOT EXISTS idx_poa_workspace ON prova_oral_analyses(workspace_id);
+  `);
+  console.log('[Database] Migration 022: Created workspaces and workspace_members tables');
+}
+
+// v1.53.44: Histórico de revisões dos modelos. Cada escrita (criação, edição,
+// restauração) grava o estado resultante com quem escreveu; edições em
+// bibliotecas compartilhadas deixam de apagar o texto anterior.
+function migration023ModelRevisions(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS model_revisions (
+      id TEXT PRIMARY KEY,
+      model_id TEXT NOT NULL,
+      user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      operation TEXT NOT NULL CHECK (operation IN ('baseline', 'create', 'update', 'restore')),
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      category TEXT,
+      keywords TEXT,
+      sync_version INTEGER NOT NULL,
+      restored_from TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_model_revisions_model ON model_revisions(model_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_sync_log_model ON sync_log(model_id);
+  `);
+  console.log('[Database] Migration 023: Created model_revisions table');
+}
+
+// v1.53.45: Trilha de auditoria (logins, magic links, compartilhamentos,
+// allowlist, exclusões em lote). Append-only: triggers recusam UPDATE/DELETE.
+// Sem FK para users — o registro sobrevive à exclusão do usuário.
+function migration024AuditLog(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      event TEXT NOT NULL,
+      outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure')),
+      status_code INTEGER,
+      user_id TEXT,
+      email TEXT,
+      ip TEXT,
+      user_agent TEXT,
+      target_type TEXT,
+      target_id TEXT,
+      details TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_event ON audit_log(event, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_email ON audit_log(email, created_at);
+
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log é append-only');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log é append-only');
+    END;
+  `);
+  console.log('[Database] Migration 024: Created append-only audit_log table');
+}
+
+// v1.53.47: Orçamentos mensais do financeiro, por categoria ou por titular do
+// cartão. target = category_id (scope 'category') ou card_holder (scope 'holder').
+function migration025FinanceiroBudgets(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS budgets (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      scope TEXT NOT NULL CHECK (scope IN ('category', 'holder')),
+      target TEXT NOT NULL,
+      monthly_limit REAL NOT NULL CHECK (monthly_limit > 0),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE(user_id, scope, target)
+    );
+    CREATE INDEX IF NOT EXISTS idx_budgets_user ON budgets(user_id);
+  `);
+  console.log('[Database] Migration 025: Created budgets table');
+}
+
+// v1.53.48: Agrupamento de notícias da mesma história (ver NewsClusterService).
+// NULL = ainda não agrupada; o backfill acontece na próxima ingestão.
+function migration026NoticiasClusters(db) {
+  db.exec(`
+    ALTER TABLE noticias ADD COLUMN cluster_id TEXT;
+    CREATE INDEX IF NOT EXISTS idx_noticias_cluster ON noticias(cluster_id);
+  `);
+  console.log('[Database] Migration 026: Added cluster_id to noticias');
+}
+
+// v1.53.51: Fila de lote do Analisador no servidor (ver AnalysisJobService).
+// request_body guarda a requisição pronta do proxy de IA (pode conter PDFs em
+// base64) e é apagado quando o item termina.
+function migration027AnalysisJobs(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS analysis_jobs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      workspace_id TEXT,
+      provider TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'recebendo'
+        CHECK (status IN ('recebendo', 'na_fila', 'processando', 'aguardando_chave', 'interrompido', 'concluido', 'cancelado')),
+      api_key_encrypted TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      finished_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user ON analysis_jobs(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+
+    CREATE TABLE IF NOT EXISTS analysis_job_items (
+      id TEXT PRIMARY KEY,
+      job_id TEXT NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      numero_processo TEXT,
+      nome_arquivo_peticao TEXT,
+      nomes_arquivos_emendas TEXT,
+      nomes_arquivos_contestacoes TEXT,
+      request_path TEXT NOT NULL,
+      request_body TEXT,
+      status TEXT NOT NULL DEFAULT 'pendente'
+        CHECK (status IN ('pendente', 'processando', 'concluido', 'erro', 'cancelado')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      analysis_id TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_analysis_job_items_job ON analysis_job_items(job_id, position);
+  `);
+  console.log('[Database] Migration 027: Created analysis_jobs and analysis_job_items tables');
+}
+
 export const getDb = () => db || initDatabase();
 export { DB_PATH };
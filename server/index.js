@@ -17,7 +17,7 @@ Sentry.init({
 import express from 'express';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { Readable } from 'stream';
 
 import claudeRoutes from './routes/claude.js';
@@ -25,6 +25,7 @@ import geminiRoutes from './routes/gemini.js';
 import openaiRoutes from './routes/openai.js';
 import grokRoutes from './routes/grok.js';
 import deepseekRoutes from './routes/deepseek.js';
+import localLlmRoutes from './routes/local-llm.js';
 import authRoutes from './routes/auth.js';
 import authMagicRoutes from './routes/auth-magic.js';
 import modelsRoutes from './routes/models.js';
@@ -32,21 +33,27 @@ import syncRoutes from './routes/sync.js';
 import knowledgePackagesRoutes from './routes/knowledge-packages.js';
 import adminRoutes from './routes/admin.js';
 import shareRoutes from './routes/share.js';
+import workspacesRoutes from './routes/workspaces.js';
 import analysesRoutes from './routes/analyses.js';
+import analysisJobsRoutes from './routes/analysis-jobs.js';
 import provaOralRoutes from './routes/prova-oral.js';
 import usersRoutes from './routes/users.js';
 import noticiasRoutes from './routes/noticias.js';
+import indicesRoutes from './routes/indices.js';
 import finExpensesRoutes from './routes/financeiro-expenses.js';
 import finCSVRoutes from './routes/financeiro-csv.js';
 import finCategorizeRoutes from './routes/financeiro-categorize.js';
 import finRecurringRoutes from './routes/financeiro-recurring.js';
 import finDashboardRoutes from './routes/financeiro-dashboard.js';
 import finSettingsRoutes from './routes/financeiro-settings.js';
+import finBudgetsRoutes from './routes/financeiro-budgets.js';
 import googleDriveRoutes from './routes/google-drive.js';
 import financeiroAccess from './middleware/financeiro-access.js';
 import authMiddleware from './middleware/auth.js';
+import aiBudget from './middleware/ai-budget.js';
 import { initDatabase } from './db/database.js';
 import rssScheduler from './services/RSSSchedulerService.js';
+import { recoverAnalysisJobs, getAnalysisJobUserId } from './services/AnalysisJobService.js';
 
 // Inicializar banco de dados SQLite
 initDatabase();
@@ -115,6 +122,8 @@ app.use((req, res, next) => {
     // mas os 7 paralelos ficam travados em "Refused to connect".
     // v1.45.x: localhost:* liberado para o provider "Claude Local (CLI)" — o frontend
     // (inclusive em produção) chama o daemon llm-bridge local (http://localhost:8787).
+    // v1.53.54: vale também para o provider "Local (OpenAI-compatível)" no modo direto;
+    // endpoint em outro host da rede usa o proxy /api/local-llm (isDirectLocalLlmUrl avisa na UI).
     "connect-src 'self' data: https://api.anthropic.com https://generativelanguage.googleapis.com https://api.openai.com https://api.x.ai https://api.deepseek.com https://www.googleapis.com https://accounts.google.com https://oauth2.googleapis.com https://github.com https://raw.githubusercontent.com https://cdn-lfs.huggingface.co https://huggingface.co https://cas-bridge.xethub.hf.co https://o4510650008076288.ingest.us.sentry.io https://cdn.quilljs.com https://cdn.jsdelivr.net https://cdnjs.cloudflare.com http://localhost:* http://127.0.0.1:*",
 
     // Frames: popup do Google OAuth
@@ -149,7 +158,9 @@ app.use(cors({
     }
     return callback(new Error('CORS não permitido'), false);
   },
-  credentials: true
+  credentials: true,
+  // v1.53.54: aviso de orçamento (middleware aiBudget) legível no cliente em dev (API_BASE em outra porta)
+  exposedHeaders: ['X-AI-Budget-Warning']
 }));
 
 // Cookie parser para CSRF tokens
@@ -171,12 +182,19 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// v1.53.51: chamadas do lote no servidor saem todas do loopback; contam por usuário
+const rateLimitKey = (req) => {
+  const jobUserId = getAnalysisJobUserId(req);
+  return jobUserId ? `analysis-job:${jobUserId}` : ipKeyGenerator(req.ip);
+};
+
 const aiLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minuto
   max: 30,
   message: { error: 'Limite de requisições IA atingido. Aguarde 1 minuto.' },
   standardHeaders: true,
   legacyHeaders: false,
+  keyGenerator: rateLimitKey,
 });
 
 const generalLimiter = rateLimit({
@@ -185,6 +203,7 @@ const generalLimiter = rateLimit({
   message: { error: 'Muitas requisições. Aguarde 1 minuto.' },
   standardHeaders: true,
   legacyHeaders: false,
+  keyGenerator: rateLimitKey,
 });
 
 // Aplicar rate limiters (ordem importa - específicos antes do geral)
@@ -194,6 +213,7 @@ app.use('/api/gemini', aiLimiter);
 app.use('/api/openai', aiLimiter);
 app.use('/api/grok', aiLimiter);
 app.use('/api/deepseek', aiLimiter);
+app.use('/api/local-llm', aiLimiter);
 app.use('/api/financeiro/categorize', aiLimiter);
 app.use('/api', generalLimiter);
 
@@ -216,9 +236,15 @@ app.use('/api/admin', adminRoutes);
 // Rotas de compartilhamento (v1.35.0)
 app.use('/api/share', shareRoutes);
 
+// Rotas de gabinetes com papéis (v1.53.43)
+app.use('/api/workspaces', workspacesRoutes);
+
 // Rotas de análises do Analisador de Prepauta (v1.39.0)
 app.use('/api/analyses', analysesRoutes);
 
+// Fila de lote do Analisador processada no servidor (v1.53.51)
+app.use('/api/analysis-jobs', analysisJobsRoutes);
+
 // Rotas de análises de Prova Oral (v1.39.08)
 app.use('/api/prova-oral', provaOralRoutes);
 
@@ -228,6 +254,9 @@ app.use('/api/users', usersRoutes);
 // Rotas de notícias jurídicas (v1.41.0)
 app.use('/api/noticias', noticiasRoutes);
 
+// Índices do Banco Central para a liquidação, com cache (v1.53.54)
+app.use('/api/indices', indicesRoutes);
+
 // Rotas do módulo Financeiro (GER_DESPESAS) - acesso restrito
 app.use('/api/financeiro/expenses', financeiroAccess, finExpensesRoutes);
 app.use('/api/financeiro/csv', financeiroAccess, finCSVRoutes);
@@ -235,6 +264,7 @@ app.use('/api/financeiro/categorize', financeiroAccess, finCategorizeRoutes);
 app.use('/api/financeiro/recurring', financeiroAccess, finRecurringRoutes);
 app.use('/api/financeiro/dashboard', financeiroAccess, finDashboardRoutes);
 app.use('/api/financeiro/settings', financeiroAccess, finSettingsRoutes);
+app.use('/api/financeiro/budgets', financeiroAccess, finBudgetsRoutes);
 
 // v1.42.00: Google Drive OAuth Authorization Code Flow
 app.use('/api/google-drive', googleDriveRoutes);
@@ -244,11 +274,15 @@ app.use('/api/google-drive', googleDriveRoutes);
 // o servidor para encaminhar prompts a provedores de IA). O frontend injeta o JWT
 // via installApiAuthInterceptor. O provider "Claude Local (CLI)" não passa por aqui
 // (chama o daemon bridge em localhost:8787 diretamente).
-app.use('/api/claude', authMiddleware, claudeRoutes);
-app.use('/api/gemini', authMiddleware, geminiRoutes);
-app.use('/api/openai', authMiddleware, openaiRoutes);
-app.use('/api/grok', authMiddleware, grokRoutes);
-app.use('/api/deepseek', authMiddleware, deepseekRoutes);
+// v1.53.42: aiBudget bloqueia chamadas acima do orçamento mensal; as rotas
+// registram tokens/custo em ai_usage (AIUsageService).
+app.use('/api/claude', authMiddleware, aiBudget, claudeRoutes);
+app.use('/api/gemini', authMiddleware, aiBudget, geminiRoutes);
+app.use('/api/openai', authMiddleware, aiBudget, openaiRoutes);
+app.use('/api/grok', authMiddleware, aiBudget, grokRoutes);
+app.use('/api/deepseek', authMiddleware, aiBudget, deepseekRoutes);
+// v1.53.38: endpoint OpenAI-compatível local (Ollama/llama.cpp/vLLM) — hosts via LOCAL_LLM_ALLOWED_HOSTS
+app.use('/api/local-llm', authMiddleware, localLlmRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -393,4 +427,7 @@ app.listen(PORT, () => {
 
   // Iniciar coleta automática de RSS (a cada 8 horas + fetch inicial 30s após startup)
   rssScheduler.start();
+
+  // v1.53.51: lotes do Analisador interrompidos pelo reinício aguardam a chave
+  recoverAnalysisJobs();
 });
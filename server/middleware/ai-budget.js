@@ -0,0 +1,34 @@
+// server/middleware/ai-budget.js
+// v1.53.42: Orçamento mensal de IA nas rotas de proxy (/api/claude etc.)
+// Acima do limite de bloqueio → 402; acima do limite de alerta a chamada segue
+// com o header X-AI-Budget-Warning ("gasto/limite" em USD).
+// v1.53.54: header exposto no CORS; o cliente lê ambos em src/utils/aiBudget.ts.
+
+import { getBudget, getMonthlySpend, budgetStatus } from '../services/AIUsageService.js';
+
+export default function aiBudget(req, res, next) {
+  if (req.method !== 'POST' || !req.user?.id) return next();
+
+  try {
+    const budget = getBudget(req.user.id);
+    if (budget.soft === null && budget.hard === null) return next();
+
+    const spent = getMonthlySpend(req.user.id);
+    const status = budgetStatus(spent, budget);
+    if (status === 'bloqueado') {
+      return res.status(402).json({
+        error: {
+          type: 'budget_exceeded',
+          message: `Limite mensal de uso de IA atingido (US$ ${spent.toFixed(2)} de US$ ${budget.hard.toFixed(2)}). Procure o administrador.`,
+        },
+      });
+    }
+    if (status === 'alerta') {
+      res.setHeader('X-AI-Budget-Warning', `${spent.toFixed(2)}/${budget.soft.toFixed(2)}`);
+    }
+  } catch (error) {
+    // Falha ao consultar o ledger não bloqueia a IA
+    console.error('[AIBudget] Erro ao verificar orçamento:', error.message);
+  }
+  next();
+}
@@ -0,0 +1,20 @@
+// server/middleware/audit.js
+// v1.53.45: Trilha de auditoria nas rotas sensíveis (ver AuditService)
+// Uso: router.post('/rota', authMiddleware, audit('share.create'), handler).
+// O handler completa o registro em res.locals.audit ({ targetType, targetId,
+// details } e, em rotas sem login, { userId, email }); o evento é gravado
+// quando a resposta termina, com o status HTTP definindo sucesso ou falha.
+// { skip: true } descarta o evento (ex.: push de sync sem exclusão em lote).
+
+import { recordAuditEvent } from '../services/AuditService.js';
+
+export default function audit(event) {
+  return (req, res, next) => {
+    res.locals.audit = {};
+    res.on('finish', () => {
+      if (res.locals.audit.skip) return;
+      recordAuditEvent({ ...res.locals.audit, event, req, statusCode: res.statusCode });
+    });
+    next();
+  };
+}
@@ -1,9 +1,14 @@
 // server/routes/admin.js - Rotas de Administração
 // v1.0.0 - CRUD de emails autorizados (protegido por senha)
+// v1.53.42 - Relatório mensal de uso de IA e orçamentos por usuário
+// v1.53.45 - Trilha de auditoria: consulta, exportação CSV e registro das mudanças na allowlist
 
 import { Router } from 'express';
 import crypto from 'crypto';
 import { getDb } from '../db/database.js';
+import { getMonthlyReport, listBudgets, setBudget, deleteBudget, currentMonth } from '../services/AIUsageService.js';
+import { AUDIT_EVENTS, queryAuditLog, exportAuditCsv } from '../services/AuditService.js';
+import audit from '../middleware/audit.js';
 
 const router = Router();
 
@@ -81,9 +86,11 @@ router.get('/emails', (req, res) => {
  * Adiciona um email autorizado
  * Body: { email: string }
  */
-router.post('/emails', (req, res) => {
+router.post('/emails', audit('admin.allowed_email_add'), (req, res) => {
   try {
     const { email } = req.body;
+    // Ações do painel não têm usuário: o ator é a senha de admin (+ IP)
+    res.locals.audit = { email: 'admin', targetType: 'allowed_email', targetId: email };
 
     if (!email || !email.includes('@')) {
       return res.status(400).json({ error: 'Email inválido' });
@@ -105,6 +112,7 @@ router.post('/emails', (req, res) => {
     `).run(normalizedEmail, 'admin');
 
     console.log(`[Admin] Email adicionado: ${normalizedEmail}`);
+    res.locals.audit.targetId = normalizedEmail;
 
     res.status(201).json({
       success: true,
@@ -124,9 +132,10 @@ router.post('/emails', (req, res) => {
  * DELETE /api/admin/emails/:id
  * Remove um email autorizado
  */
-router.delete('/emails/:id', (req, res) => {
+router.delete('/emails/:id', audit('admin.allowed_email_remove'), (req, res) => {
   try {
     const { id } = req.params;
+    res.locals.audit = { email: 'admin', targetType: 'allowed_email', targetId: id };
     const db = getDb();
 
     // Buscar email antes de deletar (para log)
@@ -136,6 +145,7 @@ router.delete('/emails/:id', (req, res) => {
       return res.status(404).json({ error: 'Email não encontrado' });
     }
 
+    res.locals.audit.targetId = email.email;
     db.prepare('DELETE FROM allowed_emails WHERE id = ?').run(id);
 
     console.log(`[Admin] Email removido: ${email.email}`);
@@ -168,4 +178,108 @@ router.get('/stats', (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/ai-usage?month=YYYY-MM
+ * Relatório mensal do ledger de IA (por usuário, app, operação e modelo)
+ */
+router.get('/ai-usage', (req, res) => {
+  try {
+    const month = typeof req.query.month === 'string' && /^\d{4}-\d{2}$/.test(req.query.month)
+      ? req.query.month
+      : currentMonth();
+
+    res.json(getMonthlyReport(month));
+  } catch (error) {
+    console.error('[Admin] Erro ao gerar relatório de IA:', error);
+    res.status(500).json({ error: 'Erro ao gerar relatório de uso de IA' });
+  }
+});
+
+/**
+ * GET /api/admin/ai-budgets
+ * Lista orçamentos (padrão + exceções por usuário)
+ */
+router.get('/ai-budgets', (req, res) => {
+  try {
+    res.json({ budgets: listBudgets() });
+  } catch (error) {
+    console.error('[Admin] Erro ao listar orçamentos:', error);
+    res.status(500).json({ error: 'Erro ao listar orçamentos' });
+  }
+});
+
+/**
+ * PUT /api/admin/ai-budgets
+ * Define o orçamento mensal (USD) — padrão ou de um usuário
+ * Body: { email?: string, softLimitUSD: number|null, hardLimitUSD: number|null }
+ */
+router.put('/ai-budgets', (req, res) => {
+  try {
+    const { email, softLimitUSD = null, hardLimitUSD = null } = req.body;
+    const isLimit = (v) => v === null || (typeof v === 'number' && Number.isFinite(v) && v >= 0);
+
+    if (!isLimit(softLimitUSD) || !isLimit(hardLimitUSD)) {
+      return res.status(400).json({ error: 'Limites devem ser números não negativos' });
+    }
+    if (softLimitUSD !== null && hardLimitUSD !== null && softLimitUSD > hardLimitUSD) {
+      return res.status(400).json({ error: 'O limite de alerta não pode ser maior que o de bloqueio' });
+    }
+
+    let scope = 'default';
+    if (email) {
+      const user = getDb().prepare('SELECT id FROM users WHERE email = ?').get(String(email).toLowerCase().trim());
+      if (!user) {
+        return res.status(404).json({ error: 'Usuário não encontrado (precisa ter feito login ao menos uma vez)' });
+      }
+      scope = user.id;
+    }
+
+    setBudget(scope, softLimitUSD, hardLimitUSD);
+    console.log(`[Admin] Orçamento de IA atualizado: ${email || 'padrão'} (${softLimitUSD}/${hardLimitUSD})`);
+
+    res.json({ success: true, budgets: listBudgets() });
+  } catch (error) {
+    console.error('[Admin] Erro ao salvar orçamento:', error);
+    res.status(500).json({ error: 'Erro ao salvar orçamento' });
+  }
+});
+
+/**
+ * DELETE /api/admin/ai-budgets/:scope
+ * Remove a exceção de um usuário (volta ao padrão) ou o padrão
+ */
+router.delete('/ai-budgets/:scope', (req, res) => {
+  try {
+    if (!deleteBudget(req.params.scope)) {
+      return res.status(404).json({ error: 'Orçamento não encontrado' });
+    }
+    res.json({ success: true, budgets: listBudgets() });
+  } catch (error) {
+    console.error('[Admin] Erro ao remover orçamento:', error);
+    res.status(500).json({ error: 'Erro ao remover orçamento' });
+  }
+});
+
+/**
+ * GET /api/admin/audit?from=YYYY-MM-DD&to=YYYY-MM-DD&event=&email=&outcome=&limit=&offset=
+ * Trilha de auditoria (mais recentes primeiro) + catálogo de eventos
+ * Com format=csv devolve o arquivo com os mesmos filtros (até 50 mil linhas)
+ */
+router.get('/audit', (req, res) => {
+  try {
+    if (req.query.format === 'csv') {
+      const filename = `auditoria-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      // BOM para o Excel reconhecer UTF-8
+      return res.send(`\uFEFF${exportAuditCsv(req.query)}`);
+    }
+
+    res.json({ ...queryAuditLog(req.query), events: AUDIT_EVENTS });
+  } catch (error) {
+    console.error('[Admin] Erro ao consultar auditoria:', error);
+    res.status(500).json({ error: 'Erro ao consultar a trilha de auditoria' });
+  }
+});
+
 export default router;
@@ -1,10 +1,16 @@
 // server/routes/analyses.js - CRUD de Análises de Prepauta
 // v1.39.0 - API REST para análises do Analisador de Prepauta
+// v1.53.43 - Análises de gabinete: acesso por papel (WorkspaceService.accessWhere)
+// v1.53.45 - Exclusão em lote entra na trilha de auditoria
+// v1.53.53 - GET /antecedentes: processos anteriores contra as mesmas reclamadas
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import audit from '../middleware/audit.js';
+import { accessWhere, resolveActiveWorkspace } from '../services/WorkspaceService.js';
+import { findAntecedentes } from '../services/PartyIndexService.js';
 
 const router = express.Router();
 
@@ -49,7 +55,7 @@ router.use(authMiddleware);
 router.get('/', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
+    const access = accessWhere(req.user.id, 'view');
     const { search, resultado, dataPauta } = req.query;
 
     let query = `
@@ -57,11 +63,11 @@ router.get('/', (req, res) => {
              nome_arquivo_peticao, nome_arquivo_contestacao,
              nomes_arquivos_emendas, nomes_arquivos_contestacoes,
              data_pauta, horario_audiencia, resultado_audiencia,
-             pendencias, observacoes, sintese, resultado, created_at, updated_at
+             pendencias, observacoes, sintese, resultado, created_at, updated_at, workspace_id
       FROM analyses
-      WHERE user_id = ? AND deleted_at IS NULL
+      WHERE ${access.sql} AND deleted_at IS NULL
     `;
-    const params = [userId];
+    const params = [...access.params];
 
     // Filtro por busca (número do processo ou reclamante)
     if (search) {
@@ -105,6 +111,7 @@ router.get('/', (req, res) => {
       resultado: safeJsonParse(a.resultado, {}),
       createdAt: a.created_at,
       updatedAt: a.updated_at,
+      workspaceId: a.workspace_id || null,
     }));
 
     res.json({ analyses: result, count: result.length });
@@ -114,6 +121,38 @@ router.get('/', (req, res) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// GET /api/analyses/antecedentes - Antecedentes das reclamadas
+// ?reclamada=...&reclamada=...&excludeId=...&numeroProcesso=...
+// Busca em análises de prepauta e de prova oral (PartyIndexService)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Reclamadas consultadas por requisição */
+const MAX_RECLAMADAS = 10;
+
+router.get('/antecedentes', (req, res) => {
+  try {
+    const { excludeId, numeroProcesso } = req.query;
+    const reclamadas = [].concat(req.query.reclamada || [])
+      .filter(r => typeof r === 'string' && r.trim())
+      .slice(0, MAX_RECLAMADAS);
+
+    if (reclamadas.length === 0) {
+      return res.status(400).json({ error: 'Informe ao menos uma reclamada' });
+    }
+
+    const antecedentes = findAntecedentes(req.user.id, reclamadas, {
+      excludeId: typeof excludeId === 'string' ? excludeId : undefined,
+      numeroProcesso: typeof numeroProcesso === 'string' ? numeroProcesso : undefined,
+    });
+
+    res.json({ antecedentes });
+  } catch (error) {
+    console.error('[Analyses] Antecedentes error:', error);
+    res.status(500).json({ error: 'Erro ao buscar antecedentes' });
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // GET /api/analyses/:id - Retornar análise específica
 // ═══════════════════════════════════════════════════════════════════════════
@@ -121,18 +160,18 @@ router.get('/', (req, res) => {
 router.get('/:id', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
     const { id } = req.params;
+    const access = accessWhere(req.user.id, 'view');
 
     const analysis = db.prepare(`
       SELECT id, numero_processo, reclamante, reclamadas,
              nome_arquivo_peticao, nome_arquivo_contestacao,
              nomes_arquivos_emendas, nomes_arquivos_contestacoes,
              data_pauta, horario_audiencia, resultado_audiencia,
-             pendencias, observacoes, sintese, resultado, created_at, updated_at
+             pendencias, observacoes, sintese, resultado, created_at, updated_at, workspace_id
       FROM analyses
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).get(id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).get(id, ...access.params);
 
     if (!analysis) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -157,6 +196,7 @@ router.get('/:id', (req, res) => {
       resultado: safeJsonParse(analysis.resultado, {}),
       createdAt: analysis.created_at,
       updatedAt: analysis.updated_at,
+      workspaceId: analysis.workspace_id || null,
     });
   } catch (error) {
     console.error('[Analyses] Get error:', error);
@@ -206,9 +246,9 @@ router.post('/', (req, res) => {
         nome_arquivo_peticao, nome_arquivo_contestacao,
         nomes_arquivos_emendas, nomes_arquivos_contestacoes,
         data_pauta, horario_audiencia, resultado,
-        created_at, updated_at
+        created_at, updated_at, workspace_id
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       id,
       userId,
@@ -223,7 +263,8 @@ router.post('/', (req, res) => {
       horarioAudiencia || null,
       JSON.stringify(resultado),
       now,
-      now
+      now,
+      resolveActiveWorkspace(req, 'create')?.workspace_id || null
     );
 
     res.status(201).json({
@@ -257,11 +298,12 @@ router.put('/:id/replace', (req, res) => {
       return res.status(400).json({ error: 'Resultado da análise é obrigatório' });
     }
 
-    // Verificar se análise existe
+    // Verificar se análise existe (e se o papel no gabinete permite editar)
+    const access = accessWhere(userId, 'edit');
     const existing = db.prepare(`
       SELECT id FROM analyses
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).get(id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).get(id, ...access.params);
 
     if (!existing) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -286,7 +328,7 @@ router.put('/:id/replace', (req, res) => {
           nomes_arquivos_emendas = COALESCE(?, nomes_arquivos_emendas),
           nomes_arquivos_contestacoes = ?,
           updated_at = ?
-      WHERE id = ? AND user_id = ?
+      WHERE id = ?
     `).run(
       JSON.stringify(resultado),
       numeroProcesso,
@@ -296,8 +338,7 @@ router.put('/:id/replace', (req, res) => {
       nomesArquivosEmendas ? JSON.stringify(nomesArquivosEmendas) : null,
       JSON.stringify(nomesArquivosContestacoes || []),
       now,
-      id,
-      userId
+      id
     );
 
     res.json({ id, message: 'Análise substituída com sucesso' });
@@ -329,11 +370,12 @@ router.put('/:id', (req, res) => {
       return res.status(400).json({ error: 'dataPauta deve estar em formato YYYY-MM-DD' });
     }
 
-    // Verificar se análise existe
+    // Verificar se análise existe (e se o papel no gabinete permite editar)
+    const access = accessWhere(userId, 'edit');
     const existing = db.prepare(`
       SELECT id FROM analyses
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).get(id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).get(id, ...access.params);
 
     if (!existing) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -351,7 +393,7 @@ router.put('/:id', (req, res) => {
           observacoes = COALESCE(?, observacoes),
           sintese = COALESCE(?, sintese),
           updated_at = ?
-      WHERE id = ? AND user_id = ?
+      WHERE id = ?
     `).run(
       dataPauta,
       horarioAudiencia,
@@ -360,8 +402,7 @@ router.put('/:id', (req, res) => {
       observacoes,
       sintese,
       now,
-      id,
-      userId
+      id
     );
 
     res.json({
@@ -398,12 +439,13 @@ router.put('/batch/data-pauta', (req, res) => {
 
     const now = new Date().toISOString();
     const placeholders = ids.map(() => '?').join(',');
+    const access = accessWhere(userId, 'edit');
 
     const result = db.prepare(`
       UPDATE analyses
       SET data_pauta = ?, updated_at = ?
-      WHERE id IN (${placeholders}) AND user_id = ? AND deleted_at IS NULL
-    `).run(dataPauta, now, ...ids, userId);
+      WHERE id IN (${placeholders}) AND ${access.sql} AND deleted_at IS NULL
+    `).run(dataPauta, now, ...ids, ...access.params);
 
     res.json({
       message: `${result.changes} análise(s) atualizada(s)`,
@@ -420,7 +462,7 @@ router.put('/batch/data-pauta', (req, res) => {
 // (DEVE vir antes de /:id para não ser capturado como parâmetro)
 // ═══════════════════════════════════════════════════════════════════════════
 
-router.delete('/batch', (req, res) => {
+router.delete('/batch', audit('analyses.bulk_delete'), (req, res) => {
   try {
     const db = getDb();
     const userId = req.user.id;
@@ -436,12 +478,14 @@ router.delete('/batch', (req, res) => {
 
     const now = new Date().toISOString();
     const placeholders = ids.map(() => '?').join(',');
+    const access = accessWhere(userId, 'delete');
 
     const result = db.prepare(`
       UPDATE analyses
       SET deleted_at = ?, updated_at = ?
-      WHERE id IN (${placeholders}) AND user_id = ? AND deleted_at IS NULL
-    `).run(now, now, ...ids, userId);
+      WHERE id IN (${placeholders}) AND ${access.sql} AND deleted_at IS NULL
+    `).run(now, now, ...ids, ...access.params);
+    res.locals.audit = { targetType: 'analyses', details: { requested: ids.length, deleted: result.changes, ids } };
 
     res.json({
       message: `${result.changes} análise(s) removida(s)`,
@@ -464,12 +508,13 @@ router.delete('/:id', (req, res) => {
     const { id } = req.params;
 
     const now = new Date().toISOString();
+    const access = accessWhere(userId, 'delete');
 
     const result = db.prepare(`
       UPDATE analyses
       SET deleted_at = ?, updated_at = ?
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).run(now, now, id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).run(now, now, id, ...access.params);
 
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -0,0 +1,290 @@
+// server/routes/analysis-jobs.js - Fila de lote do Analisador no servidor
+// v1.53.51 - Lotes persistentes: o navegador envia as requisições e pode fechar
+//
+// Fluxo: POST / (cria, status 'recebendo') → POST /:id/items (um por processo,
+// para não mandar dezenas de PDFs em base64 num único corpo) → POST /:id/start.
+// O processamento fica em AnalysisJobService; o cliente acompanha com GET.
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/database.js';
+import authMiddleware from '../middleware/auth.js';
+import { resolveActiveWorkspace } from '../services/WorkspaceService.js';
+import {
+  JOB_PROXY_PATHS,
+  enqueueJob,
+  cancelJob,
+  resetFailedItems,
+  forgetJob,
+} from '../services/AnalysisJobService.js';
+
+const router = express.Router();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Lotes mostrados na listagem */
+const LIST_LIMIT = 20;
+
+function safeJsonParse(jsonStr, fallback = []) {
+  if (!jsonStr) return fallback;
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    return fallback;
+  }
+}
+
+/** Lote do usuário (lotes são pessoais, mesmo quando salvam no gabinete) */
+const getOwnJob = (id, userId) =>
+  getDb().prepare('SELECT * FROM analysis_jobs WHERE id = ? AND user_id = ?').get(id, userId);
+
+function serializeJob(job) {
+  const db = getDb();
+  const counts = db.prepare(`
+    SELECT status, COUNT(*) AS n FROM analysis_job_items WHERE job_id = ? GROUP BY status
+  `).all(job.id).reduce((acc, r) => ({ ...acc, [r.status]: r.n }), {});
+
+  const items = db.prepare(`
+    SELECT id, position, numero_processo, nome_arquivo_peticao, nomes_arquivos_contestacoes,
+           status, attempts, error, analysis_id, updated_at
+    FROM analysis_job_items WHERE job_id = ? ORDER BY position
+  `).all(job.id).map(i => ({
+    id: i.id,
+    position: i.position,
+    numeroProcesso: i.numero_processo,
+    nomeArquivoPeticao: i.nome_arquivo_peticao,
+    nomesArquivosContestacoes: safeJsonParse(i.nomes_arquivos_contestacoes, []),
+    status: i.status,
+    attempts: i.attempts,
+    error: i.error,
+    analysisId: i.analysis_id,
+    updatedAt: i.updated_at,
+  }));
+
+  return {
+    id: job.id,
+    provider: job.provider,
+    status: job.status,
+    total: items.length,
+    concluidos: counts.concluido || 0,
+    erros: counts.erro || 0,
+    pendentes: (counts.pendente || 0) + (counts.processando || 0),
+    /** Motivo da interrupção (chave inválida, orçamento de IA esgotado) */
+    error: job.error,
+    items,
+    /** Chave cifrada no lote: retoma sozinho após reinício do servidor */
+    chavePersistida: Boolean(job.api_key_encrypted),
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    finishedAt: job.finished_at,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MIDDLEWARE
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.use(authMiddleware);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GET /api/analysis-jobs - Lotes recentes do usuário
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.get('/', (req, res) => {
+  try {
+    const jobs = getDb().prepare(`
+      SELECT * FROM analysis_jobs WHERE user_id = ? ORDER BY created_at DESC LIMIT ?
+    `).all(req.user.id, LIST_LIMIT);
+
+    res.json({ jobs: jobs.map(serializeJob) });
+  } catch (error) {
+    console.error('[AnalysisJobs] List error:', error);
+    res.status(500).json({ error: 'Erro ao listar lotes' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GET /api/analysis-jobs/:id - Progresso por processo
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.get('/:id', (req, res) => {
+  try {
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    res.json(serializeJob(job));
+  } catch (error) {
+    console.error('[AnalysisJobs] Get error:', error);
+    res.status(500).json({ error: 'Erro ao buscar lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/analysis-jobs - Criar lote (status 'recebendo')
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/', (req, res) => {
+  try {
+    const { provider } = req.body;
+    if (!JOB_PROXY_PATHS[provider]) {
+      return res.status(400).json({ error: 'Provider não suportado no processamento em servidor' });
+    }
+
+    const id = uuidv4();
+    getDb().prepare(`
+      INSERT INTO analysis_jobs (id, user_id, workspace_id, provider) VALUES (?, ?, ?, ?)
+    `).run(id, req.user.id, resolveActiveWorkspace(req, 'create')?.workspace_id || null, provider);
+
+    res.status(201).json({ id });
+  } catch (error) {
+    console.error('[AnalysisJobs] Create error:', error);
+    res.status(500).json({ error: 'Erro ao criar lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/analysis-jobs/:id/items - Adicionar um processo ao lote
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/:id/items', (req, res) => {
+  try {
+    const db = getDb();
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    if (job.status !== 'recebendo') {
+      return res.status(409).json({ error: 'Lote já iniciado' });
+    }
+
+    const { numeroProcesso, nomeArquivoPeticao, nomesArquivosEmendas, nomesArquivosContestacoes, request } = req.body;
+    if (!request?.body || request.path !== JOB_PROXY_PATHS[job.provider]) {
+      return res.status(400).json({ error: 'Requisição de IA inválida para o provider do lote' });
+    }
+
+    const { next } = db.prepare(`
+      SELECT COALESCE(MAX(position), -1) + 1 AS next FROM analysis_job_items WHERE job_id = ?
+    `).get(job.id);
+
+    const id = uuidv4();
+    db.prepare(`
+      INSERT INTO analysis_job_items (
+        id, job_id, position, numero_processo, nome_arquivo_peticao,
+        nomes_arquivos_emendas, nomes_arquivos_contestacoes, request_path, request_body
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      job.id,
+      next,
+      numeroProcesso || null,
+      nomeArquivoPeticao || null,
+      JSON.stringify(nomesArquivosEmendas || []),
+      JSON.stringify(nomesArquivosContestacoes || []),
+      request.path,
+      JSON.stringify(request.body)
+    );
+
+    res.status(201).json({ id, position: next });
+  } catch (error) {
+    console.error('[AnalysisJobs] Add item error:', error);
+    res.status(500).json({ error: 'Erro ao adicionar processo ao lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/analysis-jobs/:id/start - Iniciar processamento
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/:id/start', (req, res) => {
+  try {
+    const apiKey = req.headers['x-api-key'];
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    if (!apiKey) return res.status(401).json({ error: 'API key não fornecida' });
+    if (job.status !== 'recebendo') {
+      return res.status(409).json({ error: 'Lote já iniciado' });
+    }
+
+    const { total } = getDb().prepare('SELECT COUNT(*) AS total FROM analysis_job_items WHERE job_id = ?').get(job.id);
+    if (total === 0) return res.status(400).json({ error: 'Lote sem processos' });
+
+    enqueueJob(job.id, apiKey);
+    res.json(serializeJob(getOwnJob(job.id, req.user.id)));
+  } catch (error) {
+    console.error('[AnalysisJobs] Start error:', error);
+    res.status(500).json({ error: 'Erro ao iniciar lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/analysis-jobs/:id/resume - Reenviar a chave / repetir falhas
+// Usado após reinício do servidor sem chave cifrada ('aguardando_chave'),
+// após interrupção por chave/orçamento ('interrompido') e para reprocessar
+// processos com erro de um lote concluído.
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/:id/resume', (req, res) => {
+  try {
+    const apiKey = req.headers['x-api-key'];
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    if (!apiKey) return res.status(401).json({ error: 'API key não fornecida' });
+    if (['recebendo', 'cancelado'].includes(job.status)) {
+      return res.status(409).json({ error: 'Lote não pode ser retomado' });
+    }
+
+    const retried = resetFailedItems(job.id);
+    if (job.status === 'concluido' && retried === 0) {
+      return res.status(409).json({ error: 'Nenhum processo para reprocessar' });
+    }
+
+    enqueueJob(job.id, apiKey);
+    res.json(serializeJob(getOwnJob(job.id, req.user.id)));
+  } catch (error) {
+    console.error('[AnalysisJobs] Resume error:', error);
+    res.status(500).json({ error: 'Erro ao retomar lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/analysis-jobs/:id/cancel - Cancelar pendentes
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/:id/cancel', (req, res) => {
+  try {
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    if (['concluido', 'cancelado'].includes(job.status)) {
+      return res.status(409).json({ error: 'Lote já finalizado' });
+    }
+
+    cancelJob(job.id);
+    res.json(serializeJob(getOwnJob(job.id, req.user.id)));
+  } catch (error) {
+    console.error('[AnalysisJobs] Cancel error:', error);
+    res.status(500).json({ error: 'Erro ao cancelar lote' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DELETE /api/analysis-jobs/:id - Remover lote finalizado (análises ficam)
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.delete('/:id', (req, res) => {
+  try {
+    const job = getOwnJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Lote não encontrado' });
+    if (['na_fila', 'processando'].includes(job.status)) {
+      return res.status(409).json({ error: 'Cancele o lote antes de removê-lo' });
+    }
+
+    forgetJob(job.id);
+    getDb().prepare('DELETE FROM analysis_jobs WHERE id = ?').run(job.id);
+    res.json({ message: 'Lote removido' });
+  } catch (error) {
+    console.error('[AnalysisJobs] Delete error:', error);
+    res.status(500).json({ error: 'Erro ao remover lote' });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 // server/routes/auth-magic.js - Magic Link Authentication Routes
 // v1.0.1 - Validação de emails autorizados (allowed_emails)
+// v1.1.0 - Trilha de auditoria (pedidos de link, logins, logout)
 
 import express from 'express';
 import crypto from 'crypto';
@@ -9,6 +10,7 @@ import { getDb } from '../db/database.js';
 import EmailService from '../services/EmailService.js';
 import authMiddleware from '../middleware/auth.js';
 import { generateCSRFToken } from '../middleware/csrf.js';
+import audit from '../middleware/audit.js';
 
 const router = express.Router();
 
@@ -19,9 +21,10 @@ const MAGIC_LINK_EXPIRES_MINUTES = 15;
 
 // POST /api/auth/request-link
 // Solicita um magic link para o email fornecido
-router.post('/request-link', async (req, res) => {
+router.post('/request-link', audit('auth.magic_link_request'), async (req, res) => {
   try {
     const { email } = req.body;
+    res.locals.audit.email = typeof email === 'string' ? email.trim().slice(0, 254) : undefined;
 
     // v1.35.18: Log para diagnóstico de rate limiting
     console.log(`[Auth] Magic link request - IP: ${req.ip}, Email: ${email || '(vazio)'}, UA: ${req.get('User-Agent')?.substring(0, 60) || '(sem UA)'}`);
@@ -49,6 +52,7 @@ router.post('/request-link', async (req, res) => {
       user = { id: userId, email: normalizedEmail };
       console.log(`[Auth] New user created: ${normalizedEmail}`);
     }
+    res.locals.audit.userId = user.id;
 
     // Gerar token único
     const token = crypto.randomBytes(32).toString('hex');
@@ -82,7 +86,7 @@ router.post('/request-link', async (req, res) => {
 
 // GET /api/auth/verify/:token
 // Valida o token do magic link e retorna JWT
-router.get('/verify/:token', (req, res) => {
+router.get('/verify/:token', audit('auth.login'), (req, res) => {
   try {
     const { token } = req.params;
     const db = getDb();
@@ -122,6 +126,7 @@ router.get('/verify/:token', (req, res) => {
     `).run(uuidv4(), magicLink.user_id, refreshToken, refreshExpiresAt);
 
     console.log(`[Auth] User authenticated: ${magicLink.email}`);
+    res.locals.audit = { userId: magicLink.user_id, email: magicLink.email };
 
     res.json({
       accessToken,
@@ -143,7 +148,7 @@ router.get('/verify/:token', (req, res) => {
 //
 // DUPLA TRAVA: só responde se NODE_ENV !== 'production' E DEV_AUTH_BYPASS === 'true'.
 // Em produção (NODE_ENV=production no Render) retorna 404 sempre.
-router.post('/dev-login', (req, res) => {
+router.post('/dev-login', audit('auth.dev_login'), (req, res) => {
   if (process.env.NODE_ENV === 'production' || process.env.DEV_AUTH_BYPASS !== 'true') {
     return res.status(404).json({ error: 'Not found' });
   }
@@ -183,6 +188,7 @@ router.post('/dev-login', (req, res) => {
     `).run(uuidv4(), user.id, refreshToken, refreshExpiresAt);
 
     console.log(`[Auth] Dev-login: ${email}`);
+    res.locals.audit = { userId: user.id, email: user.email };
 
     res.json({
       accessToken,
@@ -252,7 +258,7 @@ router.get('/me', authMiddleware, (req, res) => {
 
 // POST /api/auth/logout
 // Revoga o refresh token
-router.post('/logout', authMiddleware, (req, res) => {
+router.post('/logout', authMiddleware, audit('auth.logout'), (req, res) => {
   try {
     const { refreshToken } = req.body;
     const db = getDb();
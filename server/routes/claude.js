@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { recordAIUsage } from '../services/AIUsageService.js';
 
 const router = Router();
 
@@ -39,6 +40,8 @@ router.post('/messages', async (req, res) => {
         `${data.usage?.input_tokens || 0} in / ${data.usage?.output_tokens || 0} out`);
     }
 
+    if (response.ok) recordAIUsage(req, 'claude', req.body.model, data.usage);
+
     res.status(response.status).json(data);
 
   } catch (error) {
@@ -101,6 +104,9 @@ router.post('/stream', async (req, res) => {
     const decoder = new TextDecoder();
     let buffer = '';
     let usage = null;
+    // v1.53.42: usage completo para o ledger (message_start traz entrada/cache,
+    // message_delta traz a saída final)
+    let ledgerUsage = {};
 
     while (true) {
       const { done, value } = await reader.read();
@@ -124,6 +130,7 @@ router.post('/stream', async (req, res) => {
             }
 
             if (parsed.type === 'message_delta' && parsed.usage) {
+              ledgerUsage = { ...ledgerUsage, output_tokens: parsed.usage.output_tokens || 0 };
               usage = {
                 input_tokens: parsed.usage.input_tokens || 0,
                 output_tokens: parsed.usage.output_tokens || 0
@@ -132,6 +139,7 @@ router.post('/stream', async (req, res) => {
 
             if (parsed.type === 'message_start' && parsed.message?.usage) {
               usage = parsed.message.usage;
+              ledgerUsage = { ...parsed.message.usage };
             }
           } catch (e) {
             // Ignorar erros de parse (event: lines, etc)
@@ -141,6 +149,7 @@ router.post('/stream', async (req, res) => {
     }
 
     clearInterval(keepAlive);
+    recordAIUsage(req, 'claude', req.body.model, ledgerUsage);
     res.end();
 
   } catch (error) {
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { recordAIUsage } from '../services/AIUsageService.js';
 
 const router = Router();
 
@@ -53,6 +54,8 @@ router.post('/chat', async (req, res) => {
       console.error(`[DeepSeek] API Error: ${data.error.message}`);
     }
 
+    if (response.ok) recordAIUsage(req, 'deepseek', req.body.model, data.usage);
+
     res.status(response.status).json(data);
 
   } catch (error) {
@@ -179,6 +182,7 @@ router.post('/stream', async (req, res) => {
     }
 
     clearInterval(keepAlive);
+    recordAIUsage(req, 'deepseek', req.body.model, usage);
     res.end();
 
   } catch (error) {
@@ -0,0 +1,83 @@
+import express from 'express';
+import { getDb } from '../db/database.js';
+import authMiddleware from '../middleware/auth.js';
+import FinBudgetService from '../services/FinBudgetService.js';
+
+const router = express.Router();
+
+/** Valida o corpo de criação; retorna mensagem de erro ou null */
+function validateBudget(db, { scope, target, monthly_limit }) {
+  if (scope !== 'category' && scope !== 'holder') return 'scope deve ser category ou holder';
+  if (typeof target !== 'string' || !target.trim()) return 'Categoria ou titular obrigatorio';
+  if (!(Number(monthly_limit) > 0)) return 'Limite mensal deve ser maior que zero';
+  if (scope === 'category' && !db.prepare('SELECT 1 FROM categories WHERE id = ?').get(target)) {
+    return 'Categoria invalida';
+  }
+  return null;
+}
+
+// GET / - List budgets
+router.get('/', authMiddleware, (req, res) => {
+  try {
+    const budgets = FinBudgetService.list(getDb(), req.user.id);
+    res.json({ budgets });
+  } catch (error) {
+    console.error('[Financeiro:Budgets] List error:', error);
+    res.status(500).json({ error: 'Erro ao listar orçamentos' });
+  }
+});
+
+// POST / - Create budget (or update the limit of the existing one for the same target)
+router.post('/', authMiddleware, (req, res) => {
+  try {
+    const db = getDb();
+    const error = validateBudget(db, req.body);
+    if (error) return res.status(400).json({ error });
+
+    const id = FinBudgetService.upsert(db, req.user.id, {
+      scope: req.body.scope,
+      target: req.body.target.trim(),
+      monthly_limit: Number(req.body.monthly_limit),
+    });
+    const budget = FinBudgetService.list(db, req.user.id).find(b => b.id === id);
+    res.status(201).json({ budget });
+  } catch (error) {
+    console.error('[Financeiro:Budgets] Create error:', error);
+    res.status(500).json({ error: 'Erro ao salvar orçamento' });
+  }
+});
+
+// PUT /:id - Update monthly limit
+router.put('/:id', authMiddleware, (req, res) => {
+  try {
+    const db = getDb();
+    const limit = Number(req.body.monthly_limit);
+    if (!(limit > 0)) return res.status(400).json({ error: 'Limite mensal deve ser maior que zero' });
+
+    const result = db.prepare(`
+      UPDATE budgets SET monthly_limit = ?, updated_at = datetime('now')
+      WHERE id = ? AND user_id = ?
+    `).run(limit, req.params.id, req.user.id);
+    if (result.changes === 0) return res.status(404).json({ error: 'Orçamento não encontrado' });
+
+    const budget = FinBudgetService.list(db, req.user.id).find(b => b.id === req.params.id);
+    res.json({ budget });
+  } catch (error) {
+    console.error('[Financeiro:Budgets] Update error:', error);
+    res.status(500).json({ error: 'Erro ao atualizar orçamento' });
+  }
+});
+
+// DELETE /:id
+router.delete('/:id', authMiddleware, (req, res) => {
+  try {
+    const result = getDb().prepare('DELETE FROM budgets WHERE id = ? AND user_id = ?').run(req.params.id, req.user.id);
+    if (result.changes === 0) return res.status(404).json({ error: 'Orçamento não encontrado' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Financeiro:Budgets] Delete error:', error);
+    res.status(500).json({ error: 'Erro ao remover orçamento' });
+  }
+});
+
+export default router;
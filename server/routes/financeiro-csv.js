@@ -3,7 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import multer from 'multer';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
-import { getParser, AVAILABLE_BANKS } from '../services/csv-parsers/index.js';
+import { getParser, isPDFUpload, AVAILABLE_BANKS } from '../services/csv-parsers/index.js';
 
 const router = express.Router();
 const upload = multer({ limits: { fileSize: 10 * 1024 * 1024 } });
@@ -38,11 +38,11 @@ router.post('/upload', authMiddleware, upload.single('file'), async (req, res) =
       return res.status(400).json({ error: 'Banco não selecionado' });
     }
 
-    const parser = getParser(bankId);
+    const parser = getParser(bankId, { pdf: isPDFUpload(req.file.buffer, req.file.originalname) });
 
-    // PDF parsers work with raw buffer; CSV parsers with UTF-8 string
+    // PDF parsers work with raw buffer; CSV/OFX parsers with decoded text (UTF-8 or Latin-1)
     const isPDF = parser.fileType === 'pdf';
-    const content = isPDF ? req.file.buffer : req.file.buffer.toString('utf-8');
+    const content = isPDF ? req.file.buffer : parser.decode(req.file.buffer);
     const fileHash = parser.computeHash(isPDF ? req.file.buffer : content);
     const db = getDb();
 
@@ -56,8 +56,9 @@ router.post('/upload', authMiddleware, upload.single('file'), async (req, res) =
 
     // PDF parsers need apiKey for LLM extraction; CSV parsers ignore extra args
     const apiKey = req.headers['x-api-key'] || process.env.GEMINI_API_KEY;
-    const rows = await parser.parse(content, apiKey);
-    const billingMonth = parser.parseBillingMonth(req.file.originalname);
+    // Billing month read from the content (due date, OFX <DTEND>, Gemini), else from the filename
+    const { rows, billingMonth: contentBillingMonth } = await parser.parse(content, apiKey);
+    const billingMonth = contentBillingMonth ?? parser.parseBillingMonth(req.file.originalname);
     const rowsWithDuplicates = parser.findDuplicates(db, req.user.id, rows);
 
     const duplicateCount = rowsWithDuplicates.filter(r => r.isDuplicate).length;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import FinBudgetService from '../services/FinBudgetService.js';
 
 const router = express.Router();
 
@@ -145,7 +146,23 @@ router.get('/trends', authMiddleware, (req, res) => {
   }
 });
 
+// GET /budgets?month=YYYY-MM - Budget progress with projected month-end spend
+router.get('/budgets', authMiddleware, (req, res) => {
+  try {
+    const { month } = req.query;
+    if (!month) return res.status(400).json({ error: 'Parametro month obrigatorio' });
+
+    const budgets = FinBudgetService.getProgress(getDb(), req.user.id, month);
+    res.json({ budgets });
+  } catch (error) {
+    console.error('[Financeiro:Dashboard] Budgets error:', error);
+    res.status(500).json({ error: 'Erro ao calcular orçamentos' });
+  }
+});
+
 // GET /alerts?month=YYYY-MM
+// alerts: categories 20% above their historical average
+// budget_alerts: budgets at 80% (warning) or 100% (exceeded) of the monthly limit
 router.get('/alerts', authMiddleware, (req, res) => {
   try {
     const db = getDb();
@@ -181,7 +198,9 @@ router.get('/alerts', authMiddleware, (req, res) => {
       ORDER BY percent_above DESC
     `).all(req.user.id, month, req.user.id, month);
 
-    res.json({ alerts });
+    const budgetAlerts = FinBudgetService.getAlerts(db, req.user.id, month);
+
+    res.json({ alerts, budget_alerts: budgetAlerts });
   } catch (error) {
     console.error('[Financeiro:Dashboard] Alerts error:', error);
     res.status(500).json({ error: 'Erro ao gerar alertas' });
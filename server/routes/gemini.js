@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { recordAIUsage } from '../services/AIUsageService.js';
 
 const router = Router();
 
@@ -79,6 +80,8 @@ router.post('/generate', async (req, res) => {
     if (!response.ok) {
       const errorMsg = data.error?.message || JSON.stringify(data).slice(0, 200);
       console.error(`[Gemini] ${model} - HTTP ${response.status}: ${errorMsg}`);
+    } else {
+      recordAIUsage(req, 'gemini', model, data.usageMetadata);
     }
 
     res.status(response.status).json(data);
@@ -241,6 +244,7 @@ router.post('/stream', async (req, res) => {
     }
 
     clearInterval(keepAlive);
+    recordAIUsage(req, 'gemini', model, usage);
     res.end();
 
   } catch (error) {
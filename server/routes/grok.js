@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { createHash } from 'crypto';
+import { recordAIUsage } from '../services/AIUsageService.js';
 
 const router = Router();
 
@@ -59,6 +60,8 @@ router.post('/chat', async (req, res) => {
       console.error(`[Grok] API Error: ${data.error.message}`);
     }
 
+    if (response.ok) recordAIUsage(req, 'grok', req.body.model, data.usage);
+
     res.status(response.status).json(data);
 
   } catch (error) {
@@ -155,6 +158,7 @@ router.post('/stream', async (req, res) => {
     }
 
     clearInterval(keepAlive);
+    recordAIUsage(req, 'grok', req.body.model, usage);
     res.end();
 
   } catch (error) {
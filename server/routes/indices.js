@@ -0,0 +1,25 @@
+// server/routes/indices.js - Índices econômicos para a liquidação
+// v1.53.54 - GET /api/indices/bcb/:codigo (SGS do Banco Central, com cache)
+
+import express from 'express';
+import authMiddleware from '../middleware/auth.js';
+import { getSgsSerie } from '../services/BcbSgsService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+
+// GET /api/indices/bcb/:codigo?inicio=AAAA-MM-DD&fim=AAAA-MM-DD
+// Retorna { serie: { 'AAAA-MM': valor } }
+router.get('/bcb/:codigo', async (req, res) => {
+  try {
+    const serie = await getSgsSerie(Number(req.params.codigo), String(req.query.inicio || ''), String(req.query.fim || ''));
+    res.json({ serie });
+  } catch (error) {
+    if (error.status === 400) return res.status(400).json({ error: error.message });
+    console.error('[Indices] BCB error:', error);
+    res.status(502).json({ error: error.message || 'Falha ao consultar o Banco Central' });
+  }
+});
+
+export default router;
@@ -1,10 +1,12 @@
 // server/routes/knowledge-packages.js - CRUD de Pacotes de Conhecimento
 // v1.40.34
+// v1.53.43 - Pacotes de gabinete: acesso por papel (WorkspaceService.accessWhere)
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import { accessWhere, resolveActiveWorkspace } from '../services/WorkspaceService.js';
 
 const router = express.Router();
 
@@ -15,13 +17,14 @@ router.use('/api/knowledge-packages', authMiddleware);
 // Helper: busca pacotes com arquivos inline
 // ─────────────────────────────────────────────────────────────────────────────
 function getPackagesWithFiles(db, userId) {
+  const access = accessWhere(userId, 'view');
   const packages = db.prepare(`
     SELECT id, name, description, instructions,
-           created_at, updated_at, sync_version
+           created_at, updated_at, sync_version, workspace_id
     FROM knowledge_packages
-    WHERE user_id = ? AND deleted_at IS NULL
+    WHERE ${access.sql} AND deleted_at IS NULL
     ORDER BY updated_at DESC
-  `).all(userId);
+  `).all(...access.params);
 
   const filesStmt = db.prepare(`
     SELECT id, package_id, name, content, file_size, created_at
@@ -38,6 +41,7 @@ function getPackagesWithFiles(db, userId) {
     createdAt: pkg.created_at,
     updatedAt: pkg.updated_at,
     syncVersion: pkg.sync_version,
+    workspaceId: pkg.workspace_id || null,
     files: filesStmt.all(pkg.id).map(f => ({
       id: f.id,
       packageId: f.package_id,
@@ -49,6 +53,14 @@ function getPackagesWithFiles(db, userId) {
   }));
 }
 
+/** Pacote ativo que o usuário pode acessar na ação (pessoal ou de gabinete) */
+function findPackage(db, id, userId, action) {
+  const access = accessWhere(userId, action);
+  return db.prepare(
+    `SELECT id FROM knowledge_packages WHERE id = ? AND ${access.sql} AND deleted_at IS NULL`
+  ).get(id, ...access.params);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // GET /api/knowledge-packages
 // Lista todos os pacotes do usuário com arquivos inline
@@ -80,11 +92,13 @@ router.post('/api/knowledge-packages', (req, res) => {
 
     const id = uuidv4();
     const now = new Date().toISOString();
+    const workspace = resolveActiveWorkspace(req, 'create');
 
     db.prepare(`
-      INSERT INTO knowledge_packages (id, user_id, name, description, instructions, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).run(id, userId, name.trim(), description?.trim() || null, instructions?.trim() || null, now, now);
+      INSERT INTO knowledge_packages (id, user_id, name, description, instructions, created_at, updated_at, workspace_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, userId, name.trim(), description?.trim() || null, instructions?.trim() || null, now, now,
+      workspace?.workspace_id || null);
 
     // Inserir arquivos se fornecidos
     if (Array.isArray(files) && files.length > 0) {
@@ -117,9 +131,7 @@ router.put('/api/knowledge-packages/:id', (req, res) => {
     const { id } = req.params;
     const { name, description, instructions } = req.body;
 
-    const pkg = db.prepare(
-      'SELECT id FROM knowledge_packages WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
-    ).get(id, userId);
+    const pkg = findPackage(db, id, userId, 'edit');
 
     if (!pkg) {
       return res.status(404).json({ error: 'Pacote não encontrado' });
@@ -133,13 +145,13 @@ router.put('/api/knowledge-packages/:id', (req, res) => {
       UPDATE knowledge_packages
       SET name = ?, description = ?, instructions = ?,
           updated_at = ?, sync_version = sync_version + 1
-      WHERE id = ? AND user_id = ?
+      WHERE id = ?
     `).run(
       name.trim(),
       description?.trim() || null,
       instructions?.trim() || null,
       new Date().toISOString(),
-      id, userId
+      id
     );
 
     res.json({ message: 'Pacote atualizado com sucesso' });
@@ -159,17 +171,15 @@ router.delete('/api/knowledge-packages/:id', (req, res) => {
     const userId = req.user.id;
     const { id } = req.params;
 
-    const pkg = db.prepare(
-      'SELECT id FROM knowledge_packages WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
-    ).get(id, userId);
+    const pkg = findPackage(db, id, userId, 'delete');
 
     if (!pkg) {
       return res.status(404).json({ error: 'Pacote não encontrado' });
     }
 
     db.prepare(`
-      UPDATE knowledge_packages SET deleted_at = ? WHERE id = ? AND user_id = ?
-    `).run(new Date().toISOString(), id, userId);
+      UPDATE knowledge_packages SET deleted_at = ? WHERE id = ?
+    `).run(new Date().toISOString(), id);
 
     res.json({ message: 'Pacote excluído com sucesso' });
   } catch (error) {
@@ -189,9 +199,7 @@ router.post('/api/knowledge-packages/:id/files', (req, res) => {
     const { id: packageId } = req.params;
     const { name, content } = req.body;
 
-    const pkg = db.prepare(
-      'SELECT id FROM knowledge_packages WHERE id = ? AND user_id = ? AND deleted_at IS NULL'
-    ).get(packageId, userId);
+    const pkg = findPackage(db, packageId, userId, 'edit');
 
     if (!pkg) {
       return res.status(404).json({ error: 'Pacote não encontrado' });
@@ -236,9 +244,9 @@ router.delete('/api/knowledge-packages/:id/files/:fileId', (req, res) => {
     const userId = req.user.id;
     const { id: packageId, fileId } = req.params;
 
-    const file = db.prepare(
-      'SELECT id FROM knowledge_package_files WHERE id = ? AND package_id = ? AND user_id = ?'
-    ).get(fileId, packageId, userId);
+    const file = findPackage(db, packageId, userId, 'edit') && db.prepare(
+      'SELECT id FROM knowledge_package_files WHERE id = ? AND package_id = ?'
+    ).get(fileId, packageId);
 
     if (!file) {
       return res.status(404).json({ error: 'Arquivo não encontrado' });
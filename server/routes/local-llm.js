@@ -0,0 +1,251 @@
+import { Router } from 'express';
+
+const router = Router();
+
+/**
+ * Proxy para endpoint OpenAI-compatível local (Ollama, llama.cpp server, vLLM)
+ * v1.53.38
+ * v1.53.54 - Opcional: por padrão o navegador chama o endpoint direto (o
+ * servidor hospedado não alcança a máquina do gabinete e as peças não devem
+ * passar pela nuvem). Este proxy só é usado com "Repassar pelo servidor",
+ * em instalações self-hosted na mesma rede do LLM. Aborta a chamada ao
+ * endpoint quando o cliente desconecta.
+ *
+ * A base da API vem do header `x-base-url` (ex: http://localhost:11434/v1);
+ * `x-api-key` é opcional e vira Bearer (vLLM com --api-key).
+ *
+ * Como o servidor faz a requisição, o host precisa estar liberado:
+ * - LOCAL_LLM_ALLOWED_HOSTS=host1,host2 (lista explícita, vale em produção)
+ * - sem a variável, só loopback e fora de produção (instalação self-hosted/dev)
+ */
+const DEFAULT_BASE_URL = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]', 'host.docker.internal'];
+
+/**
+ * Valida a base URL recebida do cliente (evita usar o proxy para SSRF).
+ * @returns {{ baseUrl?: string, error?: string }}
+ */
+const resolveBaseUrl = (req) => {
+  const raw = String(req.headers['x-base-url'] || DEFAULT_BASE_URL).trim();
+  let url;
+  try {
+    url = new URL(raw);
+  } catch {
+    return { error: `URL do endpoint local inválida: ${raw}` };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'O endpoint local deve usar http:// ou https://' };
+  }
+
+  const allowed = (process.env.LOCAL_LLM_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(h => h.trim().toLowerCase())
+    .filter(Boolean);
+  const host = url.hostname.toLowerCase();
+  const permitted = allowed.length > 0
+    ? allowed.includes(host)
+    : process.env.NODE_ENV !== 'production' && LOOPBACK_HOSTS.includes(host);
+
+  if (!permitted) {
+    return {
+      error: `Host "${url.hostname}" não liberado para o endpoint local. ` +
+        'Defina LOCAL_LLM_ALLOWED_HOSTS no servidor.'
+    };
+  }
+  return { baseUrl: url.href.replace(/\/+$/, '') };
+};
+
+/**
+ * AbortController cancelado quando o cliente desconecta antes da resposta
+ * terminar — senão o modelo local segue gerando (e ocupando a GPU) à toa.
+ * Usa `res` e não `req`: o 'close' do req dispara assim que o corpo é lido.
+ */
+const abortOnDisconnect = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller;
+};
+
+const buildHeaders = (req) => {
+  const headers = { 'Content-Type': 'application/json' };
+  const apiKey = req.headers['x-api-key'];
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+/**
+ * Lista os modelos servidos pelo endpoint
+ * GET /api/local-llm/models → { models: string[] }
+ */
+router.get('/models', async (req, res) => {
+  const { baseUrl, error } = resolveBaseUrl(req);
+  if (error) {
+    return res.status(403).json({ error: { type: 'forbidden', message: error } });
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/models`, { headers: buildHeaders(req) });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return res.status(response.status).json({
+        error: { message: data.error?.message || data.error || `HTTP ${response.status}` }
+      });
+    }
+
+    const models = (Array.isArray(data.data) ? data.data : [])
+      .map(m => m?.id)
+      .filter(id => typeof id === 'string' && id);
+    res.json({ models });
+
+  } catch (err) {
+    console.error('[LocalLLM] Erro ao listar modelos:', err.message);
+    res.status(502).json({
+      error: { type: 'server_error', message: `Endpoint local inacessível (${baseUrl}): ${err.message}` }
+    });
+  }
+});
+
+/**
+ * Proxy de chat completions
+ * POST /api/local-llm/chat
+ */
+router.post('/chat', async (req, res) => {
+  const { baseUrl, error } = resolveBaseUrl(req);
+  if (error) {
+    return res.status(403).json({ error: { type: 'forbidden', message: error } });
+  }
+
+  const controller = abortOnDisconnect(res);
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(req),
+      body: JSON.stringify(req.body),
+      signal: controller.signal
+    });
+
+    const data = await response.json();
+
+    if (process.env.NODE_ENV !== 'production') {
+      const model = req.body.model || 'unknown';
+      const usage = data.usage || {};
+      console.log(`[LocalLLM] ${model} - ${response.status} - ` +
+        `${usage.prompt_tokens || 0} in / ${usage.completion_tokens || 0} out`);
+    }
+
+    if (data.error) {
+      console.error(`[LocalLLM] API Error: ${data.error.message || data.error}`);
+    }
+
+    res.status(response.status).json(data);
+
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error('[LocalLLM] Erro:', err.message);
+    res.status(502).json({
+      error: {
+        type: 'server_error',
+        message: `Endpoint local inacessível (${baseUrl}): ${err.message}`
+      }
+    });
+  }
+});
+
+/**
+ * Streaming SSE no mesmo formato dos demais providers
+ * ({type:'text'|'reasoning'|'done'|'error'})
+ * POST /api/local-llm/stream
+ */
+router.post('/stream', async (req, res) => {
+  const { baseUrl, error } = resolveBaseUrl(req);
+  if (error) {
+    return res.status(403).json({ error: { type: 'forbidden', message: error } });
+  }
+
+  const controller = abortOnDisconnect(res);
+  let keepAlive = null;
+  try {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    // Modelos locais em CPU demoram a emitir o primeiro token: keep-alive desde já.
+    res.flushHeaders();
+    keepAlive = setInterval(() => res.write(': ping\n\n'), 15000);
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(req),
+      body: JSON.stringify({ ...req.body, stream: true, stream_options: { include_usage: true } }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message = errorData.error?.message || errorData.error || `HTTP ${response.status}`;
+      res.write(`data: ${JSON.stringify({ type: 'error', error: { message } })}\n\n`);
+      clearInterval(keepAlive);
+      return res.end();
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage = null;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        res.write(`data: ${JSON.stringify({ type: 'done', usage })}\n\n`);
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.startsWith('data:') ? line.slice(line.startsWith('data: ') ? 6 : 5).trim() : null;
+        if (trimmed === null || !trimmed || trimmed === '[DONE]') continue;
+
+        try {
+          const parsed = JSON.parse(trimmed);
+          const delta = parsed.choices?.[0]?.delta || {};
+          // Ollama/vLLM expõem o raciocínio em `reasoning_content` ou `reasoning`
+          const reasoning = delta.reasoning_content || delta.reasoning;
+
+          if (delta.content) {
+            res.write(`data: ${JSON.stringify({ type: 'text', text: delta.content })}\n\n`);
+          } else if (reasoning) {
+            res.write(`data: ${JSON.stringify({ type: 'reasoning', text: reasoning })}\n\n`);
+          }
+
+          if (parsed.usage) {
+            usage = parsed.usage;
+          }
+        } catch (e) {
+          // Ignorar erros de parse
+        }
+      }
+    }
+
+    clearInterval(keepAlive);
+    res.end();
+
+  } catch (err) {
+    if (keepAlive) clearInterval(keepAlive);
+    if (controller.signal.aborted) return;
+    const message = `Endpoint local inacessível (${baseUrl}): ${err.message}`;
+    if (!res.headersSent) {
+      res.status(502).json({ error: { message } });
+    } else {
+      res.write(`data: ${JSON.stringify({ type: 'error', error: { message } })}\n\n`);
+      res.end();
+    }
+  }
+});
+
+export default router;
@@ -1,10 +1,17 @@
 // server/routes/models.js - CRUD de Modelos
 // v1.0.0 - API REST para modelos de decisão
+// v1.1.0 - Modelos de gabinete: acesso por papel (WorkspaceService.accessWhere)
+// v1.2.0 - Histórico de revisões (ModelRevisionService): listar, comparar e restaurar
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import { accessWhere, can, getMembership, resolveActiveWorkspace } from '../services/WorkspaceService.js';
+import {
+  ensureBaseline, recordRevision, findAccessibleModel, listRevisions, getRevision, getPreviousRevision,
+  restoreRevision, changedFields,
+} from '../services/ModelRevisionService.js';
 
 const router = express.Router();
 
@@ -12,19 +19,19 @@ const router = express.Router();
 router.use(authMiddleware);
 
 // GET /api/models
-// Lista todos os modelos do usuário
+// Lista todos os modelos do usuário (pessoais + gabinetes)
 router.get('/', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
+    const access = accessWhere(req.user.id, 'view');
 
     const models = db.prepare(`
       SELECT id, title, content, category, keywords, is_favorite,
-             embedding, created_at, updated_at, sync_version
+             embedding, created_at, updated_at, sync_version, workspace_id, approved_at
       FROM models
-      WHERE user_id = ? AND deleted_at IS NULL
+      WHERE ${access.sql} AND deleted_at IS NULL
       ORDER BY updated_at DESC
-    `).all(userId);
+    `).all(...access.params);
 
     // Converter campos
     const result = models.map(m => ({
@@ -48,15 +55,15 @@ router.get('/', (req, res) => {
 router.get('/:id', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
     const { id } = req.params;
+    const access = accessWhere(req.user.id, 'view');
 
     const model = db.prepare(`
       SELECT id, title, content, category, keywords, is_favorite,
-             embedding, created_at, updated_at, sync_version
+             embedding, created_at, updated_at, sync_version, workspace_id, approved_at
       FROM models
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).get(id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).get(id, ...access.params);
 
     if (!model) {
       return res.status(404).json({ error: 'Modelo não encontrado' });
@@ -91,10 +98,13 @@ router.post('/', (req, res) => {
     const modelId = id || uuidv4();
     const now = new Date().toISOString();
     const embeddingBlob = embedding ? Buffer.from(new Float32Array(embedding).buffer) : null;
+    const workspace = resolveActiveWorkspace(req, 'create');
+    const approved = !!workspace && can(workspace.role, 'approve');
 
     db.prepare(`
-      INSERT INTO models (id, user_id, title, content, category, keywords, is_favorite, embedding, created_at, updated_at, sync_version)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+      INSERT INTO models (id, user_id, title, content, category, keywords, is_favorite, embedding, created_at, updated_at, sync_version,
+                          workspace_id, approved_at, approved_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
     `).run(
       modelId,
       userId,
@@ -105,7 +115,10 @@ router.post('/', (req, res) => {
       isFavorite ? 1 : 0,
       embeddingBlob,
       createdAt || now,
-      updatedAt || now
+      updatedAt || now,
+      workspace?.workspace_id || null,
+      approved ? now : null,
+      approved ? userId : null
     );
 
     // Log sync
@@ -113,6 +126,7 @@ router.post('/', (req, res) => {
       INSERT INTO sync_log (user_id, operation, model_id, sync_version)
       VALUES (?, 'create', ?, 1)
     `).run(userId, modelId);
+    recordRevision(modelId, userId, 'create');
 
     res.status(201).json({
       id: modelId,
@@ -136,11 +150,12 @@ router.put('/:id', (req, res) => {
     const { id } = req.params;
     const { title, content, category, keywords, isFavorite, embedding, syncVersion } = req.body;
 
-    // Verificar se modelo existe
+    // Verificar se modelo existe (e se o papel no gabinete permite editar)
+    const access = accessWhere(userId, 'edit');
     const existing = db.prepare(`
-      SELECT sync_version FROM models
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).get(id, userId);
+      SELECT sync_version, workspace_id FROM models
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).get(id, ...access.params);
 
     if (!existing) {
       return res.status(404).json({ error: 'Modelo não encontrado' });
@@ -157,7 +172,10 @@ router.put('/:id', (req, res) => {
 
     const now = new Date().toISOString();
     const embeddingBlob = embedding ? Buffer.from(new Float32Array(embedding).buffer) : null;
+    const keepsApproval = !existing.workspace_id || can(getMembership(existing.workspace_id, userId)?.role, 'approve');
 
+    // v1.2.0: Preservar o texto atual no histórico antes de sobrescrever
+    ensureBaseline(id);
     db.prepare(`
       UPDATE models
       SET title = COALESCE(?, title),
@@ -167,8 +185,9 @@ router.put('/:id', (req, res) => {
           is_favorite = COALESCE(?, is_favorite),
           embedding = COALESCE(?, embedding),
           updated_at = ?,
-          sync_version = sync_version + 1
-      WHERE id = ? AND user_id = ?
+          sync_version = sync_version + 1,
+          approved_at = CASE WHEN ? = 1 THEN approved_at ELSE NULL END
+      WHERE id = ?
     `).run(
       title,
       content,
@@ -177,8 +196,8 @@ router.put('/:id', (req, res) => {
       isFavorite !== undefined ? (isFavorite ? 1 : 0) : null,
       embeddingBlob,
       now,
-      id,
-      userId
+      keepsApproval ? 1 : 0,
+      id
     );
 
     // Log sync
@@ -186,6 +205,7 @@ router.put('/:id', (req, res) => {
       INSERT INTO sync_log (user_id, operation, model_id, sync_version)
       VALUES (?, 'update', ?, ?)
     `).run(userId, id, existing.sync_version + 1);
+    recordRevision(id, userId, 'update');
 
     res.json({
       id,
@@ -207,12 +227,13 @@ router.delete('/:id', (req, res) => {
     const { id } = req.params;
 
     const now = new Date().toISOString();
+    const access = accessWhere(userId, 'delete');
 
     const result = db.prepare(`
       UPDATE models
       SET deleted_at = ?, updated_at = ?, sync_version = sync_version + 1
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).run(now, now, id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).run(now, now, id, ...access.params);
 
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Modelo não encontrado' });
@@ -231,4 +252,88 @@ router.delete('/:id', (req, res) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// HISTÓRICO DE REVISÕES (v1.2.0)
+// Acesso: o mesmo do modelo, incluindo bibliotecas compartilhadas (library_access)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// GET /api/models/:id/revisions
+// Lista as revisões (quem, quando, operação), da mais recente para a mais antiga
+router.get('/:id/revisions', (req, res) => {
+  try {
+    const model = findAccessibleModel(req.params.id, req.user.id, 'view');
+    if (!model) {
+      return res.status(404).json({ error: 'Modelo não encontrado' });
+    }
+    res.json({ revisions: listRevisions(model.id) });
+  } catch (error) {
+    console.error('[Models] Revisions error:', error);
+    res.status(500).json({ error: 'Erro ao listar revisões' });
+  }
+});
+
+// GET /api/models/:id/revisions/:revisionId/diff?against=current|previous
+// Estados "de" e "para" de uma revisão: contra o modelo atual (padrão) ou
+// contra a revisão que ela substituiu. A comparação visual é feita no cliente.
+router.get('/:id/revisions/:revisionId/diff', (req, res) => {
+  try {
+    const { id, revisionId } = req.params;
+    const against = req.query.against === 'previous' ? 'previous' : 'current';
+
+    const model = findAccessibleModel(id, req.user.id, 'view');
+    const revision = model && getRevision(id, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revisão não encontrada' });
+    }
+
+    const current = {
+      title: model.title,
+      content: model.content,
+      category: model.category,
+      keywords: model.keywords,
+      syncVersion: model.sync_version,
+      updatedAt: model.updated_at,
+    };
+    const from = against === 'current' ? revision : getPreviousRevision(id, revisionId) || null;
+    const to = against === 'current' ? current : revision;
+
+    res.json({ against, from, to, changedFields: changedFields(from, to) });
+  } catch (error) {
+    console.error('[Models] Revision diff error:', error);
+    res.status(500).json({ error: 'Erro ao comparar revisão' });
+  }
+});
+
+// POST /api/models/:id/revisions/:revisionId/restore
+// Volta o modelo ao texto da revisão (gera nova revisão 'restore')
+router.post('/:id/revisions/:revisionId/restore', (req, res) => {
+  try {
+    const { id, revisionId } = req.params;
+    const model = findAccessibleModel(id, req.user.id, 'edit');
+    if (!model) {
+      return res.status(404).json({ error: 'Modelo não encontrado' });
+    }
+
+    const revision = getRevision(id, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revisão não encontrada' });
+    }
+
+    const result = restoreRevision(model, revision, req.user.id);
+    console.log(`[Models] Revisão ${revisionId} restaurada em ${id} por ${req.user.email}`);
+
+    res.json({
+      id,
+      title: revision.title,
+      content: revision.content,
+      category: revision.category,
+      keywords: revision.keywords,
+      ...result,
+    });
+  } catch (error) {
+    console.error('[Models] Restore revision error:', error);
+    res.status(500).json({ error: 'Erro ao restaurar revisão' });
+  }
+});
+
 export default router;
@@ -1,11 +1,15 @@
 // server/routes/noticias.js - CRUD de Notícias Jurídicas
 // v1.41.0 - API REST para app de notícias jurídicas trabalhistas
+// v1.53.48 - Feed agrupado por história (cluster_id): um card por história com
+//            todas as fontes, resumo IA e leitura compartilhados pelo cluster
+// v1.53.54 - Agrupamento assíncrono: POST / e /batch respondem sem esperá-lo
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
 import rssScheduler from '../services/RSSSchedulerService.js';
+import { clusterPendingNews, scheduleNewsClustering } from '../services/NewsClusterService.js';
 
 const router = express.Router();
 
@@ -24,6 +28,14 @@ function safeJsonParse(jsonStr, fallback = []) {
   }
 }
 
+/** IDs de todas as notícias da mesma história (inclui a própria) */
+function clusterMemberIds(db, id) {
+  return db.prepare(`
+    SELECT id FROM noticias
+    WHERE COALESCE(cluster_id, id) = (SELECT COALESCE(cluster_id, id) FROM noticias WHERE id = ?)
+  `).all(id).map(r => r.id);
+}
+
 /** Converte período para número de dias */
 function periodToDays(period) {
   const periodDays = { today: 1, week: 7, biweekly: 14, month: 30 };
@@ -36,7 +48,7 @@ function periodToDays(period) {
 // Usado pelo relay Oracle Cloud (São Paulo) para TRTs bloqueados fora do BR.
 // ═══════════════════════════════════════════════════════════════════════════
 
-router.post('/relay-ingest', (req, res) => {
+router.post('/relay-ingest', async (req, res) => {
   try {
     // Autenticar via API key
     const authHeader = req.headers.authorization;
@@ -96,10 +108,11 @@ router.post('/relay-ingest', (req, res) => {
     });
 
     transaction(news);
+    const { merged } = await clusterPendingNews();
 
-    console.log(`[Relay Ingest] ${inserted} novas, ${skipped} duplicadas (${news.length} recebidas)`);
+    console.log(`[Relay Ingest] ${inserted} novas, ${skipped} duplicadas, ${merged} agrupadas (${news.length} recebidas)`);
 
-    res.json({ inserted, skipped, total: news.length });
+    res.json({ inserted, skipped, merged, total: news.length });
   } catch (error) {
     console.error('[Relay Ingest] Error:', error);
     res.status(500).json({ error: 'Erro ao ingerir notícias do relay' });
@@ -180,36 +193,76 @@ router.get('/', (req, res) => {
       sql += ` AND nl.user_id IS NULL`;
     }
 
-    // Contagem total (sem paginação)
-    const countSql = sql.replace(/SELECT[\s\S]*?FROM/, 'SELECT COUNT(*) as total FROM');
+    // Contagem total de histórias (sem paginação)
+    const countSql = sql.replace(/SELECT[\s\S]*?FROM/, 'SELECT COUNT(DISTINCT COALESCE(n.cluster_id, n.id)) as total FROM');
     const countResult = db.prepare(countSql).get(...params);
     const total = countResult?.total || 0;
 
-    // Ordenação e paginação
-    sql += ` ORDER BY n.published_at DESC LIMIT ? OFFSET ?`;
+    // Um card por história: a primeira notícia publicada do cluster (entre as filtradas)
+    // representa as demais, que vêm em clusterSources
+    const groupedSql = `
+      SELECT * FROM (
+        ${sql.replace('FROM noticias n', `, COALESCE(n.cluster_id, n.id) as cluster_key,
+        ROW_NUMBER() OVER (PARTITION BY COALESCE(n.cluster_id, n.id) ORDER BY n.published_at ASC) as cluster_rank
+      FROM noticias n`)}
+      )
+      WHERE cluster_rank = 1
+      ORDER BY published_at DESC LIMIT ? OFFSET ?
+    `;
     params.push(parseInt(limit, 10), parseInt(offset, 10));
 
-    const news = db.prepare(sql).all(...params);
+    const news = db.prepare(groupedSql).all(...params);
+
+    // Fontes de cada história exibida
+    const clusterKeys = [...new Set(news.map(n => n.cluster_key))];
+    const membersByCluster = new Map();
+    if (clusterKeys.length > 0) {
+      const members = db.prepare(`
+        SELECT id, source_id, source_name, link, published_at, ai_summary, ai_summary_generated_at,
+          COALESCE(cluster_id, id) as cluster_key
+        FROM noticias
+        WHERE COALESCE(cluster_id, id) IN (${clusterKeys.map(() => '?').join(',')})
+        ORDER BY published_at ASC
+      `).all(...clusterKeys);
+      for (const m of members) {
+        if (!membersByCluster.has(m.cluster_key)) membersByCluster.set(m.cluster_key, []);
+        membersByCluster.get(m.cluster_key).push(m);
+      }
+    }
 
     // Converter para formato camelCase
-    const result = news.map(n => ({
-      id: n.id,
-      sourceId: n.source_id,
-      sourceName: n.source_name,
-      title: n.title,
-      description: n.description,
-      content: n.content,
-      link: n.link,
-      publishedAt: n.published_at,
-      fetchedAt: n.fetched_at,
-      themes: safeJsonParse(n.themes, []),
-      aiSummary: n.ai_summary,
-      aiSummaryGeneratedAt: n.ai_summary_generated_at,
-      isFavorite: !!n.is_favorite,
-      isRead: !!n.is_read,
-      createdAt: n.created_at,
-      updatedAt: n.updated_at,
-    }));
+    const result = news.map(n => {
+      const members = membersByCluster.get(n.cluster_key) || [];
+      // Resumos gerados antes do agrupamento podem estar em outra notícia do cluster
+      const summarized = n.ai_summary ? n : members.find(m => m.ai_summary) || n;
+      return {
+        id: n.id,
+        sourceId: n.source_id,
+        sourceName: n.source_name,
+        title: n.title,
+        description: n.description,
+        content: n.content,
+        link: n.link,
+        publishedAt: n.published_at,
+        fetchedAt: n.fetched_at,
+        themes: safeJsonParse(n.themes, []),
+        aiSummary: summarized.ai_summary,
+        aiSummaryGeneratedAt: summarized.ai_summary_generated_at,
+        isFavorite: !!n.is_favorite,
+        isRead: !!n.is_read,
+        createdAt: n.created_at,
+        updatedAt: n.updated_at,
+        clusterSources: members.length > 1
+          ? members.map(m => ({
+            id: m.id,
+            sourceId: m.source_id,
+            sourceName: m.source_name,
+            link: m.link,
+            publishedAt: m.published_at,
+          }))
+          : [],
+      };
+    });
 
     res.json({
       news: result,
@@ -331,6 +384,7 @@ router.post('/', (req, res) => {
       now,
       now
     );
+    scheduleNewsClustering();
 
     res.status(201).json({
       id,
@@ -396,6 +450,7 @@ router.post('/batch', (req, res) => {
     });
 
     transaction(news);
+    scheduleNewsClustering();
 
     res.json({
       message: `${inserted} notícia(s) inserida(s), ${skipped} já existiam`,
@@ -431,14 +486,16 @@ router.put('/:id/summary', (req, res) => {
 
     const now = new Date().toISOString();
 
+    // Um resumo por história: grava em todas as notícias do cluster
+    const memberIds = clusterMemberIds(db, id);
     db.prepare(`
       UPDATE noticias
       SET ai_summary = ?,
           ai_summary_generated_at = ?,
           ai_summary_generated_by = ?,
           updated_at = ?
-      WHERE id = ?
-    `).run(summary, now, userId, now, id);
+      WHERE id IN (${memberIds.map(() => '?').join(',')})
+    `).run(summary, now, userId, now, ...memberIds);
 
     res.json({
       id,
@@ -519,14 +576,16 @@ router.post('/:id/read', (req, res) => {
 
     const now = new Date().toISOString();
 
-    try {
-      db.prepare(`
-        INSERT INTO noticias_lidas (user_id, noticia_id, read_at)
-        VALUES (?, ?, ?)
-      `).run(userId, id, now);
-    } catch (e) {
-      // Já está marcada como lida (constraint unique)
-    }
+    // Ler um card marca a história inteira (todas as fontes do cluster)
+    const markStmt = db.prepare(`
+      INSERT OR IGNORE INTO noticias_lidas (user_id, noticia_id, read_at)
+      VALUES (?, ?, ?)
+    `);
+    db.transaction(() => {
+      for (const memberId of clusterMemberIds(db, id)) {
+        markStmt.run(userId, memberId, now);
+      }
+    })();
 
     res.json({ success: true });
   } catch (error) {
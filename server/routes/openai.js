@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { recordAIUsage } from '../services/AIUsageService.js';
 
 const router = Router();
 
@@ -54,6 +55,8 @@ router.post('/chat', async (req, res) => {
       console.error(`[OpenAI] API Error: ${data.error.message}`);
     }
 
+    if (response.ok) recordAIUsage(req, 'openai', req.body.model, data.usage);
+
     res.status(response.status).json(data);
 
   } catch (error) {
@@ -175,6 +178,7 @@ router.post('/stream', async (req, res) => {
     }
 
     clearInterval(keepAlive);
+    recordAIUsage(req, 'openai', req.body.model, usage);
     res.end();
 
   } catch (error) {
@@ -1,10 +1,14 @@
 // server/routes/prova-oral.js - CRUD de Análises de Prova Oral
 // v1.40.12 - API REST para análises de prova oral trabalhista + compartilhamento
+// v1.53.43 - Análises de gabinete: acesso por papel (WorkspaceService.accessWhere)
+// v1.53.45 - Trilha de auditoria nas alterações de compartilhamento
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import audit from '../middleware/audit.js';
+import { accessWhere, resolveActiveWorkspace } from '../services/WorkspaceService.js';
 
 const router = express.Router();
 
@@ -23,6 +27,34 @@ function safeJsonParse(jsonStr, fallback = {}) {
   }
 }
 
+/**
+ * Colunas e filtro de visibilidade: análises próprias, de gabinetes do usuário
+ * e de donos que compartilharam via prova_oral_access (somente leitura).
+ * can_edit/can_delete seguem o papel no gabinete.
+ */
+function visibilityQuery(userId) {
+  const view = accessWhere(userId, 'view', 'poa');
+  const edit = accessWhere(userId, 'edit', 'poa');
+  const remove = accessWhere(userId, 'delete', 'poa');
+  return {
+    columns: `u.email as owner_email, poa.workspace_id,
+        CASE WHEN poa.user_id = ? THEN 1 ELSE 0 END as is_own,
+        CASE WHEN ${edit.sql} THEN 1 ELSE 0 END as can_edit,
+        CASE WHEN ${remove.sql} THEN 1 ELSE 0 END as can_delete`,
+    columnParams: [userId, ...edit.params, ...remove.params],
+    where: `(${view.sql} OR poa.user_id IN (SELECT owner_id FROM prova_oral_access WHERE recipient_id = ?))`,
+    whereParams: [...view.params, userId],
+  };
+}
+
+const sharingFields = (a) => ({
+  isOwn: a.is_own === 1,
+  ownerEmail: a.owner_email,
+  workspaceId: a.workspace_id || null,
+  canEdit: a.can_edit === 1,
+  canDelete: a.can_delete === 1,
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // MIDDLEWARE
 // ═══════════════════════════════════════════════════════════════════════════
@@ -59,7 +91,7 @@ router.get('/sharing', (req, res) => {
 // PUT /api/prova-oral/sharing - Atualizar lista de compartilhamento
 // ═══════════════════════════════════════════════════════════════════════════
 
-router.put('/sharing', (req, res) => {
+router.put('/sharing', audit('prova_oral.sharing_update'), (req, res) => {
   try {
     const db = getDb();
     const userId = req.user.id;
@@ -76,6 +108,19 @@ router.put('/sharing', (req, res) => {
       return !!user;
     });
 
+    // v1.53.45: Auditoria registra quem ganhou e quem perdeu acesso
+    const emailOf = db.prepare('SELECT email FROM users WHERE id = ?');
+    const previousIds = db.prepare('SELECT recipient_id FROM prova_oral_access WHERE owner_id = ?')
+      .all(userId).map(r => r.recipient_id);
+    res.locals.audit = {
+      targetType: 'prova_oral_access',
+      targetId: userId,
+      details: {
+        granted: validIds.filter(id => !previousIds.includes(id)).map(id => emailOf.get(id)?.email),
+        revoked: previousIds.filter(id => !validIds.includes(id)).map(id => emailOf.get(id)?.email ?? id),
+      },
+    };
+
     // Transação: remove antigos e insere novos
     const transaction = db.transaction(() => {
       db.prepare('DELETE FROM prova_oral_access WHERE owner_id = ?').run(userId);
@@ -106,28 +151,22 @@ router.put('/sharing', (req, res) => {
 router.get('/', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
     const { search } = req.query;
+    const visibility = visibilityQuery(req.user.id);
 
-    // Query expandida para incluir análises compartilhadas
+    // Query expandida para incluir análises compartilhadas e de gabinete
     let query = `
       SELECT
         poa.id, poa.numero_processo, poa.reclamante, poa.reclamada, poa.vara,
         poa.transcricao, poa.sintese_processo, poa.resultado,
         poa.created_at, poa.updated_at,
-        u.email as owner_email,
-        CASE WHEN poa.user_id = ? THEN 1 ELSE 0 END as is_own
+        ${visibility.columns}
       FROM prova_oral_analyses poa
       JOIN users u ON poa.user_id = u.id
       WHERE poa.deleted_at IS NULL
-        AND (
-          poa.user_id = ?
-          OR poa.user_id IN (
-            SELECT owner_id FROM prova_oral_access WHERE recipient_id = ?
-          )
-        )
+        AND ${visibility.where}
     `;
-    const params = [userId, userId, userId];
+    const params = [...visibility.columnParams, ...visibility.whereParams];
 
     // Filtro por busca (número do processo, reclamante ou reclamada)
     if (search) {
@@ -151,8 +190,7 @@ router.get('/', (req, res) => {
       resultado: safeJsonParse(a.resultado, {}),
       createdAt: a.created_at,
       updatedAt: a.updated_at,
-      isOwn: a.is_own === 1,
-      ownerEmail: a.owner_email,
+      ...sharingFields(a),
     }));
 
     res.json({ analyses: result, count: result.length });
@@ -169,28 +207,22 @@ router.get('/', (req, res) => {
 router.get('/:id', (req, res) => {
   try {
     const db = getDb();
-    const userId = req.user.id;
     const { id } = req.params;
+    const visibility = visibilityQuery(req.user.id);
 
-    // Permitir acesso a análises próprias ou compartilhadas
+    // Permitir acesso a análises próprias, compartilhadas ou de gabinete
     const analysis = db.prepare(`
       SELECT
         poa.id, poa.numero_processo, poa.reclamante, poa.reclamada, poa.vara,
         poa.transcricao, poa.sintese_processo, poa.resultado,
         poa.created_at, poa.updated_at, poa.user_id,
-        u.email as owner_email,
-        CASE WHEN poa.user_id = ? THEN 1 ELSE 0 END as is_own
+        ${visibility.columns}
       FROM prova_oral_analyses poa
       JOIN users u ON poa.user_id = u.id
       WHERE poa.id = ?
         AND poa.deleted_at IS NULL
-        AND (
-          poa.user_id = ?
-          OR poa.user_id IN (
-            SELECT owner_id FROM prova_oral_access WHERE recipient_id = ?
-          )
-        )
-    `).get(userId, id, userId, userId);
+        AND ${visibility.where}
+    `).get(...visibility.columnParams, id, ...visibility.whereParams);
 
     if (!analysis) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -207,8 +239,7 @@ router.get('/:id', (req, res) => {
       resultado: safeJsonParse(analysis.resultado, {}),
       createdAt: analysis.created_at,
       updatedAt: analysis.updated_at,
-      isOwn: analysis.is_own === 1,
-      ownerEmail: analysis.owner_email,
+      ...sharingFields(analysis),
     });
   } catch (error) {
     console.error('[ProvaOral] Get error:', error);
@@ -247,9 +278,9 @@ router.post('/', (req, res) => {
       INSERT INTO prova_oral_analyses (
         id, user_id, numero_processo, reclamante, reclamada, vara,
         transcricao, sintese_processo, resultado,
-        created_at, updated_at
+        created_at, updated_at, workspace_id
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       id,
       userId,
@@ -261,7 +292,8 @@ router.post('/', (req, res) => {
       sinteseProcesso || '',
       JSON.stringify(resultado),
       now,
-      now
+      now,
+      resolveActiveWorkspace(req, 'create')?.workspace_id || null
     );
 
     res.status(201).json({
@@ -275,7 +307,7 @@ router.post('/', (req, res) => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
-// PUT /api/prova-oral/:id - Atualizar análise (dono ou usuários com acesso compartilhado)
+// PUT /api/prova-oral/:id - Atualizar análise (dono ou membro do gabinete)
 // ═══════════════════════════════════════════════════════════════════════════
 
 router.put('/:id', (req, res) => {
@@ -291,24 +323,25 @@ router.put('/:id', (req, res) => {
 
     const now = new Date().toISOString();
 
-    // Edição é privilégio EXCLUSIVO do dono. O compartilhamento (prova_oral_access)
-    // concede apenas leitura — um destinatário não pode alterar a análise alheia.
+    // Edição é do dono ou de membro do gabinete cujo papel permite editar. O
+    // compartilhamento (prova_oral_access) concede apenas leitura — um destinatário
+    // não pode alterar a análise alheia.
     // Distinguimos 404 (não existe / nem é visível) de 403 (vê por compartilhamento,
-    // mas não é dono) para não permitir escrita por quem só tem acesso de leitura.
+    // mas não pode editar) para não permitir escrita por quem só tem acesso de leitura.
+    const visibility = visibilityQuery(userId);
     const target = db.prepare(`
-      SELECT user_id FROM prova_oral_analyses
-      WHERE id = ? AND deleted_at IS NULL
-        AND (user_id = ? OR user_id IN (
-          SELECT owner_id FROM prova_oral_access WHERE recipient_id = ?
-        ))
-    `).get(id, userId, userId);
+      SELECT ${visibility.columns}
+      FROM prova_oral_analyses poa
+      JOIN users u ON poa.user_id = u.id
+      WHERE poa.id = ? AND poa.deleted_at IS NULL AND ${visibility.where}
+    `).get(...visibility.columnParams, id, ...visibility.whereParams);
 
     if (!target) {
       return res.status(404).json({ error: 'Análise não encontrada' });
     }
 
-    if (target.user_id !== userId) {
-      return res.status(403).json({ error: 'Apenas o dono da análise pode editá-la' });
+    if (target.can_edit !== 1) {
+      return res.status(403).json({ error: 'Apenas o dono da análise ou o gabinete podem editá-la' });
     }
 
     // Re-extrair colunas desnormalizadas para manter em sincronia com o JSON.
@@ -327,7 +360,7 @@ router.put('/:id', (req, res) => {
       result = db.prepare(`
         UPDATE prova_oral_analyses
         SET resultado = ?, numero_processo = ?, reclamante = ?, reclamada = ?, vara = ?, updated_at = ?
-        WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+        WHERE id = ? AND deleted_at IS NULL
       `).run(
         JSON.stringify(resultado),
         numeroProcesso,
@@ -335,15 +368,14 @@ router.put('/:id', (req, res) => {
         reclamada,
         vara,
         now,
-        id,
-        userId
+        id
       );
     } else {
       result = db.prepare(`
         UPDATE prova_oral_analyses
         SET resultado = ?, updated_at = ?
-        WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-      `).run(JSON.stringify(resultado), now, id, userId);
+        WHERE id = ? AND deleted_at IS NULL
+      `).run(JSON.stringify(resultado), now, id);
     }
 
     if (result.changes === 0) {
@@ -358,7 +390,7 @@ router.put('/:id', (req, res) => {
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
-// DELETE /api/prova-oral/:id - Soft delete de análise (apenas próprias)
+// DELETE /api/prova-oral/:id - Soft delete de análise (próprias ou do gabinete, conforme papel)
 // ═══════════════════════════════════════════════════════════════════════════
 
 router.delete('/:id', (req, res) => {
@@ -368,13 +400,14 @@ router.delete('/:id', (req, res) => {
     const { id } = req.params;
 
     const now = new Date().toISOString();
+    const access = accessWhere(userId, 'delete');
 
-    // Apenas o dono pode deletar a análise
+    // Dono ou membro do gabinete com papel que permite excluir
     const result = db.prepare(`
       UPDATE prova_oral_analyses
       SET deleted_at = ?, updated_at = ?
-      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
-    `).run(now, now, id, userId);
+      WHERE id = ? AND ${access.sql} AND deleted_at IS NULL
+    `).run(now, now, id, ...access.params);
 
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Análise não encontrada' });
@@ -1,5 +1,6 @@
 // server/routes/share.js - Compartilhamento de Biblioteca de Modelos
 // v1.35.1 - Convite por email direto (não mais link público)
+// v1.53.45 - Trilha de auditoria (convite, aceite, revogação, saída)
 
 import express from 'express';
 import crypto from 'crypto';
@@ -7,6 +8,7 @@ import rateLimit from 'express-rate-limit';
 import { v4 as uuidv4 } from 'uuid';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import audit from '../middleware/audit.js';
 import emailService from '../services/EmailService.js';
 
 const router = express.Router();
@@ -26,9 +28,10 @@ const tokenLookupLimiter = rateLimit({
 // POST /api/share/library
 // v1.35.1: Enviar convite de compartilhamento por email
 // ═══════════════════════════════════════════════════════════════
-router.post('/library', authMiddleware, async (req, res) => {
+router.post('/library', authMiddleware, audit('share.create'), async (req, res) => {
   try {
     const { permission = 'view', recipientEmail } = req.body;
+    res.locals.audit.details = { recipientEmail, permission };
     const userId = req.user.id;
     const ownerEmail = req.user.email;
     const db = getDb();
@@ -74,6 +77,7 @@ router.post('/library', authMiddleware, async (req, res) => {
       INSERT INTO library_shares (id, owner_id, share_token, permission, recipient_email)
       VALUES (?, ?, ?, ?, ?)
     `).run(shareId, userId, shareToken, permission, recipientEmail.toLowerCase());
+    Object.assign(res.locals.audit, { targetType: 'library_share', targetId: shareId });
 
     // Enviar email de convite
     try {
@@ -227,7 +231,7 @@ router.get('/library/:token', tokenLookupLimiter, (req, res) => {
 // POST /api/share/library/:token/accept
 // Aceitar compartilhamento (criar acesso)
 // ═══════════════════════════════════════════════════════════════
-router.post('/library/:token/accept', authMiddleware, (req, res) => {
+router.post('/library/:token/accept', authMiddleware, audit('share.accept'), (req, res) => {
   try {
     const { token } = req.params;
     const recipientId = req.user.id;
@@ -244,6 +248,11 @@ router.post('/library/:token/accept', authMiddleware, (req, res) => {
     if (!share) {
       return res.status(404).json({ error: 'Link de compartilhamento inválido ou expirado' });
     }
+    res.locals.audit = {
+      targetType: 'library_share',
+      targetId: share.id,
+      details: { ownerEmail: share.owner_email, permission: share.permission },
+    };
 
     // Não pode aceitar próprio compartilhamento
     if (share.owner_id === recipientId) {
@@ -307,9 +316,10 @@ router.post('/library/:token/accept', authMiddleware, (req, res) => {
 // DELETE /api/share/library/:shareId
 // Revogar compartilhamento (proprietário)
 // ═══════════════════════════════════════════════════════════════
-router.delete('/library/:shareId', authMiddleware, (req, res) => {
+router.delete('/library/:shareId', authMiddleware, audit('share.revoke'), (req, res) => {
   try {
     const { shareId } = req.params;
+    res.locals.audit = { targetType: 'library_share', targetId: shareId };
     const userId = req.user.id;
     const db = getDb();
 
@@ -322,6 +332,8 @@ router.delete('/library/:shareId', authMiddleware, (req, res) => {
       return res.status(404).json({ error: 'Compartilhamento não encontrado' });
     }
 
+    res.locals.audit.details = { recipientEmail: share.recipient_email, permission: share.permission };
+
     // Revogar (soft delete)
     db.prepare(`
       UPDATE library_shares SET revoked_at = datetime('now') WHERE id = ?
@@ -345,9 +357,10 @@ router.delete('/library/:shareId', authMiddleware, (req, res) => {
 // DELETE /api/share/library/access/:accessId
 // Remover acesso recebido (destinatário)
 // ═══════════════════════════════════════════════════════════════
-router.delete('/library/access/:accessId', authMiddleware, (req, res) => {
+router.delete('/library/access/:accessId', authMiddleware, audit('share.leave'), (req, res) => {
   try {
     const { accessId } = req.params;
+    res.locals.audit = { targetType: 'library_access', targetId: accessId };
     const userId = req.user.id;
     const db = getDb();
 
@@ -360,6 +373,7 @@ router.delete('/library/access/:accessId', authMiddleware, (req, res) => {
       return res.status(404).json({ error: 'Acesso não encontrado' });
     }
 
+    res.locals.audit.details = { ownerId: access.owner_id, permission: access.permission };
     db.prepare(`DELETE FROM library_access WHERE id = ?`).run(accessId);
 
     console.log(`[Share] Acesso removido pelo destinatário: ${req.user.email}`);
@@ -1,9 +1,16 @@
 // server/routes/sync.js - Sincronização Bidirecional
 // v1.1.0 - Incluir modelos compartilhados no pull
+// v1.2.0 - Sessões de trabalho (processo em andamento) encriptadas ponta a ponta
+// v1.3.0 - Modelos de gabinete (workspace_id) com permissões por papel
+// v1.4.0 - Histórico de revisões: cada create/update do push vira revisão do modelo
+// v1.5.0 - Push com mais de uma exclusão entra na trilha de auditoria (models.bulk_delete)
 
 import express from 'express';
 import { getDb } from '../db/database.js';
 import authMiddleware from '../middleware/auth.js';
+import audit from '../middleware/audit.js';
+import { can, resolveActiveWorkspace } from '../services/WorkspaceService.js';
+import { ensureBaseline, recordRevision } from '../services/ModelRevisionService.js';
 
 const router = express.Router();
 
@@ -38,6 +45,20 @@ router.post('/pull', (req, res) => {
       : [];
     const knownSharedOwnerIds = sharedOwnerIds.filter(id => !newlySharedOwnerIds.includes(id));
 
+    // v1.3.0: Gabinetes do usuário — modelos de outros membros chegam como compartilhados
+    // (os do próprio usuário já vêm na query principal, por user_id)
+    const memberships = db.prepare(`
+      SELECT wm.workspace_id, wm.role, wm.accepted_at
+      FROM workspace_members wm
+      JOIN workspaces w ON w.id = wm.workspace_id
+      WHERE wm.user_id = ? AND wm.accepted_at IS NOT NULL AND w.deleted_at IS NULL
+    `).all(userId);
+    const workspaceIds = memberships.map(ws => ws.workspace_id);
+    const newWorkspaceIds = lastSyncAt
+      ? memberships.filter(ws => new Date(ws.accepted_at) > new Date(lastSyncAt)).map(ws => ws.workspace_id)
+      : [];
+    const knownWorkspaceIds = workspaceIds.filter(id => !newWorkspaceIds.includes(id));
+
     // Contar total de modelos para hasMore
     let totalQuery;
     let modelsQuery;
@@ -51,6 +72,7 @@ router.post('/pull', (req, res) => {
       modelsQuery = db.prepare(`
         SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
                m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+               m.workspace_id, m.approved_at,
                m.user_id as owner_id, u.email as owner_email
         FROM models m
         JOIN users u ON m.user_id = u.id
@@ -67,6 +89,7 @@ router.post('/pull', (req, res) => {
       modelsQuery = db.prepare(`
         SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
                m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+               m.workspace_id, m.approved_at,
                m.user_id as owner_id, u.email as owner_email
         FROM models m
         JOIN users u ON m.user_id = u.id
@@ -96,6 +119,7 @@ router.post('/pull', (req, res) => {
         const newlySharedModels = db.prepare(`
           SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
                  m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+                 m.workspace_id, m.approved_at,
                  m.user_id as owner_id, u.email as owner_email
           FROM models m
           JOIN users u ON m.user_id = u.id
@@ -115,6 +139,7 @@ router.post('/pull', (req, res) => {
           const knownSharedModels = db.prepare(`
             SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
                    m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+                   m.workspace_id, m.approved_at,
                    m.user_id as owner_id, u.email as owner_email
             FROM models m
             JOIN users u ON m.user_id = u.id
@@ -128,6 +153,7 @@ router.post('/pull', (req, res) => {
           const knownSharedModels = db.prepare(`
             SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
                    m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+                   m.workspace_id, m.approved_at,
                    m.user_id as owner_id, u.email as owner_email
             FROM models m
             JOIN users u ON m.user_id = u.id
@@ -140,6 +166,31 @@ router.post('/pull', (req, res) => {
       }
     }
 
+    // v1.3.0: Modelos de gabinete criados por outros membros
+    // Mesma lógica dos shares: gabinete recém-aceito vem completo, os conhecidos seguem o incremental
+    let workspaceModels = [];
+    if (offset === 0 && workspaceIds.length > 0) {
+      const fetchWorkspaceModels = (ids, since) => db.prepare(`
+        SELECT m.id, m.title, m.content, m.category, m.keywords, m.is_favorite,
+               m.embedding, m.created_at, m.updated_at, m.deleted_at, m.sync_version,
+               m.workspace_id, m.approved_at,
+               m.user_id as owner_id, u.email as owner_email
+        FROM models m
+        JOIN users u ON m.user_id = u.id
+        WHERE m.workspace_id IN (${ids.map(() => '?').join(',')}) AND m.user_id != ?
+          AND ${since ? 'm.updated_at > ?' : 'm.deleted_at IS NULL'}
+        ORDER BY m.updated_at ASC
+      `).all(...ids, userId, ...(since ? [since] : []));
+
+      if (newWorkspaceIds.length > 0) {
+        workspaceModels.push(...fetchWorkspaceModels(newWorkspaceIds, null));
+      }
+      if (knownWorkspaceIds.length > 0) {
+        workspaceModels.push(...fetchWorkspaceModels(knownWorkspaceIds, lastSyncAt));
+      }
+      console.log(`[Sync] Pull: ${workspaceModels.length} modelos de ${workspaceIds.length} gabinetes`);
+    }
+
     // Converter campos para formato do cliente
     const convertModel = (m, isShared) => ({
       id: m.id,
@@ -157,6 +208,9 @@ router.post('/pull', (req, res) => {
       ownerId: m.owner_id,
       ownerEmail: m.owner_email,
       isShared,
+      // v1.3.0: Gabinete
+      workspaceId: m.workspace_id || null,
+      approvedAt: m.approved_at || null,
     });
 
     const ownModels = models.map(m => convertModel(m, false));
@@ -168,6 +222,14 @@ router.post('/pull', (req, res) => {
       };
     });
 
+    // v1.3.0: Todo papel edita no gabinete; exclusão é validada no push
+    const sharedIds = new Set(sharedModelsList.map(m => m.id));
+    for (const m of workspaceModels) {
+      if (sharedIds.has(m.id)) continue;
+      sharedIds.add(m.id);
+      sharedModelsList.push({ ...convertModel(m, true), sharedPermission: 'edit' });
+    }
+
     const allModels = [...ownModels, ...sharedModelsList];
     const serverTime = new Date().toISOString();
     const hasMore = offset + models.length < total;
@@ -181,11 +243,21 @@ router.post('/pull', (req, res) => {
       total: total + sharedModelsList.length,
       hasMore,
       // v1.1.0: Informações sobre bibliotecas compartilhadas
-      sharedLibraries: sharedLibraries.map(lib => ({
-        ownerId: lib.owner_id,
-        ownerEmail: lib.owner_email,
-        permission: lib.permission
-      }))
+      // v1.3.0: Membros dos gabinetes entram como bibliotecas ativas para o cliente
+      // preservar os modelos deles entre syncs incrementais
+      sharedLibraries: [
+        ...sharedLibraries.map(lib => ({
+          ownerId: lib.owner_id,
+          ownerEmail: lib.owner_email,
+          permission: lib.permission
+        })),
+        ...(workspaceIds.length > 0 ? db.prepare(`
+          SELECT DISTINCT wm.user_id AS ownerId, wm.email AS ownerEmail, 'edit' AS permission, wm.workspace_id AS workspaceId
+          FROM workspace_members wm
+          WHERE wm.workspace_id IN (${workspaceIds.map(() => '?').join(',')})
+            AND wm.accepted_at IS NOT NULL AND wm.user_id != ?
+        `).all(...workspaceIds, userId) : []),
+      ]
     });
   } catch (error) {
     console.error('[Sync] Pull error:', error);
@@ -196,8 +268,9 @@ router.post('/pull', (req, res) => {
 // POST /api/sync/push
 // Recebe mudanças do cliente
 // v1.35.1: Suporta edição/exclusão de modelos compartilhados (se permission = 'edit')
-router.post('/push', (req, res) => {
+router.post('/push', audit('models.bulk_delete'), (req, res) => {
   try {
+    res.locals.audit.skip = true; // Só registra quando houver exclusão em lote (abaixo)
     const db = getDb();
     const userId = req.user.id;
     const { changes } = req.body;
@@ -219,17 +292,29 @@ router.post('/push', (req, res) => {
       WHERE recipient_id = ? AND permission = 'edit'
     `).all(userId).map(r => r.owner_id);
 
+    // v1.3.0: Papéis do usuário nos gabinetes + gabinete ativo (header X-Workspace-Id)
+    const workspaceRoles = new Map(db.prepare(`
+      SELECT wm.workspace_id, wm.role FROM workspace_members wm
+      JOIN workspaces w ON w.id = wm.workspace_id
+      WHERE wm.user_id = ? AND wm.accepted_at IS NOT NULL AND w.deleted_at IS NULL
+    `).all(userId).map(r => [r.workspace_id, r.role]));
+    const activeWorkspace = resolveActiveWorkspace(req, 'create');
+    const approvesOnCreate = !!activeWorkspace && can(activeWorkspace.role, 'approve');
+
     // Prepared statements para performance
     // v1.0.2: INSERT OR REPLACE para evitar erro de UNIQUE constraint
     const insertStmt = db.prepare(`
-      INSERT OR REPLACE INTO models (id, user_id, title, content, category, keywords, is_favorite, embedding, created_at, updated_at, sync_version)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+      INSERT OR REPLACE INTO models (id, user_id, title, content, category, keywords, is_favorite, embedding, created_at, updated_at, sync_version,
+                                     workspace_id, approved_at, approved_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?)
     `);
 
+    // v1.3.0: Edição por quem não aprova devolve o modelo de gabinete para "pendente"
     const updateStmt = db.prepare(`
       UPDATE models
       SET title = ?, content = ?, category = ?, keywords = ?, is_favorite = ?,
-          embedding = ?, updated_at = ?, sync_version = sync_version + 1
+          embedding = ?, updated_at = ?, sync_version = sync_version + 1,
+          approved_at = CASE WHEN ? = 1 THEN approved_at ELSE NULL END
       WHERE id = ? AND user_id = ? AND sync_version = ?
     `);
 
@@ -246,7 +331,8 @@ router.post('/push', (req, res) => {
 
     // v1.35.1: Buscar modelo existente para verificar propriedade
     // v1.35.22: Incluir deleted_at para rejeitar update em modelo deletado
-    const getModelStmt = db.prepare(`SELECT user_id, sync_version, deleted_at FROM models WHERE id = ?`);
+    // v1.3.0: Incluir workspace_id para checar o papel no gabinete
+    const getModelStmt = db.prepare(`SELECT user_id, sync_version, deleted_at, workspace_id FROM models WHERE id = ?`);
 
     // Processar cada mudança em uma transaction
     const processChanges = db.transaction(() => {
@@ -261,17 +347,24 @@ router.post('/push', (req, res) => {
 
         // v1.35.1: Determinar o owner_id efetivo (próprio ou compartilhado com edit)
         let effectiveOwnerId = userId;
+        let keepsApproval = true;
         if (operation === 'update' || operation === 'delete') {
           const existingModel = getModelStmt.get(model.id);
           if (existingModel) {
+            const role = existingModel.workspace_id ? workspaceRoles.get(existingModel.workspace_id) : undefined;
+            keepsApproval = !existingModel.workspace_id || can(role, 'approve');
+
             // v1.35.22: Rejeitar update em modelo já deletado (evita loop de retry)
             if (operation === 'update' && existingModel.deleted_at) {
               results.conflicts.push({ id: model.id, reason: 'model_deleted' });
               continue;
             }
 
-            if (existingModel.user_id === userId) {
+            // v1.3.0: Autor só mantém o acesso a modelo de gabinete enquanto for membro
+            if (existingModel.user_id === userId && (!existingModel.workspace_id || role)) {
               effectiveOwnerId = userId;
+            } else if (role && can(role, operation === 'delete' ? 'delete' : 'edit')) {
+              effectiveOwnerId = existingModel.user_id;
             } else if (editableOwners.includes(existingModel.user_id)) {
               effectiveOwnerId = existingModel.user_id;
               console.log(`[Sync] Editando modelo compartilhado ${model.id} do owner ${effectiveOwnerId}`);
@@ -294,9 +387,13 @@ router.post('/push', (req, res) => {
               model.isFavorite ? 1 : 0,
               embeddingBlob,
               model.createdAt || new Date().toISOString(),
-              model.updatedAt || new Date().toISOString()
+              model.updatedAt || new Date().toISOString(),
+              activeWorkspace?.workspace_id || null, // v1.3.0: Criado no gabinete ativo
+              approvesOnCreate ? new Date().toISOString() : null,
+              approvesOnCreate ? userId : null
             );
             logStmt.run(userId, 'create', model.id, 1);
+            recordRevision(model.id, userId, 'create');
             results.created.push(model.id);
           } catch (err) {
             if (err.code === 'SQLITE_CONSTRAINT') {
@@ -306,6 +403,8 @@ router.post('/push', (req, res) => {
             }
           }
         } else if (operation === 'update') {
+          // v1.4.0: Preservar o texto atual no histórico antes de sobrescrever
+          ensureBaseline(model.id);
           const info = updateStmt.run(
             model.title,
             model.content,
@@ -314,6 +413,7 @@ router.post('/push', (req, res) => {
             model.isFavorite ? 1 : 0,
             embeddingBlob,
             model.updatedAt || new Date().toISOString(),
+            keepsApproval ? 1 : 0,
             model.id,
             effectiveOwnerId, // v1.35.1: Usar owner efetivo
             model.syncVersion || 0
@@ -321,6 +421,7 @@ router.post('/push', (req, res) => {
 
           if (info.changes > 0) {
             logStmt.run(userId, 'update', model.id, (model.syncVersion || 0) + 1);
+            recordRevision(model.id, userId, 'update');
             results.updated.push(model.id);
           } else {
             // v1.35.11: Conflito de versão - incluir versão atual do servidor para diagnóstico
@@ -343,6 +444,10 @@ router.post('/push', (req, res) => {
 
     processChanges();
 
+    if (results.deleted.length > 1) {
+      res.locals.audit = { targetType: 'models', details: { deleted: results.deleted.length, ids: results.deleted } };
+    }
+
     res.json({
       success: true,
       results,
@@ -379,4 +484,141 @@ router.get('/status', (req, res) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// SESSÕES DE TRABALHO (v1.2.0)
+// O cliente encripta label e payload com chave derivada da frase-senha do juiz;
+// aqui só trafegam envelopes opacos. Conflitos seguem o modelo de models:
+// update exige o sync_version que o cliente conhece.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SESSION_ID_REGEX = /^[A-Za-z0-9-]{8,64}$/;
+
+const convertSession = (s, includePayload) => ({
+  id: s.id,
+  label: s.label_cipher,
+  ...(includePayload ? { payload: s.payload_cipher } : {}),
+  size: s.payload_size,
+  createdAt: s.created_at,
+  updatedAt: s.updated_at,
+  syncVersion: s.sync_version,
+});
+
+// GET /api/sync/sessions
+// Lista as sessões do usuário (sem payload)
+router.get('/sessions', (req, res) => {
+  try {
+    const db = getDb();
+    const sessions = db.prepare(`
+      SELECT id, label_cipher, payload_size, created_at, updated_at, sync_version
+      FROM sync_sessions
+      WHERE user_id = ? AND deleted_at IS NULL
+      ORDER BY updated_at DESC
+    `).all(req.user.id);
+
+    res.json({ sessions: sessions.map(s => convertSession(s, false)), serverTime: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Sync] Sessions list error:', error);
+    res.status(500).json({ error: 'Erro ao listar sessões' });
+  }
+});
+
+// GET /api/sync/sessions/:id
+router.get('/sessions/:id', (req, res) => {
+  try {
+    const db = getDb();
+    const session = db.prepare(`
+      SELECT * FROM sync_sessions
+      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+    `).get(req.params.id, req.user.id);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Sessão não encontrada' });
+    }
+
+    res.json({ session: convertSession(session, true) });
+  } catch (error) {
+    console.error('[Sync] Session get error:', error);
+    res.status(500).json({ error: 'Erro ao carregar sessão' });
+  }
+});
+
+// PUT /api/sync/sessions/:id
+// Cria ou atualiza. Body: { label, payload, syncVersion, force? }
+// 409 quando a versão do servidor é outra (outro dispositivo salvou antes),
+// salvo com force: true (o juiz escolheu sobrescrever).
+router.put('/sessions/:id', (req, res) => {
+  try {
+    const db = getDb();
+    const userId = req.user.id;
+    const { id } = req.params;
+    const { label, payload, syncVersion = 0, force = false } = req.body || {};
+
+    if (!SESSION_ID_REGEX.test(id)) {
+      return res.status(400).json({ error: 'ID de sessão inválido' });
+    }
+    if (typeof label !== 'string' || typeof payload !== 'string' || !label || !payload) {
+      return res.status(400).json({ error: 'label e payload (encriptados) são obrigatórios' });
+    }
+
+    const now = new Date().toISOString();
+    const existing = db.prepare('SELECT user_id, sync_version, deleted_at FROM sync_sessions WHERE id = ?').get(id);
+
+    if (existing && existing.user_id !== userId) {
+      return res.status(403).json({ error: 'Sem permissão para esta sessão' });
+    }
+
+    if (!existing || existing.deleted_at) {
+      db.prepare(`
+        INSERT OR REPLACE INTO sync_sessions (id, user_id, label_cipher, payload_cipher, payload_size, created_at, updated_at, sync_version)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+      `).run(id, userId, label, payload, payload.length, now, now);
+      return res.json({ success: true, id, syncVersion: 1, updatedAt: now });
+    }
+
+    const info = db.prepare(`
+      UPDATE sync_sessions
+      SET label_cipher = ?, payload_cipher = ?, payload_size = ?, updated_at = ?, sync_version = sync_version + 1
+      WHERE id = ? AND user_id = ? AND (sync_version = ? OR ?)
+    `).run(label, payload, payload.length, now, id, userId, syncVersion, force ? 1 : 0);
+
+    if (info.changes === 0) {
+      const current = db.prepare('SELECT sync_version, updated_at FROM sync_sessions WHERE id = ?').get(id);
+      return res.status(409).json({
+        error: 'A sessão foi alterada em outro dispositivo',
+        reason: 'version_mismatch',
+        clientVersion: syncVersion,
+        serverVersion: current?.sync_version || 0,
+        updatedAt: current?.updated_at || null,
+      });
+    }
+
+    const updated = db.prepare('SELECT sync_version FROM sync_sessions WHERE id = ?').get(id);
+    res.json({ success: true, id, syncVersion: updated.sync_version, updatedAt: now });
+  } catch (error) {
+    console.error('[Sync] Session push error:', error);
+    res.status(500).json({ error: 'Erro ao salvar sessão' });
+  }
+});
+
+// DELETE /api/sync/sessions/:id (soft delete)
+router.delete('/sessions/:id', (req, res) => {
+  try {
+    const db = getDb();
+    const now = new Date().toISOString();
+    const info = db.prepare(`
+      UPDATE sync_sessions
+      SET deleted_at = ?, updated_at = ?, payload_cipher = '', payload_size = 0, sync_version = sync_version + 1
+      WHERE id = ? AND user_id = ? AND deleted_at IS NULL
+    `).run(now, now, req.params.id, req.user.id);
+
+    if (info.changes === 0) {
+      return res.status(404).json({ error: 'Sessão não encontrada' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Sync] Session delete error:', error);
+    res.status(500).json({ error: 'Erro ao excluir sessão' });
+  }
+});
+
 export default router;
@@ -0,0 +1,316 @@
+// server/routes/workspaces.js - Gabinetes (workspaces) com papéis
+// v1.53.43 - Substitui o re-compartilhamento recurso a recurso: o juiz cria o
+// gabinete, convida a equipe e o acervo passa a ser do gabinete
+// v1.53.45 - Trilha de auditoria nas mudanças de membros
+
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/database.js';
+import authMiddleware from '../middleware/auth.js';
+import audit from '../middleware/audit.js';
+import {
+  ROLES, can, getMembership, listWorkspaces, listPendingInvites,
+  adoptPersonalItems, releaseWorkspaceItems, listPendingModels, approveModel,
+} from '../services/WorkspaceService.js';
+
+const router = express.Router();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MIDDLEWARE
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Aplicar auth em todas as rotas
+router.use(authMiddleware);
+
+/** Exige vínculo aceito com o gabinete :id e papel com a permissão */
+const requireRole = (action) => (req, res, next) => {
+  const membership = getMembership(req.params.id, req.user.id);
+  if (!membership) {
+    return res.status(404).json({ error: 'Gabinete não encontrado' });
+  }
+  if (!can(membership.role, action)) {
+    return res.status(403).json({ error: 'Seu papel no gabinete não permite esta ação' });
+  }
+  req.membership = membership;
+  next();
+};
+
+const listMembers = (workspaceId) => getDb().prepare(`
+  SELECT wm.id, wm.user_id AS userId, wm.email, wm.role, wm.invited_at AS invitedAt, wm.accepted_at AS acceptedAt
+  FROM workspace_members wm
+  WHERE wm.workspace_id = ?
+  ORDER BY wm.accepted_at IS NULL, wm.role, wm.email
+`).all(workspaceId);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GET /api/workspaces - Meus gabinetes + convites pendentes
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.get('/', (req, res) => {
+  try {
+    res.json({
+      workspaces: listWorkspaces(req.user.id),
+      invites: listPendingInvites(req.user.email),
+    });
+  } catch (error) {
+    console.error('[Workspaces] List error:', error);
+    res.status(500).json({ error: 'Erro ao listar gabinetes' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/workspaces - Criar gabinete (criador entra como juiz)
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/', (req, res) => {
+  try {
+    const db = getDb();
+    const name = String(req.body.name || '').trim();
+
+    if (!name || name.length > 120) {
+      return res.status(400).json({ error: 'Nome do gabinete é obrigatório (até 120 caracteres)' });
+    }
+
+    const id = uuidv4();
+    db.transaction(() => {
+      db.prepare('INSERT INTO workspaces (id, name, owner_id) VALUES (?, ?, ?)').run(id, name, req.user.id);
+      db.prepare(`
+        INSERT INTO workspace_members (id, workspace_id, user_id, email, role, invited_by, accepted_at)
+        VALUES (?, ?, ?, ?, 'juiz', ?, datetime('now'))
+      `).run(uuidv4(), id, req.user.id, req.user.email.toLowerCase(), req.user.id);
+    })();
+
+    console.log(`[Workspaces] Gabinete criado: ${name} (${req.user.email})`);
+    res.status(201).json({ id, name });
+  } catch (error) {
+    console.error('[Workspaces] Create error:', error);
+    res.status(500).json({ error: 'Erro ao criar gabinete' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// POST /api/workspaces/invites/:memberId/accept - Aceitar convite
+// POST /api/workspaces/invites/:memberId/decline - Recusar convite
+// IMPORTANTE: Devem vir ANTES de /:id para não serem capturadas por ela
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.post('/invites/:memberId/accept', (req, res) => {
+  try {
+    const result = getDb().prepare(`
+      UPDATE workspace_members SET user_id = ?, accepted_at = datetime('now')
+      WHERE id = ? AND email = ? AND accepted_at IS NULL
+    `).run(req.user.id, req.params.memberId, req.user.email.toLowerCase());
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Convite não encontrado' });
+    }
+    res.json({ success: true, workspaces: listWorkspaces(req.user.id) });
+  } catch (error) {
+    console.error('[Workspaces] Accept error:', error);
+    res.status(500).json({ error: 'Erro ao aceitar convite' });
+  }
+});
+
+router.post('/invites/:memberId/decline', (req, res) => {
+  try {
+    const result = getDb().prepare(`
+      DELETE FROM workspace_members WHERE id = ? AND email = ? AND accepted_at IS NULL
+    `).run(req.params.memberId, req.user.email.toLowerCase());
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Convite não encontrado' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Workspaces] Decline error:', error);
+    res.status(500).json({ error: 'Erro ao recusar convite' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PATCH /api/workspaces/:id - Renomear
+// DELETE /api/workspaces/:id - Excluir (apenas o criador; acervo volta aos autores)
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.patch('/:id', requireRole('manage'), (req, res) => {
+  try {
+    const name = String(req.body.name || '').trim();
+    if (!name || name.length > 120) {
+      return res.status(400).json({ error: 'Nome do gabinete é obrigatório (até 120 caracteres)' });
+    }
+    getDb().prepare('UPDATE workspaces SET name = ? WHERE id = ?').run(name, req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Workspaces] Rename error:', error);
+    res.status(500).json({ error: 'Erro ao renomear gabinete' });
+  }
+});
+
+router.delete('/:id', requireRole('manage'), (req, res) => {
+  try {
+    if (req.membership.owner_id !== req.user.id) {
+      return res.status(403).json({ error: 'Apenas quem criou o gabinete pode excluí-lo' });
+    }
+    releaseWorkspaceItems(req.params.id);
+    getDb().prepare("UPDATE workspaces SET deleted_at = datetime('now') WHERE id = ?").run(req.params.id);
+    console.log(`[Workspaces] Gabinete excluído: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Workspaces] Delete error:', error);
+    res.status(500).json({ error: 'Erro ao excluir gabinete' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MEMBROS
+// ═══════════════════════════════════════════════════════════════════════════
+
+router.get('/:id/members', requireRole('view'), (req, res) => {
+  try {
+    res.json({ members: listMembers(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Members error:', error);
+    res.status(500).json({ error: 'Erro ao listar membros' });
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/members
+ * Convida por email. O convite aparece para o convidado ao entrar no app
+ * (GET /api/workspaces), inclusive se ele ainda não tiver conta.
+ */
+router.post('/:id/members', requireRole('manage'), audit('workspace.member_invite'), (req, res) => {
+  try {
+    const email = String(req.body.email || '').toLowerCase().trim();
+    const { role = 'assessor' } = req.body;
+    res.locals.audit = { targetType: 'workspace', targetId: req.params.id, details: { email, role } };
+
+    if (!email.includes('@')) {
+      return res.status(400).json({ error: 'Email do convidado é obrigatório' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Papel inválido. Use juiz, assessor ou estagiario.' });
+    }
+
+    const db = getDb();
+    const existing = db.prepare('SELECT id FROM workspace_members WHERE workspace_id = ? AND email = ?')
+      .get(req.params.id, email);
+    if (existing) {
+      return res.status(400).json({ error: 'Este email já é membro ou já foi convidado.' });
+    }
+
+    db.prepare(`
+      INSERT INTO workspace_members (id, workspace_id, email, role, invited_by)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(uuidv4(), req.params.id, email, role, req.user.id);
+
+    console.log(`[Workspaces] Convite: ${req.user.email} -> ${email} (${role})`);
+    res.status(201).json({ members: listMembers(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Invite error:', error);
+    res.status(500).json({ error: 'Erro ao convidar membro' });
+  }
+});
+
+router.patch('/:id/members/:memberId', requireRole('manage'), audit('workspace.member_role'), (req, res) => {
+  try {
+    const { role } = req.body;
+    res.locals.audit = { targetType: 'workspace_member', targetId: req.params.memberId, details: { workspaceId: req.params.id, role } };
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Papel inválido. Use juiz, assessor ou estagiario.' });
+    }
+
+    const db = getDb();
+    const member = db.prepare('SELECT user_id FROM workspace_members WHERE id = ? AND workspace_id = ?')
+      .get(req.params.memberId, req.params.id);
+    if (!member) {
+      return res.status(404).json({ error: 'Membro não encontrado' });
+    }
+    if (member.user_id === req.membership.owner_id) {
+      return res.status(400).json({ error: 'O papel de quem criou o gabinete não pode ser alterado' });
+    }
+
+    db.prepare('UPDATE workspace_members SET role = ? WHERE id = ?').run(role, req.params.memberId);
+    res.json({ members: listMembers(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Role error:', error);
+    res.status(500).json({ error: 'Erro ao alterar papel' });
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:id/members/:memberId
+ * Remove membro (juiz) ou sai do gabinete (o próprio membro). Os itens que ele
+ * criou continuam no gabinete.
+ */
+router.delete('/:id/members/:memberId', requireRole('view'), audit('workspace.member_remove'), (req, res) => {
+  try {
+    const db = getDb();
+    const member = db.prepare('SELECT user_id, email, role FROM workspace_members WHERE id = ? AND workspace_id = ?')
+      .get(req.params.memberId, req.params.id);
+    res.locals.audit = {
+      targetType: 'workspace_member',
+      targetId: req.params.memberId,
+      details: { workspaceId: req.params.id, email: member?.email, role: member?.role },
+    };
+    if (!member) {
+      return res.status(404).json({ error: 'Membro não encontrado' });
+    }
+
+    const isSelf = member.user_id === req.user.id;
+    if (!isSelf && !can(req.membership.role, 'manage')) {
+      return res.status(403).json({ error: 'Seu papel no gabinete não permite esta ação' });
+    }
+    if (member.user_id === req.membership.owner_id) {
+      return res.status(400).json({ error: 'Quem criou o gabinete não pode ser removido' });
+    }
+
+    db.prepare('DELETE FROM workspace_members WHERE id = ?').run(req.params.memberId);
+    res.json({ members: isSelf ? [] : listMembers(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Remove member error:', error);
+    res.status(500).json({ error: 'Erro ao remover membro' });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACERVO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * POST /api/workspaces/:id/adopt
+ * Move o acervo pessoal de quem chama (modelos, pacotes, análises) para o gabinete
+ */
+router.post('/:id/adopt', requireRole('create'), (req, res) => {
+  try {
+    const moved = adoptPersonalItems(req.params.id, req.user.id, can(req.membership.role, 'approve'));
+    console.log(`[Workspaces] Acervo movido para ${req.params.id}:`, moved);
+    res.json({ success: true, moved });
+  } catch (error) {
+    console.error('[Workspaces] Adopt error:', error);
+    res.status(500).json({ error: 'Erro ao mover acervo para o gabinete' });
+  }
+});
+
+router.get('/:id/pending-models', requireRole('approve'), (req, res) => {
+  try {
+    res.json({ models: listPendingModels(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Pending models error:', error);
+    res.status(500).json({ error: 'Erro ao listar modelos pendentes' });
+  }
+});
+
+router.post('/:id/models/:modelId/approve', requireRole('approve'), (req, res) => {
+  try {
+    if (!approveModel(req.params.id, req.params.modelId, req.user.id)) {
+      return res.status(404).json({ error: 'Modelo não encontrado' });
+    }
+    res.json({ models: listPendingModels(req.params.id) });
+  } catch (error) {
+    console.error('[Workspaces] Approve error:', error);
+    res.status(500).json({ error: 'Erro ao aprovar modelo' });
+  }
+});
+
+export default router;
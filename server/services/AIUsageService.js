@@ -0,0 +1,219 @@
+// server/services/AIUsageService.js
+// v1.53.42 - Livro-razão de uso de IA por usuário, app e operação
+//
+// As rotas de proxy (/api/claude, /api/gemini, /api/openai, /api/grok,
+// /api/deepseek) registram tokens e custo estimado de cada chamada. O gabinete
+// paga a conta das APIs: o AdminPanel mostra o relatório mensal e os limites
+// (alerta e bloqueio) por usuário. Antes disso o uso só existia no
+// TokenMetrics.byModel do navegador.
+
+import { getDb } from '../db/database.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PREÇOS (USD por 1M tokens) — mesma tabela do ConfigModal
+// ═══════════════════════════════════════════════════════════════════════════
+
+const PRICES = {
+  claudeSonnet: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 },
+  claudeOpus: { input: 5.00, output: 25.00, cacheWrite: 6.25, cacheRead: 0.50 },
+  geminiPro: { input: 2.00, output: 12.00, cacheWrite: 2.50, cacheRead: 0.20 },
+  geminiFlash: { input: 0.50, output: 3.00, cacheWrite: 0.625, cacheRead: 0.05 },
+  openai: { input: 1.75, output: 14.00, cacheWrite: 1.75, cacheRead: 0.175 },
+  grok: { input: 0.20, output: 0.50, cacheWrite: 0.20, cacheRead: 0.05 },
+  grok420: { input: 2.00, output: 6.00, cacheWrite: 2.00, cacheRead: 0.20 },
+  deepseekFlash: { input: 0.14, output: 0.28, cacheWrite: 0.14, cacheRead: 0.028 },
+  deepseekPro: { input: 1.74, output: 3.48, cacheWrite: 1.74, cacheRead: 0.145 },
+};
+
+export function pricesFor(provider, model = '') {
+  switch (provider) {
+    case 'claude': return model.includes('opus') ? PRICES.claudeOpus : PRICES.claudeSonnet;
+    case 'gemini': return model.includes('pro') ? PRICES.geminiPro : PRICES.geminiFlash;
+    case 'grok': return model.startsWith('grok-4.20') ? PRICES.grok420 : PRICES.grok;
+    case 'deepseek': return model === 'deepseek-v4-pro' ? PRICES.deepseekPro : PRICES.deepseekFlash;
+    default: return PRICES.openai;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NORMALIZAÇÃO DO USAGE DE CADA PROVIDER
+// input = tokens de entrada NÃO cacheados (cacheRead/cacheWrite à parte)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function normalizeUsage(provider, usage) {
+  const u = usage || {};
+  switch (provider) {
+    case 'claude':
+      return {
+        input: u.input_tokens || 0,
+        output: u.output_tokens || 0,
+        cacheRead: u.cache_read_input_tokens || 0,
+        cacheWrite: u.cache_creation_input_tokens || 0,
+      };
+    case 'gemini': {
+      const cached = u.cachedContentTokenCount || 0;
+      return {
+        input: Math.max(0, (u.promptTokenCount || 0) - cached),
+        // Tokens de raciocínio são cobrados como saída
+        output: (u.candidatesTokenCount || 0) + (u.thoughtsTokenCount || 0),
+        cacheRead: cached,
+        cacheWrite: 0,
+      };
+    }
+    case 'deepseek':
+      if (u.prompt_cache_hit_tokens !== undefined || u.prompt_cache_miss_tokens !== undefined) {
+        return {
+          input: u.prompt_cache_miss_tokens || 0,
+          output: u.completion_tokens || 0,
+          cacheRead: u.prompt_cache_hit_tokens || 0,
+          cacheWrite: 0,
+        };
+      }
+    // falls through — formato OpenAI
+    default: {
+      const cached = u.prompt_tokens_details?.cached_tokens || 0;
+      return {
+        input: Math.max(0, (u.prompt_tokens || 0) - cached),
+        output: u.completion_tokens || 0,
+        cacheRead: cached,
+        cacheWrite: 0,
+      };
+    }
+  }
+}
+
+export function estimateCostUSD(provider, model, tokens) {
+  const p = pricesFor(provider, model);
+  return ((tokens.input / 1e6) * p.input)
+    + ((tokens.output / 1e6) * p.output)
+    + ((tokens.cacheRead / 1e6) * p.cacheRead)
+    + ((tokens.cacheWrite / 1e6) * p.cacheWrite);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRO
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TAG_REGEX = /^[a-z0-9][a-z0-9:_-]{0,48}$/i;
+
+// App e operação chegam em headers do cliente (installApiAuthInterceptor e
+// useAIIntegration); valores fora do padrão viram o default.
+const readTag = (value, fallback) =>
+  typeof value === 'string' && TAG_REGEX.test(value) ? value.toLowerCase() : fallback;
+
+/**
+ * Registra uma chamada. Nunca lança — falha no ledger não pode derrubar a
+ * resposta da IA que já foi paga.
+ */
+export function recordAIUsage(req, provider, model, usage) {
+  try {
+    if (!req.user?.id || !usage) return;
+    const tokens = normalizeUsage(provider, usage);
+    if (tokens.input + tokens.output + tokens.cacheRead + tokens.cacheWrite === 0) return;
+
+    getDb().prepare(`
+      INSERT INTO ai_usage (user_id, provider, model, app, operation, input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      req.user.id,
+      provider,
+      String(model || 'desconhecido').slice(0, 80),
+      readTag(req.headers['x-ai-app'], 'sentencify'),
+      readTag(req.headers['x-ai-operation'], 'geral'),
+      tokens.input,
+      tokens.output,
+      tokens.cacheRead,
+      tokens.cacheWrite,
+      estimateCostUSD(provider, model || '', tokens)
+    );
+  } catch (error) {
+    console.error('[AIUsage] Erro ao registrar uso:', error.message);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ORÇAMENTOS
+// Linha 'default' vale para todos; linha com user_id sobrepõe.
+// null = sem limite.
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Mês corrente (UTC) no formato YYYY-MM */
+export const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+export function getMonthlySpend(userId, month = currentMonth()) {
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM ai_usage
+    WHERE user_id = ? AND strftime('%Y-%m', created_at) = ?
+  `).get(userId, month);
+  return row.cost;
+}
+
+export function getBudget(userId) {
+  const db = getDb();
+  const own = db.prepare('SELECT soft_limit_usd, hard_limit_usd FROM ai_budgets WHERE scope = ?').get(userId);
+  const fallback = db.prepare("SELECT soft_limit_usd, hard_limit_usd FROM ai_budgets WHERE scope = 'default'").get();
+  const b = own || fallback || {};
+  return { soft: b.soft_limit_usd ?? null, hard: b.hard_limit_usd ?? null, custom: !!own };
+}
+
+export function budgetStatus(spent, budget) {
+  if (budget.hard !== null && spent >= budget.hard) return 'bloqueado';
+  if (budget.soft !== null && spent >= budget.soft) return 'alerta';
+  return 'ok';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RELATÓRIO MENSAL (AdminPanel)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getMonthlyReport(month = currentMonth()) {
+  const db = getDb();
+  const where = "strftime('%Y-%m', u.created_at) = ?";
+  const totals = `COUNT(*) AS calls, SUM(input_tokens + cache_read_tokens + cache_write_tokens) AS inputTokens,
+    SUM(output_tokens) AS outputTokens, SUM(cost_usd) AS costUSD`;
+
+  const byUser = db.prepare(`
+    SELECT u.user_id AS userId, COALESCE(us.email, u.user_id) AS email, ${totals}
+    FROM ai_usage u LEFT JOIN users us ON us.id = u.user_id
+    WHERE ${where}
+    GROUP BY u.user_id ORDER BY costUSD DESC
+  `).all(month).map(row => {
+    const budget = getBudget(row.userId);
+    return { ...row, softLimitUSD: budget.soft, hardLimitUSD: budget.hard, status: budgetStatus(row.costUSD, budget) };
+  });
+
+  const group = (column) => db.prepare(`
+    SELECT ${column} AS key, ${totals} FROM ai_usage u
+    WHERE ${where} GROUP BY ${column} ORDER BY costUSD DESC
+  `).all(month);
+
+  return {
+    month,
+    totalCostUSD: byUser.reduce((acc, r) => acc + r.costUSD, 0),
+    byUser,
+    byApp: group('app'),
+    byOperation: group('operation'),
+    byModel: group("provider || ':' || model"),
+  };
+}
+
+export function listBudgets() {
+  return getDb().prepare(`
+    SELECT b.scope, COALESCE(us.email, b.scope) AS label, b.soft_limit_usd AS softLimitUSD, b.hard_limit_usd AS hardLimitUSD
+    FROM ai_budgets b LEFT JOIN users us ON us.id = b.scope
+    ORDER BY b.scope = 'default' DESC, label
+  `).all();
+}
+
+export function setBudget(scope, soft, hard) {
+  getDb().prepare(`
+    INSERT INTO ai_budgets (scope, soft_limit_usd, hard_limit_usd, updated_at)
+    VALUES (?, ?, ?, datetime('now'))
+    ON CONFLICT(scope) DO UPDATE SET soft_limit_usd = excluded.soft_limit_usd,
+      hard_limit_usd = excluded.hard_limit_usd, updated_at = excluded.updated_at
+  `).run(scope, soft, hard);
+}
+
+export function deleteBudget(scope) {
+  return getDb().prepare('DELETE FROM ai_budgets WHERE scope = ?').run(scope).changes > 0;
+}
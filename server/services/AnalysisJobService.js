@@ -0,0 +1,505 @@
+// server/services/AnalysisJobService.js
+// v1.53.51 - Fila de lote do Analisador de Prepauta no servidor
+//
+// O BatchMode processava a pauta inteira no navegador: fechar a aba ou o
+// notebook dormir interrompia o lote no meio. Agora o navegador só extrai os
+// PDFs e monta a requisição de cada processo (a mesma que useAIIntegration
+// envia a /api/<provider>/stream); este serviço guarda as requisições em
+// SQLite e as reenvia aos proxies existentes — com auth, orçamento de IA e
+// ledger de uso —, uma por vez por lote, com retry/backoff. Cada resultado
+// vira uma análise salva, como no lote do navegador.
+//
+// Chave de API: com ANALYSIS_JOBS_ENCRYPTION_KEY configurada, a chave do
+// usuário é guardada cifrada no próprio lote (AES-256-GCM) e apagada ao fim;
+// após reinício ou hibernação do servidor, recoverAnalysisJobs() retoma os
+// lotes sozinho. Sem a variável a chave fica só em memória: o servidor precisa
+// ficar no ar até o fim, e um reinício deixa o lote em 'aguardando_chave' até
+// o navegador reenviar a chave (POST /api/analysis-jobs/:id/resume).
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/database.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Proxies de IA aceitos como destino (mesmo formato SSE simplificado) */
+export const JOB_PROXY_PATHS = {
+  claude: '/api/claude/stream',
+  gemini: '/api/gemini/stream',
+  openai: '/api/openai/stream',
+  grok: '/api/grok/stream',
+  deepseek: '/api/deepseek/stream',
+};
+
+const MAX_ATTEMPTS = 3;
+const RETRY_INITIAL_DELAY_MS = 5_000;
+const RETRY_BACKOFF_MULTIPLIER = 3;
+/** Limite por chamada — análises com thinking passam de 5 min */
+const CALL_TIMEOUT_MS = 20 * 60_000;
+/** Pausa entre processos do mesmo lote (rate limit do provider) */
+const ITEM_DELAY_MS = 1_500;
+
+/** Erros do provider que não adianta repetir */
+const PERMANENT_ERROR_TYPES = ['authentication_error', 'permission_error', 'invalid_request_error'];
+
+/**
+ * Erros que valem para o lote inteiro (chave inválida, sem crédito, orçamento
+ * de IA esgotado): o lote para em 'interrompido' em vez de falhar processo a
+ * processo. type (Anthropic, aiBudget), code (OpenAI/Grok/DeepSeek), status (Gemini).
+ */
+const JOB_STOP_ERROR_TYPES = ['authentication_error', 'permission_error', 'budget_exceeded'];
+const JOB_STOP_ERROR_CODES = ['invalid_api_key', 'insufficient_quota'];
+const JOB_STOP_ERROR_STATUSES = ['UNAUTHENTICATED', 'PERMISSION_DENIED'];
+const JOB_STOP_HTTP_STATUSES = [401, 402, 403];
+
+// Estado em memória: chave de API decifrada por lote e lotes com loop ativo
+const apiKeys = new Map();
+const running = new Set();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const sleep = (ms) => new Promise(r => setTimeout(r, ms));
+
+class JobCallError extends Error {
+  constructor(message, permanent = false, stopsJob = false) {
+    super(message);
+    this.permanent = permanent || stopsJob;
+    this.stopsJob = stopsJob;
+  }
+}
+
+const isJobStopError = (error) =>
+  JOB_STOP_ERROR_TYPES.includes(error?.type)
+  || JOB_STOP_ERROR_CODES.includes(error?.code)
+  || JOB_STOP_ERROR_STATUSES.includes(error?.status);
+
+/** Extrai número do processo do nome do arquivo (padrão [1234567-89.1234.5.67.8901]) */
+function extractNumeroFromFilename(filename) {
+  if (!filename) return null;
+  const match = filename.match(/\[(\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4})\]/);
+  return match ? match[1] : null;
+}
+
+const ensureString = (value) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Interpreta a resposta da IA — espelha o fallback de parseAnalysisResult
+ * (useAnalysis.ts) e generateTabelaSintetica (utils/tabela.ts).
+ */
+export function parseAnalysisResponse(text) {
+  let jsonStr = text;
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) jsonStr = fenced[1];
+  const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
+  if (objectMatch) jsonStr = objectMatch[0];
+
+  let parsed;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch {
+    throw new JobCallError('Não foi possível interpretar a resposta da IA');
+  }
+  if (!parsed?.identificacao) {
+    throw new JobCallError('Resultado incompleto: falta identificacao');
+  }
+
+  const pedidos = (parsed.pedidos || []).map(p => ({
+    ...p,
+    fatosReclamante: ensureString(p.fatosReclamante),
+    defesaReclamada: ensureString(p.defesaReclamada),
+    teseJuridica: ensureString(p.teseJuridica),
+    confissaoFicta: p.confissaoFicta ? ensureString(p.confissaoFicta) : null,
+  }));
+
+  return {
+    identificacao: parsed.identificacao,
+    contrato: parsed.contrato || { dadosInicial: {}, controversias: [] },
+    tutelasProvisoras: parsed.tutelasProvisoras || [],
+    preliminares: parsed.preliminares || [],
+    prejudiciais: parsed.prejudiciais || {},
+    pedidos,
+    reconvencao: parsed.reconvencao,
+    defesasAutonomas: parsed.defesasAutonomas || [],
+    impugnacoes: parsed.impugnacoes || { documentos: [], documentosNaoImpugnados: [] },
+    provas: parsed.provas || {
+      reclamante: { testemunhal: false, documental: false, pericial: false, depoimentoPessoal: false },
+      reclamada: { testemunhal: false, documental: false, pericial: false, depoimentoPessoal: false },
+    },
+    valorCausa: parsed.valorCausa || { valorTotal: 0, somaPedidos: 0, inconsistencia: false },
+    alertas: parsed.alertas || [],
+    tabelaSintetica: pedidos.map(p => ({
+      numero: p.numero,
+      tema: p.tema,
+      valor: p.valor,
+      teseAutor: p.fatosReclamante || '',
+      teseRe: p.defesaReclamada || 'Não houve contestação',
+      controversia: p.controversia,
+      confissaoFicta: p.confissaoFicta,
+      observacoes: p.pontosEsclarecer?.length > 0 ? p.pontosEsclarecer[0] : undefined,
+      tipoPedido: p.tipoPedido,
+      pedidoPrincipalNumero: p.pedidoPrincipalNumero,
+      condicao: p.condicao,
+    })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHAVE DE API
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** 32 bytes em hex (64) ou base64 (44); null = chave só em memória */
+function getEncryptionKey() {
+  const raw = process.env.ANALYSIS_JOBS_ENCRYPTION_KEY;
+  if (!raw) return null;
+  const key = /^[0-9a-fA-F]{64}$/.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('ANALYSIS_JOBS_ENCRYPTION_KEY deve ter 32 bytes (64 hex ou 44 base64)');
+  }
+  return key;
+}
+
+// Formato armazenado: base64(iv) + ':' + base64(authTag) + ':' + base64(ciphertext)
+function encryptApiKey(plain, key) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+function decryptApiKey(stored, key) {
+  const [iv, authTag, ciphertext] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function storeApiKey(jobId, apiKey) {
+  apiKeys.set(jobId, apiKey);
+  const key = getEncryptionKey();
+  getDb().prepare('UPDATE analysis_jobs SET api_key_encrypted = ? WHERE id = ?')
+    .run(key ? encryptApiKey(apiKey, key) : null, jobId);
+}
+
+/** Chave do lote: memória, senão a cifrada no banco (após reinício) */
+function loadApiKey(job) {
+  if (apiKeys.has(job.id)) return apiKeys.get(job.id);
+  if (!job.api_key_encrypted) return null;
+  try {
+    const key = getEncryptionKey();
+    if (!key) return null;
+    const apiKey = decryptApiKey(job.api_key_encrypted, key);
+    apiKeys.set(job.id, apiKey);
+    return apiKey;
+  } catch (error) {
+    console.warn(`[AnalysisJobs] Lote ${job.id}: não foi possível decifrar a chave (${error.message})`);
+    return null;
+  }
+}
+
+function clearApiKey(jobId) {
+  apiKeys.delete(jobId);
+  getDb().prepare('UPDATE analysis_jobs SET api_key_encrypted = NULL WHERE id = ?').run(jobId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHAMADA AO PROXY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Usuário de uma chamada interna do lote (JWT emitido por callProxy). O
+ * aiLimiter conta essas chamadas por usuário: todas saem do mesmo IP de
+ * loopback e dividiriam um único balde entre todos os lotes.
+ */
+export function getAnalysisJobUserId(req) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+  try {
+    const decoded = jwt.verify(header.slice(7), process.env.JWT_SECRET);
+    return decoded.analysisJob ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reenvia a requisição ao proxy local como o próprio usuário (JWT curto), para
+ * passar pelo aiBudget e registrar o uso em ai_usage com app 'analisador'.
+ */
+async function callProxy(job, item, apiKey) {
+  const user = getDb().prepare('SELECT email FROM users WHERE id = ?').get(job.user_id);
+  const token = jwt.sign(
+    { userId: job.user_id, email: user?.email, analysisJob: job.id },
+    process.env.JWT_SECRET,
+    { expiresIn: '10m' }
+  );
+
+  let response;
+  try {
+    response = await fetch(`http://127.0.0.1:${process.env.PORT || 3001}${item.request_path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        'x-api-key': apiKey,
+        'X-AI-App': 'analisador',
+        'X-AI-Operation': 'lote',
+      },
+      body: item.request_body,
+      signal: AbortSignal.timeout(CALL_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new JobCallError(error.name === 'TimeoutError' ? 'Tempo limite da IA excedido' : error.message);
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    const message = data.error?.message || data.error || `HTTP ${response.status}`;
+    // 429/5xx: rate limit ou indisponibilidade; 401/402/403 (chave, orçamento): para o lote
+    throw new JobCallError(
+      String(message),
+      response.status !== 429 && response.status < 500,
+      JOB_STOP_HTTP_STATUSES.includes(response.status) || isJobStopError(data.error)
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let reasoning = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      let parsed;
+      try {
+        parsed = JSON.parse(line.slice(6));
+      } catch {
+        continue;
+      }
+      if (parsed.type === 'text' && parsed.text) text += parsed.text;
+      if (parsed.type === 'reasoning' && parsed.text) reasoning += parsed.text;
+      if (parsed.type === 'error') {
+        throw new JobCallError(
+          parsed.error?.message || 'Erro no streaming',
+          PERMANENT_ERROR_TYPES.includes(parsed.error?.type),
+          isJobStopError(parsed.error)
+        );
+      }
+    }
+  }
+
+  // DeepSeek: thinking pode consumir tudo (mesmo fallback do cliente)
+  return (text.trim() || reasoning.trim());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERSISTÊNCIA
+// ═══════════════════════════════════════════════════════════════════════════
+
+function saveAnalysis(job, item, resultado) {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  getDb().prepare(`
+    INSERT INTO analyses (
+      id, user_id, numero_processo, reclamante, reclamadas,
+      nome_arquivo_peticao, nomes_arquivos_emendas, nomes_arquivos_contestacoes,
+      resultado, created_at, updated_at, workspace_id
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    job.user_id,
+    extractNumeroFromFilename(item.nome_arquivo_peticao) || item.numero_processo || resultado.identificacao?.numeroProcesso || null,
+    resultado.identificacao?.reclamantes?.[0] || null,
+    resultado.identificacao?.reclamadas ? JSON.stringify(resultado.identificacao.reclamadas) : null,
+    item.nome_arquivo_peticao,
+    item.nomes_arquivos_emendas,
+    item.nomes_arquivos_contestacoes,
+    JSON.stringify(resultado),
+    now,
+    now,
+    job.workspace_id
+  );
+  return id;
+}
+
+const setJobStatus = (jobId, status) => {
+  getDb().prepare(`
+    UPDATE analysis_jobs
+    SET status = ?, error = NULL, updated_at = datetime('now'),
+        finished_at = CASE WHEN ? IN ('concluido', 'cancelado') THEN datetime('now') ELSE NULL END
+    WHERE id = ?
+  `).run(status, status, jobId);
+};
+
+const setItem = (itemId, fields) => {
+  const keys = Object.keys(fields);
+  getDb().prepare(`
+    UPDATE analysis_job_items SET ${keys.map(k => `${k} = ?`).join(', ')}, updated_at = datetime('now') WHERE id = ?
+  `).run(...keys.map(k => fields[k]), itemId);
+};
+
+/** Erro do lote inteiro: para com o motivo e descarta a chave */
+function interruptJob(jobId, message) {
+  getDb().prepare(`
+    UPDATE analysis_jobs SET status = 'interrompido', error = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(message, jobId);
+  clearApiKey(jobId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WORKER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Processa um item com retry. Erro que para o lote devolve o item à fila
+ * (intacto, para retomar depois) e é relançado para runJob.
+ */
+async function processItem(job, item, apiKey) {
+  let lastError = null;
+
+  for (let attempt = item.attempts; attempt < MAX_ATTEMPTS; attempt++) {
+    setItem(item.id, { status: 'processando', attempts: attempt + 1, error: null });
+    try {
+      const text = await callProxy(job, item, apiKey);
+      const resultado = parseAnalysisResponse(text);
+      const analysisId = saveAnalysis(job, item, resultado);
+      setItem(item.id, { status: 'concluido', analysis_id: analysisId, request_body: null });
+      return;
+    } catch (error) {
+      if (error.stopsJob) {
+        setItem(item.id, { status: 'pendente', attempts: 0, error: null });
+        throw error;
+      }
+      lastError = error;
+      if (error.permanent) break;
+      if (attempt < MAX_ATTEMPTS - 1) {
+        console.warn(`[AnalysisJobs] ${item.numero_processo || item.id}: tentativa ${attempt + 1} falhou (${error.message})`);
+        await sleep(RETRY_INITIAL_DELAY_MS * Math.pow(RETRY_BACKOFF_MULTIPLIER, attempt));
+      }
+    }
+  }
+
+  setItem(item.id, { status: 'erro', error: lastError?.message || 'Falha na análise com IA' });
+}
+
+async function runJob(jobId) {
+  const db = getDb();
+  try {
+    while (true) {
+      const job = db.prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(jobId);
+      if (!job || !['na_fila', 'processando'].includes(job.status)) return;
+      const apiKey = loadApiKey(job);
+      if (!apiKey) {
+        setJobStatus(jobId, 'aguardando_chave');
+        return;
+      }
+
+      const item = db.prepare(`
+        SELECT * FROM analysis_job_items WHERE job_id = ? AND status = 'pendente' ORDER BY position LIMIT 1
+      `).get(jobId);
+
+      if (!item) {
+        setJobStatus(jobId, 'concluido');
+        clearApiKey(jobId);
+        console.log(`[AnalysisJobs] Lote ${jobId} concluído`);
+        return;
+      }
+
+      if (job.status !== 'processando') setJobStatus(jobId, 'processando');
+      try {
+        await processItem(job, item, apiKey);
+      } catch (error) {
+        if (!error.stopsJob) throw error;
+        interruptJob(jobId, error.message);
+        console.warn(`[AnalysisJobs] Lote ${jobId} interrompido: ${error.message}`);
+        return;
+      }
+      await sleep(ITEM_DELAY_MS);
+    }
+  } catch (error) {
+    console.error(`[AnalysisJobs] Erro no lote ${jobId}:`, error);
+  } finally {
+    running.delete(jobId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API DO SERVIÇO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Coloca o lote na fila e inicia o loop (idempotente) */
+export function enqueueJob(jobId, apiKey) {
+  if (apiKey) storeApiKey(jobId, apiKey);
+  setJobStatus(jobId, 'na_fila');
+  if (running.has(jobId)) return;
+  running.add(jobId);
+  runJob(jobId);
+}
+
+/** Cancela itens pendentes; o item em andamento termina normalmente */
+export function cancelJob(jobId) {
+  const db = getDb();
+  db.prepare(`
+    UPDATE analysis_job_items SET status = 'cancelado', request_body = NULL, updated_at = datetime('now')
+    WHERE job_id = ? AND status IN ('pendente', 'erro')
+  `).run(jobId);
+  setJobStatus(jobId, 'cancelado');
+  clearApiKey(jobId);
+}
+
+/** Devolve itens com erro para a fila (nova rodada de tentativas) */
+export function resetFailedItems(jobId) {
+  return getDb().prepare(`
+    UPDATE analysis_job_items SET status = 'pendente', attempts = 0, error = NULL, updated_at = datetime('now')
+    WHERE job_id = ? AND status = 'erro' AND request_body IS NOT NULL
+  `).run(jobId).changes;
+}
+
+export function forgetJob(jobId) {
+  apiKeys.delete(jobId);
+}
+
+/**
+ * Na subida do servidor: itens interrompidos voltam para a fila e lotes ativos
+ * retomam com a chave cifrada; sem ela, aguardam o navegador reenviar a chave.
+ * attempts volta a 0 (como no resume): processItem retoma a partir dele e, com
+ * a contagem da tentativa interrompida, o item iria direto para 'erro'.
+ */
+export function recoverAnalysisJobs() {
+  const db = getDb();
+  db.prepare(`
+    UPDATE analysis_job_items SET status = 'pendente', attempts = 0, error = NULL, updated_at = datetime('now')
+    WHERE status = 'processando'
+  `).run();
+  const jobs = db.prepare(`SELECT * FROM analysis_jobs WHERE status IN ('na_fila', 'processando')`).all();
+
+  let waiting = 0;
+  for (const job of jobs) {
+    if (loadApiKey(job)) {
+      enqueueJob(job.id);
+    } else {
+      setJobStatus(job.id, 'aguardando_chave');
+      waiting++;
+    }
+  }
+  if (jobs.length > waiting) console.log(`[AnalysisJobs] ${jobs.length - waiting} lote(s) retomado(s)`);
+  if (waiting > 0) console.log(`[AnalysisJobs] ${waiting} lote(s) aguardando a chave de API para retomar`);
+}
@@ -0,0 +1,113 @@
+// @vitest-environment node
+/**
+ * Testes da retomada de lotes na subida do servidor
+ * (banco substituído por um fake: better-sqlite3 não é carregado aqui).
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ jobs: new Map(), items: [], analyses: [] }));
+
+/** Atribuições literais de um SET ("status = 'pendente', attempts = 0") */
+const literalAssignments = (setClause) => Object.fromEntries(
+  [...setClause.matchAll(/(\w+) = (?:'([^']*)'|(\d+)|NULL)/g)]
+    .map(([, key, str, num]) => [key, str ?? (num !== undefined ? Number(num) : null)])
+);
+
+vi.mock('../db/database.js', () => ({
+  getDb: () => ({
+    prepare: (sql) => {
+      const q = sql.replace(/\s+/g, ' ').trim();
+      return {
+        run: (...args) => {
+          if (/^UPDATE analysis_job_items SET .* WHERE status = 'processando'$/.test(q)) {
+            const fields = literalAssignments(q.match(/SET (.*) WHERE/)[1]);
+            db.items.filter(i => i.status === 'processando').forEach(i => Object.assign(i, fields));
+          } else if (/^UPDATE analysis_job_items SET .* WHERE id = \?$/.test(q)) {
+            const keys = [...q.match(/SET (.*) WHERE/)[1].matchAll(/(\w+) = \?/g)].map(m => m[1]);
+            const item = db.items.find(i => i.id === args[keys.length]);
+            keys.forEach((key, idx) => { item[key] = args[idx]; });
+          } else if (/^UPDATE analysis_jobs SET status = \?/.test(q)) {
+            db.jobs.get(args[2]).status = args[0];
+          } else if (/^UPDATE analysis_jobs SET api_key_encrypted/.test(q)) {
+            db.jobs.get(args[args.length - 1]).api_key_encrypted = args.length > 1 ? args[0] : null;
+          } else if (/^INSERT INTO analyses/.test(q)) {
+            db.analyses.push(args);
+          }
+        },
+        get: (id) => {
+          if (/FROM analysis_jobs WHERE id = \?/.test(q)) return db.jobs.get(id);
+          if (/FROM analysis_job_items WHERE job_id = \? AND status = 'pendente'/.test(q)) {
+            return db.items.filter(i => i.job_id === id && i.status === 'pendente').sort((a, b) => a.position - b.position)[0];
+          }
+          if (/FROM users/.test(q)) return { email: 'juiz@example.com' };
+          return undefined;
+        },
+        all: () => (/FROM analysis_jobs WHERE status IN/.test(q)
+          ? [...db.jobs.values()].filter(j => ['na_fila', 'processando'].includes(j.status))
+          : []),
+      };
+    },
+  }),
+}));
+
+import { recoverAnalysisJobs } from './AnalysisJobService.js';
+
+const ENCRYPTION_KEY = crypto.randomBytes(32);
+
+/** Mesmo formato de AnalysisJobService: iv:authTag:ciphertext em base64 */
+function encrypt(plain) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+const sse = (text) => new Response(`data: ${JSON.stringify({ type: 'text', text })}\n\n`, { status: 200 });
+
+describe('recoverAnalysisJobs', () => {
+  beforeEach(() => {
+    vi.stubEnv('ANALYSIS_JOBS_ENCRYPTION_KEY', ENCRYPTION_KEY.toString('hex'));
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.jobs.clear();
+    db.items.length = 0;
+    db.analyses.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('retries an item interrupted on its last attempt instead of failing it', async () => {
+    db.jobs.set('job-1', { id: 'job-1', user_id: 'user-1', status: 'processando', api_key_encrypted: encrypt('sk-test') });
+    db.items.push({
+      id: 'item-1', job_id: 'job-1', position: 0, status: 'processando', attempts: 3, error: null,
+      request_path: '/api/claude/stream', request_body: '{}', numero_processo: '0000001-00.2024.5.01.0001',
+    });
+    const fetchMock = vi.fn(async () => sse(JSON.stringify({ identificacao: { reclamantes: ['Ana'] } })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    recoverAnalysisJobs();
+
+    await vi.waitFor(() => expect(db.jobs.get('job-1').status).toBe('concluido'), { timeout: 5000 });
+    expect(db.items[0]).toMatchObject({ status: 'concluido', attempts: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].headers['x-api-key']).toBe('sk-test');
+    expect(db.analyses).toHaveLength(1);
+  });
+
+  it('leaves the job waiting for the key when it cannot be decrypted', () => {
+    vi.stubEnv('ANALYSIS_JOBS_ENCRYPTION_KEY', '');
+    db.jobs.set('job-2', { id: 'job-2', user_id: 'user-1', status: 'na_fila', api_key_encrypted: null });
+    db.items.push({ id: 'item-2', job_id: 'job-2', position: 0, status: 'processando', attempts: 2, error: null });
+
+    recoverAnalysisJobs();
+
+    expect(db.jobs.get('job-2').status).toBe('aguardando_chave');
+    expect(db.items[0]).toMatchObject({ status: 'pendente', attempts: 0 });
+  });
+});
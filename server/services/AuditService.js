@@ -0,0 +1,176 @@
+// server/services/AuditService.js
+// v1.53.45 - Trilha de auditoria de ações sensíveis
+//
+// A TI do tribunal exige saber quem acessou material de processos: logins,
+// pedidos de magic link, convites e aceites de compartilhamento, revogações,
+// alterações na allowlist e exclusões em lote ficam em audit_log (append-only,
+// ver migration 024) com usuário, IP e alvo. Antes disso só havia console.log.
+// O registro é feito pelo middleware audit() (server/middleware/audit.js) e
+// consultado/exportado no AdminPanel (GET /api/admin/audit).
+
+import { getDb } from '../db/database.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENTOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const AUDIT_EVENTS = {
+  'auth.magic_link_request': 'Pedido de magic link',
+  'auth.login': 'Login (magic link)',
+  'auth.dev_login': 'Login de desenvolvimento',
+  'auth.logout': 'Logout',
+  'share.create': 'Convite de compartilhamento',
+  'share.accept': 'Aceite de compartilhamento',
+  'share.revoke': 'Revogação de compartilhamento',
+  'share.leave': 'Acesso removido pelo destinatário',
+  'prova_oral.sharing_update': 'Compartilhamento da Prova Oral alterado',
+  'workspace.member_invite': 'Convite para gabinete',
+  'workspace.member_role': 'Papel no gabinete alterado',
+  'workspace.member_remove': 'Membro removido do gabinete',
+  'admin.allowed_email_add': 'Email autorizado adicionado',
+  'admin.allowed_email_remove': 'Email autorizado removido',
+  'models.bulk_delete': 'Exclusão de modelos em lote',
+  'analyses.bulk_delete': 'Exclusão de análises em lote',
+};
+
+const MAX_PAGE = 500;
+const MAX_EXPORT = 50000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GRAVAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Grava um evento. Nunca lança: falha na auditoria não derruba a requisição
+ * (o erro vai para o log do servidor).
+ */
+export function recordAuditEvent({ event, req, statusCode = 200, userId, email, targetType, targetId, details }) {
+  try {
+    getDb().prepare(`
+      INSERT INTO audit_log (created_at, event, outcome, status_code, user_id, email, ip, user_agent, target_type, target_id, details)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      new Date().toISOString(),
+      event,
+      statusCode < 400 ? 'success' : 'failure',
+      statusCode,
+      userId ?? req?.user?.id ?? null,
+      (email ?? req?.user?.email ?? '').toLowerCase() || null,
+      req?.ip || null,
+      req?.get?.('User-Agent')?.substring(0, 200) || null,
+      targetType || null,
+      targetId != null ? String(targetId) : null,
+      details ? JSON.stringify(details) : null
+    );
+  } catch (error) {
+    console.error(`[Audit] Falha ao registrar ${event}:`, error.message);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSULTA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Monta o WHERE a partir dos filtros da query string (from/to = YYYY-MM-DD) */
+function buildFilters({ from, to, event, email, outcome }) {
+  const clauses = [];
+  const params = [];
+  const isDate = (v) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+  if (isDate(from)) {
+    clauses.push('created_at >= ?');
+    params.push(`${from}T00:00:00.000Z`);
+  }
+  if (isDate(to)) {
+    clauses.push('created_at <= ?');
+    params.push(`${to}T23:59:59.999Z`);
+  }
+  if (typeof event === 'string' && AUDIT_EVENTS[event]) {
+    clauses.push('event = ?');
+    params.push(event);
+  }
+  if (typeof email === 'string' && email.trim()) {
+    clauses.push('email LIKE ?');
+    params.push(`%${email.trim().toLowerCase()}%`);
+  }
+  if (outcome === 'success' || outcome === 'failure') {
+    clauses.push('outcome = ?');
+    params.push(outcome);
+  }
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+const toEntry = (row) => ({
+  id: row.id,
+  createdAt: row.created_at,
+  event: row.event,
+  outcome: row.outcome,
+  statusCode: row.status_code,
+  userId: row.user_id,
+  email: row.email,
+  ip: row.ip,
+  userAgent: row.user_agent,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  details: row.details ? JSON.parse(row.details) : null,
+});
+
+/** Página do log (mais recentes primeiro) com o total filtrado */
+export function queryAuditLog(filters = {}) {
+  const db = getDb();
+  const { where, params } = buildFilters(filters);
+  const limit = Math.min(Math.max(parseInt(filters.limit, 10) || 100, 1), MAX_PAGE);
+  const offset = Math.max(parseInt(filters.offset, 10) || 0, 0);
+
+  const total = db.prepare(`SELECT COUNT(*) AS count FROM audit_log ${where}`).get(...params).count;
+  const rows = db.prepare(`
+    SELECT * FROM audit_log ${where}
+    ORDER BY id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, offset);
+
+  return { entries: rows.map(toEntry), total, limit, offset };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORTAÇÃO CSV
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CSV_COLUMNS = [
+  ['created_at', 'data_hora'],
+  ['event', 'evento'],
+  ['outcome', 'resultado'],
+  ['status_code', 'status_http'],
+  ['email', 'email'],
+  ['user_id', 'usuario_id'],
+  ['ip', 'ip'],
+  ['target_type', 'alvo_tipo'],
+  ['target_id', 'alvo_id'],
+  ['details', 'detalhes'],
+  ['user_agent', 'user_agent'],
+];
+
+const csvCell = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Aspas duplas + neutraliza fórmulas (=, +, -, @) ao abrir no Excel
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",;\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/** CSV (separador ';', padrão do Excel pt-BR) com os mesmos filtros da consulta */
+export function exportAuditCsv(filters = {}) {
+  const { where, params } = buildFilters(filters);
+  const rows = getDb().prepare(`
+    SELECT * FROM audit_log ${where}
+    ORDER BY id DESC
+    LIMIT ${MAX_EXPORT}
+  `).all(...params);
+
+  const lines = [CSV_COLUMNS.map(([, header]) => header).join(';')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([column]) => csvCell(row[column])).join(';'));
+  }
+  return lines.join('\r\n');
+}
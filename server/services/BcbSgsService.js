@@ -0,0 +1,100 @@
+// server/services/BcbSgsService.js
+// v1.53.54 - Séries do SGS/Banco Central para a liquidação (IPCA-E e SELIC)
+//
+// O navegador não chama api.bcb.gov.br: o CSP (connect-src) só libera o
+// próprio backend. A rota /api/indices/bcb repassa a consulta ao SGS e guarda
+// as séries em memória — os índices de meses fechados não mudam e o mesmo
+// período é pedido várias vezes ao recalcular a sentença.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+const BCB_API_URL = 'https://api.bcb.gov.br/dados/serie/bcdata.sgs';
+
+/** Séries liberadas: IPCA-E (var. % mensal) e SELIC acumulada no mês */
+export const SGS_SERIES_PERMITIDAS = new Set([10764, 4390]);
+
+/** Validade do cache (o índice do mês corrente sai durante o mês seguinte) */
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** chave "codigo:inicio:fim" → { expiresAt, serie } */
+const cache = new Map();
+/** Consultas em andamento (pedidos simultâneos do mesmo período) */
+const pending = new Map();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSULTA
+// ═══════════════════════════════════════════════════════════════════════════
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** AAAA-MM-DD → DD/MM/AAAA (formato do SGS); inválida → null */
+export function toSgsDate(iso) {
+  const match = ISO_DATE.exec(iso || '');
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null;
+  return `${d}/${m}/${y}`;
+}
+
+/** [{ data: 'DD/MM/AAAA', valor: '0.55' }] → { 'AAAA-MM': 0.55 } */
+export function parseSgsSerie(data) {
+  const serie = {};
+  for (const item of Array.isArray(data) ? data : []) {
+    const [, mm, yyyy] = String(item?.data || '').split('/');
+    const valor = Number(item?.valor);
+    if (yyyy && mm && Number.isFinite(valor)) serie[`${yyyy}-${mm}`] = valor;
+  }
+  return serie;
+}
+
+async function requestSgs(codigo, inicio, fim) {
+  const url = `${BCB_API_URL}.${codigo}/dados?formato=json&dataInicial=${toSgsDate(inicio)}&dataFinal=${toSgsDate(fim)}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    const error = new Error(`Banco Central respondeu ${response.status} (série ${codigo})`);
+    error.status = 502;
+    throw error;
+  }
+  return parseSgsSerie(await response.json());
+}
+
+/**
+ * Série mensal do período (AAAA-MM-DD), do cache quando possível.
+ * Lança erro com `status` 400 (parâmetros) ou 502 (falha do Banco Central).
+ * @returns {Promise<Record<string, number>>}
+ */
+export async function getSgsSerie(codigo, inicio, fim) {
+  if (!SGS_SERIES_PERMITIDAS.has(codigo)) {
+    throw Object.assign(new Error(`Série ${codigo} não disponível`), { status: 400 });
+  }
+  if (!toSgsDate(inicio) || !toSgsDate(fim) || inicio > fim) {
+    throw Object.assign(new Error('Período inválido (use AAAA-MM-DD, início até o fim)'), { status: 400 });
+  }
+
+  const key = `${codigo}:${inicio}:${fim}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.serie;
+  if (pending.has(key)) return pending.get(key);
+
+  const request = requestSgs(codigo, inicio, fim)
+    .then((serie) => {
+      cache.delete(key);
+      if (cache.size >= CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value);
+      cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, serie });
+      return serie;
+    })
+    .finally(() => pending.delete(key));
+  pending.set(key, request);
+  return request;
+}
+
+/** Esvazia o cache (testes) */
+export function clearSgsCache() {
+  cache.clear();
+  pending.clear();
+}
@@ -0,0 +1,61 @@
+// @vitest-environment node
+/**
+ * Testes do repasse das séries do SGS/Banco Central (fetch substituído por mock).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getSgsSerie, parseSgsSerie, toSgsDate, clearSgsCache } from './BcbSgsService.js';
+
+const sgsResponse = (data, ok = true, status = 200) => ({ ok, status, json: async () => data });
+
+describe('BcbSgsService', () => {
+  beforeEach(() => clearSgsCache());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('converts dates and monthly values from the SGS format', () => {
+    expect(toSgsDate('2023-01-15')).toBe('15/01/2023');
+    expect(toSgsDate('2023-02-30')).toBeNull();
+    expect(parseSgsSerie([{ data: '01/01/2023', valor: '0.55' }, { data: '01/02/2023', valor: 'x' }]))
+      .toEqual({ '2023-01': 0.55 });
+  });
+
+  it('fetches the series once and serves repeated periods from the cache', async () => {
+    const fetchMock = vi.fn(async () => sgsResponse([{ data: '01/01/2023', valor: '1.12' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [a, b] = await Promise.all([
+      getSgsSerie(4390, '2023-01-15', '2023-02-28'),
+      getSgsSerie(4390, '2023-01-15', '2023-02-28'),
+    ]);
+    const c = await getSgsSerie(4390, '2023-01-15', '2023-02-28');
+
+    expect(a).toEqual({ '2023-01': 1.12 });
+    expect(b).toEqual(a);
+    expect(c).toEqual(a);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://api.bcb.gov.br/dados/serie/bcdata.sgs.4390/dados?formato=json&dataInicial=15/01/2023&dataFinal=28/02/2023'
+    );
+  });
+
+  it('rejects other series and invalid periods without calling the Banco Central', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getSgsSerie(433, '2023-01-01', '2023-02-01')).rejects.toMatchObject({ status: 400 });
+    await expect(getSgsSerie(10764, '2023-03-01', '2023-02-01')).rejects.toMatchObject({ status: 400 });
+    await expect(getSgsSerie(10764, '01/01/2023', '2023-02-01')).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('does not cache failures', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(sgsResponse(null, false, 503))
+      .mockResolvedValueOnce(sgsResponse([{ data: '01/01/2023', valor: '0.55' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getSgsSerie(10764, '2023-01-01', '2023-02-01'))
+      .rejects.toMatchObject({ status: 502, message: 'Banco Central respondeu 503 (série 10764)' });
+    await expect(getSgsSerie(10764, '2023-01-01', '2023-02-01')).resolves.toEqual({ '2023-01': 0.55 });
+  });
+});
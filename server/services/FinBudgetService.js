@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/** Percentuais do limite em que o orçamento gera alerta */
+const WARNING_PERCENT = 80;
+const EXCEEDED_PERCENT = 100;
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+class FinBudgetService {
+  list(db, userId) {
+    return db.prepare(`
+      SELECT b.*, c.name as category_name, c.color as category_color, c.icon as category_icon
+      FROM budgets b
+      LEFT JOIN categories c ON b.scope = 'category' AND c.id = b.target
+      WHERE b.user_id = ?
+      ORDER BY b.scope, b.target
+    `).all(userId);
+  }
+
+  /** Cria ou atualiza o limite do orçamento (um por categoria / titular) */
+  upsert(db, userId, { scope, target, monthly_limit }) {
+    const existing = db.prepare('SELECT id FROM budgets WHERE user_id = ? AND scope = ? AND target = ?').get(userId, scope, target);
+    if (existing) {
+      db.prepare("UPDATE budgets SET monthly_limit = ?, updated_at = datetime('now') WHERE id = ?").run(monthly_limit, existing.id);
+      return existing.id;
+    }
+    const id = uuidv4();
+    db.prepare('INSERT INTO budgets (id, user_id, scope, target, monthly_limit) VALUES (?, ?, ?, ?, ?)').run(id, userId, scope, target, monthly_limit);
+    return id;
+  }
+
+  /**
+   * Progresso de cada orçamento no mês de fatura.
+   *
+   * spent: despesas já lançadas (csv, manual, recorrentes geradas), sem estornos.
+   * committed: o que ainda vai cair no mês — parcelas projetadas de compras já
+   * faturadas (csv_projected; a categoria vem da parcela original pelo
+   * installment_group_id quando a projetada ainda não foi categorizada) e
+   * recorrentes ativas ainda não geradas no mês (só contam para categorias:
+   * recorrentes não têm titular).
+   * projected = spent + committed, a estimativa de fechamento do mês.
+   */
+  getProgress(db, userId, yearMonth) {
+    const budgets = this.list(db, userId);
+    if (budgets.length === 0) return [];
+
+    const expenses = db.prepare(`
+      SELECT
+        COALESCE(e.category_id, (
+          SELECT g.category_id FROM expenses g
+          WHERE g.installment_group_id = e.installment_group_id AND g.source = 'csv'
+            AND g.category_id IS NOT NULL AND g.deleted_at IS NULL
+          LIMIT 1
+        )) as category_id,
+        e.card_holder,
+        SUM(CASE WHEN e.source != 'csv_projected' THEN e.value_brl ELSE 0 END) as spent,
+        SUM(CASE WHEN e.source = 'csv_projected' THEN e.value_brl ELSE 0 END) as installments
+      FROM expenses e
+      WHERE e.user_id = ? AND e.billing_month = ? AND e.deleted_at IS NULL AND e.is_refund = 0
+      GROUP BY 1, 2
+    `).all(userId, yearMonth);
+
+    const pendingRecurring = db.prepare(`
+      SELECT r.category_id, SUM(r.value_brl) as total
+      FROM recurring_expenses r
+      WHERE r.user_id = ? AND r.is_active = 1 AND r.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM expenses e
+          WHERE e.recurring_expense_id = r.id AND e.billing_month = ? AND e.deleted_at IS NULL
+        )
+      GROUP BY r.category_id
+    `).all(userId, yearMonth);
+
+    return budgets.map((budget) => {
+      const field = budget.scope === 'category' ? 'category_id' : 'card_holder';
+      const matching = expenses.filter(row => row[field] === budget.target);
+      const spent = matching.reduce((sum, row) => sum + row.spent, 0);
+      const installments = matching.reduce((sum, row) => sum + row.installments, 0);
+      const recurring = budget.scope === 'category'
+        ? pendingRecurring.find(row => row.category_id === budget.target)?.total || 0
+        : 0;
+      const projected = spent + installments + recurring;
+      const percent = (spent / budget.monthly_limit) * 100;
+
+      return {
+        id: budget.id,
+        scope: budget.scope,
+        target: budget.target,
+        label: budget.scope === 'category' ? budget.category_name || budget.target : budget.target,
+        color: budget.category_color || null,
+        icon: budget.category_icon || null,
+        monthly_limit: budget.monthly_limit,
+        spent: round2(spent),
+        committed_installments: round2(installments),
+        committed_recurring: round2(recurring),
+        projected: round2(projected),
+        percent: Math.round(percent * 10) / 10,
+        projected_percent: Math.round((projected / budget.monthly_limit) * 1000) / 10,
+        level: percent >= EXCEEDED_PERCENT ? 'exceeded' : percent >= WARNING_PERCENT ? 'warning' : 'ok',
+      };
+    });
+  }
+
+  /** Orçamentos que atingiram 80% ou 100% do limite no mês */
+  getAlerts(db, userId, yearMonth) {
+    return this.getProgress(db, userId, yearMonth)
+      .filter(budget => budget.level !== 'ok')
+      .sort((a, b) => b.percent - a.percent);
+  }
+}
+
+export default new FinBudgetService();
@@ -0,0 +1,170 @@
+// server/services/ModelRevisionService.js
+// v1.53.44 - Histórico de revisões dos modelos
+//
+// Cada escrita em um modelo (criação, edição via sync/PUT, restauração) grava
+// o estado resultante em model_revisions, com quem escreveu e quando. Antes
+// da primeira edição registrada, o estado anterior entra como revisão
+// 'baseline' (modelos criados antes do histórico), atribuída a quem fez a
+// última escrita segundo o sync_log.
+//
+// Só título, conteúdo, categoria e palavras-chave são versionados: favoritar,
+// aprovar ou mover para o gabinete não gera revisão.
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from '../db/database.js';
+import { accessWhere, can, getMembership } from './WorkspaceService.js';
+
+const TRACKED_FIELDS = ['title', 'content', 'category', 'keywords'];
+
+const REVISION_COLUMNS = `r.id, r.model_id AS modelId, r.user_id AS userId, u.email AS userEmail, r.operation,
+  r.title, r.content, r.category, r.keywords, r.sync_version AS syncVersion,
+  r.restored_from AS restoredFrom, r.created_at AS createdAt`;
+
+const sameText = (a, b) => TRACKED_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null));
+
+export const changedFields = (from, to) =>
+  TRACKED_FIELDS.filter(field => (from?.[field] ?? null) !== (to?.[field] ?? null));
+
+const getModelState = (db, modelId) => db.prepare(`
+  SELECT id, user_id, title, content, category, keywords, sync_version, updated_at, workspace_id
+  FROM models WHERE id = ?
+`).get(modelId);
+
+const getLatestRevision = (db, modelId) => db.prepare(`
+  SELECT title, content, category, keywords FROM model_revisions
+  WHERE model_id = ? ORDER BY rowid DESC LIMIT 1
+`).get(modelId);
+
+const insertRevision = (db, model, userId, operation, createdAt, restoredFrom = null) => {
+  const id = uuidv4();
+  db.prepare(`
+    INSERT INTO model_revisions (id, model_id, user_id, operation, title, content, category, keywords, sync_version, restored_from, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, model.id, userId, operation, model.title, model.content, model.category ?? null,
+    model.keywords ?? null, model.sync_version ?? 1, restoredFrom, createdAt);
+  return id;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GRAVAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chamar ANTES de sobrescrever um modelo: se o estado atual ainda não está no
+ * histórico, grava-o como 'baseline' para que a edição não o apague.
+ */
+export function ensureBaseline(modelId) {
+  const db = getDb();
+  const model = getModelState(db, modelId);
+  if (!model) return;
+
+  const latest = getLatestRevision(db, modelId);
+  if (latest && sameText(latest, model)) return;
+
+  const lastWriter = db.prepare('SELECT user_id FROM sync_log WHERE model_id = ? ORDER BY id DESC LIMIT 1').get(modelId);
+  insertRevision(db, model, lastWriter?.user_id || model.user_id, 'baseline', model.updated_at);
+}
+
+/**
+ * Chamar DEPOIS de gravar o modelo: registra o novo estado como revisão de
+ * userId. Escritas que não mudam o texto (ex.: só embedding) são ignoradas.
+ * @returns id da revisão ou null
+ */
+export function recordRevision(modelId, userId, operation, restoredFrom = null) {
+  const db = getDb();
+  const model = getModelState(db, modelId);
+  if (!model) return null;
+
+  const latest = getLatestRevision(db, modelId);
+  if (latest && operation !== 'restore' && sameText(latest, model)) return null;
+
+  return insertRevision(db, model, userId, operation, new Date().toISOString(), restoredFrom);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSULTA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Modelo (não excluído) que o usuário pode ver ou editar: próprio, de gabinete
+ * conforme o papel, ou de biblioteca compartilhada com ele (library_access;
+ * para 'edit' a permissão precisa ser 'edit').
+ */
+export function findAccessibleModel(modelId, userId, action = 'view') {
+  const access = accessWhere(userId, action === 'view' ? 'view' : 'edit', 'm');
+  const sharedPermission = action === 'view' ? '' : "AND la.permission = 'edit'";
+  return getDb().prepare(`
+    SELECT m.id, m.user_id, m.title, m.content, m.category, m.keywords, m.sync_version, m.updated_at, m.workspace_id
+    FROM models m
+    WHERE m.id = ? AND m.deleted_at IS NULL AND (
+      ${access.sql}
+      OR m.user_id IN (SELECT la.owner_id FROM library_access la WHERE la.recipient_id = ? ${sharedPermission})
+    )
+  `).get(modelId, ...access.params, userId);
+}
+
+/** Revisões do modelo, da mais recente para a mais antiga (sem o conteúdo) */
+export function listRevisions(modelId) {
+  return getDb().prepare(`
+    SELECT r.id, r.user_id AS userId, u.email AS userEmail, r.operation, r.title, r.category,
+           r.sync_version AS syncVersion, r.restored_from AS restoredFrom, r.created_at AS createdAt,
+           LENGTH(r.content) AS contentLength
+    FROM model_revisions r LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.model_id = ?
+    ORDER BY r.rowid DESC
+  `).all(modelId);
+}
+
+export function getRevision(modelId, revisionId) {
+  return getDb().prepare(`
+    SELECT ${REVISION_COLUMNS}
+    FROM model_revisions r LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.model_id = ? AND r.id = ?
+  `).get(modelId, revisionId);
+}
+
+/** Revisão imediatamente anterior (a que esta substituiu) */
+export function getPreviousRevision(modelId, revisionId) {
+  return getDb().prepare(`
+    SELECT ${REVISION_COLUMNS}
+    FROM model_revisions r LEFT JOIN users u ON u.id = r.user_id
+    WHERE r.model_id = ? AND r.rowid < (SELECT rowid FROM model_revisions WHERE id = ?)
+    ORDER BY r.rowid DESC LIMIT 1
+  `).get(modelId, revisionId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESTAURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Devolve o modelo ao texto de uma revisão. Conta como edição: nova
+ * sync_version (chega aos demais dispositivos no próximo pull), embedding
+ * descartado (o cliente recalcula) e, em gabinete, volta a "pendente" se quem
+ * restaura não pode aprovar.
+ * @returns { syncVersion, updatedAt, revisionId }
+ */
+export function restoreRevision(model, revision, userId) {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const keepsApproval = !model.workspace_id || can(getMembership(model.workspace_id, userId)?.role, 'approve');
+  let revisionId = null;
+
+  db.transaction(() => {
+    ensureBaseline(model.id);
+    db.prepare(`
+      UPDATE models
+      SET title = ?, content = ?, category = ?, keywords = ?, embedding = NULL,
+          updated_at = ?, sync_version = sync_version + 1,
+          approved_at = CASE WHEN ? = 1 THEN approved_at ELSE NULL END
+      WHERE id = ?
+    `).run(revision.title, revision.content, revision.category, revision.keywords, now, keepsApproval ? 1 : 0, model.id);
+    db.prepare(`
+      INSERT INTO sync_log (user_id, operation, model_id, sync_version)
+      VALUES (?, 'update', ?, ?)
+    `).run(userId, model.id, model.sync_version + 1);
+    revisionId = recordRevision(model.id, userId, 'restore', revision.id);
+  })();
+
+  return { syncVersion: model.sync_version + 1, updatedAt: now, revisionId };
+}
@@ -0,0 +1,176 @@
+// server/services/NewsClusterService.js
+// v1.53.48 - Agrupamento de notícias quase duplicadas em uma só história
+//
+// A mesma decisão do TST chega pelo TST, Conjur, Migalhas, JOTA e TRTs com
+// links diferentes — idx_noticias_link só elimina URLs idênticas. Após cada
+// ingestão (cron RSS, relay, /batch, POST manual), clusterPendingNews() atribui
+// cluster_id às notícias novas comparando título/descrição com as publicadas
+// na mesma janela de tempo. cluster_id = id da primeira notícia da história;
+// notícias sem par ficam com cluster_id = id próprio.
+// v1.53.54 - Comparação em lotes, cedendo o event loop entre eles (setImmediate):
+// as rotas de ingestão não travam o servidor; execuções simultâneas são
+// serializadas. Corte do backfill calculado em JS (published_at é ISO com 'T').
+
+import { getDb } from '../db/database.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Janela (horas) em que duas notícias podem ser a mesma história */
+const WINDOW_HOURS = 72;
+/** Dice mínimo entre títulos */
+const TITLE_THRESHOLD = 0.6;
+/** Dice mínimo entre título + início da descrição (títulos editoriais divergem mais) */
+const TEXT_THRESHOLD = 0.5;
+/** Notícias pendentes mais antigas que isso viram cluster próprio sem comparação (backfill) */
+const BACKFILL_DAYS = 30;
+/** Notícias pendentes comparadas por vez antes de ceder o event loop */
+const CHUNK_SIZE = 100;
+
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos',
+  'e', 'ou', 'que', 'se', 'por', 'para', 'pra', 'com', 'sem', 'ao', 'aos', 'sua', 'seu', 'suas', 'seus',
+  'mais', 'como', 'pelo', 'pela', 'pelos', 'pelas', 'sobre', 'apos', 'entre', 'ser', 'sao', 'foi', 'tem',
+  'nao', 'diz', 'decide', 'decisao', 'noticia', 'noticias',
+]);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIMILARIDADE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Remove o sufixo " - Veículo" que o Google News acrescenta aos títulos */
+const stripOutletSuffix = (title) => title.replace(/\s+[-–|]\s+[^-–|]{2,40}$/, '');
+
+/** Tokens normalizados (sem acento, pontuação e stopwords) */
+export function tokenize(text) {
+  return new Set(
+    (text || '')
+      .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(t => t.length > 2 && !STOPWORDS.has(t))
+  );
+}
+
+/** Números de processo (CNJ) e temas de repercussão geral / repetitivos citados */
+export function legalReferences(text) {
+  const refs = new Set();
+  for (const m of (text || '').matchAll(/\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4}/g)) refs.add(m[0]);
+  for (const m of (text || '').matchAll(/\btema\s+(?:n[º°o.]*\s*)?(\d{2,4})\b/gi)) refs.add(`tema:${m[1]}`);
+  return refs;
+}
+
+const dice = (a, b) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+/** Pré-computa o que a comparação usa, uma vez por notícia */
+export function fingerprint(row) {
+  const title = stripOutletSuffix(row.title || '');
+  const description = (row.description || '').slice(0, 300);
+  return {
+    id: row.id,
+    clusterId: row.cluster_id,
+    time: Date.parse(row.published_at) || 0,
+    title: tokenize(title),
+    text: tokenize(`${title} ${description}`),
+    refs: legalReferences(`${row.title} ${row.description}`),
+  };
+}
+
+/** Mesma história: cita o mesmo processo/tema, ou títulos/textos suficientemente parecidos */
+export function isSameStory(a, b) {
+  for (const ref of a.refs) if (b.refs.has(ref)) return true;
+  return dice(a.title, b.title) >= TITLE_THRESHOLD || dice(a.text, b.text) >= TEXT_THRESHOLD;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INGESTÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+const yieldToEventLoop = () => new Promise(resolve => setImmediate(resolve));
+
+async function runClustering() {
+  const db = getDb();
+
+  // Backfill: pendentes antigas viram histórias próprias sem comparação.
+  // Corte em ISO, como published_at — datetime('now') usa espaço no lugar do 'T'
+  // e a comparação de strings erraria no dia do corte.
+  const backfillBefore = new Date(Date.now() - BACKFILL_DAYS * 24 * 3600 * 1000).toISOString();
+  db.prepare(`
+    UPDATE noticias SET cluster_id = id
+    WHERE cluster_id IS NULL AND published_at < ?
+  `).run(backfillBefore);
+
+  const pending = db.prepare(`
+    SELECT id, title, description, published_at, cluster_id FROM noticias
+    WHERE cluster_id IS NULL
+    ORDER BY published_at ASC
+  `).all();
+  if (pending.length === 0) return { clustered: 0, merged: 0 };
+
+  const windowMs = WINDOW_HOURS * 3600 * 1000;
+  const from = new Date(Date.parse(pending[0].published_at) - windowMs).toISOString();
+  const candidates = db.prepare(`
+    SELECT id, title, description, published_at, cluster_id FROM noticias
+    WHERE cluster_id IS NOT NULL AND published_at >= ?
+  `).all(from).map(fingerprint);
+
+  const update = db.prepare('UPDATE noticias SET cluster_id = ? WHERE id = ?');
+  const assignChunk = db.transaction((assignments) => {
+    for (const { clusterId, id } of assignments) update.run(clusterId, id);
+  });
+  let merged = 0;
+
+  for (let start = 0; start < pending.length; start += CHUNK_SIZE) {
+    if (start > 0) await yieldToEventLoop();
+    const assignments = [];
+    for (const row of pending.slice(start, start + CHUNK_SIZE)) {
+      const item = fingerprint(row);
+      const match = candidates.find(c => Math.abs(c.time - item.time) <= windowMs && isSameStory(item, c));
+      item.clusterId = match ? match.clusterId : item.id;
+      if (match) merged++;
+      assignments.push({ clusterId: item.clusterId, id: item.id });
+      candidates.push(item);
+    }
+    assignChunk(assignments);
+  }
+
+  if (merged > 0) {
+    console.log(`[News Cluster] ${pending.length} notícias agrupadas (${merged} anexadas a histórias existentes)`);
+  }
+  return { clustered: pending.length, merged };
+}
+
+let running = null;
+let queued = null;
+
+/**
+ * Atribui cluster_id às notícias que ainda não têm (chamado após cada ingestão).
+ * Uma execução por vez: chamadas durante uma execução aguardam a próxima, que
+ * pega tudo o que ficou pendente nesse meio-tempo.
+ * @returns {Promise<{ clustered: number, merged: number }>} merged = notícias anexadas a uma história existente
+ */
+export function clusterPendingNews() {
+  if (!running) {
+    running = runClustering().finally(() => { running = null; });
+    return running;
+  }
+  if (!queued) {
+    queued = running.catch(() => {}).then(() => {
+      queued = null;
+      return clusterPendingNews();
+    });
+  }
+  return queued;
+}
+
+/** Para rotas que respondem antes do agrupamento: roda em segundo plano e só registra falhas */
+export function scheduleNewsClustering() {
+  clusterPendingNews().catch(error => console.error('[News Cluster] Erro ao agrupar notícias:', error.message));
+}
@@ -0,0 +1,120 @@
+// @vitest-environment node
+/**
+ * Testes da similaridade entre notícias e do agrupamento em lotes
+ * (banco substituído por um fake: better-sqlite3 não é carregado aqui).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ pending: [], candidates: [], updates: [], backfillArgs: [] }));
+
+vi.mock('../db/database.js', () => ({
+  getDb: () => ({
+    prepare: (sql) => ({
+      run: (...args) => {
+        if (/cluster_id = id\b/.test(sql)) db.backfillArgs.push(args);
+        else db.updates.push(args);
+      },
+      all: () => (/IS NULL/.test(sql) ? db.pending : db.candidates),
+    }),
+    transaction: (fn) => fn,
+  }),
+}));
+
+import { tokenize, legalReferences, fingerprint, isSameStory, clusterPendingNews } from './NewsClusterService.js';
+
+const story = (id, title, description = '', published_at = '2026-10-19T10:00:00.000Z', cluster_id = null) =>
+  ({ id, title, description, published_at, cluster_id });
+
+describe('tokenize', () => {
+  it('drops accents, punctuation, short words and stopwords', () => {
+    expect(tokenize('TST decide: não incide INSS sobre o aviso-prévio indenizado!')).toEqual(
+      new Set(['tst', 'incide', 'inss', 'aviso', 'previo', 'indenizado'])
+    );
+  });
+
+  it('handles empty input', () => {
+    expect(tokenize(null).size).toBe(0);
+  });
+});
+
+describe('legalReferences', () => {
+  it('collects CNJ numbers and repetitive themes', () => {
+    expect(legalReferences('RR 0001234-56.2025.5.15.0001, Tema nº 1046 e tema 725')).toEqual(
+      new Set(['0001234-56.2025.5.15.0001', 'tema:1046', 'tema:725'])
+    );
+  });
+});
+
+describe('isSameStory', () => {
+  const same = (a, b) => isSameStory(fingerprint(a), fingerprint(b));
+
+  it('matches the same headline from different outlets', () => {
+    expect(same(
+      story('1', 'TST afasta INSS sobre aviso-prévio indenizado - Conjur'),
+      story('2', 'TST afasta incidência de INSS sobre aviso prévio indenizado - Migalhas')
+    )).toBe(true);
+  });
+
+  it('matches on a shared case number or theme even with different titles', () => {
+    expect(same(
+      story('1', 'Ministro nega recurso de banco', 'Processo 0001234-56.2025.5.15.0001'),
+      story('2', 'Bancária ganha horas extras', 'No RR 0001234-56.2025.5.15.0001, a turma...')
+    )).toBe(true);
+  });
+
+  it('falls back to title plus description when headlines diverge', () => {
+    expect(same(
+      story('1', 'Justiça do Trabalho reconhece vínculo de motorista', 'Motorista de aplicativo tem vínculo empregatício reconhecido pela 3ª Turma do TST'),
+      story('2', 'Uber: 3ª Turma do TST reconhece vínculo', 'Motorista de aplicativo tem vínculo empregatício reconhecido pela 3ª Turma')
+    )).toBe(true);
+  });
+
+  it('keeps unrelated news apart', () => {
+    expect(same(
+      story('1', 'TST afasta INSS sobre aviso-prévio indenizado'),
+      story('2', 'STF julga terceirização de atividade-fim')
+    )).toBe(false);
+  });
+});
+
+describe('clusterPendingNews', () => {
+  beforeEach(() => {
+    db.pending = [];
+    db.candidates = [];
+    db.updates = [];
+    db.backfillArgs = [];
+  });
+
+  it('cuts the backfill with an ISO timestamp, like published_at', async () => {
+    await clusterPendingNews();
+    expect(db.backfillArgs[0][0]).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+  });
+
+  it('joins pending news to existing stories and to each other, across chunks', async () => {
+    db.candidates = [story('a', 'TST afasta INSS sobre aviso-prévio indenizado', '', '2026-10-19T08:00:00.000Z', 'a')];
+    db.pending = [
+      story('b', 'TST afasta INSS sobre aviso-prévio indenizado - JOTA'),
+      ...Array.from({ length: 150 }, (_, i) => story(`x${i}`, `palavra${i}a palavra${i}b palavra${i}c`)),
+      story('c', 'STF julga terceirização de atividade-fim'),
+      story('d', 'STF julga terceirização de atividade-fim - Conjur'),
+    ];
+
+    const result = await clusterPendingNews();
+
+    expect(result).toEqual({ clustered: 153, merged: 2 });
+    const assigned = Object.fromEntries(db.updates.map(([clusterId, id]) => [id, clusterId]));
+    expect(assigned).toMatchObject({ b: 'a', c: 'c', d: 'c', x0: 'x0' });
+  });
+
+  it('serializes concurrent runs', async () => {
+    db.pending = [story('b', 'Notícia única')];
+    const first = clusterPendingNews();
+    const second = clusterPendingNews();
+    const third = clusterPendingNews();
+    expect(third).toBe(second);
+    await first;
+    db.pending = [];
+    expect(await second).toEqual({ clustered: 0, merged: 0 });
+  });
+});
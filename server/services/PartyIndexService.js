@@ -0,0 +1,162 @@
+// server/services/PartyIndexService.js
+// v1.53.53 - Índice de partes: antecedentes da reclamada
+//
+// Litigantes habituais repetem a mesma defesa, e a prova oral de um processo
+// anterior costuma servir como prova emprestada. findAntecedentes() cruza as
+// reclamadas da análise aberta com o acervo visível ao usuário — análises de
+// prepauta (analyses.reclamadas) e de prova oral (prova_oral_analyses.reclamada).
+// O índice é montado a cada consulta, só com as colunas de partes; resultado
+// (JSON grande) é lido apenas dos processos encontrados. A comparação de nomes
+// (shared/partyMatch.js) é a mesma das estatísticas da vara.
+
+import { getDb } from '../db/database.js';
+import { accessWhere } from './WorkspaceService.js';
+import { normalizeParty, partiesMatch } from '../../shared/partyMatch.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Processos detalhados por reclamada (o total vem à parte) */
+const MAX_ANALYSES = 20;
+const MAX_PROVA_ORAL = 10;
+/** Defesas por processo e tamanho de cada trecho */
+const MAX_DEFESAS = 6;
+const DEFESA_MAX_CHARS = 280;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function safeJsonParse(jsonStr, fallback) {
+  if (!jsonStr) return fallback;
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    return fallback;
+  }
+}
+
+const truncate = (text, max) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** Tese da reclamada naquele processo: preliminares/prejudiciais e defesa por tema */
+function extractTeses(resultado) {
+  const preliminares = (resultado.preliminares || [])
+    .filter(p => p?.alegadaPor === 'reclamada' && p.tipo)
+    .map(p => p.tipo);
+  if (resultado.prejudiciais?.prescricao?.fundamentacao) preliminares.push('Prescrição');
+  if (resultado.prejudiciais?.decadencia?.fundamentacao) preliminares.push('Decadência');
+  for (const d of resultado.defesasAutonomas || []) if (d?.tipo) preliminares.push(d.tipo);
+
+  const defesas = (resultado.pedidos || [])
+    .filter(p => typeof p?.defesaReclamada === 'string' && p.defesaReclamada.trim()
+      && !/^n[ãa]o houve contesta[çc][ãa]o/i.test(p.defesaReclamada.trim()))
+    .slice(0, MAX_DEFESAS)
+    .map(p => ({ tema: p.tema || '', defesa: truncate(p.defesaReclamada.trim(), DEFESA_MAX_CHARS) }));
+
+  return { preliminares: [...new Set(preliminares)], defesas };
+}
+
+/** Linhas cujas partes casam com a reclamada procurada */
+const matchRows = (index, target) =>
+  index.filter(entry => entry.parties.some(p => partiesMatch(p.normalized, target)));
+
+const loadResultados = (table, ids) => {
+  if (ids.length === 0) return new Map();
+  const rows = getDb().prepare(`
+    SELECT id, resultado FROM ${table} WHERE id IN (${ids.map(() => '?').join(', ')})
+  `).all(...ids);
+  return new Map(rows.map(r => [r.id, safeJsonParse(r.resultado, {})]));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSULTA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Processos anteriores contra cada reclamada, no acervo que o usuário vê.
+ * @param {string} userId
+ * @param {string[]} reclamadas - nomes (podem conter CNPJ) da análise aberta
+ * @param {{ excludeId?: string, numeroProcesso?: string }} options - o próprio processo fica de fora
+ */
+export function findAntecedentes(userId, reclamadas, { excludeId, numeroProcesso } = {}) {
+  const db = getDb();
+  const targets = reclamadas
+    .map(name => ({ name, normalized: normalizeParty(name) }))
+    .filter(t => t.normalized.key || t.normalized.cnpjRoot);
+  if (targets.length === 0) return [];
+
+  const isOther = (row) => row.id !== excludeId && (!numeroProcesso || row.numero_processo !== numeroProcesso);
+
+  const access = accessWhere(userId, 'view');
+  const analysesIndex = db.prepare(`
+    SELECT id, numero_processo, reclamante, reclamadas, data_pauta, resultado_audiencia, created_at
+    FROM analyses
+    WHERE ${access.sql} AND deleted_at IS NULL
+    ORDER BY COALESCE(data_pauta, created_at) DESC
+  `).all(...access.params)
+    .filter(isOther)
+    .map(row => ({
+      row,
+      parties: safeJsonParse(row.reclamadas, [])
+        .filter(name => typeof name === 'string')
+        .map(name => ({ name, normalized: normalizeParty(name) })),
+    }));
+
+  // Mesma visibilidade da listagem de prova oral: acervo + compartilhamentos
+  const poaAccess = accessWhere(userId, 'view', 'poa');
+  const provaOralIndex = db.prepare(`
+    SELECT poa.id, poa.numero_processo, poa.reclamante, poa.reclamada, poa.vara, poa.created_at
+    FROM prova_oral_analyses poa
+    WHERE poa.deleted_at IS NULL
+      AND (${poaAccess.sql} OR poa.user_id IN (SELECT owner_id FROM prova_oral_access WHERE recipient_id = ?))
+    ORDER BY poa.created_at DESC
+  `).all(...poaAccess.params, userId)
+    .filter(isOther)
+    .filter(row => row.reclamada)
+    .map(row => ({ row, parties: [{ name: row.reclamada, normalized: normalizeParty(row.reclamada) }] }));
+
+  const matches = targets.map(target => ({
+    target,
+    analyses: matchRows(analysesIndex, target.normalized),
+    provaOral: matchRows(provaOralIndex, target.normalized),
+  }));
+
+  const analysesResultados = loadResultados(
+    'analyses',
+    [...new Set(matches.flatMap(m => m.analyses.slice(0, MAX_ANALYSES).map(e => e.row.id)))]
+  );
+  const provaOralResultados = loadResultados(
+    'prova_oral_analyses',
+    [...new Set(matches.flatMap(m => m.provaOral.slice(0, MAX_PROVA_ORAL).map(e => e.row.id)))]
+  );
+
+  return matches.map(({ target, analyses, provaOral }) => ({
+    reclamada: target.name,
+    totalAnalyses: analyses.length,
+    totalProvaOral: provaOral.length,
+    analyses: analyses.slice(0, MAX_ANALYSES).map(({ row, parties }) => ({
+      id: row.id,
+      numeroProcesso: row.numero_processo,
+      reclamante: row.reclamante,
+      reclamadaCitada: parties.find(p => partiesMatch(p.normalized, target.normalized))?.name || null,
+      dataPauta: row.data_pauta,
+      resultadoAudiencia: row.resultado_audiencia,
+      createdAt: row.created_at,
+      teses: extractTeses(analysesResultados.get(row.id) || {}),
+    })),
+    provaOral: provaOral.slice(0, MAX_PROVA_ORAL).map(({ row }) => {
+      const resultado = provaOralResultados.get(row.id) || {};
+      return {
+        id: row.id,
+        numeroProcesso: row.numero_processo,
+        reclamante: row.reclamante,
+        reclamada: row.reclamada,
+        vara: row.vara,
+        createdAt: row.created_at,
+        depoentes: (resultado.depoentes || []).length,
+        temas: (resultado.analises || []).map(a => a?.titulo || a?.tema).filter(Boolean),
+      };
+    }),
+  }));
+}
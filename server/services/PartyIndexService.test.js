@@ -0,0 +1,127 @@
+// @vitest-environment node
+/**
+ * Testes dos antecedentes da reclamada: visibilidade (acervo pessoal, gabinete,
+ * prova oral compartilhada) e exclusão do próprio processo. O banco é um fake
+ * (better-sqlite3 não é carregado aqui) que aplica a visibilidade de accessWhere
+ * e do compartilhamento prova_oral_access.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ analyses: [], provaOral: [], members: {}, shares: [] }));
+
+vi.mock('../db/database.js', () => ({
+  getDb: () => ({
+    prepare: (sql) => ({
+      all: (...params) => {
+        const visible = (row, userId) =>
+          (!row.workspace_id && row.user_id === userId) || (db.members[userId] || []).includes(row.workspace_id);
+
+        const byIds = sql.match(/SELECT id, resultado FROM (\w+) WHERE id IN/);
+        if (byIds) {
+          const table = byIds[1] === 'analyses' ? db.analyses : db.provaOral;
+          return table.filter(r => params.includes(r.id));
+        }
+        if (/FROM prova_oral_analyses poa/.test(sql)) {
+          const userId = params[0];
+          const owners = /prova_oral_access/.test(sql)
+            ? db.shares.filter(s => s.recipient_id === params[params.length - 1]).map(s => s.owner_id)
+            : [];
+          return db.provaOral.filter(r => !r.deleted_at && (visible(r, userId) || owners.includes(r.user_id)));
+        }
+        if (/FROM analyses/.test(sql)) {
+          return db.analyses.filter(r => !r.deleted_at && visible(r, params[0]));
+        }
+        return [];
+      },
+    }),
+  }),
+}));
+
+import { findAntecedentes } from './PartyIndexService.js';
+
+let seq = 0;
+const analysis = (over) => ({
+  id: `a${++seq}`, user_id: 'juiz', workspace_id: null, numero_processo: `000${seq}-00.2024.5.01.0001`,
+  reclamante: 'Fulano', reclamadas: JSON.stringify(['Construtora Alfa Ltda']), resultado: '{}',
+  data_pauta: null, resultado_audiencia: null, created_at: '2026-01-01', deleted_at: null, ...over,
+});
+const provaOral = (over) => ({
+  id: `p${++seq}`, user_id: 'juiz', workspace_id: null, numero_processo: `000${seq}-00.2023.5.01.0001`,
+  reclamante: 'Beltrano', reclamada: 'CONSTRUTORA ALFA S/A', vara: '1ª VT', resultado: '{}',
+  created_at: '2026-01-01', deleted_at: null, ...over,
+});
+
+const ids = (result) => ({
+  analyses: result[0].analyses.map(a => a.id).sort(),
+  provaOral: result[0].provaOral.map(p => p.id).sort(),
+});
+
+describe('findAntecedentes', () => {
+  beforeEach(() => {
+    seq = 0;
+    db.analyses = [];
+    db.provaOral = [];
+    db.members = {};
+    db.shares = [];
+  });
+
+  it('includes personal and workspace cases and hides other users\' personal cases', () => {
+    db.members = { juiz: ['gab-1'] };
+    db.analyses = [
+      analysis({ id: 'pessoal' }),
+      analysis({ id: 'gabinete', user_id: 'assessor', workspace_id: 'gab-1' }),
+      analysis({ id: 'outro-gabinete', user_id: 'assessor', workspace_id: 'gab-2' }),
+      analysis({ id: 'alheio', user_id: 'outro-juiz' }),
+      analysis({ id: 'excluido', deleted_at: '2026-02-01' }),
+    ];
+    db.provaOral = [
+      provaOral({ id: 'po-gabinete', user_id: 'assessor', workspace_id: 'gab-1' }),
+      provaOral({ id: 'po-alheia', user_id: 'outro-juiz' }),
+    ];
+
+    const result = findAntecedentes('juiz', ['Construtora Alfa Ltda']);
+
+    expect(ids(result)).toEqual({ analyses: ['gabinete', 'pessoal'], provaOral: ['po-gabinete'] });
+    expect(result[0]).toMatchObject({ reclamada: 'Construtora Alfa Ltda', totalAnalyses: 2, totalProvaOral: 1 });
+  });
+
+  it('includes prova oral shared with the user through prova_oral_access', () => {
+    db.provaOral = [
+      provaOral({ id: 'po-compartilhada', user_id: 'colega' }),
+      provaOral({ id: 'po-nao-compartilhada', user_id: 'outro-juiz' }),
+    ];
+    db.shares = [
+      { owner_id: 'colega', recipient_id: 'juiz' },
+      { owner_id: 'outro-juiz', recipient_id: 'terceiro' },
+    ];
+
+    expect(ids(findAntecedentes('juiz', ['Construtora Alfa'])).provaOral).toEqual(['po-compartilhada']);
+  });
+
+  it('leaves out the open case by id and by numero do processo', () => {
+    db.analyses = [
+      analysis({ id: 'aberta', numero_processo: '0100-00.2025.5.01.0001' }),
+      analysis({ id: 'mesmo-numero', numero_processo: '0200-00.2025.5.01.0001' }),
+      analysis({ id: 'anterior', numero_processo: '0300-00.2024.5.01.0001' }),
+    ];
+    db.provaOral = [
+      provaOral({ id: 'po-mesmo-numero', numero_processo: '0200-00.2025.5.01.0001' }),
+      provaOral({ id: 'po-anterior', numero_processo: '0050-00.2023.5.01.0001' }),
+    ];
+
+    const result = findAntecedentes('juiz', ['Construtora Alfa Ltda'], {
+      excludeId: 'aberta',
+      numeroProcesso: '0200-00.2025.5.01.0001',
+    });
+
+    expect(ids(result)).toEqual({ analyses: ['anterior'], provaOral: ['po-anterior'] });
+  });
+
+  it('ignores unrelated parties and empty names', () => {
+    db.analyses = [analysis({ id: 'outra-empresa', reclamadas: JSON.stringify(['Transportadora Beta']) })];
+
+    expect(findAntecedentes('juiz', ['', 'Ltda'])).toEqual([]);
+    expect(findAntecedentes('juiz', ['Construtora Alfa'])[0].totalAnalyses).toBe(0);
+  });
+});
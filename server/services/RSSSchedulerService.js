@@ -1,12 +1,14 @@
 // ═══════════════════════════════════════════════════════════════════════════
 // SERVIÇO - RSS Scheduler (Server-Side)
 // v1.41.0 - Coleta automática de RSS a cada 8 horas
+// v1.53.48 - Agrupa notícias da mesma história após inserir (NewsClusterService)
 // ═══════════════════════════════════════════════════════════════════════════
 
 import cron from 'node-cron';
 import { XMLParser } from 'fast-xml-parser';
 import { getDb } from '../db/database.js';
 import { v4 as uuidv4 } from 'uuid';
+import { clusterPendingNews } from './NewsClusterService.js';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURAÇÃO
@@ -180,6 +182,9 @@ class RSSSchedulerService {
       // Inserir no banco
       const { inserted, skipped } = this.insertBatch(allNews);
 
+      // Agrupar a mesma decisão vinda de várias fontes
+      const { merged } = await clusterPendingNews();
+
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
       this.lastRun = {
         timestamp: new Date().toISOString(),
@@ -187,10 +192,11 @@ class RSSSchedulerService {
         errorCount,
         inserted,
         skipped,
+        merged,
         elapsed: `${elapsed}s`
       };
 
-      console.log(`[RSS Scheduler] Concluído em ${elapsed}s: ${successCount} fontes OK, ${errorCount} erros | ${inserted} novas, ${skipped} duplicadas`);
+      console.log(`[RSS Scheduler] Concluído em ${elapsed}s: ${successCount} fontes OK, ${errorCount} erros | ${inserted} novas, ${skipped} duplicadas, ${merged} agrupadas`);
       return this.lastRun;
     } catch (error) {
       console.error('[RSS Scheduler] Erro fatal:', error);
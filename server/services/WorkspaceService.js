@@ -0,0 +1,176 @@
+// server/services/WorkspaceService.js
+// v1.53.43 - Gabinetes (workspaces) com papéis
+//
+// O juiz cria o gabinete e convida assessores/estagiários por email. Modelos,
+// pacotes de conhecimento, análises do Analisador e da Prova Oral podem
+// pertencer ao gabinete (coluna workspace_id): todo membro enxerga, e o papel
+// define o que pode criar, editar, excluir e aprovar. user_id segue sendo o
+// autor — quem criou sempre pode editar e excluir o próprio item.
+//
+// Os compartilhamentos 1:1 (library_access, prova_oral_access) continuam
+// funcionando em paralelo.
+
+import { getDb } from '../db/database.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAPÉIS E PERMISSÕES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const ROLES = ['juiz', 'assessor', 'estagiario'];
+
+const ROLE_PERMISSIONS = {
+  juiz: ['view', 'create', 'edit', 'delete', 'approve', 'manage'],
+  assessor: ['view', 'create', 'edit', 'delete'],
+  estagiario: ['view', 'create', 'edit'],
+};
+
+export const can = (role, action) => !!ROLE_PERMISSIONS[role]?.includes(action);
+
+const rolesFor = (action) => ROLES.filter(role => can(role, action));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MEMBROS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Vínculo aceito do usuário com um gabinete ativo (ou undefined) */
+export function getMembership(workspaceId, userId) {
+  if (!workspaceId || !userId) return undefined;
+  return getDb().prepare(`
+    SELECT wm.id, wm.role, w.id AS workspace_id, w.name, w.owner_id
+    FROM workspace_members wm
+    JOIN workspaces w ON w.id = wm.workspace_id
+    WHERE wm.workspace_id = ? AND wm.user_id = ? AND wm.accepted_at IS NOT NULL AND w.deleted_at IS NULL
+  `).get(workspaceId, userId);
+}
+
+/** Gabinetes do usuário com papel, dono e número de membros */
+export function listWorkspaces(userId) {
+  return getDb().prepare(`
+    SELECT w.id, w.name, w.owner_id AS ownerId, u.email AS ownerEmail, wm.role, wm.accepted_at AS acceptedAt,
+           (SELECT COUNT(*) FROM workspace_members m2 WHERE m2.workspace_id = w.id AND m2.accepted_at IS NOT NULL) AS memberCount
+    FROM workspace_members wm
+    JOIN workspaces w ON w.id = wm.workspace_id
+    JOIN users u ON u.id = w.owner_id
+    WHERE wm.user_id = ? AND wm.accepted_at IS NOT NULL AND w.deleted_at IS NULL
+    ORDER BY w.name
+  `).all(userId);
+}
+
+/** Convites pendentes para o email do usuário */
+export function listPendingInvites(email) {
+  return getDb().prepare(`
+    SELECT wm.id, wm.role, w.id AS workspaceId, w.name AS workspaceName, u.email AS invitedByEmail, wm.invited_at AS invitedAt
+    FROM workspace_members wm
+    JOIN workspaces w ON w.id = wm.workspace_id
+    LEFT JOIN users u ON u.id = wm.invited_by
+    WHERE wm.email = ? AND wm.accepted_at IS NULL AND w.deleted_at IS NULL
+    ORDER BY wm.invited_at DESC
+  `).all(String(email || '').toLowerCase());
+}
+
+/**
+ * Gabinete ativo da requisição (header X-Workspace-Id, ver
+ * installApiAuthInterceptor). Só vale se o usuário for membro com permissão
+ * para a ação; caso contrário o item é criado no acervo pessoal.
+ */
+export function resolveActiveWorkspace(req, action = 'create') {
+  const workspaceId = req.headers['x-workspace-id'];
+  if (typeof workspaceId !== 'string' || !workspaceId) return null;
+  const membership = getMembership(workspaceId, req.user?.id);
+  return membership && can(membership.role, action) ? membership : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTROLE DE ACESSO EM SQL
+// ═══════════════════════════════════════════════════════════════════════════
+
+const memberWorkspacesSql = (roles) => `
+  SELECT wm.workspace_id FROM workspace_members wm
+  JOIN workspaces w ON w.id = wm.workspace_id
+  WHERE wm.user_id = ? AND wm.accepted_at IS NOT NULL AND w.deleted_at IS NULL
+    AND wm.role IN (${roles.map(r => `'${r}'`).join(', ')})`;
+
+/**
+ * Cláusula WHERE (com parâmetros) para itens que o usuário pode acessar na
+ * ação: itens pessoais dele, itens de gabinetes onde o papel permite a ação e
+ * itens que ele mesmo criou em gabinetes dos quais ainda é membro.
+ * Substitui o antigo `user_id = ?` nas rotas.
+ */
+export function accessWhere(userId, action = 'view', alias = '') {
+  const a = alias ? `${alias}.` : '';
+  let sql = `((${a}workspace_id IS NULL AND ${a}user_id = ?) OR ${a}workspace_id IN (${memberWorkspacesSql(rolesFor(action))})`;
+  const params = [userId, userId];
+  if (rolesFor(action).length < ROLES.length) {
+    sql += ` OR (${a}user_id = ? AND ${a}workspace_id IN (${memberWorkspacesSql(ROLES)}))`;
+    params.push(userId, userId);
+  }
+  return { sql: `${sql})`, params };
+}
+
+/** Ids dos gabinetes em que o usuário é membro aceito */
+export function memberWorkspaceIds(userId) {
+  return getDb().prepare(memberWorkspacesSql(ROLES)).all(userId).map(r => r.workspace_id);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACERVO DO GABINETE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const OWNED_TABLES = ['models', 'knowledge_packages', 'analyses', 'prova_oral_analyses'];
+
+/**
+ * Move o acervo pessoal do usuário para o gabinete. Modelos ganham nova
+ * sync_version para chegarem aos demais membros no próximo pull incremental;
+ * quando quem move pode aprovar, entram já aprovados.
+ */
+export function adoptPersonalItems(workspaceId, userId, canApprove) {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const moved = {};
+  db.transaction(() => {
+    moved.models = db.prepare(`
+      UPDATE models
+      SET workspace_id = ?, approved_at = ?, approved_by = ?, updated_at = ?, sync_version = sync_version + 1
+      WHERE user_id = ? AND workspace_id IS NULL AND deleted_at IS NULL
+    `).run(workspaceId, canApprove ? now : null, canApprove ? userId : null, now, userId).changes;
+    for (const table of OWNED_TABLES.slice(1)) {
+      moved[table] = db.prepare(`
+        UPDATE ${table} SET workspace_id = ?, updated_at = ?
+        WHERE user_id = ? AND workspace_id IS NULL AND deleted_at IS NULL
+      `).run(workspaceId, now, userId).changes;
+    }
+  })();
+  return moved;
+}
+
+/** Ao excluir o gabinete, cada item volta ao acervo pessoal do autor */
+export function releaseWorkspaceItems(workspaceId) {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE models SET workspace_id = NULL, updated_at = ?, sync_version = sync_version + 1
+      WHERE workspace_id = ?
+    `).run(now, workspaceId);
+    for (const table of OWNED_TABLES.slice(1)) {
+      db.prepare(`UPDATE ${table} SET workspace_id = NULL WHERE workspace_id = ?`).run(workspaceId);
+    }
+  })();
+}
+
+export function listPendingModels(workspaceId) {
+  return getDb().prepare(`
+    SELECT m.id, m.title, m.category, m.updated_at AS updatedAt, u.email AS authorEmail
+    FROM models m JOIN users u ON u.id = m.user_id
+    WHERE m.workspace_id = ? AND m.approved_at IS NULL AND m.deleted_at IS NULL
+    ORDER BY m.updated_at DESC
+  `).all(workspaceId);
+}
+
+export function approveModel(workspaceId, modelId, userId) {
+  const now = new Date().toISOString();
+  return getDb().prepare(`
+    UPDATE models SET approved_at = ?, approved_by = ?, updated_at = ?, sync_version = sync_version + 1
+    WHERE id = ? AND workspace_id = ? AND deleted_at IS NULL
+  `).run(now, userId, now, modelId, workspaceId).changes > 0;
+}
@@ -0,0 +1,37 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for Banco do Brasil (Ourocard) credit card CSV files.
+ * Format: comma-separated with quoted cells, DD/MM/YYYY dates, "1.234,56" values, Latin-1.
+ * Header: "Data","Descrição","País","Valor R$","Valor US$"
+ * Installments are a suffix of the description: "LOJA X PARC 03/10".
+ */
+export default class BBParser extends BaseCSVParser {
+  static bankId = 'bb';
+  static bankName = 'Banco do Brasil';
+
+  parse(csvContent) {
+    const rows = this.parseTable(csvContent, {
+      columns: {
+        purchase_date: ['data', 'datadecompra'],
+        description: ['descricao', 'lancamento', 'historico'],
+        value_brl: ['valorr$', 'valor'],
+        value_usd: ['valorus$'],
+        card_last_four: ['cartao', 'finaldocartao'],
+      },
+      skip: /^(saldo fatura anterior|pgto|pagamento|total|s a l d o)/i,
+      onContextLine: (line, context) => {
+        const card = line.match(/final\s*(\d{4})/i);
+        if (card) context.cardLastFour = card[1];
+      },
+    });
+    return { rows, billingMonth: null };
+  }
+
+  /**
+   * Billing month from a filename carrying the due date, e.g. "ourocard_2026-02.csv"
+   */
+  parseBillingMonth(filename) {
+    return this.billingMonthFromFilename(filename);
+  }
+}
@@ -2,7 +2,9 @@ import crypto from 'crypto';
 
 /**
  * Base class for bank CSV parsers.
- * Contains shared logic: hashing, installment parsing, duplicate detection.
+ * Contains shared logic: hashing, installment parsing, duplicate detection,
+ * plus a header-driven table reader (parseTable) for banks whose export is a
+ * plain table with a recognizable header row.
  * Subclasses must implement: parse(), parseBillingMonth()
  */
 export default class BaseCSVParser {
@@ -13,13 +15,17 @@ export default class BaseCSVParser {
   /**
    * Parse CSV content into standardized row objects.
    * Must be implemented by each bank parser.
+   * Returns { rows, billingMonth }: billingMonth (YYYY-MM) when the file content
+   * carries it, else null (the route falls back to parseBillingMonth(filename)).
+   * Parsers are shared singletons (index.js): nothing from a parse may be kept
+   * on the instance, or concurrent uploads would read each other's month.
    */
   parse(csvContent) {
     throw new Error('parse() must be implemented by subclass');
   }
 
   /**
-   * Extract billing month (YYYY-MM) from filename.
+   * Extract billing month (YYYY-MM) from filename, used when parse() found none.
    * Override in subclass if the bank uses a specific filename format.
    */
   parseBillingMonth(filename) {
@@ -36,6 +42,50 @@ export default class BaseCSVParser {
     return isNaN(num) ? 0 : num;
   }
 
+  /**
+   * Parse a BRL amount as exported by Brazilian banks.
+   * "1.234,56" / "R$ -1.234,56" / "(1.234,56)" → comma decimal;
+   * with decimal = '.', "1234.56" / "-89.90" (Nubank, OFX).
+   */
+  parseAmount(str, decimal = ',') {
+    if (!str) return 0;
+    let text = String(str).trim().replace(/R\$|US\$|\s/gi, '');
+    const negative = /^\(.*\)$/.test(text) || /-$/.test(text);
+    text = text.replace(/[()]/g, '').replace(/-$/, '');
+    text = decimal === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    const num = parseFloat(text);
+    if (isNaN(num)) return 0;
+    return negative ? -Math.abs(num) : num;
+  }
+
+  /**
+   * Parse "DD/MM/YYYY", "DD/MM/YY", "DD/MM" (needs fallbackYear) or "YYYY-MM-DD" → YYYY-MM-DD
+   */
+  parseFlexibleDate(str, fallbackYear = null) {
+    if (!str) return null;
+    const text = str.trim();
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+    const br = text.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?$/);
+    if (!br) return null;
+    const [, day, month, rawYear] = br;
+    const year = rawYear ? (rawYear.length === 2 ? `20${rawYear}` : rawYear) : fallbackYear;
+    if (!year || Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  /**
+   * Decode an uploaded file. Banks like Itaú, Bradesco and BB still export
+   * Latin-1; invalid UTF-8 falls back to it instead of producing mojibake.
+   */
+  decode(buffer) {
+    try {
+      return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(buffer);
+    } catch {
+      return buffer.toString('latin1');
+    }
+  }
+
   /**
    * Compute SHA-256 hash of file content (for duplicate file detection)
    */
@@ -57,15 +107,181 @@ export default class BaseCSVParser {
     return { number, total };
   }
 
+  /**
+   * Split a trailing installment marker off a description.
+   * "MERCADO LIVRE - Parcela 3/10" / "LOJA X PARC 03/10" / "LOJA X 03/10"
+   * → { description: 'MERCADO LIVRE', installment: '03/10' }.
+   * The marker is removed so that every month of the same purchase keeps the
+   * same description — reconciliation with projected rows matches on it.
+   */
+  splitInstallment(description) {
+    const text = (description || '').trim();
+    const match = text.match(/^(.*?)[\s\-–]*(?:parcela|parc\.?)?\s*(?<!\d)(\d{1,2})\s*(?:\/|de)\s*(\d{1,2})$/i);
+    if (!match || !match[1].trim()) return { description: text, installment: null };
+    const installment = `${match[2].padStart(2, '0')}/${match[3].padStart(2, '0')}`;
+    if (!this.parseInstallment(installment)) return { description: text, installment: null };
+    return { description: match[1].trim(), installment };
+  }
+
+  /**
+   * Build a standardized row (the CSVPreviewRow shape used by the import routes).
+   * Installment comes from its own column or, failing that, from the description.
+   */
+  buildRow({ purchaseDate, description, valueBrl, valueUsd = 0, exchangeRate = 0, installment = null, cardHolder = null, cardLastFour = null, bankCategory = null }) {
+    const split = installment ? { description: (description || '').trim(), installment } : this.splitInstallment(description);
+    const parsed = this.parseInstallment(split.installment);
+    return {
+      purchase_date: purchaseDate,
+      card_holder: cardHolder || null,
+      card_last_four: cardLastFour || null,
+      bank_category: bankCategory || null,
+      description: split.description,
+      installment: split.installment,
+      value_usd: valueUsd,
+      exchange_rate: exchangeRate,
+      value_brl: valueBrl,
+      is_refund: valueBrl < 0 ? 1 : 0,
+      installment_number: parsed?.number ?? null,
+      installment_total: parsed?.total ?? null,
+    };
+  }
+
+  /**
+   * Billing month (YYYY-MM) from a filename carrying a date,
+   * e.g. "fatura-2026-02.csv", "Nubank_2026-02-10.csv", "fatura_202602.csv".
+   */
+  billingMonthFromFilename(filename) {
+    if (!filename) return null;
+    const match = filename.match(/(20\d{2})[-_.]?(0[1-9]|1[0-2])(?:[-_.]?\d{2})?(?!\d)/);
+    return match ? `${match[1]}-${match[2]}` : null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // Header-driven table reader
+  // ═══════════════════════════════════════════════════════════════
+
+  /** Normalize a header cell for comparison: "Valor (R$)" → "valorr$", "Lançamento" → "lancamento" */
+  normalizeHeader(cell) {
+    return (cell || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9$]/g, '');
+  }
+
+  /** Split one delimited line, honoring double quotes ("a;b" and "" escapes) */
+  splitLine(line, delimiter) {
+    const cells = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quoted) {
+        if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+        else if (ch === '"') quoted = false;
+        else cell += ch;
+      } else if (ch === '"') {
+        quoted = true;
+      } else if (ch === delimiter) {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += ch;
+      }
+    }
+    cells.push(cell.trim());
+    return cells;
+  }
+
+  /**
+   * Read a bank table export into standardized rows.
+   *
+   * layout.columns maps row fields to accepted header names (normalized with
+   * normalizeHeader); purchase_date, description and value_brl are required and
+   * the first line having all three is taken as the header. Lines before it, and
+   * lines after it that are not transactions, go to layout.onContextLine (card
+   * sections, due dates) together with the mutable `context` object, whose
+   * cardHolder/cardLastFour/year fill the rows that follow.
+   *
+   * @param {string} content
+   * @param {{ columns: Object<string, string[]>, decimal?: ',' | '.', skip?: RegExp,
+   *           onContextLine?: (line: string, context: Object) => void }} layout
+   */
+  parseTable(content, layout) {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const bankName = this.constructor.bankName;
+    const context = { cardHolder: null, cardLastFour: null, year: null };
+
+    let headerIndex = -1;
+    let delimiter = ';';
+    let columnIndex = {};
+    for (let i = 0; i < Math.min(lines.length, 40) && headerIndex < 0; i++) {
+      const line = lines[i];
+      const candidates = [';', ',', '\t'].filter(d => line.includes(d));
+      for (const d of candidates) {
+        const cells = this.splitLine(line, d).map(c => this.normalizeHeader(c));
+        const index = {};
+        for (const [field, names] of Object.entries(layout.columns)) {
+          const position = cells.findIndex(c => names.includes(c));
+          if (position >= 0) index[field] = position;
+        }
+        if (index.purchase_date !== undefined && index.description !== undefined && index.value_brl !== undefined) {
+          headerIndex = i;
+          delimiter = d;
+          columnIndex = index;
+          break;
+        }
+      }
+      if (headerIndex < 0 && line.trim()) layout.onContextLine?.(line, context);
+    }
+
+    if (headerIndex < 0) {
+      throw new Error(`Cabeçalho não reconhecido: o arquivo não parece ser uma fatura do ${bankName}`);
+    }
+
+    const rows = [];
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+
+      const cells = this.splitLine(line, delimiter);
+      const cell = (field) => (columnIndex[field] !== undefined ? cells[columnIndex[field]] || '' : '');
+
+      const purchaseDate = this.parseFlexibleDate(cell('purchase_date'), context.year);
+      const description = cell('description');
+      if (!purchaseDate || !description || (layout.skip && layout.skip.test(description))) {
+        if (!purchaseDate) layout.onContextLine?.(line, context);
+        continue;
+      }
+
+      const valueBrl = this.parseAmount(cell('value_brl'), layout.decimal);
+      if (valueBrl === 0) continue;
+
+      rows.push(this.buildRow({
+        purchaseDate,
+        description,
+        valueBrl,
+        valueUsd: this.parseAmount(cell('value_usd'), layout.decimal),
+        installment: cell('installment') && this.parseInstallment(cell('installment')) ? cell('installment') : null,
+        cardHolder: cell('card_holder') || context.cardHolder,
+        cardLastFour: cell('card_last_four') || context.cardLastFour,
+        bankCategory: cell('bank_category'),
+      }));
+    }
+
+    if (rows.length === 0) {
+      throw new Error(`Nenhuma transação encontrada no arquivo do ${bankName}`);
+    }
+    return rows;
+  }
+
   /**
    * Detect duplicates and reconciliation matches against existing expenses.
    * Shared across all bank parsers — works on the standardized row format.
    */
   findDuplicates(db, userId, rows) {
-    // Check for real duplicates (exclude csv_projected from duplicate detection)
+    // Check for real duplicates (exclude csv_projected from duplicate detection).
+    // card_last_four uses IS: Nubank/OFX exports may not carry the card number,
+    // and NULL = NULL would never flag a re-import as duplicate.
     const duplicateStmt = db.prepare(`
       SELECT 1 FROM expenses
-      WHERE user_id = ? AND purchase_date = ? AND description = ? AND value_brl = ? AND card_last_four = ?
+      WHERE user_id = ? AND purchase_date = ? AND description = ? AND value_brl = ? AND card_last_four IS ?
         AND source != 'csv_projected' AND deleted_at IS NULL
       LIMIT 1
     `);
@@ -74,7 +290,7 @@ export default class BaseCSVParser {
     const reconcileStmt = db.prepare(`
       SELECT id, installment_group_id FROM expenses
       WHERE user_id = ? AND source = 'csv_projected' AND description = ? AND purchase_date = ?
-        AND value_brl = ? AND card_last_four = ? AND installment_number = ? AND installment_total = ?
+        AND value_brl = ? AND card_last_four IS ? AND installment_number = ? AND installment_total = ?
         AND deleted_at IS NULL
       LIMIT 1
     `);
@@ -0,0 +1,67 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for Bradesco credit card CSV files (Bradesco Cartões → "exportar fatura").
+ * Format: semicolon-separated, Latin-1, with a preamble and one section per card:
+ *
+ *   Data de Vencimento: 10/02/2026
+ *   FULANO DE TAL ;;; 4567
+ *   Data;Histórico;Valor(US$);Valor(R$);
+ *   15/01;SUPERMERCADO X;0,00;123,45;
+ *   BELTRANA DE TAL ;;; 8901
+ *   ...
+ *
+ * Dates come without the year: it is taken from the due date and a purchase
+ * in a later month than the due date belongs to the previous year.
+ */
+export default class BradescoParser extends BaseCSVParser {
+  static bankId = 'bradesco';
+  static bankName = 'Bradesco';
+
+  parse(csvContent) {
+    let dueMonth = null;
+    let dueYear = null;
+
+    const rows = this.parseTable(csvContent, {
+      columns: {
+        purchase_date: ['data'],
+        description: ['historico', 'descricao', 'lancamento'],
+        value_brl: ['valorr$', 'valor'],
+        value_usd: ['valorus$'],
+      },
+      skip: /^(saldo anterior|pagto|pagamento|total)/i,
+      onContextLine: (line, context) => {
+        const due = line.match(/(\d{2})\/(\d{2})\/(\d{4})/);
+        if (due && dueYear === null) {
+          dueMonth = Number(due[2]);
+          dueYear = Number(due[3]);
+          context.year = String(dueYear);
+        }
+        const card = line.match(/^\s*"?([^;"\d][^;"]*?)"?\s*;[;\s]*(?:final\s*)?(\d{4})\s*;*\s*$/i);
+        if (card) {
+          context.cardHolder = card[1].trim();
+          context.cardLastFour = card[2];
+        }
+      },
+    });
+
+    // Billing month from the due date in the preamble
+    if (dueMonth === null) return { rows, billingMonth: null };
+    return {
+      rows: rows.map((row) => {
+        const [year, month] = row.purchase_date.split('-').map(Number);
+        if (year !== dueYear || month <= dueMonth) return row;
+        return { ...row, purchase_date: `${year - 1}${row.purchase_date.substring(4)}` };
+      }),
+      billingMonth: `${dueYear}-${String(dueMonth).padStart(2, '0')}`,
+    };
+  }
+
+  /**
+   * Billing month from the filename (e.g. "fatura_2026-02.csv") when the
+   * preamble has no due date.
+   */
+  parseBillingMonth(filename) {
+    return this.billingMonthFromFilename(filename);
+  }
+}
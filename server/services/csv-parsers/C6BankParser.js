@@ -55,7 +55,7 @@ export default class C6BankParser extends BaseCSVParser {
       });
     }
 
-    return rows;
+    return { rows, billingMonth: null };
   }
 
   /**
@@ -1,30 +1,34 @@
 import BaseCSVParser from './BaseCSVParser.js';
 
 /**
- * Parser for Caixa Econômica Federal (CEF) credit card PDF invoices.
+ * Parser for credit card PDF invoices (Caixa, and the PDF layouts of Nubank,
+ * Itaú, Bradesco, BB and Santander).
  * Uses Gemini 3.0 Flash multimodal to extract transactions from PDF.
+ * One instance per bank: the bank name goes into the extraction prompt.
  */
-export default class CEFPDFParser extends BaseCSVParser {
-  static bankId = 'cef';
-  static bankName = 'Caixa Econômica Federal';
-
-  constructor() {
+export default class InvoicePDFParser extends BaseCSVParser {
+  /**
+   * @param {string} bankId
+   * @param {string} bankName
+   */
+  constructor(bankId, bankName) {
     super();
     /** @type {'pdf'} */
     this.fileType = 'pdf';
-    /** @type {string|null} */
-    this._extractedBillingMonth = null;
+    this.bankId = bankId;
+    this.bankName = bankName;
   }
 
   /**
-   * Parse CEF PDF content via Gemini multimodal.
+   * Parse PDF invoice content via Gemini multimodal.
    * @param {Buffer} pdfBuffer - Raw PDF file buffer
    * @param {string} apiKey - Gemini API key
-   * @returns {Promise<Array>} Standardized CSVPreviewRow-compatible objects
+   * @returns {Promise<{ rows: Array, billingMonth: string|null }>} Standardized
+   *   CSVPreviewRow-compatible objects and the billing month read by Gemini
    */
   async parse(pdfBuffer, apiKey) {
     if (!apiKey) {
-      throw new Error('API key Gemini necessária para importar PDF da Caixa');
+      throw new Error(`API key Gemini necessária para importar PDF do ${this.bankName}`);
     }
 
     const base64 = pdfBuffer.toString('base64');
@@ -44,7 +48,7 @@ export default class CEFPDFParser extends BaseCSVParser {
                 },
               },
               {
-                text: EXTRACTION_PROMPT,
+                text: extractionPrompt(this.bankName),
               },
             ],
           }],
@@ -88,7 +92,7 @@ export default class CEFPDFParser extends BaseCSVParser {
 
     const data = await response.json();
     const parts = data.candidates?.[0]?.content?.parts || [];
-    console.log('[CEFPDFParser] Gemini response parts:', parts.map(p => ({ thought: !!p.thought, hasText: !!p.text, textLen: p.text?.length })));
+    console.log('[InvoicePDFParser] Gemini response parts:', parts.map(p => ({ thought: !!p.thought, hasText: !!p.text, textLen: p.text?.length })));
     const text = parts.find(p => p.text && !p.thought)?.text;
 
     if (!text) {
@@ -98,28 +102,26 @@ export default class CEFPDFParser extends BaseCSVParser {
     const parsed = JSON.parse(text);
 
     if (!parsed.transactions || !Array.isArray(parsed.transactions)) {
-      console.error('[CEFPDFParser] JSON sem transactions. Keys:', Object.keys(parsed));
-      console.error('[CEFPDFParser] Response text (500 chars):', text.substring(0, 500));
+      console.error('[InvoicePDFParser] JSON sem transactions. Keys:', Object.keys(parsed));
+      console.error('[InvoicePDFParser] Response text (500 chars):', text.substring(0, 500));
       throw new Error('Formato de resposta inválido: transactions não encontrado');
     }
 
-    // Store billing month for route to use
-    this._extractedBillingMonth = parsed.billing_month || null;
-
     // Normalize to CSVPreviewRow format
     const cardHolder = parsed.card_holder || null;
     const cardLastFour = parsed.card_last_four || null;
 
-    return parsed.transactions.map((t) => {
-      const installmentParsed = this.parseInstallment(t.installment || null);
+    const rows = parsed.transactions.map((t) => {
+      const split = t.installment ? { description: t.description || '', installment: t.installment } : this.splitInstallment(t.description);
+      const installmentParsed = this.parseInstallment(split.installment);
 
       return {
         purchase_date: t.purchase_date,
         card_holder: cardHolder,
         card_last_four: cardLastFour,
         bank_category: null,
-        description: t.description || '',
-        installment: t.installment || null,
+        description: split.description,
+        installment: split.installment,
         value_usd: 0,
         exchange_rate: 0,
         value_brl: t.value_brl || 0,
@@ -128,13 +130,9 @@ export default class CEFPDFParser extends BaseCSVParser {
         installment_total: installmentParsed?.total ?? null,
       };
     });
-  }
 
-  /**
-   * Return billing month extracted from the PDF content by Gemini.
-   */
-  parseBillingMonth(_filename) {
-    return this._extractedBillingMonth;
+    const billingMonth = /^\d{4}-\d{2}$/.test(parsed.billing_month || '') ? parsed.billing_month : null;
+    return { rows, billingMonth };
   }
 }
 
@@ -142,7 +140,7 @@ export default class CEFPDFParser extends BaseCSVParser {
 // Gemini extraction prompt
 // ═══════════════════════════════════════════════════════════════
 
-const EXTRACTION_PROMPT = `Analise esta fatura de cartão de crédito da Caixa Econômica Federal.
+const extractionPrompt = (bankName) => `Analise esta fatura de cartão de crédito do banco ${bankName}.
 Extraia TODAS as transações e retorne APENAS um JSON válido:
 
 {
@@ -165,5 +163,6 @@ Regras:
 - Valores: número positivo (sem R$)
 - is_refund: true para estornos/créditos
 - installment: "NN/NN" se parcelado, null se à vista/parcela única
+- description: sem o indicador de parcela (ex.: "LOJA X", não "LOJA X 03/10")
 - billing_month: mês de referência da fatura (YYYY-MM)
 - Não omita nenhuma transação`;
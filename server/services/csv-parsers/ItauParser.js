@@ -0,0 +1,33 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for Itaú credit card CSV files (fatura → "exportar lançamentos").
+ * Format: semicolon-separated, DD/MM/YYYY dates, "1.234,56" values, Latin-1.
+ * Header: data;lançamento;valor  (some exports add "cartão" with the final digits)
+ * Installments are a suffix of the description: "LOJA X 03/10".
+ */
+export default class ItauParser extends BaseCSVParser {
+  static bankId = 'itau';
+  static bankName = 'Itaú';
+
+  parse(csvContent) {
+    const rows = this.parseTable(csvContent, {
+      columns: {
+        purchase_date: ['data'],
+        description: ['lancamento', 'lancamentos', 'descricao'],
+        value_brl: ['valor', 'valorr$', 'valoremr$'],
+        value_usd: ['valorus$', 'valoremus$'],
+        card_last_four: ['cartao', 'final', 'finaldocartao'],
+      },
+      skip: /^(pagamento efetuado|total|saldo)/i,
+    });
+    return { rows, billingMonth: null };
+  }
+
+  /**
+   * Billing month from a filename carrying the due date, e.g. "fatura-itau-2026-02.csv"
+   */
+  parseBillingMonth(filename) {
+    return this.billingMonthFromFilename(filename);
+  }
+}
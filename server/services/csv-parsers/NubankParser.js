@@ -0,0 +1,36 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for Nubank credit card CSV files ("Exportar fatura" in the app).
+ * Format: comma-separated, 3 columns, YYYY-MM-DD dates, dot decimal.
+ * Header: date,title,amount
+ * Installments live in the title: "Mercado Livre - Parcela 3/10".
+ * Negative amounts are refunds ("Pagamento recebido" lines are skipped).
+ * Filename pattern: "Nubank_YYYY-MM-DD.csv" (due date)
+ */
+export default class NubankParser extends BaseCSVParser {
+  static bankId = 'nubank';
+  static bankName = 'Nubank';
+
+  parse(csvContent) {
+    const rows = this.parseTable(csvContent, {
+      decimal: '.',
+      columns: {
+        purchase_date: ['date', 'data'],
+        description: ['title', 'descricao'],
+        value_brl: ['amount', 'valor'],
+        bank_category: ['category', 'categoria'],
+      },
+      skip: /^pagamento recebido/i,
+    });
+    return { rows, billingMonth: null };
+  }
+
+  /**
+   * Extract billing month from the due date in the filename.
+   * e.g. "Nubank_2026-02-10.csv" → "2026-02"
+   */
+  parseBillingMonth(filename) {
+    return this.billingMonthFromFilename(filename);
+  }
+}
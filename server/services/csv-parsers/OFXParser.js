@@ -0,0 +1,60 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for OFX/QFX statements (Open Financial Exchange), exported by most
+ * Brazilian banks under "Money/OFX". Handles both OFX 1.x (SGML, leaf tags
+ * without closing) and OFX 2.x (XML).
+ *
+ * Credit card statements (<CCSTMTRS>): charges are negative TRNAMT and become
+ * positive value_brl; credits become refunds. Bank account statements
+ * (<STMTRS>): only debits are imported — credits there are income, not expenses.
+ */
+export default class OFXParser extends BaseCSVParser {
+  static bankId = 'ofx';
+  static bankName = 'OFX / QFX';
+
+  parse(content) {
+    if (!/<OFX>/i.test(content)) {
+      throw new Error('Arquivo OFX inválido: tag <OFX> não encontrada');
+    }
+
+    const isCreditCard = /<CCSTMTRS>/i.test(content);
+    const accountId = this.tagValue(content, 'ACCTID');
+    const cardLastFour = isCreditCard && accountId ? accountId.replace(/\D/g, '').slice(-4) || null : null;
+    // Credit card statements: month of <DTEND>. Bank statements have no billing
+    // month (the route falls back to each purchase month).
+    const statementEnd = this.tagValue(content, 'DTEND');
+    const billingMonth = isCreditCard && /^\d{6}/.test(statementEnd || '')
+      ? `${statementEnd.substring(0, 4)}-${statementEnd.substring(4, 6)}`
+      : null;
+
+    const rows = [];
+    const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+    for (const block of blocks) {
+      const posted = this.tagValue(block, 'DTPOSTED');
+      if (!posted || !/^\d{8}/.test(posted)) continue;
+
+      const rawAmount = this.tagValue(block, 'TRNAMT') || '';
+      const amount = this.parseAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+      if (amount === 0 || (!isCreditCard && amount > 0)) continue;
+
+      rows.push(this.buildRow({
+        purchaseDate: `${posted.substring(0, 4)}-${posted.substring(4, 6)}-${posted.substring(6, 8)}`,
+        description: this.tagValue(block, 'MEMO') || this.tagValue(block, 'NAME') || '',
+        valueBrl: -amount,
+        cardLastFour,
+      }));
+    }
+
+    if (rows.length === 0) {
+      throw new Error('Nenhuma transação encontrada no arquivo OFX');
+    }
+    return { rows, billingMonth };
+  }
+
+  /** Value of a leaf tag, SGML (<TAG>value) or XML (<TAG>value</TAG>) */
+  tagValue(text, tag) {
+    const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim().replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>') : null;
+  }
+}
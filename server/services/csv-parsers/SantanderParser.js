@@ -0,0 +1,40 @@
+import BaseCSVParser from './BaseCSVParser.js';
+
+/**
+ * Parser for Santander credit card CSV files (Internet Banking → fatura → "exportar").
+ * Format: semicolon-separated, DD/MM/YYYY dates, "1.234,56" values, one section per card.
+ * Header: Data;Descrição;Parcela;Valor (US$);Valor (R$)
+ * Card sections are introduced by lines like "FULANO DE TAL - final 1234".
+ */
+export default class SantanderParser extends BaseCSVParser {
+  static bankId = 'santander';
+  static bankName = 'Santander';
+
+  parse(csvContent) {
+    const rows = this.parseTable(csvContent, {
+      columns: {
+        purchase_date: ['data'],
+        description: ['descricao', 'estabelecimento'],
+        installment: ['parcela'],
+        value_brl: ['valorr$', 'valor'],
+        value_usd: ['valorus$'],
+      },
+      skip: /^(saldo anterior|pagamento|total|resumo)/i,
+      onContextLine: (line, context) => {
+        const card = line.match(/^\s*"?([^;"\d][^;"]*?)\s*-\s*final\s*(\d{4})/i);
+        if (card) {
+          context.cardHolder = card[1].trim();
+          context.cardLastFour = card[2];
+        }
+      },
+    });
+    return { rows, billingMonth: null };
+  }
+
+  /**
+   * Billing month from a filename carrying the due date, e.g. "Fatura_Santander_2026-02.csv"
+   */
+  parseBillingMonth(filename) {
+    return this.billingMonthFromFilename(filename);
+  }
+}
@@ -1,25 +1,61 @@
 import C6BankParser from './C6BankParser.js';
-import CEFPDFParser from './CEFPDFParser.js';
+import NubankParser from './NubankParser.js';
+import ItauParser from './ItauParser.js';
+import BradescoParser from './BradescoParser.js';
+import BBParser from './BBParser.js';
+import SantanderParser from './SantanderParser.js';
+import OFXParser from './OFXParser.js';
+import InvoicePDFParser from './InvoicePDFParser.js';
 
 // ═══════════════════════════════════════════════════════════════
 // Registry: bankId → parser instance
 // To add a new bank: create XxxParser.js, import, add to map.
+// Text exports (CSV/OFX) go in `parsers`; PDF invoices in `pdfParsers`
+// (a bank may have both — the uploaded file decides which one is used).
 // ═══════════════════════════════════════════════════════════════
 
 const parsers = {
   c6: new C6BankParser(),
-  cef: new CEFPDFParser(),
+  nubank: new NubankParser(),
+  itau: new ItauParser(),
+  bradesco: new BradescoParser(),
+  bb: new BBParser(),
+  santander: new SantanderParser(),
+  ofx: new OFXParser(),
+};
+
+const pdfParsers = {
+  cef: new InvoicePDFParser('cef', 'Caixa Econômica Federal'),
+  nubank: new InvoicePDFParser('nubank', 'Nubank'),
+  itau: new InvoicePDFParser('itau', 'Itaú'),
+  bradesco: new InvoicePDFParser('bradesco', 'Bradesco'),
+  bb: new InvoicePDFParser('bb', 'Banco do Brasil'),
+  santander: new InvoicePDFParser('santander', 'Santander'),
 };
 
 /** List of available banks (for frontend selector) */
-export const AVAILABLE_BANKS = Object.values(parsers).map(p => ({
-  id: p.constructor.bankId,
-  name: p.constructor.bankName,
+export const AVAILABLE_BANKS = [...new Set([...Object.keys(parsers), ...Object.keys(pdfParsers)])].map(id => ({
+  id,
+  name: parsers[id]?.constructor.bankName ?? pdfParsers[id].bankName,
+  formats: [
+    ...(parsers[id] ? [id === 'ofx' ? 'ofx' : 'csv'] : []),
+    ...(pdfParsers[id] ? ['pdf'] : []),
+  ],
 }));
 
-/** Get parser by bankId or throw */
-export function getParser(bankId) {
-  const parser = parsers[bankId];
-  if (!parser) throw new Error(`Parser não encontrado para banco: ${bankId}`);
+/** True when the upload is a PDF (magic bytes, falling back to the extension) */
+export function isPDFUpload(buffer, filename) {
+  return buffer.subarray(0, 5).toString('latin1') === '%PDF-' || /\.pdf$/i.test(filename || '');
+}
+
+/** Get parser by bankId (PDF or text variant) or throw */
+export function getParser(bankId, { pdf = false } = {}) {
+  const parser = pdf ? pdfParsers[bankId] : parsers[bankId];
+  if (!parser) {
+    if (parsers[bankId] || pdfParsers[bankId]) {
+      throw new Error(`Formato ${pdf ? 'PDF' : 'CSV'} não suportado para o banco: ${bankId}`);
+    }
+    throw new Error(`Parser não encontrado para banco: ${bankId}`);
+  }
   return parser;
 }
@@ -0,0 +1,208 @@
+// @vitest-environment node
+/**
+ * Testes dos parsers de fatura/extrato com amostras de cada banco.
+ * Os parsers são instâncias únicas (index.js): o mês de referência sai do
+ * retorno de parse(), nunca do estado da instância.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getParser } from './index.js';
+
+const NUBANK = `date,title,amount
+2026-01-15,Mercado Livre - Parcela 3/10,89.90
+2026-01-18,Padaria Estrela,12.50
+2026-01-20,Pagamento recebido,-500.00
+2026-01-22,Estorno Loja X,-30.00
+`;
+
+const ITAU = `data;lançamento;valor
+15/01/2026;LOJA X 03/10;1.234,56
+16/01/2026;PAGAMENTO EFETUADO;-2.000,00
+17/01/2026;FARMACIA BOA;45,90
+`;
+
+const BRADESCO = `Data de Vencimento: 10/02/2026
+FULANO DE TAL ;;; 4567
+Data;Histórico;Valor(US$);Valor(R$);
+15/01;SUPERMERCADO X;0,00;123,45;
+20/12;LOJA NATAL PARC 02/03;0,00;80,00;
+SALDO ANTERIOR;;;1.000,00;
+BELTRANA DE TAL ;;; 8901
+03/02;APP STREAMING;9,99;55,20;
+`;
+
+const BB = `"Data","Descrição","País","Valor R$","Valor US$"
+"Cartão final 4321"
+"05/01/2026","RESTAURANTE SABOR","BR","78,00","0,00"
+"06/01/2026","LOJA Y PARC 02/05","BR","150,00","0,00"
+"10/01/2026","PGTO DEBITO CONTA","BR","-900,00","0,00"
+`;
+
+const SANTANDER = `Fatura Santander - vencimento 15/02/2026
+FULANO DE TAL - final 1234
+Data;Descrição;Parcela;Valor (US$);Valor (R$)
+10/01/2026;POSTO COMBUSTIVEL;;0,00;200,00
+12/01/2026;ELETRO LOJA;02/12;0,00;99,90
+BELTRANA - final 5678
+14/01/2026;LIVRARIA;;0,00;60,00
+14/01/2026;PAGAMENTO DE FATURA;;0,00;-1.000,00
+`;
+
+const OFX_CARD = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>5500********9876</CCACCTFROM>
+<BANKTRANLIST><DTSTART>20260110<DTEND>20260209120000[-3:BRT]
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260112<TRNAMT>-150.00<MEMO>LOJA A &amp; B</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260115<TRNAMT>25.00<MEMO>ESTORNO</STMTTRN>
+</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+const OFX_BANK = `<?xml version="1.0"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>12345-6</ACCTID></BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20260101</DTSTART><DTEND>20260131</DTEND>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260105</DTPOSTED><TRNAMT>-80,50</TRNAMT><NAME>CONTA DE LUZ</NAME></STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20260106</DTPOSTED><TRNAMT>3000.00</TRNAMT><NAME>SALARIO</NAME></STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const pick = (rows, ...fields) => rows.map(row => Object.fromEntries(fields.map(f => [f, row[f]])));
+
+describe('NubankParser', () => {
+  const parser = getParser('nubank');
+
+  it('reads dot-decimal amounts, installments in the title and refunds', () => {
+    const { rows, billingMonth } = parser.parse(NUBANK);
+    expect(pick(rows, 'purchase_date', 'description', 'installment', 'value_brl', 'is_refund')).toEqual([
+      { purchase_date: '2026-01-15', description: 'Mercado Livre', installment: '03/10', value_brl: 89.9, is_refund: 0 },
+      { purchase_date: '2026-01-18', description: 'Padaria Estrela', installment: null, value_brl: 12.5, is_refund: 0 },
+      { purchase_date: '2026-01-22', description: 'Estorno Loja X', installment: null, value_brl: -30, is_refund: 1 },
+    ]);
+    expect(billingMonth).toBeNull();
+    expect(parser.parseBillingMonth('Nubank_2026-02-10.csv')).toBe('2026-02');
+  });
+});
+
+describe('ItauParser', () => {
+  it('reads comma-decimal amounts and skips payments', () => {
+    const { rows } = getParser('itau').parse(ITAU);
+    expect(pick(rows, 'purchase_date', 'description', 'installment_number', 'installment_total', 'value_brl')).toEqual([
+      { purchase_date: '2026-01-15', description: 'LOJA X', installment_number: 3, installment_total: 10, value_brl: 1234.56 },
+      { purchase_date: '2026-01-17', description: 'FARMACIA BOA', installment_number: null, installment_total: null, value_brl: 45.9 },
+    ]);
+  });
+});
+
+describe('BradescoParser', () => {
+  const parser = getParser('bradesco');
+
+  it('fills the year from the due date, one card per section', () => {
+    const { rows, billingMonth } = parser.parse(BRADESCO);
+    expect(billingMonth).toBe('2026-02');
+    expect(pick(rows, 'purchase_date', 'card_holder', 'card_last_four', 'description', 'value_usd', 'value_brl')).toEqual([
+      { purchase_date: '2026-01-15', card_holder: 'FULANO DE TAL', card_last_four: '4567', description: 'SUPERMERCADO X', value_usd: 0, value_brl: 123.45 },
+      { purchase_date: '2025-12-20', card_holder: 'FULANO DE TAL', card_last_four: '4567', description: 'LOJA NATAL', value_usd: 0, value_brl: 80 },
+      { purchase_date: '2026-02-03', card_holder: 'BELTRANA DE TAL', card_last_four: '8901', description: 'APP STREAMING', value_usd: 9.99, value_brl: 55.2 },
+    ]);
+  });
+
+  it('leaves the billing month to the filename without a due date', () => {
+    const { rows, billingMonth } = parser.parse('FULANO ;;; 4567\nData;Histórico;Valor(US$);Valor(R$);\n15/01/2026;LOJA;0,00;10,00;\n');
+    expect(rows[0].purchase_date).toBe('2026-01-15');
+    expect(billingMonth).toBeNull();
+    expect(parser.parseBillingMonth('fatura_2026-03.csv')).toBe('2026-03');
+  });
+});
+
+describe('BBParser', () => {
+  it('reads quoted cells and the card from the preamble', () => {
+    const { rows } = getParser('bb').parse(BB);
+    expect(pick(rows, 'purchase_date', 'card_last_four', 'description', 'installment', 'value_brl')).toEqual([
+      { purchase_date: '2026-01-05', card_last_four: '4321', description: 'RESTAURANTE SABOR', installment: null, value_brl: 78 },
+      { purchase_date: '2026-01-06', card_last_four: '4321', description: 'LOJA Y', installment: '02/05', value_brl: 150 },
+    ]);
+  });
+});
+
+describe('SantanderParser', () => {
+  it('reads the installment column and one card per section', () => {
+    const { rows } = getParser('santander').parse(SANTANDER);
+    expect(pick(rows, 'card_holder', 'card_last_four', 'description', 'installment', 'value_brl')).toEqual([
+      { card_holder: 'FULANO DE TAL', card_last_four: '1234', description: 'POSTO COMBUSTIVEL', installment: null, value_brl: 200 },
+      { card_holder: 'FULANO DE TAL', card_last_four: '1234', description: 'ELETRO LOJA', installment: '02/12', value_brl: 99.9 },
+      { card_holder: 'BELTRANA', card_last_four: '5678', description: 'LIVRARIA', installment: null, value_brl: 60 },
+    ]);
+  });
+});
+
+describe('OFXParser', () => {
+  const parser = getParser('ofx');
+
+  it('credit card (SGML): charges become expenses, credits refunds, month from <DTEND>', () => {
+    const { rows, billingMonth } = parser.parse(OFX_CARD);
+    expect(billingMonth).toBe('2026-02');
+    expect(pick(rows, 'purchase_date', 'card_last_four', 'description', 'value_brl', 'is_refund')).toEqual([
+      { purchase_date: '2026-01-12', card_last_four: '9876', description: 'LOJA A & B', value_brl: 150, is_refund: 0 },
+      { purchase_date: '2026-01-15', card_last_four: '9876', description: 'ESTORNO', value_brl: -25, is_refund: 1 },
+    ]);
+  });
+
+  it('bank account (XML): only debits, no billing month', () => {
+    const { rows, billingMonth } = parser.parse(OFX_BANK);
+    expect(billingMonth).toBeNull();
+    expect(pick(rows, 'purchase_date', 'card_last_four', 'description', 'value_brl')).toEqual([
+      { purchase_date: '2026-01-05', card_last_four: null, description: 'CONTA DE LUZ', value_brl: 80.5 },
+    ]);
+  });
+
+  it('rejects files without <OFX>', () => {
+    expect(() => parser.parse('date,title,amount')).toThrow('tag <OFX> não encontrada');
+  });
+});
+
+describe('InvoicePDFParser', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const geminiResponse = (invoice) => new Response(JSON.stringify({
+    candidates: [{ content: { parts: [{ text: JSON.stringify(invoice) }] } }],
+  }), { status: 200 });
+
+  it('returns each upload its own billing month, even when concurrent', async () => {
+    let release;
+    const firstDone = new Promise(resolve => { release = resolve; });
+    vi.stubGlobal('fetch', vi.fn()
+      .mockImplementationOnce(async () => {
+        await firstDone;
+        return geminiResponse({ card_holder: 'FULANO', card_last_four: '1111', billing_month: '2026-01', transactions: [
+          { purchase_date: '2025-12-20', description: 'LOJA X 02/04', value_brl: 50 },
+        ] });
+      })
+      .mockImplementationOnce(async () => geminiResponse({ billing_month: '2026-02', transactions: [
+        { purchase_date: '2026-01-10', description: 'MERCADO', value_brl: 20, installment: '01/02', is_refund: false },
+      ] })));
+
+    const parser = getParser('cef', { pdf: true });
+    const first = parser.parse(Buffer.from('%PDF-1.4 a'), 'key');
+    const second = await parser.parse(Buffer.from('%PDF-1.4 b'), 'key');
+    release();
+
+    expect(second.billingMonth).toBe('2026-02');
+    expect(pick(second.rows, 'description', 'installment', 'card_holder')).toEqual([
+      { description: 'MERCADO', installment: '01/02', card_holder: null },
+    ]);
+    const { rows, billingMonth } = await first;
+    expect(billingMonth).toBe('2026-01');
+    expect(pick(rows, 'description', 'installment', 'card_last_four')).toEqual([
+      { description: 'LOJA X', installment: '02/04', card_last_four: '1111' },
+    ]);
+  });
+
+  it('requires the Gemini key', async () => {
+    await expect(getParser('itau', { pdf: true }).parse(Buffer.from('%PDF'), '')).rejects.toThrow('API key Gemini necessária');
+  });
+});
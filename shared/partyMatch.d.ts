@@ -0,0 +1,19 @@
+/**
+ * @file partyMatch.d.ts
+ * @description Tipos de partyMatch.js (comparação de partes, servidor e cliente)
+ * @version 1.53.54
+ */
+
+/** Chave de comparação de uma parte; cnpjRoot = raiz do CNPJ (8 dígitos) */
+export interface NormalizedParty {
+  key: string;
+  tokens: Set<string>;
+  cnpjRoot: string | null;
+}
+
+/** Dice mínimo entre nomes */
+export declare const NAME_THRESHOLD: number;
+
+export declare function normalizeParty(name: string | null | undefined): NormalizedParty;
+
+export declare function partiesMatch(a: NormalizedParty, b: NormalizedParty): boolean;
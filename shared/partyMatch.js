@@ -0,0 +1,86 @@
+/**
+ * @file partyMatch.js
+ * @description Comparação aproximada de nomes de partes (reclamadas).
+ * @version 1.53.54
+ *
+ * Módulo em JS puro, compartilhado entre o servidor (PartyIndexService —
+ * antecedentes da reclamada) e o cliente (estatísticas da vara), para que a
+ * mesma reclamada seja "recorrente" nas duas telas.
+ *
+ * v1.53.54: movido de src/utils para shared/ (código dos dois lados; o servidor
+ * não importa de src/). Tipos em partyMatch.d.ts.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Dice mínimo entre nomes (erros de digitação/OCR, "Cia." vs "Companhia") */
+export const NAME_THRESHOLD = 0.85;
+
+/** Sufixos societários e conectivos que não distinguem a empresa */
+const IGNORED_TOKENS = new Set([
+  'LTDA', 'SA', 'ME', 'EPP', 'EIRELI', 'SS', 'SLU', 'CIA', 'COMPANHIA', 'MEI',
+  'DE', 'DA', 'DO', 'DAS', 'DOS', 'E', 'EM', 'RECUPERACAO', 'JUDICIAL', 'CNPJ', 'CPF', 'MF',
+]);
+
+const CNPJ_REGEX = /\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}/;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NORMALIZAÇÃO E COMPARAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chave de comparação de uma parte. cnpjRoot = 8 primeiros dígitos do CNPJ
+ * (matriz e filiais são a mesma empresa).
+ * @param {string | null | undefined} name
+ * @returns {{ key: string, tokens: Set<string>, cnpjRoot: string | null }}
+ */
+export function normalizeParty(name) {
+  const text = String(name || '');
+  const cnpj = text.match(CNPJ_REGEX);
+  const tokens = text
+    .replace(CNPJ_REGEX, ' ')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[./]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter(t => t && !IGNORED_TOKENS.has(t) && !/^\d+$/.test(t));
+  return {
+    key: tokens.join(' '),
+    tokens: new Set(tokens),
+    cnpjRoot: cnpj ? cnpj[0].replace(/\D/g, '').slice(0, 8) : null,
+  };
+}
+
+const bigrams = (text) => {
+  const result = new Set();
+  for (let i = 0; i < text.length - 1; i++) result.add(text.slice(i, i + 2));
+  return result;
+};
+
+const dice = (a, b) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Mesma parte: CNPJ decide quando os dois lados têm; senão nome igual,
+ * nome contido no outro (mín. 2 palavras) ou grafia muito parecida.
+ * @param {ReturnType<typeof normalizeParty>} a
+ * @param {ReturnType<typeof normalizeParty>} b
+ * @returns {boolean}
+ */
+export function partiesMatch(a, b) {
+  if (a.cnpjRoot && b.cnpjRoot) return a.cnpjRoot === b.cnpjRoot;
+  if (!a.key || !b.key) return false;
+  if (a.key === b.key) return true;
+
+  const [small, large] = a.tokens.size <= b.tokens.size ? [a.tokens, b.tokens] : [b.tokens, a.tokens];
+  if (small.size >= 2 && [...small].every(t => large.has(t))) return true;
+
+  return dice(bigrams(a.key), bigrams(b.key)) >= NAME_THRESHOLD;
+}
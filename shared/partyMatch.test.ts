@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeParty, partiesMatch } from './partyMatch';
+
+const match = (a: string, b: string) => partiesMatch(normalizeParty(a), normalizeParty(b));
+
+describe('normalizeParty', () => {
+  it('drops accents, punctuation and corporate suffixes', () => {
+    expect(normalizeParty('Construtora Águia S.A.').key).toBe('CONSTRUTORA AGUIA');
+    expect(normalizeParty('ALFA S/A').key).toBe('ALFA');
+    expect(normalizeParty('Beta Comércio de Alimentos Ltda - ME').key).toBe('BETA COMERCIO ALIMENTOS');
+    expect(normalizeParty('Gama Cia. (em recuperação judicial)').key).toBe('GAMA');
+  });
+
+  it('extracts the CNPJ root and keeps it out of the name', () => {
+    const party = normalizeParty('Delta Ltda, CNPJ 12.345.678/0001-90');
+    expect(party.cnpjRoot).toBe('12345678');
+    expect(party.key).toBe('DELTA');
+    expect(normalizeParty('Delta Ltda 12345678000190').cnpjRoot).toBe('12345678');
+    expect(normalizeParty('Delta Ltda').cnpjRoot).toBeNull();
+  });
+
+  it('handles empty input', () => {
+    expect(normalizeParty('')).toEqual({ key: '', tokens: new Set(), cnpjRoot: null });
+    expect(normalizeParty(null).key).toBe('');
+  });
+});
+
+describe('partiesMatch', () => {
+  it('treats head office and branches as the same company', () => {
+    expect(match('Alfa S.A. 12.345.678/0001-90', 'Alfa Filial 12.345.678/0002-71')).toBe(true);
+  });
+
+  it('lets the CNPJ decide when both sides have one', () => {
+    expect(match('Alfa S.A. 12.345.678/0001-90', 'Alfa S.A. 98.765.432/0001-10')).toBe(false);
+  });
+
+  it('falls back to the name when only one side has a CNPJ', () => {
+    expect(match('Alfa S.A. 12.345.678/0001-90', 'ALFA S/A')).toBe(true);
+    expect(match('Alfa S.A. 12.345.678/0001-90', 'Beta Ltda')).toBe(false);
+  });
+
+  it('ignores corporate suffixes', () => {
+    expect(match('Alfa Ltda', 'ALFA S.A.')).toBe(true);
+    expect(match('Beta Serviços EIRELI', 'Beta Servicos ME')).toBe(true);
+  });
+
+  it('accepts containment only when the shorter name has two or more words', () => {
+    expect(match('Rodobens Caminhões', 'Rodobens Caminhões Pará Comércio')).toBe(true);
+    expect(match('Alfa', 'Alfa Beta Transportes')).toBe(false);
+  });
+
+  it('matches close spellings above the Dice threshold', () => {
+    expect(match('Rodobens Caminhoes Cirasa', 'RODOBEMS CAMINHOES CIRASA')).toBe(true);
+    expect(match('Beta Transportes', 'Gama Transportes')).toBe(false);
+  });
+
+  it('never matches empty names', () => {
+    expect(match('S.A.', 'Ltda')).toBe(false);
+  });
+});
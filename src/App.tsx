@@ -27,6 +27,7 @@ import LoginMagicModal from './components/LoginMagicModal';
 import { useUIStore } from './stores/useUIStore';
 import { useTopicsStore } from './stores/useTopicsStore';
 import { useModelsStore } from './stores/useModelsStore';
+import { useLiquidacaoStore } from './stores/useLiquidacaoStore';
 // v1.40.05: Novas stores para editor e regeneração
 import { useEditorStore } from './stores/useEditorStore';
 // useRegenerationStore disponível para componentes que precisam de estado de regeneração
@@ -746,6 +747,11 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
   // v1.12.28: Ref para snapshot atualizado (evita stale closure no auto-save)
   const currentSessionSnapshotRef = React.useRef<SessionState | null>(null);
 
+  // v1.53.54: Estimativa de liquidação também vai para a sessão
+  const liquidacaoParams = useLiquidacaoStore((s) => s.params);
+  const liquidacaoResultado = useLiquidacaoStore((s) => s.resultado);
+  const liquidacaoAnexar = useLiquidacaoStore((s) => s.anexarAoDispositivo);
+
   // Helper: marcar sessão como dirty (needs save)
   const markSessionDirty = React.useCallback(() => {
     useUIStore.getState().setAutoSaveDirty(true);
@@ -1301,6 +1307,7 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
     confirmSaveAsNew,
     startEditingModel,
     duplicateModel,
+    applyRestoredRevision,
   } = modelEditing;
 
   // ⚡ EFFECTS
@@ -1442,6 +1449,9 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
     partesProcesso?.reclamante || '',
     partesProcesso?.reclamadas || '',
     aiIntegration.tokenMetrics.requestCount,  // v1.22.01: Persistir tokens ao contabilizar
+    liquidacaoParams,
+    liquidacaoResultado,
+    liquidacaoAnexar,
     markSessionDirty
   ]);
 
@@ -1479,7 +1489,9 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
       proofAnalysisResults: proofManager.proofAnalysisResults,
       proofConclusions: proofManager.proofConclusions,
       // v1.20.3: Contador de tokens persistente
-      tokenMetrics: aiIntegration.tokenMetrics
+      tokenMetrics: aiIntegration.tokenMetrics,
+      // v1.53.54: Estimativa de liquidação
+      liquidacao: { params: liquidacaoParams, resultado: liquidacaoResultado, anexarAoDispositivo: liquidacaoAnexar }
     };
   });
 
@@ -2133,6 +2145,7 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
     handleAnonymizationConfirm,
     handleCurationConfirm,
     handleCurationCancel,
+    handleImportFromAnalisador,
     setShowAnonymizationModal,
   } = documentAnalysis;
 
@@ -2419,14 +2432,16 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
   // ═══════════════════════════════════════════════════════════════════════════════
   // v1.37.26: useDecisionExport - Hook extraído para exportação da decisão
   // ═══════════════════════════════════════════════════════════════════════════════
-  const { exportDecision } = useDecisionExport({
+  const { exportDecision, exportDecisionDocx, exportDecisionPdf } = useDecisionExport({
     selectedTopics,
     setError,
     openModal: openModal as (modalId: string) => void,
     setExportedText,
     setExportedHtml,
     setCopySuccess,
-    copyTimeoutRef
+    copyTimeoutRef,
+    processoNumero,
+    partesProcesso
   });
 
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -2749,6 +2764,7 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
                 handleUploadComplementary={handleUploadComplementary}
                 removePeticaoFile={removePeticaoFile}
                 handleAnalyzeDocuments={handleAnalyzeDocuments}
+                onOpenAnalisadorImport={cloudSync?.isAuthenticated ? () => openModal('importAnalisador') : undefined}
                 aiIntegration={aiIntegration}
                 documentServices={documentServices}
               />
@@ -3077,7 +3093,9 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
                   ? (aiIntegration.aiSettings?.deepseekModel || 'deepseek-v4-flash')
                   : aiIntegration.aiSettings?.provider === 'claude-cli'
                     ? (aiIntegration.aiSettings?.claudeCliModel || 'claude-sonnet-4-6')
-                    : (aiIntegration.aiSettings?.claudeModel || 'claude-sonnet-4-20250514')
+                    : aiIntegration.aiSettings?.provider === 'local-llm'
+                      ? (aiIntegration.aiSettings?.localLlmModel || '')
+                      : (aiIntegration.aiSettings?.claudeModel || 'claude-sonnet-4-20250514')
         }
         parallelRequests={aiIntegration.aiSettings?.parallelRequests || 5}
         isDarkMode={appTheme === 'dark'}
@@ -3352,6 +3370,8 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
         onToggleFavorite={toggleFavorite}
         // v1.15.3: Prop para "Salvar como Novo Modelo"
         onOpenSaveAsNew={modelPreview.openSaveAsNew}
+        // v1.53.44: Histórico de revisões (só com conta na nuvem)
+        onRevisionRestored={cloudSync?.user ? applyRestoredRevision : undefined}
       />
 
       {/* v1.15.3: Slash Command Menu - Acesso rápido a modelos com / */}
@@ -3377,6 +3397,8 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
       <ModalRoot
         exportedText={exportedText}
         exportedHtml={exportedHtml}
+        onExportDocx={exportDecisionDocx}
+        onExportPdf={exportDecisionPdf}
         onBulkDiscard={() => {
           closeModal('bulkDiscardConfirm');
           closeModal('bulkModal');
@@ -3408,6 +3430,14 @@ const LegalDecisionEditor = ({ onLogout, cloudSync, receivedModels, activeShared
         onSelectProvaOralAnalysis={handleSelectProvaOralAnalysis}
         onImportProvaOral={handleImportProvaOral}
         isImportingProvaOral={isImportingProvaOral}
+        // v1.53.41: Sessões sincronizadas (E2E)
+        onBuildSessionPayload={cloudSync?.isAuthenticated ? googleDriveActions.buildSessionPayload : undefined}
+        onImportSessionPayload={googleDriveActions.importSessionPayload}
+        // v1.53.43: Gabinetes com papéis
+        workspaceUserEmail={cloudSync?.isAuthenticated ? cloudSync.user?.email : undefined}
+        onWorkspaceLibraryChanged={() => { cloudSync?.pull(); }}
+        // v1.53.49: Projeto a partir do Analisador de Prepauta
+        onImportAnalisador={cloudSync?.isAuthenticated ? handleImportFromAnalisador : undefined}
       />
 
       {/* v1.4.6: Removido Mini-toolbar flutuante (76 linhas) */}
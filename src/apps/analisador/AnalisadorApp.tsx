@@ -5,7 +5,7 @@
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
-import { History, Settings, LogOut, FileSearch, ArrowLeft, Sun, Moon, LayoutGrid, Upload } from 'lucide-react';
+import { History, Settings, LogOut, FileSearch, ArrowLeft, Sun, Moon, LayoutGrid, Upload, CalendarDays, BarChart3 } from 'lucide-react';
 import { AppSwitcher } from '../../components/shared/AppSwitcher';
 
 // Auth
@@ -26,6 +26,12 @@ import { SettingsModal } from './components/settings';
 // Import (v1.43.38)
 import { ImportAnalysisModal } from './components/import';
 
+// Pauta (v1.53.50)
+import { PautaCalendarModal } from './components/pauta';
+
+// Estatísticas (v1.53.52)
+import { EstatisticasModal } from './components/estatisticas';
+
 // UI
 import { Button, ToastProvider, useToast } from './components/ui';
 
@@ -61,6 +67,8 @@ function formatBadgeCount(n: number): string {
 const AnalisadorContent: React.FC = () => {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
+  const [pautaOpen, setPautaOpen] = useState(false);
+  const [estatisticasOpen, setEstatisticasOpen] = useState(false);
   const [cameFromHistorico, setCameFromHistorico] = useState(false);
   const { showToast } = useToast();
   const { appTheme, toggleAppTheme } = useThemeManagement();
@@ -113,6 +121,22 @@ const AnalisadorContent: React.FC = () => {
     setImportOpen(false);
   }, []);
 
+  const handleOpenPauta = useCallback(() => {
+    setPautaOpen(true);
+  }, []);
+
+  const handleClosePauta = useCallback(() => {
+    setPautaOpen(false);
+  }, []);
+
+  const handleOpenEstatisticas = useCallback(() => {
+    setEstatisticasOpen(true);
+  }, []);
+
+  const handleCloseEstatisticas = useCallback(() => {
+    setEstatisticasOpen(false);
+  }, []);
+
   const handleSelectAnalysis = useCallback(
     (analysis: SavedAnalysis) => {
       setResult(analysis.resultado);
@@ -129,6 +153,15 @@ const AnalisadorContent: React.FC = () => {
     [setResult, setAnalysisContext, setSavedAnalysisId, setFileNames, setSintese]
   );
 
+  // Antecedente aberto a partir dos resultados: volta ao topo do novo processo
+  const handleOpenAntecedente = useCallback(
+    (analysis: SavedAnalysis) => {
+      handleSelectAnalysis(analysis);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    },
+    [handleSelectAnalysis]
+  );
+
   const handleVoltar = useCallback(() => {
     resetResult();
     clearAnalysisContext();
@@ -194,7 +227,7 @@ const AnalisadorContent: React.FC = () => {
                 Voltar
               </Button>
             </div>
-            <ResultsContainer />
+            <ResultsContainer onOpenAnalysis={handleOpenAntecedente} />
           </>
         ) : (
           <>
@@ -211,7 +244,7 @@ const AnalisadorContent: React.FC = () => {
               </p>
             </div>
 
-            {/* Botões Histórico + Importar */}
+            {/* Botões Histórico + Pauta + Estatísticas + Importar */}
             <div className="flex items-center justify-center gap-3 mb-8">
               <Button
                 variant="secondary"
@@ -229,6 +262,22 @@ const AnalisadorContent: React.FC = () => {
                   </span>
                 )}
               </Button>
+              <Button
+                variant="secondary"
+                onClick={handleOpenPauta}
+                icon={<CalendarDays className="w-4 h-4" />}
+                title="Calendário da pauta com exportação .ics"
+              >
+                Pauta
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleOpenEstatisticas}
+                icon={<BarChart3 className="w-4 h-4" />}
+                title="Temas, acordos por reclamada e valores por rito"
+              >
+                Estatísticas
+              </Button>
               <Button
                 variant="secondary"
                 onClick={handleOpenImport}
@@ -249,6 +298,8 @@ const AnalisadorContent: React.FC = () => {
       <SettingsModal isOpen={settingsOpen} onClose={handleCloseSettings} />
       <HistoricoModal onSelectAnalysis={handleSelectAnalysis} />
       <ImportAnalysisModal isOpen={importOpen} onClose={handleCloseImport} />
+      <PautaCalendarModal isOpen={pautaOpen} onClose={handleClosePauta} onSelectAnalysis={handleSelectAnalysis} />
+      <EstatisticasModal isOpen={estatisticasOpen} onClose={handleCloseEstatisticas} />
       <ManualCallModal />
     </div>
   );
@@ -0,0 +1,202 @@
+/**
+ * @file BatchJobsPanel.tsx
+ * @description Lotes processados no servidor: progresso por processo, cancelar,
+ * retomar (após reinício do servidor, interrupção por chave/orçamento ou para
+ * repetir erros) e remover
+ * @version 1.53.51
+ */
+
+import React, { useState } from 'react';
+import {
+  Server,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  Clock,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw,
+  Ban,
+  Trash2,
+} from 'lucide-react';
+import { ProgressBar } from '../ui';
+import type { AnalysisJob, AnalysisJobItem, AnalysisJobStatus } from '../../types/analysis.types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STATUS_LABELS: Record<AnalysisJobStatus, string> = {
+  recebendo: 'Envio interrompido',
+  na_fila: 'Na fila',
+  processando: 'Processando',
+  aguardando_chave: 'Aguardando chave de API',
+  interrompido: 'Interrompido',
+  concluido: 'Concluído',
+  cancelado: 'Cancelado',
+};
+
+const STATUS_COLORS: Record<AnalysisJobStatus, string> = {
+  recebendo: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  na_fila: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  processando: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300',
+  aguardando_chave: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  interrompido: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  concluido: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  cancelado: 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400',
+};
+
+const formatDateTime = (value: string): string => {
+  // SQLite datetime('now') vem sem fuso (UTC)
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return date.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUBCOMPONENTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const ItemStatusIcon: React.FC<{ status: AnalysisJobItem['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'processando':
+      return <Loader2 className="w-4 h-4 text-indigo-500 animate-spin flex-shrink-0" />;
+    case 'concluido':
+      return <CheckCircle className="w-4 h-4 text-emerald-500 flex-shrink-0" />;
+    case 'erro':
+      return <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />;
+    case 'cancelado':
+      return <Ban className="w-4 h-4 text-slate-400 flex-shrink-0" />;
+    default:
+      return <Clock className="w-4 h-4 text-slate-400 flex-shrink-0" />;
+  }
+};
+
+interface JobCardProps {
+  job: AnalysisJob;
+  onCancel: (job: AnalysisJob) => void;
+  onResume: (job: AnalysisJob) => void;
+  onDelete: (job: AnalysisJob) => void;
+}
+
+const JobCard: React.FC<JobCardProps> = ({ job, onCancel, onResume, onDelete }) => {
+  const [expanded, setExpanded] = useState(job.status === 'processando');
+  const finished = job.concluidos + job.erros;
+  const isActive = job.status === 'na_fila' || job.status === 'processando';
+  const canResume = job.status === 'aguardando_chave'
+    || job.status === 'interrompido'
+    || (job.status === 'concluido' && job.erros > 0);
+
+  return (
+    <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 min-w-0 text-left"
+          aria-expanded={expanded}
+        >
+          {expanded
+            ? <ChevronDown className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            : <ChevronRight className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+          <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
+            Lote de {formatDateTime(job.createdAt)}
+          </span>
+          <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${STATUS_COLORS[job.status]}`}>
+            {STATUS_LABELS[job.status]}
+          </span>
+        </button>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {canResume && (
+            <button
+              onClick={() => onResume(job)}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+              title={job.status === 'concluido' ? 'Reprocessar processos com erro' : 'Retomar lote'}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+          {isActive ? (
+            <button
+              onClick={() => onCancel(job)}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30"
+              title="Cancelar processos pendentes"
+            >
+              <Ban className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => onDelete(job)}
+              className="p-1.5 rounded-lg text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30"
+              title="Remover da lista (as análises salvas permanecem)"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ProgressBar
+        className="mt-3"
+        progress={job.total > 0 ? (finished / job.total) * 100 : 0}
+        message={`${job.concluidos} de ${job.total} analisado${job.total !== 1 ? 's' : ''}${job.erros > 0 ? ` · ${job.erros} com erro` : ''}`}
+      />
+
+      {job.status === 'interrompido' && job.error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+          {job.error} — corrija a chave ou o limite e retome o lote.
+        </p>
+      )}
+
+      {expanded && (
+        <ul className="mt-3 space-y-1.5">
+          {job.items.map((item) => (
+            <li key={item.id} className="flex items-start gap-2 min-w-0">
+              <ItemStatusIcon status={item.status} />
+              <div className="min-w-0 flex-1">
+                <span className="text-sm font-mono text-slate-700 dark:text-slate-200">
+                  {item.numeroProcesso || item.nomeArquivoPeticao || `Processo ${item.position + 1}`}
+                </span>
+                {item.status === 'processando' && item.attempts > 1 && (
+                  <span className="ml-2 text-xs text-slate-500">tentativa {item.attempts}</span>
+                )}
+                {item.error && (
+                  <p className="text-xs text-red-500 truncate" title={item.error}>{item.error}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE PRINCIPAL
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface BatchJobsPanelProps {
+  jobs: AnalysisJob[];
+  onCancel: (job: AnalysisJob) => void;
+  onResume: (job: AnalysisJob) => void;
+  onDelete: (job: AnalysisJob) => void;
+}
+
+export const BatchJobsPanel: React.FC<BatchJobsPanelProps> = ({ jobs, onCancel, onResume, onDelete }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Server className="w-4 h-4 text-indigo-500" />
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+          Lotes no servidor
+        </span>
+      </div>
+      {jobs.map((job) => (
+        <JobCard key={job.id} job={job} onCancel={onCancel} onResume={onResume} onDelete={onDelete} />
+      ))}
+    </div>
+  );
+};
+
+export default BatchJobsPanel;
@@ -2,9 +2,10 @@
  * @file BatchMode.tsx
  * @description Componente de processamento em lote de PDFs com agrupamento por processo
  * @version 1.39.0 - Redesign com process cards
+ * @version 1.53.51 - Processamento no servidor (fila persistente, ver BatchJobsPanel)
  */
 
-import React, { useCallback, useState, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import {
   Upload,
   FileText,
@@ -14,14 +15,17 @@ import {
   Loader2,
   Scale,
   X,
+  Server,
 } from 'lucide-react';
 import { useAnalysesStore, useAIStore } from '../../stores';
-import { useAnalysesAPI } from '../../hooks';
-import { useAnalysis } from '../../hooks';
+import { useAnalysesAPI, useAnalysisJobs, useAIIntegration } from '../../hooks';
+import { useAnalysis, buildBatchAnalysisMessages, BATCH_ANALYSIS_OPTIONS, type BatchBinaryDocs } from '../../hooks/useAnalysis';
+import type { ServerStreamProvider } from '../../hooks/useAIIntegration';
 import { extractPdfMetadata, type PDFMetadataResult } from '../../services/pdfService';
-import { providerSupportsPdfBinary } from '../../constants';
+import { providerSupportsPdfBinary, providerSupportsServerJobs } from '../../constants';
 import { ProgressBar, useToast } from '../ui';
-import type { BatchFile, BatchPair } from '../../types/analysis.types';
+import { BatchJobsPanel } from './BatchJobsPanel';
+import type { AnalysisJob, BatchFile, BatchPair } from '../../types/analysis.types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -34,6 +38,14 @@ interface ProcessGroup {
   contestacoes: BatchFile[];
 }
 
+/** Textos e anexos de um processo, prontos para o prompt */
+interface PreparedPair {
+  peticaoText: string;
+  contestacoes: string[] | null;
+  emendasTexts: string[];
+  binaryDocs?: BatchBinaryDocs;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // HELPERS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -331,8 +343,24 @@ export const BatchMode: React.FC = () => {
   // Hooks
   const { createAnalysis, fetchAnalyses } = useAnalysesAPI();
   const { analyzeWithAI } = useAnalysis();
+  const { buildStreamRequest } = useAIIntegration();
+  const { jobs, createJob, addJobItem, startJob, resumeJob, cancelJob, deleteJob } = useAnalysisJobs();
   const provider = useAIStore((s) => s.aiSettings.provider);
+  const apiKeys = useAIStore((s) => s.aiSettings.apiKeys);
   const canBinary = providerSupportsPdfBinary(provider);
+  const canRunOnServer = providerSupportsServerJobs(provider);
+  const [runOnServer, setRunOnServer] = useState(true);
+  const useServer = canRunOnServer && runOnServer;
+
+  // Análises salvas pelo servidor entram no histórico conforme os lotes avançam
+  const jobsConcluidos = jobs.reduce((acc, j) => acc + j.concluidos, 0);
+  const lastConcluidosRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (lastConcluidosRef.current !== null && jobsConcluidos > lastConcluidosRef.current) {
+      fetchAnalyses();
+    }
+    lastConcluidosRef.current = jobsConcluidos;
+  }, [jobsConcluidos, fetchAnalyses]);
 
   // ═══════════════════════════════════════════════════════════════════════════
   // COMPUTED: Agrupar arquivos por número de processo
@@ -506,6 +534,64 @@ export const BatchMode: React.FC = () => {
     clearBatchFiles();
   }, [clearBatchFiles]);
 
+  /**
+   * Extrai texto (e base64, se marcado como PDF) dos arquivos de um processo.
+   * Aceita PDF escaneado se o provider suporta binário.
+   */
+  const preparePair = useCallback(async (pair: BatchPair): Promise<PreparedPair> => {
+    const { peticao, emendas, contestacoes } = pair;
+
+    // Extract metadata (texto + base64) — aceita PDF escaneado se provider suporta binário
+    const validateOrThrow = (meta: { hasUsableText: boolean }, file: File, useBinary: boolean) => {
+      if (!meta.hasUsableText && !(canBinary && useBinary)) {
+        throw new Error(
+          `Não foi possível extrair texto suficiente de "${file.name}" (PDF possivelmente escaneado). ` +
+          `Marque este arquivo como "PDF" e use Claude ou Gemini.`
+        );
+      }
+    };
+
+    const peticaoMeta = await extractPdfMetadata(peticao.file);
+    validateOrThrow(peticaoMeta, peticao.file, !!peticao.useBinary);
+
+    const emendasMetas: PDFMetadataResult[] = [];
+    const emendasTexts: string[] = [];
+    for (const emenda of emendas) {
+      const meta = await extractPdfMetadata(emenda.file);
+      validateOrThrow(meta, emenda.file, !!emenda.useBinary);
+      emendasMetas.push(meta);
+      emendasTexts.push(meta.text);
+    }
+
+    const contestacoesMetas: PDFMetadataResult[] = [];
+    const contestacoesTexts: string[] = [];
+    for (const contestacao of contestacoes) {
+      const meta = await extractPdfMetadata(contestacao.file);
+      validateOrThrow(meta, contestacao.file, !!contestacao.useBinary);
+      contestacoesMetas.push(meta);
+      contestacoesTexts.push(meta.text);
+    }
+
+    // Passa array de contestações direto — buildAnalysisPrompt sabe formatar por nome.
+    // Cada doc vai como texto OU placeholder (quando binary), conforme binaryDocs.
+    const contestacoesArray: string[] | null = contestacoesTexts.length > 0 ? contestacoesTexts : null;
+
+    const binaryDocs = canBinary ? {
+      peticao: peticao.useBinary ? { base64: peticaoMeta.base64, name: peticao.file.name } : null,
+      emendas: emendas.map((e, i) => e.useBinary ? { base64: emendasMetas[i].base64, name: e.file.name } : null),
+      contestacoes: contestacoes.map((c, i) => c.useBinary ? { base64: contestacoesMetas[i].base64, name: c.file.name } : null),
+      nomeArquivoPeticao: peticao.file.name,
+      nomesArquivosEmendas: emendas.map(e => e.file.name),
+      nomesArquivosContestacoes: contestacoes.map(c => c.file.name)
+    } : undefined;
+    return {
+      peticaoText: peticaoMeta.text,
+      contestacoes: contestacoesArray,
+      emendasTexts,
+      binaryDocs,
+    };
+  }, [canBinary]);
+
   const handleProcess = useCallback(async () => {
     if (pairs.length === 0) return;
 
@@ -525,55 +611,12 @@ export const BatchMode: React.FC = () => {
         emendas.forEach(e => updateBatchFile(e.id, { status: 'processing' }));
         contestacoes.forEach(c => updateBatchFile(c.id, { status: 'processing' }));
 
-        // Extract metadata (texto + base64) — aceita PDF escaneado se provider suporta binário
-        const validateOrThrow = (meta: { hasUsableText: boolean }, file: File, useBinary: boolean) => {
-          if (!meta.hasUsableText && !(canBinary && useBinary)) {
-            throw new Error(
-              `Não foi possível extrair texto suficiente de "${file.name}" (PDF possivelmente escaneado). ` +
-              `Marque este arquivo como "PDF" e use Claude ou Gemini.`
-            );
-          }
-        };
-
-        const peticaoMeta = await extractPdfMetadata(peticao.file);
-        validateOrThrow(peticaoMeta, peticao.file, !!peticao.useBinary);
-
-        const emendasMetas: PDFMetadataResult[] = [];
-        const emendasTexts: string[] = [];
-        for (const emenda of emendas) {
-          const meta = await extractPdfMetadata(emenda.file);
-          validateOrThrow(meta, emenda.file, !!emenda.useBinary);
-          emendasMetas.push(meta);
-          emendasTexts.push(meta.text);
-        }
-
-        const contestacoesMetas: PDFMetadataResult[] = [];
-        const contestacoesTexts: string[] = [];
-        for (const contestacao of contestacoes) {
-          const meta = await extractPdfMetadata(contestacao.file);
-          validateOrThrow(meta, contestacao.file, !!contestacao.useBinary);
-          contestacoesMetas.push(meta);
-          contestacoesTexts.push(meta.text);
-        }
-
-        // Passa array de contestações direto — buildAnalysisPrompt sabe formatar por nome.
-        // Cada doc vai como texto OU placeholder (quando binary), conforme binaryDocs.
-        const contestacoesArray: string[] | null = contestacoesTexts.length > 0 ? contestacoesTexts : null;
-
-        const binaryDocs = canBinary ? {
-          peticao: peticao.useBinary ? { base64: peticaoMeta.base64, name: peticao.file.name } : null,
-          emendas: emendas.map((e, i) => e.useBinary ? { base64: emendasMetas[i].base64, name: e.file.name } : null),
-          contestacoes: contestacoes.map((c, i) => c.useBinary ? { base64: contestacoesMetas[i].base64, name: c.file.name } : null),
-          nomeArquivoPeticao: peticao.file.name,
-          nomesArquivosEmendas: emendas.map(e => e.file.name),
-          nomesArquivosContestacoes: contestacoes.map(c => c.file.name)
-        } : undefined;
-
+        const prepared = await preparePair(pair);
         const analysisResult = await analyzeWithAI(
-          peticaoMeta.text,
-          contestacoesArray,
-          emendasTexts,
-          binaryDocs
+          prepared.peticaoText,
+          prepared.contestacoes,
+          prepared.emendasTexts,
+          prepared.binaryDocs
         );
 
         if (!analysisResult) {
@@ -635,13 +678,124 @@ export const BatchMode: React.FC = () => {
     setBatchProgress,
     updateBatchFile,
     analyzeWithAI,
-    canBinary,
+    preparePair,
     createAnalysis,
     showToast,
     fetchAnalyses,
     clearBatchFiles,
   ]);
 
+  /**
+   * Processamento no servidor: monta aqui a requisição de cada processo (o
+   * PDF só existe no navegador) e envia uma a uma para a fila. Depois do
+   * start as análises são salvas pelo servidor enquanto ele estiver no ar; sem
+   * a chave cifrada no servidor, um reinício pausa o lote até reabrir a página.
+   */
+  const handleSubmitToServer = useCallback(async () => {
+    if (pairs.length === 0) return;
+
+    const apiKey = apiKeys[provider as keyof typeof apiKeys];
+    if (!apiKey) {
+      showToast('error', 'Configure a chave de API antes de processar o lote');
+      return;
+    }
+
+    startBatch(pairs.length);
+    let sent = 0;
+    let errors = 0;
+
+    let jobId: string;
+    try {
+      jobId = await createJob(provider);
+    } catch (err) {
+      setBatchProcessing(false);
+      showToast('error', err instanceof Error ? err.message : 'Erro ao criar lote');
+      return;
+    }
+
+    for (const pair of pairs) {
+      const { peticao, emendas, contestacoes } = pair;
+      const files = [peticao, ...emendas, ...contestacoes];
+      files.forEach(f => updateBatchFile(f.id, { status: 'processing' }));
+
+      try {
+        const prepared = await preparePair(pair);
+        const messages = buildBatchAnalysisMessages(
+          prepared.peticaoText,
+          prepared.contestacoes,
+          prepared.emendasTexts,
+          prepared.binaryDocs,
+          canBinary
+        );
+        const { path, body } = buildStreamRequest(messages, BATCH_ANALYSIS_OPTIONS, provider as ServerStreamProvider);
+
+        await addJobItem(jobId, {
+          numeroProcesso: peticao.numeroProcesso || null,
+          nomeArquivoPeticao: peticao.file.name,
+          nomesArquivosEmendas: emendas.map(e => e.file.name),
+          nomesArquivosContestacoes: contestacoes.map(c => c.file.name),
+          request: { path, body },
+        });
+
+        files.forEach(f => updateBatchFile(f.id, { status: 'success' }));
+        sent++;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Erro desconhecido';
+        files.forEach(f => updateBatchFile(f.id, { status: 'error', error: errorMessage }));
+        errors++;
+      }
+
+      setBatchProgress(sent + errors, pairs.length, sent, errors);
+    }
+
+    try {
+      if (sent === 0) {
+        await deleteJob(jobId);
+        showToast('error', `Falha ao enviar ${errors} processo(s)`);
+        return;
+      }
+      const job = await startJob(jobId, apiKey);
+      showToast(
+        'success',
+        job.chavePersistida
+          ? `${sent} processo(s) enviado(s) ao servidor. A análise continua com a aba fechada e retoma sozinha se o servidor reiniciar.`
+          : `${sent} processo(s) enviado(s) ao servidor. A análise continua com a aba fechada enquanto o servidor estiver no ar; se ele reiniciar, reabra o Analisador para retomar.`
+      );
+      // Arquivos com erro ficam na lista para nova tentativa
+      if (errors === 0) clearBatchFiles();
+    } catch (err) {
+      showToast('error', err instanceof Error ? err.message : 'Erro ao iniciar lote');
+    } finally {
+      setBatchProcessing(false);
+    }
+  }, [
+    pairs,
+    apiKeys,
+    provider,
+    canBinary,
+    startBatch,
+    setBatchProcessing,
+    setBatchProgress,
+    updateBatchFile,
+    preparePair,
+    buildStreamRequest,
+    createJob,
+    addJobItem,
+    startJob,
+    deleteJob,
+    showToast,
+    clearBatchFiles,
+  ]);
+
+  const handleJobAction = useCallback(
+    (action: (job: AnalysisJob) => Promise<unknown>) => (job: AnalysisJob) => {
+      action(job).catch((err) => {
+        showToast('error', err instanceof Error ? err.message : 'Erro ao atualizar lote');
+      });
+    },
+    [showToast]
+  );
+
   // ═══════════════════════════════════════════════════════════════════════════
   // RENDER
   // ═══════════════════════════════════════════════════════════════════════════
@@ -780,7 +934,7 @@ export const BatchMode: React.FC = () => {
         <div className="rounded-xl border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/20 p-4">
           <ProgressBar
             progress={pairs.length > 0 ? ((batch.processedCount + batch.errorCount) / pairs.length) * 100 : 0}
-            message={`Processando ${batch.processedCount + batch.errorCount} de ${pairs.length} processo${pairs.length > 1 ? 's' : ''}...`}
+            message={`${useServer ? 'Enviando' : 'Processando'} ${batch.processedCount + batch.errorCount} de ${pairs.length} processo${pairs.length > 1 ? 's' : ''}...`}
           />
           {batch.errorCount > 0 && (
             <p className="text-sm text-red-600 dark:text-red-400 mt-2">
@@ -792,23 +946,45 @@ export const BatchMode: React.FC = () => {
 
       {/* Action Button */}
       {hasFiles && !batch.isProcessing && (
-        <button
-          onClick={handleProcess}
-          disabled={processGroups.length === 0}
-          aria-disabled={processGroups.length === 0}
-          className={`
-            w-full py-3.5 px-6 rounded-xl font-medium text-white text-sm
-            flex items-center justify-center gap-2 transition-all
-            ${processGroups.length > 0
-              ? 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 shadow-lg shadow-indigo-200 dark:shadow-indigo-900/30 hover:shadow-xl hover:shadow-indigo-300 dark:hover:shadow-indigo-900/40'
-              : 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed'
-            }
-          `}
-        >
-          <Scale className="w-4 h-4" />
-          Processar {processGroups.length} Processo{processGroups.length !== 1 ? 's' : ''}
-        </button>
+        <div className="space-y-2">
+          {canRunOnServer && (
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={runOnServer}
+                onChange={(e) => setRunOnServer(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <Server className="w-4 h-4 text-slate-400" />
+              Processar no servidor (continua com a aba fechada enquanto o servidor estiver no ar)
+            </label>
+          )}
+          <button
+            onClick={useServer ? handleSubmitToServer : handleProcess}
+            disabled={processGroups.length === 0}
+            aria-disabled={processGroups.length === 0}
+            className={`
+              w-full py-3.5 px-6 rounded-xl font-medium text-white text-sm
+              flex items-center justify-center gap-2 transition-all
+              ${processGroups.length > 0
+                ? 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 shadow-lg shadow-indigo-200 dark:shadow-indigo-900/30 hover:shadow-xl hover:shadow-indigo-300 dark:hover:shadow-indigo-900/40'
+                : 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed'
+              }
+            `}
+          >
+            <Scale className="w-4 h-4" />
+            Processar {processGroups.length} Processo{processGroups.length !== 1 ? 's' : ''}
+          </button>
+        </div>
       )}
+
+      {/* Server Jobs */}
+      <BatchJobsPanel
+        jobs={jobs}
+        onCancel={handleJobAction((job) => cancelJob(job.id))}
+        onResume={handleJobAction(resumeJob)}
+        onDelete={handleJobAction((job) => deleteJob(job.id))}
+      />
     </div>
   );
 };
@@ -0,0 +1,275 @@
+/**
+ * @file EstatisticasModal.tsx
+ * @description Estatísticas da vara sobre as análises salvas — temas mais
+ * frequentes, taxa de acordo por reclamada, valor médio da causa por rito e
+ * reclamadas recorrentes, filtradas por período. Apoio à montagem da pauta e
+ * à estratégia de conciliação.
+ * @version 1.53.52
+ */
+
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { Modal } from '../ui';
+import { useAnalysesStore } from '../../stores';
+import { formatCurrency } from '../../utils/format-pedido';
+import { formatDateBR } from '../../utils/format-date';
+import { toDateKey } from '../../utils/pauta';
+import {
+  buildEstatisticas,
+  periodoFromPreset,
+  type Periodo,
+  type PeriodoPreset,
+} from '../../utils/estatisticas';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS E CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface EstatisticasModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PRESETS: { value: PeriodoPreset; label: string }[] = [
+  { value: '30d', label: '30 dias' },
+  { value: '90d', label: '90 dias' },
+  { value: '12m', label: '12 meses' },
+  { value: 'todos', label: 'Tudo' },
+  { value: 'personalizado', label: 'Personalizado' },
+];
+
+const AXIS_TICK = { fill: '#64748b', fontSize: 11 };
+
+const TOOLTIP_STYLE: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.95)',
+  border: '1px solid #e2e8f0',
+  borderRadius: '10px',
+  fontSize: '12px',
+};
+
+/** Rótulos longos (nomes de empresas) cortados no eixo; o tooltip mostra inteiro */
+const truncate = (text: string, max = 28): string => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUBCOMPONENTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const StatCard: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="rounded-xl border border-slate-200 dark:border-slate-700 p-4">
+    <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+    <p className="text-2xl font-semibold text-slate-800 dark:text-slate-100 tabular-nums">{value}</p>
+    {hint && <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{hint}</p>}
+  </div>
+);
+
+const ChartCard: React.FC<{ title: string; isEmpty: boolean; children: React.ReactNode }> = ({
+  title,
+  isEmpty,
+  children,
+}) => (
+  <div className="rounded-xl border border-slate-200 dark:border-slate-700 p-4">
+    <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-100 mb-3">{title}</h3>
+    {isEmpty ? (
+      <div className="h-[240px] flex items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+        Sem dados no período
+      </div>
+    ) : (
+      children
+    )}
+  </div>
+);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const EstatisticasModal: React.FC<EstatisticasModalProps> = ({ isOpen, onClose }) => {
+  const { analyses } = useAnalysesStore();
+  const [preset, setPreset] = useState<PeriodoPreset>('12m');
+  const [custom, setCustom] = useState<Periodo>(() => periodoFromPreset('12m', new Date()));
+
+  const periodo = useMemo(
+    () => (preset === 'personalizado' ? custom : periodoFromPreset(preset, new Date())),
+    [preset, custom]
+  );
+  const stats = useMemo(() => buildEstatisticas(analyses, periodo), [analyses, periodo]);
+
+  const taxaGeral = stats.totalAudiencias > 0 ? Math.round((stats.totalAcordos / stats.totalAudiencias) * 100) : 0;
+  const temasHeight = Math.max(160, stats.temas.length * 28);
+  const acordoHeight = Math.max(160, stats.acordoPorReclamada.length * 28);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Estatísticas da Vara"
+      subtitle={`${stats.totalProcessos} processo${stats.totalProcessos === 1 ? '' : 's'} no período`}
+      icon={<BarChart3 className="w-5 h-5" />}
+      size="full"
+    >
+      {/* Período */}
+      <div className="flex items-center gap-3 flex-wrap mb-4">
+        <div className="flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden text-sm">
+          {PRESETS.map((p) => (
+            <button
+              key={p.value}
+              onClick={() => setPreset(p.value)}
+              className={`px-3 py-1.5 ${
+                preset === p.value
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {preset === 'personalizado' && (
+          <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <input
+              type="date"
+              aria-label="Início do período"
+              value={custom.inicio || ''}
+              max={custom.fim || toDateKey(new Date())}
+              onChange={(e) => setCustom({ ...custom, inicio: e.target.value || null })}
+              className="px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+            <span>até</span>
+            <input
+              type="date"
+              aria-label="Fim do período"
+              value={custom.fim || ''}
+              min={custom.inicio || undefined}
+              onChange={(e) => setCustom({ ...custom, fim: e.target.value || null })}
+              className="px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+            />
+          </div>
+        )}
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Pela data da pauta (ou da análise, se ainda não pautado)
+        </p>
+      </div>
+
+      {/* Totais */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <StatCard label="Processos" value={String(stats.totalProcessos)} />
+        <StatCard label="Audiências realizadas" value={String(stats.totalAudiencias)} hint="com resultado registrado" />
+        <StatCard label="Acordos" value={String(stats.totalAcordos)} />
+        <StatCard label="Taxa de acordo" value={`${taxaGeral}%`} hint="sobre as audiências realizadas" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Temas */}
+        <ChartCard title="Temas de pedido mais frequentes" isEmpty={stats.temas.length === 0}>
+          <ResponsiveContainer width="100%" height={temasHeight}>
+            <BarChart data={stats.temas} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <CartesianGrid horizontal={false} strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis type="number" allowDecimals={false} tick={AXIS_TICK} axisLine={false} tickLine={false} />
+              <YAxis
+                type="category"
+                dataKey="tema"
+                width={170}
+                tick={AXIS_TICK}
+                tickFormatter={(v: string) => truncate(v)}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => [value, 'Processos']} />
+              <Bar dataKey="processos" fill="#6366f1" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* Acordo por reclamada */}
+        <ChartCard title="Taxa de acordo por reclamada" isEmpty={stats.acordoPorReclamada.length === 0}>
+          <ResponsiveContainer width="100%" height={acordoHeight}>
+            <BarChart data={stats.acordoPorReclamada} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <CartesianGrid horizontal={false} strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis
+                type="number"
+                domain={[0, 100]}
+                tickFormatter={(v: number) => `${v}%`}
+                tick={AXIS_TICK}
+                axisLine={false}
+                tickLine={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="reclamada"
+                width={170}
+                tick={AXIS_TICK}
+                tickFormatter={(v: string) => truncate(v)}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value, _name, item) => [
+                  `${value}% (${item.payload.acordos} de ${item.payload.audiencias})`,
+                  'Acordos',
+                ]}
+              />
+              <Bar dataKey="taxa" fill="#10b981" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* Valor por rito */}
+        <ChartCard title="Valor médio da causa por rito" isEmpty={stats.valorPorRito.length === 0}>
+          <ResponsiveContainer width="100%" height={240}>
+            <BarChart data={stats.valorPorRito} barCategoryGap="30%">
+              <CartesianGrid vertical={false} strokeDasharray="3 3" stroke="#e2e8f0" />
+              <XAxis dataKey="label" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+              <YAxis
+                width={90}
+                tick={AXIS_TICK}
+                tickFormatter={(v: number) => formatCurrency(v).replace(/,\d{2}$/, '')}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                formatter={(value, _name, item) => [
+                  `${formatCurrency(Number(value))} (${item.payload.processos} processo${item.payload.processos === 1 ? '' : 's'})`,
+                  'Média',
+                ]}
+              />
+              <Bar dataKey="valorMedio" fill="#8b5cf6" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        {/* Recorrentes */}
+        <ChartCard title="Reclamadas recorrentes" isEmpty={stats.recorrentes.length === 0}>
+          <div className="max-h-[240px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-500 dark:text-slate-400 sticky top-0 bg-white dark:bg-slate-900">
+                <tr>
+                  <th className="text-left font-medium py-1.5">Reclamada</th>
+                  <th className="text-right font-medium py-1.5">Processos</th>
+                  <th className="text-right font-medium py-1.5">Acordos</th>
+                  <th className="text-right font-medium py-1.5">Última</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {stats.recorrentes.map((r) => (
+                  <tr key={r.reclamada}>
+                    <td className="py-1.5 pr-2 text-slate-800 dark:text-slate-100">{r.reclamada}</td>
+                    <td className="py-1.5 text-right tabular-nums text-slate-700 dark:text-slate-200">{r.processos}</td>
+                    <td className="py-1.5 text-right tabular-nums text-slate-700 dark:text-slate-200">{r.acordos}</td>
+                    <td className="py-1.5 text-right tabular-nums text-slate-500 dark:text-slate-400">
+                      {formatDateBR(r.ultimaData)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </ChartCard>
+      </div>
+    </Modal>
+  );
+};
+
+export default EstatisticasModal;
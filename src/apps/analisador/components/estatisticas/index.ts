@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description Barrel export das estatísticas da vara
+ * @version 1.53.52
+ */
+
+export { EstatisticasModal } from './EstatisticasModal';
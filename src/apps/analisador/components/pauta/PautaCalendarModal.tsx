@@ -0,0 +1,271 @@
+/**
+ * @file PautaCalendarModal.tsx
+ * @description Calendário da pauta (semana/mês) das análises salvas: arrastar
+ * um processo para outro dia remarca a data da pauta; cada dia tem lista para
+ * impressão e a pauta inteira pode ser exportada em .ics.
+ * @version 1.53.50
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Download, Printer, Clock } from 'lucide-react';
+import { Modal, Button, useToast } from '../ui';
+import { useAnalysesStore } from '../../stores';
+import { useAnalysesAPI } from '../../hooks';
+import { RESULTADO_COLORS } from '../../constants/audiencia';
+import {
+  buildDayPrintHtml,
+  buildPautaIcs,
+  fromDateKey,
+  getCalendarDays,
+  getPartes,
+  groupByDay,
+  shiftReference,
+  toDateKey,
+  type PautaView,
+} from '../../utils/pauta';
+import type { SavedAnalysis } from '../../types/analysis.types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS E CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface PautaCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectAnalysis: (analysis: SavedAnalysis) => void;
+}
+
+const WEEKDAYS = ['Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb', 'Dom'];
+
+const DRAG_TYPE = 'application/x-analise-id';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatPeriodo = (days: string[], view: PautaView, referenceKey: string): string => {
+  if (view === 'mes') {
+    return fromDateKey(referenceKey).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+  }
+  const fmt = (key: string) => fromDateKey(key).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' });
+  return `${fmt(days[0])} – ${fmt(days[days.length - 1])}`;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PautaCalendarModal: React.FC<PautaCalendarModalProps> = ({
+  isOpen,
+  onClose,
+  onSelectAnalysis,
+}) => {
+  const { analyses } = useAnalysesStore();
+  const { updateBatchDataPauta } = useAnalysesAPI();
+  const { showToast } = useToast();
+
+  const today = toDateKey(new Date());
+  const [view, setView] = useState<PautaView>('semana');
+  const [referenceKey, setReferenceKey] = useState(today);
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(referenceKey, view), [referenceKey, view]);
+  const byDay = useMemo(() => groupByDay(analyses), [analyses]);
+  const currentMonth = fromDateKey(referenceKey).getMonth();
+  const scheduledCount = useMemo(() => analyses.filter((a) => a.dataPauta).length, [analyses]);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HANDLERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const handleDrop = useCallback(
+    async (e: React.DragEvent, day: string) => {
+      e.preventDefault();
+      setDragOverDay(null);
+      const id = e.dataTransfer.getData(DRAG_TYPE);
+      const analysis = analyses.find((a) => a.id === id);
+      if (!analysis || analysis.dataPauta === day) return;
+
+      const updated = await updateBatchDataPauta([id], day);
+      if (updated > 0) {
+        showToast('success', `Processo remarcado para ${fromDateKey(day).toLocaleDateString('pt-BR')}`);
+      } else {
+        showToast('error', 'Não foi possível remarcar o processo');
+      }
+    },
+    [analyses, updateBatchDataPauta, showToast]
+  );
+
+  const handlePrintDay = useCallback((day: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(buildDayPrintHtml(day, byDay.get(day) || []));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }, [byDay]);
+
+  const handleExportIcs = useCallback(() => {
+    downloadFile(buildPautaIcs(analyses), 'pauta-audiencias.ics', 'text/calendar;charset=utf-8');
+  }, [analyses]);
+
+  const handleSelect = useCallback(
+    (analysis: SavedAnalysis) => {
+      onSelectAnalysis(analysis);
+      onClose();
+    },
+    [onSelectAnalysis, onClose]
+  );
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RENDER
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Pauta de Audiências"
+      subtitle={`${scheduledCount} processo${scheduledCount === 1 ? '' : 's'} com data de pauta`}
+      icon={<CalendarDays className="w-5 h-5" />}
+      size="full"
+      footer={
+        <div className="flex items-center justify-between w-full">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Arraste um processo para outro dia para remarcar a audiência.
+          </p>
+          <Button
+            variant="secondary"
+            onClick={handleExportIcs}
+            disabled={scheduledCount === 0}
+            icon={<Download className="w-4 h-4" />}
+            title="Arquivo para Google Agenda, Outlook ou Apple Calendário"
+          >
+            Exportar .ics
+          </Button>
+        </div>
+      }
+    >
+      {/* Navegação */}
+      <div className="flex items-center justify-between mb-4 gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setReferenceKey(shiftReference(referenceKey, view, -1))}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+            aria-label="Período anterior"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setReferenceKey(shiftReference(referenceKey, view, 1))}
+            className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+            aria-label="Próximo período"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <Button variant="ghost" size="sm" onClick={() => setReferenceKey(today)}>
+            Hoje
+          </Button>
+          <span className="font-semibold text-slate-800 dark:text-slate-100 capitalize">
+            {formatPeriodo(days, view, referenceKey)}
+          </span>
+        </div>
+        <div className="flex rounded-lg border border-slate-300 dark:border-slate-600 overflow-hidden text-sm">
+          {(['semana', 'mes'] as PautaView[]).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1.5 ${
+                view === v
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+              }`}
+            >
+              {v === 'semana' ? 'Semana' : 'Mês'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Grade */}
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-xs font-medium text-center text-slate-500 dark:text-slate-400 py-1">
+            {weekday}
+          </div>
+        ))}
+
+        {days.map((day) => {
+          const list = byDay.get(day) || [];
+          const isOtherMonth = view === 'mes' && fromDateKey(day).getMonth() !== currentMonth;
+          return (
+            <div
+              key={day}
+              data-testid={`pauta-dia-${day}`}
+              onDragOver={(e) => { e.preventDefault(); setDragOverDay(day); }}
+              onDragLeave={() => setDragOverDay((current) => (current === day ? null : current))}
+              onDrop={(e) => handleDrop(e, day)}
+              className={`rounded-lg border p-1.5 flex flex-col gap-1 ${view === 'semana' ? 'min-h-[320px]' : 'min-h-[110px]'} ${
+                dragOverDay === day
+                  ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30'
+                  : 'border-slate-200 dark:border-slate-700'
+              } ${isOtherMonth ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span
+                  className={`text-xs font-semibold ${
+                    day === today ? 'px-1.5 rounded-full bg-indigo-600 text-white' : 'text-slate-700 dark:text-slate-200'
+                  }`}
+                >
+                  {fromDateKey(day).getDate()}
+                </span>
+                {list.length > 0 && (
+                  <button
+                    onClick={() => handlePrintDay(day)}
+                    className="p-1 rounded text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                    title={`Imprimir pauta do dia (${list.length})`}
+                  >
+                    <Printer className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+
+              {list.map((analysis) => (
+                <button
+                  key={analysis.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData(DRAG_TYPE, analysis.id)}
+                  onClick={() => handleSelect(analysis)}
+                  title={getPartes(analysis)}
+                  className={`text-left text-[11px] leading-tight rounded px-1.5 py-1 cursor-grab active:cursor-grabbing ${
+                    RESULTADO_COLORS[analysis.resultadoAudiencia || 'null']
+                  }`}
+                >
+                  {analysis.horarioAudiencia && (
+                    <span className="flex items-center gap-0.5 font-semibold">
+                      <Clock className="w-3 h-3" />
+                      {analysis.horarioAudiencia}
+                    </span>
+                  )}
+                  <span className="block truncate">{analysis.numeroProcesso || 'Sem número'}</span>
+                  {view === 'semana' && <span className="block truncate opacity-80">{analysis.reclamante || ''}</span>}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+};
+
+export default PautaCalendarModal;
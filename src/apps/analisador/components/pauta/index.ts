@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description Barrel export do calendário da pauta
+ * @version 1.53.50
+ */
+
+export { PautaCalendarModal } from './PautaCalendarModal';
@@ -0,0 +1,223 @@
+/**
+ * @file AntecedentesSection.tsx
+ * @description Antecedentes da reclamada: processos anteriores no histórico
+ * (resultado da audiência e tese de defesa) e provas orais já analisadas,
+ * candidatas a prova emprestada
+ * @version 1.53.53
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, ChevronDown, ChevronRight, Mic, ExternalLink } from 'lucide-react';
+import { AccordionItem } from '../ui';
+import { useAnalysesStore, useResultStore } from '../../stores';
+import { useAnalysesAPI } from '../../hooks';
+import { RESULTADO_COLORS, RESULTADO_OPTIONS } from '../../constants/audiencia';
+import { formatDateBR } from '../../utils/format-date';
+import type {
+  AntecedenteAnalise,
+  AntecedenteProvaOral,
+  AntecedentesReclamada,
+  SavedAnalysis,
+} from '../../types';
+
+interface AntecedentesSectionProps {
+  reclamadas: string[];
+  numeroProcesso?: string;
+  /** Abre o processo anterior no lugar do atual */
+  onOpenAnalysis?: (analysis: SavedAnalysis) => void;
+}
+
+const resultadoLabel = (value: AntecedenteAnalise['resultadoAudiencia']): string =>
+  RESULTADO_OPTIONS.find((o) => o.value === value)?.label || 'Sem resultado';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SUBCOMPONENTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const AnaliseItem: React.FC<{ item: AntecedenteAnalise; onOpen?: (id: string) => void }> = ({ item, onOpen }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasTeses = item.teses.preliminares.length > 0 || item.teses.defesas.length > 0;
+
+  return (
+    <li className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          disabled={!hasTeses}
+          className="text-slate-400 disabled:opacity-30"
+          aria-label={expanded ? 'Ocultar tese de defesa' : 'Ver tese de defesa'}
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => onOpen?.(item.id)}
+          disabled={!onOpen}
+          className="font-mono text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:no-underline disabled:text-slate-700 dark:disabled:text-slate-200"
+          title="Abrir análise"
+        >
+          {item.numeroProcesso || 'Sem número'}
+        </button>
+        <span className="text-sm text-slate-600 dark:text-slate-300 truncate">{item.reclamante || ''}</span>
+        <span className="ml-auto flex items-center gap-2">
+          {item.dataPauta && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">{formatDateBR(item.dataPauta)}</span>
+          )}
+          <span className={`text-[11px] px-2 py-0.5 rounded-full ${RESULTADO_COLORS[item.resultadoAudiencia || 'null']}`}>
+            {resultadoLabel(item.resultadoAudiencia)}
+          </span>
+        </span>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 ml-6 space-y-2 text-sm">
+          {item.teses.preliminares.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {item.teses.preliminares.map((p) => (
+                <span key={p} className="text-xs px-2 py-0.5 rounded bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                  {p}
+                </span>
+              ))}
+            </div>
+          )}
+          {item.teses.defesas.map((d, idx) => (
+            <p key={idx} className="text-slate-600 dark:text-slate-300">
+              <span className="font-medium text-slate-800 dark:text-slate-100">{d.tema}: </span>
+              {d.defesa}
+            </p>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const ProvaOralItem: React.FC<{ item: AntecedenteProvaOral }> = ({ item }) => (
+  <li className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+    <div className="flex items-center gap-2 flex-wrap">
+      <Mic className="w-4 h-4 text-slate-400 flex-shrink-0" />
+      <a
+        href={`/prova-oral?analise=${encodeURIComponent(item.id)}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-sm text-indigo-600 dark:text-indigo-400 hover:underline inline-flex items-center gap-1"
+        title="Abrir prova oral em nova aba"
+      >
+        {item.numeroProcesso || 'Sem número'}
+        <ExternalLink className="w-3 h-3" />
+      </a>
+      <span className="text-sm text-slate-600 dark:text-slate-300 truncate">{item.reclamante || ''}</span>
+      <span className="ml-auto text-xs text-slate-500 dark:text-slate-400">
+        {item.depoentes} depoente{item.depoentes === 1 ? '' : 's'} · {formatDateBR(item.createdAt)}
+      </span>
+    </div>
+    {item.temas.length > 0 && (
+      <div className="mt-2 ml-6 flex flex-wrap gap-1">
+        {item.temas.map((tema) => (
+          <span key={tema} className="text-xs px-2 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+            {tema}
+          </span>
+        ))}
+      </div>
+    )}
+  </li>
+);
+
+const ReclamadaGroup: React.FC<{ group: AntecedentesReclamada; onOpen?: (id: string) => void }> = ({ group, onOpen }) => {
+  const comResultado = group.analyses.filter((a) => a.resultadoAudiencia);
+  const acordos = comResultado.filter((a) => a.resultadoAudiencia === 'acordo').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2 flex-wrap">
+        <h4 className="font-medium text-slate-800 dark:text-slate-100">{group.reclamada}</h4>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {group.totalAnalyses} processo{group.totalAnalyses === 1 ? '' : 's'}
+          {comResultado.length > 0 && ` · ${acordos} acordo${acordos === 1 ? '' : 's'} em ${comResultado.length} com resultado`}
+          {group.totalProvaOral > 0 && ` · ${group.totalProvaOral} prova${group.totalProvaOral === 1 ? '' : 's'} oral${group.totalProvaOral === 1 ? '' : 'is'}`}
+        </span>
+      </div>
+
+      {group.analyses.length > 0 && (
+        <ul className="space-y-2">
+          {group.analyses.map((item) => (
+            <AnaliseItem key={item.id} item={item} onOpen={onOpen} />
+          ))}
+        </ul>
+      )}
+      {group.totalAnalyses > group.analyses.length && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Mostrando os {group.analyses.length} mais recentes de {group.totalAnalyses}
+        </p>
+      )}
+
+      {group.provaOral.length > 0 && (
+        <ul className="space-y-2">
+          {group.provaOral.map((item) => (
+            <ProvaOralItem key={item.id} item={item} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const AntecedentesSection: React.FC<AntecedentesSectionProps> = ({
+  reclamadas,
+  numeroProcesso,
+  onOpenAnalysis,
+}) => {
+  const savedAnalysisId = useResultStore((s) => s.savedAnalysisId);
+  const analyses = useAnalysesStore((s) => s.analyses);
+  const { fetchAntecedentes, fetchAnalysis } = useAnalysesAPI();
+  const [antecedentes, setAntecedentes] = useState<AntecedentesReclamada[]>([]);
+
+  // Chave estável: o array de reclamadas é recriado a cada render do resultado
+  const reclamadasKey = reclamadas.filter(Boolean).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    setAntecedentes([]);
+    if (!reclamadasKey) return;
+
+    fetchAntecedentes({ reclamadas: reclamadasKey.split('\n'), excludeId: savedAnalysisId, numeroProcesso })
+      .then((data) => {
+        if (!cancelled && data) setAntecedentes(data);
+      });
+    return () => { cancelled = true; };
+  }, [reclamadasKey, savedAnalysisId, numeroProcesso, fetchAntecedentes]);
+
+  const groups = useMemo(
+    () => antecedentes.filter((g) => g.totalAnalyses > 0 || g.totalProvaOral > 0),
+    [antecedentes]
+  );
+  const total = groups.reduce((acc, g) => acc + g.totalAnalyses + g.totalProvaOral, 0);
+
+  const handleOpen = onOpenAnalysis
+    ? async (id: string) => {
+        const analysis = analyses.find((a) => a.id === id) || (await fetchAnalysis(id));
+        if (analysis) onOpenAnalysis(analysis);
+      }
+    : undefined;
+
+  if (groups.length === 0) return null;
+
+  return (
+    <AccordionItem
+      title={`Antecedentes da reclamada (${total})`}
+      icon={<History className="w-5 h-5" />}
+      defaultOpen
+    >
+      <div className="space-y-5">
+        {groups.map((group) => (
+          <ReclamadaGroup key={group.reclamada} group={group} onOpen={handleOpen} />
+        ))}
+      </div>
+    </AccordionItem>
+  );
+};
+
+export default AntecedentesSection;
@@ -8,16 +8,9 @@ import { User, Building2, FileText, Calendar, Scale, DollarSign, Sparkles, Copy,
 import { Badge } from '../ui';
 import { safeRender } from '../../utils/safe-render';
 import { formatDateBR } from '../../utils/format-date';
+import { calcularRito, RITO_LABELS } from '../../utils/rito';
 import { useSynthesis } from '../../hooks';
-import type { Identificacao, ValorCausa, RitoType, PedidoAnalise } from '../../types';
-
-// ═══════════════════════════════════════════════════════════════════════════
-// CONSTANTES - Salário Mínimo 2026
-// ═══════════════════════════════════════════════════════════════════════════
-
-const SALARIO_MINIMO_2026 = 1621.00;
-const LIMITE_SUMARIO = 2 * SALARIO_MINIMO_2026;        // R$ 3.242,00
-const LIMITE_SUMARISSIMO = 40 * SALARIO_MINIMO_2026;   // R$ 64.840,00
+import type { Identificacao, ValorCausa, PedidoAnalise } from '../../types';
 
 interface IdentificacaoSectionProps {
   data: Identificacao;
@@ -86,58 +79,13 @@ export const IdentificacaoSection: React.FC<IdentificacaoSectionProps> = ({ data
     return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
   };
 
-  const ritoLabel: Record<RitoType, string> = {
-    ordinario: 'Ordinário',
-    sumarissimo: 'Sumaríssimo',
-    sumario: 'Sumário'
-  };
-
   // Usa o campo temEntePublico retornado pela IA (que analisa o contexto completo)
   const hasEntePublico = data.temEntePublico === true;
 
-  /**
-   * Calcula o motivo do rito baseado no valor da causa e partes
-   */
-  const calcularMotivo = (valor?: number): string => {
-    if (hasEntePublico) return 'ente público';
-    if (!valor || valor <= 0) return 'valor não informado';
-    if (valor <= LIMITE_SUMARIO) return 'até 2 SM';
-    if (valor <= LIMITE_SUMARISSIMO) return 'até 40 SM';
-    return 'acima de 40 SM';
-  };
-
-  /**
-   * Calcula o rito processual baseado no valor da causa e partes
-   * SEMPRE calcula - regras são objetivas (CLT Art. 852-A e Lei 5.584/70)
-   * Não confia no rito retornado pela IA pois pode estar incorreto
-   */
-  const ritoCalculado = useMemo((): { rito: RitoType; motivo: string } => {
-    const valor = valorCausa?.valorTotal;
-    const motivo = calcularMotivo(valor);
-
-    // Se tem ente público, é sempre ordinário (CLT Art. 852-A, parágrafo único)
-    if (hasEntePublico) {
-      return { rito: 'ordinario', motivo };
-    }
-
-    // Se não tem valor, assume ordinário
-    if (!valor || valor <= 0) {
-      return { rito: 'ordinario', motivo };
-    }
-
-    // Até 2 salários mínimos: Sumário (Lei 5.584/70)
-    if (valor <= LIMITE_SUMARIO) {
-      return { rito: 'sumario', motivo };
-    }
-
-    // Até 40 salários mínimos: Sumaríssimo (CLT Art. 852-A)
-    if (valor <= LIMITE_SUMARISSIMO) {
-      return { rito: 'sumarissimo', motivo };
-    }
-
-    // Acima de 40 salários mínimos: Ordinário
-    return { rito: 'ordinario', motivo };
-  }, [valorCausa?.valorTotal, hasEntePublico]);
+  const ritoCalculado = useMemo(
+    () => calcularRito(valorCausa?.valorTotal, hasEntePublico),
+    [valorCausa?.valorTotal, hasEntePublico]
+  );
 
   const ritoBadgeVariant = ritoCalculado.rito === 'sumarissimo' ? 'warning' :
                           ritoCalculado.rito === 'sumario' ? 'success' : 'info';
@@ -208,7 +156,7 @@ export const IdentificacaoSection: React.FC<IdentificacaoSectionProps> = ({ data
             <p className="text-sm text-slate-500 dark:text-slate-400">Rito</p>
             <div className="flex items-center gap-2 flex-wrap">
               <Badge variant={ritoBadgeVariant}>
-                {ritoLabel[ritoCalculado.rito]}
+                {RITO_LABELS[ritoCalculado.rito]}
               </Badge>
               <span className="text-sm text-slate-500 dark:text-slate-400">
                 ({ritoCalculado.motivo})
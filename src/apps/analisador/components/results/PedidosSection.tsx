@@ -4,16 +4,21 @@
  */
 
 import React, { useState, useMemo } from 'react';
-import { ListChecks, ChevronDown, AlertCircle, CheckCircle, HelpCircle, GitBranch, ArrowRightLeft, Link2, Sparkles, RotateCcw } from 'lucide-react';
+import { ListChecks, ChevronDown, AlertCircle, AlertTriangle, CheckCircle, HelpCircle, GitBranch, ArrowRightLeft, Link2, Sparkles, RotateCcw, Hourglass } from 'lucide-react';
 import { AccordionItem, Badge } from '../ui';
 import { safeRender } from '../../utils/safe-render';
 import { formatCurrency, parseThemeAndValue } from '../../utils/format-pedido';
+import { formatDateBR } from '../../utils/format-date';
+import { calcularPrescricao } from '../../utils/prescricao';
 import { useResultStore } from '../../stores';
 import { RefinePedidoModal } from './RefinePedidoModal';
-import type { PedidoAnalise, TipoPedido } from '../../types';
+import type { AlertaSeveridade, Contrato, Identificacao, PedidoAnalise, PrescricaoCalculada, PrescricaoSituacao, TipoPedido } from '../../types';
 
 interface PedidosSectionProps {
   pedidos: PedidoAnalise[];
+  /** Datas de ajuizamento/contrato para o cálculo da prescrição */
+  identificacao?: Identificacao;
+  contrato?: Contrato;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -61,15 +66,84 @@ const TipoPedidoBadge: React.FC<{ tipo?: TipoPedido }> = ({ tipo }) => {
   );
 };
 
+/**
+ * Badge de prescrição calculada (integral ou parcial)
+ */
+const PrescricaoBadge: React.FC<{ situacao?: PrescricaoSituacao }> = ({ situacao }) => {
+  if (!situacao) return null;
+  return (
+    <Badge variant={situacao === 'integral' ? 'danger' : 'info'}>
+      {situacao === 'integral' ? 'Prescrito' : 'Prescrição parcial'}
+    </Badge>
+  );
+};
+
+const severidadeStyles: Record<AlertaSeveridade, { variant: 'danger' | 'warning' | 'info'; className: string }> = {
+  alta: { variant: 'danger', className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800/40 text-red-800 dark:text-red-300' },
+  media: { variant: 'warning', className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/40 text-amber-800 dark:text-amber-300' },
+  baixa: { variant: 'info', className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/40 text-blue-800 dark:text-blue-300' },
+};
+
+/**
+ * Marcos da prescrição calculados a partir das datas extraídas e alertas dos
+ * pedidos atingidos
+ */
+const PrescricaoPanel: React.FC<{ prescricao: PrescricaoCalculada }> = ({ prescricao }) => {
+  const marcos: Array<[string, string | undefined]> = [
+    ['Ajuizamento', prescricao.ajuizamento],
+    ['Término projetado', prescricao.terminoProjetado],
+    ['Limite bienal', prescricao.limiteBienal],
+    ['Marco quinquenal', prescricao.marcoQuinquenal],
+  ];
+
+  return (
+    <div className="p-3 rounded-lg border border-slate-200 dark:border-slate-700 space-y-3">
+      <div className="flex items-center gap-2">
+        <Hourglass className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+        <h5 className="text-sm font-medium text-slate-700 dark:text-slate-300">Prescrição (cálculo pelas datas extraídas)</h5>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600 dark:text-slate-400">
+        {marcos.filter(([, data]) => data).map(([label, data]) => (
+          <span key={label}>
+            <strong>{label}:</strong> {formatDateBR(data)}
+          </span>
+        ))}
+        {prescricao.avisoPrevioDias && (
+          <span><strong>Aviso prévio:</strong> {prescricao.avisoPrevioDias} dias</span>
+        )}
+      </div>
+      {prescricao.alertas.map((alerta, idx) => {
+        const style = severidadeStyles[alerta.severidade];
+        return (
+          <div key={idx} className={`p-3 rounded-lg border flex items-start gap-2 ${style.className}`}>
+            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-medium">{alerta.tipo}</span>
+                <Badge variant={style.variant}>{alerta.severidade}</Badge>
+              </div>
+              <p className="text-sm opacity-90">{alerta.descricao}</p>
+              {alerta.recomendacao && (
+                <p className="text-sm opacity-75 mt-1 italic">{alerta.recomendacao}</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 interface PedidoCardProps {
   pedido: PedidoAnalise;
+  prescricao?: PrescricaoSituacao;
   isChild?: boolean;
   onRefine: (numero: number) => void;
   onUndo: (numero: number) => void;
   hasUndo: boolean;
 }
 
-const PedidoCard: React.FC<PedidoCardProps> = ({ pedido, isChild = false, onRefine, onUndo, hasUndo }) => {
+const PedidoCard: React.FC<PedidoCardProps> = ({ pedido, prescricao, isChild = false, onRefine, onUndo, hasUndo }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const { cleanTema, extractedValor } = parseThemeAndValue(pedido.tema, pedido.valor);
@@ -95,6 +169,7 @@ const PedidoCard: React.FC<PedidoCardProps> = ({ pedido, isChild = false, onRefi
             <div className="flex items-center gap-2">
               <span className="font-medium text-slate-800 dark:text-slate-200">{cleanTema}</span>
               <TipoPedidoBadge tipo={pedido.tipoPedido} />
+              <PrescricaoBadge situacao={prescricao} />
               {extractedValor !== undefined && extractedValor !== null && (
                 <span className="text-sm text-emerald-600 dark:text-emerald-400 font-medium">
                   {formatCurrency(extractedValor)}
@@ -208,7 +283,7 @@ const PedidoCard: React.FC<PedidoCardProps> = ({ pedido, isChild = false, onRefi
   );
 };
 
-export const PedidosSection: React.FC<PedidosSectionProps> = ({ pedidos }) => {
+export const PedidosSection: React.FC<PedidosSectionProps> = ({ pedidos, identificacao, contrato }) => {
   const pedidoUndoStack = useResultStore(s => s.pedidoUndoStack);
   const undoPedidoRefinement = useResultStore(s => s.undoPedidoRefinement);
   const [refiningNumero, setRefiningNumero] = useState<number | null>(null);
@@ -218,6 +293,13 @@ export const PedidosSection: React.FC<PedidosSectionProps> = ({ pedidos }) => {
     [pedidos, refiningNumero]
   );
 
+  const prescricao = useMemo(
+    () => calcularPrescricao(identificacao, contrato, pedidos),
+    [identificacao, contrato, pedidos]
+  );
+  const situacaoPrescricao = (numero: number): PrescricaoSituacao | undefined =>
+    prescricao?.pedidos.find(p => p.numero === numero)?.situacao;
+
   const hasUndoFor = (numero: number): boolean => (pedidoUndoStack[numero]?.length ?? 0) > 0;
 
   const controvertidos = pedidos.filter(p => p.controversia).length;
@@ -308,12 +390,16 @@ export const PedidosSection: React.FC<PedidosSectionProps> = ({ pedidos }) => {
           )}
         </div>
 
+        {/* Prescrição calculada */}
+        {prescricao && <PrescricaoPanel prescricao={prescricao} />}
+
         {/* Lista de Pedidos (agrupados) */}
         <div className="space-y-3">
           {organizedPedidos.map(({ pedido, filhos }) => (
             <div key={pedido.numero}>
               <PedidoCard
                 pedido={pedido}
+                prescricao={situacaoPrescricao(pedido.numero)}
                 onRefine={setRefiningNumero}
                 onUndo={undoPedidoRefinement}
                 hasUndo={hasUndoFor(pedido.numero)}
@@ -324,6 +410,7 @@ export const PedidosSection: React.FC<PedidosSectionProps> = ({ pedidos }) => {
                     <PedidoCard
                       key={filho.numero}
                       pedido={filho}
+                      prescricao={situacaoPrescricao(filho.numero)}
                       isChild
                       onRefine={setRefiningNumero}
                       onUndo={undoPedidoRefinement}
@@ -1,6 +1,7 @@
 /**
  * @file ResultsContainer.tsx
  * @description Container principal dos resultados da análise
+ * @version 1.53.53 - Antecedentes da reclamada
  */
 
 import React from 'react';
@@ -17,6 +18,8 @@ import { ProvasSection } from './ProvasSection';
 import { AlertasSection } from './AlertasSection';
 import { TabelaComparativa } from './TabelaComparativa';
 import { ReanalyzePanel } from './ReanalyzePanel';
+import { AntecedentesSection } from './AntecedentesSection';
+import type { SavedAnalysis } from '../../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // HELPERS
@@ -50,7 +53,12 @@ const tabs = [
   { id: 'tabela', label: 'Tabela Sintética', icon: <Table2 className="w-4 h-4" /> }
 ];
 
-export const ResultsContainer: React.FC = () => {
+interface ResultsContainerProps {
+  /** Abre um processo anterior listado nos antecedentes */
+  onOpenAnalysis?: (analysis: SavedAnalysis) => void;
+}
+
+export const ResultsContainer: React.FC<ResultsContainerProps> = ({ onOpenAnalysis }) => {
   const result = useResultStore((s) => s.result);
   const dataPauta = useResultStore((s) => s.dataPauta);
   const horarioAudiencia = useResultStore((s) => s.horarioAudiencia);
@@ -109,6 +117,13 @@ export const ResultsContainer: React.FC = () => {
                   pedidos={result.pedidos}
                 />
 
+                {/* Antecedentes da reclamada (histórico e prova oral) */}
+                <AntecedentesSection
+                  reclamadas={result.identificacao.reclamadas || []}
+                  numeroProcesso={result.identificacao.numeroProcesso}
+                  onOpenAnalysis={onOpenAnalysis}
+                />
+
                 {/* Contrato */}
                 <ContratoSection data={result.contrato} />
 
@@ -127,7 +142,11 @@ export const ResultsContainer: React.FC = () => {
 
                 {/* Pedidos */}
                 {result.pedidos.length > 0 && (
-                  <PedidosSection pedidos={result.pedidos} />
+                  <PedidosSection
+                    pedidos={result.pedidos}
+                    identificacao={result.identificacao}
+                    contrato={result.contrato}
+                  />
                 )}
 
                 {/* Reconvenção */}
@@ -14,4 +14,5 @@ export { PedidosSection } from './PedidosSection';
 export { ReconvencaoSection } from './ReconvencaoSection';
 export { ProvasSection } from './ProvasSection';
 export { AlertasSection } from './AlertasSection';
+export { AntecedentesSection } from './AntecedentesSection';
 export { TabelaComparativa } from './TabelaComparativa';
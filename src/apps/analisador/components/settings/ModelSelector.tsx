@@ -4,13 +4,24 @@
  */
 
 import React from 'react';
-import { useAIStore } from '../../stores';
+import { useAIStore, persistApiKeys } from '../../stores';
 import { AI_PROVIDERS } from '../../constants/models';
+import { API_BASE } from '../../constants';
+import { LocalLlmEndpointFields } from '../../../../components/shared/LocalLlmEndpointFields';
+import type { LocalLlmEndpointValues } from '../../../../components/shared/LocalLlmEndpointFields';
+
+const LOCAL_LLM_CLASSES = {
+  label: 'block text-sm font-medium text-slate-700 mb-1',
+  input: 'w-full px-4 py-3 bg-white border border-slate-300 rounded-lg text-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all',
+  button: 'flex items-center gap-1.5 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-lg text-sm',
+  hint: 'text-xs text-slate-500 mt-1'
+};
 
 export const ModelSelector: React.FC = () => {
   const provider = useAIStore((s) => s.aiSettings.provider);
   const aiSettings = useAIStore((s) => s.aiSettings);
   const setModel = useAIStore((s) => s.setModel);
+  const setAiSettings = useAIStore((s) => s.setAiSettings);
 
   const providerInfo = AI_PROVIDERS[provider];
 
@@ -30,6 +41,36 @@ export const ModelSelector: React.FC = () => {
     setModel(provider, e.target.value);
   };
 
+  // v1.53.38: endpoint local — base URL e modelo livres, chave opcional persistida como as demais
+  const handleLocalLlmChange = (patch: Partial<LocalLlmEndpointValues>) => {
+    const current = useAIStore.getState().aiSettings;
+    const apiKeys = patch.apiKey !== undefined ? { ...current.apiKeys, 'local-llm': patch.apiKey } : current.apiKeys;
+    setAiSettings({
+      ...current,
+      ...(patch.baseUrl !== undefined && { localLlmBaseUrl: patch.baseUrl }),
+      ...(patch.model !== undefined && { localLlmModel: patch.model }),
+      ...(patch.viaServer !== undefined && { localLlmViaServer: patch.viaServer }),
+      apiKeys
+    });
+    if (patch.apiKey !== undefined) persistApiKeys(apiKeys);
+  };
+
+  if (provider === 'local-llm') {
+    return (
+      <LocalLlmEndpointFields
+        apiBase={API_BASE}
+        values={{
+          baseUrl: aiSettings.localLlmBaseUrl,
+          model: aiSettings.localLlmModel,
+          viaServer: aiSettings.localLlmViaServer,
+          apiKey: aiSettings.apiKeys['local-llm']
+        }}
+        onChange={handleLocalLlmChange}
+        classes={LOCAL_LLM_CLASSES}
+      />
+    );
+  }
+
   return (
     <div className="space-y-2">
       <label className="block text-sm font-medium text-slate-700">
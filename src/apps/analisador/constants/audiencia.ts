@@ -0,0 +1,57 @@
+/**
+ * @file audiencia.ts
+ * @description Resultados e pendências de audiência (histórico e pauta)
+ */
+
+import type { ResultadoAudiencia } from '../types/analysis.types';
+
+export const RESULTADO_OPTIONS: { value: ResultadoAudiencia | 'todos'; label: string }[] = [
+  { value: 'todos', label: 'Todos' },
+  { value: 'acordo', label: '✅ Acordo' },
+  { value: 'sentenca', label: '⚖️ Sentença' },
+  { value: 'sentenca_marcada', label: '📅 Sentença marcada' },
+  { value: 'audiencia_encerramento', label: '📋 Aud. encerramento' },
+  { value: 'adiamento', label: '🔄 Adiamento' },
+  { value: 'redesignada_notificacao', label: '📬 Redesignada c/ notificação' },
+  { value: 'cancelada', label: '❌ Cancelada' },
+  { value: 'desistencia', label: '🚫 Desistência' },
+  { value: 'arquivamento', label: '📦 Arquivamento' },
+  { value: 'instrucao_encerrada', label: '✔️ Instrução encerrada' },
+  { value: 'aguardando_pericia', label: '🔬 Aguardando perícia' },
+  { value: 'suspenso', label: '⏸️ Suspenso' },
+  { value: 'emenda_determinada', label: '📝 Emenda determinada' },
+  { value: 'aditamento_deferido', label: '➕ Aditamento deferido' },
+];
+
+export const RESULTADO_COLORS: Record<ResultadoAudiencia | 'null', string> = {
+  acordo: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300',
+  sentenca: 'bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300',
+  sentenca_marcada: 'bg-violet-100 dark:bg-violet-900/40 text-violet-700 dark:text-violet-300',
+  audiencia_encerramento: 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300',
+  adiamento: 'bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300',
+  redesignada_notificacao: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300',
+  cancelada: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300',
+  desistencia: 'bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300',
+  arquivamento: 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300',
+  instrucao_encerrada: 'bg-cyan-100 dark:bg-cyan-900/40 text-cyan-700 dark:text-cyan-300',
+  aguardando_pericia: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-700 dark:text-yellow-300',
+  suspenso: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+  emenda_determinada: 'bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300',
+  aditamento_deferido: 'bg-lime-100 dark:bg-lime-900/40 text-lime-700 dark:text-lime-300',
+  null: 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400',
+};
+
+export const PENDENCIAS_OPCOES = [
+  { value: 'razoes_finais', label: 'Razões finais' },
+  { value: 'transcrever_audiencia', label: 'Transcrever audiência' },
+  { value: 'prova_determinada', label: 'Prova determinada' },
+  { value: 'pericia', label: 'Perícia' },
+  { value: 'carta_precatoria', label: 'Carta precatória' },
+  { value: 'juntada_docs', label: 'Juntada de documentos' },
+  { value: 'manifestacao_parte', label: 'Manifestação da parte' },
+  { value: 'calculo_liquidacao', label: 'Cálculo de liquidação' },
+  { value: 'aguardando_transito', label: 'Aguardando trânsito' },
+  { value: 'intimacao_testemunha', label: 'Intimação de testemunha' },
+  { value: 'oficio_determinado', label: 'Ofício determinado' },
+  { value: 'outra', label: 'Outra pendência' },
+] as const;
@@ -6,5 +6,6 @@
 export * from './styles';
 export * from './models';
 export * from './providers';
+export * from './audiencia';
 
 export const API_BASE = '';
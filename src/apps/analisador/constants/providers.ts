@@ -19,3 +19,14 @@ export const PROVIDERS_WITH_PDF_BINARY: ReadonlyArray<AIProvider> = ['claude', '
 export function providerSupportsPdfBinary(provider: AIProvider): boolean {
   return PROVIDERS_WITH_PDF_BINARY.includes(provider);
 }
+
+/**
+ * Providers que o lote em servidor (v1.53.51) consegue chamar: os que têm proxy
+ * /api/<provider>/stream. Bridges locais (CLI), LLM local e modo manual dependem
+ * do navegador.
+ */
+export const PROVIDERS_WITH_SERVER_JOBS: ReadonlyArray<AIProvider> = ['claude', 'gemini', 'openai', 'grok', 'deepseek'] as const;
+
+export function providerSupportsServerJobs(provider: AIProvider): boolean {
+  return PROVIDERS_WITH_SERVER_JOBS.includes(provider);
+}
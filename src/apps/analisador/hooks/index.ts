@@ -7,6 +7,8 @@ export { useAIIntegration } from './useAIIntegration';
 export { useFileProcessing } from './useFileProcessing';
 export { useAnalysis } from './useAnalysis';
 export { useAnalysesAPI } from './useAnalysesAPI';
+export { useAnalysisJobs, isJobActive } from './useAnalysisJobs';
+export type { AddJobItemParams } from './useAnalysisJobs';
 export { useRefinePedido } from './useRefinePedido';
 export type { RefineOverrideDoc, RefineOverrideDocs } from './useRefinePedido';
 export { useSynthesis } from './useSynthesis';
@@ -0,0 +1,184 @@
+/**
+ * @file useAIIntegration.test.ts
+ * @description Testes do buildStreamRequest: o corpo montado para cada proxy
+ * (usado também pelo lote no servidor) deve ser o mesmo das chamadas stream
+ * antes da extração
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import type { AIMessage } from '../types';
+
+const mockState = {
+  aiSettings: {} as Record<string, unknown>,
+  addTokenUsage: vi.fn(),
+};
+
+vi.mock('../stores', () => ({
+  useAIStore: vi.fn((selector: (s: typeof mockState) => unknown) => selector(mockState)),
+}));
+
+import { useAIIntegration } from './useAIIntegration';
+
+const baseSettings = {
+  claudeModel: 'claude-sonnet-4-20250514',
+  geminiModel: 'gemini-3-flash-preview',
+  openaiModel: 'gpt-5.2',
+  grokModel: 'grok-4-1-fast-reasoning',
+  deepseekModel: 'deepseek-v4-pro',
+  useExtendedThinking: false,
+  thinkingBudget: '10000',
+  geminiThinkingLevel: 'high',
+  openaiReasoningLevel: 'low',
+  deepseekThinking: true,
+  deepseekReasoningEffort: 'max',
+  apiKeys: { claude: 'sk-claude', gemini: 'gemini-key', openai: 'sk-openai', grok: 'xai-grok', deepseek: 'sk-deepseek' },
+};
+
+const PDF = { type: 'base64' as const, media_type: 'application/pdf', data: 'JVBERi0=' };
+
+const messages: AIMessage[] = [
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'PETIÇÃO INICIAL' },
+      { type: 'document', source: PDF },
+    ],
+  },
+  { role: 'assistant', content: 'Resposta anterior' },
+];
+
+const PDF_OMITIDO = '[PDF anexo omitido — provider não suporta envio binário]';
+
+const build = (...args: Parameters<ReturnType<typeof useAIIntegration>['buildStreamRequest']>) =>
+  renderHook(() => useAIIntegration()).result.current.buildStreamRequest(...args);
+
+describe('buildStreamRequest', () => {
+  beforeEach(() => {
+    mockState.aiSettings = { ...baseSettings };
+  });
+
+  it('claude: thinking raises max_tokens above the budget', () => {
+    mockState.aiSettings = { ...baseSettings, useExtendedThinking: true, thinkingBudget: '20000' };
+
+    expect(build(messages, { maxTokens: 16000, systemPrompt: 'SISTEMA' }, 'claude')).toEqual({
+      path: '/api/claude/stream',
+      apiKey: 'sk-claude',
+      body: {
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 22000,
+        messages,
+        system: 'SISTEMA',
+        thinking: { type: 'enabled', budget_tokens: 20000 },
+      },
+    });
+  });
+
+  it('claude: disableThinking and no system prompt', () => {
+    mockState.aiSettings = { ...baseSettings, useExtendedThinking: true };
+
+    expect(build(messages, { disableThinking: true, model: 'claude-opus-4' }, 'claude').body).toEqual({
+      model: 'claude-opus-4',
+      max_tokens: 16000,
+      messages,
+    });
+  });
+
+  it('gemini: inline PDF, thinking budget by level and system instruction', () => {
+    mockState.aiSettings = { ...baseSettings, geminiThinkingLevel: 'medium' };
+
+    expect(build(messages, { maxTokens: 8000, systemPrompt: 'SISTEMA' }, 'gemini')).toEqual({
+      path: '/api/gemini/stream',
+      apiKey: 'gemini-key',
+      body: {
+        model: 'gemini-3-flash-preview',
+        request: {
+          contents: [
+            {
+              role: 'user',
+              parts: [{ text: 'PETIÇÃO INICIAL' }, { inline_data: { mime_type: 'application/pdf', data: 'JVBERi0=' } }],
+            },
+            { role: 'model', parts: [{ text: 'Resposta anterior' }] },
+          ],
+          generationConfig: { maxOutputTokens: 8000, thinkingConfig: { thinkingBudget: 4096 } },
+          systemInstruction: { parts: [{ text: 'SISTEMA' }] },
+        },
+      },
+    });
+  });
+
+  it('gemini: minimal level sends no thinkingConfig', () => {
+    mockState.aiSettings = { ...baseSettings, geminiThinkingLevel: 'minimal' };
+
+    const { request } = build(messages, {}, 'gemini').body as { request: Record<string, unknown> };
+    expect(request.generationConfig).toEqual({ maxOutputTokens: 16000 });
+    expect(request).not.toHaveProperty('systemInstruction');
+  });
+
+  it('openai: text blocks, PDF placeholder and reasoning effort for gpt-5.2', () => {
+    expect(build(messages, { systemPrompt: 'SISTEMA' }, 'openai')).toEqual({
+      path: '/api/openai/stream',
+      apiKey: 'sk-openai',
+      body: {
+        model: 'gpt-5.2',
+        messages: [
+          { role: 'system', content: 'SISTEMA' },
+          { role: 'user', content: [{ type: 'text', text: 'PETIÇÃO INICIAL' }, { type: 'text', text: PDF_OMITIDO }] },
+          { role: 'assistant', content: 'Resposta anterior' },
+        ],
+        max_tokens: 16000,
+        stream: true,
+        reasoning_effort: 'low',
+      },
+    });
+
+    expect(build(messages, { model: 'gpt-4.1' }, 'openai').body).not.toHaveProperty('reasoning_effort');
+  });
+
+  it('grok: plain text messages', () => {
+    expect(build(messages, { systemPrompt: 'SISTEMA', maxTokens: 4000 }, 'grok')).toEqual({
+      path: '/api/grok/stream',
+      apiKey: 'xai-grok',
+      body: {
+        model: 'grok-4-1-fast-reasoning',
+        messages: [
+          { role: 'system', content: 'SISTEMA' },
+          { role: 'user', content: `PETIÇÃO INICIAL\n${PDF_OMITIDO}` },
+          { role: 'assistant', content: 'Resposta anterior' },
+        ],
+        max_tokens: 4000,
+        stream: true,
+      },
+    });
+  });
+
+  it('deepseek: thinking with reasoning effort, or disabled', () => {
+    expect(build(messages, {}, 'deepseek')).toEqual({
+      path: '/api/deepseek/stream',
+      apiKey: 'sk-deepseek',
+      body: {
+        model: 'deepseek-v4-pro',
+        messages: [
+          { role: 'user', content: `PETIÇÃO INICIAL\n${PDF_OMITIDO}` },
+          { role: 'assistant', content: 'Resposta anterior' },
+        ],
+        max_tokens: 16000,
+        stream: true,
+        thinking: { type: 'enabled' },
+        reasoning_effort: 'max',
+      },
+    });
+
+    const disabled = build(messages, { disableThinking: true }, 'deepseek').body;
+    expect(disabled.thinking).toEqual({ type: 'disabled' });
+    expect(disabled).not.toHaveProperty('reasoning_effort');
+  });
+
+  it('deepseek: default model and empty key', () => {
+    mockState.aiSettings = { ...baseSettings, deepseekModel: undefined, apiKeys: { ...baseSettings.apiKeys, deepseek: undefined } };
+
+    const request = build(messages, {}, 'deepseek');
+    expect(request.body.model).toBe('deepseek-v4-flash');
+    expect(request.apiKey).toBe('');
+  });
+});
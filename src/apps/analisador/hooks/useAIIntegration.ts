@@ -10,13 +10,18 @@ import { getClaudeCliBridgeUrl, CLAUDE_CLI_MESSAGES_PATH } from '../../../utils/
 import { getCodexCliBridgeUrl, CODEX_CLI_MESSAGES_PATH } from '../../../utils/codex-cli-bridge';
 import { rasterizePdfDocumentBlocks } from '../../../utils/pdfRasterize';
 import { serializeForManual, normalizeManualResponse } from '../../../utils/manualCall';
+import { callLocalLlm, streamLocalLlm, localLlmResponseText } from '../../../utils/local-llm';
+import { fetchAIProxy } from '../../../utils/aiBudget';
 import { useManualCallStore } from '../../../stores/useManualCallStore';
-import type { AIMessage, AICallOptions, ClaudeContentBlock, OpenAIMessage, GrokMessage, GeminiMessage } from '../types';
+import type { AIMessage, AICallOptions, ClaudeContentBlock, OpenAIMessage, GrokMessage, GeminiMessage, ProxyStreamRequest } from '../types';
 
 const RETRY_MAX_ATTEMPTS = 3;
 const RETRY_INITIAL_DELAY = 3000;
 const RETRY_BACKOFF_MULTIPLIER = 2;
 
+/** Providers com proxy SSE no servidor (ver PROVIDERS_WITH_SERVER_JOBS) */
+export type ServerStreamProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek';
+
 export const useAIIntegration = () => {
   const aiSettings = useAIStore((s) => s.aiSettings);
   const addTokenUsage = useAIStore((s) => s.addTokenUsage);
@@ -66,7 +71,7 @@ export const useAIIntegration = () => {
         const claudeHeaders: Record<string, string> = localBridge
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.claude };
-        const response = await fetch(claudeUrl, {
+        const response = await fetchAIProxy(claudeUrl, {
           method: 'POST',
           headers: claudeHeaders,
           body: JSON.stringify(requestBody)
@@ -152,7 +157,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/gemini/generate`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/gemini/generate`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.gemini },
           body: JSON.stringify({
@@ -273,7 +278,7 @@ export const useAIIntegration = () => {
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.openai };
 
-        const response = await fetch(url, {
+        const response = await fetchAIProxy(url, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody)
@@ -346,7 +351,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/grok/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/grok/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -439,7 +444,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/deepseek/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/deepseek/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -492,52 +497,211 @@ export const useAIIntegration = () => {
     throw lastError || new Error('Todas as tentativas falharam');
   }, [aiSettings, addTokenUsage]);
 
+  // v1.53.38: LLM local OpenAI-compatível (Ollama/llama.cpp/vLLM) via /api/local-llm
+  const callLocalLlmAPI = useCallback(async (
+    messages: AIMessage[],
+    options: AICallOptions = {}
+  ): Promise<string> => {
+    const result = await callLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys['local-llm'],
+      model: options.model || aiSettings.localLlmModel || '',
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens ?? 8000,
+      temperature: options.temperature,
+      signal: options.abortSignal
+    });
+    if (result.usage) {
+      addTokenUsage({
+        input: result.usage.prompt_tokens || 0,
+        output: result.usage.completion_tokens || 0
+      });
+    }
+    return localLlmResponseText(result);
+  }, [aiSettings, addTokenUsage]);
+
   // ═══════════════════════════════════════════════════════════════════════════
   // STREAMING APIs - Evita timeout em operações longas
   // ═══════════════════════════════════════════════════════════════════════════
 
   /**
-   * Chamada Claude com streaming silencioso (não exibe texto parcial)
-   * Usa SSE para manter conexão ativa e evitar timeout
+   * v1.53.51: Monta a requisição SSE do proxy (/api/<provider>/stream). Usada
+   * pelas chamadas stream abaixo e pelo lote em servidor (useAnalysisJobs),
+   * que guarda o corpo pronto para o servidor reenviar sem o navegador aberto.
    */
-  const callClaudeAPIStream = useCallback(async (
+  const buildStreamRequest = useCallback((
     messages: AIMessage[],
-    options: AICallOptions = {}
-  ): Promise<string> => {
-    const {
-      maxTokens = 16000,
-      systemPrompt = null,
-      model = aiSettings.claudeModel,
-      disableThinking = false
-    } = options;
+    options: AICallOptions = {},
+    provider: ServerStreamProvider
+  ): ProxyStreamRequest => {
+    const { maxTokens = 16000, systemPrompt = null, disableThinking = false } = options;
+
+    // Texto puro para providers sem blocos (Grok/DeepSeek)
+    const toPlainMessages = (): GrokMessage[] => {
+      const plain: GrokMessage[] = [];
+      if (systemPrompt) {
+        plain.push({ role: 'system', content: systemPrompt });
+      }
+      for (const msg of messages) {
+        plain.push({
+          role: msg.role,
+          content: Array.isArray(msg.content)
+            ? msg.content.map(c => {
+                if (typeof c === 'string') return c;
+                if (c.type === 'text') return c.text;
+                if (c.type === 'document') return '[PDF anexo omitido — provider não suporta envio binário]';
+                return '';
+              }).join('\n')
+            : msg.content
+        });
+      }
+      return plain;
+    };
 
-    const useThinking = aiSettings.useExtendedThinking && !disableThinking;
-    const thinkingBudget = parseInt(aiSettings.thinkingBudget) || 10000;
+    switch (provider) {
+      case 'claude': {
+        const useThinking = aiSettings.useExtendedThinking && !disableThinking;
+        const thinkingBudget = parseInt(aiSettings.thinkingBudget) || 10000;
 
-    const requestBody: Record<string, unknown> = {
-      model,
-      max_tokens: useThinking ? Math.max(maxTokens, thinkingBudget + 2000) : maxTokens,
-      messages
-    };
+        const requestBody: Record<string, unknown> = {
+          model: options.model || aiSettings.claudeModel,
+          max_tokens: useThinking ? Math.max(maxTokens, thinkingBudget + 2000) : maxTokens,
+          messages
+        };
 
-    if (systemPrompt) {
-      requestBody.system = systemPrompt;
-    }
+        if (systemPrompt) {
+          requestBody.system = systemPrompt;
+        }
+
+        if (useThinking) {
+          requestBody.thinking = {
+            type: 'enabled',
+            budget_tokens: thinkingBudget
+          };
+        }
+
+        return { path: '/api/claude/stream', body: requestBody, apiKey: aiSettings.apiKeys.claude };
+      }
+
+      case 'gemini': {
+        const contents: GeminiMessage[] = messages.map(msg => ({
+          role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
+          parts: Array.isArray(msg.content)
+            ? msg.content.map(c => {
+                if (typeof c === 'string') return { text: c };
+                if (c.type === 'text') return { text: c.text };
+                if (c.type === 'document' && c.source) {
+                  return { inline_data: { mime_type: c.source.media_type, data: c.source.data } };
+                }
+                return { text: '' };
+              })
+            : [{ text: msg.content as string }]
+        }));
+
+        const thinkingLevel = aiSettings.geminiThinkingLevel || 'high';
+        const thinkingConfig = thinkingLevel !== 'minimal' ? {
+          thinkingConfig: { thinkingBudget: thinkingLevel === 'high' ? 8192 : thinkingLevel === 'medium' ? 4096 : 2048 }
+        } : {};
+
+        const request: Record<string, unknown> = {
+          contents,
+          generationConfig: { maxOutputTokens: maxTokens, ...thinkingConfig }
+        };
+
+        if (systemPrompt) {
+          request.systemInstruction = { parts: [{ text: systemPrompt }] };
+        }
+
+        return {
+          path: '/api/gemini/stream',
+          body: { model: options.model || aiSettings.geminiModel, request },
+          apiKey: aiSettings.apiKeys.gemini
+        };
+      }
 
-    if (useThinking) {
-      requestBody.thinking = {
-        type: 'enabled',
-        budget_tokens: thinkingBudget
-      };
+      case 'openai': {
+        const model = options.model || aiSettings.openaiModel;
+        const openaiMessages: OpenAIMessage[] = [];
+
+        if (systemPrompt) {
+          openaiMessages.push({ role: 'system', content: systemPrompt });
+        }
+
+        for (const msg of messages) {
+          openaiMessages.push({
+            role: msg.role,
+            content: Array.isArray(msg.content)
+              ? msg.content.map(c => {
+                  if (typeof c === 'string') return { type: 'text', text: c };
+                  if (c.type === 'text') return { type: 'text', text: c.text };
+                  if (c.type === 'document') return { type: 'text', text: '[PDF anexo omitido — provider não suporta envio binário]' };
+                  return { type: 'text', text: '' };
+                })
+              : msg.content
+          });
+        }
+
+        const requestBody: Record<string, unknown> = {
+          model,
+          messages: openaiMessages,
+          max_tokens: maxTokens,
+          stream: true
+        };
+
+        // Reasoning para GPT-5.2 (modelo com thinking)
+        if (model === 'gpt-5.2') {
+          requestBody.reasoning_effort = aiSettings.openaiReasoningLevel || 'medium';
+        }
+
+        return { path: '/api/openai/stream', body: requestBody, apiKey: aiSettings.apiKeys.openai };
+      }
+
+      case 'grok':
+        return {
+          path: '/api/grok/stream',
+          body: {
+            model: options.model || aiSettings.grokModel,
+            messages: toPlainMessages(),
+            max_tokens: maxTokens,
+            stream: true
+          },
+          apiKey: aiSettings.apiKeys.grok
+        };
+
+      case 'deepseek': {
+        const thinkingEnabled = !disableThinking && (aiSettings.deepseekThinking !== false);
+        const streamBody: Record<string, unknown> = {
+          model: options.model || aiSettings.deepseekModel || 'deepseek-v4-flash',
+          messages: toPlainMessages(),
+          max_tokens: maxTokens,
+          stream: true,
+          thinking: { type: thinkingEnabled ? 'enabled' : 'disabled' }
+        };
+        if (thinkingEnabled) {
+          streamBody.reasoning_effort = aiSettings.deepseekReasoningEffort || 'high';
+        }
+        return { path: '/api/deepseek/stream', body: streamBody, apiKey: aiSettings.apiKeys.deepseek || '' };
+      }
     }
+  }, [aiSettings]);
 
-    const response = await fetch(`${API_BASE}/api/claude/stream`, {
+  /**
+   * Chamada Claude com streaming silencioso (não exibe texto parcial)
+   * Usa SSE para manter conexão ativa e evitar timeout
+   */
+  const callClaudeAPIStream = useCallback(async (
+    messages: AIMessage[],
+    options: AICallOptions = {}
+  ): Promise<string> => {
+    const { path, body, apiKey } = buildStreamRequest(messages, options, 'claude');
+
+    const response = await fetchAIProxy(`${API_BASE}${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': aiSettings.apiKeys.claude
-      },
-      body: JSON.stringify(requestBody)
+      headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey },
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
@@ -589,7 +753,7 @@ export const useAIIntegration = () => {
     }
 
     return fullText.trim();
-  }, [aiSettings, addTokenUsage]);
+  }, [buildStreamRequest, addTokenUsage]);
 
   /**
    * Chamada Gemini com streaming silencioso
@@ -598,47 +762,12 @@ export const useAIIntegration = () => {
     messages: AIMessage[],
     options: AICallOptions = {}
   ): Promise<string> => {
-    const {
-      maxTokens = 16000,
-      systemPrompt = null,
-      model = aiSettings.geminiModel
-    } = options;
-
-    const contents: GeminiMessage[] = messages.map(msg => ({
-      role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
-      parts: Array.isArray(msg.content)
-        ? msg.content.map(c => {
-            if (typeof c === 'string') return { text: c };
-            if (c.type === 'text') return { text: c.text };
-            if (c.type === 'document' && c.source) {
-              return { inline_data: { mime_type: c.source.media_type, data: c.source.data } };
-            }
-            return { text: '' };
-          })
-        : [{ text: msg.content as string }]
-    }));
-
-    const thinkingLevel = aiSettings.geminiThinkingLevel || 'high';
-    const thinkingConfig = thinkingLevel !== 'minimal' ? {
-      thinkingConfig: { thinkingBudget: thinkingLevel === 'high' ? 8192 : thinkingLevel === 'medium' ? 4096 : 2048 }
-    } : {};
-
-    const request: Record<string, unknown> = {
-      contents,
-      generationConfig: { maxOutputTokens: maxTokens, ...thinkingConfig }
-    };
-
-    if (systemPrompt) {
-      request.systemInstruction = { parts: [{ text: systemPrompt }] };
-    }
+    const { path, body, apiKey } = buildStreamRequest(messages, options, 'gemini');
 
-    const response = await fetch(`${API_BASE}/api/gemini/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}${path}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.gemini },
-      body: JSON.stringify({
-        model,
-        request
-      })
+      headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey },
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
@@ -695,7 +824,7 @@ export const useAIIntegration = () => {
     }
 
     return fullText.trim();
-  }, [aiSettings, addTokenUsage]);
+  }, [buildStreamRequest, addTokenUsage]);
 
   /**
    * Chamada OpenAI com streaming silencioso
@@ -704,53 +833,12 @@ export const useAIIntegration = () => {
     messages: AIMessage[],
     options: AICallOptions = {}
   ): Promise<string> => {
-    const {
-      maxTokens = 16000,
-      systemPrompt = null,
-      model = aiSettings.openaiModel
-    } = options;
+    const { path, body, apiKey } = buildStreamRequest(messages, options, 'openai');
 
-    const openaiMessages: OpenAIMessage[] = [];
-
-    if (systemPrompt) {
-      openaiMessages.push({ role: 'system', content: systemPrompt });
-    }
-
-    for (const msg of messages) {
-      openaiMessages.push({
-        role: msg.role,
-        content: Array.isArray(msg.content)
-          ? msg.content.map(c => {
-              if (typeof c === 'string') return { type: 'text', text: c };
-              if (c.type === 'text') return { type: 'text', text: c.text };
-              if (c.type === 'document') return { type: 'text', text: '[PDF anexo omitido — provider não suporta envio binário]' };
-              return { type: 'text', text: '' };
-            })
-          : msg.content
-      });
-    }
-
-    const isReasoningModel = model === 'gpt-5.2';
-    const reasoningLevel = aiSettings.openaiReasoningLevel || 'medium';
-
-    const requestBody: Record<string, unknown> = {
-      model,
-      messages: openaiMessages,
-      max_tokens: maxTokens,
-      stream: true
-    };
-
-    if (isReasoningModel) {
-      requestBody.reasoning_effort = reasoningLevel;
-    }
-
-    const response = await fetch(`${API_BASE}/api/openai/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': aiSettings.apiKeys.openai
-      },
-      body: JSON.stringify(requestBody)
+      headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey },
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
@@ -800,7 +888,7 @@ export const useAIIntegration = () => {
     }
 
     return fullText.trim();
-  }, [aiSettings, addTokenUsage]);
+  }, [buildStreamRequest, addTokenUsage]);
 
   /**
    * Chamada Grok com streaming silencioso
@@ -809,44 +897,12 @@ export const useAIIntegration = () => {
     messages: AIMessage[],
     options: AICallOptions = {}
   ): Promise<string> => {
-    const {
-      maxTokens = 16000,
-      systemPrompt = null,
-      model = aiSettings.grokModel
-    } = options;
-
-    const grokMessages: GrokMessage[] = [];
-
-    if (systemPrompt) {
-      grokMessages.push({ role: 'system', content: systemPrompt });
-    }
+    const { path, body, apiKey } = buildStreamRequest(messages, options, 'grok');
 
-    for (const msg of messages) {
-      grokMessages.push({
-        role: msg.role,
-        content: Array.isArray(msg.content)
-          ? msg.content.map(c => {
-              if (typeof c === 'string') return c;
-              if (c.type === 'text') return c.text;
-              if (c.type === 'document') return '[PDF anexo omitido — provider não suporta envio binário]';
-              return '';
-            }).join('\n')
-          : msg.content
-      });
-    }
-
-    const response = await fetch(`${API_BASE}/api/grok/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': aiSettings.apiKeys.grok
-      },
-      body: JSON.stringify({
-        model,
-        messages: grokMessages,
-        max_tokens: maxTokens,
-        stream: true
-      })
+      headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey },
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
@@ -896,58 +952,19 @@ export const useAIIntegration = () => {
     }
 
     return fullText.trim();
-  }, [aiSettings, addTokenUsage]);
+  }, [buildStreamRequest, addTokenUsage]);
 
   // v1.43.10: DeepSeek V4 streaming — mantém paridade com src/hooks/useAIIntegration.ts
   const callDeepseekAPIStream = useCallback(async (
     messages: AIMessage[],
     options: AICallOptions = {}
   ): Promise<string> => {
-    const {
-      maxTokens = 16000,
-      systemPrompt = null,
-      model = aiSettings.deepseekModel || 'deepseek-v4-flash',
-      disableThinking = false
-    } = options;
+    const { path, body, apiKey } = buildStreamRequest(messages, options, 'deepseek');
 
-    const deepseekMessages: GrokMessage[] = [];
-    if (systemPrompt) {
-      deepseekMessages.push({ role: 'system', content: systemPrompt });
-    }
-    for (const msg of messages) {
-      deepseekMessages.push({
-        role: msg.role,
-        content: Array.isArray(msg.content)
-          ? msg.content.map(c => {
-              if (typeof c === 'string') return c;
-              if (c.type === 'text') return c.text;
-              if (c.type === 'document') return '[PDF anexo omitido — provider não suporta envio binário]';
-              return '';
-            }).join('\n')
-          : msg.content
-      });
-    }
-
-    const thinkingEnabled = !disableThinking && (aiSettings.deepseekThinking !== false);
-    const reasoningEffort = aiSettings.deepseekReasoningEffort || 'high';
-    const streamBody: Record<string, unknown> = {
-      model,
-      messages: deepseekMessages,
-      max_tokens: maxTokens,
-      stream: true,
-      thinking: { type: thinkingEnabled ? 'enabled' : 'disabled' }
-    };
-    if (thinkingEnabled) {
-      streamBody.reasoning_effort = reasoningEffort;
-    }
-
-    const response = await fetch(`${API_BASE}/api/deepseek/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': aiSettings.apiKeys.deepseek || ''
-      },
-      body: JSON.stringify(streamBody)
+      headers: { 'Content-Type': 'application/json', 'x-api-key': apiKey },
+      body: JSON.stringify(body)
     });
 
     if (!response.ok) {
@@ -1008,6 +1025,32 @@ export const useAIIntegration = () => {
     }
 
     return fullText.trim();
+  }, [buildStreamRequest, addTokenUsage]);
+
+  // v1.53.38: LLM local com streaming (mesmo formato SSE dos demais providers)
+  const callLocalLlmAPIStream = useCallback(async (
+    messages: AIMessage[],
+    options: AICallOptions = {}
+  ): Promise<string> => {
+    const result = await streamLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys['local-llm'],
+      model: options.model || aiSettings.localLlmModel || '',
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens ?? 16000,
+      temperature: options.temperature,
+      signal: options.abortSignal
+    });
+    if (result.usage) {
+      addTokenUsage({
+        input: result.usage.prompt_tokens || 0,
+        output: result.usage.completion_tokens || 0
+      });
+    }
+    return localLlmResponseText(result);
   }, [aiSettings, addTokenUsage]);
 
   /**
@@ -1036,6 +1079,8 @@ export const useAIIntegration = () => {
         return callGrokAPIStream(messages, options);
       case 'deepseek':
         return callDeepseekAPIStream(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPIStream(messages, options);
       case 'claude-cli':
         // v1 sem streaming: cai para o caminho não-stream via bridge local
         return callClaudeAPI(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
@@ -1044,7 +1089,7 @@ export const useAIIntegration = () => {
       default:
         return callClaudeAPIStream(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callOpenAIAPI, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream]);
+  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callOpenAIAPI, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLocalLlmAPIStream]);
 
   const callAI = useCallback(async (
     messages: AIMessage[],
@@ -1070,6 +1115,8 @@ export const useAIIntegration = () => {
         return callGrokAPI(messages, options);
       case 'deepseek':
         return callDeepseekAPI(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPI(messages, options);
       case 'claude-cli':
         return callClaudeAPI(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
       case 'codex-cli':
@@ -1077,7 +1124,7 @@ export const useAIIntegration = () => {
       default:
         return callClaudeAPI(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI]);
+  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI, callLocalLlmAPI]);
 
   return {
     callAI,
@@ -1087,11 +1134,14 @@ export const useAIIntegration = () => {
     callOpenAIAPI,
     callGrokAPI,
     callDeepseekAPI,
+    callLocalLlmAPI,
     callClaudeAPIStream,
     callGeminiAPIStream,
     callOpenAIAPIStream,
     callGrokAPIStream,
     callDeepseekAPIStream,
+    callLocalLlmAPIStream,
+    buildStreamRequest,
     aiSettings
   };
 };
@@ -11,6 +11,7 @@ import type {
   SavedAnalysis,
   AnalysisResult,
   ResultadoAudiencia,
+  AntecedentesReclamada,
 } from '../types/analysis.types';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -47,6 +48,19 @@ interface BatchDeleteResponse {
   deletedCount: number;
 }
 
+/** Resposta da API de antecedentes */
+interface AntecedentesResponse {
+  antecedentes: AntecedentesReclamada[];
+}
+
+/** Parâmetros para busca de antecedentes */
+export interface AntecedentesParams {
+  reclamadas: string[];
+  /** Análise aberta (fica de fora do resultado) */
+  excludeId?: string | null;
+  numeroProcesso?: string | null;
+}
+
 /** Parâmetros para criação de análise */
 export interface CreateAnalysisParams {
   resultado: AnalysisResult;
@@ -94,6 +108,7 @@ export interface UseAnalysesAPIReturn {
   deleteAnalysis: (id: string) => Promise<boolean>;
   updateBatchDataPauta: (ids: string[], dataPauta: string | null) => Promise<number>;
   deleteBatch: (ids: string[]) => Promise<number>;
+  fetchAntecedentes: (params: AntecedentesParams) => Promise<AntecedentesReclamada[] | null>;
   isLoading: boolean;
   error: string | null;
 }
@@ -534,6 +549,41 @@ export function useAnalysesAPI(): UseAnalysesAPIReturn {
     [isAuthenticated, authFetch, removeAnalyses, setError]
   );
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ANTECEDENTES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Processos anteriores (prepauta e prova oral) contra as mesmas reclamadas.
+   * Não altera loading/error do store: o painel falha em silêncio.
+   * @returns Antecedentes por reclamada ou null se falhou
+   */
+  const fetchAntecedentes = useCallback(
+    async ({ reclamadas, excludeId, numeroProcesso }: AntecedentesParams): Promise<AntecedentesReclamada[] | null> => {
+      if (!isAuthenticated || reclamadas.length === 0) return null;
+
+      try {
+        const params = new URLSearchParams();
+        reclamadas.forEach((r) => params.append('reclamada', r));
+        if (excludeId) params.append('excludeId', excludeId);
+        if (numeroProcesso) params.append('numeroProcesso', numeroProcesso);
+
+        const res = await authFetch(`${API_BASE}/antecedentes?${params.toString()}`);
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Erro ao buscar antecedentes');
+        }
+
+        const data: AntecedentesResponse = await res.json();
+        return data.antecedentes;
+      } catch (err) {
+        console.warn('[Analisador] Erro ao buscar antecedentes:', err);
+        return null;
+      }
+    },
+    [isAuthenticated, authFetch]
+  );
+
   return {
     fetchAnalyses,
     fetchAnalysis,
@@ -543,6 +593,7 @@ export function useAnalysesAPI(): UseAnalysesAPIReturn {
     deleteAnalysis,
     updateBatchDataPauta,
     deleteBatch,
+    fetchAntecedentes,
     isLoading,
     error,
   };
@@ -9,7 +9,7 @@ import { useDocumentStore, useResultStore, useAIStore } from '../stores';
 import { useAIIntegration } from './useAIIntegration';
 import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisPrompt } from '../prompts';
 import { providerSupportsPdfBinary } from '../constants';
-import type { AnalysisResult, AIMessage, AIMessageContent, DocumentFile, PedidoAnalise } from '../types';
+import type { AnalysisResult, AICallOptions, AIMessage, AIMessageContent, DocumentFile, PedidoAnalise } from '../types';
 import { parseAIResponse, extractJSON, sanitizeJsonControlChars, AnalysisResponseSchema } from '../../../schemas/ai-responses';
 import { generateTabelaSintetica } from '../utils/tabela';
 
@@ -40,6 +40,81 @@ const ensureString = (value: unknown): string => {
   return String(value);
 };
 
+/** Opções da chamada de análise de cada processo do lote (navegador e servidor) */
+export const BATCH_ANALYSIS_OPTIONS: AICallOptions = {
+  maxTokens: 32000,
+  systemPrompt: ANALYSIS_SYSTEM_PROMPT
+};
+
+/** Documentos opcionalmente enviados como PDF binário no lote */
+export interface BatchBinaryDocs {
+  peticao?: { base64: string; name: string } | null;
+  emendas?: ({ base64: string; name: string } | null)[];
+  contestacoes?: ({ base64: string; name: string } | null)[];
+  nomeArquivoPeticao?: string;
+  nomesArquivosEmendas?: string[];
+  nomesArquivosContestacoes?: string[];
+}
+
+/**
+ * Mensagens da análise de um processo do lote (prompt + anexos binários).
+ * Compartilhado por analyzeWithAI (lote no navegador) e pelo lote em servidor
+ * (v1.53.51), que envia a mesma requisição ao AnalysisJobService.
+ *
+ * Aceita `contestacao` como string única (string|null, compat) OU array de strings.
+ * binaryDocs é ignorado quando o provider não suporta PDF binário.
+ */
+export const buildBatchAnalysisMessages = (
+  peticaoText: string,
+  contestacao: string | string[] | null,
+  emendasTexts: string[],
+  binaryDocs: BatchBinaryDocs | undefined,
+  providerCanBinary: boolean
+): AIMessage[] => {
+  const contestacoesArray: string[] = Array.isArray(contestacao)
+    ? contestacao
+    : (contestacao ? [contestacao] : []);
+
+  const peticaoBinary = providerCanBinary ? binaryDocs?.peticao : null;
+  const emendasBinary = providerCanBinary
+    ? (binaryDocs?.emendas || []).map(e => e || null)
+    : [];
+  const contestacoesBinary = providerCanBinary
+    ? (binaryDocs?.contestacoes || []).map(c => c || null)
+    : [];
+
+  const binaryFlags = {
+    peticao: !!peticaoBinary,
+    emendas: emendasBinary.map(e => !!e),
+    contestacoes: contestacoesBinary.map(c => !!c)
+  };
+
+  const userPrompt = buildAnalysisPrompt(
+    peticaoText,
+    emendasTexts,
+    contestacoesArray,
+    binaryDocs?.nomeArquivoPeticao,
+    binaryDocs?.nomesArquivosEmendas,
+    binaryDocs?.nomesArquivosContestacoes,
+    binaryFlags
+  );
+
+  const documentBlocks: AIMessageContent[] = [];
+  if (peticaoBinary?.base64) documentBlocks.push(buildDocumentBlock(peticaoBinary.base64));
+  emendasBinary.forEach(e => {
+    if (e?.base64) documentBlocks.push(buildDocumentBlock(e.base64));
+  });
+  contestacoesBinary.forEach(c => {
+    if (c?.base64) documentBlocks.push(buildDocumentBlock(c.base64));
+  });
+
+  const content: string | AIMessageContent[] = documentBlocks.length > 0
+    ? [...documentBlocks, { type: 'text', text: userPrompt }]
+    : userPrompt;
+
+  return [{ role: 'user', content }];
+};
+
 export const useAnalysis = () => {
   const { peticao, emendas, contestacoes, getAllDocumentsText, canAnalyze } = useDocumentStore();
   const { setResult, setIsAnalyzing, setProgress, setError, reset } = useResultStore();
@@ -227,68 +302,21 @@ export const useAnalysis = () => {
       peticaoText: string,
       contestacao: string | string[] | null,
       emendasTexts: string[] = [],
-      binaryDocs?: {
-        peticao?: { base64: string; name: string } | null;
-        emendas?: ({ base64: string; name: string } | null)[];
-        contestacoes?: ({ base64: string; name: string } | null)[];
-        nomeArquivoPeticao?: string;
-        nomesArquivosEmendas?: string[];
-        nomesArquivosContestacoes?: string[];
-      }
+      binaryDocs?: BatchBinaryDocs
     ): Promise<AnalysisResult | null> => {
       const MAX_PARSE_RETRIES = 2;
-      const contestacoesArray: string[] = Array.isArray(contestacao)
-        ? contestacao
-        : (contestacao ? [contestacao] : []);
-
       const provider = useAIStore.getState().aiSettings.provider;
-      const providerCanBinary = providerSupportsPdfBinary(provider);
-
-      const peticaoBinary = providerCanBinary ? binaryDocs?.peticao : null;
-      const emendasBinary = providerCanBinary
-        ? (binaryDocs?.emendas || []).map(e => e || null)
-        : [];
-      const contestacoesBinary = providerCanBinary
-        ? (binaryDocs?.contestacoes || []).map(c => c || null)
-        : [];
-
-      const binaryFlags = {
-        peticao: !!peticaoBinary,
-        emendas: emendasBinary.map(e => !!e),
-        contestacoes: contestacoesBinary.map(c => !!c)
-      };
-
-      const userPrompt = buildAnalysisPrompt(
+      const messages = buildBatchAnalysisMessages(
         peticaoText,
+        contestacao,
         emendasTexts,
-        contestacoesArray,
-        binaryDocs?.nomeArquivoPeticao,
-        binaryDocs?.nomesArquivosEmendas,
-        binaryDocs?.nomesArquivosContestacoes,
-        binaryFlags
+        binaryDocs,
+        providerSupportsPdfBinary(provider)
       );
 
-      const documentBlocks: AIMessageContent[] = [];
-      if (peticaoBinary?.base64) documentBlocks.push(buildDocumentBlock(peticaoBinary.base64));
-      emendasBinary.forEach(e => {
-        if (e?.base64) documentBlocks.push(buildDocumentBlock(e.base64));
-      });
-      contestacoesBinary.forEach(c => {
-        if (c?.base64) documentBlocks.push(buildDocumentBlock(c.base64));
-      });
-
-      const content: string | AIMessageContent[] = documentBlocks.length > 0
-        ? [...documentBlocks, { type: 'text', text: userPrompt }]
-        : userPrompt;
-
-      const messages: AIMessage[] = [{ role: 'user', content }];
-
       for (let attempt = 0; attempt <= MAX_PARSE_RETRIES; attempt++) {
         try {
-          const response = await callAIStream(messages, {
-            maxTokens: 32000,
-            systemPrompt: ANALYSIS_SYSTEM_PROMPT
-          });
+          const response = await callAIStream(messages, BATCH_ANALYSIS_OPTIONS);
           return parseAnalysisResult(response);
         } catch (error) {
           if (attempt < MAX_PARSE_RETRIES) {
@@ -0,0 +1,141 @@
+/**
+ * @file useAnalysisJobs.test.ts
+ * @description Testes do acompanhamento dos lotes no servidor: polling enquanto
+ * há lote ativo e retomada automática após reinício do servidor
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { AnalysisJob } from '../types/analysis.types';
+
+const mockAuthFetch = vi.fn();
+const mockState = {
+  aiSettings: { apiKeys: { claude: 'sk-claude', gemini: '' } as Record<string, string> },
+};
+
+vi.mock('../../../hooks', () => ({
+  useAuthMagicLink: () => ({ authFetch: mockAuthFetch, isAuthenticated: true }),
+}));
+
+vi.mock('../stores', () => ({
+  useAIStore: vi.fn((selector: (s: typeof mockState) => unknown) => selector(mockState)),
+}));
+
+import { useAnalysisJobs } from './useAnalysisJobs';
+
+const job = (id: string, status: AnalysisJob['status'], provider = 'claude'): AnalysisJob => ({
+  id,
+  provider,
+  status,
+  total: 2,
+  concluidos: 0,
+  erros: 0,
+  pendentes: 2,
+  error: null,
+  items: [],
+  chavePersistida: false,
+  createdAt: '2026-10-19 10:00:00',
+  updatedAt: '2026-10-19 10:00:00',
+  finishedAt: null,
+});
+
+const respond = (data: unknown, status = 200) =>
+  Promise.resolve({ ok: status < 400, status, json: () => Promise.resolve(data) });
+
+/** Responde à listagem com a fila de estados informada (o último se repete) */
+const mockList = (...lists: AnalysisJob[][]) => {
+  let call = 0;
+  mockAuthFetch.mockImplementation((url: string, init?: RequestInit) => {
+    if (url === '/api/analysis-jobs' && !init?.method) {
+      const jobs = lists[Math.min(call++, lists.length - 1)];
+      return respond({ jobs });
+    }
+    const resume = url.match(/^\/api\/analysis-jobs\/(.+)\/resume$/);
+    if (resume) return respond(job(resume[1], 'na_fila'));
+    return respond({ error: 'não esperado' }, 404);
+  });
+};
+
+const listCalls = () => mockAuthFetch.mock.calls.filter(([url, init]) => url === '/api/analysis-jobs' && !init?.method);
+const resumeCalls = () => mockAuthFetch.mock.calls.filter(([url]) => String(url).endsWith('/resume'));
+
+/** Deixa as promessas pendentes resolverem e avança o relógio */
+const tick = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+describe('useAnalysisJobs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockAuthFetch.mockReset();
+    mockState.aiSettings.apiKeys = { claude: 'sk-claude', gemini: '' };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists jobs on mount and polls every 5s only while a job is active', async () => {
+    mockList([job('a', 'processando')], [job('a', 'processando')], [job('a', 'concluido')]);
+    const { result } = renderHook(() => useAnalysisJobs());
+
+    await tick();
+    expect(listCalls()).toHaveLength(1);
+    expect(result.current.jobs[0].status).toBe('processando');
+
+    await tick(5000);
+    expect(listCalls()).toHaveLength(2);
+
+    await tick(5000);
+    expect(listCalls()).toHaveLength(3);
+    expect(result.current.jobs[0].status).toBe('concluido');
+
+    // Sem lote ativo o intervalo é desfeito
+    await tick(15000);
+    expect(listCalls()).toHaveLength(3);
+  });
+
+  it('does not poll when no job is active', async () => {
+    mockList([job('a', 'concluido'), job('b', 'interrompido')]);
+    renderHook(() => useAnalysisJobs());
+
+    await tick();
+    await tick(20000);
+    expect(listCalls()).toHaveLength(1);
+  });
+
+  it('resumes a job waiting for the key once, sending the provider key', async () => {
+    mockList([job('a', 'aguardando_chave')], [job('a', 'aguardando_chave')]);
+    const { result } = renderHook(() => useAnalysisJobs());
+
+    await tick();
+    expect(resumeCalls()).toHaveLength(1);
+    const [url, init] = resumeCalls()[0];
+    expect(url).toBe('/api/analysis-jobs/a/resume');
+    expect(init.method).toBe('POST');
+    expect(init.headers['x-api-key']).toBe('sk-claude');
+    expect(result.current.jobs[0].status).toBe('na_fila');
+
+    // A retomada deixou o lote ativo: o polling volta a trazer 'aguardando_chave',
+    // mas a retomada automática não se repete
+    await tick(5000);
+    expect(listCalls()).toHaveLength(2);
+    expect(resumeCalls()).toHaveLength(1);
+  });
+
+  it('does not resume interrupted jobs or jobs without a configured key', async () => {
+    mockList([job('a', 'interrompido'), job('b', 'aguardando_chave', 'gemini')]);
+    renderHook(() => useAnalysisJobs());
+
+    await tick();
+    expect(resumeCalls()).toHaveLength(0);
+  });
+
+  it('resumeJob reports a missing key', async () => {
+    mockList([]);
+    const { result } = renderHook(() => useAnalysisJobs());
+    await tick();
+
+    await expect(result.current.resumeJob(job('b', 'interrompido', 'gemini'))).rejects.toThrow(
+      'Configure a chave de API de gemini para retomar o lote'
+    );
+  });
+});
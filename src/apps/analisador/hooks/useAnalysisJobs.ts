@@ -0,0 +1,168 @@
+/**
+ * @file useAnalysisJobs.ts
+ * @description Hook da fila de lote no servidor (/api/analysis-jobs): envia os
+ * processos, acompanha o progresso e retoma lotes após reinício do servidor
+ * @version 1.53.51
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuthMagicLink } from '../../../hooks';
+import { useAIStore } from '../stores';
+import type { AnalysisJob, ProxyStreamRequest } from '../types/analysis.types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const API_BASE = '/api/analysis-jobs';
+
+/** Intervalo de atualização enquanto há lote em andamento */
+const POLL_INTERVAL_MS = 5000;
+
+const ACTIVE_STATUSES: AnalysisJob['status'][] = ['na_fila', 'processando'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Processo enviado ao lote */
+export interface AddJobItemParams {
+  numeroProcesso: string | null;
+  nomeArquivoPeticao: string;
+  nomesArquivosEmendas: string[];
+  nomesArquivosContestacoes: string[];
+  request: Pick<ProxyStreamRequest, 'path' | 'body'>;
+}
+
+export const isJobActive = (job: AnalysisJob): boolean => ACTIVE_STATUSES.includes(job.status);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HOOK
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lotes do usuário no servidor. Erros das ações viram exceção (o BatchMode
+ * mostra no toast); a listagem periódica falha em silêncio.
+ */
+export function useAnalysisJobs() {
+  const { authFetch, isAuthenticated } = useAuthMagicLink();
+  const apiKeys = useAIStore((s) => s.aiSettings.apiKeys);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const resumedRef = useRef(new Set<string>());
+
+  const request = useCallback(
+    async <T,>(path: string, init?: RequestInit, apiKey?: string): Promise<T> => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers['x-api-key'] = apiKey;
+      const res = await authFetch(`${API_BASE}${path}`, { ...init, headers });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      return data as T;
+    },
+    [authFetch]
+  );
+
+  /** Atualiza um lote na lista (ou insere no topo) */
+  const upsertJob = useCallback((job: AnalysisJob) => {
+    setJobs((prev) => (prev.some((j) => j.id === job.id)
+      ? prev.map((j) => (j.id === job.id ? job : j))
+      : [job, ...prev]));
+  }, []);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // LISTAGEM
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const fetchJobs = useCallback(async (): Promise<AnalysisJob[]> => {
+    if (!isAuthenticated) return [];
+    try {
+      const data = await request<{ jobs: AnalysisJob[] }>('');
+      setJobs(data.jobs);
+      return data.jobs;
+    } catch (err) {
+      console.warn('[Analisador] Erro ao listar lotes:', err);
+      return [];
+    }
+  }, [isAuthenticated, request]);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ENVIO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const createJob = useCallback(async (provider: string): Promise<string> => {
+    const { id } = await request<{ id: string }>('', { method: 'POST', body: JSON.stringify({ provider }) });
+    return id;
+  }, [request]);
+
+  const addJobItem = useCallback(async (jobId: string, params: AddJobItemParams): Promise<void> => {
+    await request(`/${jobId}/items`, { method: 'POST', body: JSON.stringify(params) });
+  }, [request]);
+
+  const startJob = useCallback(async (jobId: string, apiKey: string): Promise<AnalysisJob> => {
+    const job = await request<AnalysisJob>(`/${jobId}/start`, { method: 'POST' }, apiKey);
+    upsertJob(job);
+    return job;
+  }, [request, upsertJob]);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // AÇÕES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** Reenvia a chave (após reinício do servidor) e repete os processos com erro */
+  const resumeJob = useCallback(async (job: AnalysisJob): Promise<AnalysisJob> => {
+    const apiKey = apiKeys[job.provider as keyof typeof apiKeys];
+    if (!apiKey) throw new Error(`Configure a chave de API de ${job.provider} para retomar o lote`);
+    const updated = await request<AnalysisJob>(`/${job.id}/resume`, { method: 'POST' }, apiKey);
+    upsertJob(updated);
+    return updated;
+  }, [apiKeys, request, upsertJob]);
+
+  const cancelJob = useCallback(async (jobId: string): Promise<void> => {
+    upsertJob(await request<AnalysisJob>(`/${jobId}/cancel`, { method: 'POST' }));
+  }, [request, upsertJob]);
+
+  const deleteJob = useCallback(async (jobId: string): Promise<void> => {
+    await request(`/${jobId}`, { method: 'DELETE' });
+    setJobs((prev) => prev.filter((j) => j.id !== jobId));
+  }, [request]);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ACOMPANHAMENTO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const hasActive = jobs.some(isJobActive);
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, fetchJobs]);
+
+  // Servidor reiniciou: retoma sozinho uma vez por lote se a chave estiver configurada
+  useEffect(() => {
+    jobs
+      .filter((job) => job.status === 'aguardando_chave' && !resumedRef.current.has(job.id))
+      .forEach((job) => {
+        resumedRef.current.add(job.id);
+        if (apiKeys[job.provider as keyof typeof apiKeys]) {
+          resumeJob(job).catch((err) => console.warn('[Analisador] Erro ao retomar lote:', err));
+        }
+      });
+  }, [jobs, apiKeys, resumeJob]);
+
+  return {
+    jobs,
+    fetchJobs,
+    createJob,
+    addJobItem,
+    startJob,
+    resumeJob,
+    cancelJob,
+    deleteJob,
+  };
+}
+
+export default useAnalysisJobs;
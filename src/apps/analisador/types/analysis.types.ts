@@ -65,6 +65,38 @@ export interface Prejudiciais {
   decadencia?: DecadenciaData;
 }
 
+/** Situação de um pedido frente à prescrição calculada */
+export type PrescricaoSituacao = 'integral' | 'parcial';
+
+export interface PedidoPrescricao {
+  numero: number;
+  situacao: PrescricaoSituacao;
+  /** Período do pedido reconhecido em `periodo` (AAAA-MM-DD) */
+  periodoInicio: string;
+  periodoFim: string;
+}
+
+/**
+ * Prescrição calculada localmente a partir das datas extraídas
+ * (independe do que as partes alegaram em PrescricaoData). Datas em AAAA-MM-DD.
+ */
+export interface PrescricaoCalculada {
+  ajuizamento: string;
+  admissao?: string;
+  demissao?: string;
+  /** Dias de aviso prévio projetados (só na dispensa imotivada) */
+  avisoPrevioDias?: number;
+  /** Fim do contrato com a projeção do aviso (OJ 82 da SDI-1) */
+  terminoProjetado?: string;
+  /** Último dia para ajuizar (art. 7º, XXIX, da CF) */
+  limiteBienal?: string;
+  bienalConsumada: boolean;
+  /** Parcelas exigíveis antes desta data estão prescritas (Súmula 308, I) */
+  marcoQuinquenal: string;
+  pedidos: PedidoPrescricao[];
+  alertas: Alerta[];
+}
+
 export interface PedidoAnalise {
   numero: number;
   tema: string;
@@ -279,8 +311,96 @@ export interface BatchResult {
   pair: BatchPair;
 }
 
+/** Requisição SSE pronta para um proxy de IA (/api/<provider>/stream) */
+export interface ProxyStreamRequest {
+  path: string;
+  body: Record<string, unknown>;
+  apiKey: string;
+}
+
+/** Status de um lote processado no servidor (v1.53.51) */
+export type AnalysisJobStatus =
+  | 'recebendo'
+  | 'na_fila'
+  | 'processando'
+  | 'aguardando_chave'
+  | 'interrompido'
+  | 'concluido'
+  | 'cancelado';
+
+/** Processo de um lote no servidor */
+export interface AnalysisJobItem {
+  id: string;
+  position: number;
+  numeroProcesso: string | null;
+  nomeArquivoPeticao: string | null;
+  nomesArquivosContestacoes: string[];
+  status: 'pendente' | 'processando' | 'concluido' | 'erro' | 'cancelado';
+  attempts: number;
+  error: string | null;
+  analysisId: string | null;
+  updatedAt: string;
+}
+
+/** Lote processado no servidor: sobrevive a recarregar/fechar a aba */
+export interface AnalysisJob {
+  id: string;
+  provider: string;
+  status: AnalysisJobStatus;
+  total: number;
+  concluidos: number;
+  erros: number;
+  pendentes: number;
+  /** Motivo de 'interrompido' (chave inválida, orçamento de IA esgotado) */
+  error: string | null;
+  items: AnalysisJobItem[];
+  /** Chave de API cifrada no servidor: o lote retoma sozinho após reinício */
+  chavePersistida: boolean;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
 /** Agrupamento por data da pauta */
 export interface PautaGroup {
   dataPauta: string;
   analyses: SavedAnalysis[];
 }
+
+/** Processo anterior contra a reclamada (análise de prepauta) */
+export interface AntecedenteAnalise {
+  id: string;
+  numeroProcesso: string | null;
+  reclamante: string | null;
+  /** Grafia da reclamada naquele processo */
+  reclamadaCitada: string | null;
+  dataPauta: string | null;
+  resultadoAudiencia: ResultadoAudiencia | null;
+  createdAt: string;
+  /** Tese da reclamada: preliminares/prejudiciais e defesa por tema */
+  teses: {
+    preliminares: string[];
+    defesas: { tema: string; defesa: string }[];
+  };
+}
+
+/** Prova oral de processo anterior (candidata a prova emprestada) */
+export interface AntecedenteProvaOral {
+  id: string;
+  numeroProcesso: string | null;
+  reclamante: string | null;
+  reclamada: string | null;
+  vara: string | null;
+  createdAt: string;
+  depoentes: number;
+  temas: string[];
+}
+
+/** Antecedentes de uma reclamada (GET /api/analyses/antecedentes) */
+export interface AntecedentesReclamada {
+  reclamada: string;
+  totalAnalyses: number;
+  totalProvaOral: number;
+  analyses: AntecedenteAnalise[];
+  provaOral: AntecedenteProvaOral[];
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEstatisticas,
+  calcAcordoPorReclamada,
+  calcValorPorRito,
+  countTemas,
+  filterByPeriodo,
+  findReclamadasRecorrentes,
+  periodoFromPreset,
+} from './estatisticas';
+import type { AnalysisResult, PedidoAnalise, SavedAnalysis } from '../types';
+
+const pedido = (tema: string): PedidoAnalise => ({
+  numero: 1,
+  tema,
+  descricao: '',
+  fatosReclamante: '',
+  controversia: true,
+  pontosEsclarecer: [],
+});
+
+const analysis = (id: string, extra: Partial<SavedAnalysis> = {}, resultado: Partial<AnalysisResult> = {}): SavedAnalysis => ({
+  id,
+  numeroProcesso: `0000${id}-12.2025.5.08.0001`,
+  reclamante: 'Maria Souza',
+  reclamadas: ['Alfa S.A.'],
+  nomeArquivoPeticao: null,
+  nomesArquivosEmendas: [],
+  nomesArquivosContestacoes: [],
+  dataPauta: null,
+  horarioAudiencia: null,
+  resultadoAudiencia: null,
+  pendencias: [],
+  observacoes: null,
+  sintese: null,
+  resultado: { pedidos: [], ...resultado } as AnalysisResult,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-02T10:00:00.000Z',
+  ...extra,
+});
+
+describe('periodoFromPreset / filterByPeriodo', () => {
+  it('builds inclusive ranges ending today', () => {
+    const today = new Date(2026, 9, 19, 12);
+    expect(periodoFromPreset('30d', today)).toEqual({ inicio: '2026-09-19', fim: '2026-10-19' });
+    expect(periodoFromPreset('12m', today)).toEqual({ inicio: '2025-10-19', fim: '2026-10-19' });
+    expect(periodoFromPreset('todos', today)).toEqual({ inicio: null, fim: null });
+  });
+
+  it('filters by pauta date, falling back to the analysis date', () => {
+    const list = [
+      analysis('1', { dataPauta: '2026-09-01' }),
+      analysis('2', { dataPauta: '2026-11-10' }),
+      analysis('3', { createdAt: '2026-10-05T12:00:00.000Z' }),
+    ];
+    const ids = filterByPeriodo(list, { inicio: '2026-09-01', fim: '2026-10-31' }).map((a) => a.id);
+    expect(ids).toEqual(['1', '3']);
+  });
+});
+
+describe('countTemas', () => {
+  it('counts each tema once per process, ignoring case, accents and concatenated values', () => {
+    const list = [
+      analysis('1', {}, { pedidos: [pedido('Horas extras'), pedido('HORAS EXTRAS(1200.50)'), pedido('FGTS')] }),
+      analysis('2', {}, { pedidos: [pedido('horas extras'), pedido('Dano moral')] }),
+      analysis('3', {}, { pedidos: [pedido('Dano Moral')] }),
+    ];
+    expect(countTemas(list)).toEqual([
+      { tema: 'Dano moral', processos: 2 },
+      { tema: 'Horas extras', processos: 2 },
+      { tema: 'FGTS', processos: 1 },
+    ]);
+  });
+});
+
+describe('calcAcordoPorReclamada / findReclamadasRecorrentes', () => {
+  const list = [
+    analysis('1', { reclamadas: ['Alfa S.A.'], resultadoAudiencia: 'acordo', dataPauta: '2026-08-01' }),
+    analysis('2', { reclamadas: ['ALFA SA', 'Beta Ltda'], resultadoAudiencia: 'sentenca', dataPauta: '2026-09-01' }),
+    analysis('3', { reclamadas: ['Alfa S/A'], resultadoAudiencia: 'adiamento', dataPauta: '2026-10-01' }),
+    analysis('4', { reclamadas: ['Beta Ltda'], resultadoAudiencia: null }),
+  ];
+
+  it('computes agreement rate over hearings that took place', () => {
+    expect(calcAcordoPorReclamada(list)).toEqual([
+      { reclamada: 'Alfa S.A.', audiencias: 2, acordos: 1, taxa: 50 },
+      { reclamada: 'Beta Ltda', audiencias: 1, acordos: 0, taxa: 0 },
+    ]);
+  });
+
+  it('lists defendants with two or more processes and the latest date', () => {
+    expect(findReclamadasRecorrentes(list)).toEqual([
+      { reclamada: 'Alfa S.A.', processos: 3, acordos: 1, ultimaData: '2026-10-01' },
+      { reclamada: 'Beta Ltda', processos: 2, acordos: 0, ultimaData: '2026-10-01' },
+    ]);
+  });
+
+  it('groups defendants like the antecedentes panel (CNPJ root, close spellings)', () => {
+    const recorrentes = findReclamadasRecorrentes([
+      analysis('1', { reclamadas: ['Rodobens Caminhões 12.345.678/0001-90'] }),
+      analysis('2', { reclamadas: ['Filial Belém 12.345.678/0002-71'] }),
+      analysis('3', { reclamadas: ['RODOBEMS CAMINHOES'] }),
+      analysis('4', { reclamadas: ['Gama Transportes'] }),
+    ]);
+    expect(recorrentes).toEqual([
+      { reclamada: 'Rodobens Caminhões 12.345.678/0001-90', processos: 3, acordos: 0, ultimaData: '2026-10-01' },
+    ]);
+  });
+});
+
+describe('calcValorPorRito / buildEstatisticas', () => {
+  const valor = (valorTotal: number) => ({ valorCausa: { valorTotal, somaPedidos: valorTotal, inconsistencia: false } });
+
+  it('averages valor da causa per calculated rito, skipping missing values', () => {
+    const list = [
+      analysis('1', {}, valor(3000)),
+      analysis('2', {}, valor(20000)),
+      analysis('3', {}, valor(40000)),
+      analysis('4', {}, valor(200000)),
+      analysis('5', {}, valor(0)),
+    ];
+    expect(calcValorPorRito(list)).toEqual([
+      { rito: 'ordinario', label: 'Ordinário', processos: 1, valorMedio: 200000 },
+      { rito: 'sumarissimo', label: 'Sumaríssimo', processos: 2, valorMedio: 30000 },
+      { rito: 'sumario', label: 'Sumário', processos: 1, valorMedio: 3000 },
+    ]);
+  });
+
+  it('summarizes only the selected period', () => {
+    const list = [
+      analysis('1', { dataPauta: '2026-10-10', resultadoAudiencia: 'acordo' }),
+      analysis('2', { dataPauta: '2026-10-11', resultadoAudiencia: 'cancelada' }),
+      analysis('3', { dataPauta: '2025-01-01', resultadoAudiencia: 'acordo' }),
+    ];
+    const stats = buildEstatisticas(list, { inicio: '2026-10-01', fim: '2026-10-31' });
+    expect(stats.totalProcessos).toBe(2);
+    expect(stats.totalAudiencias).toBe(1);
+    expect(stats.totalAcordos).toBe(1);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @file estatisticas.ts
+ * @description Estatísticas da vara sobre as análises salvas: temas de pedido
+ * mais frequentes, taxa de acordo por reclamada, valor médio da causa por rito
+ * e reclamadas recorrentes. O período usa a data da pauta (ou a da análise,
+ * para processos ainda sem pauta). Reclamadas são agrupadas pela mesma
+ * comparação dos antecedentes (shared/partyMatch), com CNPJ e grafias próximas.
+ */
+
+import type { ResultadoAudiencia, RitoType, SavedAnalysis } from '../types';
+import { parseThemeAndValue } from './format-pedido';
+import { calcularRito, RITO_LABELS } from './rito';
+import { toDateKey } from './pauta';
+import { normalizeParty, partiesMatch } from '../../../../shared/partyMatch';
+
+export type PeriodoPreset = '30d' | '90d' | '12m' | 'todos' | 'personalizado';
+
+/** Intervalo inclusivo em AAAA-MM-DD; null = sem limite */
+export interface Periodo {
+  inicio: string | null;
+  fim: string | null;
+}
+
+export interface TemaFrequente {
+  tema: string;
+  processos: number;
+}
+
+export interface AcordoReclamada {
+  reclamada: string;
+  audiencias: number;
+  acordos: number;
+  /** 0–100 */
+  taxa: number;
+}
+
+export interface ValorPorRito {
+  rito: RitoType;
+  label: string;
+  processos: number;
+  valorMedio: number;
+}
+
+export interface ReclamadaRecorrente {
+  reclamada: string;
+  processos: number;
+  acordos: number;
+  ultimaData: string;
+}
+
+export interface Estatisticas {
+  totalProcessos: number;
+  totalAudiencias: number;
+  totalAcordos: number;
+  temas: TemaFrequente[];
+  acordoPorReclamada: AcordoReclamada[];
+  valorPorRito: ValorPorRito[];
+  recorrentes: ReclamadaRecorrente[];
+}
+
+/**
+ * Resultados em que a audiência não chegou a ocorrer — não entram no
+ * denominador da taxa de acordo.
+ */
+const RESULTADOS_SEM_AUDIENCIA: ResultadoAudiencia[] = ['adiamento', 'redesignada_notificacao', 'cancelada'];
+
+const TOP_TEMAS = 10;
+const TOP_RECLAMADAS = 10;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERÍODO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Data usada no filtro: pauta, ou criação da análise */
+export const getDataReferencia = (analysis: SavedAnalysis): string =>
+  analysis.dataPauta || toDateKey(new Date(analysis.createdAt));
+
+export const periodoFromPreset = (preset: Exclude<PeriodoPreset, 'personalizado'>, today: Date): Periodo => {
+  if (preset === 'todos') return { inicio: null, fim: null };
+  const inicio = new Date(today);
+  if (preset === '12m') inicio.setFullYear(inicio.getFullYear() - 1);
+  else inicio.setDate(inicio.getDate() - (preset === '30d' ? 30 : 90));
+  return { inicio: toDateKey(inicio), fim: toDateKey(today) };
+};
+
+export const filterByPeriodo = (analyses: SavedAnalysis[], { inicio, fim }: Periodo): SavedAnalysis[] =>
+  analyses.filter((a) => {
+    const data = getDataReferencia(a);
+    return (!inicio || data >= inicio) && (!fim || data <= fim);
+  });
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AGRUPAMENTO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Chave de agrupamento de temas: sem acento, caixa e pontuação */
+export const normalizeNome = (nome: string): string =>
+  nome
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[./]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+
+const getReclamadas = (analysis: SavedAnalysis): string[] => {
+  const nomes = analysis.reclamadas?.length ? analysis.reclamadas : analysis.resultado?.identificacao?.reclamadas || [];
+  return nomes.filter((n): n is string => typeof n === 'string' && n.trim() !== '');
+};
+
+interface NomeGroup {
+  label: string;
+  analyses: SavedAnalysis[];
+}
+
+/**
+ * Agrupa por nome normalizado, uma vez por processo; o rótulo é a primeira
+ * grafia encontrada.
+ */
+const groupByNome = (
+  analyses: SavedAnalysis[],
+  getNomes: (a: SavedAnalysis) => string[]
+): Map<string, NomeGroup> => {
+  const groups = new Map<string, NomeGroup>();
+  for (const analysis of analyses) {
+    const seen = new Set<string>();
+    for (const nome of getNomes(analysis)) {
+      const key = normalizeNome(nome);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const group = groups.get(key) || { label: nome.trim(), analyses: [] };
+      group.analyses.push(analysis);
+      groups.set(key, group);
+    }
+  }
+  return groups;
+};
+
+/**
+ * Agrupa reclamadas como os antecedentes: mesmo CNPJ raiz, mesmo nome sem
+ * sufixos societários, nome contido no outro ou grafia muito parecida. Cada
+ * grupo compara contra a primeira grafia encontrada.
+ */
+const groupByReclamada = (analyses: SavedAnalysis[]): NomeGroup[] => {
+  const groups: (NomeGroup & { party: ReturnType<typeof normalizeParty> })[] = [];
+  for (const analysis of analyses) {
+    const seen = new Set<NomeGroup>();
+    for (const nome of getReclamadas(analysis)) {
+      const party = normalizeParty(nome);
+      if (!party.key && !party.cnpjRoot) continue;
+      let group = groups.find((g) => partiesMatch(g.party, party));
+      if (!group) {
+        group = { label: nome.trim(), analyses: [], party };
+        groups.push(group);
+      }
+      if (seen.has(group)) continue;
+      seen.add(group);
+      group.analyses.push(analysis);
+    }
+  }
+  return groups;
+};
+
+const teveAudiencia = (a: SavedAnalysis): boolean =>
+  a.resultadoAudiencia !== null && !RESULTADOS_SEM_AUDIENCIA.includes(a.resultadoAudiencia);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDICADORES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Temas mais frequentes, contados uma vez por processo */
+export const countTemas = (analyses: SavedAnalysis[], limit = TOP_TEMAS): TemaFrequente[] =>
+  Array.from(
+    groupByNome(analyses, (a) =>
+      (a.resultado?.pedidos || [])
+        .filter((p) => typeof p?.tema === 'string')
+        .map((p) => parseThemeAndValue(p.tema).cleanTema)
+    ).values()
+  )
+    .map((g) => ({ tema: g.label, processos: g.analyses.length }))
+    .sort((a, b) => b.processos - a.processos || a.tema.localeCompare(b.tema))
+    .slice(0, limit);
+
+/** Taxa de acordo por reclamada, entre as audiências realizadas */
+export const calcAcordoPorReclamada = (analyses: SavedAnalysis[], limit = TOP_RECLAMADAS): AcordoReclamada[] =>
+  groupByReclamada(analyses.filter(teveAudiencia))
+    .map((g) => {
+      const acordos = g.analyses.filter((a) => a.resultadoAudiencia === 'acordo').length;
+      return {
+        reclamada: g.label,
+        audiencias: g.analyses.length,
+        acordos,
+        taxa: Math.round((acordos / g.analyses.length) * 100),
+      };
+    })
+    .sort((a, b) => b.audiencias - a.audiencias || b.taxa - a.taxa)
+    .slice(0, limit);
+
+/** Valor médio da causa por rito (processos sem valor ficam de fora) */
+export const calcValorPorRito = (analyses: SavedAnalysis[]): ValorPorRito[] => {
+  const totals = new Map<RitoType, { soma: number; processos: number }>();
+  for (const analysis of analyses) {
+    const valor = Number(analysis.resultado?.valorCausa?.valorTotal);
+    if (!Number.isFinite(valor) || valor <= 0) continue;
+    const { rito } = calcularRito(valor, analysis.resultado?.identificacao?.temEntePublico === true);
+    const total = totals.get(rito) || { soma: 0, processos: 0 };
+    total.soma += valor;
+    total.processos += 1;
+    totals.set(rito, total);
+  }
+  return (Object.keys(RITO_LABELS) as RitoType[])
+    .filter((rito) => totals.has(rito))
+    .map((rito) => {
+      const { soma, processos } = totals.get(rito)!;
+      return { rito, label: RITO_LABELS[rito], processos, valorMedio: soma / processos };
+    });
+};
+
+/** Reclamadas com mais de um processo no período */
+export const findReclamadasRecorrentes = (analyses: SavedAnalysis[], minProcessos = 2): ReclamadaRecorrente[] =>
+  groupByReclamada(analyses)
+    .filter((g) => g.analyses.length >= minProcessos)
+    .map((g) => ({
+      reclamada: g.label,
+      processos: g.analyses.length,
+      acordos: g.analyses.filter((a) => a.resultadoAudiencia === 'acordo').length,
+      ultimaData: g.analyses.map(getDataReferencia).reduce((max, d) => (d > max ? d : max)),
+    }))
+    .sort((a, b) => b.processos - a.processos || a.reclamada.localeCompare(b.reclamada));
+
+export const buildEstatisticas = (analyses: SavedAnalysis[], periodo: Periodo): Estatisticas => {
+  const filtered = filterByPeriodo(analyses, periodo);
+  const realizadas = filtered.filter(teveAudiencia);
+  return {
+    totalProcessos: filtered.length,
+    totalAudiencias: realizadas.length,
+    totalAcordos: realizadas.filter((a) => a.resultadoAudiencia === 'acordo').length,
+    temas: countTemas(filtered),
+    acordoPorReclamada: calcAcordoPorReclamada(filtered),
+    valorPorRito: calcValorPorRito(filtered),
+    recorrentes: findReclamadasRecorrentes(filtered),
+  };
+};
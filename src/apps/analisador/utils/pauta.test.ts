@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildPautaIcs, getCalendarDays, groupByDay, shiftReference } from './pauta';
+import type { AnalysisResult, SavedAnalysis } from '../types';
+
+const analysis = (id: string, dataPauta: string | null, horarioAudiencia: string | null, extra: Partial<SavedAnalysis> = {}): SavedAnalysis => ({
+  id,
+  numeroProcesso: `0000${id}-12.2025.5.08.0001`,
+  reclamante: 'Maria Souza',
+  reclamadas: ['Alfa S.A.'],
+  nomeArquivoPeticao: null,
+  nomesArquivosEmendas: [],
+  nomesArquivosContestacoes: [],
+  dataPauta,
+  horarioAudiencia,
+  resultadoAudiencia: null,
+  pendencias: [],
+  observacoes: null,
+  sintese: null,
+  resultado: {} as AnalysisResult,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-02T10:00:00.000Z',
+  ...extra,
+});
+
+describe('getCalendarDays / shiftReference', () => {
+  it('returns the Monday-to-Sunday week of the reference date', () => {
+    expect(getCalendarDays('2026-10-21', 'semana')).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25',
+    ]);
+  });
+
+  it('covers the month with complete weeks', () => {
+    const days = getCalendarDays('2026-10-19', 'mes');
+    expect(days[0]).toBe('2026-09-28');
+    expect(days[days.length - 1]).toBe('2026-11-01');
+    expect(days.length % 7).toBe(0);
+  });
+
+  it('moves by one week or to the first day of the next month', () => {
+    expect(shiftReference('2026-10-19', 'semana', -1)).toBe('2026-10-12');
+    expect(shiftReference('2026-10-31', 'mes', 1)).toBe('2026-11-01');
+  });
+});
+
+describe('groupByDay', () => {
+  it('groups scheduled analyses by day sorted by time, untimed last', () => {
+    const byDay = groupByDay([
+      analysis('1', '2026-10-20', '14:00'),
+      analysis('2', '2026-10-20', null),
+      analysis('3', '2026-10-20', '09:30'),
+      analysis('4', null, '10:00'),
+    ]);
+    expect([...byDay.keys()]).toEqual(['2026-10-20']);
+    expect(byDay.get('2026-10-20')!.map(a => a.id)).toEqual(['3', '1', '2']);
+  });
+});
+
+describe('buildPautaIcs', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  it('emits timed events in São Paulo time with a stable UID and escaped text', () => {
+    const ics = buildPautaIcs([
+      analysis('7', '2026-10-20', '09:30', { sintese: 'Horas extras; intervalo, FGTS' }),
+    ], now);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:analise-7@sentencify');
+    expect(ics).toContain('DTSTAMP:20261019T120000Z');
+    expect(ics).toContain('DTSTART;TZID=America/Sao_Paulo:20261020T093000');
+    expect(ics).toContain('DTEND;TZID=America/Sao_Paulo:20261020T100000');
+    expect(ics.replace(/\r\n /g, '')).toContain('Síntese: Horas extras\\; intervalo\\, FGTS');
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+
+  it('uses all-day events without time, cancels cancelled hearings and skips unscheduled ones', () => {
+    const ics = buildPautaIcs([
+      analysis('8', '2026-10-31', null, { resultadoAudiencia: 'cancelada' }),
+      analysis('9', null, null),
+    ], now);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261031');
+    expect(ics).toContain('DTEND;VALUE=DATE:20261101');
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).not.toContain('analise-9');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * @file pauta.ts
+ * @description Calendário da pauta (semana/mês), exportação iCalendar (.ics)
+ * e lista do dia para impressão, a partir das análises salvas.
+ * Datas em AAAA-MM-DD (data_pauta), horários em HH:MM (horario_audiencia).
+ */
+
+import type { SavedAnalysis } from '../types';
+import { RESULTADO_OPTIONS, PENDENCIAS_OPCOES } from '../constants/audiencia';
+
+export type PautaView = 'semana' | 'mes';
+
+/** Duração presumida de cada audiência no calendário exportado */
+const DURACAO_AUDIENCIA_MIN = 30;
+
+const TIMEZONE = 'America/Sao_Paulo';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DATAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/** Date local → AAAA-MM-DD (sem passar por UTC) */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** AAAA-MM-DD → Date local ao meio-dia (imune a horário de verão) */
+export const fromDateKey = (key: string): Date => new Date(`${key}T12:00:00`);
+
+export const addDays = (key: string, days: number): string => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+/** Segunda-feira da semana da data */
+const startOfWeek = (key: string): string => {
+  const weekday = fromDateKey(key).getDay();
+  return addDays(key, weekday === 0 ? -6 : 1 - weekday);
+};
+
+/**
+ * Dias exibidos na visão: a semana (seg–dom) ou as semanas completas que cobrem o mês.
+ */
+export function getCalendarDays(referenceKey: string, view: PautaView): string[] {
+  if (view === 'semana') {
+    const start = startOfWeek(referenceKey);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const ref = fromDateKey(referenceKey);
+  const first = toDateKey(new Date(ref.getFullYear(), ref.getMonth(), 1, 12));
+  const last = toDateKey(new Date(ref.getFullYear(), ref.getMonth() + 1, 0, 12));
+  const days: string[] = [];
+  for (let key = startOfWeek(first); key <= last || days.length % 7 !== 0; key = addDays(key, 1)) {
+    days.push(key);
+  }
+  return days;
+}
+
+/** Avança/retrocede uma semana ou um mês */
+export function shiftReference(referenceKey: string, view: PautaView, direction: 1 | -1): string {
+  if (view === 'semana') return addDays(referenceKey, 7 * direction);
+  const ref = fromDateKey(referenceKey);
+  return toDateKey(new Date(ref.getFullYear(), ref.getMonth() + direction, 1, 12));
+}
+
+const minutesOf = (horario: string | null): number => {
+  const match = horario?.match(/^(\d{1,2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : Number.MAX_SAFE_INTEGER;
+};
+
+/** Análises com data de pauta agrupadas por dia, ordenadas pelo horário */
+export function groupByDay(analyses: SavedAnalysis[]): Map<string, SavedAnalysis[]> {
+  const byDay = new Map<string, SavedAnalysis[]>();
+  for (const analysis of analyses) {
+    if (!analysis.dataPauta) continue;
+    const list = byDay.get(analysis.dataPauta) || [];
+    list.push(analysis);
+    byDay.set(analysis.dataPauta, list);
+  }
+  for (const list of byDay.values()) {
+    list.sort((a, b) => minutesOf(a.horarioAudiencia) - minutesOf(b.horarioAudiencia));
+  }
+  return byDay;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXTOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const getPartes = (analysis: SavedAnalysis): string =>
+  [analysis.reclamante, (analysis.reclamadas || []).join(', ')].filter(Boolean).join(' x ') || 'Partes não identificadas';
+
+/** Rótulo do resultado sem o emoji da lista de filtros */
+export const getResultadoLabel = (analysis: SavedAnalysis): string | null => {
+  const option = RESULTADO_OPTIONS.find(o => o.value === analysis.resultadoAudiencia);
+  return option ? option.label.replace(/^[^\p{L}]+/u, '') : null;
+};
+
+/** Pendências gravadas como código (razoes_finais) → rótulo */
+export const getPendenciasLabels = (analysis: SavedAnalysis): string[] =>
+  (analysis.pendencias || []).map(value => PENDENCIAS_OPCOES.find(p => p.value === value)?.label || value);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ICALENDAR (RFC 5545)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const escapeIcs = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Quebra linhas longas em 75 octetos (continuação começa com espaço) */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const localDateTime = (dateKey: string, minutes: number): string =>
+  `${dateKey.replace(/-/g, '')}T${pad(Math.floor(minutes / 60) % 24)}${pad(minutes % 60)}00`;
+
+/**
+ * Calendário .ics com uma audiência por análise com data de pauta. O UID é
+ * estável (id da análise): reimportar o arquivo atualiza os eventos em vez de
+ * duplicá-los. Sem horário, o evento é de dia inteiro.
+ */
+export function buildPautaIcs(analyses: SavedAnalysis[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sentencify//Pauta de Audiencias//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Pauta de audiências',
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:-0300',
+    'TZOFFSETTO:-0300',
+    'TZNAME:-03',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+
+  for (const [day, list] of groupByDay(analyses)) {
+    for (const analysis of list) {
+      const start = minutesOf(analysis.horarioAudiencia);
+      const hasTime = start !== Number.MAX_SAFE_INTEGER;
+      const resultado = getResultadoLabel(analysis);
+      const description = [
+        getPartes(analysis),
+        analysis.sintese ? `Síntese: ${analysis.sintese}` : '',
+        resultado ? `Resultado: ${resultado}` : '',
+        analysis.pendencias?.length ? `Pendências: ${getPendenciasLabels(analysis).join(', ')}` : '',
+        analysis.observacoes ? `Observações: ${analysis.observacoes}` : '',
+      ].filter(Boolean).join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:analise-${analysis.id}@sentencify`,
+        `DTSTAMP:${icsDateTime(now)}`,
+        `LAST-MODIFIED:${icsDateTime(new Date(analysis.updatedAt || now))}`,
+        ...(hasTime
+          ? [
+            `DTSTART;TZID=${TIMEZONE}:${localDateTime(day, start)}`,
+            `DTEND;TZID=${TIMEZONE}:${localDateTime(day, start + DURACAO_AUDIENCIA_MIN)}`,
+          ]
+          : [
+            `DTSTART;VALUE=DATE:${day.replace(/-/g, '')}`,
+            `DTEND;VALUE=DATE:${addDays(day, 1).replace(/-/g, '')}`,
+          ]),
+        `SUMMARY:${escapeIcs(`Audiência ${analysis.numeroProcesso || 'sem número'} - ${getPartes(analysis)}`)}`,
+        `DESCRIPTION:${escapeIcs(description)}`,
+        ...(analysis.resultadoAudiencia === 'cancelada' ? ['STATUS:CANCELLED'] : []),
+        'END:VEVENT'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IMPRESSÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Página HTML autônoma com a pauta de um dia (para janela de impressão) */
+export function buildDayPrintHtml(dateKey: string, analyses: SavedAnalysis[]): string {
+  const title = fromDateKey(dateKey).toLocaleDateString('pt-BR', {
+    weekday: 'long', day: '2-digit', month: 'long', year: 'numeric',
+  });
+  const rows = analyses.map(a => `
+      <tr>
+        <td>${escapeHtml(a.horarioAudiencia || '—')}</td>
+        <td>${escapeHtml(a.numeroProcesso || '—')}</td>
+        <td>${escapeHtml(getPartes(a))}</td>
+        <td>${escapeHtml(a.sintese || '')}</td>
+        <td>${escapeHtml([getResultadoLabel(a), ...getPendenciasLabels(a)].filter(Boolean).join('; '))}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <title>Pauta - ${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 12px; margin: 24px; }
+    h1 { font-size: 16px; margin-bottom: 12px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #999; padding: 6px; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+  </style>
+</head>
+<body>
+  <h1>Pauta de audiências — ${escapeHtml(title)} (${analyses.length})</h1>
+  <table>
+    <thead>
+      <tr><th>Horário</th><th>Processo</th><th>Partes</th><th>Síntese</th><th>Resultado / pendências</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
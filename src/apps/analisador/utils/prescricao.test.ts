@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { calcularPrescricao, parsePeriodo } from './prescricao';
+import type { Contrato, PedidoAnalise } from '../types';
+
+const pedido = (numero: number, tema: string, periodo?: string): PedidoAnalise => ({
+  numero,
+  tema,
+  descricao: '',
+  periodo,
+  fatosReclamante: '',
+  controversia: true,
+  pontosEsclarecer: [],
+});
+
+const contrato = (dados: Contrato['dadosInicial'], contestacao?: Contrato['dadosContestacao']): Contrato => ({
+  dadosInicial: dados,
+  dadosContestacao: contestacao,
+  controversias: [],
+});
+
+describe('parsePeriodo', () => {
+  const ctx = { admissao: '2015-03-01', demissao: '2022-06-15', fallbackFim: '2023-01-10' };
+
+  it('reconhece datas completas, mês/ano e ano', () => {
+    expect(parsePeriodo('01/03/2016 a 15/06/2019', ctx)).toEqual({ inicio: '2016-03-01', fim: '2019-06-15' });
+    expect(parsePeriodo('de 03/2016 a 02/2017', ctx)).toEqual({ inicio: '2016-03-01', fim: '2017-02-28' });
+    expect(parsePeriodo('2016 a 2018', ctx)).toEqual({ inicio: '2016-01-01', fim: '2018-12-31' });
+  });
+
+  it('usa as datas do contrato para "todo o contrato" e "desde"', () => {
+    expect(parsePeriodo('Todo o contrato', ctx)).toEqual({ inicio: '2015-03-01', fim: '2022-06-15' });
+    expect(parsePeriodo('Desde 05/2018', ctx)).toEqual({ inicio: '2018-05-01', fim: '2022-06-15' });
+  });
+
+  it('retorna null sem datas reconhecíveis', () => {
+    expect(parsePeriodo('não informado', ctx)).toBeNull();
+    expect(parsePeriodo(undefined, ctx)).toBeNull();
+  });
+});
+
+describe('calcularPrescricao', () => {
+  it('retorna null sem data de ajuizamento', () => {
+    expect(calcularPrescricao({}, contrato({ dataAdmissao: '01/01/2015' }), [])).toBeNull();
+  });
+
+  it('calcula o marco quinquenal e classifica os pedidos', () => {
+    const result = calcularPrescricao(
+      { dataAjuizamento: '10/01/2023' },
+      contrato({ dataAdmissao: '01/03/2015', dataDemissao: '15/06/2022', motivoRescisao: 'pedido de demissão' }),
+      [
+        pedido(1, 'Horas extras', '01/03/2015 a 15/06/2022'),
+        pedido(2, 'Adicional noturno', '2016 a 2017'),
+        pedido(3, 'Diferenças salariais', '2019 a 2021'),
+        pedido(4, 'Anotação da CTPS', '01/03/2015 a 15/06/2022'),
+      ]
+    )!;
+
+    expect(result.marcoQuinquenal).toBe('2018-01-10');
+    expect(result.bienalConsumada).toBe(false);
+    expect(result.avisoPrevioDias).toBeUndefined();
+    expect(result.pedidos).toEqual([
+      { numero: 1, situacao: 'parcial', periodoInicio: '2015-03-01', periodoFim: '2022-06-15' },
+      { numero: 2, situacao: 'integral', periodoInicio: '2016-01-01', periodoFim: '2017-12-31' },
+    ]);
+    expect(result.alertas.map(a => a.severidade)).toEqual(['baixa', 'media']);
+    expect(result.alertas[1].descricao).toContain('10/01/2018');
+  });
+
+  it('projeta o aviso prévio proporcional antes do limite bienal', () => {
+    // 7 anos completos → 30 + 21 = 51 dias; 10/01/2021 + 51 = 02/03/2021
+    const result = calcularPrescricao(
+      { dataAjuizamento: '2023-02-20' },
+      contrato({ dataAdmissao: '2014-01-05', dataDemissao: '2021-01-10', motivoRescisao: 'Dispensa sem justa causa' }),
+      []
+    )!;
+
+    expect(result.avisoPrevioDias).toBe(51);
+    expect(result.terminoProjetado).toBe('2021-03-02');
+    expect(result.limiteBienal).toBe('2023-03-02');
+    expect(result.bienalConsumada).toBe(false);
+  });
+
+  it('sinaliza a prescrição bienal com severidade alta e todos os pedidos', () => {
+    const result = calcularPrescricao(
+      { dataAjuizamento: '2023-03-20' },
+      contrato({ dataAdmissao: '2014-01-05', dataDemissao: '2021-01-10', motivoRescisao: 'sem justa causa' }),
+      [pedido(1, 'Horas extras', 'todo o contrato'), pedido(2, 'Retificação da CTPS')]
+    )!;
+
+    expect(result.bienalConsumada).toBe(true);
+    expect(result.pedidos).toEqual([
+      { numero: 1, situacao: 'integral', periodoInicio: '2014-01-05', periodoFim: '2021-01-10' },
+    ]);
+    expect(result.alertas[0]).toMatchObject({ tipo: 'Prescrição bienal', severidade: 'alta' });
+    expect(result.alertas[0].descricao).toContain('02/03/2021');
+    expect(result.alertas[0].descricao).toContain('51 dias');
+  });
+
+  it('completa datas ausentes da inicial com as da contestação', () => {
+    const result = calcularPrescricao(
+      { dataAjuizamento: '2023-01-10' },
+      contrato({ dataAdmissao: '2015-03-01' }, { dataAdmissao: '2014-01-01', dataDemissao: '2020-05-31' }),
+      []
+    )!;
+
+    expect(result.admissao).toBe('2015-03-01');
+    expect(result.demissao).toBe('2020-05-31');
+    expect(result.bienalConsumada).toBe(true);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @file prescricao.ts
+ * @description Cálculo determinístico da prescrição trabalhista a partir das datas
+ * extraídas (ajuizamento, admissão, demissão): projeção do aviso prévio, limite
+ * bienal, marco quinquenal e pedidos atingidos pelo marco, convertidos em Alerta.
+ */
+
+import { calcularAvisoPrevioDias, liquidacaoParamsFromAnalise, toIsoDate } from '../../../utils/liquidacao';
+import type {
+  Alerta,
+  Contrato,
+  ContratoData,
+  Identificacao,
+  PedidoAnalise,
+  PedidoPrescricao,
+  PrescricaoCalculada,
+} from '../types';
+import { formatDateBR } from './format-date';
+
+const PRAZO_BIENAL_ANOS = 2;
+const PRAZO_QUINQUENAL_ANOS = 5;
+
+/** Pedidos meramente declaratórios/anotações na CTPS (art. 11, § 1º, da CLT) */
+const IMPRESCRITIVEL = /ctps|carteira de trabalho|reconhecimento d[eo] vinculo/;
+
+/** Período que se estende até o fim do contrato ("desde 03/2019", "a partir de...") */
+const ATE_O_FIM = /desde|a partir d|ate (a|o) (rescisao|dispensa|demissao|fim|termino|final)/;
+
+/** Período que cobre todo o pacto ("todo o contrato", "período contratual") */
+const CONTRATO_INTEIRO = /tod[oa] (o )?(contrato|pacto|periodo)|periodo contratual|contrato de trabalho/;
+
+const fold = (s: string): string => s.normalize('NFD').replace(/\p{Mn}/gu, '').toLowerCase();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DATAS (AAAA-MM-DD, sem fuso)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+const daysInMonth = (y: number, m: number): number => new Date(Date.UTC(y, m, 0)).getUTCDate();
+const toIso = (y: number, m: number, d: number): string => `${y}-${pad(m)}-${pad(d)}`;
+
+/** Normaliza "DD/MM/AAAA" ou "AAAA-MM-DD" validando o calendário; vazio se inválida */
+const parseDate = (value?: string): string => {
+  const iso = toIsoDate(value);
+  const [y, m, d] = iso.split('-').map(Number);
+  return iso && m >= 1 && m <= 12 && d >= 1 && d <= daysInMonth(y, m) ? iso : '';
+};
+
+const addDays = (iso: string, days: number): string => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+/** Soma anos mantendo dia e mês (29/02 vira 28/02 em ano não bissexto) */
+const addYears = (iso: string, years: number): string => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return toIso(y + years, m, Math.min(d, daysInMonth(y + years, m)));
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERÍODO DO PEDIDO
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DATE_TOKEN = /(\d{4})-(\d{2})-(\d{2})|(\d{1,2})\/(\d{1,2})\/(\d{4})|(\d{1,2})\/(\d{4})|\b((?:19|20)\d{2})\b/g;
+
+/**
+ * Reconhece o período de `pedido.periodo` (texto livre da IA). Cada data vale pelo
+ * intervalo que representa (dia, mês ou ano); "todo o contrato" usa admissão/demissão
+ * e "desde X" estende até a demissão. Null quando não há datas reconhecíveis.
+ */
+export function parsePeriodo(
+  periodo: string | undefined,
+  contrato: { admissao?: string; demissao?: string; fallbackFim: string }
+): { inicio: string; fim: string } | null {
+  if (!periodo?.trim()) return null;
+  const text = fold(periodo);
+  const ranges: Array<[string, string]> = [];
+
+  for (const match of text.matchAll(DATE_TOKEN)) {
+    if (match[1]) {
+      const iso = parseDate(match[0]);
+      if (iso) ranges.push([iso, iso]);
+    } else if (match[6]) {
+      const iso = parseDate(match[0]);
+      if (iso) ranges.push([iso, iso]);
+    } else if (match[8]) {
+      const y = Number(match[8]);
+      const m = Number(match[7]);
+      if (m >= 1 && m <= 12) ranges.push([toIso(y, m, 1), toIso(y, m, daysInMonth(y, m))]);
+    } else if (match[9]) {
+      const y = Number(match[9]);
+      ranges.push([toIso(y, 1, 1), toIso(y, 12, 31)]);
+    }
+  }
+
+  if (ranges.length === 0) {
+    if (CONTRATO_INTEIRO.test(text) && contrato.admissao) {
+      return { inicio: contrato.admissao, fim: contrato.demissao || contrato.fallbackFim };
+    }
+    return null;
+  }
+
+  const inicio = ranges.map(r => r[0]).sort()[0];
+  let fim = ranges.map(r => r[1]).sort()[ranges.length - 1];
+  if (ranges.length === 1 && ATE_O_FIM.test(text)) {
+    fim = contrato.demissao || contrato.fallbackFim;
+  }
+  return { inicio, fim };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CÁLCULO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Dados do contrato: petição inicial, completada pela contestação */
+const mergeContrato = (contrato?: Contrato): ContratoData => ({
+  ...contrato?.dadosContestacao,
+  ...Object.fromEntries(Object.entries(contrato?.dadosInicial || {}).filter(([, v]) => v)),
+});
+
+const labelPedido = (pedido: PedidoAnalise): string => `Pedido ${pedido.numero} (${pedido.tema})`;
+
+/**
+ * Calcula a prescrição bienal e quinquenal. Exige a data de ajuizamento; sem a
+ * demissão (contrato em curso) só o marco quinquenal é aplicado. O aviso prévio é
+ * projetado (Lei 12.506/2011) apenas na dispensa imotivada ou rescisão indireta.
+ */
+export function calcularPrescricao(
+  identificacao: Pick<Identificacao, 'dataAjuizamento'> | undefined,
+  contrato: Contrato | undefined,
+  pedidos: PedidoAnalise[]
+): PrescricaoCalculada | null {
+  const ajuizamento = parseDate(identificacao?.dataAjuizamento);
+  if (!ajuizamento) return null;
+
+  const dados = mergeContrato(contrato);
+  const admissao = parseDate(dados.dataAdmissao) || undefined;
+  const demissao = parseDate(dados.dataDemissao) || undefined;
+  const marcoQuinquenal = addYears(ajuizamento, -PRAZO_QUINQUENAL_ANOS);
+  const alertas: Alerta[] = [];
+
+  let avisoPrevioDias: number | undefined;
+  let terminoProjetado: string | undefined;
+  let limiteBienal: string | undefined;
+  if (demissao) {
+    const { motivo } = liquidacaoParamsFromAnalise({ motivoRescisao: dados.motivoRescisao }, []);
+    if (admissao && admissao <= demissao && (motivo === 'sem-justa-causa' || motivo === 'rescisao-indireta')) {
+      avisoPrevioDias = calcularAvisoPrevioDias(admissao, demissao);
+    }
+    terminoProjetado = avisoPrevioDias ? addDays(demissao, avisoPrevioDias) : demissao;
+    limiteBienal = addYears(terminoProjetado, PRAZO_BIENAL_ANOS);
+  }
+  const bienalConsumada = !!limiteBienal && ajuizamento > limiteBienal;
+
+  const resultado: PedidoPrescricao[] = [];
+  for (const pedido of pedidos) {
+    if (IMPRESCRITIVEL.test(fold(`${pedido.tema} ${pedido.descricao || ''}`))) continue;
+    const periodo = parsePeriodo(pedido.periodo, { admissao, demissao, fallbackFim: ajuizamento });
+
+    if (bienalConsumada) {
+      resultado.push({
+        numero: pedido.numero,
+        situacao: 'integral',
+        periodoInicio: periodo?.inicio || admissao || '',
+        periodoFim: periodo?.fim || demissao || '',
+      });
+      continue;
+    }
+    if (!periodo || periodo.inicio >= marcoQuinquenal) continue;
+
+    const situacao = periodo.fim < marcoQuinquenal ? 'integral' : 'parcial';
+    resultado.push({ numero: pedido.numero, situacao, periodoInicio: periodo.inicio, periodoFim: periodo.fim });
+    const intervalo = `${formatDateBR(periodo.inicio)} a ${formatDateBR(periodo.fim)}`;
+    alertas.push(situacao === 'integral'
+      ? {
+          tipo: 'Prescrição quinquenal',
+          descricao: `${labelPedido(pedido)}: período de ${intervalo} integralmente anterior ao marco quinquenal (${formatDateBR(marcoQuinquenal)}).`,
+          severidade: 'media',
+          recomendacao: 'Pronunciar a prescrição e extinguir o pedido com resolução do mérito (art. 487, II, do CPC).',
+        }
+      : {
+          tipo: 'Prescrição quinquenal parcial',
+          descricao: `${labelPedido(pedido)}: período de ${intervalo} alcança parcelas anteriores a ${formatDateBR(marcoQuinquenal)}.`,
+          severidade: 'baixa',
+          recomendacao: `Limitar a condenação às parcelas exigíveis a partir de ${formatDateBR(marcoQuinquenal)}.`,
+        });
+  }
+
+  if (bienalConsumada && terminoProjetado && limiteBienal) {
+    const projecao = avisoPrevioDias
+      ? ` (demissão em ${formatDateBR(demissao)} + ${avisoPrevioDias} dias de aviso prévio)`
+      : '';
+    alertas.unshift({
+      tipo: 'Prescrição bienal',
+      descricao: `Contrato extinto em ${formatDateBR(terminoProjetado)}${projecao}; o prazo para ajuizar terminou em ${formatDateBR(limiteBienal)} e a ação foi ajuizada em ${formatDateBR(ajuizamento)}.`,
+      severidade: 'alta',
+      recomendacao: 'Verificar causas de interrupção (protesto, ação anterior arquivada — Súmula 268) antes de pronunciar a prescrição total.',
+    });
+  }
+
+  return {
+    ajuizamento,
+    admissao,
+    demissao,
+    avisoPrevioDias,
+    terminoProjetado,
+    limiteBienal,
+    bienalConsumada,
+    marcoQuinquenal,
+    pedidos: resultado,
+    alertas,
+  };
+}
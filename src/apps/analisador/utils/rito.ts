@@ -0,0 +1,37 @@
+/**
+ * @file rito.ts
+ * @description Rito processual calculado pelo valor da causa (CLT Art. 852-A e
+ * Lei 5.584/70). Não confia no rito retornado pela IA, que pode estar incorreto.
+ */
+
+import type { RitoType } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES - Salário Mínimo 2026
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SALARIO_MINIMO_2026 = 1621.00;
+const LIMITE_SUMARIO = 2 * SALARIO_MINIMO_2026;        // R$ 3.242,00
+const LIMITE_SUMARISSIMO = 40 * SALARIO_MINIMO_2026;   // R$ 64.840,00
+
+export const RITO_LABELS: Record<RitoType, string> = {
+  ordinario: 'Ordinário',
+  sumarissimo: 'Sumaríssimo',
+  sumario: 'Sumário'
+};
+
+/**
+ * Calcula o rito e o motivo (exibido ao lado do badge)
+ * Ente público é sempre ordinário (CLT Art. 852-A, parágrafo único);
+ * sem valor, assume ordinário.
+ */
+export const calcularRito = (
+  valor?: number,
+  temEntePublico?: boolean
+): { rito: RitoType; motivo: string } => {
+  if (temEntePublico) return { rito: 'ordinario', motivo: 'ente público' };
+  if (!valor || valor <= 0) return { rito: 'ordinario', motivo: 'valor não informado' };
+  if (valor <= LIMITE_SUMARIO) return { rito: 'sumario', motivo: 'até 2 SM' };
+  if (valor <= LIMITE_SUMARISSIMO) return { rito: 'sumarissimo', motivo: 'até 40 SM' };
+  return { rito: 'ordinario', motivo: 'acima de 40 SM' };
+};
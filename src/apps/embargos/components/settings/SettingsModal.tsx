@@ -275,7 +275,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
         </div>
 
         {/* API Key do provedor selecionado */}
-        {!providerRequiresApiKey(provider) ? (
+        {provider === 'local-llm' ? null : !providerRequiresApiKey(provider) ? (
           <p className="text-xs text-slate-500 dark:text-slate-400">
             {provider === 'codex-cli' ? 'Codex Local usa o login do ChatGPT (OAuth)' : 'Claude Local usa o login do Claude Code (OAuth)'} — nenhuma API key necessária. Rode <code>npm run llm-bridge</code> para ligar o daemon local.
           </p>
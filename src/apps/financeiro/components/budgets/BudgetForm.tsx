@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button, Input, Select } from '../ui';
+import { CATEGORIES } from '../../constants/categories';
+import type { BudgetScope } from '../../types';
+
+interface BudgetFormData {
+  scope: BudgetScope;
+  target: string;
+  monthly_limit: number;
+}
+
+interface BudgetFormProps {
+  /** Titulares com despesas no mês (alvos possíveis de orçamento por titular) */
+  holders: string[];
+  onSubmit: (data: BudgetFormData) => void;
+  isLoading?: boolean;
+  initialData?: BudgetFormData;
+  onCancel?: () => void;
+}
+
+export default function BudgetForm({ holders, onSubmit, isLoading, initialData, onCancel }: BudgetFormProps) {
+  const [scope, setScope] = useState<BudgetScope>(initialData?.scope ?? 'category');
+
+  const scopeOptions = [
+    { value: 'category', label: 'Categoria' },
+    { value: 'holder', label: 'Titular do cartão' },
+  ];
+  const targetOptions = scope === 'category'
+    ? CATEGORIES.map((c) => ({ value: c.id, label: c.name }))
+    : [...new Set([...holders, ...(initialData?.scope === 'holder' ? [initialData.target] : [])])]
+      .map((h) => ({ value: h, label: h }));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fd = new FormData(e.currentTarget);
+    onSubmit({
+      scope,
+      target: fd.get('target') as string,
+      monthly_limit: parseFloat(fd.get('monthly_limit') as string),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          id="budget-scope"
+          label="Tipo"
+          options={scopeOptions}
+          value={scope}
+          onChange={(e) => setScope(e.target.value as BudgetScope)}
+          disabled={!!initialData}
+        />
+        <Select
+          key={scope}
+          id="budget-target"
+          name="target"
+          label={scope === 'category' ? 'Categoria' : 'Titular'}
+          options={targetOptions}
+          defaultValue={initialData?.target}
+          disabled={!!initialData}
+          required
+        />
+      </div>
+      {initialData && <input type="hidden" name="target" value={initialData.target} />}
+      <Input
+        id="budget-limit"
+        name="monthly_limit"
+        type="number"
+        step="0.01"
+        min="0.01"
+        label="Limite mensal (R$)"
+        placeholder="0.00"
+        required
+        defaultValue={initialData?.monthly_limit}
+      />
+      <div className="flex gap-2 mt-2">
+        {onCancel && (
+          <Button type="button" variant="secondary" onClick={onCancel}>
+            Cancelar
+          </Button>
+        )}
+        <Button type="submit" isLoading={isLoading} disabled={targetOptions.length === 0}>
+          {initialData ? 'Salvar alterações' : 'Criar orçamento'}
+        </Button>
+      </div>
+    </form>
+  );
+}
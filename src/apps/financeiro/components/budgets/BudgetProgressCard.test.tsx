@@ -0,0 +1,55 @@
+/**
+ * @file BudgetProgressCard.test.tsx
+ * @description Testes do card de orçamentos do dashboard financeiro
+ * @version 1.53.47
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import BudgetProgressCard from './BudgetProgressCard';
+import type { BudgetProgress } from '../../types';
+
+const budgets: BudgetProgress[] = [
+  {
+    id: 'b-1', scope: 'category', target: 'alimentacao', label: 'Alimentação', color: '#f97316', icon: null,
+    monthly_limit: 1000, spent: 850, committed_installments: 120, committed_recurring: 80, projected: 1050,
+    percent: 85, projected_percent: 105, level: 'warning',
+  },
+  {
+    id: 'b-2', scope: 'holder', target: 'MARIA SILVA', label: 'MARIA SILVA', color: null, icon: null,
+    monthly_limit: 500, spent: 100, committed_installments: 0, committed_recurring: 0, projected: 100,
+    percent: 20, projected_percent: 20, level: 'ok',
+  },
+];
+
+describe('BudgetProgressCard', () => {
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('shows spent, limit and the month-end projection from installments and recurring expenses', () => {
+    render(<BudgetProgressCard budgets={budgets} holders={[]} onSave={vi.fn()} onDelete={vi.fn()} />);
+
+    expect(screen.getByRole('progressbar', { name: 'Alimentação' })).toHaveAttribute('aria-valuenow', '85');
+    expect(screen.getByText('85%')).toBeInTheDocument();
+    expect(screen.getByText(/Projeção: R\$\s1\.050,00 \(105%\)/)).toBeInTheDocument();
+    // Sem parcelas/recorrentes pendentes não há projeção a mostrar
+    expect(screen.getAllByText(/Projeção/)).toHaveLength(1);
+  });
+
+  it('creates a holder budget and closes the form once saved', async () => {
+    const onSave = vi.fn().mockResolvedValue({ id: 'b-3' });
+    render(<BudgetProgressCard budgets={[]} holders={['JOAO SILVA']} onSave={onSave} onDelete={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Orçamento'));
+    fireEvent.change(screen.getByLabelText('Tipo'), { target: { value: 'holder' } });
+    fireEvent.change(screen.getByLabelText('Limite mensal (R$)'), { target: { value: '750' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Criar orçamento'));
+    });
+
+    expect(onSave).toHaveBeenCalledWith({ scope: 'holder', target: 'JOAO SILVA', monthly_limit: 750 });
+    expect(screen.queryByText('Novo orçamento')).toBeNull();
+  });
+});
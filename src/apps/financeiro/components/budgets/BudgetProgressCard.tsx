@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Plus, Trash2, Target } from 'lucide-react';
+import { Button, Modal } from '../ui';
+import BudgetForm from './BudgetForm';
+import { formatBRL } from '../../utils/formatters';
+import type { BudgetProgress, BudgetScope } from '../../types';
+
+interface BudgetProgressCardProps {
+  budgets: BudgetProgress[];
+  holders: string[];
+  onSave: (data: { scope: BudgetScope; target: string; monthly_limit: number }) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+const LEVEL_COLORS: Record<BudgetProgress['level'], string> = {
+  ok: '#6366f1',
+  warning: '#f59e0b',
+  exceeded: '#ef4444',
+};
+
+export default function BudgetProgressCard({ budgets, holders, onSave, onDelete }: BudgetProgressCardProps) {
+  const [editing, setEditing] = useState<BudgetProgress | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (data: { scope: BudgetScope; target: string; monthly_limit: number }) => {
+    setIsSaving(true);
+    try {
+      const saved = await onSave(data);
+      if (saved) setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-card">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-base font-bold text-[#1e1b4b] dark:text-gray-100 tracking-tight">Orçamentos do mês</h3>
+        <Button size="sm" variant="secondary" onClick={() => setEditing('new')}>
+          <Plus className="w-4 h-4" /> Orçamento
+        </Button>
+      </div>
+
+      {budgets.length === 0 ? (
+        <p className="text-sm text-[#7c7caa] dark:text-gray-400 text-center py-8">
+          Defina um limite mensal por categoria ou por titular para acompanhar o gasto do mês.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {budgets.map((budget) => {
+            const color = LEVEL_COLORS[budget.level];
+            const committed = budget.committed_installments + budget.committed_recurring;
+
+            return (
+              <div key={budget.id} className="group">
+                <div className="flex items-center justify-between mb-1.5 gap-3">
+                  <button
+                    onClick={() => setEditing(budget)}
+                    className="flex items-center gap-2 min-w-0 text-left hover:underline"
+                    title="Editar limite"
+                  >
+                    <Target className="w-4 h-4 shrink-0" style={{ color: budget.color || color }} />
+                    <span className="text-sm font-semibold text-[#1e1b4b] dark:text-gray-100 truncate">{budget.label}</span>
+                    {budget.scope === 'holder' && (
+                      <span className="text-[11px] text-[#7c7caa] dark:text-gray-400">titular</span>
+                    )}
+                  </button>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-sm font-bold" style={{ color }}>{budget.percent.toFixed(0)}%</span>
+                    <button
+                      onClick={() => onDelete(budget.id)}
+                      className="p-1 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-500/10 transition-all"
+                      aria-label={`Remover orçamento ${budget.label}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5 text-red-400" />
+                    </button>
+                  </div>
+                </div>
+                <div
+                  className="relative h-2.5 rounded-full bg-indigo-500/10 dark:bg-white/10 overflow-hidden"
+                  role="progressbar"
+                  aria-label={budget.label}
+                  aria-valuenow={Math.round(budget.percent)}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                >
+                  <div
+                    className="absolute inset-y-0 left-0 rounded-full opacity-30"
+                    style={{ width: `${Math.min(budget.projected_percent, 100)}%`, backgroundColor: color }}
+                  />
+                  <div
+                    className="absolute inset-y-0 left-0 rounded-full transition-all duration-500"
+                    style={{ width: `${Math.min(budget.percent, 100)}%`, backgroundColor: color }}
+                  />
+                </div>
+                <div className="flex justify-between mt-1 text-[11px] text-[#7c7caa] dark:text-gray-400">
+                  <span>{formatBRL(budget.spent)} de {formatBRL(budget.monthly_limit)}</span>
+                  {committed > 0 && (
+                    <span title={`Parcelas: ${formatBRL(budget.committed_installments)} · Recorrentes: ${formatBRL(budget.committed_recurring)}`}>
+                      Projeção: {formatBRL(budget.projected)} ({budget.projected_percent.toFixed(0)}%)
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title={editing === 'new' ? 'Novo orçamento' : 'Editar orçamento'}
+        size="sm"
+      >
+        <BudgetForm
+          holders={holders}
+          onSubmit={handleSubmit}
+          isLoading={isSaving}
+          initialData={editing && editing !== 'new'
+            ? { scope: editing.scope, target: editing.target, monthly_limit: editing.monthly_limit }
+            : undefined}
+          onCancel={() => setEditing(null)}
+        />
+      </Modal>
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { useCallback, useRef } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { Upload, FileSpreadsheet } from 'lucide-react';
 import { Button } from '../ui';
+import { detectBank } from '../../utils/bankDetection';
 import type { BankId } from '../../types';
 
 interface CSVUploaderProps {
-  bankId: BankId;
+  /** null = detecção automática pelo conteúdo do arquivo */
+  bankId: BankId | null;
   bankName: string;
   fileAccept?: string;
   onUpload: (file: File, bankId: BankId) => void;
@@ -13,21 +15,34 @@ interface CSVUploaderProps {
 
 export default function CSVUploader({ bankId, bankName, fileAccept = '.csv', onUpload, isUploading }: CSVUploaderProps) {
   const inputRef = useRef<HTMLInputElement>(null);
-  const isPDF = fileAccept === '.pdf';
-  const fileLabel = isPDF ? 'PDF' : 'CSV';
+  const [error, setError] = useState<string | null>(null);
+  const extensions = useMemo(() => fileAccept.split(',').map((ext) => ext.trim().toLowerCase()), [fileAccept]);
+  const fileLabel = extensions.map((ext) => ext.replace('.', '').toUpperCase()).join('/');
+
+  /** The file contents win over the selected bank: a Nubank CSV picked under "Itaú" still imports as Nubank */
+  const handleFile = useCallback(async (file: File) => {
+    const ext = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+    if (!extensions.includes(ext)) return;
+
+    const detected = ext === '.pdf' ? null : detectBank(await file.slice(0, 8192).text(), file.name);
+    const target = detected ?? bankId;
+    if (!target) {
+      setError('Não foi possível identificar o banco pelo conteúdo do arquivo. Selecione o banco manualmente.');
+      return;
+    }
+    setError(null);
+    onUpload(file, target);
+  }, [onUpload, bankId, extensions]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const file = e.dataTransfer.files[0];
-    const ext = fileAccept.replace('.', '');
-    if (file && file.name.toLowerCase().endsWith(`.${ext}`)) {
-      onUpload(file, bankId);
-    }
-  }, [onUpload, bankId, fileAccept]);
+    if (file) handleFile(file);
+  }, [handleFile]);
 
   const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) onUpload(file, bankId);
+    if (file) handleFile(file);
   };
 
   return (
@@ -43,8 +58,11 @@ export default function CSVUploader({ bankId, bankName, fileAccept = '.csv', onU
       </div>
       <h3 className="text-lg font-bold text-[#1e1b4b] dark:text-gray-100 mb-2">Importar {fileLabel} — {bankName}</h3>
       <p className="text-sm text-[#7c7caa] dark:text-gray-400 max-w-sm mb-6">
-        Arraste o {fileLabel} do {bankName} aqui ou clique para selecionar.
+        {bankId
+          ? `Arraste o ${fileLabel} do ${bankName} aqui ou clique para selecionar.`
+          : `Arraste o ${fileLabel} de qualquer banco suportado — o banco é identificado pelo conteúdo do arquivo.`}
       </p>
+      {error && <p className="text-sm text-red-500 max-w-sm mb-4" role="alert">{error}</p>}
       <Button isLoading={isUploading}>
         <Upload className="w-4 h-4" /> Selecionar arquivo
       </Button>
@@ -27,6 +27,10 @@ export const ENDPOINTS = {
   DASHBOARD_BY_HOLDER: `${API_BASE}/dashboard/by-holder`,
   DASHBOARD_TRENDS: `${API_BASE}/dashboard/trends`,
   DASHBOARD_ALERTS: `${API_BASE}/dashboard/alerts`,
+  DASHBOARD_BUDGETS: `${API_BASE}/dashboard/budgets`,
+
+  // Budgets
+  BUDGETS: `${API_BASE}/budgets`,
 
   // Settings
   SETTINGS: `${API_BASE}/settings`,
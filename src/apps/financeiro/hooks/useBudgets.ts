@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { useUIStore } from '../stores/useUIStore';
+import { apiFetch } from '../utils/api';
+import { ENDPOINTS } from '../constants/api';
+import type { Budget, BudgetScope } from '../types';
+
+export function useBudgets() {
+  const addToast = useUIStore((s) => s.addToast);
+
+  /** Cria o orçamento ou atualiza o limite do já existente para a mesma categoria/titular */
+  const saveBudget = useCallback(async (data: { scope: BudgetScope; target: string; monthly_limit: number }) => {
+    try {
+      const result = await apiFetch<{ budget: Budget }>(ENDPOINTS.BUDGETS, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      addToast('Orçamento salvo', 'success');
+      return result.budget;
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Erro ao salvar orçamento', 'error');
+    }
+  }, [addToast]);
+
+  const deleteBudget = useCallback(async (id: string) => {
+    try {
+      await apiFetch(`${ENDPOINTS.BUDGETS}/${id}`, { method: 'DELETE' });
+      addToast('Orçamento removido', 'success');
+      return true;
+    } catch {
+      addToast('Erro ao remover orçamento', 'error');
+      return false;
+    }
+  }, [addToast]);
+
+  return { saveBudget, deleteBudget };
+}
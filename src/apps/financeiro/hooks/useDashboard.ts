@@ -4,10 +4,10 @@ import { useUIStore } from '../stores/useUIStore';
 import { apiFetch } from '../utils/api';
 import { ENDPOINTS } from '../constants/api';
 import { offsetMonth } from '../utils/formatters';
-import type { DashboardSummary, CategoryBreakdown, HolderBreakdown, TrendPoint } from '../types';
+import type { DashboardSummary, CategoryBreakdown, HolderBreakdown, TrendPoint, BudgetProgress } from '../types';
 
 export function useDashboard() {
-  const { selectedMonth, setMonth, setSummary, setCategoryData, setHolderData, setTrends, setLoading } = useDashboardStore();
+  const { selectedMonth, setMonth, setSummary, setCategoryData, setHolderData, setTrends, setBudgets, setLoading } = useDashboardStore();
   const addToast = useUIStore((s) => s.addToast);
 
   const fetchAll = useCallback(async (month?: string) => {
@@ -16,23 +16,26 @@ export function useDashboard() {
     try {
       const fromMonth = offsetMonth(m, -5);
 
-      const [summary, categories, holders, trends] = await Promise.all([
+      const [summary, categories, holders, trends, budgets, alerts] = await Promise.all([
         apiFetch<DashboardSummary>(`${ENDPOINTS.DASHBOARD_SUMMARY}?month=${m}`),
         apiFetch<{ categories: CategoryBreakdown[] }>(`${ENDPOINTS.DASHBOARD_BY_CATEGORY}?month=${m}`),
         apiFetch<{ holders: HolderBreakdown[] }>(`${ENDPOINTS.DASHBOARD_BY_HOLDER}?month=${m}`),
         apiFetch<{ trends: TrendPoint[] }>(`${ENDPOINTS.DASHBOARD_TRENDS}?from=${fromMonth}&to=${m}`),
+        apiFetch<{ budgets: BudgetProgress[] }>(`${ENDPOINTS.DASHBOARD_BUDGETS}?month=${m}`),
+        apiFetch<{ budget_alerts: BudgetProgress[] }>(`${ENDPOINTS.DASHBOARD_ALERTS}?month=${m}`),
       ]);
 
       setSummary(summary);
       setCategoryData(categories.categories);
       setHolderData(holders.holders);
       setTrends(trends.trends);
+      setBudgets(budgets.budgets, alerts.budget_alerts);
     } catch {
       addToast('Erro ao carregar dashboard', 'error');
     } finally {
       setLoading(false);
     }
-  }, [selectedMonth, setLoading, setSummary, setCategoryData, setHolderData, setTrends, addToast]);
+  }, [selectedMonth, setLoading, setSummary, setCategoryData, setHolderData, setTrends, setBudgets, addToast]);
 
   const changeMonth = useCallback((month: string) => {
     setMonth(month);
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { FileSpreadsheet, Check, X, Trash2, CreditCard, ArrowLeft } from 'lucide-react';
+import { FileSpreadsheet, Check, X, Trash2, CreditCard, ArrowLeft, Wand2 } from 'lucide-react';
 import { useCSVImport } from '../hooks/useCSVImport';
 import { Button } from '../components/ui';
 import CSVUploader from '../components/csv/CSVUploader';
@@ -12,15 +12,24 @@ import type { BankId, BankInfo } from '../types';
 const BANKS: BankInfo[] = [
   { id: 'c6', name: 'Banco C6', logo: '/banks/c6.svg' },
   { id: 'cef', name: 'Caixa (CEF)', logo: '/banks/cef.svg', fileAccept: '.pdf' },
+  { id: 'nubank', name: 'Nubank', fileAccept: '.csv,.pdf' },
+  { id: 'itau', name: 'Itaú', fileAccept: '.csv,.pdf' },
+  { id: 'bradesco', name: 'Bradesco', fileAccept: '.csv,.pdf' },
+  { id: 'bb', name: 'Banco do Brasil', fileAccept: '.csv,.pdf' },
+  { id: 'santander', name: 'Santander', fileAccept: '.csv,.pdf' },
+  { id: 'ofx', name: 'OFX / QFX', fileAccept: '.ofx,.qfx' },
 ];
 
+/** Auto-detection reads the file contents — PDFs are compressed, so text exports only */
+const AUTO_DETECT_ACCEPT = '.csv,.ofx,.qfx';
+
 export default function CSVImportPage() {
   const {
     preview, isUploading, isConfirming, imports,
     uploadCSV, confirmImport, fetchImports, deleteImport, cancelPreview,
   } = useCSVImport();
 
-  const [selectedBank, setSelectedBank] = useState<BankId | null>(null);
+  const [selectedBank, setSelectedBank] = useState<BankId | 'auto' | null>(null);
 
   useEffect(() => {
     fetchImports();
@@ -74,13 +83,15 @@ export default function CSVImportPage() {
                 <span className="text-sm font-semibold text-[#1e1b4b] dark:text-gray-100">{bank.name}</span>
               </button>
             ))}
-            {/* Placeholder for future banks */}
-            <div className="glass-card flex flex-col items-center gap-3 p-6 opacity-40 cursor-not-allowed border-2 border-transparent">
-              <div className="w-12 h-12 rounded-2xl bg-gray-200/50 dark:bg-gray-700/50 flex items-center justify-center">
-                <CreditCard className="w-6 h-6 text-gray-400 dark:text-gray-500" />
+            <button
+              onClick={() => setSelectedBank('auto')}
+              className="glass-card flex flex-col items-center gap-3 p-6 hover:border-indigo-500/40 dark:hover:border-indigo-400/40 border-2 border-transparent transition-all cursor-pointer group"
+            >
+              <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-indigo-500/15 to-violet-500/15 flex items-center justify-center group-hover:from-indigo-500/25 group-hover:to-violet-500/25 transition-all">
+                <Wand2 className="w-6 h-6 text-indigo-500" />
               </div>
-              <span className="text-sm font-medium text-gray-400 dark:text-gray-500">Em breve</span>
-            </div>
+              <span className="text-sm font-semibold text-[#1e1b4b] dark:text-gray-100">Detectar automaticamente</span>
+            </button>
           </div>
         </div>
       )}
@@ -96,9 +107,9 @@ export default function CSVImportPage() {
             Trocar banco
           </button>
           <CSVUploader
-            bankId={selectedBank}
-            bankName={selectedBankInfo?.name || ''}
-            fileAccept={selectedBankInfo?.fileAccept}
+            bankId={selectedBank === 'auto' ? null : selectedBank}
+            bankName={selectedBankInfo?.name || 'Detecção automática'}
+            fileAccept={selectedBank === 'auto' ? AUTO_DETECT_ACCEPT : selectedBankInfo?.fileAccept}
             onUpload={uploadCSV}
             isUploading={isUploading}
           />
@@ -117,6 +128,7 @@ export default function CSVImportPage() {
           {/* Action buttons */}
           <div className="flex items-center justify-between">
             <div className="text-sm text-[#7c7caa] dark:text-gray-400 flex flex-wrap gap-x-2">
+              <span>{getBankInfo(preview.bankId).name} ·</span>
               <span>
                 <span className="font-bold text-[#1e1b4b] dark:text-gray-100">{newCount}</span> novas
               </span>
@@ -1,8 +1,9 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
-import { TrendingDown, TrendingUp, DollarSign, Receipt, ArrowUpRight } from 'lucide-react';
+import { TrendingDown, TrendingUp, DollarSign, Receipt, ArrowUpRight, AlertTriangle } from 'lucide-react';
 import { useDashboardStore } from '../stores/useDashboardStore';
 import { useDashboard } from '../hooks/useDashboard';
 import { useRecurring } from '../hooks/useRecurring';
+import { useBudgets } from '../hooks/useBudgets';
 import { formatBRL, formatPercent, formatMonthLabel, offsetMonth } from '../utils/formatters';
 import { Spinner } from '../components/ui';
 import Header from '../components/layout/Header';
@@ -11,6 +12,8 @@ import CategoryPieChart from '../components/charts/CategoryPieChart';
 import TrendLineChart from '../components/charts/TrendLineChart';
 import HolderBreakdown from '../components/charts/HolderBreakdown';
 import DrillDownModal from '../components/charts/DrillDownModal';
+import BudgetProgressCard from '../components/budgets/BudgetProgressCard';
+import type { BudgetScope } from '../types';
 
 interface DrillDownState {
   isOpen: boolean;
@@ -20,9 +23,10 @@ interface DrillDownState {
 }
 
 export default function DashboardPage() {
-  const { selectedMonth, summary, categoryData, holderData, trends, isLoading } = useDashboardStore();
+  const { selectedMonth, summary, categoryData, holderData, trends, budgets, budgetAlerts, isLoading } = useDashboardStore();
   const { fetchAll, changeMonth } = useDashboard();
   const { fetchReminders } = useRecurring();
+  const { saveBudget, deleteBudget } = useBudgets();
 
   useEffect(() => {
     fetchAll();
@@ -71,6 +75,21 @@ export default function DashboardPage() {
     });
   }, [selectedMonth]);
 
+  const handleSaveBudget = useCallback(async (data: { scope: BudgetScope; target: string; monthly_limit: number }) => {
+    const saved = await saveBudget(data);
+    if (saved) fetchAll();
+    return saved;
+  }, [saveBudget, fetchAll]);
+
+  const handleDeleteBudget = useCallback(async (id: string) => {
+    if (await deleteBudget(id)) fetchAll();
+  }, [deleteBudget, fetchAll]);
+
+  const budgetHolders = useMemo(
+    () => holderData.map((h) => h.card_holder).filter((h): h is string => !!h),
+    [holderData],
+  );
+
   const drillDownFilterParams = useMemo(() => drillDown?.filterParams ?? {}, [drillDown?.filterParams]);
 
   if (isLoading && !summary) {
@@ -91,6 +110,28 @@ export default function DashboardPage() {
         onNextMonth={handleNext}
       />
 
+      {/* Budget Alerts (80% / 100% do limite) */}
+      {budgetAlerts.length > 0 && (
+        <div className="flex flex-col gap-2 mb-6">
+          {budgetAlerts.map((alert) => (
+            <div
+              key={alert.id}
+              role="alert"
+              className={`glass-card flex items-center gap-3 py-3 border-l-4 ${
+                alert.level === 'exceeded' ? 'border-l-red-500' : 'border-l-amber-500'
+              }`}
+            >
+              <AlertTriangle className={`w-5 h-5 shrink-0 ${alert.level === 'exceeded' ? 'text-red-500' : 'text-amber-500'}`} />
+              <span className="text-sm text-[#1e1b4b] dark:text-gray-100">
+                <span className="font-semibold">{alert.label}</span>
+                {alert.level === 'exceeded' ? ' estourou o orçamento: ' : ' atingiu 80% do orçamento: '}
+                {formatBRL(alert.spent)} de {formatBRL(alert.monthly_limit)} ({alert.percent.toFixed(0)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-5 mb-6">
         <div className="glass-card animate-slide-up" style={{ animationDelay: '0s' }}>
@@ -173,6 +214,15 @@ export default function DashboardPage() {
         <HolderBreakdown data={holderData} onHolderClick={handleHolderClick} />
       </div>
 
+      <div className="mt-5">
+        <BudgetProgressCard
+          budgets={budgets}
+          holders={budgetHolders}
+          onSave={handleSaveBudget}
+          onDelete={handleDeleteBudget}
+        />
+      </div>
+
       <DrillDownModal
         isOpen={drillDown?.isOpen ?? false}
         onClose={closeDrillDown}
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { DashboardSummary, CategoryBreakdown, HolderBreakdown, TrendPoint } from '../types';
+import type { DashboardSummary, CategoryBreakdown, HolderBreakdown, TrendPoint, BudgetProgress } from '../types';
 
 interface DashboardState {
   selectedMonth: string;
@@ -7,12 +7,15 @@ interface DashboardState {
   categoryData: CategoryBreakdown[];
   holderData: HolderBreakdown[];
   trends: TrendPoint[];
+  budgets: BudgetProgress[];
+  budgetAlerts: BudgetProgress[];
   isLoading: boolean;
   setMonth: (month: string) => void;
   setSummary: (summary: DashboardSummary) => void;
   setCategoryData: (data: CategoryBreakdown[]) => void;
   setHolderData: (data: HolderBreakdown[]) => void;
   setTrends: (trends: TrendPoint[]) => void;
+  setBudgets: (budgets: BudgetProgress[], budgetAlerts: BudgetProgress[]) => void;
   setLoading: (loading: boolean) => void;
 }
 
@@ -25,6 +28,8 @@ export const useDashboardStore = create<DashboardState>((set) => ({
   categoryData: [],
   holderData: [],
   trends: [],
+  budgets: [],
+  budgetAlerts: [],
   isLoading: false,
 
   setMonth: (selectedMonth) => set({ selectedMonth }),
@@ -32,5 +37,6 @@ export const useDashboardStore = create<DashboardState>((set) => ({
   setCategoryData: (categoryData) => set({ categoryData }),
   setHolderData: (holderData) => set({ holderData }),
   setTrends: (trends) => set({ trends }),
+  setBudgets: (budgets, budgetAlerts) => set({ budgets, budgetAlerts }),
   setLoading: (isLoading) => set({ isLoading }),
 }));
@@ -1,4 +1,4 @@
-export type BankId = 'c6' | 'cef';
+export type BankId = 'c6' | 'cef' | 'nubank' | 'itau' | 'bradesco' | 'bb' | 'santander' | 'ofx';
 
 export interface BankInfo {
   id: BankId;
@@ -139,6 +139,39 @@ export interface TrendPoint {
   count: number;
 }
 
+export type BudgetScope = 'category' | 'holder';
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  scope: BudgetScope;
+  /** category_id (scope 'category') ou card_holder (scope 'holder') */
+  target: string;
+  monthly_limit: number;
+  created_at: string;
+  updated_at: string;
+  category_name?: string | null;
+  category_color?: string | null;
+  category_icon?: string | null;
+}
+
+export interface BudgetProgress {
+  id: string;
+  scope: BudgetScope;
+  target: string;
+  label: string;
+  color: string | null;
+  icon: string | null;
+  monthly_limit: number;
+  spent: number;
+  committed_installments: number;
+  committed_recurring: number;
+  projected: number;
+  percent: number;
+  projected_percent: number;
+  level: 'ok' | 'warning' | 'exceeded';
+}
+
 export interface Reminder {
   id: string;
   description: string;
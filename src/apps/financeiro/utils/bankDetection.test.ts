@@ -0,0 +1,36 @@
+/**
+ * @file bankDetection.test.ts
+ * @description Testes da detecção do banco pelo conteúdo do extrato
+ * @version 1.53.46
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectBank } from './bankDetection';
+
+describe('detectBank', () => {
+  it('recognizes each bank by its header row', () => {
+    expect(detectBank('Data de Compra;Nome no Cartao;Final do Cartao;Categoria;Descricao;Parcela;Valor (em US$);Cotacao (em R$);Valor (em R$)\n')).toBe('c6');
+    expect(detectBank('date,title,amount\n2026-01-15,Mercado Livre - Parcela 3/10,89.90\n')).toBe('nubank');
+    expect(detectBank('\uFEFFdata;lançamento;valor\n15/01/2026;LOJA X 03/10;1.234,56\n')).toBe('itau');
+    expect(detectBank('Data de Vencimento: 10/02/2026\nFULANO ;;; 4567\nData;Histórico;Valor(US$);Valor(R$);\n')).toBe('bradesco');
+    expect(detectBank('"Data","Descrição","País","Valor R$","Valor US$"\n')).toBe('bb');
+    expect(detectBank('FULANO - final 1234\nData;Descrição;Parcela;Valor (US$);Valor (R$)\n')).toBe('santander');
+  });
+
+  it('still matches Latin-1 headers read as UTF-8', () => {
+    expect(detectBank('Data;Hist\uFFFDrico;Valor(US$);Valor(R$);\n')).toBe('bradesco');
+    expect(detectBank('data;lan\uFFFDamento;valor\n')).toBe('itau');
+  });
+
+  it('detects OFX/QFX by content or extension', () => {
+    expect(detectBank('OFXHEADER:100\nDATA:OFXSGML\n<OFX>')).toBe('ofx');
+    expect(detectBank('<?xml version="1.0"?><OFX><BANKMSGSRSV1>')).toBe('ofx');
+    expect(detectBank('', 'extrato.QFX')).toBe('ofx');
+  });
+
+  it('falls back to bank names in the preamble and gives up otherwise', () => {
+    expect(detectBank('Extrato Santander Cartões\nqualquer;coisa\n')).toBe('santander');
+    expect(detectBank('%PDF-1.7\n...')).toBeNull();
+    expect(detectBank('col1;col2\n1;2\n')).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import type { BankId } from '../types';
+
+/**
+ * Header signatures of each bank's export, after normalizeLine().
+ * Must match the header aliases of the server parsers (server/services/csv-parsers).
+ * Latin-1 files read as UTF-8 lose their accented letters ("Histórico" → "histrico"),
+ * hence the optional letters.
+ */
+const HEADER_SIGNATURES: Array<{ bankId: BankId; pattern: RegExp }> = [
+  { bankId: 'c6', pattern: /nomenocartao.*finaldocartao/ },
+  { bankId: 'nubank', pattern: /^date,title,amount/ },
+  { bankId: 'bradesco', pattern: /^data;histo?rico;/ },
+  { bankId: 'santander', pattern: /^data;descri(ca)?o;parcela;/ },
+  { bankId: 'bb', pattern: /^data,descri(ca)?o,/ },
+  { bankId: 'itau', pattern: /^data;lanc?amento/ },
+];
+
+/** Bank names that show up in preambles, for exports whose header alone is ambiguous */
+const NAME_SIGNATURES: Array<{ bankId: BankId; pattern: RegExp }> = [
+  { bankId: 'nubank', pattern: /nubank|nu pagamentos/ },
+  { bankId: 'itau', pattern: /itau/ },
+  { bankId: 'bradesco', pattern: /bradesco/ },
+  { bankId: 'santander', pattern: /santander/ },
+  { bankId: 'bb', pattern: /ourocard|banco do brasil/ },
+  { bankId: 'c6', pattern: /c6 ?bank|banco c6/ },
+];
+
+/** "Valor (R$)" → "valorr$", keeping the delimiters (; , tab) that tell layouts apart */
+function normalizeLine(line: string): string {
+  return line.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9$;,\t]/g, '');
+}
+
+/**
+ * Identify the bank from the first bytes of a CSV/OFX export.
+ * Returns null when nothing matches (e.g. PDFs, whose text is compressed) —
+ * the user then picks the bank manually.
+ */
+export function detectBank(content: string, filename = ''): BankId | null {
+  if (/\.(ofx|qfx)$/i.test(filename) || /<OFX>|OFXHEADER:/i.test(content)) return 'ofx';
+  if (content.startsWith('%PDF-')) return null;
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).slice(0, 40);
+  for (const line of lines) {
+    const normalized = normalizeLine(line);
+    const match = HEADER_SIGNATURES.find((s) => s.pattern.test(normalized));
+    if (match) return match.bankId;
+  }
+
+  const preamble = lines.join(' ').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  return NAME_SIGNATURES.find((s) => s.pattern.test(preamble))?.bankId ?? null;
+}
@@ -1,6 +1,7 @@
 // ═══════════════════════════════════════════════════════════════════════════
 // COMPONENTE - Detalhe de Notícia
 // v1.41.0 - Visualização completa de notícia com resumo IA
+// v1.53.48 - Lista as demais fontes da mesma história
 // ═══════════════════════════════════════════════════════════════════════════
 
 import React from 'react';
@@ -34,6 +35,8 @@ export const NewsDetail: React.FC<NewsDetailProps> = ({
   isFavoriteLoading,
   hideHeader = false
 }) => {
+  const otherSources = (news.clusterSources ?? []).filter(source => source.id !== news.id);
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SEÇÕES DE CONTEÚDO (compartilhadas entre modo standalone e modal)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -195,6 +198,23 @@ export const NewsDetail: React.FC<NewsDetailProps> = ({
             ({formatRelativeTime(news.publishedAt)})
           </span>
         </div>
+
+        {otherSources.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs theme-text-muted">
+            <span>Também publicada em:</span>
+            {otherSources.map(source => (
+              <a
+                key={source.id}
+                href={source.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-2 py-0.5 rounded theme-bg-secondary hover:text-blue-400 transition-colors"
+              >
+                {source.sourceName}
+              </a>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* ═══════════════════════════════════════════════════════════════ */}
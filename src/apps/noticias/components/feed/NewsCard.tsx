@@ -1,10 +1,11 @@
 // ═══════════════════════════════════════════════════════════════════════════
 // COMPONENTE - Card de Notícia
 // v1.41.0 - Card individual para exibição de notícia jurídica
+// v1.53.48 - Histórias agrupadas: lista todas as fontes que publicaram
 // ═══════════════════════════════════════════════════════════════════════════
 
 import React from 'react';
-import { Star, BookOpen, ExternalLink, Loader2 } from 'lucide-react';
+import { Star, BookOpen, ExternalLink, Layers, Loader2 } from 'lucide-react';
 import { formatRelativeTime } from '../../utils/date-utils';
 import { stripHtml } from '../../utils/html-utils';
 import type { NewsItem } from '../../types';
@@ -32,6 +33,8 @@ export const NewsCard = React.memo<NewsCardProps>(({
   isGeneratingSummary = false,
   isFavoriteLoading = false
 }) => {
+  const sources = news.clusterSources ?? [];
+
   const handleClick = () => {
     if (!news.isRead) {
       onMarkAsRead(news.id);
@@ -81,9 +84,31 @@ export const NewsCard = React.memo<NewsCardProps>(({
             {stripHtml(news.description)}
           </p>
           <div className="flex items-center gap-2 mt-2 text-xs theme-text-muted flex-wrap">
-            <span className="px-2 py-0.5 rounded theme-bg-secondary">
-              {news.sourceName}
-            </span>
+            {sources.length > 1 ? (
+              <>
+                <span className="flex items-center gap-1 font-medium">
+                  <Layers className="w-3 h-3" />
+                  {sources.length} fontes
+                </span>
+                {sources.map(source => (
+                  <a
+                    key={source.id}
+                    href={source.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={handleLinkClick}
+                    className="px-2 py-0.5 rounded theme-bg-secondary hover:text-blue-400 transition-colors"
+                    title={`Ler em ${source.sourceName}`}
+                  >
+                    {source.sourceName}
+                  </a>
+                ))}
+              </>
+            ) : (
+              <span className="px-2 py-0.5 rounded theme-bg-secondary">
+                {news.sourceName}
+              </span>
+            )}
             <span>{formatRelativeTime(news.publishedAt)}</span>
           </div>
         </div>
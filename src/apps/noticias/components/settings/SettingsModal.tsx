@@ -201,7 +201,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             <ModelSelector />
 
             {/* API KEY DO PROVEDOR SELECIONADO */}
-            {!providerRequiresApiKey(provider) ? (
+            {provider === 'local-llm' ? null : !providerRequiresApiKey(provider) ? (
               <p className="text-xs theme-text-muted">
                 {provider === 'codex-cli' ? 'Codex Local usa o login do ChatGPT (OAuth)' : 'Claude Local usa o login do Claude Code (OAuth)'} — nenhuma API key necessária. Rode <code>npm run llm-bridge</code> para ligar o daemon local.
               </p>
@@ -143,6 +143,12 @@ export const AI_PROVIDERS: Record<AIProvider, ProviderInfo> = {
       }
     ]
   },
+  // v1.53.38: modelos vêm do próprio endpoint (GET /v1/models), configurados no modal
+  'local-llm': {
+    name: 'LLM Local (OpenAI-compatível)',
+    icon: 'server',
+    models: []
+  },
   manual: {
     name: 'Sem Provider (copiar/colar)',
     icon: 'clipboard',
@@ -160,7 +166,7 @@ export const AI_PROVIDERS: Record<AIProvider, ProviderInfo> = {
 export const getDefaultModel = (provider: AIProvider): string => {
   const providerInfo = AI_PROVIDERS[provider];
   const recommended = providerInfo.models.find(m => m.recommended);
-  return recommended?.id || providerInfo.models[0].id;
+  return recommended?.id || providerInfo.models[0]?.id || '';
 };
 
 export const getModelName = (provider: AIProvider, modelId: string): string => {
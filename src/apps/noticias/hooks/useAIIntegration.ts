@@ -9,6 +9,8 @@ import { API_BASE } from '../constants';
 import { getClaudeCliBridgeUrl, CLAUDE_CLI_MESSAGES_PATH } from '../../../utils/claude-cli-bridge';
 import { getCodexCliBridgeUrl, CODEX_CLI_MESSAGES_PATH } from '../../../utils/codex-cli-bridge';
 import { serializeForManual, normalizeManualResponse } from '../../../utils/manualCall';
+import { callLocalLlm, localLlmResponseText } from '../../../utils/local-llm';
+import { fetchAIProxy } from '../../../utils/aiBudget';
 import { useManualCallStore } from '../../../stores/useManualCallStore';
 import type { AIMessage, AICallOptions, ClaudeContentBlock, OpenAIMessage, GrokMessage, GeminiMessage } from '../types';
 
@@ -64,7 +66,7 @@ export const useAIIntegration = () => {
         const claudeHeaders: Record<string, string> = localBridge
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.claude };
-        const response = await fetch(claudeUrl, {
+        const response = await fetchAIProxy(claudeUrl, {
           method: 'POST',
           headers: claudeHeaders,
           body: JSON.stringify(requestBody)
@@ -146,7 +148,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/gemini/generate`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/gemini/generate`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.gemini },
           body: JSON.stringify({
@@ -252,7 +254,7 @@ export const useAIIntegration = () => {
         const openaiHeaders: Record<string, string> = localBridge
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.openai };
-        const response = await fetch(openaiUrl, {
+        const response = await fetchAIProxy(openaiUrl, {
           method: 'POST',
           headers: openaiHeaders,
           body: JSON.stringify(requestBody)
@@ -324,7 +326,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/grok/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/grok/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -419,7 +421,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/deepseek/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/deepseek/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -472,6 +474,32 @@ export const useAIIntegration = () => {
     throw lastError || new Error('Todas as tentativas falharam');
   }, [aiSettings, addTokenUsage]);
 
+  // v1.53.38: LLM local OpenAI-compatível (Ollama/llama.cpp/vLLM) via /api/local-llm
+  const callLocalLlmAPI = useCallback(async (
+    messages: AIMessage[],
+    options: AICallOptions = {}
+  ): Promise<string> => {
+    const result = await callLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys['local-llm'],
+      model: options.model || aiSettings.localLlmModel || '',
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens ?? 8000,
+      temperature: options.temperature,
+      signal: options.abortSignal
+    });
+    if (result.usage) {
+      addTokenUsage({
+        input: result.usage.prompt_tokens || 0,
+        output: result.usage.completion_tokens || 0
+      });
+    }
+    return localLlmResponseText(result);
+  }, [aiSettings, addTokenUsage]);
+
   /**
    * Chamada IA unificada - escolhe provider automaticamente
    */
@@ -499,6 +527,8 @@ export const useAIIntegration = () => {
         return callGrokAPI(messages, options);
       case 'deepseek':
         return callDeepseekAPI(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPI(messages, options);
       case 'claude-cli':
         return callClaudeAPI(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
       case 'codex-cli':
@@ -506,7 +536,7 @@ export const useAIIntegration = () => {
       default:
         return callClaudeAPI(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI]);
+  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI, callLocalLlmAPI]);
 
   return {
     callAI,
@@ -515,6 +545,7 @@ export const useAIIntegration = () => {
     callOpenAIAPI,
     callGrokAPI,
     callDeepseekAPI,
+    callLocalLlmAPI,
     aiSettings
   };
 };
@@ -29,6 +29,14 @@ export interface NewsSource {
 /**
  * Item de notícia individual
  */
+export interface NewsClusterSource {
+  readonly id: string;
+  readonly sourceId: string;
+  readonly sourceName: string;
+  readonly link: string;
+  readonly publishedAt: string;
+}
+
 export interface NewsItem {
   readonly id: string;
   readonly title: string;
@@ -46,6 +54,8 @@ export interface NewsItem {
   isRead: boolean;
   createdAt?: string;
   updatedAt?: string;
+  /** Todas as notícias da mesma história (vazio quando só uma fonte publicou) */
+  clusterSources?: NewsClusterSource[];
 }
 
 /**
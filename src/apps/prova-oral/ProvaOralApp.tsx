@@ -1,9 +1,10 @@
 /**
  * @file ProvaOralApp.tsx
  * @description Componente principal do App de Análise de Prova Oral
+ * @version 1.53.53 - Abre análise salva por link (?analise=<id>), usado pelos antecedentes do Analisador
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Mic,
   Settings,
@@ -27,6 +28,7 @@ import {
   HistoricoModal,
 } from './components';
 import { useProvaOralStore } from './stores';
+import { useProvaOralAPI } from './hooks';
 import { ThemeStyles } from '../../styles';
 import { useThemeManagement } from '../../hooks';
 import { ManualCallModal } from '../../components/modals/ManualCallModal';
@@ -36,7 +38,7 @@ import { ManualCallModal } from '../../components/modals/ManualCallModal';
 // ═══════════════════════════════════════════════════════════════════════════
 
 const AppContent: React.FC = () => {
-  const { userEmail, logout } = useLoginGate();
+  const { userEmail, logout, isAuthenticated } = useLoginGate();
   const { isDarkMode: isDark, toggleAppTheme } = useThemeManagement();
   const {
     result,
@@ -46,10 +48,36 @@ const AppContent: React.FC = () => {
     closeSettings,
     openHistorico,
     closeHistorico,
+    loadAnalysis,
+    setLoadedAnalysisId,
   } = useProvaOralStore();
+  const { fetchAnalysis } = useProvaOralAPI();
 
   const [showResults, setShowResults] = useState(false);
 
+  // Link direto para uma análise salva (ex.: prova emprestada nos antecedentes do Analisador).
+  // A sessão é restaurada num efeito do useAuthMagicLink: antes disso fetchAnalysis devolve null.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const params = new URLSearchParams(window.location.search);
+    const analiseId = params.get('analise');
+    if (!analiseId) return;
+
+    let cancelled = false;
+    fetchAnalysis(analiseId).then((analysis) => {
+      if (cancelled || !analysis) return;
+      // Só remove o parâmetro depois de carregar, para não reabrir ao reexecutar o efeito
+      params.delete('analise');
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+
+      loadAnalysis(analysis.id, analysis.transcricao, analysis.sinteseProcesso, analysis.resultado);
+      setLoadedAnalysisId(analysis.id);
+      setShowResults(true);
+    });
+    return () => { cancelled = true; };
+  }, [isAuthenticated, fetchAnalysis, loadAnalysis, setLoadedAnalysisId]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
       {/* Header */}
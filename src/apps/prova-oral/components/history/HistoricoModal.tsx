@@ -159,11 +159,11 @@ export const HistoricoModal: React.FC<HistoricoModalProps> = ({
           </Button>
           {selectedId && (
             <>
-              {/* Só mostra botão excluir para análises próprias */}
+              {/* Só mostra botão excluir para análises próprias (ou do gabinete, conforme o papel) */}
               {(() => {
                 const selectedAnalysis = analyses.find(a => a.id === selectedId);
-                const isOwn = !selectedAnalysis || selectedAnalysis.isOwn !== false;
-                return isOwn ? (
+                const canDelete = !selectedAnalysis || (selectedAnalysis.canDelete ?? selectedAnalysis.isOwn !== false);
+                return canDelete ? (
                   <Button
                     variant="danger"
                     onClick={handleDelete}
@@ -249,14 +249,14 @@ export const HistoricoModal: React.FC<HistoricoModalProps> = ({
                   {analysis.isOwn === false && (
                     <span className="inline-flex items-center gap-1 text-xs bg-purple-500/20 text-purple-600 dark:text-purple-400 px-2 py-0.5 rounded-full mb-1">
                       <Users className="w-3 h-3" />
-                      Compartilhada por {analysis.ownerEmail}
+                      {analysis.workspaceId ? 'Do gabinete' : 'Compartilhada'} por {analysis.ownerEmail}
                     </span>
                   )}
 
-                  {/* Número do processo — editável apenas em análises próprias */}
+                  {/* Número do processo — editável em análises próprias ou do gabinete */}
                   <EditableProcessNumber
                     value={analysis.numeroProcesso}
-                    canEdit={analysis.isOwn !== false}
+                    canEdit={analysis.canEdit ?? analysis.isOwn !== false}
                     isSelected={selectedId === analysis.id}
                     onSave={(newValue) => handleRenameProcesso(analysis.id, newValue)}
                   />
@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { Brain, Sparkles, MessageCircle, Zap, Check, Clipboard } from 'lucide-react';
+import { Brain, Sparkles, MessageCircle, Zap, Check, Clipboard, Server } from 'lucide-react';
 import { useAIStore } from '../../stores';
 import { AI_PROVIDERS } from '../../constants/models';
 import type { AIProvider } from '../../types';
@@ -17,6 +17,7 @@ const providerIcons: Record<AIProvider, React.ReactNode> = {
   'codex-cli': <MessageCircle className="w-5 h-5" />,
   grok: <Zap className="w-5 h-5" />,
   deepseek: <Zap className="w-5 h-5" />,
+  'local-llm': <Server className="w-5 h-5" />,
   manual: <Clipboard className="w-5 h-5" />
 };
 
@@ -69,7 +70,9 @@ export const AIProviderSelector: React.FC = () => {
                   <p className="text-xs text-slate-500 dark:text-slate-400">
                     {key === 'claude-cli' || key === 'codex-cli'
                       ? 'Sem chave — usa OAuth local'
-                      : hasApiKey ? 'API Key configurada' : 'API Key não configurada'}
+                      : key === 'local-llm'
+                        ? 'Ollama · llama.cpp · vLLM'
+                        : hasApiKey ? 'API Key configurada' : 'API Key não configurada'}
                   </p>
                 </div>
               </div>
@@ -10,6 +10,8 @@ import { API_BASE } from '../constants';
 import { getClaudeCliBridgeUrl, CLAUDE_CLI_MESSAGES_PATH } from '../../../utils/claude-cli-bridge';
 import { getCodexCliBridgeUrl, CODEX_CLI_MESSAGES_PATH } from '../../../utils/codex-cli-bridge';
 import { serializeForManual, normalizeManualResponse } from '../../../utils/manualCall';
+import { callLocalLlm, streamLocalLlm, localLlmResponseText } from '../../../utils/local-llm';
+import { fetchAIProxy } from '../../../utils/aiBudget';
 import { useManualCallStore } from '../../../stores/useManualCallStore';
 import type { AIMessage, AICallOptions, ClaudeContentBlock, OpenAIMessage, GrokMessage, GeminiMessage } from '../types';
 
@@ -78,7 +80,7 @@ export const useAIIntegration = () => {
         const claudeHeaders: Record<string, string> = localBridge
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.claude };
-        const response = await fetch(claudeUrl, {
+        const response = await fetchAIProxy(claudeUrl, {
           method: 'POST',
           headers: claudeHeaders,
           body: JSON.stringify(requestBody)
@@ -181,7 +183,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/gemini/generate`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/gemini/generate`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.gemini },
           body: JSON.stringify({
@@ -296,7 +298,7 @@ export const useAIIntegration = () => {
           ? { 'Content-Type': 'application/json' }
           : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.openai };
 
-        const response = await fetch(url, {
+        const response = await fetchAIProxy(url, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody)
@@ -373,7 +375,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/grok/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/grok/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -469,7 +471,7 @@ export const useAIIntegration = () => {
 
     for (let attempt = 0; attempt < RETRY_MAX_ATTEMPTS; attempt++) {
       try {
-        const response = await fetch(`${API_BASE}/api/deepseek/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/deepseek/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -520,6 +522,32 @@ export const useAIIntegration = () => {
     throw lastError || new Error('Todas as tentativas falharam');
   }, [aiSettings, addTokenUsage]);
 
+  // v1.53.38: LLM local OpenAI-compatível (Ollama/llama.cpp/vLLM) via /api/local-llm
+  const callLocalLlmAPI = useCallback(async (
+    messages: AIMessage[],
+    options: AICallOptions = {}
+  ): Promise<string> => {
+    const result = await callLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys['local-llm'],
+      model: options.model || aiSettings.localLlmModel || '',
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens ?? 8000,
+      temperature: options.temperature,
+      signal: options.abortSignal
+    });
+    if (result.usage) {
+      addTokenUsage({
+        input: result.usage.prompt_tokens || 0,
+        output: result.usage.completion_tokens || 0
+      });
+    }
+    return localLlmResponseText(result);
+  }, [aiSettings, addTokenUsage]);
+
   const callAI = useCallback(async (
     messages: AIMessage[],
     options: AICallOptions = {}
@@ -544,6 +572,8 @@ export const useAIIntegration = () => {
         return callGrokAPI(messages, options);
       case 'deepseek':
         return callDeepseekAPI(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPI(messages, options);
       case 'claude-cli':
         return callClaudeAPI(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
       case 'codex-cli':
@@ -551,7 +581,7 @@ export const useAIIntegration = () => {
       default:
         return callClaudeAPI(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI]);
+  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI, callLocalLlmAPI]);
 
   // ═══════════════════════════════════════════════════════════════════════════
   // STREAMING APIs - Evita timeout do Render com resposta em chunks
@@ -593,7 +623,7 @@ export const useAIIntegration = () => {
       };
     }
 
-    const response = await fetch(`${API_BASE}/api/claude/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/claude/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -703,7 +733,7 @@ export const useAIIntegration = () => {
       requestBody.reasoning_effort = reasoningLevel;
     }
 
-    const response = await fetch(`${API_BASE}/api/openai/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/openai/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -799,7 +829,7 @@ export const useAIIntegration = () => {
       });
     }
 
-    const response = await fetch(`${API_BASE}/api/grok/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/grok/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -920,7 +950,7 @@ export const useAIIntegration = () => {
       request.systemInstruction = { parts: [{ text: systemPrompt }] };
     }
 
-    const response = await fetch(`${API_BASE}/api/gemini/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/gemini/stream`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys.gemini },
       body: JSON.stringify({
@@ -1032,7 +1062,7 @@ export const useAIIntegration = () => {
       streamBody.reasoning_effort = reasoningEffort;
     }
 
-    const response = await fetch(`${API_BASE}/api/deepseek/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/deepseek/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -1101,6 +1131,32 @@ export const useAIIntegration = () => {
     return fullText.trim();
   }, [aiSettings, addTokenUsage]);
 
+  // v1.53.38: LLM local com streaming (mesmo formato SSE dos demais providers)
+  const callLocalLlmAPIStream = useCallback(async (
+    messages: AIMessage[],
+    options: AIStreamOptions = {}
+  ): Promise<string> => {
+    const result = await streamLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys['local-llm'],
+      model: options.model || aiSettings.localLlmModel || '',
+      messages,
+      systemPrompt: options.systemPrompt,
+      maxTokens: options.maxTokens ?? 16000,
+      temperature: options.temperature,
+      signal: options.abortSignal
+    }, options.onChunk);
+    if (result.usage) {
+      addTokenUsage({
+        input: result.usage.prompt_tokens || 0,
+        output: result.usage.completion_tokens || 0
+      });
+    }
+    return localLlmResponseText(result);
+  }, [aiSettings, addTokenUsage]);
+
   /**
    * Chamada com streaming - escolhe provider automaticamente
    * Usa callback onChunk para atualizar UI em tempo real
@@ -1127,6 +1183,8 @@ export const useAIIntegration = () => {
         return callGrokAPIStream(messages, options);
       case 'deepseek':
         return callDeepseekAPIStream(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPIStream(messages, options);
       case 'claude-cli':
         // v1 sem streaming: cai para o caminho não-stream via bridge local
         return callClaudeAPI(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
@@ -1135,7 +1193,7 @@ export const useAIIntegration = () => {
       default:
         return callClaudeAPIStream(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callOpenAIAPI, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream]);
+  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPI, callOpenAIAPI, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLocalLlmAPIStream]);
 
   return {
     callAI,
@@ -1145,11 +1203,13 @@ export const useAIIntegration = () => {
     callOpenAIAPI,
     callGrokAPI,
     callDeepseekAPI,
+    callLocalLlmAPI,
     callClaudeAPIStream,
     callGeminiAPIStream,
     callOpenAIAPIStream,
     callGrokAPIStream,
     callDeepseekAPIStream,
+    callLocalLlmAPIStream,
     aiSettings
   };
 };
@@ -284,6 +284,10 @@ export interface SavedProvaOralAnalysis {
   // Campos opcionais de compartilhamento (presentes quando vem da API com sharing)
   isOwn?: boolean;
   ownerEmail?: string;
+  // v1.53.43: Gabinete — permissões pelo papel do usuário
+  workspaceId?: string | null;
+  canEdit?: boolean;
+  canDelete?: boolean;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,95 @@
+/**
+ * @file AdminPanel.test.tsx
+ * @description Testes da aba de auditoria do painel admin
+ * @version 1.53.45
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import AdminPanel from './AdminPanel';
+
+const auditPage = {
+  entries: [
+    {
+      id: 2, createdAt: '2026-10-19T13:00:00.000Z', event: 'share.revoke', outcome: 'success', statusCode: 200,
+      userId: 'u-1', email: 'juiz@exemplo.com', ip: '10.0.0.5', userAgent: 'Firefox',
+      targetType: 'library_share', targetId: 'sh-1', details: { recipientEmail: 'assessor@exemplo.com' },
+    },
+    {
+      id: 1, createdAt: '2026-10-19T12:00:00.000Z', event: 'auth.magic_link_request', outcome: 'failure', statusCode: 403,
+      userId: null, email: 'intruso@exemplo.com', ip: '10.0.0.9', userAgent: null,
+      targetType: null, targetId: null, details: null,
+    },
+  ],
+  total: 2,
+  limit: 100,
+  offset: 0,
+  events: {
+    'auth.magic_link_request': 'Pedido de magic link',
+    'share.revoke': 'Revogação de compartilhamento',
+  },
+};
+
+const jsonResponse = (body: unknown) => ({ ok: true, json: async () => body, blob: async () => new Blob(['csv']) });
+
+describe('AdminPanel - Auditoria', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.includes('/api/admin/stats')) return jsonResponse({ allowedEmails: 1, users: 2, models: 3 });
+      if (url.includes('/api/admin/emails')) return jsonResponse({ emails: [] });
+      if (url.includes('/api/admin/audit')) return jsonResponse(auditPage);
+      return jsonResponse({});
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  const openAuditTab = async () => {
+    render(<AdminPanel />);
+    fireEvent.change(screen.getByPlaceholderText('Senha de administrador'), { target: { value: 'segredo' } });
+    fireEvent.click(screen.getByText('Acessar Painel'));
+    fireEvent.click(await screen.findByRole('tab', { name: /Auditoria/ }));
+  };
+
+  it('lists audit entries with event labels, user, IP and failures', async () => {
+    await openAuditTab();
+
+    expect(await screen.findByRole('cell', { name: 'Revogação de compartilhamento' })).toBeInTheDocument();
+    expect(screen.getByText('intruso@exemplo.com')).toBeInTheDocument();
+    expect(screen.getByText('10.0.0.5')).toBeInTheDocument();
+    expect(screen.getByText('falha 403')).toBeInTheDocument();
+    expect(screen.getByText('recipientEmail: assessor@exemplo.com')).toBeInTheDocument();
+  });
+
+  it('applies filters to the query and exports the same filters as CSV', async () => {
+    const createObjectURL = vi.fn(() => 'blob:auditoria');
+    Object.defineProperty(URL, 'createObjectURL', { value: createObjectURL, writable: true });
+    Object.defineProperty(URL, 'revokeObjectURL', { value: vi.fn(), writable: true });
+    await openAuditTab();
+    await screen.findByRole('cell', { name: 'Revogação de compartilhamento' });
+
+    fireEvent.change(screen.getByLabelText('Evento'), { target: { value: 'share.revoke' } });
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: ' juiz@ ' } });
+    fireEvent.click(screen.getByText('Filtrar'));
+
+    await vi.waitFor(() => {
+      const lastAuditCall = fetchMock.mock.calls.map(([url]) => url as string).filter(url => url.includes('/audit?')).pop();
+      expect(lastAuditCall).toContain('event=share.revoke');
+      expect(lastAuditCall).toContain('email=juiz%40');
+    });
+
+    fireEvent.click(screen.getByText('Exportar CSV'));
+
+    await vi.waitFor(() => expect(createObjectURL).toHaveBeenCalled());
+    const csvCall = fetchMock.mock.calls.find(([url]) => (url as string).includes('format=csv'));
+    expect(csvCall?.[0]).toContain('event=share.revoke');
+    expect(csvCall?.[1]).toMatchObject({ headers: expect.objectContaining({ 'X-Admin-Password': 'segredo' }) });
+  });
+});
@@ -6,10 +6,12 @@
  * autorizados a fazer login via Magic Link.
  *
  * @version 1.35.80 - Migrado para TypeScript
+ * @version 1.53.42 - Relatório mensal de uso de IA e orçamentos por usuário
+ * @version 1.53.45 - Abas (Usuários, Uso de IA, Auditoria) e trilha de auditoria com exportação CSV
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Lock, Loader2, AlertCircle, Mail, Plus, Trash2, Users, FileText, ArrowLeft, X } from 'lucide-react';
+import { Lock, Loader2, AlertCircle, Mail, Plus, Trash2, Users, FileText, ArrowLeft, X, DollarSign, ShieldCheck, Download } from 'lucide-react';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONSTANTES
@@ -37,6 +39,77 @@ interface AdminStats {
   models: number;
 }
 
+/** Linha agregada do relatório de uso de IA */
+interface AIUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+}
+
+/** Uso de IA de um usuário no mês, com o orçamento vigente */
+interface AIUsageByUser extends AIUsageTotals {
+  userId: string;
+  email: string;
+  softLimitUSD: number | null;
+  hardLimitUSD: number | null;
+  status: 'ok' | 'alerta' | 'bloqueado';
+}
+
+/** Resposta de GET /api/admin/ai-usage */
+interface AIUsageReport {
+  month: string;
+  totalCostUSD: number;
+  byUser: AIUsageByUser[];
+  byApp: Array<AIUsageTotals & { key: string }>;
+  byOperation: Array<AIUsageTotals & { key: string }>;
+  byModel: Array<AIUsageTotals & { key: string }>;
+}
+
+/** Orçamento mensal ('default' ou user_id) */
+interface AIBudget {
+  scope: string;
+  label: string;
+  softLimitUSD: number | null;
+  hardLimitUSD: number | null;
+}
+
+/** Registro da trilha de auditoria (GET /api/admin/audit) */
+interface AuditEntry {
+  id: number;
+  createdAt: string;
+  event: string;
+  outcome: 'success' | 'failure';
+  statusCode: number | null;
+  userId: string | null;
+  email: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  details: Record<string, unknown> | null;
+}
+
+/** Resposta de GET /api/admin/audit */
+interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  /** Catálogo evento → descrição */
+  events: Record<string, string>;
+}
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  event: string;
+  email: string;
+  outcome: '' | 'success' | 'failure';
+}
+
+type AdminTab = 'usuarios' | 'ia' | 'auditoria';
+
 /** Props do AdminLogin */
 interface AdminLoginProps {
   onLogin: (password: string) => void;
@@ -122,6 +195,491 @@ const AdminLogin: React.FC<AdminLoginProps> = ({ onLogin, error, loading }) => {
   );
 };
 
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE: USO DE IA (v1.53.42)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const formatUSD = (value: number | null): string =>
+  value === null ? '—' : `US$ ${value.toFixed(2)}`;
+
+const formatTokens = (value: number): string =>
+  value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : value >= 1e3 ? `${Math.round(value / 1e3)}k` : String(value);
+
+const parseLimit = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value.replace(',', '.'));
+
+const STATUS_BADGE: Record<AIUsageByUser['status'], string> = {
+  ok: 'bg-green-500/10 text-green-400',
+  alerta: 'bg-amber-500/10 text-amber-400',
+  bloqueado: 'bg-red-500/10 text-red-400',
+};
+
+const AIUsageSection: React.FC<{ headers: HeadersInit }> = ({ headers }) => {
+  const [month, setMonth] = useState<string>(() => new Date().toISOString().slice(0, 7));
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+  const [budgets, setBudgets] = useState<AIBudget[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [budgetEmail, setBudgetEmail] = useState<string>('');
+  const [softLimit, setSoftLimit] = useState<string>('');
+  const [hardLimit, setHardLimit] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const [usageRes, budgetsRes] = await Promise.all([
+          fetch(`${API_BASE}/api/admin/ai-usage?month=${month}`, { headers }),
+          fetch(`${API_BASE}/api/admin/ai-budgets`, { headers }),
+        ]);
+        if (!usageRes.ok || !budgetsRes.ok) {
+          throw new Error('Erro ao carregar uso de IA');
+        }
+        const usage = (await usageRes.json()) as AIUsageReport;
+        const budgetsData = (await budgetsRes.json()) as { budgets: AIBudget[] };
+        if (cancelled) return;
+        setReport(usage);
+        setBudgets(budgetsData.budgets || []);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Erro desconhecido');
+      }
+    })();
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [month]);
+
+  const handleSaveBudget = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    const soft = parseLimit(softLimit);
+    const hard = parseLimit(hardLimit);
+    if ((soft !== null && Number.isNaN(soft)) || (hard !== null && Number.isNaN(hard))) {
+      setError('Informe os limites em dólares (ex.: 50 ou 75.5)');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`${API_BASE}/api/admin/ai-budgets`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ email: budgetEmail.trim() || undefined, softLimitUSD: soft, hardLimitUSD: hard }),
+      });
+      const data = (await res.json()) as { budgets?: AIBudget[]; error?: string };
+      if (!res.ok) {
+        throw new Error(data.error || 'Erro ao salvar orçamento');
+      }
+      setBudgets(data.budgets || []);
+      setBudgetEmail('');
+      setSoftLimit('');
+      setHardLimit('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro desconhecido');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteBudget = async (scope: string): Promise<void> => {
+    try {
+      setError(null);
+      const res = await fetch(`${API_BASE}/api/admin/ai-budgets/${encodeURIComponent(scope)}`, {
+        method: 'DELETE',
+        headers,
+      });
+      const data = (await res.json()) as { budgets?: AIBudget[]; error?: string };
+      if (!res.ok) {
+        throw new Error(data.error || 'Erro ao remover orçamento');
+      }
+      setBudgets(data.budgets || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro desconhecido');
+    }
+  };
+
+  const breakdown = (title: string, rows: AIUsageReport['byApp']) => (
+    <div className="bg-slate-900/40 rounded-lg p-4">
+      <h3 className="text-sm font-medium text-slate-300 mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-slate-500 text-sm">—</p>
+      ) : (
+        <ul className="space-y-1">
+          {rows.map(row => (
+            <li key={row.key} className="flex justify-between gap-2 text-sm">
+              <span className="text-slate-400 truncate">{row.key}</span>
+              <span className="text-white whitespace-nowrap">{formatUSD(row.costUSD)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const inputClass = 'px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-green-400" />
+          Uso de IA
+          {report && <span className="text-slate-400 font-normal">· {formatUSD(report.totalCostUSD)}</span>}
+        </h2>
+        <input
+          type="month"
+          aria-label="Mês do relatório"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Por usuário */}
+        {report && (report.byUser.length === 0 ? (
+          <p className="text-slate-400 text-sm">Nenhuma chamada de IA registrada neste mês.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Usuário</th>
+                  <th className="py-2 pr-4 font-medium text-right">Chamadas</th>
+                  <th className="py-2 pr-4 font-medium text-right">Tokens (entrada/saída)</th>
+                  <th className="py-2 pr-4 font-medium text-right">Custo estimado</th>
+                  <th className="py-2 font-medium text-right">Limites (alerta/bloqueio)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {report.byUser.map(row => (
+                  <tr key={row.userId}>
+                    <td className="py-2 pr-4 text-white">
+                      {row.email}
+                      {row.status !== 'ok' && (
+                        <span className={`ml-2 px-2 py-0.5 rounded text-xs ${STATUS_BADGE[row.status]}`}>{row.status}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-slate-300">{row.calls}</td>
+                    <td className="py-2 pr-4 text-right text-slate-300">
+                      {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-white">{formatUSD(row.costUSD)}</td>
+                    <td className="py-2 text-right text-slate-400">
+                      {formatUSD(row.softLimitUSD)} / {formatUSD(row.hardLimitUSD)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        {report && report.byUser.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {breakdown('Por app', report.byApp)}
+            {breakdown('Por operação', report.byOperation)}
+            {breakdown('Por modelo', report.byModel)}
+          </div>
+        )}
+
+        {/* Orçamentos */}
+        <div>
+          <h3 className="text-sm font-medium text-slate-300 mb-1">Orçamentos mensais (USD)</h3>
+          <p className="text-slate-500 text-xs mb-3">
+            Acima do limite de alerta o uso aparece destacado aqui; no limite de bloqueio as chamadas de IA
+            do usuário são recusadas até o mês seguinte. Sem email, vale como padrão para todos.
+          </p>
+
+          {budgets.length > 0 && (
+            <ul className="mb-3 divide-y divide-slate-700/50">
+              {budgets.map(b => (
+                <li key={b.scope} className="py-2 flex items-center justify-between text-sm">
+                  <span className="text-white">{b.scope === 'default' ? 'Padrão (todos)' : b.label}</span>
+                  <span className="flex items-center gap-3 text-slate-400">
+                    {formatUSD(b.softLimitUSD)} / {formatUSD(b.hardLimitUSD)}
+                    <button
+                      onClick={() => handleDeleteBudget(b.scope)}
+                      className="p-1 text-slate-400 hover:text-red-400 rounded transition-colors"
+                      title="Remover orçamento"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSaveBudget} className="flex flex-wrap gap-2">
+            <input
+              type="email"
+              placeholder="email (vazio = padrão)"
+              value={budgetEmail}
+              onChange={(e) => setBudgetEmail(e.target.value)}
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <input
+              inputMode="decimal"
+              placeholder="Alerta"
+              aria-label="Limite de alerta"
+              value={softLimit}
+              onChange={(e) => setSoftLimit(e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+            <input
+              inputMode="decimal"
+              placeholder="Bloqueio"
+              aria-label="Limite de bloqueio"
+              value={hardLimit}
+              onChange={(e) => setHardLimit(e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+            <button
+              type="submit"
+              disabled={saving || (!softLimit.trim() && !hardLimit.trim())}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-all"
+            >
+              {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Salvar'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE: TRILHA DE AUDITORIA (v1.53.45)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const AUDIT_PAGE_SIZE = 100;
+
+const EMPTY_AUDIT_FILTERS: AuditFilters = { from: '', to: '', event: '', email: '', outcome: '' };
+
+const auditQuery = (filters: AuditFilters, extra: Record<string, string>): string => {
+  const params = new URLSearchParams(extra);
+  (Object.keys(filters) as Array<keyof AuditFilters>).forEach(key => {
+    if (filters[key]) params.set(key, filters[key]);
+  });
+  return params.toString();
+};
+
+const formatDetails = (details: AuditEntry['details']): string =>
+  details ? Object.entries(details).map(([k, v]) => `${k}: ${Array.isArray(v) ? v.join(', ') : String(v)}`).join(' · ') : '';
+
+const AuditLogSection: React.FC<{ headers: HeadersInit }> = ({ headers }) => {
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [offset, setOffset] = useState<number>(0);
+  const [page, setPage] = useState<AuditPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const query = auditQuery(filters, { limit: String(AUDIT_PAGE_SIZE), offset: String(offset) });
+        const res = await fetch(`${API_BASE}/api/admin/audit?${query}`, { headers });
+        if (!res.ok) {
+          throw new Error('Erro ao carregar a trilha de auditoria');
+        }
+        const data = (await res.json()) as AuditPage;
+        if (!cancelled) setPage(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Erro desconhecido');
+      }
+    })();
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, offset]);
+
+  const handleFilter = (e: React.FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters({ ...draft, email: draft.email.trim() });
+  };
+
+  const handleExport = async (): Promise<void> => {
+    try {
+      setExporting(true);
+      setError(null);
+      const res = await fetch(`${API_BASE}/api/admin/audit?${auditQuery(filters, { format: 'csv' })}`, { headers });
+      if (!res.ok) {
+        throw new Error('Erro ao exportar a trilha de auditoria');
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `auditoria-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro desconhecido');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+  const events = page?.events || {};
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-blue-400" />
+          Trilha de auditoria
+          {page && <span className="text-slate-400 font-normal">· {page.total} registro(s)</span>}
+        </h2>
+        <button
+          onClick={handleExport}
+          disabled={exporting || !page || page.total === 0}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors flex items-center gap-2"
+        >
+          {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Exportar CSV
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <form onSubmit={handleFilter} className="flex flex-wrap gap-2">
+          <input
+            type="date"
+            aria-label="De"
+            value={draft.from}
+            onChange={(e) => setDraft(prev => ({ ...prev, from: e.target.value }))}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            aria-label="Até"
+            value={draft.to}
+            onChange={(e) => setDraft(prev => ({ ...prev, to: e.target.value }))}
+            className={inputClass}
+          />
+          <select
+            aria-label="Evento"
+            value={draft.event}
+            onChange={(e) => setDraft(prev => ({ ...prev, event: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">Todos os eventos</option>
+            {Object.entries(events).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="email contém..."
+            aria-label="Email"
+            value={draft.email}
+            onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+            className={`${inputClass} flex-1 min-w-[10rem]`}
+          />
+          <select
+            aria-label="Resultado"
+            value={draft.outcome}
+            onChange={(e) => setDraft(prev => ({ ...prev, outcome: e.target.value as AuditFilters['outcome'] }))}
+            className={inputClass}
+          >
+            <option value="">Sucesso e falha</option>
+            <option value="success">Sucesso</option>
+            <option value="failure">Falha</option>
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-all"
+          >
+            Filtrar
+          </button>
+        </form>
+
+        {error && (
+          <div className="flex items-center gap-2 text-red-400 text-sm bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {page && (page.entries.length === 0 ? (
+          <p className="text-slate-400 text-sm">Nenhum registro para os filtros escolhidos.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Data/hora</th>
+                  <th className="py-2 pr-4 font-medium">Evento</th>
+                  <th className="py-2 pr-4 font-medium">Usuário</th>
+                  <th className="py-2 pr-4 font-medium">IP</th>
+                  <th className="py-2 font-medium">Alvo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {page.entries.map(entry => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="py-2 pr-4 text-slate-300 whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString('pt-BR')}
+                    </td>
+                    <td className="py-2 pr-4 text-white">
+                      {events[entry.event] || entry.event}
+                      {entry.outcome === 'failure' && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs bg-red-500/10 text-red-400">
+                          falha {entry.statusCode}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-slate-300">{entry.email || '—'}</td>
+                    <td className="py-2 pr-4 text-slate-400 whitespace-nowrap">{entry.ip || '—'}</td>
+                    <td className="py-2 text-slate-400">
+                      {entry.targetId && <span className="text-slate-300">{entry.targetType}: {entry.targetId}</span>}
+                      {entry.details && <p className="text-xs text-slate-500 break-all">{formatDetails(entry.details)}</p>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        {page && page.total > AUDIT_PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-slate-400">
+            <span>
+              {page.offset + 1}–{Math.min(page.offset + page.entries.length, page.total)} de {page.total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - AUDIT_PAGE_SIZE))}
+                disabled={offset === 0}
+                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg"
+              >
+                Mais recentes
+              </button>
+              <button
+                onClick={() => setOffset(offset + AUDIT_PAGE_SIZE)}
+                disabled={offset + AUDIT_PAGE_SIZE >= page.total}
+                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg"
+              >
+                Mais antigos
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // COMPONENTE: DASHBOARD ADMIN
 // ═══════════════════════════════════════════════════════════════════════════
@@ -134,6 +692,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ password, onLogout }) =
   const [newEmail, setNewEmail] = useState<string>('');
   const [adding, setAdding] = useState<boolean>(false);
   const [deleting, setDeleting] = useState<number | null>(null);
+  const [tab, setTab] = useState<AdminTab>('usuarios');
 
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
@@ -312,88 +871,117 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ password, onLogout }) =
           </div>
         )}
 
-        {/* Add Email Form */}
-        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 mb-6">
-          <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-            <Plus className="w-5 h-5 text-purple-400" />
-            Adicionar Email Autorizado
-          </h2>
-          <form onSubmit={handleAddEmail} className="flex gap-3">
-            <input
-              type="email"
-              placeholder="email@exemplo.com"
-              value={newEmail}
-              onChange={(e) => setNewEmail(e.target.value)}
-              disabled={adding}
-              className="flex-1 px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all disabled:opacity-50"
-            />
+        {/* Abas (v1.53.45) */}
+        <div role="tablist" className="flex gap-2 mb-6 border-b border-slate-700">
+          {([
+            ['usuarios', 'Usuários', Users],
+            ['ia', 'Uso de IA', DollarSign],
+            ['auditoria', 'Auditoria', ShieldCheck],
+          ] as const).map(([key, label, Icon]) => (
             <button
-              type="submit"
-              disabled={adding || !newEmail.trim()}
-              className="px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-all flex items-center gap-2"
+              key={key}
+              role="tab"
+              aria-selected={tab === key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-2 -mb-px border-b-2 flex items-center gap-2 transition-colors ${
+                tab === key ? 'border-purple-500 text-white' : 'border-transparent text-slate-400 hover:text-slate-200'
+              }`}
             >
-              {adding ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <>
-                  <Plus className="w-5 h-5" />
-                  Adicionar
-                </>
-              )}
+              <Icon className="w-4 h-4" />
+              {label}
             </button>
-          </form>
+          ))}
         </div>
 
-        {/* Email List */}
-        <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
-          <div className="px-6 py-4 border-b border-slate-700">
-            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
-              <Mail className="w-5 h-5 text-blue-400" />
-              Emails Autorizados ({emails.length})
-            </h2>
-          </div>
-
-          {emails.length === 0 ? (
-            <div className="p-8 text-center text-slate-400">
-              <Mail className="w-12 h-12 mx-auto mb-3 opacity-50" />
-              <p>Nenhum email autorizado ainda.</p>
-              <p className="text-sm mt-1">Adicione emails acima para permitir login via Magic Link.</p>
-            </div>
-          ) : (
-            <div className="divide-y divide-slate-700">
-              {emails.map((email) => (
-                <div
-                  key={email.id}
-                  className="px-6 py-4 flex items-center justify-between hover:bg-slate-700/30 transition-colors"
+        {tab === 'usuarios' && (
+          <>
+            {/* Add Email Form */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 mb-6">
+              <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <Plus className="w-5 h-5 text-purple-400" />
+                Adicionar Email Autorizado
+              </h2>
+              <form onSubmit={handleAddEmail} className="flex gap-3">
+                <input
+                  type="email"
+                  placeholder="email@exemplo.com"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  disabled={adding}
+                  className="flex-1 px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all disabled:opacity-50"
+                />
+                <button
+                  type="submit"
+                  disabled={adding || !newEmail.trim()}
+                  className="px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-medium rounded-xl transition-all flex items-center gap-2"
                 >
-                  <div className="flex items-center gap-3">
-                    <div className="p-2 bg-slate-700 rounded-lg">
-                      <Mail className="w-4 h-4 text-slate-300" />
-                    </div>
-                    <div>
-                      <p className="text-white font-medium">{email.email}</p>
-                      <p className="text-slate-500 text-xs">
-                        Adicionado em {new Date(email.created_at).toLocaleDateString('pt-BR')}
-                      </p>
+                  {adding ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <>
+                      <Plus className="w-5 h-5" />
+                      Adicionar
+                    </>
+                  )}
+                </button>
+              </form>
+            </div>
+
+            {/* Email List */}
+            <div className="bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-700">
+                <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <Mail className="w-5 h-5 text-blue-400" />
+                  Emails Autorizados ({emails.length})
+                </h2>
+              </div>
+
+              {emails.length === 0 ? (
+                <div className="p-8 text-center text-slate-400">
+                  <Mail className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                  <p>Nenhum email autorizado ainda.</p>
+                  <p className="text-sm mt-1">Adicione emails acima para permitir login via Magic Link.</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-slate-700">
+                  {emails.map((email) => (
+                    <div
+                      key={email.id}
+                      className="px-6 py-4 flex items-center justify-between hover:bg-slate-700/30 transition-colors"
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-slate-700 rounded-lg">
+                          <Mail className="w-4 h-4 text-slate-300" />
+                        </div>
+                        <div>
+                          <p className="text-white font-medium">{email.email}</p>
+                          <p className="text-slate-500 text-xs">
+                            Adicionado em {new Date(email.created_at).toLocaleDateString('pt-BR')}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteEmail(email.id)}
+                        disabled={deleting === email.id}
+                        className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all disabled:opacity-50"
+                        title="Remover email"
+                      >
+                        {deleting === email.id ? (
+                          <Loader2 className="w-5 h-5 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-5 h-5" />
+                        )}
+                      </button>
                     </div>
-                  </div>
-                  <button
-                    onClick={() => handleDeleteEmail(email.id)}
-                    disabled={deleting === email.id}
-                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all disabled:opacity-50"
-                    title="Remover email"
-                  >
-                    {deleting === email.id ? (
-                      <Loader2 className="w-5 h-5 animate-spin" />
-                    ) : (
-                      <Trash2 className="w-5 h-5" />
-                    )}
-                  </button>
+                  ))}
                 </div>
-              ))}
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
+
+        {tab === 'ia' && <AIUsageSection headers={headers} />}
+        {tab === 'auditoria' && <AuditLogSection headers={headers} />}
       </div>
     </div>
   );
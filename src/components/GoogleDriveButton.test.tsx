@@ -305,6 +305,17 @@ describe('GoogleDriveButton', () => {
       expect(defaultProps.onClear).toHaveBeenCalled();
     });
 
+    it('should show cloud sessions entry only when handler is given', () => {
+      const onOpenCloudSessions = vi.fn();
+      const { rerender } = render(<GoogleDriveButton {...defaultProps} />);
+      fireEvent.click(screen.getByRole('button'));
+      expect(screen.queryByText('Sessões na nuvem')).not.toBeInTheDocument();
+
+      rerender(<GoogleDriveButton {...defaultProps} onOpenCloudSessions={onOpenCloudSessions} />);
+      fireEvent.click(screen.getByText('Sessões na nuvem'));
+      expect(onOpenCloudSessions).toHaveBeenCalled();
+    });
+
     it('should have hidden file input for load local', () => {
       const { container } = render(<GoogleDriveButton {...defaultProps} />);
       const fileInput = container.querySelector('input[type="file"]');
@@ -3,10 +3,11 @@
  * Dropdown unificado para gerenciamento de projetos (nuvem e local)
  *
  * @version 1.35.54 - Foto do perfil Google no status de conexão
+ * @version 1.53.41 - Seção "Sessões na nuvem" (sync encriptado entre dispositivos)
  */
 
 import React, { useState, useRef, useEffect, ChangeEvent } from 'react';
-import { Cloud, CloudOff, Upload, Download, LogOut, Loader2, Trash2, RefreshCw, Share2, X, Users, FileDown, FileUp, FolderOpen, AlertTriangle } from 'lucide-react';
+import { Cloud, CloudOff, Upload, Download, LogOut, Loader2, Trash2, RefreshCw, Share2, X, Users, FileDown, FileUp, FolderOpen, AlertTriangle, Lock } from 'lucide-react';
 import { GoogleDriveFile, GoogleDrivePermission } from '../hooks/useGoogleDrive';
 import { BaseModal, ModalFooter } from './modals/BaseModal';
 
@@ -28,6 +29,8 @@ interface GoogleDriveButtonProps {
   onLoadLocal: (e: ChangeEvent<HTMLInputElement>) => void;
   // v1.35.52: Limpar projeto
   onClear: () => void;
+  // v1.53.41: Sessões sincronizadas (só com usuário autenticado no servidor)
+  onOpenCloudSessions?: () => void;
   isDarkMode: boolean;
 }
 
@@ -62,6 +65,7 @@ export function GoogleDriveButton({
   onSaveLocal,
   onLoadLocal,
   onClear,
+  onOpenCloudSessions,
   isDarkMode
 }: GoogleDriveButtonProps): React.ReactElement {
   const [isOpen, setIsOpen] = useState<boolean>(false);
@@ -195,6 +199,22 @@ export function GoogleDriveButton({
               </>
             )}
 
+            {/* v1.53.41: Seção Sessões na nuvem (E2E) */}
+            {onOpenCloudSessions && (
+              <div className={`border-t mt-1 pt-1 ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
+                <button
+                  onClick={() => {
+                    onOpenCloudSessions();
+                    setIsOpen(false);
+                  }}
+                  className={itemClass}
+                >
+                  <Lock className="w-4 h-4 text-blue-500" />
+                  <span>Sessões na nuvem</span>
+                </button>
+              </div>
+            )}
+
             {/* v1.35.51: Seção Local */}
             <div className={`border-t mt-1 pt-1 ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
               <div className={`px-3 py-1 text-xs font-medium ${isDarkMode ? 'text-slate-400' : 'text-slate-500'}`}>
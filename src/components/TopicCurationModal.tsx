@@ -73,7 +73,7 @@ interface TopicCurationModalProps {
   parallelRequests?: number;
   isDarkMode?: boolean;
   // Configurações de custo
-  provider?: 'anthropic' | 'gemini' | 'claude' | 'claude-cli' | 'codex-cli' | 'openai' | 'grok' | 'deepseek' | 'manual';
+  provider?: 'anthropic' | 'gemini' | 'claude' | 'claude-cli' | 'codex-cli' | 'openai' | 'grok' | 'deepseek' | 'local-llm' | 'manual';
   thinkingBudget?: string;
   useExtendedThinking?: boolean;
   geminiThinkingLevel?: 'minimal' | 'low' | 'medium' | 'high';
@@ -210,7 +210,7 @@ const USD_TO_BRL = 5.50;
 // ═══════════════════════════════════════════════════════════════════════════════
 
 interface EstimateOptions {
-  provider?: 'anthropic' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'manual';
+  provider?: 'anthropic' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm' | 'manual';
   thinkingBudget?: string;
   useExtendedThinking?: boolean;
   geminiThinkingLevel?: string;
@@ -232,10 +232,11 @@ const estimateCostAndTime = (
     topicsPerRequest = 1
   } = options;
 
-  // Providers CLI locais (claude-cli/codex-cli) rodam sob assinatura e Sem Provider (manual)
-  // não tem chamada de API — custo $0 em todos.
+  // Providers CLI locais (claude-cli/codex-cli) rodam sob assinatura, o endpoint local
+  // (local-llm) roda no hardware do gabinete e Sem Provider (manual) não tem chamada de
+  // API — custo $0 em todos.
   const isLocalCli = provider === 'claude-cli' || provider === 'codex-cli';
-  const isZeroCost = isLocalCli || provider === 'manual';
+  const isZeroCost = isLocalCli || provider === 'local-llm' || provider === 'manual';
   const prices = isZeroCost
     ? { input: 0, output: 0 }
     : (MODEL_PRICES[model] || MODEL_PRICES['claude-sonnet-4-20250514']);
@@ -1190,7 +1191,7 @@ const TopicCurationModal: React.FC<TopicCurationModalProps> = ({
     // real para o estimador, que zera o custo internamente quando é CLI local.
     const estimateProvider = provider === 'claude' ? 'anthropic' : provider;
     return estimateCostAndTime(topicsToGenerate, model, parallelRequests, {
-      provider: estimateProvider as 'anthropic' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'manual',
+      provider: estimateProvider as 'anthropic' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm' | 'manual',
       thinkingBudget,
       useExtendedThinking,
       geminiThinkingLevel,
@@ -1200,6 +1201,8 @@ const TopicCurationModal: React.FC<TopicCurationModalProps> = ({
 
   // v1.50.2: Sufixo "· assinatura" no rótulo de custo quando provider CLI local
   const isLocalCliProvider = provider === 'claude-cli' || provider === 'codex-cli';
+  // v1.53.38: endpoint OpenAI-compatível local — sem custo por token
+  const isLocalLlmProvider = provider === 'local-llm';
   // Modo Sem Provider (manual): sem custo e sem tempo estimável (você cola a resposta)
   const isManualProvider = provider === 'manual';
 
@@ -1571,7 +1574,7 @@ const TopicCurationModal: React.FC<TopicCurationModalProps> = ({
               <span className={`text-sm ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
                 {isManualProvider
                   ? 'Sem custo (Sem Provider · copiar/colar)'
-                  : `~R$ ${estimate.costBRL} (${MODEL_NAMES[model] || model}${isLocalCliProvider ? ' · assinatura' : ''}${estimate.thinkingLabel ? ` + ${estimate.thinkingLabel}` : ''})`}
+                  : `~R$ ${estimate.costBRL} (${MODEL_NAMES[model] || model}${isLocalCliProvider ? ' · assinatura' : isLocalLlmProvider ? ' · local' : ''}${estimate.thinkingLabel ? ` + ${estimate.thinkingLabel}` : ''})`}
               </span>
             </div>
             {!isManualProvider && (
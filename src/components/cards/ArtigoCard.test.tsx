@@ -245,4 +245,41 @@ describe('ArtigoCard', () => {
       expect(screen.getByText('c)')).toBeInTheDocument();
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // v1.53.37: REDAÇÕES DATADAS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Dated Versions', () => {
+    const artigoComHistorico = createMockArtigo({
+      caput: 'Redação atual do caput.',
+      paragrafos: [{ numero: '4', texto: 'Apenas o período suprimido. (Redação dada pela Lei nº 13.467, de 2017)' }],
+      redacoes: [{ vigenciaFim: '2017-11-10', alteradaPor: 'Lei 13.467/2017', caput: 'Redação anterior do caput.' }],
+    });
+
+    it('should show the text in force on the reference date', () => {
+      render(<ArtigoCard {...defaultProps} artigo={artigoComHistorico} dataReferencia="2016-05-01" />);
+      expect(screen.getByText('vigente em 01/05/2016')).toBeInTheDocument();
+      expect(screen.getByText('Redação anterior do caput.')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByTitle('Copiar artigo'));
+      expect(defaultProps.onCopy).toHaveBeenCalledWith(expect.objectContaining({ caput: 'Redação anterior do caput.' }));
+    });
+
+    it('should show current vigência and list previous versions when expanded', () => {
+      render(<ArtigoCard {...defaultProps} artigo={artigoComHistorico} expanded={true} />);
+      expect(screen.getByText('vigente desde 11/11/2017')).toBeInTheDocument();
+      expect(screen.getByText('Redações anteriores:')).toBeInTheDocument();
+      expect(screen.getByText('vigente até 10/11/2017 (alterada pela Lei 13.467/2017)')).toBeInTheDocument();
+    });
+
+    it('should warn when the earlier version is not registered', () => {
+      const artigo = createMockArtigo({
+        paragrafos: [{ numero: '2', texto: 'Novo texto. (Redação dada pela Lei nº 13.467, de 2017)' }],
+      });
+      render(<ArtigoCard {...defaultProps} artigo={artigo} dataReferencia="2015-01-10" />);
+      expect(screen.getByText('redação de 10/01/2015 não cadastrada')).toBeInTheDocument();
+      expect(screen.getByText('Os direitos dos trabalhadores urbanos e rurais...')).toBeInTheDocument();
+    });
+  });
 });
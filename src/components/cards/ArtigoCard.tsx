@@ -1,23 +1,33 @@
 /**
  * @file ArtigoCard.tsx
  * @description Card de exibição de artigo de lei
- * @version 1.36.83
+ * @version 1.53.37
+ *
+ * v1.53.37: Redação vigente na data de referência ("vigente em dd/mm/aaaa") e
+ *           histórico de redações anteriores no card expandido
  */
 
 import React from 'react';
-import { Check, Copy, ChevronUp, ChevronDown } from 'lucide-react';
+import { Check, Copy, ChevronUp, ChevronDown, History } from 'lucide-react';
 import type { ArtigoCardProps } from '../../types';
 import { getLeiFromId } from '../../hooks';
+import { artigoTextoCompleto, formatDataBR, formatVigencia, inferVigenciaInicio, linhaDoTempo, redacaoEm } from '../../utils/legislacaoRedacoes';
 
 export const ArtigoCard = React.memo(({
   artigo,
   onCopy,
   expanded,
   onToggleExpand,
-  copiedId
+  copiedId,
+  dataReferencia
 }: ArtigoCardProps) => {
   const lei = getLeiFromId(artigo.id);
-  const hasDetails = (artigo.paragrafos && artigo.paragrafos.length > 0) || (artigo.incisos && artigo.incisos.length > 0) || (artigo.alineas && artigo.alineas.length > 0);
+  // v1.53.37: sem data de referência, mostra a redação atual
+  const redacao = dataReferencia ? redacaoEm(artigo, dataReferencia) : null;
+  const vigente = redacao?.artigo ?? artigo;
+  const vigenciaInicio = redacao ? undefined : inferVigenciaInicio(artigo);
+  const anteriores = (artigo.redacoes?.length ?? 0) > 0 ? linhaDoTempo(artigo).filter(r => !r.atual && r.artigo) : [];
+  const hasDetails = (vigente.paragrafos && vigente.paragrafos.length > 0) || (vigente.incisos && vigente.incisos.length > 0) || (vigente.alineas && vigente.alineas.length > 0) || anteriores.length > 0;
   const isCopied = copiedId === artigo.id;
 
   return (
@@ -31,14 +41,31 @@ export const ArtigoCard = React.memo(({
             <span className="font-semibold text-sm theme-text-primary">
               Art. {artigo.numero}
             </span>
-            {artigo.status === 'revogado' && (
+            {vigente.status === 'revogado' && (
               <span className="px-1.5 py-0.5 rounded text-xs bg-red-500/20 text-red-400">
                 Revogado
               </span>
             )}
+            {dataReferencia && redacao && (
+              redacao.artigo ? (
+                <span
+                  className={`px-1.5 py-0.5 rounded text-xs ${redacao.atual ? 'bg-green-500/20 text-green-400' : 'bg-amber-500/20 text-amber-400'}`}
+                  title={redacao.atual ? 'Redação atual' : `Redação anterior — ${formatVigencia(redacao)}`}
+                >
+                  vigente em {formatDataBR(dataReferencia)}
+                </span>
+              ) : (
+                <span className="px-1.5 py-0.5 rounded text-xs bg-amber-500/20 text-amber-400" title="Exibindo a redação atual">
+                  redação de {formatDataBR(dataReferencia)} não cadastrada
+                </span>
+              )
+            )}
+            {!dataReferencia && vigenciaInicio && (
+              <span className="text-xs theme-text-muted">{formatVigencia({ vigenciaInicio })}</span>
+            )}
           </div>
           <p className="text-sm theme-text-secondary line-clamp-3">
-            {artigo.caput}
+            {vigente.caput}
           </p>
         </div>
         <div className="flex gap-1">
@@ -52,7 +79,7 @@ export const ArtigoCard = React.memo(({
             </button>
           )}
           <button
-            onClick={() => onCopy(artigo)}
+            onClick={() => onCopy(vigente)}
             className={`p-1.5 rounded transition-colors ${isCopied ? 'bg-green-500/20 text-green-400' : 'hover-bg-blue-opacity text-blue-400'}`}
             title={isCopied ? 'Copiado!' : 'Copiar artigo'}
           >
@@ -63,36 +90,53 @@ export const ArtigoCard = React.memo(({
 
       {expanded && hasDetails && (
         <div className="mt-3 pt-3 border-t theme-border-subtle text-sm space-y-2">
-          {artigo.paragrafos && artigo.paragrafos.length > 0 && (
+          {vigente.paragrafos && vigente.paragrafos.length > 0 && (
             <div>
               <span className="text-xs font-medium theme-text-purple block mb-1">Parágrafos:</span>
-              {artigo.paragrafos.map((p: { numero: string; texto: string }, i: number) => (
+              {vigente.paragrafos.map((p: { numero: string; texto: string }, i: number) => (
                 <p key={i} className="theme-text-secondary ml-2 mb-1">
                   <span className="theme-text-purple">§ {p.numero}º</span> {p.texto}
                 </p>
               ))}
             </div>
           )}
-          {artigo.incisos && artigo.incisos.length > 0 && (
+          {vigente.incisos && vigente.incisos.length > 0 && (
             <div>
               <span className="text-xs font-medium theme-text-amber block mb-1">Incisos:</span>
-              {artigo.incisos.map((inc: { numero: string; texto: string }, i: number) => (
+              {vigente.incisos.map((inc: { numero: string; texto: string }, i: number) => (
                 <p key={i} className="theme-text-secondary ml-2 mb-1">
                   <span className="theme-text-amber">{inc.numero}</span> - {inc.texto}
                 </p>
               ))}
             </div>
           )}
-          {artigo.alineas && artigo.alineas.length > 0 && (
+          {vigente.alineas && vigente.alineas.length > 0 && (
             <div>
               <span className="text-xs font-medium theme-text-green block mb-1">Alíneas:</span>
-              {artigo.alineas.map((al: { letra: string; texto: string }, i: number) => (
+              {vigente.alineas.map((al: { letra: string; texto: string }, i: number) => (
                 <p key={i} className="theme-text-secondary ml-2 mb-1">
                   <span className="theme-text-green">{al.letra})</span> {al.texto}
                 </p>
               ))}
             </div>
           )}
+          {anteriores.length > 0 && (
+            <div>
+              <span className="text-xs font-medium theme-text-muted flex items-center gap-1 mb-1">
+                <History className="w-3 h-3" /> Redações anteriores:
+              </span>
+              {anteriores.map((r, i) => (
+                <details key={i} className="ml-2 mb-1">
+                  <summary className="cursor-pointer text-xs theme-text-secondary">
+                    {formatVigencia(r)}{r.alteradaPor ? ` (alterada pela ${r.alteradaPor})` : ''}
+                  </summary>
+                  <p className="theme-text-secondary ml-2 mt-1 whitespace-pre-line">
+                    {r.artigo && artigoTextoCompleto(r.artigo)}
+                  </p>
+                </details>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -13,7 +13,7 @@ import React from 'react';
 import { FileText, Sparkles, AlertCircle, Loader2, Check, Scale, Trash2, Paperclip, Plus, X, Edit2, Search, ShieldCheck } from 'lucide-react';
 import { ProcessingModeSelector } from '../ui/ProcessingModeSelector';
 import VoiceButton from '../VoiceButton';
-import { anonymizeText } from '../../utils/text';
+import { detectEntitiesForAI, pseudonymizeForAI } from '../../stores/usePseudonymVaultStore';
 import { useAIStore } from '../../stores/useAIStore';
 import { useAIIntegration } from '../../hooks';
 import { useVoiceImprovement } from '../../hooks/useVoiceImprovement';
@@ -116,9 +116,11 @@ export const ProofCard = React.memo(({
       setExtractionProgress(null);
 
       if (extractedText && extractedText.trim().length > 0) {
+        // v1.53.40: NER local antes de anonimizar
+        if (anonymizationEnabled) await detectEntitiesForAI([extractedText], anonConfig);
         // Usar nomes passados como parametro (do modal ou existentes)
         const textToStore = (anonymizationEnabled && anonConfig)
-          ? anonymizeText(extractedText, anonConfig, nomesToUse)
+          ? pseudonymizeForAI(extractedText, anonConfig, nomesToUse)
           : extractedText;
         proofManager.setExtractedProofTexts((prev: Record<string, string>) => ({ ...prev, [proof.id]: textToStore }));
         proofManager.setProofExtractionFailed((prev: Record<string, boolean>) => ({ ...prev, [proof.id]: false }));
@@ -312,8 +314,9 @@ export const ProofCard = React.memo(({
       const extractedText = await extractTextFromPDFWithMode(attachment.file, selectedMode);
 
       if (extractedText && extractedText.trim().length > 0) {
+        if (anonymizationEnabled) await detectEntitiesForAI([extractedText], anonConfig);
         const textToStore = (anonymizationEnabled && anonConfig)
-          ? anonymizeText(extractedText, anonConfig, nomesParaAnonimizar)
+          ? pseudonymizeForAI(extractedText, anonConfig, nomesParaAnonimizar)
           : extractedText;
         updateAttachmentExtractedText(proof.id, attachment.id, textToStore);
       }
@@ -410,6 +413,7 @@ export const ProofCard = React.memo(({
                   {blockReason === 'deepseek' ? 'DeepSeek selecionado:'
                     : blockReason === 'grok' ? 'Grok selecionado:'
                     : blockReason === 'codex-cli' ? 'Codex Local (CLI) selecionado:'
+                    : blockReason === 'local-llm' ? 'LLM Local selecionado:'
                     : blockReason === 'manual' ? 'Modo Sem Provider:'
                     : 'Provider sem suporte:'}
                 </span>{' '}
@@ -417,6 +421,8 @@ export const ProofCard = React.memo(({
                   ? 'DeepSeek não suporta PDF binário (text-only). Extraia o texto primeiro.'
                   : blockReason === 'codex-cli'
                     ? 'Codex CLI não suporta PDF binário (text-only). Extraia o texto primeiro.'
+                    : blockReason === 'local-llm'
+                      ? 'O endpoint local recebe só texto. Extraia o texto primeiro.'
                     : blockReason === 'manual'
                       ? 'No modo Sem Provider o PDF binário não é enviado. Extraia o texto primeiro.'
                       : 'Provider atual não suporta PDF binário. Extraia o texto primeiro.'}
@@ -461,6 +467,7 @@ export const ProofCard = React.memo(({
                         : binaryPdfBlocked
                           ? (blockReason === 'deepseek' ? 'DeepSeek não suporta PDF binário (text-only)'
                             : blockReason === 'codex-cli' ? 'Codex CLI não suporta PDF binário (text-only)'
+                            : blockReason === 'local-llm' ? 'LLM local recebe só texto'
                             : 'Grok não suporta PDF binário')
                           : ''
                   }
@@ -12,7 +12,7 @@ import { GripVertical, ChevronUp, ChevronDown, Edit2, Split, Merge } from 'lucid
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS as DndCSS } from '@dnd-kit/utilities';
 import { isSpecialTopic, isDispositivo, isRelatorio } from '../../utils/text';
-import type { TopicCardProps, SortableTopicCardProps, Topic, TopicCategory, TopicResultado } from '../../types';
+import type { TopicCardProps, SortableTopicCardProps, Topic, TopicCategory, TopicResultado, PedidoVinculado } from '../../types';
 
 // Estilos de resultado (cores por tipo de decisão)
 const RESULTADO_STYLES = {
@@ -28,6 +28,13 @@ const RESULTADO_STYLES = {
 const getResultadoStyle = (r: string | null | undefined) =>
   RESULTADO_STYLES[r as keyof typeof RESULTADO_STYLES] || RESULTADO_STYLES.default;
 
+// v1.53.49: Pedidos vinculados importados do Analisador
+const PEDIDO_VINCULADO_LABELS: Record<PedidoVinculado, string> = {
+  subsidiario: 'Subsidiário',
+  alternativo: 'Alternativo',
+  sucessivo: 'Sucessivo',
+};
+
 // TopicCard - Card de tópico com drag-and-drop
 export const TopicCard = React.memo(({
   topic,
@@ -195,6 +202,14 @@ export const TopicCard = React.memo(({
               <span className="text-xs theme-bg-blue-accent theme-text-blue px-2 py-1 rounded">
                 #{selectedIdx + 1}
               </span>
+              {topic.pedidoPrincipal && (
+                <span
+                  className="text-xs theme-bg-purple-accent theme-text-purple px-2 py-1 rounded"
+                  title={topic.condicao || undefined}
+                >
+                  {PEDIDO_VINCULADO_LABELS[topic.tipoPedido || 'subsidiario']} de {topic.pedidoPrincipal}
+                </span>
+              )}
 
               {/* Seletor de resultado do julgamento - não mostrar para RELATÓRIO e DISPOSITIVO */}
               {topic.title.toUpperCase() !== 'RELATÓRIO' && topic.title.toUpperCase() !== 'DISPOSITIVO' && (
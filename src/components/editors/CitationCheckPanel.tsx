@@ -0,0 +1,138 @@
+/**
+ * @file CitationCheckPanel.tsx
+ * @description Verificador de citações da fundamentação: lista as súmulas, OJs,
+ *              temas e artigos citados, mostra o texto no hover e acusa os
+ *              inexistentes ou cancelados/superados antes da assinatura.
+ * @version 1.53.36
+ */
+
+import React from 'react';
+import { AlertTriangle, RefreshCw, Scale, X } from 'lucide-react';
+import { useCitationCatalog } from '../../hooks/useCitationCatalog';
+import {
+  checkCitations,
+  citationPreview,
+  isCitationProblem,
+  parseLegalCitations,
+  uniqueCitations
+} from '../../utils/citationLinker';
+import type { CheckedCitation, CitationCheckStatus } from '../../types';
+
+export interface CitationCheckPanelProps {
+  /** HTML do editor (Quill) — o chamador repassa após pausa na digitação */
+  html: string;
+}
+
+const STATUS_LABEL: Record<CitationCheckStatus, string> = {
+  valida: 'Localizada',
+  invalida: 'Cancelada/superada',
+  inexistente: 'Não encontrada',
+  nao_verificavel: 'Não verificada',
+};
+
+const STATUS_STYLE: Record<CitationCheckStatus, string> = {
+  valida: 'bg-green-600/20 text-green-400 border-green-600/40',
+  invalida: 'bg-red-600/20 text-red-400 border-red-600/40',
+  inexistente: 'bg-red-600/20 text-red-400 border-red-600/40',
+  nao_verificavel: 'bg-gray-500/20 text-gray-400 border-gray-500/40',
+};
+
+/**
+ * Texto puro para o parser. DOMParser é inerte (não executa nada), então dispensa o
+ * DOMPurify; a quebra entre parágrafos evita que "…da CLT.</p><p>Súmula…" vire uma palavra só.
+ */
+const htmlToCitationText = (html: string): string => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html.replace(/<\/(p|li|h[1-6]|blockquote)>|<br\s*\/?>/gi, '$&\n'), 'text/html');
+  return doc.body.textContent || '';
+};
+
+const CitationChip: React.FC<{ citation: CheckedCitation & { count: number } }> = ({ citation }) => {
+  const [hovering, setHovering] = React.useState(false);
+  const [pinned, setPinned] = React.useState(false);
+  const preview = citationPreview(citation);
+
+  return (
+    <span
+      className="relative inline-block"
+      onMouseEnter={() => setHovering(true)}
+      onMouseLeave={() => setHovering(false)}
+    >
+      <button
+        type="button"
+        onClick={() => setPinned(p => !p)}
+        className={`px-2 py-0.5 text-xs rounded border ${STATUS_STYLE[citation.status]}`}
+        aria-expanded={hovering || pinned}
+        title={`${citation.raw} — ${STATUS_LABEL[citation.status]}`}
+      >
+        {citation.label}{citation.count > 1 ? ` ×${citation.count}` : ''}
+      </button>
+      {(hovering || pinned) && (
+        <div
+          className="absolute left-0 bottom-full mb-1 z-[60] w-[min(480px,85vw)] max-h-[40vh] overflow-auto rounded-lg border theme-border-input theme-bg-primary shadow-xl p-3 space-y-1.5"
+          role="dialog"
+          aria-label={citation.label}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-semibold theme-text-secondary">{citation.label}</span>
+            <span className={`text-[10px] px-1.5 py-0.5 rounded border ${STATUS_STYLE[citation.status]}`}>{STATUS_LABEL[citation.status]}</span>
+            {pinned && (
+              <button type="button" onClick={() => setPinned(false)} className="theme-text-muted" title="Fechar" aria-label="Fechar">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          {citation.detail && <p className="text-xs text-amber-400">{citation.detail}</p>}
+          {preview && preview !== citation.detail && (
+            <p className="text-sm theme-text-primary whitespace-pre-line leading-relaxed">{preview}</p>
+          )}
+        </div>
+      )}
+    </span>
+  );
+};
+
+/**
+ * CitationCheckPanel — citações encontradas no texto, com a situação de cada uma
+ * nas bases locais. Não renderiza nada se o texto não cita nada.
+ */
+export const CitationCheckPanel: React.FC<CitationCheckPanelProps> = ({ html }) => {
+  const { catalog, reload } = useCitationCatalog();
+  const text = React.useMemo(() => htmlToCitationText(html), [html]);
+  const citations = React.useMemo(
+    () => uniqueCitations(checkCitations(parseLegalCitations(text), catalog)),
+    [text, catalog]
+  );
+  const problems = citations.filter(isCitationProblem).length;
+
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border theme-border-input px-3 py-2 space-y-2" data-testid="citation-check-panel">
+      <div className="flex items-center gap-2 text-xs">
+        <Scale className="w-3.5 h-3.5 theme-text-muted" />
+        <span className="font-medium theme-text-secondary">Citações ({citations.length})</span>
+        {problems > 0 ? (
+          <span className="flex items-center gap-1 text-red-400">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {problems} a revisar antes de assinar
+          </span>
+        ) : catalog ? (
+          <span className="text-green-400">nenhuma cancelada ou inexistente</span>
+        ) : (
+          <span className="theme-text-muted">carregando bases...</span>
+        )}
+        <button type="button" onClick={reload} className="ml-auto theme-text-muted" title="Recarregar jurisprudência e legislação" aria-label="Recarregar bases">
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {citations.map(c => (
+          <CitationChip key={[c.key, ...c.specific].join('|')} citation={c} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+CitationCheckPanel.displayName = 'CitationCheckPanel';
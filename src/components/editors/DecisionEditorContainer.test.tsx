@@ -15,6 +15,7 @@ import React from 'react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { DecisionEditorContainer } from './DecisionEditorContainer';
+import { buildCitationCatalog } from '../../utils/citationLinker';
 import type { DecisionEditorContainerPropsLegacy, Topic } from '../../types';
 
 // v1.40.05: Usar interface legada para testes que usam props individuais
@@ -98,6 +99,18 @@ vi.mock('../../stores/useModelsStore', () => ({
   }),
 }));
 
+// v1.53.36: Bases de citação sem IndexedDB (catálogo lido só no render)
+const citationCatalog = buildCitationCatalog(
+  [
+    { id: 'sum-tst-338', tipo: 'Súmula', tipoProcesso: 'Súmula', tribunal: 'TST', numero: '338', texto: '', enunciado: 'Registro de jornada.', status: 'Válida' },
+    { id: 'sum-tst-291', tipo: 'Súmula', tipoProcesso: 'Súmula', tribunal: 'TST', numero: '291', texto: '', enunciado: 'Supressão de horas extras.', status: 'Cancelada' },
+  ],
+  [{ id: 'clt-art-59', lei: 'clt', numero: '59', texto: '', caput: 'Horas extras.' }]
+);
+vi.mock('../../hooks/useCitationCatalog', () => ({
+  useCitationCatalog: () => ({ catalog: citationCatalog, reload: vi.fn() }),
+}));
+
 describe('DecisionEditorContainer', () => {
   // ═══════════════════════════════════════════════════════════════════════════
   // DEFAULT PROPS FACTORY
@@ -472,6 +485,35 @@ describe('DecisionEditorContainer', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CITATION CHECK TESTS (v1.53.36)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Citation Check', () => {
+    it('should list citations and flag cancelled precedents', () => {
+      const props = createMockProps({
+        topic: createMockTopic({
+          fundamentacao: '<p>Nos termos da Súmula 338 do TST e do art. 59 da CLT.</p><p>Inaplicável a Súmula 291 do TST.</p>',
+        }),
+      });
+      render(<DecisionEditorContainer {...props} />);
+
+      expect(screen.getByTestId('citation-check-panel')).toBeInTheDocument();
+      expect(screen.getByText('Súmula 338 TST')).toBeInTheDocument();
+      expect(screen.getByText('Art. 59 CLT')).toBeInTheDocument();
+      expect(screen.getByText('1 a revisar antes de assinar')).toBeInTheDocument();
+
+      fireEvent.mouseEnter(screen.getByText('Súmula 291 TST'));
+      expect(screen.getByText('Situação: Cancelada')).toBeInTheDocument();
+      expect(screen.getByText('Supressão de horas extras.')).toBeInTheDocument();
+    });
+
+    it('should not render the panel when there are no citations', () => {
+      render(<DecisionEditorContainer {...createMockProps()} />);
+      expect(screen.queryByTestId('citation-check-panel')).not.toBeInTheDocument();
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // SPECIAL TOPICS TESTS
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1,7 +1,9 @@
 /**
  * @file DecisionEditorContainer.tsx
  * @description Container para editor de decisão individual
- * @version 1.40.05
+ * @version 1.53.36
+ *
+ * v1.53.36: Verificador de citações (CitationCheckPanel) abaixo do editor de decisão
  *
  * Refatorado para usar Zustand stores ao invés de prop drilling.
  * Props reduzidas de ~54 para ~6.
@@ -11,6 +13,7 @@
 
 import React from 'react';
 import { QuillDecisionEditor, QuillMiniRelatorioEditor } from './QuillEditors';
+import { CitationCheckPanel } from './CitationCheckPanel';
 import { CSS } from '../../constants/styles';
 import { isRelatorio } from '../../utils/text';
 import { useEditorStore } from '../../stores/useEditorStore';
@@ -215,6 +218,27 @@ const DecisionEditorContainer = React.memo(React.forwardRef<HTMLDivElement, Comb
   // CONFIG DO EDITOR
   // ─────────────────────────────────────────────────────────────────────────
   const editorConfig = getTopicEditorConfig(topic.title);
+  const isDispositivo = topic.title.toUpperCase() === 'DISPOSITIVO';
+  const decisionContent = isDispositivo
+    ? (topic.editedContent || '')
+    : (topic.fundamentacao || topic.editedFundamentacao || '');
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // v1.53.36: TEXTO PARA O VERIFICADOR DE CITAÇÕES (atualizado após pausa na digitação)
+  // ─────────────────────────────────────────────────────────────────────────
+  const [citationHtml, setCitationHtml] = React.useState(decisionContent);
+  const citationTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onFundamentacaoChangeRef = React.useRef(callbacks.onFundamentacaoChange);
+  onFundamentacaoChangeRef.current = callbacks.onFundamentacaoChange;
+
+  React.useEffect(() => { setCitationHtml(decisionContent); }, [decisionContent]);
+  React.useEffect(() => () => { if (citationTimerRef.current) clearTimeout(citationTimerRef.current); }, []);
+
+  const handleDecisionChange = React.useCallback((html: string) => {
+    onFundamentacaoChangeRef.current(html);
+    if (citationTimerRef.current) clearTimeout(citationTimerRef.current);
+    citationTimerRef.current = setTimeout(() => setCitationHtml(html), 600);
+  }, []);
 
   // ─────────────────────────────────────────────────────────────────────────
   // HANDLER DE CATEGORIA (MEMOIZADO)
@@ -293,14 +317,10 @@ const DecisionEditorContainer = React.memo(React.forwardRef<HTMLDivElement, Comb
       {editorConfig.showDecisionEditor && (
         <QuillDecisionEditor
           ref={editorRef}
-          content={
-            topic.title.toUpperCase() === 'DISPOSITIVO'
-              ? (topic.editedContent || '')
-              : (topic.fundamentacao || topic.editedFundamentacao || '')
-          }
+          content={decisionContent}
           topicTitle={topic.title}
           topicCategory={topic.category}
-          onChange={callbacks.onFundamentacaoChange}
+          onChange={handleDecisionChange}
           onSaveWithoutClosing={callbacks.onSaveWithoutClosing}
           onOpenAIAssistant={callbacks.onOpenAIAssistant}
           onOpenJurisModal={callbacks.onOpenJurisModal}
@@ -334,6 +354,9 @@ const DecisionEditorContainer = React.memo(React.forwardRef<HTMLDivElement, Comb
         />
       )}
 
+      {/* v1.53.36: Citações da fundamentação confrontadas com as bases locais */}
+      {editorConfig.showDecisionEditor && <CitationCheckPanel html={citationHtml} />}
+
       {/* Footer com botões */}
       <div className="flex gap-3">
         <button
@@ -20,3 +20,6 @@ export { FieldEditor, InlineFormattingToolbar } from './FieldEditor';
 // Editor Containers (v1.36.97)
 export { GlobalEditorSection } from './GlobalEditorSection';
 export { DecisionEditorContainer } from './DecisionEditorContainer';
+
+// Verificador de citações (v1.53.36)
+export { CitationCheckPanel } from './CitationCheckPanel';
@@ -73,6 +73,8 @@ const createDefaultProps = (overrides: Partial<AppHeaderProps> = {}): AppHeaderP
     handleLocalSave: mockHandleLocalSave,
     handleLocalLoad: mockHandleLocalLoad,
     handleClear: mockHandleClear,
+    buildSessionPayload: vi.fn(),
+    importSessionPayload: vi.fn(),
   },
   cloudSync: null,
   ...overrides,
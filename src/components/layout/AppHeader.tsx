@@ -1,10 +1,11 @@
 /**
  * @file AppHeader.tsx
  * @description Componente de cabeçalho da aplicação
- * @version 1.38.53
+ * @version 1.53.41
  *
  * Extraído do App.tsx para reduzir tamanho do arquivo.
  * Contém: título, número do processo, botões de ação, aviso de responsabilidade.
+ * v1.53.41: Entrada "Sessões na nuvem" no menu Projeto (usuário autenticado)
  */
 
 import { useState } from 'react';
@@ -182,6 +183,7 @@ export function AppHeader({
               onSaveLocal={googleDriveActions.handleLocalSave}
               onLoadLocal={googleDriveActions.handleLocalLoad}
               onClear={googleDriveActions.handleClear}
+              onOpenCloudSessions={cloudSync?.isAuthenticated ? () => openModal('cloudSessions') : undefined}
               isDarkMode={appTheme === 'dark'}
             />
 
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { CloudSessionsModal } from './CloudSessionsModal';
+import { useUIStore } from '../../stores/useUIStore';
+import * as sessionSync from '../../utils/sessionSync';
+import type { CloudSessionPayload } from '../../utils/sessionSync';
+
+vi.mock('../../utils/sessionSync', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/sessionSync')>();
+  return {
+    ...actual,
+    listCloudSessions: vi.fn(),
+    pushCloudSession: vi.fn(),
+    pullCloudSession: vi.fn(),
+    deleteCloudSession: vi.fn(),
+  };
+});
+
+const payload: CloudSessionPayload = { format: 'sentencify-session', version: 1, project: { version: '1.53.41' }, fieldVersions: [] };
+
+describe('CloudSessionsModal', () => {
+  const onBuildPayload = vi.fn(async () => payload);
+  const onImportPayload = vi.fn(async () => {});
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(sessionSync.listCloudSessions).mockResolvedValue([
+      { id: 'sessao-0001', label: 'Processo 313', size: 2048, updatedAt: '2026-10-19T10:00:00Z', syncVersion: 2 },
+    ]);
+    useUIStore.getState().setProcessoNumero('0000313-98.2025.5.08.0110');
+    useUIStore.getState().openModal('cloudSessions');
+  });
+
+  afterEach(() => {
+    cleanup();
+    useUIStore.getState().closeModal('cloudSessions');
+    vi.clearAllMocks();
+  });
+
+  const typePassphrase = () =>
+    fireEvent.change(screen.getByLabelText(/Frase-senha/), { target: { value: 'frase do gabinete' } });
+
+  it('sends the current session and links it to this device', async () => {
+    vi.mocked(sessionSync.pushCloudSession).mockResolvedValue({ syncVersion: 1, updatedAt: '2026-10-19T10:00:00Z' });
+    render(<CloudSessionsModal onBuildPayload={onBuildPayload} onImportPayload={onImportPayload} />);
+
+    expect(screen.getByRole('button', { name: 'Enviar sessão atual' })).toBeDisabled();
+    typePassphrase();
+    fireEvent.click(screen.getByRole('button', { name: 'Enviar sessão atual' }));
+
+    expect(await screen.findByText(/enviada \(versão 1\)/)).toBeTruthy();
+    expect(sessionSync.pushCloudSession).toHaveBeenCalledWith(
+      expect.objectContaining({ label: '0000313-98.2025.5.08.0110', payload, syncVersion: 0, force: false }),
+      'frase do gabinete'
+    );
+    expect(sessionSync.getLinkedCloudSession()).toMatchObject({ syncVersion: 1, label: '0000313-98.2025.5.08.0110' });
+  });
+
+  it('offers download or overwrite on a version conflict', async () => {
+    sessionSync.setLinkedCloudSession({ id: 'sessao-0001', label: 'Processo 313', syncVersion: 1 });
+    vi.mocked(sessionSync.pushCloudSession)
+      .mockRejectedValueOnce(new sessionSync.CloudSessionConflictError(2, null))
+      .mockResolvedValueOnce({ syncVersion: 3, updatedAt: '' });
+    render(<CloudSessionsModal onBuildPayload={onBuildPayload} onImportPayload={onImportPayload} />);
+
+    typePassphrase();
+    fireEvent.click(screen.getByRole('button', { name: 'Enviar alterações' }));
+    expect(await screen.findByText(/salva em outro dispositivo \(versão 2/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sobrescrever com esta' }));
+    expect(await screen.findByText(/enviada \(versão 3\)/)).toBeTruthy();
+    expect(vi.mocked(sessionSync.pushCloudSession).mock.calls[1][0]).toMatchObject({ id: 'sessao-0001', syncVersion: 1, force: true });
+  });
+
+  it('opens a session from the list after confirmation', async () => {
+    vi.mocked(sessionSync.pullCloudSession).mockResolvedValue({ payload, syncVersion: 2, label: 'Processo 313' });
+    render(<CloudSessionsModal onBuildPayload={onBuildPayload} onImportPayload={onImportPayload} />);
+
+    typePassphrase();
+    fireEvent.click(screen.getByTitle('Listar sessões'));
+    fireEvent.click(await screen.findByRole('button', { name: 'Abrir Processo 313' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Abrir' }));
+
+    expect(await screen.findByText(/carregada \(versão 2\)/)).toBeTruthy();
+    expect(onImportPayload).toHaveBeenCalledWith(payload);
+    expect(sessionSync.getLinkedCloudSession()).toEqual({ id: 'sessao-0001', label: 'Processo 313', syncVersion: 2 });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @file CloudSessionsModal.tsx
+ * @description Sessões de trabalho sincronizadas entre dispositivos (tópicos,
+ * provas, análises, mini-relatórios e histórico de versões), encriptadas com a
+ * frase-senha do juiz antes de sair do navegador.
+ * @version 1.53.41
+ *
+ * Montado em ModalRoot; o pacote da sessão vem de useGoogleDriveActions
+ * (buildSessionPayload/importSessionPayload). A frase-senha fica só em memória
+ * enquanto o app está aberto.
+ */
+
+import React from 'react';
+import { CloudUpload, Download, Trash2, RefreshCw, AlertTriangle, Lock } from 'lucide-react';
+import { BaseModal, CSS } from './BaseModal';
+import { useUIStore } from '../../stores/useUIStore';
+import {
+  CloudSessionConflictError,
+  clearLinkedCloudSession,
+  deleteCloudSession,
+  getLinkedCloudSession,
+  listCloudSessions,
+  newCloudSessionId,
+  pullCloudSession,
+  pushCloudSession,
+  setLinkedCloudSession,
+  type CloudSessionPayload,
+  type CloudSessionSummary,
+  type LinkedCloudSession,
+} from '../../utils/sessionSync';
+
+export interface CloudSessionsModalProps {
+  onBuildPayload: () => Promise<CloudSessionPayload>;
+  onImportPayload: (payload: CloudSessionPayload) => Promise<void>;
+}
+
+const formatSize = (chars: number): string =>
+  chars >= 1024 * 1024 ? `${(chars / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(chars / 1024))} KB`;
+
+const formatDate = (iso: string): string => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? '' : d.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const CloudSessionsModal: React.FC<CloudSessionsModalProps> = ({ onBuildPayload, onImportPayload }) => {
+  const isOpen = useUIStore((s) => s.modals.cloudSessions);
+  const processoNumero = useUIStore((s) => s.processoNumero);
+  const closeModal = useUIStore((s) => s.closeModal);
+
+  const [passphrase, setPassphrase] = React.useState('');
+  const [sessions, setSessions] = React.useState<CloudSessionSummary[] | null>(null);
+  const [linked, setLinked] = React.useState<LinkedCloudSession | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [info, setInfo] = React.useState<string | null>(null);
+  const [conflict, setConflict] = React.useState<CloudSessionConflictError | null>(null);
+  const [confirmOpen, setConfirmOpen] = React.useState<CloudSessionSummary | null>(null);
+
+  const close = () => closeModal('cloudSessions');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof CloudSessionConflictError) setConflict(err);
+      else setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refresh = () => run(async () => {
+    setSessions(await listCloudSessions(passphrase));
+  });
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setLinked(getLinkedCloudSession());
+    setConflict(null);
+    setConfirmOpen(null);
+    setError(null);
+    setInfo(null);
+    if (passphrase) refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const push = (force: boolean) => run(async () => {
+    const current = getLinkedCloudSession();
+    const label = current?.label || processoNumero.trim() || `Sessão de ${new Date().toLocaleDateString('pt-BR')}`;
+    const id = current?.id || newCloudSessionId();
+    const result = await pushCloudSession(
+      { id, label, payload: await onBuildPayload(), syncVersion: current?.syncVersion || 0, force },
+      passphrase
+    );
+    const link = { id, label, syncVersion: result.syncVersion };
+    setLinkedCloudSession(link);
+    setLinked(link);
+    setConflict(null);
+    setSessions(await listCloudSessions(passphrase));
+    setInfo(`Sessão "${label}" enviada (versão ${result.syncVersion}).`);
+  });
+
+  const open = (id: string) => run(async () => {
+    const { payload, syncVersion, label } = await pullCloudSession(id, passphrase);
+    await onImportPayload(payload);
+    const link = { id, label, syncVersion };
+    setLinkedCloudSession(link);
+    setLinked(link);
+    setConflict(null);
+    setConfirmOpen(null);
+    setInfo(`Sessão "${label}" carregada (versão ${syncVersion}).`);
+  });
+
+  const remove = (session: CloudSessionSummary) => run(async () => {
+    await deleteCloudSession(session.id);
+    if (linked?.id === session.id) {
+      clearLinkedCloudSession();
+      setLinked(null);
+    }
+    setSessions(await listCloudSessions(passphrase));
+  });
+
+  const canUse = passphrase.length >= 8 && !busy;
+
+  const footer = (
+    <>
+      <button onClick={close} className={CSS.btnSecondary}>Fechar</button>
+      <button onClick={() => push(false)} disabled={!canUse} className={`${CSS.btnBlue} disabled:opacity-50`}>
+        {busy ? 'Aguarde...' : linked ? 'Enviar alterações' : 'Enviar sessão atual'}
+      </button>
+    </>
+  );
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={close}
+      title="Sessões na nuvem"
+      subtitle="Continue o processo em outro dispositivo · encriptação ponta a ponta"
+      icon={<CloudUpload />}
+      iconColor="blue"
+      size="lg"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <div>
+          <label className={CSS.label} htmlFor="cloud-session-passphrase">
+            <Lock className="w-3.5 h-3.5 inline mr-1" />
+            Frase-senha
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="cloud-session-passphrase"
+              type="password"
+              autoComplete="off"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && canUse && refresh()}
+              className={CSS.input}
+              placeholder="Mínimo de 8 caracteres"
+            />
+            <button onClick={refresh} disabled={!canUse} className={`${CSS.btnSecondary} disabled:opacity-50`} title="Listar sessões">
+              <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          <p className={`${CSS.textMuted} mt-1`}>
+            Os dados são encriptados neste navegador; o servidor não consegue lê-los. A frase-senha não é guardada
+            e não pode ser recuperada — use a mesma em todos os dispositivos.
+          </p>
+        </div>
+
+        {linked && (
+          <p className="text-sm theme-text-secondary">
+            Este processo está vinculado à sessão <span className="font-semibold">{linked.label}</span> (versão {linked.syncVersion}).
+          </p>
+        )}
+
+        {conflict && (
+          <div className="p-3 rounded-lg border border-amber-500/40 bg-amber-500/10 space-y-2" role="alert">
+            <p className="text-sm theme-text-primary flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+              <span>
+                A sessão foi salva em outro dispositivo (versão {conflict.serverVersion}
+                {conflict.updatedAt ? `, ${formatDate(conflict.updatedAt)}` : ''}) depois da versão aberta aqui.
+              </span>
+            </p>
+            <div className="flex gap-2 flex-wrap">
+              <button onClick={() => linked && open(linked.id)} disabled={busy} className={`${CSS.btnSecondary} text-sm`}>
+                Baixar a versão da nuvem
+              </button>
+              <button onClick={() => push(true)} disabled={busy} className={`${CSS.btnRed} text-sm`}>
+                Sobrescrever com esta
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500" role="alert">{error}</p>}
+        {info && <p className="text-sm text-green-500">{info}</p>}
+
+        {sessions && (
+          sessions.length === 0 ? (
+            <p className={CSS.textMuted}>Nenhuma sessão salva na nuvem.</p>
+          ) : (
+            <ul className="divide-y theme-border-modal border theme-border-modal rounded-lg">
+              {sessions.map((s) => (
+                <li key={s.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${s.label ? 'theme-text-primary' : 'theme-text-disabled italic'}`}>
+                      {s.label ?? 'Salva com outra frase-senha'}
+                      {linked?.id === s.id && <span className="ml-2 text-xs text-blue-500">(atual)</span>}
+                    </p>
+                    <p className={CSS.textMuted}>
+                      {formatDate(s.updatedAt)} · versão {s.syncVersion} · {formatSize(s.size)}
+                    </p>
+                  </div>
+                  {confirmOpen?.id === s.id ? (
+                    <>
+                      <span className="text-xs theme-text-secondary">Substituir o trabalho atual?</span>
+                      <button onClick={() => open(s.id)} disabled={busy} className={`${CSS.btnBlue} text-sm`}>Abrir</button>
+                      <button onClick={() => setConfirmOpen(null)} className={`${CSS.btnSecondary} text-sm`}>Cancelar</button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => setConfirmOpen(s)}
+                        disabled={busy || !s.label}
+                        className="p-2 rounded theme-hover-bg text-blue-500 disabled:opacity-40"
+                        aria-label={`Abrir ${s.label ?? s.id}`}
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => remove(s)}
+                        disabled={busy}
+                        className="p-2 rounded theme-hover-bg text-red-500 disabled:opacity-40"
+                        aria-label={`Excluir ${s.label ?? s.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </div>
+    </BaseModal>
+  );
+};
+
+export default CloudSessionsModal;
@@ -6,7 +6,7 @@
  * v1.40.06: Refatoração MAJOR - eliminou 52 props via import direto de hooks/stores
  *
  * 18 seções:
- * 1. Provedor de IA (Claude/Gemini/OpenAI/Grok)
+ * 1. Provedor de IA (Claude/Gemini/OpenAI/Grok/DeepSeek/CLIs/LLM local)
  * 2. Chaves API (4 providers + teste)
  * 3. Pensamento Prolongado (Extended Thinking)
  * 4. Double Check de Respostas
@@ -31,11 +31,14 @@ import {
   Brain, Mic, Lock, ScrollText, BadgePlus, Settings, Type
 } from 'lucide-react';
 import { ProviderIcon } from '../ui/ProviderIcon';
+import { LocalLlmEndpointFields } from '../shared/LocalLlmEndpointFields';
+import type { LocalLlmEndpointValues } from '../shared/LocalLlmEndpointFields';
 import { CSS } from '../../constants/styles';
 import AIModelService from '../../services/AIModelService';
 import { useAIStore } from '../../stores/useAIStore';
 import { useUIStore } from '../../stores/useUIStore';
 import { useModelsStore } from '../../stores/useModelsStore';
+import { usePseudonymVaultStore, selectPseudonymCount } from '../../stores/usePseudonymVaultStore';
 import { EmbeddingsCDNService } from '../../services/EmbeddingsServices';
 import { API_BASE } from '../../constants/api';
 import {
@@ -140,6 +143,9 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
 
   const modelsCount = useModelsStore((s) => s.models.length);
 
+  const pseudonymCount = usePseudonymVaultStore(selectPseudonymCount);
+  const resetPseudonymVault = usePseudonymVaultStore((s) => s.resetAll);
+
   // ─────────────────────────────────────────────────────────────────────────────
   // HOOKS
   // ─────────────────────────────────────────────────────────────────────────────
@@ -339,6 +345,17 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
     if (newEnabled) localStorage.setItem('modelSemanticMode', 'true');
   }, [setAiSettings]);
 
+  // v1.53.38: campos do endpoint local (base URL, modelo e chave opcional)
+  const handleLocalLlmChange = React.useCallback((patch: Partial<LocalLlmEndpointValues>) => {
+    setAiSettings(prev => ({
+      ...prev,
+      ...(patch.baseUrl !== undefined && { localLlmBaseUrl: patch.baseUrl }),
+      ...(patch.model !== undefined && { localLlmModel: patch.model }),
+      ...(patch.viaServer !== undefined && { localLlmViaServer: patch.viaServer }),
+      ...(patch.apiKey !== undefined && { apiKeys: { ...prev.apiKeys, 'local-llm': patch.apiKey } })
+    }));
+  }, [setAiSettings]);
+
   // v1.38.46: Auto-reset modelo de voice improvement quando key do provider é removida
   React.useEffect(() => {
     if (!aiSettings.voiceImprovement?.enabled) return;
@@ -614,6 +631,22 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                   </div>
                 </div>
               </button>
+              <button
+                onClick={() => setAiSettings({ ...aiSettings, provider: 'local-llm' })}
+                className={`p-3 rounded-lg border-2 transition-all text-left ${
+                  aiSettings.provider === 'local-llm'
+                    ? 'bg-teal-600/20 border-teal-500'
+                    : 'theme-bg-secondary-30 theme-border-input hover-theme-border'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <ProviderIcon provider="local-llm" size={20} className="text-teal-400" />
+                  <div>
+                    <div className="font-semibold theme-text-primary text-sm">LLM Local</div>
+                    <div className="text-xs theme-text-muted">Ollama · vLLM · $0</div>
+                  </div>
+                </div>
+              </button>
               <button
                 onClick={() => setAiSettings({ ...aiSettings, provider: 'manual' })}
                 className={`p-3 rounded-lg border-2 transition-all text-left ${
@@ -638,6 +671,26 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                 <div className="text-xs theme-text-muted p-3 rounded-lg theme-bg-secondary-30 border theme-border-input">
                   Modo manual: cada chamada de IA abre um modal para você copiar o prompt e colar a resposta de qualquer LLM. Sem modelo nem chave de API.
                 </div>
+              ) : aiSettings.provider === 'local-llm' ? (
+                /* v1.53.38: endpoint OpenAI-compatível local (Ollama, llama.cpp server, vLLM) */
+                <div className="p-3 rounded-lg theme-bg-secondary-30 border theme-border-input">
+                  <LocalLlmEndpointFields
+                    apiBase={API_BASE}
+                    values={{
+                      baseUrl: aiSettings.localLlmBaseUrl,
+                      model: aiSettings.localLlmModel,
+                      viaServer: aiSettings.localLlmViaServer,
+                      apiKey: aiSettings.apiKeys?.['local-llm']
+                    }}
+                    onChange={handleLocalLlmChange}
+                    classes={{
+                      label: 'block text-xs theme-text-muted mb-1',
+                      input: 'w-full px-3 py-2 theme-bg-secondary border theme-border-input rounded text-sm theme-text-secondary',
+                      button: 'flex items-center gap-1.5 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white rounded text-sm',
+                      hint: 'text-xs theme-text-muted mt-1'
+                    }}
+                  />
+                </div>
               ) : (
               <>
               <label className="block text-xs theme-text-muted mb-1">
@@ -1407,6 +1460,7 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                         grok: 'grok-4-1-fast-reasoning',
                         deepseek: 'deepseek-v4-flash',
                         'codex-cli': 'gpt-5.5',
+                        'local-llm': aiSettings.localLlmModel || '',
                         manual: 'manual'
                       };
                       setAiSettings({
@@ -1427,6 +1481,7 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                     <option value="openai">GPT (OpenAI)</option>
                     <option value="grok">Grok (xAI)</option>
                     <option value="deepseek">DeepSeek (V4)</option>
+                    <option value="local-llm">LLM Local (OpenAI-compatível)</option>
                   </select>
                 </div>
 
@@ -1489,6 +1544,11 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                         <option value="deepseek-v4-pro">DeepSeek V4 Pro</option>
                       </>
                     )}
+                    {aiSettings.doubleCheck?.provider === 'local-llm' && (
+                      <option value={aiSettings.localLlmModel || ''}>
+                        {aiSettings.localLlmModel || '— configure o modelo local —'}
+                      </option>
+                    )}
                   </select>
                 </div>
 
@@ -2563,6 +2623,39 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                       Valores (R$) está desativado por padrão pois são relevantes para análise de pedidos.
                     </p>
 
+                    {/* v1.53.39: Pseudonimização reversível */}
+                    <label className="flex items-start gap-2 mt-4 text-xs theme-text-secondary cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={aiSettings.anonymization?.reversivel !== false}
+                        onChange={(e) => setAiSettings({
+                          ...aiSettings,
+                          anonymization: { ...aiSettings.anonymization, reversivel: e.target.checked }
+                        })}
+                        className="w-4 h-4 mt-0.5 rounded border-gray-500 text-amber-500 focus:ring-amber-500"
+                      />
+                      <span>
+                        <span className="font-medium">Pseudônimos reversíveis</span>
+                        <span className="block theme-text-muted">
+                          Cada dado recebe um pseudônimo numerado por processo ([RECLAMANTE_1], [CPF_2]), guardado só neste
+                          navegador. Ao inserir a resposta da IA no editor, os dados reais voltam automaticamente.
+                          Anote o papel após o nome, ex.: "MARIA SOUZA (reclamante)".
+                        </span>
+                        {pseudonymCount > 0 && (
+                          <span className="block theme-text-muted mt-1">
+                            {pseudonymCount} pseudônimo(s) no processo atual.{' '}
+                            <button
+                              type="button"
+                              onClick={resetPseudonymVault}
+                              className="text-red-400 hover:text-red-300 underline"
+                            >
+                              Limpar cofre
+                            </button>
+                          </span>
+                        )}
+                      </span>
+                    </label>
+
                     {/* IA Local - Detecção de Nomes (NER) */}
                     <div className="border-t theme-border-secondary pt-4 mt-4">
                       <div className="flex items-center justify-between mb-3">
@@ -2656,6 +2749,31 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                               Detecta nomes de empresas (ORG) com score ≥ 90%. Filtra tribunais e órgãos públicos.
                             </p>
                           </div>
+
+                          {/* v1.53.40: NER automático antes das chamadas à IA */}
+                          <div className="pt-3 mt-3 border-t theme-border-secondary">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                              <div
+                                className={`toggle-switch ${aiSettings.anonymization?.nerAutomatico !== false ? 'active' : ''}`}
+                                onClick={() => setAiSettings({
+                                  ...aiSettings,
+                                  anonymization: {
+                                    ...aiSettings.anonymization,
+                                    nerAutomatico: aiSettings.anonymization?.nerAutomatico === false
+                                  }
+                                })}
+                              >
+                                <div className="toggle-knob"></div>
+                              </div>
+                              <span className="text-xs theme-text-secondary">
+                                Detectar antes de cada envio à IA
+                              </span>
+                            </label>
+                            <p className="text-xs theme-text-muted mt-1 ml-10">
+                              Com a anonimização ativa, roda o NER nos documentos antes de enviá-los e anonimiza os nomes
+                              encontrados, mesmo sem digitá-los. Revise-os (aprovar/rejeitar) na janela de nomes da análise.
+                            </p>
+                          </div>
                         </div>
                       )}
                     </div>
@@ -3261,6 +3379,8 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
              */
             const costOfModel = (m: PerModelMetrics) => {
               if (isSubscriptionProvider(m.provider)) return m.costUSD || 0;
+              // v1.53.38: endpoint local roda no hardware do gabinete — sem custo por token
+              if (m.provider === 'local-llm') return 0;
               const p = pricesFor(m.provider, m.model);
               return ((m.input / 1000000) * p.input)
                 + ((m.output / 1000000) * p.output)
@@ -3356,7 +3476,8 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                                 openai: 'text-green-400',
                                 'codex-cli': 'text-emerald-400',
                                 grok: 'text-gray-400',
-                                deepseek: 'text-indigo-400'
+                                deepseek: 'text-indigo-400',
+                                'local-llm': 'text-teal-400'
                               };
                               const colorClass = providerColors[modelMetrics.provider] || 'theme-text-secondary';
                               return (
@@ -3581,6 +3702,8 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ isOpen, onClose }) =>
                     ? getModelDisplayName(aiSettings.claudeCliModel || 'claude-sonnet-4-6')
                     : aiSettings.provider === 'codex-cli'
                     ? getModelDisplayName(aiSettings.codexCliModel || 'gpt-5.5')
+                    : aiSettings.provider === 'local-llm'
+                    ? (aiSettings.localLlmModel || '— selecione um modelo —')
                     : aiSettings.provider === 'manual'
                     ? 'Sem provider (copiar/colar)'
                     : getModelDisplayName(aiSettings.claudeModel || aiSettings.model || '')}
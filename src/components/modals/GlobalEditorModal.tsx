@@ -17,6 +17,7 @@ import { Edit, X, Save, Loader2, Search, BookOpen, Scale, AlertCircle } from 'lu
 import { useChatAssistant, useFieldVersioning, searchModelsInLibrary } from '../../hooks';
 import useFactsComparisonCache from '../../hooks/useFactsComparisonCache';
 import useChatHistoryCache from '../../hooks/useChatHistoryCache';
+import { loadLegislacaoChatContext } from '../../hooks/useLegislacao';
 
 // Components
 import { GlobalEditorSection } from '../editors/GlobalEditorSection';
@@ -61,6 +62,7 @@ import {
   buildPdfComparisonPrompt
 } from '../../prompts/facts-comparison-prompts';
 import { buildInlineGenerateSystemPrompt, buildInlineFimBlock, PER_TURN_STYLE_REMINDER } from '../../prompts/system';
+import { reidentifyForEditor } from '../../stores/usePseudonymVaultStore';
 
 // ═══════════════════════════════════════════════════════════════════════════════════════════
 // CONSTANTES
@@ -898,6 +900,8 @@ const GlobalEditorModal: React.FC<GlobalEditorModalProps> = ({
       fileToBase64: fileToBase64 || (async () => ''),
       anonymizationEnabled: aiIntegration?.aiSettings?.anonymization?.enabled,
       anonymizationSettings: aiIntegration?.aiSettings?.anonymization,
+      // v1.53.37: redação dos artigos citados vigente no período do contrato
+      legislacao: await loadLegislacaoChatContext(),
     });
   }, [localTopics, aiAssistantTopicIndex, globalContextScope, analyzedDocuments, proofManager, fileToBase64, aiIntegration?.aiSettings?.anonymization, aiIntegration?.aiSettings?.customPrompt]);
 
@@ -940,6 +944,7 @@ const GlobalEditorModal: React.FC<GlobalEditorModalProps> = ({
       anonymizationEnabled: aiIntegration?.aiSettings?.anonymization?.enabled,
       anonymizationSettings: aiIntegration?.aiSettings?.anonymization,
       inlineMode: true,
+      legislacao: await loadLegislacaoChatContext(),
     });
 
     // System prompt dedicado da geração inline: usa o provider/modelo principal, mas sem a
@@ -980,7 +985,7 @@ const GlobalEditorModal: React.FC<GlobalEditorModalProps> = ({
       const updated = [...prev];
       const currentContent = updated[aiAssistantTopicIndex].editedFundamentacao ||
                             updated[aiAssistantTopicIndex].fundamentacao || '';
-      const normalizedAiText = normalizeHTMLSpacing(response);
+      const normalizedAiText = normalizeHTMLSpacing(reidentifyForEditor(response));
 
       let newContent;
       switch (mode) {
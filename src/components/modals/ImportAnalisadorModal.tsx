@@ -0,0 +1,155 @@
+/**
+ * @file ImportAnalisadorModal.tsx
+ * @description Inicia o projeto da sentença a partir de uma análise salva do
+ * Analisador de Prepauta (tópicos, partes e rascunho do relatório)
+ * @version 1.53.49
+ *
+ * Montado em ModalRoot; a conversão fica em useDocumentAnalysis
+ * (handleImportFromAnalisador → utils/analisadorImport).
+ */
+
+import React from 'react';
+import { ClipboardList, Search, AlertCircle, Loader2 } from 'lucide-react';
+import { BaseModal, CSS } from './BaseModal';
+import { useUIStore } from '../../stores/useUIStore';
+import { useTopicsStore } from '../../stores/useTopicsStore';
+import { useAuthMagicLink } from '../../hooks/useAuthMagicLink';
+import type { SavedAnalysis } from '../../apps/analisador/types';
+
+export interface ImportAnalisadorModalProps {
+  onImport: (analysis: SavedAnalysis) => void;
+}
+
+const normalizeProcesso = (numero: string): string => numero.replace(/[.\-/\s]/g, '').toLowerCase();
+
+const formatDate = (iso: string | null): string => {
+  if (!iso) return '';
+  const d = new Date(iso.length === 10 ? `${iso}T12:00:00` : iso);
+  return Number.isNaN(d.getTime()) ? '' : d.toLocaleDateString('pt-BR');
+};
+
+export const ImportAnalisadorModal: React.FC<ImportAnalisadorModalProps> = ({ onImport }) => {
+  const isOpen = useUIStore((s) => s.modals.importAnalisador);
+  const processoNumero = useUIStore((s) => s.processoNumero);
+  const closeModal = useUIStore((s) => s.closeModal);
+  const hasTopics = useTopicsStore((s) => s.extractedTopics.length > 0);
+  const { authFetch } = useAuthMagicLink();
+
+  const [analyses, setAnalyses] = React.useState<SavedAnalysis[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [search, setSearch] = React.useState('');
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setSearch('');
+    setError(null);
+    setIsLoading(true);
+    authFetch('/api/analyses')
+      .then(async (res) => {
+        const data = await res.json() as { analyses?: SavedAnalysis[]; error?: string };
+        if (!res.ok) throw new Error(data.error || 'Erro ao listar análises');
+        setAnalyses(data.analyses || []);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Análises do processo atual primeiro, depois pela busca
+  const visible = React.useMemo(() => {
+    const current = processoNumero.trim() ? normalizeProcesso(processoNumero) : '';
+    const term = search.trim().toLowerCase();
+    return analyses
+      .filter((a) => !term || [a.numeroProcesso, a.reclamante, ...(a.reclamadas || [])]
+        .some((field) => field?.toLowerCase().includes(term)))
+      .map((a) => ({ analysis: a, isCurrent: !!current && !!a.numeroProcesso && normalizeProcesso(a.numeroProcesso) === current }))
+      .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent));
+  }, [analyses, search, processoNumero]);
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={() => closeModal('importAnalisador')}
+      title="Importar do Analisador"
+      subtitle="Tópicos, partes e relatório a partir de uma análise de prepauta"
+      icon={<ClipboardList />}
+      iconColor="blue"
+      size="lg"
+    >
+      <div className="relative mb-4">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 theme-text-muted" />
+        <input
+          type="text"
+          placeholder="Buscar por processo ou partes..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${CSS.input} pl-10`}
+          autoFocus
+        />
+      </div>
+
+      {hasTopics && (
+        <div className="mb-4 p-3 rounded-lg bg-amber-900/20 border border-amber-500/30">
+          <p className="text-sm theme-text-amber flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            Os tópicos atuais serão substituídos pelos da análise importada.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-900/20 border border-red-500/30" role="alert">
+          <p className="text-sm theme-text-red flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin theme-text-muted" />
+        </div>
+      )}
+
+      {!isLoading && !error && visible.length === 0 && (
+        <div className="text-center py-12 theme-text-muted">
+          <ClipboardList className="w-12 h-12 mx-auto mb-4 opacity-30" />
+          <p>{search ? 'Nenhuma análise encontrada' : 'Nenhuma análise salva no Analisador'}</p>
+        </div>
+      )}
+
+      {!isLoading && visible.length > 0 && (
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {visible.map(({ analysis, isCurrent }) => (
+            <button
+              key={analysis.id}
+              onClick={() => onImport(analysis)}
+              className="w-full p-4 text-left rounded-lg theme-bg-secondary border theme-border-input hover:border-blue-500/50 transition-all"
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium theme-text-secondary truncate">
+                  {analysis.numeroProcesso || 'Processo não identificado'}
+                </span>
+                {isCurrent && (
+                  <span className="text-xs px-2 py-0.5 rounded theme-bg-blue-accent theme-text-blue">processo atual</span>
+                )}
+              </div>
+              <p className="text-sm theme-text-muted truncate mt-0.5">
+                {[analysis.reclamante, (analysis.reclamadas || []).join(', ')].filter(Boolean).join(' vs ') || 'Partes não identificadas'}
+              </p>
+              <p className="text-xs theme-text-disabled mt-1">
+                {analysis.resultado?.pedidos?.length || 0} pedido(s)
+                {analysis.dataPauta ? ` · pauta ${formatDate(analysis.dataPauta)}` : ''}
+                {` · salva em ${formatDate(analysis.updatedAt || analysis.createdAt)}`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </BaseModal>
+  );
+};
+
+export default ImportAnalisadorModal;
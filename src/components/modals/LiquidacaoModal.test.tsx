@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { LiquidacaoModal } from './LiquidacaoModal';
+import { useUIStore } from '../../stores/useUIStore';
+import { useLiquidacaoStore } from '../../stores/useLiquidacaoStore';
+
+const fill = (label: RegExp, value: string) => fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+describe('LiquidacaoModal', () => {
+  beforeEach(() => {
+    useLiquidacaoStore.getState().resetAll();
+    useUIStore.getState().openModal('liquidacao');
+  });
+
+  afterEach(() => {
+    cleanup();
+    useUIStore.getState().closeModal('liquidacao');
+    vi.unstubAllGlobals();
+  });
+
+  const fillContrato = () => {
+    fill(/Admissão/, '2020-03-10');
+    fill(/Demissão/, '2023-09-20');
+    fill(/Ajuizamento/, '2023-11-01');
+    fill(/Atualizar até/, '2024-06-15');
+    fill(/Último salário/, '3000');
+  };
+
+  it('valida os campos antes de buscar os índices', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    render(<LiquidacaoModal />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Calcular' }));
+    expect(await screen.findByText(/Data inválida em "admissão"/)).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('calcula com os índices do Banco Central e guarda a planilha no store', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => [{ data: '01/10/2023', valor: '0.5' }] })));
+    render(<LiquidacaoModal />);
+    fillContrato();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Calcular' }));
+
+    await waitFor(() => expect(useLiquidacaoStore.getState().resultado).not.toBeNull());
+    expect(screen.getByText(/Aviso prévio indenizado \(39 dias/)).toBeTruthy();
+    expect(useLiquidacaoStore.getState().params?.salario).toBe(3000);
+    expect(screen.getByLabelText(/Anexar a planilha ao dispositivo/)).toBeTruthy();
+  });
+
+  it('sem acesso ao Banco Central: calcula sem atualização e avisa', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+    render(<LiquidacaoModal />);
+    fillContrato();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Calcular' }));
+
+    expect(await screen.findByText(/Falha ao obter índices de correção: offline/)).toBeTruthy();
+    expect(screen.getByText(/Valores sem atualização/)).toBeTruthy();
+  });
+
+  it('campos de horas extras só aparecem com a verba marcada', () => {
+    render(<LiquidacaoModal />);
+    expect(screen.queryByLabelText(/Horas extras\/mês/)).toBeNull();
+    fireEvent.click(screen.getByLabelText('Horas extras e reflexos'));
+    expect(screen.getByLabelText(/Horas extras\/mês/)).toBeTruthy();
+  });
+});
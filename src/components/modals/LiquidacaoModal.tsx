@@ -0,0 +1,307 @@
+/**
+ * @file LiquidacaoModal.tsx
+ * @description Modal da estimativa de liquidação: parâmetros do contrato e das
+ * verbas deferidas, índices do Banco Central e planilha que será anexada ao
+ * dispositivo (useLiquidacaoStore).
+ * @version 1.53.33
+ *
+ * Autônomo (100% Zustand) — montado em ModalRoot, aberto pela aba Tópicos.
+ */
+
+import React from 'react';
+import { Calculator, AlertTriangle } from 'lucide-react';
+import { BaseModal, CSS } from './BaseModal';
+import { useUIStore } from '../../stores/useUIStore';
+import { useLiquidacaoStore } from '../../stores/useLiquidacaoStore';
+import {
+  calcularLiquidacao,
+  fetchIndicesCorrecao,
+  formatBRL,
+  LIQUIDACAO_MOTIVO_LABELS,
+  LIQUIDACAO_VERBA_LABELS,
+} from '../../utils/liquidacao';
+import type { IndicesCorrecao, LiquidacaoMotivoRescisao, LiquidacaoParams, LiquidacaoVerbaId } from '../../types';
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+const DEFAULT_PARAMS = (): LiquidacaoParams => ({
+  admissao: '',
+  demissao: '',
+  ajuizamento: '',
+  dataCalculo: today(),
+  salario: 0,
+  motivo: 'sem-justa-causa',
+  verbas: ['aviso-previo', 'decimo-terceiro', 'ferias', 'fgts'],
+  horasExtras: { horasMensais: 0, adicional: 50, divisor: 220, reflexos: true },
+  feriasVencidas: 0,
+  feriasVencidasEmDobro: false,
+  fgtsSemDepositos: false,
+});
+
+export const LiquidacaoModal: React.FC = () => {
+  const isOpen = useUIStore((s) => s.modals.liquidacao);
+  const closeModal = useUIStore((s) => s.closeModal);
+  const savedParams = useLiquidacaoStore((s) => s.params);
+  const resultado = useLiquidacaoStore((s) => s.resultado);
+  const anexarAoDispositivo = useLiquidacaoStore((s) => s.anexarAoDispositivo);
+  const setParams = useLiquidacaoStore((s) => s.setParams);
+  const setResultado = useLiquidacaoStore((s) => s.setResultado);
+  const setAnexarAoDispositivo = useLiquidacaoStore((s) => s.setAnexarAoDispositivo);
+
+  const [form, setForm] = React.useState<LiquidacaoParams>(() => savedParams || DEFAULT_PARAMS());
+  const [calculating, setCalculating] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Reabre com os últimos parâmetros calculados
+  React.useEffect(() => {
+    if (isOpen) {
+      setForm(savedParams || DEFAULT_PARAMS());
+      setError(null);
+    }
+  }, [isOpen, savedParams]);
+
+  const update = <K extends keyof LiquidacaoParams>(key: K, value: LiquidacaoParams[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const updateHorasExtras = (patch: Partial<NonNullable<LiquidacaoParams['horasExtras']>>) =>
+    setForm(prev => ({ ...prev, horasExtras: { ...DEFAULT_PARAMS().horasExtras!, ...prev.horasExtras, ...patch } }));
+
+  const toggleVerba = (verba: LiquidacaoVerbaId) =>
+    setForm(prev => ({
+      ...prev,
+      verbas: prev.verbas.includes(verba) ? prev.verbas.filter(v => v !== verba) : [...prev.verbas, verba],
+    }));
+
+  const handleCalculate = async () => {
+    setError(null);
+    try {
+      // Valida antes de ir à rede (datas/salário)
+      calcularLiquidacao(form);
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+
+    setCalculating(true);
+    let indices: IndicesCorrecao | undefined;
+    try {
+      indices = await fetchIndicesCorrecao(form.admissao, form.dataCalculo);
+    } catch (err) {
+      // Sem índices o cálculo segue sem atualização (aviso na planilha)
+      setError((err as Error).message);
+    }
+    setParams(form);
+    setResultado(calcularLiquidacao(form, indices));
+    setCalculating(false);
+  };
+
+  const hasHorasExtras = form.verbas.includes('horas-extras');
+  const hasFerias = form.verbas.includes('ferias');
+  const hasFgts = form.verbas.includes('fgts');
+
+  const footer = (
+    <>
+      <button onClick={() => closeModal('liquidacao')} className={CSS.btnSecondary}>Fechar</button>
+      <button onClick={handleCalculate} disabled={calculating} className={`${CSS.btnBlue} disabled:opacity-50`}>
+        {calculating ? 'Calculando...' : 'Calcular'}
+      </button>
+    </>
+  );
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={() => closeModal('liquidacao')}
+      title="Liquidação estimada"
+      subtitle="Planilha anexada ao dispositivo · IPCA-E + SELIC (ADC 58)"
+      icon={<Calculator />}
+      iconColor="blue"
+      size="xl"
+      footer={footer}
+    >
+      <div className="space-y-5">
+        {/* Contrato */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {([
+            ['admissao', 'Admissão'],
+            ['demissao', 'Demissão'],
+            ['ajuizamento', 'Ajuizamento'],
+            ['dataCalculo', 'Atualizar até'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="block">
+              <span className={CSS.label}>{label}</span>
+              <input type="date" value={form[key]} onChange={e => update(key, e.target.value)} className={CSS.input} />
+            </label>
+          ))}
+          <label className="block">
+            <span className={CSS.label}>Último salário (R$)</span>
+            <input
+              type="number" min={0} step="0.01"
+              value={form.salario || ''}
+              onChange={e => update('salario', Number(e.target.value))}
+              className={CSS.input}
+            />
+          </label>
+          <label className="block">
+            <span className={CSS.label}>Modalidade da extinção</span>
+            <select
+              value={form.motivo}
+              onChange={e => update('motivo', e.target.value as LiquidacaoMotivoRescisao)}
+              className={CSS.input}
+            >
+              {Object.entries(LIQUIDACAO_MOTIVO_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Verbas */}
+        <div>
+          <span className={CSS.label}>Verbas deferidas</span>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {(Object.keys(LIQUIDACAO_VERBA_LABELS) as LiquidacaoVerbaId[]).map(verba => (
+              <label key={verba} className="inline-flex items-center gap-2 text-sm theme-text-primary">
+                <input type="checkbox" checked={form.verbas.includes(verba)} onChange={() => toggleVerba(verba)} />
+                {LIQUIDACAO_VERBA_LABELS[verba]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {hasHorasExtras && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 rounded-lg border theme-border-secondary p-3">
+            <label className="block">
+              <span className={CSS.label}>Horas extras/mês</span>
+              <input
+                type="number" min={0} step="0.5"
+                value={form.horasExtras?.horasMensais || ''}
+                onChange={e => updateHorasExtras({ horasMensais: Number(e.target.value) })}
+                className={CSS.input}
+              />
+            </label>
+            <label className="block">
+              <span className={CSS.label}>Adicional (%)</span>
+              <input
+                type="number" min={0}
+                value={form.horasExtras?.adicional ?? 50}
+                onChange={e => updateHorasExtras({ adicional: Number(e.target.value) })}
+                className={CSS.input}
+              />
+            </label>
+            <label className="block">
+              <span className={CSS.label}>Divisor</span>
+              <input
+                type="number" min={1}
+                value={form.horasExtras?.divisor ?? 220}
+                onChange={e => updateHorasExtras({ divisor: Number(e.target.value) })}
+                className={CSS.input}
+              />
+            </label>
+            <label className="inline-flex items-center gap-2 text-sm theme-text-primary self-end pb-3">
+              <input
+                type="checkbox"
+                checked={form.horasExtras?.reflexos ?? true}
+                onChange={e => updateHorasExtras({ reflexos: e.target.checked })}
+              />
+              Reflexos
+            </label>
+          </div>
+        )}
+
+        {(hasFerias || hasFgts) && (
+          <div className="flex flex-wrap items-center gap-4 text-sm theme-text-primary">
+            {hasFerias && (
+              <>
+                <label className="inline-flex items-center gap-2">
+                  Férias vencidas (períodos)
+                  <input
+                    type="number" min={0} step={1}
+                    value={form.feriasVencidas ?? 0}
+                    onChange={e => update('feriasVencidas', Number(e.target.value))}
+                    className="w-20 px-2 py-1 theme-bg-secondary border theme-border-input rounded-lg theme-text-primary"
+                  />
+                </label>
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!form.feriasVencidasEmDobro}
+                    onChange={e => update('feriasVencidasEmDobro', e.target.checked)}
+                  />
+                  Em dobro (art. 137)
+                </label>
+              </>
+            )}
+            {hasFgts && (
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!form.fgtsSemDepositos}
+                  onChange={e => update('fgtsSemDepositos', e.target.checked)}
+                />
+                FGTS do contrato não depositado
+              </label>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+          </div>
+        )}
+
+        {/* Planilha */}
+        {resultado && (
+          <div className="space-y-2">
+            <div className="overflow-x-auto rounded-lg border theme-border-secondary">
+              <table className="w-full text-xs">
+                <thead className="theme-bg-secondary theme-text-secondary">
+                  <tr>
+                    <th className="text-left p-2">Verba</th>
+                    <th className="text-right p-2">Principal</th>
+                    <th className="text-right p-2">IPCA-E</th>
+                    <th className="text-right p-2">SELIC</th>
+                    <th className="text-right p-2">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="theme-text-primary">
+                  {resultado.linhas.map((l, i) => (
+                    <tr key={i} className="border-t theme-border-secondary">
+                      <td className="p-2">{l.descricao}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatBRL(l.principal)}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatBRL(l.correcao)}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatBRL(l.selic)}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatBRL(l.total)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t theme-border-secondary font-semibold">
+                    <td className="p-2">Total</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatBRL(resultado.totalPrincipal)}</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatBRL(resultado.totalCorrecao)}</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatBRL(resultado.totalSelic)}</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatBRL(resultado.total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[11px] theme-text-muted">{resultado.criterio}</p>
+            {resultado.avisos.map((aviso, i) => (
+              <p key={i} className="text-[11px] text-amber-600 dark:text-amber-400">• {aviso}</p>
+            ))}
+            <label className="inline-flex items-center gap-2 text-sm theme-text-primary">
+              <input
+                type="checkbox"
+                checked={anexarAoDispositivo}
+                onChange={e => setAnexarAoDispositivo(e.target.checked)}
+              />
+              Anexar a planilha ao dispositivo gerado
+            </label>
+          </div>
+        )}
+      </div>
+    </BaseModal>
+  );
+};
+
+export default LiquidacaoModal;
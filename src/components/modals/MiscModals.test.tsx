@@ -7,6 +7,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { AnalysisModal, ExportModal, AnonymizationNamesModal, LinkedProofsModal } from './MiscModals';
+import { buildCitationCatalog } from '../../utils/citationLinker';
+import { usePseudonymVaultStore } from '../../stores/usePseudonymVaultStore';
 import type {
   AnalysisModalProps,
   ExportModalProps,
@@ -25,6 +27,15 @@ class MockClipboardItem {
 }
 (global as any).ClipboardItem = MockClipboardItem;
 
+// v1.53.36: Bases de citação sem IndexedDB (catálogo lido só no render)
+const citationCatalog = buildCitationCatalog(
+  [{ id: 'sum-tst-291', tipo: 'Súmula', tipoProcesso: 'Súmula', tribunal: 'TST', numero: '291', texto: '', status: 'Cancelada' }],
+  []
+);
+vi.mock('../../hooks/useCitationCatalog', () => ({
+  useCitationCatalog: () => ({ catalog: citationCatalog, reload: vi.fn() }),
+}));
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TESTS: ANALYSIS MODAL
 // ═══════════════════════════════════════════════════════════════════════════
@@ -245,6 +256,17 @@ describe('ExportModal', () => {
       expect(screen.getByText('Minuta Exportada')).toBeInTheDocument();
     });
 
+    it('should warn about cancelled citations before signing', () => {
+      render(<ExportModal {...createProps({ exportedText: 'Aplica-se a Súmula 291 do TST.' })} />);
+      expect(screen.getByText('Citações a revisar antes de assinar')).toBeInTheDocument();
+      expect(screen.getByText('Súmula 291 TST: Situação: Cancelada')).toBeInTheDocument();
+    });
+
+    it('should not warn when citations are fine', () => {
+      render(<ExportModal {...createProps()} />);
+      expect(screen.queryByText('Citações a revisar antes de assinar')).not.toBeInTheDocument();
+    });
+
     it('should display the exported text in textarea', () => {
       render(<ExportModal {...createProps({ exportedText: 'Conteudo da minuta' })} />);
       const textarea = screen.getByRole('textbox') as HTMLTextAreaElement;
@@ -544,6 +566,41 @@ describe('AnonymizationNamesModal', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // NER ENTITY REVIEW (v1.53.40)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('NER Entity Review', () => {
+    beforeEach(() => {
+      usePseudonymVaultStore.getState().resetAll();
+    });
+
+    it('should not render the review list without detected entities', () => {
+      render(<AnonymizationNamesModal {...createProps()} />);
+      expect(screen.queryByText(/Detectados automaticamente/)).not.toBeInTheDocument();
+    });
+
+    it('should list detected entities and let the judge approve or reject them', () => {
+      usePseudonymVaultStore.getState().addDetectedEntities([
+        { text: 'MARIA SOUZA', isOrg: false },
+        { text: 'ACME SERVICOS', isOrg: true },
+      ]);
+      render(<AnonymizationNamesModal {...createProps()} />);
+
+      expect(screen.getByText('Detectados automaticamente (2)')).toBeInTheDocument();
+      expect(screen.getByText('Empresa')).toBeInTheDocument();
+      expect(screen.getAllByText('Pendente')).toHaveLength(2);
+
+      fireEvent.click(screen.getByLabelText('Rejeitar ACME SERVICOS'));
+      expect(usePseudonymVaultStore.getState().entities['ACME SERVICOS'].status).toBe('rejeitado');
+
+      fireEvent.click(screen.getByText('Aprovar 1 pendente(s)'));
+      expect(usePseudonymVaultStore.getState().entities['MARIA SOUZA'].status).toBe('aprovado');
+      expect(screen.getByText('Rejeitado')).toBeInTheDocument();
+      expect(screen.queryByText(/pendente\(s\)/)).not.toBeInTheDocument();
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // COMPONENT METADATA
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1,20 +1,30 @@
 /**
  * @file MiscModals.tsx
  * @description Modais diversos (TIER 1 - menores)
- * @version 1.36.91
+ * @version 1.53.40
  *
  * Extraído do App.tsx como parte da FASE 3 de refatoração.
  * Inclui: AnalysisModal, ExportModal, AnonymizationNamesModal, LinkedProofsModal
+ * v1.53.29: ExportModal ganhou exportação .docx com editor de timbres
+ * v1.53.30: ExportModal ganhou exportação PDF/A-1b (PJe)
+ * v1.53.36: ExportModal alerta citações canceladas/inexistentes antes da assinatura
+ * v1.53.40: AnonymizationNamesModal revisa as entidades detectadas pelo NER automático
  */
 
 import React from 'react';
 import { Loader2, Download, AlertCircle, RefreshCw, Wand2, Scale, FileText, X, Sparkles, Edit, Lightbulb, Check } from 'lucide-react';
-import { BaseModal, ModalFooter, ModalInfoBox, CSS } from './BaseModal';
+import { BaseModal, ModalFooter, ModalInfoBox, ModalAmberBox, CSS } from './BaseModal';
+import { useLetterheadTemplates } from '../../hooks/useLetterheadTemplates';
+import { useCitationCatalog } from '../../hooks/useCitationCatalog';
+import { checkCitations, isCitationProblem, parseLegalCitations, uniqueCitations } from '../../utils/citationLinker';
+import { usePseudonymVaultStore, selectNerEntities } from '../../stores/usePseudonymVaultStore';
 import type {
   AnalysisModalProps,
   ExportModalProps,
+  LetterheadTemplate,
   AnonymizationNamesModalProps,
   LinkedProofsModalProps,
+  NerEntityStatus,
   Proof
 } from '../../types';
 
@@ -127,12 +137,81 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({
 // EXPORT MODAL
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/**
+ * Editor dos campos de um timbre (.docx)
+ */
+const LetterheadTemplateEditor: React.FC<{
+  template: LetterheadTemplate;
+  onChange: (template: LetterheadTemplate) => void;
+}> = ({ template, onChange }) => {
+  const update = (field: keyof LetterheadTemplate, value: string | boolean) => onChange({ ...template, [field]: value });
+  const inputClass = 'w-full px-3 py-2 theme-bg-app border theme-border-input rounded-lg theme-text-primary text-sm';
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="col-span-2">
+        <label className={CSS.label}>Nome do timbre</label>
+        <input value={template.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+      </div>
+      <div className="col-span-2">
+        <label className={CSS.label}>Cabeçalho (uma linha por linha)</label>
+        <textarea value={template.headerText} onChange={(e) => update('headerText', e.target.value)} rows={3}
+          className={inputClass} placeholder={'PODER JUDICIÁRIO\nJUSTIÇA DO TRABALHO'} />
+      </div>
+      <div className="col-span-2">
+        <label className={CSS.label}>Vara</label>
+        <input value={template.varaName} onChange={(e) => update('varaName', e.target.value)} className={inputClass}
+          placeholder="1ª Vara do Trabalho de ..." />
+      </div>
+      <div>
+        <label className={CSS.label}>Magistrado(a)</label>
+        <input value={template.judgeName} onChange={(e) => update('judgeName', e.target.value)} className={inputClass} />
+      </div>
+      <div>
+        <label className={CSS.label}>Cargo</label>
+        <input value={template.judgeTitle} onChange={(e) => update('judgeTitle', e.target.value)} className={inputClass} />
+      </div>
+      <div className="col-span-2">
+        <label className={CSS.label}>Cidade (linha de local e data)</label>
+        <input value={template.city} onChange={(e) => update('city', e.target.value)} className={inputClass} />
+      </div>
+      <div className="col-span-2">
+        <label className={CSS.label}>Rodapé</label>
+        <textarea value={template.footerText} onChange={(e) => update('footerText', e.target.value)} rows={2} className={inputClass} />
+      </div>
+      <label className="col-span-2 flex items-center gap-2 text-sm theme-text-secondary">
+        <input type="checkbox" checked={template.showPageNumbers} onChange={(e) => update('showPageNumbers', e.target.checked)} />
+        Numerar páginas ("Página X de Y")
+      </label>
+    </div>
+  );
+};
+
 /**
  * Modal para exportar minuta (migrado para BaseModal v1.18.3)
+ * v1.53.29: botão "Baixar .docx" com seleção/edição de timbre
  */
-export const ExportModal = React.memo(({ isOpen, onClose, exportedText, exportedHtml, copySuccess, setCopySuccess, setError }: ExportModalProps) => {
+export const ExportModal = React.memo(({ isOpen, onClose, exportedText, exportedHtml, copySuccess, setCopySuccess, setError, onExportDocx, onExportPdf }: ExportModalProps) => {
   const timeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   React.useEffect(() => () => { if (timeoutRef.current) clearTimeout(timeoutRef.current); }, []);
+  const { templates, activeTemplate, setActiveTemplateId, saveTemplate, deleteTemplate } = useLetterheadTemplates();
+  const [draftTemplate, setDraftTemplate] = React.useState<LetterheadTemplate | null>(null);
+  const [exportingPdf, setExportingPdf] = React.useState(false);
+  const { catalog } = useCitationCatalog(isOpen);
+  const citationProblems = React.useMemo(
+    () => uniqueCitations(checkCitations(parseLegalCitations(exportedText), catalog)).filter(isCitationProblem),
+    [exportedText, catalog]
+  );
+
+  const handleExportPdf = async () => {
+    if (!onExportPdf) return;
+    setExportingPdf(true);
+    try {
+      await onExportPdf(draftTemplate ?? activeTemplate);
+    } finally {
+      setExportingPdf(false);
+    }
+  };
 
   const handleCopy = async () => {
     try {
@@ -154,10 +233,27 @@ export const ExportModal = React.memo(({ isOpen, onClose, exportedText, exported
     }
   };
 
+  const handleNewTemplate = () => {
+    setDraftTemplate({ ...activeTemplate, id: `timbre-${Date.now()}`, name: `${activeTemplate.name} (cópia)` });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draftTemplate) return;
+    saveTemplate(draftTemplate);
+    setActiveTemplateId(draftTemplate.id);
+    setDraftTemplate(null);
+  };
+
   return (
     <BaseModal isOpen={isOpen} onClose={onClose} title="Minuta Exportada" icon={<Download />} iconColor="blue" size="xl"
       footer={<>
         <button onClick={handleCopy} className="flex-1 py-3 rounded-lg font-medium bg-blue-600 text-white hover-blue-700-from-600 flex items-center justify-center gap-1.5"><FileText className="w-4 h-4" aria-hidden="true" /> Copiar com Formatação</button>
+        {onExportDocx && (
+          <button onClick={() => onExportDocx(draftTemplate ?? activeTemplate)} className="flex-1 py-3 rounded-lg font-medium bg-green-600 text-white hover-green-700 flex items-center justify-center gap-1.5"><Download className="w-4 h-4" aria-hidden="true" /> Baixar .docx</button>
+        )}
+        {onExportPdf && (
+          <button onClick={handleExportPdf} disabled={exportingPdf} title="PDF/A-1b pronto para juntada no PJe" className="flex-1 py-3 rounded-lg font-medium bg-red-600 text-white hover-red-700 disabled:opacity-60 flex items-center justify-center gap-1.5">{exportingPdf ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" /> : <Download className="w-4 h-4" aria-hidden="true" />} Baixar PDF/A</button>
+        )}
         <button onClick={onClose} className="px-6 py-3 rounded-lg theme-bg-tertiary hover-slate-500">Fechar</button>
       </>}>
       <div className="space-y-4">
@@ -165,6 +261,40 @@ export const ExportModal = React.memo(({ isOpen, onClose, exportedText, exported
         <ModalInfoBox>
           <strong>Formatação Preservada</strong> - O conteúdo foi copiado com toda a formatação. Cole diretamente no Google Docs ou Word usando Ctrl+V.
         </ModalInfoBox>
+        {citationProblems.length > 0 && (
+          <ModalAmberBox>
+            <strong>Citações a revisar antes de assinar</strong>
+            <ul className="mt-1 list-disc pl-5">
+              {citationProblems.map(c => (
+                <li key={[c.key, ...c.specific].join('|')}>{c.label}: {c.detail}</li>
+              ))}
+            </ul>
+          </ModalAmberBox>
+        )}
+        {(onExportDocx || onExportPdf) && (
+          <div className="p-3 rounded-lg border theme-border-input space-y-3">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium theme-text-tertiary whitespace-nowrap" htmlFor="letterhead-select">Timbre do arquivo</label>
+              <select id="letterhead-select" value={activeTemplate.id} onChange={(e) => { setActiveTemplateId(e.target.value); setDraftTemplate(null); }}
+                className="flex-1 px-3 py-2 theme-bg-app border theme-border-input rounded-lg theme-text-primary text-sm">
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <button onClick={() => setDraftTemplate(draftTemplate ? null : { ...activeTemplate })} className="px-3 py-2 rounded-lg text-xs theme-bg-tertiary hover-slate-500 flex items-center gap-1"><Edit className="w-3.5 h-3.5" aria-hidden="true" /> {draftTemplate ? 'Fechar' : 'Editar'}</button>
+              <button onClick={handleNewTemplate} className="px-3 py-2 rounded-lg text-xs theme-bg-tertiary hover-slate-500">Novo</button>
+            </div>
+            {draftTemplate && (
+              <>
+                <LetterheadTemplateEditor template={draftTemplate} onChange={setDraftTemplate} />
+                <div className="flex justify-end gap-2">
+                  {templates.some(t => t.id === draftTemplate.id) && templates.length > 1 && (
+                    <button onClick={() => { deleteTemplate(draftTemplate.id); setDraftTemplate(null); }} className="px-3 py-2 rounded-lg text-xs bg-red-600 text-white hover-red-700">Excluir timbre</button>
+                  )}
+                  <button onClick={handleSaveDraft} className="px-3 py-2 rounded-lg text-xs bg-blue-600 text-white hover-blue-700">Salvar timbre</button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
         <textarea value={exportedText} readOnly className="w-full min-h-[400px] theme-bg-app border theme-border-input rounded-lg p-4 theme-text-primary font-mono text-sm resize-none" />
       </div>
     </BaseModal>
@@ -176,6 +306,77 @@ ExportModal.displayName = 'ExportModal';
 // ANONYMIZATION NAMES MODAL
 // ═══════════════════════════════════════════════════════════════════════════════
 
+const NER_STATUS_LABEL: Record<NerEntityStatus, string> = {
+  pendente: 'Pendente',
+  aprovado: 'Aprovado',
+  rejeitado: 'Rejeitado',
+};
+
+/**
+ * v1.53.40: Entidades que o NER detectou automaticamente no processo (antes das
+ * chamadas à IA). Pendentes e aprovadas são anonimizadas; rejeitadas seguem como estão.
+ */
+const NerEntityReviewList: React.FC = () => {
+  const entities = usePseudonymVaultStore(selectNerEntities);
+  const setEntityStatus = usePseudonymVaultStore((s) => s.setEntityStatus);
+  const resolvePendingEntities = usePseudonymVaultStore((s) => s.resolvePendingEntities);
+
+  const list = Object.entries(entities).sort((a, b) => a[1].text.localeCompare(b[1].text, 'pt-BR'));
+  if (list.length === 0) return null;
+  const pendentes = list.filter(([, e]) => e.status === 'pendente').length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className={CSS.label}>Detectados automaticamente ({list.length})</label>
+        {pendentes > 0 && (
+          <button
+            onClick={() => resolvePendingEntities('aprovado')}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-green-600 text-white hover-green-700-from-600 transition-colors"
+          >
+            <Check className="w-3.5 h-3.5" />
+            Aprovar {pendentes} pendente(s)
+          </button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto theme-bg-app border theme-border-primary rounded-lg divide-y divide-slate-700">
+        {list.map(([key, entity]) => (
+          <li key={key} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+            <span className={`flex-1 font-mono truncate ${entity.status === 'rejeitado' ? 'line-through theme-text-muted' : 'theme-text-secondary'}`}>
+              {entity.text}
+            </span>
+            <span className="text-xs theme-text-tertiary">{entity.isOrg ? 'Empresa' : 'Pessoa'}</span>
+            <span className={`text-xs w-16 text-right ${entity.status === 'pendente' ? 'text-amber-400' : entity.status === 'aprovado' ? 'text-green-400' : 'text-red-400'}`}>
+              {NER_STATUS_LABEL[entity.status]}
+            </span>
+            <button
+              onClick={() => setEntityStatus(key, 'aprovado')}
+              disabled={entity.status === 'aprovado'}
+              title={`Aprovar: anonimizar ${entity.text}`}
+              aria-label={`Aprovar ${entity.text}`}
+              className="p-1 rounded hover-slate-700 text-green-400 disabled:opacity-30"
+            >
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setEntityStatus(key, 'rejeitado')}
+              disabled={entity.status === 'rejeitado'}
+              title={`Rejeitar: ${entity.text} não é dado pessoal`}
+              aria-label={`Rejeitar ${entity.text}`}
+              className="p-1 rounded hover-slate-700 text-red-400 disabled:opacity-30"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs theme-text-tertiary mt-2">
+        Pendentes também são anonimizados. Rejeite o que não for nome de parte, testemunha ou empresa.
+      </p>
+    </div>
+  );
+};
+
 /**
  * Modal para configurar nomes a serem anonimizados
  */
@@ -233,6 +434,7 @@ export const AnonymizationNamesModal = React.memo(({ isOpen, onClose, onConfirm,
             placeholder="JOÃO DA SILVA&#10;MARIA SANTOS&#10;EMPRESA XYZ LTDA&#10;..." />
           <p className="text-xs theme-text-tertiary mt-2 flex items-start gap-1.5"><Lightbulb className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" aria-hidden="true" /><span>CPF, CNPJ, telefone, e-mail serão anonimizados automaticamente.</span></p>
         </div>
+        <NerEntityReviewList />
       </div>
     </BaseModal>
   );
@@ -15,10 +15,14 @@
  * - ChangelogModal (v1.38.51)
  * - DoubleCheckReviewModal (v1.38.51)
  * - BulkDiscardConfirmModal
+ * - LiquidacaoModal (v1.53.33)
  *
  * MODAIS COM HANDLERS (props mínimas):
  * - RenameTopicModal, MergeTopicsModal, SplitTopicModal, NewTopicModal (handlers de AI)
  * - SimilarityWarningModal, ExtractedModelPreviewModal (handlers de save)
+ * - CloudSessionsModal (pacote da sessão, v1.53.41)
+ * - WorkspacesModal (gabinetes com papéis, v1.53.43)
+ * - ImportAnalisadorModal (projeto a partir do Analisador, v1.53.49)
  *
  * MODAIS COMPLEXOS (permanecem no App.tsx):
  * - ConfigModal (precisa de NER/embeddings/handlers complexos)
@@ -74,8 +78,15 @@ import {
 } from './index';
 
 import { ManualCallModal } from './ManualCallModal';
+import { LiquidacaoModal } from './LiquidacaoModal';
+import { CloudSessionsModal } from './CloudSessionsModal';
+import { WorkspacesModal } from './WorkspacesModal';
+import { ImportAnalisadorModal } from './ImportAnalisadorModal';
 
+import type { LetterheadTemplate } from '../../types';
+import type { CloudSessionPayload } from '../../utils/sessionSync';
 import type { SavedProvaOralAnalysis } from '../../apps/prova-oral/types';
+import type { SavedAnalysis } from '../../apps/analisador/types';
 import type { ProvaOralSectionKey } from '../../utils/formatProvaOralImport';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -86,6 +97,10 @@ export interface ModalRootProps {
   // Export modal
   exportedText?: string;
   exportedHtml?: string;
+  /** v1.53.29: Exportação .docx com timbre */
+  onExportDocx?: (template: LetterheadTemplate) => void;
+  /** v1.53.30: Exportação PDF/A-1b (PJe) */
+  onExportPdf?: (template: LetterheadTemplate) => Promise<void>;
 
   // Bulk
   onBulkDiscard?: () => void;
@@ -159,6 +174,33 @@ export interface ModalRootProps {
   /** Indica se está importando */
   isImportingProvaOral?: boolean;
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SESSÕES NA NUVEM (v1.53.41)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** Pacote da sessão atual para envio encriptado */
+  onBuildSessionPayload?: () => Promise<CloudSessionPayload>;
+
+  /** Substitui a sessão atual pela baixada da nuvem */
+  onImportSessionPayload?: (payload: CloudSessionPayload) => Promise<void>;
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GABINETES (v1.53.43)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** Email do usuário logado; sem ele (não autenticado) o modal não é montado */
+  workspaceUserEmail?: string;
+
+  /** Pull do sync de modelos após entrar no gabinete ou mover o acervo */
+  onWorkspaceLibraryChanged?: () => void;
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // IMPORTAR DO ANALISADOR (v1.53.49)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** Monta tópicos/partes/relatório da análise escolhida; sem ele o modal não é montado */
+  onImportAnalisador?: (analysis: SavedAnalysis) => void;
+
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -189,6 +231,8 @@ export interface ModalRootProps {
 export const ModalRoot: React.FC<ModalRootProps> = ({
   exportedText = '',
   exportedHtml = '',
+  onExportDocx,
+  onExportPdf,
   onBulkDiscard,
   bulkReviewModelsCount = 0,
   onSimilarityCancel,
@@ -214,6 +258,11 @@ export const ModalRoot: React.FC<ModalRootProps> = ({
   onRefreshProvaOralAnalyses,
   selectedProvaOralAnalysis = null,
   onSelectProvaOralAnalysis,
+  onBuildSessionPayload,
+  onImportSessionPayload,
+  workspaceUserEmail,
+  onWorkspaceLibraryChanged,
+  onImportAnalisador,
   onImportProvaOral,
   isImportingProvaOral = false
 }) => {
@@ -407,6 +456,8 @@ export const ModalRoot: React.FC<ModalRootProps> = ({
         copySuccess={copySuccess}
         setCopySuccess={setCopySuccess}
         setError={setError}
+        onExportDocx={onExportDocx}
+        onExportPdf={onExportPdf}
       />
 
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -449,6 +500,17 @@ export const ModalRoot: React.FC<ModalRootProps> = ({
       <ChangelogModal />
       <DoubleCheckReviewModal />
       <ManualCallModal />
+      <LiquidacaoModal />
+
+      {onBuildSessionPayload && onImportSessionPayload && (
+        <CloudSessionsModal onBuildPayload={onBuildSessionPayload} onImportPayload={onImportSessionPayload} />
+      )}
+
+      {workspaceUserEmail && (
+        <WorkspacesModal userEmail={workspaceUserEmail} onLibraryChanged={onWorkspaceLibraryChanged} />
+      )}
+
+      {onImportAnalisador && <ImportAnalisadorModal onImport={onImportAnalisador} />}
 
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* MODAIS DE IMPORT PROVA ORAL (v1.39.08) */}
@@ -495,6 +557,7 @@ export const ModalRoot: React.FC<ModalRootProps> = ({
           openai: 'OpenAI',
           grok: 'Grok',
           deepseek: 'DeepSeek',
+          'local-llm': 'LLM Local',
           manual: 'Manual'
         }[aiSettings.provider] || 'IA'}
       />
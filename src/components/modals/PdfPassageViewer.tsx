@@ -0,0 +1,228 @@
+/**
+ * @file PdfPassageViewer.tsx
+ * @description Visualizador de PDF embutido na rastreabilidade: abre a peça na
+ * folha do trecho verificado, destaca o trecho sobre a página renderizada e rola
+ * até ele. O trecho que cruza a quebra de página é achado junto com as folhas
+ * vizinhas. Sem folha conhecida, procura o trecho nas primeiras folhas.
+ */
+
+import React from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, Loader2, AlertTriangle } from 'lucide-react';
+import { CSS } from './BaseModal';
+import { loadPdfJs } from '../../utils/pdfRasterize';
+import { getItemRects, matchPassageAcrossPages, type PassageRect } from '../../utils/pdfPassage';
+import type { PdfDocument, PdfRenderTask, PdfTextItem } from '../../types';
+
+/** Escala de render — mesma do pipeline de visão */
+const VIEWER_SCALE = 1.5;
+
+/** Folhas lidas na busca sem folha conhecida (PDF inteiro travaria o modal em autos grandes) */
+const MAX_SCAN_PAGES = 50;
+
+/** Itens de texto da folha, lidos uma vez por documento */
+const readItems = async (doc: PdfDocument, n: number, cache: Map<number, PdfTextItem[]>): Promise<PdfTextItem[]> => {
+  let items = cache.get(n);
+  if (!items) {
+    items = (await (await doc.getPage(n)).getTextContent())?.items || [];
+    cache.set(n, items);
+  }
+  return items;
+};
+
+export interface PdfPassageViewerProps {
+  file: File;
+  trecho: string;
+  /** Folha onde o trecho foi localizado (ausente em rastreabilidades antigas) */
+  pagina?: number;
+  onBack: () => void;
+}
+
+export const PdfPassageViewer: React.FC<PdfPassageViewerProps> = ({ file, trecho, pagina, onBack }) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const highlightRef = React.useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = React.useState<PdfDocument | null>(null);
+  const [page, setPage] = React.useState<number>(pagina || 1);
+  const [size, setSize] = React.useState<{ width: number; height: number } | null>(null);
+  const [rects, setRects] = React.useState<PassageRect[]>([]);
+  /** Outras folhas por onde o trecho passa (quebra de página) */
+  const [otherPages, setOtherPages] = React.useState<number[]>([]);
+  const [scanLimited, setScanLimited] = React.useState(false);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const itemsCache = React.useRef(new Map<number, PdfTextItem[]>());
+
+  // Carrega o documento (e localiza a folha do trecho, se não informada)
+  React.useEffect(() => {
+    let cancelled = false;
+    let loaded: PdfDocument | null = null;
+    setLoading(true);
+    setError(null);
+    setScanLimited(false);
+    const cache = new Map<number, PdfTextItem[]>();
+    itemsCache.current = cache;
+
+    (async () => {
+      try {
+        const pdfjsLib = await loadPdfJs();
+        loaded = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+        let target = pagina && pagina <= loaded.numPages ? pagina : 0;
+        // Folhas aos pares, para achar também o trecho que cruza a quebra. Para ao
+        // fechar o visualizador ou trocar de trecho.
+        const lastScanned = Math.min(loaded.numPages, MAX_SCAN_PAGES);
+        for (let i = 1; !target && !cancelled && i <= lastScanned; i++) {
+          const pair = [await readItems(loaded, i, cache)];
+          if (i < loaded.numPages) pair.push(await readItems(loaded, i + 1, cache));
+          const match = matchPassageAcrossPages(pair, trecho);
+          if (match) target = match.itemIndexes[0].length > 0 ? i : i + 1;
+        }
+        if (cancelled) return;
+        setScanLimited(!target && loaded.numPages > MAX_SCAN_PAGES);
+        setPdf(loaded);
+        setPage(target || 1);
+      } catch (err) {
+        if (!cancelled) {
+          setError(`Não foi possível abrir o PDF: ${(err as Error).message}`);
+          setLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, trecho, pagina]);
+
+  // Renderiza a folha atual e calcula o destaque
+  React.useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    // Render em andamento: trocar de folha antes do fim cancela (mesmo canvas)
+    let renderTask: PdfRenderTask | null = null;
+    setLoading(true);
+
+    (async () => {
+      try {
+        const pdfPage = await pdf.getPage(page);
+        const viewport = pdfPage.getViewport({ scale: VIEWER_SCALE });
+        const items = await readItems(pdf, page, itemsCache.current);
+        // Só a folha atual; não achando, junto com as vizinhas (trecho na quebra de página)
+        let pagesInView = [page];
+        let match = matchPassageAcrossPages([items], trecho);
+        if (!match) {
+          pagesInView = [page - 1, page, page + 1].filter(n => n >= 1 && n <= pdf.numPages);
+          const pages = await Promise.all(pagesInView.map(n => readItems(pdf, n, itemsCache.current)));
+          match = matchPassageAcrossPages(pages, trecho);
+        }
+        const current = match?.itemIndexes[pagesInView.indexOf(page)] || [];
+        const found = current.length > 0 && viewport.transform
+          ? getItemRects(items, current, { transform: viewport.transform, scale: viewport.scale ?? VIEWER_SCALE })
+          : [];
+        const others = match ? pagesInView.filter((n, i) => n !== page && match!.itemIndexes[i].length > 0) : [];
+
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (canvas && context && !cancelled) {
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          renderTask = pdfPage.render({ canvasContext: context, viewport });
+          await renderTask.promise;
+        }
+        if (cancelled) return;
+        setSize({ width: viewport.width, height: viewport.height });
+        setRects(found);
+        setOtherPages(others);
+      } catch (err) {
+        if ((err as Error)?.name === 'RenderingCancelledException') return;
+        if (!cancelled) setError(`Falha ao renderizar a folha ${page}: ${(err as Error).message}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, trecho]);
+
+  React.useEffect(() => {
+    if (rects.length > 0) highlightRef.current?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [rects]);
+
+  const numPages = pdf?.numPages ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button onClick={onBack} className={CSS.btnSecondary + ' text-xs !py-1.5 inline-flex items-center gap-1'}>
+          <ArrowLeft className="w-3.5 h-3.5" /> Voltar às fontes
+        </button>
+        <div className="flex items-center gap-2 text-xs theme-text-secondary">
+          <span className="truncate max-w-[240px]" title={file.name}>{file.name}</span>
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={!pdf || page <= 1}
+            className="p-1 rounded theme-hover-bg disabled:opacity-40"
+            aria-label="Folha anterior"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>fl. {page}{numPages ? ` / ${numPages}` : ''}</span>
+          <button
+            onClick={() => setPage(p => Math.min(numPages, p + 1))}
+            disabled={!pdf || page >= numPages}
+            className="p-1 rounded theme-hover-bg disabled:opacity-40"
+            aria-label="Próxima folha"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs theme-text-muted font-serif">"{trecho}"</p>
+
+      {error ? (
+        <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+        </div>
+      ) : (
+        <>
+          {!loading && pdf && rects.length === 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {otherPages.length > 0
+                ? `Trecho na fl. ${otherPages.join(' e ')}.`
+                : scanLimited
+                  ? `Trecho não localizado nas primeiras ${MAX_SCAN_PAGES} folhas — navegue até a folha da citação.`
+                  : 'Trecho não destacado nesta folha (texto da página ilegível ou trecho em outra folha).'}
+            </p>
+          )}
+          {!loading && rects.length > 0 && otherPages.length > 0 && (
+            <p className="text-xs theme-text-muted">O trecho continua na fl. {otherPages.join(' e ')}.</p>
+          )}
+          <div className="relative max-h-[60vh] overflow-auto rounded-lg border theme-border-secondary bg-white">
+            {loading && (
+              <div className="absolute inset-0 flex items-center justify-center z-10">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-500" role="status" aria-label="Carregando PDF" />
+              </div>
+            )}
+            <div className="relative mx-auto" style={size ? { width: size.width, height: size.height } : undefined}>
+              <canvas ref={canvasRef} className="block" />
+              {rects.map((r, i) => (
+                <div
+                  key={i}
+                  ref={i === 0 ? highlightRef : undefined}
+                  data-testid="pdf-passage-highlight"
+                  className="absolute bg-yellow-300/40 border-b-2 border-yellow-500 pointer-events-none"
+                  style={{ left: r.left, top: r.top, width: r.width, height: r.height }}
+                />
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PdfPassageViewer;
@@ -1,21 +1,24 @@
 /**
  * @file PreviewModals.tsx
  * @description Modal de preview de modelo
- * @version 1.36.94
+ * @version 1.53.44
  *
  * Extraído do App.tsx v1.36.93
+ * v1.53.44: Painel de histórico de revisões do servidor (ModelHistoryPanel)
  */
 
 import React from 'react';
-import { X, Copy, Star } from 'lucide-react';
+import { X, Copy, Star, History } from 'lucide-react';
 import { CSS } from './BaseModal';
 import { VoiceButton } from '../VoiceButton';
 import { QuillEditorBase, getQuillToolbarConfig } from '../editors';
+import { ModelHistoryPanel } from '../version';
 import { useAIIntegration } from '../../hooks';
 import { useVoiceImprovement } from '../../hooks/useVoiceImprovement';
 import { useAIStore } from '../../stores/useAIStore';
 import { ensureHtmlParagraphs } from '../../utils/html-conversion';
 import type { QuillInstance, ModelPreviewModalProps } from '../../types';
+import type { RestoredModelRevision } from '../../utils/modelRevisions';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // HELPER: extractPlainText
@@ -65,10 +68,31 @@ export const ModelPreviewModal: React.FC<ModelPreviewModalProps> = ({
   onToggleFavorite,
   // v1.15.3: Prop para "Salvar como Novo Modelo"
   onOpenSaveAsNew,
+  // v1.53.44: Histórico de revisões
+  onRevisionRestored,
 }) => {
   // Ref para o editor Quill em modo edição
   const quickEditRef = React.useRef<QuillInstance | null>(null);
 
+  // v1.53.44: Alterna o corpo entre o conteúdo e o histórico de revisões
+  const [showHistory, setShowHistory] = React.useState(false);
+  React.useEffect(() => { setShowHistory(false); }, [model?.id, isOpen]);
+
+  const handleRevisionRestored = React.useCallback((restored: RestoredModelRevision) => {
+    if (!model || !onRevisionRestored) return;
+    onRevisionRestored({
+      ...model,
+      title: restored.title,
+      content: restored.content,
+      category: restored.category ?? undefined,
+      keywords: restored.keywords ?? undefined,
+      syncVersion: restored.syncVersion,
+      updatedAt: restored.updatedAt,
+    });
+    setShowHistory(false);
+    showToast?.('Versão restaurada', 'success');
+  }, [model, onRevisionRestored, showToast]);
+
   // v1.38.5: Voice improvement com IA
   const aiSettings = useAIStore((state) => state.aiSettings);
   const { callAI } = useAIIntegration();
@@ -280,6 +304,8 @@ export const ModelPreviewModal: React.FC<ModelPreviewModalProps> = ({
                 />
               </div>
             </div>
+          ) : showHistory ? (
+            <ModelHistoryPanel modelId={model.id} onRestored={handleRevisionRestored} />
           ) : (
             // Modo Visualização: HTML renderizado
             <div
@@ -340,6 +366,16 @@ export const ModelPreviewModal: React.FC<ModelPreviewModalProps> = ({
                 <Copy className="w-4 h-4" />
                 Copiar
               </button>
+              {onRevisionRestored && (
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className="hover-slate-600 px-4 py-2 rounded-lg font-semibold flex items-center gap-2 border theme-border-input theme-text-primary"
+                  aria-pressed={showHistory}
+                >
+                  <History className="w-4 h-4" />
+                  {showHistory ? 'Ver Modelo' : 'Histórico'}
+                </button>
+              )}
               <button
                 onClick={onStartEditing}
                 className="hover-yellow-alpha px-4 py-2 rounded-lg font-semibold flex items-center gap-2 border border-yellow-500 text-yellow-400"
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
 import { RastreabilidadeModal } from './RastreabilidadeModal';
-import type { Topic } from '../../types';
+import { useDocumentsStore } from '../../stores/useDocumentsStore';
+import type { PdfjsLib, Topic } from '../../types';
 
 const baseTopic = (over: Partial<Topic> = {}): Topic => ({
   title: 'HORAS EXTRAS', category: 'MÉRITO', relatorio: '<p>texto</p>', ...over,
@@ -73,4 +74,175 @@ describe('RastreabilidadeModal', () => {
     expect(screen.getByText(/Fiel/i)).toBeTruthy();
     expect(screen.queryByText(/divergente/i)).toBeNull();
   });
+
+  describe('abrir trecho no PDF', () => {
+    const pdfFile = Object.assign(new File(['%PDF-1.4'], 'inicial.pdf', { type: 'application/pdf' }), {
+      arrayBuffer: async () => new ArrayBuffer(8),
+    });
+    const topicWith = (trecho: Record<string, unknown>) => baseTopic({
+      relatorioFontes: {
+        geradoEm: '2026-05-31T10:00:00.000Z',
+        baseSnapshot: '<p>texto</p>',
+        blocos: [{ blocoIndex: 0, blocoResumo: 'texto', trechos: [
+          { trecho: 'laborava das 8h às 18h', peca: 'Petição inicial', status: 'verificado', ...trecho },
+        ] }],
+      },
+    });
+
+    // pdf.js falso: 3 folhas, o trecho está na segunda
+    const getPage = vi.fn(async (n: number) => ({
+      getViewport: ({ scale }: { scale: number }) => ({ width: 900, height: 1200, scale, transform: [scale, 0, 0, -scale, 0, 1200] }),
+      getTextContent: async () => ({
+        items: n === 2 ? [{ str: 'O reclamante laborava das 8h às 18h.', transform: [12, 0, 0, 12, 72, 700], width: 220 }] : [{ str: 'Outra folha' }],
+      }),
+      render: () => ({ promise: Promise.resolve() }),
+    }));
+
+    beforeEach(() => {
+      getPage.mockClear();
+      window.pdfjsLib = {
+        getDocument: () => ({ promise: Promise.resolve({ numPages: 3, getPage, destroy: vi.fn() }) }),
+        GlobalWorkerOptions: { workerSrc: '' },
+      } as unknown as PdfjsLib;
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+      useDocumentsStore.getState().setPeticaoFiles([{ file: pdfFile, id: 'pdf-1' }]);
+    });
+
+    afterEach(() => {
+      cleanup();
+      vi.restoreAllMocks();
+      useDocumentsStore.getState().setPeticaoFiles([]);
+      delete (window as unknown as { pdfjsLib?: PdfjsLib }).pdfjsLib;
+    });
+
+    it('trecho verificado com arquivo carregado: botão "Ver no PDF" com a folha', () => {
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1', pagina: 2 })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      expect(screen.getByRole('button', { name: /Ver no PDF \(fl\. 2\)/ })).toBeTruthy();
+    });
+
+    it('folha dentro de peça do índice PJe: mostra a citação "Id. …, fl. N"', () => {
+      useDocumentsStore.getState().setPjeDocumentIndex([
+        { id: '85cb794', type: 'peticao-inicial', label: 'Petição Inicial', signer: 'ADVOGADO', signedAt: '01/02/2026', startPage: 1, endPage: 3, sourceName: 'inicial.pdf', fileId: 'pdf-1' },
+      ]);
+      try {
+        render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1', pagina: 2 })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+        expect(screen.getByText('(Id. 85cb794, fl. 2)')).toBeTruthy();
+      } finally {
+        useDocumentsStore.getState().setPjeDocumentIndex([]);
+      }
+    });
+
+    it('folha fora do índice PJe (ou de outro arquivo): sem citação', () => {
+      useDocumentsStore.getState().setPjeDocumentIndex([
+        { id: '85cb794', type: 'peticao-inicial', label: 'Petição Inicial', signer: 'ADVOGADO', signedAt: '01/02/2026', startPage: 1, endPage: 3, sourceName: 'inicial.pdf', fileId: 'outro-pdf' },
+      ]);
+      try {
+        render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1', pagina: 2 })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+        expect(screen.queryByText(/Id\. 85cb794/)).toBeNull();
+      } finally {
+        useDocumentsStore.getState().setPjeDocumentIndex([]);
+      }
+    });
+
+    it('sem o arquivo na sessão (ou sem arquivoId): sem botão', () => {
+      const { unmount } = render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'outro' })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      expect(screen.queryByRole('button', { name: /Ver no PDF/ })).toBeNull();
+      unmount();
+      render(<RastreabilidadeModal isOpen topic={topicWith({})} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      expect(screen.queryByRole('button', { name: /Ver no PDF/ })).toBeNull();
+    });
+
+    it('abre o visualizador na folha informada, destaca o trecho e volta às fontes', async () => {
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1', pagina: 2 })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: /Ver no PDF/ }));
+
+      await waitFor(() => expect(screen.getByTestId('pdf-passage-highlight')).toBeTruthy());
+      expect(screen.getByText('fl. 2 / 3')).toBeTruthy();
+      expect(getPage).not.toHaveBeenCalledWith(1);
+
+      fireEvent.click(screen.getByRole('button', { name: /Voltar às fontes/ }));
+      expect(screen.getByText(/1 verificado/i)).toBeTruthy();
+    });
+
+    it('sem folha gravada: procura o trecho página a página', async () => {
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1' })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: /^Ver no PDF$/ }));
+      await waitFor(() => expect(screen.getByText('fl. 2 / 3')).toBeTruthy());
+      await waitFor(() => expect(screen.getByTestId('pdf-passage-highlight')).toBeTruthy());
+    });
+
+    it('trecho que cruza a quebra de página: destaca a parte da folha e aponta a seguinte', async () => {
+      const crossPage = vi.fn(async (n: number) => ({
+        getViewport: ({ scale }: { scale: number }) => ({ width: 900, height: 1200, scale, transform: [scale, 0, 0, -scale, 0, 1200] }),
+        getTextContent: async () => ({
+          items: n === 2 ? [{ str: 'O reclamante laborava', transform: [12, 0, 0, 12, 72, 80], width: 120 }]
+            : n === 3 ? [{ str: 'das 8h às 18h.', transform: [12, 0, 0, 12, 72, 780], width: 90 }]
+            : [{ str: 'Outra folha' }],
+        }),
+        render: () => ({ promise: Promise.resolve() }),
+      }));
+      window.pdfjsLib = {
+        getDocument: () => ({ promise: Promise.resolve({ numPages: 3, getPage: crossPage, destroy: vi.fn() }) }),
+        GlobalWorkerOptions: { workerSrc: '' },
+      } as unknown as PdfjsLib;
+
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1' })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: /^Ver no PDF$/ }));
+      await waitFor(() => expect(screen.getByTestId('pdf-passage-highlight')).toBeTruthy());
+      expect(screen.getByText('fl. 2 / 3')).toBeTruthy();
+      expect(screen.getByText('O trecho continua na fl. 3.')).toBeTruthy();
+    });
+
+    it('trocar de folha durante o render cancela o render anterior sem mostrar erro', async () => {
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({} as unknown as RenderingContext);
+      const cancel = vi.fn();
+      const renders: number[] = [];
+      const slowPage = vi.fn(async (n: number) => ({
+        getViewport: ({ scale }: { scale: number }) => ({ width: 900, height: 1200, scale, transform: [scale, 0, 0, -scale, 0, 1200] }),
+        getTextContent: async () => ({ items: [{ str: 'Outra folha' }] }),
+        render: () => {
+          renders.push(n);
+          if (n !== 2) return { promise: Promise.resolve(), cancel: vi.fn() };
+          // Folha 2 fica renderizando até ser cancelada (como o PDF.js)
+          let reject: (err: Error) => void = () => {};
+          const promise = new Promise<void>((_, rej) => { reject = rej; });
+          cancel.mockImplementation(() => reject(Object.assign(new Error('Rendering cancelled, page 2'), { name: 'RenderingCancelledException' })));
+          return { promise, cancel };
+        },
+      }));
+      window.pdfjsLib = {
+        getDocument: () => ({ promise: Promise.resolve({ numPages: 3, getPage: slowPage, destroy: vi.fn() }) }),
+        GlobalWorkerOptions: { workerSrc: '' },
+      } as unknown as PdfjsLib;
+
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1', pagina: 2 })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: /Ver no PDF/ }));
+      await waitFor(() => expect(renders).toEqual([2]));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Próxima folha' }));
+      await waitFor(() => expect(renders).toEqual([2, 3]));
+      expect(cancel).toHaveBeenCalledTimes(1);
+      await waitFor(() => expect(screen.queryByRole('status', { name: 'Carregando PDF' })).toBeNull());
+      expect(screen.getByText('fl. 3 / 3')).toBeTruthy();
+      expect(screen.queryByText(/Falha ao renderizar/)).toBeNull();
+    });
+
+    it('sem folha gravada em PDF grande: a busca para no limite de folhas', async () => {
+      const blank = vi.fn(async () => ({
+        getViewport: ({ scale }: { scale: number }) => ({ width: 900, height: 1200, scale, transform: [scale, 0, 0, -scale, 0, 1200] }),
+        getTextContent: async () => ({ items: [{ str: 'Outra folha' }] }),
+        render: () => ({ promise: Promise.resolve() }),
+      }));
+      window.pdfjsLib = {
+        getDocument: () => ({ promise: Promise.resolve({ numPages: 500, getPage: blank, destroy: vi.fn() }) }),
+        GlobalWorkerOptions: { workerSrc: '' },
+      } as unknown as PdfjsLib;
+
+      render(<RastreabilidadeModal isOpen topic={topicWith({ arquivoId: 'pdf-1' })} tracing={false} onClose={vi.fn()} onRunTrace={vi.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: /^Ver no PDF$/ }));
+      await waitFor(() => expect(screen.getByText(/não localizado nas primeiras 50 folhas/)).toBeTruthy());
+      expect(screen.getByText('fl. 1 / 500')).toBeTruthy();
+      expect(blank).not.toHaveBeenCalledWith(52);
+    });
+  });
 });
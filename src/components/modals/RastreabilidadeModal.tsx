@@ -3,12 +3,17 @@
  * @description Exibe a rastreabilidade de fontes do mini-relatório por parágrafo:
  * verificação de citações (✓/⚠) E juízo de fidelidade do parágrafo às peças
  * (fiel/divergente). Sob demanda; resultado persiste no tópico.
+ * v1.53.32: trechos verificados em PDF abrem o visualizador na folha do trecho.
+ * v1.53.54: trecho em PDF do PJe indexado mostra a citação "Id. xxxxxxx, fl. N".
  */
 
 import React from 'react';
-import { Search, CheckCircle2, AlertTriangle, RefreshCw, XCircle } from 'lucide-react';
+import { Search, CheckCircle2, AlertTriangle, RefreshCw, XCircle, FileText } from 'lucide-react';
 import { BaseModal, CSS } from './BaseModal';
-import type { RelatorioBlocoFidelidade, Topic } from '../../types';
+import { PdfPassageViewer } from './PdfPassageViewer';
+import { useDocumentsStore } from '../../stores/useDocumentsStore';
+import { findPjeDocumentByPage, formatPjeCitation } from '../../utils/pjeDocumentIndex';
+import type { RelatorioBlocoFidelidade, RelatorioFonteTrecho, Topic, UploadedFile } from '../../types';
 
 export interface RastreabilidadeModalProps {
   isOpen: boolean;
@@ -55,6 +60,31 @@ export const RastreabilidadeModal: React.FC<RastreabilidadeModalProps> = ({
   const naoLocalizados = allTrechos.length - verificados;
   const divergentes = (rast?.blocos || []).filter(b => b.fidelidade?.veredito === 'divergente').length;
 
+  const peticaoFiles = useDocumentsStore((s) => s.peticaoFiles);
+  const contestacaoFiles = useDocumentsStore((s) => s.contestacaoFiles);
+  const complementaryFiles = useDocumentsStore((s) => s.complementaryFiles);
+  const pjeDocumentIndex = useDocumentsStore((s) => s.pjeDocumentIndex);
+  const [viewing, setViewing] = React.useState<{ trecho: RelatorioFonteTrecho; file: UploadedFile } | null>(null);
+
+  // Visualizador volta à lista ao fechar/reabrir o modal
+  React.useEffect(() => {
+    if (!isOpen) setViewing(null);
+  }, [isOpen]);
+
+  /** PDF de origem do trecho (só enquanto o arquivo ainda estiver carregado na sessão) */
+  const findPdf = (t: RelatorioFonteTrecho): UploadedFile | null => {
+    if (t.status !== 'verificado' || !t.arquivoId) return null;
+    const file = [...peticaoFiles, ...contestacaoFiles, ...complementaryFiles].find(f => f.id === t.arquivoId);
+    return file && file.file.type === 'application/pdf' ? file : null;
+  };
+
+  /** Citação PJe do trecho ("Id. 85cb794, fl. 12") quando a folha cai numa peça indexada */
+  const pjeCitation = (t: RelatorioFonteTrecho, pdfFile: UploadedFile | null): string | null => {
+    if (!pdfFile || !t.pagina) return null;
+    const entry = findPjeDocumentByPage(pjeDocumentIndex, t.pagina, { id: pdfFile.id, name: pdfFile.file?.name || pdfFile.name || '' });
+    return entry ? formatPjeCitation(entry, t.pagina) : null;
+  };
+
   return (
     <BaseModal
       isOpen={isOpen}
@@ -65,7 +95,14 @@ export const RastreabilidadeModal: React.FC<RastreabilidadeModalProps> = ({
       iconColor="blue"
       size="xl"
     >
-      {tracing ? (
+      {viewing ? (
+        <PdfPassageViewer
+          file={viewing.file.file}
+          trecho={viewing.trecho.trecho}
+          pagina={viewing.trecho.pagina}
+          onBack={() => setViewing(null)}
+        />
+      ) : tracing ? (
         <div className="flex flex-col items-center justify-center py-12 theme-text-secondary">
           <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" role="status" aria-label="Rastreando fontes" />
           <p className="mt-4 text-sm">Rastreando fontes nas peças…</p>
@@ -138,22 +175,38 @@ export const RastreabilidadeModal: React.FC<RastreabilidadeModalProps> = ({
                 ) : (
                   <ul className="space-y-2">
                     {/* trechos não têm id estável; índice posicional é seguro (lista somente-leitura) */}
-                    {bloco.trechos.map((t, i) => (
-                      <li key={i} className="flex items-start gap-2 text-xs">
-                        {t.status === 'verificado' ? (
-                          <CheckCircle2 className="w-4 h-4 flex-shrink-0 mt-0.5 text-green-600 dark:text-green-400" />
-                        ) : (
-                          <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-amber-600 dark:text-amber-400" />
-                        )}
-                        <div className="flex-1">
-                          <span className="theme-text-primary font-serif">"{t.trecho}"</span>
-                          <span className="theme-text-muted ml-1">— {t.peca}</span>
-                          {t.status === 'nao_localizado' && (
-                            <span className="ml-1 text-amber-600 dark:text-amber-400">(não localizado na peça)</span>
+                    {bloco.trechos.map((t, i) => {
+                      const pdfFile = findPdf(t);
+                      const citation = pjeCitation(t, pdfFile);
+                      return (
+                        <li key={i} className="flex items-start gap-2 text-xs">
+                          {t.status === 'verificado' ? (
+                            <CheckCircle2 className="w-4 h-4 flex-shrink-0 mt-0.5 text-green-600 dark:text-green-400" />
+                          ) : (
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-amber-600 dark:text-amber-400" />
                           )}
-                        </div>
-                      </li>
-                    ))}
+                          <div className="flex-1">
+                            <span className="theme-text-primary font-serif">"{t.trecho}"</span>
+                            <span className="theme-text-muted ml-1">— {t.peca}</span>
+                            {citation && (
+                              <span className="ml-1 theme-text-secondary font-sans">({citation})</span>
+                            )}
+                            {t.status === 'nao_localizado' && (
+                              <span className="ml-1 text-amber-600 dark:text-amber-400">(não localizado na peça)</span>
+                            )}
+                            {pdfFile && (
+                              <button
+                                onClick={() => setViewing({ trecho: t, file: pdfFile })}
+                                className="ml-2 inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline font-sans"
+                              >
+                                <FileText className="w-3 h-3" />
+                                Ver no PDF{t.pagina ? ` (fl. ${t.pagina})` : ''}
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
                   </ul>
                 )}
               </div>
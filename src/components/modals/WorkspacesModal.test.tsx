@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { WorkspacesModal } from './WorkspacesModal';
+import { useUIStore } from '../../stores/useUIStore';
+import * as workspacesApi from '../../utils/workspaces';
+import type { Workspace, WorkspaceMember } from '../../utils/workspaces';
+
+vi.mock('../../utils/workspaces', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/workspaces')>();
+  return {
+    ...actual,
+    listWorkspaces: vi.fn(),
+    createWorkspace: vi.fn(),
+    acceptInvite: vi.fn(),
+    declineInvite: vi.fn(),
+    listMembers: vi.fn(),
+    inviteMember: vi.fn(),
+    updateMemberRole: vi.fn(),
+    removeMember: vi.fn(),
+    adoptPersonalLibrary: vi.fn(),
+    listPendingModels: vi.fn(),
+    approveModel: vi.fn(),
+  };
+});
+
+const gabinete: Workspace = { id: 'ws-1', name: 'Gabinete 1ª VT', ownerId: 'u-juiz', ownerEmail: 'juiz@exemplo.com', role: 'juiz', memberCount: 2 };
+
+const members: WorkspaceMember[] = [
+  { id: 'm-1', userId: 'u-juiz', email: 'juiz@exemplo.com', role: 'juiz', invitedAt: '', acceptedAt: '2026-10-19T10:00:00Z' },
+  { id: 'm-2', userId: 'u-ass', email: 'assessor@exemplo.com', role: 'assessor', invitedAt: '', acceptedAt: '2026-10-19T10:00:00Z' },
+];
+
+describe('WorkspacesModal', () => {
+  const onLibraryChanged = vi.fn();
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(workspacesApi.listWorkspaces).mockResolvedValue({ workspaces: [gabinete], invites: [] });
+    vi.mocked(workspacesApi.listMembers).mockResolvedValue(members);
+    vi.mocked(workspacesApi.listPendingModels).mockResolvedValue([
+      { id: 'mod-1', title: 'Horas extras', category: 'Mérito', updatedAt: '', authorEmail: 'estagiario@exemplo.com' },
+    ]);
+    useUIStore.getState().openModal('workspaces');
+  });
+
+  afterEach(() => {
+    cleanup();
+    useUIStore.getState().closeModal('workspaces');
+    vi.clearAllMocks();
+  });
+
+  it('activates a workspace and shows members and pending approvals for the judge', async () => {
+    render(<WorkspacesModal userEmail="juiz@exemplo.com" onLibraryChanged={onLibraryChanged} />);
+
+    fireEvent.change(await screen.findByLabelText('Gabinete ativo'), { target: { value: 'ws-1' } });
+
+    expect(await screen.findByText('assessor@exemplo.com')).toBeTruthy();
+    expect(workspacesApi.getActiveWorkspaceId()).toBe('ws-1');
+    // O papel de quem criou não é editável; o dos demais é
+    expect(screen.queryByLabelText('Papel de juiz@exemplo.com')).toBeNull();
+    expect(screen.getByLabelText('Papel de assessor@exemplo.com')).toBeTruthy();
+
+    vi.mocked(workspacesApi.approveModel).mockResolvedValue([]);
+    fireEvent.click(screen.getByRole('button', { name: 'Aprovar Horas extras' }));
+    expect(await screen.findByText('Nenhum modelo pendente.')).toBeTruthy();
+    expect(workspacesApi.approveModel).toHaveBeenCalledWith('ws-1', 'mod-1');
+    expect(onLibraryChanged).toHaveBeenCalled();
+  });
+
+  it('hides management for an estagiário', async () => {
+    vi.mocked(workspacesApi.listWorkspaces).mockResolvedValue({ workspaces: [{ ...gabinete, role: 'estagiario' }], invites: [] });
+    workspacesApi.setActiveWorkspaceId('ws-1');
+    render(<WorkspacesModal userEmail="estagiario@exemplo.com" />);
+
+    expect(await screen.findByText('assessor@exemplo.com')).toBeTruthy();
+    expect(screen.queryByLabelText('Email do convidado')).toBeNull();
+    expect(screen.queryByText('Modelos aguardando aprovação')).toBeNull();
+    expect(workspacesApi.listPendingModels).not.toHaveBeenCalled();
+  });
+
+  it('accepts a pending invite and requests a library sync', async () => {
+    vi.mocked(workspacesApi.listWorkspaces).mockResolvedValue({
+      workspaces: [],
+      invites: [{ id: 'inv-1', workspaceId: 'ws-1', workspaceName: 'Gabinete 1ª VT', role: 'assessor', invitedByEmail: 'juiz@exemplo.com', invitedAt: '' }],
+    });
+    vi.mocked(workspacesApi.acceptInvite).mockResolvedValue({ workspaces: [{ ...gabinete, role: 'assessor' }] });
+    render(<WorkspacesModal userEmail="assessor@exemplo.com" onLibraryChanged={onLibraryChanged} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Aceitar' }));
+
+    expect(await screen.findByText(/Você entrou no gabinete/)).toBeTruthy();
+    expect(workspacesApi.getActiveWorkspaceId()).toBe('ws-1');
+    expect(onLibraryChanged).toHaveBeenCalled();
+  });
+});
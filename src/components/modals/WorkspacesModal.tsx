@@ -0,0 +1,352 @@
+/**
+ * @file WorkspacesModal.tsx
+ * @description Gabinetes: criar, convidar a equipe com papéis (juiz, assessor,
+ * estagiário), escolher o gabinete ativo, mover o acervo pessoal e aprovar
+ * modelos pendentes.
+ * @version 1.53.43
+ *
+ * Montado em ModalRoot e aberto pelo botão "Gabinete" da aba Modelos. O
+ * compartilhamento 1:1 (ShareLibraryModal) continua disponível; o gabinete é o
+ * caminho para equipes — cada novo membro vê todo o acervo sem
+ * re-compartilhamento.
+ */
+
+import React from 'react';
+import { Building2, Check, X, Trash2, UserPlus, RefreshCw, FolderInput } from 'lucide-react';
+import { BaseModal, CSS } from './BaseModal';
+import { useUIStore } from '../../stores/useUIStore';
+import {
+  ROLE_LABELS,
+  canWorkspace,
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+  listWorkspaces,
+  createWorkspace,
+  acceptInvite,
+  declineInvite,
+  listMembers,
+  inviteMember,
+  updateMemberRole,
+  removeMember,
+  adoptPersonalLibrary,
+  listPendingModels,
+  approveModel,
+  type Workspace,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type PendingModel,
+} from '../../utils/workspaces';
+
+export interface WorkspacesModalProps {
+  /** E-mail do usuário logado (para identificar a própria linha na lista de membros) */
+  userEmail?: string;
+  /** Dispara um pull do sync de modelos (após aceitar convite ou mover o acervo) */
+  onLibraryChanged?: () => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as WorkspaceRole[];
+
+export const WorkspacesModal: React.FC<WorkspacesModalProps> = ({ userEmail, onLibraryChanged }) => {
+  const isOpen = useUIStore((s) => s.modals.workspaces);
+  const closeModal = useUIStore((s) => s.closeModal);
+
+  const [workspaces, setWorkspaces] = React.useState<Workspace[]>([]);
+  const [invites, setInvites] = React.useState<WorkspaceInvite[]>([]);
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+  const [members, setMembers] = React.useState<WorkspaceMember[]>([]);
+  const [pending, setPending] = React.useState<PendingModel[]>([]);
+  const [newName, setNewName] = React.useState('');
+  const [inviteEmail, setInviteEmail] = React.useState('');
+  const [inviteRole, setInviteRole] = React.useState<WorkspaceRole>('assessor');
+  const [confirmAdopt, setConfirmAdopt] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [info, setInfo] = React.useState<string | null>(null);
+
+  const active = workspaces.find((w) => w.id === activeId);
+  const close = () => closeModal('workspaces');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectWorkspace = async (id: string | null, list: Workspace[] = workspaces) => {
+    const workspace = list.find((w) => w.id === id);
+    setActiveWorkspaceId(workspace ? workspace.id : null);
+    setActiveId(workspace ? workspace.id : null);
+    setConfirmAdopt(false);
+    setMembers(workspace ? await listMembers(workspace.id) : []);
+    setPending(workspace && canWorkspace(workspace.role, 'approve') ? await listPendingModels(workspace.id) : []);
+  };
+
+  const refresh = () => run(async () => {
+    const data = await listWorkspaces();
+    setWorkspaces(data.workspaces);
+    setInvites(data.invites);
+    // Gabinete salvo que deixou de existir (ou do qual o usuário saiu) volta para o acervo pessoal
+    await selectWorkspace(getActiveWorkspaceId(), data.workspaces);
+  });
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const create = () => run(async () => {
+    const { id, name } = await createWorkspace(newName.trim());
+    const data = await listWorkspaces();
+    setWorkspaces(data.workspaces);
+    setNewName('');
+    await selectWorkspace(id, data.workspaces);
+    setInfo(`Gabinete "${name}" criado. Convide a equipe abaixo.`);
+  });
+
+  const accept = (invite: WorkspaceInvite) => run(async () => {
+    const { workspaces: list } = await acceptInvite(invite.id);
+    setWorkspaces(list);
+    setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    await selectWorkspace(invite.workspaceId, list);
+    onLibraryChanged?.();
+    setInfo(`Você entrou no gabinete "${invite.workspaceName}".`);
+  });
+
+  const decline = (invite: WorkspaceInvite) => run(async () => {
+    await declineInvite(invite.id);
+    setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+  });
+
+  const invite = () => run(async () => {
+    if (!active) return;
+    setMembers(await inviteMember(active.id, inviteEmail.trim(), inviteRole));
+    setInfo(`Convite registrado para ${inviteEmail.trim()} (${ROLE_LABELS[inviteRole]}). Aparece para o convidado ao entrar no app.`);
+    setInviteEmail('');
+  });
+
+  const changeRole = (member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    if (!active) return;
+    setMembers(await updateMemberRole(active.id, member.id, role));
+  });
+
+  const remove = (member: WorkspaceMember) => run(async () => {
+    if (!active) return;
+    setMembers(await removeMember(active.id, member.id));
+  });
+
+  const adopt = () => run(async () => {
+    if (!active) return;
+    const moved = await adoptPersonalLibrary(active.id);
+    setConfirmAdopt(false);
+    onLibraryChanged?.();
+    setInfo(
+      `Movidos para "${active.name}": ${moved.models} modelo(s), ${moved.knowledge_packages} pacote(s), ` +
+      `${moved.analyses + moved.prova_oral_analyses} análise(s).`
+    );
+  });
+
+  const approve = (model: PendingModel) => run(async () => {
+    if (!active) return;
+    setPending(await approveModel(active.id, model.id));
+    onLibraryChanged?.();
+  });
+
+  const isOwnerRow = (member: WorkspaceMember) => !!active && member.userId === active.ownerId;
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={close}
+      title="Gabinete"
+      subtitle="Acervo da equipe com papéis: juiz, assessor e estagiário"
+      icon={<Building2 />}
+      iconColor="purple"
+      size="lg"
+      footer={<button onClick={close} className={CSS.btnSecondary}>Fechar</button>}
+    >
+      <div className="space-y-4">
+        {invites.length > 0 && (
+          <div className="p-3 rounded-lg border border-purple-500/40 bg-purple-500/10 space-y-2">
+            {invites.map((i) => (
+              <div key={i.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 theme-text-primary">
+                  Convite para <span className="font-semibold">{i.workspaceName}</span> como {ROLE_LABELS[i.role]}
+                  {i.invitedByEmail ? ` (${i.invitedByEmail})` : ''}
+                </span>
+                <button onClick={() => accept(i)} disabled={busy} className={`${CSS.btnBlue} text-sm`}>Aceitar</button>
+                <button onClick={() => decline(i)} disabled={busy} className="p-2 rounded theme-hover-bg text-red-500" aria-label={`Recusar ${i.workspaceName}`}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className={CSS.label} htmlFor="workspace-active">Gabinete ativo</label>
+          <div className="flex gap-2">
+            <select
+              id="workspace-active"
+              value={activeId ?? ''}
+              onChange={(e) => run(() => selectWorkspace(e.target.value || null))}
+              className={CSS.input}
+              disabled={busy}
+            >
+              <option value="">Acervo pessoal</option>
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name} · {ROLE_LABELS[w.role]} · {w.memberCount} membro(s)
+                </option>
+              ))}
+            </select>
+            <button onClick={refresh} disabled={busy} className={`${CSS.btnSecondary} disabled:opacity-50`} title="Atualizar">
+              <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          <p className={`${CSS.textMuted} mt-1`}>
+            Modelos, pacotes de conhecimento e análises criados com um gabinete ativo pertencem ao gabinete.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-500" role="alert">{error}</p>}
+        {info && <p className="text-sm text-green-500">{info}</p>}
+
+        {active ? (
+          <>
+            <div>
+              <h4 className="text-sm font-semibold theme-text-primary mb-2">Membros</h4>
+              <ul className="divide-y theme-border-modal border theme-border-modal rounded-lg">
+                {members.map((m) => (
+                  <li key={m.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate theme-text-primary">
+                        {m.email}
+                        {m.email === userEmail?.toLowerCase() && <span className="ml-2 text-xs text-blue-500">(você)</span>}
+                      </p>
+                      {!m.acceptedAt && <p className={CSS.textMuted}>Convite pendente</p>}
+                    </div>
+                    {canWorkspace(active.role, 'manage') && !isOwnerRow(m) ? (
+                      <select
+                        value={m.role}
+                        onChange={(e) => changeRole(m, e.target.value as WorkspaceRole)}
+                        disabled={busy}
+                        className={`${CSS.input} w-36`}
+                        aria-label={`Papel de ${m.email}`}
+                      >
+                        {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                    ) : (
+                      <span className="text-xs theme-text-secondary">{ROLE_LABELS[m.role]}</span>
+                    )}
+                    {!isOwnerRow(m) && (canWorkspace(active.role, 'manage') || m.email === userEmail?.toLowerCase()) && (
+                      <button
+                        onClick={() => remove(m)}
+                        disabled={busy}
+                        className="p-2 rounded theme-hover-bg text-red-500 disabled:opacity-40"
+                        aria-label={`Remover ${m.email}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {canWorkspace(active.role, 'manage') && (
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className={CSS.input}
+                  placeholder="email@exemplo.com"
+                  aria-label="Email do convidado"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                  className={`${CSS.input} w-36`}
+                  aria-label="Papel do convidado"
+                >
+                  {ROLES.map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button onClick={invite} disabled={busy || !inviteEmail.includes('@')} className={`${CSS.btnBlue} disabled:opacity-50 flex items-center gap-1`}>
+                  <UserPlus className="w-4 h-4" /> Convidar
+                </button>
+              </div>
+            )}
+
+            {canWorkspace(active.role, 'create') && (
+              confirmAdopt ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 theme-text-secondary">
+                    Todo o seu acervo pessoal passa a ser do gabinete e fica visível para os membros. Continuar?
+                  </span>
+                  <button onClick={adopt} disabled={busy} className={`${CSS.btnBlue} text-sm`}>Mover</button>
+                  <button onClick={() => setConfirmAdopt(false)} className={`${CSS.btnSecondary} text-sm`}>Cancelar</button>
+                </div>
+              ) : (
+                <button onClick={() => setConfirmAdopt(true)} disabled={busy} className={`${CSS.btnSecondary} text-sm flex items-center gap-1`}>
+                  <FolderInput className="w-4 h-4" /> Mover meu acervo pessoal para o gabinete
+                </button>
+              )
+            )}
+
+            {canWorkspace(active.role, 'approve') && (
+              <div>
+                <h4 className="text-sm font-semibold theme-text-primary mb-2">Modelos aguardando aprovação</h4>
+                {pending.length === 0 ? (
+                  <p className={CSS.textMuted}>Nenhum modelo pendente.</p>
+                ) : (
+                  <ul className="divide-y theme-border-modal border theme-border-modal rounded-lg">
+                    {pending.map((p) => (
+                      <li key={p.id} className="flex items-center gap-3 px-3 py-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm truncate theme-text-primary">{p.title}</p>
+                          <p className={CSS.textMuted}>{p.authorEmail}{p.category ? ` · ${p.category}` : ''}</p>
+                        </div>
+                        <button
+                          onClick={() => approve(p)}
+                          disabled={busy}
+                          className="p-2 rounded theme-hover-bg text-green-500 disabled:opacity-40"
+                          aria-label={`Aprovar ${p.title}`}
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className={CSS.input}
+              placeholder="Ex.: Gabinete da 1ª Vara do Trabalho"
+              aria-label="Nome do novo gabinete"
+            />
+            <button onClick={create} disabled={busy || !newName.trim()} className={`${CSS.btnBlue} disabled:opacity-50`}>
+              Criar gabinete
+            </button>
+          </div>
+        )}
+      </div>
+    </BaseModal>
+  );
+};
+
+export default WorkspacesModal;
@@ -70,3 +70,14 @@ export type { StreamingModalProps, StreamingOperationType } from './StreamingMod
 // Rastreabilidade Modal (feat/rastreabilidade-fontes)
 export { RastreabilidadeModal } from './RastreabilidadeModal';
 export type { RastreabilidadeModalProps } from './RastreabilidadeModal';
+
+// Liquidação Modal (v1.53.33)
+export { LiquidacaoModal } from './LiquidacaoModal';
+
+// Sessões na nuvem (v1.53.41)
+export { CloudSessionsModal } from './CloudSessionsModal';
+export { WorkspacesModal } from './WorkspacesModal';
+
+// Importar do Analisador (v1.53.49)
+export { ImportAnalisadorModal } from './ImportAnalisadorModal';
+export type { ImportAnalisadorModalProps } from './ImportAnalisadorModal';
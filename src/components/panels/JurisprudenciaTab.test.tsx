@@ -56,11 +56,14 @@ function createDefaultJurisData() {
     handleClearAll: vi.fn(),
     deleteAllConfirmText: '',
     setDeleteAllConfirmText: vi.fn(),
+    fullTextReady: true,
+    fullTextSearch: vi.fn((): Array<{ id: string; score: number; citation: boolean }> => []),
   };
 }
 
 vi.mock('../../hooks', () => ({
   useJurisprudencia: () => mockJurisprudenciaData,
+  matchesFiltrosJuris: () => true,
 }));
 
 vi.mock('../cards', () => ({
@@ -582,6 +585,27 @@ describe('JurisprudenciaTab', () => {
       }, { timeout: 2000 });
     });
 
+    it('should put exact citation from full-text index on top', async () => {
+      vi.useRealTimers();
+      mockJurisprudenciaData.searchTerm = 'Súmula 331 TST';
+      mockJurisprudenciaData.precedentes = [
+        { id: 'tst-sum-331', tipo: 'Súmula', tipoProcesso: 'Súmula', numero: '331', tese: 'Responsabilidade subsidiária' },
+      ];
+      mockJurisprudenciaData.fullTextSearch.mockReturnValue([{ id: 'tst-sum-331', score: 1000, citation: true }]);
+      mockGetEmbedding.mockResolvedValue([0.1, 0.2]);
+      mockSearchBySimilarity.mockResolvedValue([
+        { id: 'r2', tipoProcesso: 'OJ', numero: '200', text: 'Outro', similarity: 0.6 },
+      ]);
+
+      render(<JurisprudenciaTab {...createMockProps(semanticProps)} />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/2 resultado\(s\) semântico\(s\)/)).toBeInTheDocument();
+      }, { timeout: 2000 });
+      expect(screen.getByText('citação exata')).toBeInTheDocument();
+      expect(mockJurisprudenciaData.fullTextSearch).toHaveBeenCalledWith('Súmula 331 TST', 60);
+    });
+
     it('should show empty semantic results message', async () => {
       vi.useRealTimers();
       mockJurisprudenciaData.searchTerm = 'teste vazio';
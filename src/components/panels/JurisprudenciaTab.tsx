@@ -6,18 +6,23 @@
  * Extraido do App.tsx como parte da FASE 3 de refatoracao.
  * v1.20.3: Adicionado isReadOnly para modo somente leitura
  * v1.27.00: Adicionado busca semântica de jurisprudência
+ * v1.53.35: Busca semântica híbrida (embeddings + índice BM25, citações exatas no topo)
  */
 
 import React from 'react';
 import { Search, X, RefreshCw, Eye, Upload, Trash2, Scale, Check, Copy } from 'lucide-react';
-import { useJurisprudencia } from '../../hooks';
+import { useJurisprudencia, matchesFiltrosJuris } from '../../hooks';
 import { JurisprudenciaCard } from '../cards';
 import { DeleteAllPrecedentesModal } from '../modals';
 import { useUIStore } from '../../stores/useUIStore';
 import AIModelService from '../../services/AIModelService';
 import { JurisEmbeddingsService } from '../../services/EmbeddingsServices';
+import { fuseHybridRankings } from '../../utils/fullTextSearch';
 import type { JurisprudenciaTabProps, JurisEmbeddingWithSimilarity, Precedente } from '../../types';
 
+/** Resultado da busca híbrida: chunk semântico ou precedente achado só pelo texto */
+type HybridJurisResult = JurisEmbeddingWithSimilarity & { textMatch?: boolean; citation?: boolean };
+
 export const JurisprudenciaTab = React.memo(({
   isReadOnly = false,
   // v1.27.00: Props para busca semântica
@@ -54,7 +59,7 @@ export const JurisprudenciaTab = React.memo(({
       return jurisSemanticEnabled; // Usa toggle global como fallback
     } catch { return false; }
   });
-  const [semanticResults, setSemanticResults] = React.useState<JurisEmbeddingWithSimilarity[] | null>(null);
+  const [semanticResults, setSemanticResults] = React.useState<HybridJurisResult[] | null>(null);
   const [searchingSemantics, setSearchingSemantics] = React.useState(false);
 
   // Busca semântica disponível se: toggle global ativo + modelo pronto + embeddings gerados
@@ -87,14 +92,47 @@ export const JurisprudenciaTab = React.memo(({
           titulo: r.titulo || p.titulo,
         };
       });
-      setSemanticResults(enriched);
+
+      // v1.53.35: Fusão com o ranking BM25 — "Súmula 331 TST" traz a súmula exata, não a mais parecida
+      const semanticById = new Map(enriched.map(r => [r.precedenteId || r.id, r]));
+      const textHits = jurisprudencia.fullTextSearch(query, 60).filter(hit => {
+        const p = precedenteMap.get(hit.id);
+        return !!p && matchesFiltrosJuris(p, jurisprudencia.filtros);
+      }).slice(0, 30);
+      const fused = fuseHybridRankings(
+        textHits,
+        enriched.map(r => ({ id: r.precedenteId || r.id, similarity: r.similarity }))
+      );
+      setSemanticResults(fused.flatMap((hit): HybridJurisResult[] => {
+        const flags = { textMatch: hit.textRank !== undefined, citation: hit.citation };
+        const item = semanticById.get(hit.id);
+        if (item) return [{ ...item, ...flags }];
+        const p = precedenteMap.get(hit.id);
+        if (!p) return [];
+        return [{
+          id: p.id,
+          precedenteId: p.id,
+          tipo: p.tipo,
+          text: p.tese || p.enunciado || p.texto || '',
+          fullText: p.fullText,
+          embedding: [],
+          similarity: 0,
+          tribunal: p.tribunal,
+          tipoProcesso: p.tipoProcesso,
+          numero: p.numero,
+          numeroProcesso: p.numeroProcesso,
+          tema: p.tema,
+          titulo: p.titulo,
+          ...flags
+        }];
+      }));
     } catch (err) {
       console.error('[Juris Semantic] Erro na busca:', err);
       setSemanticResults(null);
     } finally {
       setSearchingSemantics(false);
     }
-  }, [semanticAvailable, jurisSemanticThreshold, jurisprudencia.filtros, precedenteMap]);
+  }, [semanticAvailable, jurisSemanticThreshold, jurisprudencia.filtros, jurisprudencia.fullTextSearch, precedenteMap]);
 
   // v1.27.00: Debounce para busca semântica
   const semanticSearchTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -283,13 +321,21 @@ export const JurisprudenciaTab = React.memo(({
                   ) : result.numeroProcesso ? (
                     <span className="text-xs theme-text-muted">nº {result.numeroProcesso}</span>
                   ) : null}
-                  <span className={`text-xs px-2 py-0.5 rounded font-medium ${
-                    result.similarity >= 0.7 ? 'bg-green-500/20 text-green-400' :
-                    result.similarity >= 0.5 ? 'bg-yellow-500/20 text-yellow-400' :
-                    'bg-gray-500/20 text-gray-400'
-                  }`}>
-                    {Math.round(result.similarity * 100)}%
-                  </span>
+                  {result.citation && (
+                    <span className="text-xs px-2 py-0.5 rounded font-medium bg-green-600/20 text-green-400">citação exata</span>
+                  )}
+                  {result.similarity > 0 && (
+                    <span className={`text-xs px-2 py-0.5 rounded font-medium ${
+                      result.similarity >= 0.7 ? 'bg-green-500/20 text-green-400' :
+                      result.similarity >= 0.5 ? 'bg-yellow-500/20 text-yellow-400' :
+                      'bg-gray-500/20 text-gray-400'
+                    }`}>
+                      {Math.round(result.similarity * 100)}%
+                    </span>
+                  )}
+                  {result.textMatch && !result.citation && (
+                    <span className="text-xs px-2 py-0.5 rounded font-medium bg-purple-600/20 text-purple-400">texto</span>
+                  )}
                   {(result.totalChunks ?? 0) > 1 && (
                     <span className="text-xs theme-text-muted">(chunk {(result.chunkIndex ?? 0) + 1}/{result.totalChunks})</span>
                   )}
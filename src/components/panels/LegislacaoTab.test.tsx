@@ -19,7 +19,8 @@ import React from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { LegislacaoTab } from './LegislacaoTab';
-import type { LegislacaoTabProps } from '../../types';
+import { useLiquidacaoStore } from '../../stores/useLiquidacaoStore';
+import type { LegislacaoTabProps, LiquidacaoParams } from '../../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MOCKS
@@ -64,6 +65,8 @@ function createDefaultLegisData() {
     leisDisponiveis: [] as string[],
     leiAtiva: null as string | null,
     setLeiAtiva: vi.fn(),
+    fullTextReady: true,
+    fullTextSearch: vi.fn((): Array<{ id: string; score: number; citation: boolean }> => []),
   };
 }
 
@@ -77,14 +80,15 @@ vi.mock('../../hooks', () => ({
 }));
 
 vi.mock('../cards', () => ({
-  ArtigoCard: ({ artigo, expanded, onToggleExpand, onCopy, copiedId }: {
+  ArtigoCard: ({ artigo, expanded, onToggleExpand, onCopy, copiedId, dataReferencia }: {
     artigo: { id: string; numero: string; caput: string };
     expanded: boolean;
     onToggleExpand: (id: string) => void;
     onCopy: (a: unknown) => void;
     copiedId: string | null;
+    dataReferencia?: string;
   }) => (
-    <div data-testid={`artigo-card-${artigo.id}`}>
+    <div data-testid={`artigo-card-${artigo.id}`} data-referencia={dataReferencia || ''}>
       <span>Art. {artigo.numero} - {artigo.caput}</span>
       <button onClick={() => onToggleExpand(artigo.id)} data-testid={`expand-${artigo.id}`}>
         {expanded ? 'Collapse' : 'Expand'}
@@ -898,4 +902,38 @@ describe('LegislacaoTab', () => {
       expect(expandBtn).toHaveTextContent('Expand');
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // v1.53.37: DATA DE REFERÊNCIA DAS REDAÇÕES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Reference Date', () => {
+    afterEach(() => {
+      act(() => { useLiquidacaoStore.setState({ params: null }); });
+    });
+
+    it('should pass the chosen date to the cards and clear it', () => {
+      const artigo = { id: 'clt-art-58', numero: '58', caput: 'Jornada', lei: 'clt' };
+      mockLegislacaoData.artigos = [artigo];
+      mockLegislacaoData.filteredArtigos = [artigo];
+      render(<LegislacaoTab {...createMockProps()} />);
+
+      fireEvent.change(screen.getByLabelText('Redação vigente em'), { target: { value: '2016-05-01' } });
+      expect(screen.getByTestId('artigo-card-clt-art-58')).toHaveAttribute('data-referencia', '2016-05-01');
+
+      fireEvent.click(screen.getByTitle('Voltar à redação atual'));
+      expect(screen.getByTestId('artigo-card-clt-art-58')).toHaveAttribute('data-referencia', '');
+    });
+
+    it('should offer the admission date from the liquidação as shortcut', () => {
+      useLiquidacaoStore.setState({ params: { admissao: '2015-02-01', demissao: '2019-03-10' } as LiquidacaoParams });
+      const artigo = { id: 'clt-art-71', numero: '71', caput: 'Intervalo', lei: 'clt' };
+      mockLegislacaoData.artigos = [artigo];
+      mockLegislacaoData.filteredArtigos = [artigo];
+      render(<LegislacaoTab {...createMockProps()} />);
+
+      fireEvent.click(screen.getByText('admissão (01/02/2015)'));
+      expect(screen.getByTestId('artigo-card-clt-art-71')).toHaveAttribute('data-referencia', '2015-02-01');
+    });
+  });
 });
@@ -1,23 +1,31 @@
 /**
  * @file LegislacaoTab.tsx
  * @description Aba de consulta de legislação com busca semântica
- * @version 1.36.87
+ * @version 1.53.37
  *
  * Extraido do App.tsx como parte da FASE 3 de refatoracao.
  * v1.20.3: Adicionado isReadOnly para modo somente leitura
  * v1.26.00: Adicionado busca semântica de legislação
+ * v1.53.35: Busca semântica híbrida (embeddings + índice BM25, citações exatas no topo)
+ * v1.53.37: Data de referência — os cards mostram a redação vigente naquela data
  */
 
 import React from 'react';
-import { Search, X, RefreshCw, Eye, Upload, Trash2, BookOpen, AlertCircle, Check, Copy } from 'lucide-react';
+import { Search, X, RefreshCw, Eye, Upload, Trash2, BookOpen, AlertCircle, Check, Copy, History } from 'lucide-react';
 import { useLegislacao, LEIS_METADATA } from '../../hooks';
 import { ArtigoCard, VirtualList } from '../cards';
 import { BaseModal } from '../modals';
 import { useUIStore } from '../../stores/useUIStore';
+import { useLiquidacaoStore } from '../../stores/useLiquidacaoStore';
 import AIModelService from '../../services/AIModelService';
 import { EmbeddingsService } from '../../services/EmbeddingsServices';
+import { fuseHybridRankings } from '../../utils/fullTextSearch';
+import { formatDataBR } from '../../utils/legislacaoRedacoes';
 import type { LegislacaoTabProps, LegislacaoEmbeddingItem, Artigo } from '../../types';
 
+/** Resultado da busca híbrida: chunk semântico ou artigo achado só pelo texto */
+type HybridLegisResult = LegislacaoEmbeddingItem & { similarity: number; textMatch?: boolean; citation?: boolean };
+
 export const LegislacaoTab = React.memo(({
   isReadOnly = false,
   // v1.26.00: Props para busca semântica
@@ -43,8 +51,11 @@ export const LegislacaoTab = React.memo(({
       return semanticSearchEnabled; // Usa toggle global como fallback
     } catch { return false; }
   });
-  const [semanticResults, setSemanticResults] = React.useState<(LegislacaoEmbeddingItem & { similarity: number })[] | null>(null);
+  const [semanticResults, setSemanticResults] = React.useState<HybridLegisResult[] | null>(null);
   const [searchingSemantics, setSearchingSemantics] = React.useState(false);
+  // v1.53.37: Data de referência (AAAA-MM-DD); vazio = redação atual. Atalho: admissão da liquidação
+  const [dataReferencia, setDataReferencia] = React.useState('');
+  const admissao = useLiquidacaoStore((s) => s.params?.admissao || '');
 
   // Busca semântica disponível se: toggle global ativo + modelo pronto + embeddings gerados
   const semanticAvailable = semanticSearchEnabled && searchModelReady && embeddingsCount > 0;
@@ -62,14 +73,38 @@ export const LegislacaoTab = React.memo(({
       const queryEmbedding = await AIModelService.getEmbedding(query.toLowerCase(), 'query');
       const threshold = semanticThreshold / 100; // Converter para 0-1
       const results = await EmbeddingsService.searchBySimilarity(queryEmbedding, threshold, 30);
-      setSemanticResults(results);
+
+      // v1.53.35: Fusão com o ranking BM25 — "art. 477 § 8º CLT" traz o artigo exato, não o mais parecido
+      const semanticById = new Map(results.map(r => [r.artigoId || r.id, r]));
+      const artigoById = new Map(legislacao.artigos.map(a => [a.id, a]));
+      const fused = fuseHybridRankings(
+        legislacao.fullTextSearch(query, 30),
+        results.map(r => ({ id: r.artigoId || r.id, similarity: r.similarity }))
+      );
+      setSemanticResults(fused.flatMap((hit): HybridLegisResult[] => {
+        const flags = { textMatch: hit.textRank !== undefined, citation: hit.citation };
+        const item = semanticById.get(hit.id);
+        if (item) return [{ ...item, ...flags }];
+        const artigo = artigoById.get(hit.id);
+        if (!artigo) return [];
+        return [{
+          id: `fulltext-${artigo.id}`,
+          artigoId: artigo.id,
+          type: 'caput',
+          lei: artigo.lei || artigo.id.split('-art-')[0],
+          text: artigo.caput || artigo.texto || '',
+          embedding: [],
+          similarity: 0,
+          ...flags
+        }];
+      }));
     } catch (err) {
       console.error('[Semantic] Erro na busca:', err);
       setSemanticResults(null);
     } finally {
       setSearchingSemantics(false);
     }
-  }, [semanticAvailable, semanticThreshold]);
+  }, [semanticAvailable, semanticThreshold, legislacao.artigos, legislacao.fullTextSearch]);
 
   // v1.26.00: Debounce para busca semântica
   const semanticSearchTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -218,6 +253,34 @@ export const LegislacaoTab = React.memo(({
         </div>
       )}
 
+      {legislacao.artigos.length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap mb-3 text-xs theme-text-muted">
+          <History className="w-3.5 h-3.5" />
+          <label htmlFor="legislacao-data-referencia">Redação vigente em</label>
+          <input
+            id="legislacao-data-referencia"
+            type="date"
+            value={dataReferencia}
+            onChange={(e) => setDataReferencia(e.target.value)}
+            className="px-2 py-1 rounded theme-bg-secondary border theme-border-input theme-text-primary"
+          />
+          {admissao && dataReferencia !== admissao && (
+            <button
+              onClick={() => setDataReferencia(admissao)}
+              className="px-2 py-1 rounded theme-bg-tertiary theme-text-secondary hover-bg-blue-opacity"
+              title="Usar a data de admissão informada na liquidação"
+            >
+              admissão ({formatDataBR(admissao)})
+            </button>
+          )}
+          {dataReferencia && (
+            <button onClick={() => setDataReferencia('')} className="p-1 rounded hover-bg-blue-opacity" title="Voltar à redação atual">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* v1.26.00: Resultados - Semânticos ou Textuais */}
       <div className="flex-1 overflow-hidden">
         {legislacao.isLoading ? (
@@ -241,9 +304,21 @@ export const LegislacaoTab = React.memo(({
                 <div key={`${item.id}-${idx}`} className="theme-bg-secondary-50 rounded-lg p-3 border theme-border-input">
                   <div className="flex items-start justify-between gap-2 mb-2">
                     <div className="flex items-center gap-2 flex-wrap">
-                      <span className="px-2 py-0.5 bg-blue-600/20 text-blue-400 text-xs rounded font-medium">
-                        {Math.round(item.similarity * 100)}% similar
-                      </span>
+                      {item.citation && (
+                        <span className="px-2 py-0.5 bg-green-600/20 text-green-400 text-xs rounded font-medium">
+                          citação exata
+                        </span>
+                      )}
+                      {item.similarity > 0 && (
+                        <span className="px-2 py-0.5 bg-blue-600/20 text-blue-400 text-xs rounded font-medium">
+                          {Math.round(item.similarity * 100)}% similar
+                        </span>
+                      )}
+                      {item.textMatch && !item.citation && (
+                        <span className="px-2 py-0.5 bg-purple-600/20 text-purple-400 text-xs rounded font-medium">
+                          texto
+                        </span>
+                      )}
                       <span className="text-xs theme-text-muted uppercase">{item.lei}</span>
                       <span className="text-xs font-medium theme-text-primary">Art. {artigo.numero}</span>
                       <span className="text-xs theme-text-muted capitalize">({item.type})</span>
@@ -317,6 +392,7 @@ export const LegislacaoTab = React.memo(({
                   expanded={expandedIds.has(artigo.id)}
                   onToggleExpand={handleToggleExpand}
                   copiedId={legislacao.copiedId}
+                  dataReferencia={dataReferencia}
                 />
               );
             }}
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, cleanup } from '@testing-library/react';
+import { LocalLlmEndpointFields } from './LocalLlmEndpointFields';
+
+const classes = { label: '', input: '', button: '', hint: '' };
+
+describe('LocalLlmEndpointFields', () => {
+  afterEach(cleanup);
+
+  it('endpoint em localhost: sem aviso', () => {
+    render(<LocalLlmEndpointFields apiBase="" values={{ baseUrl: 'http://127.0.0.1:8080/v1' }} onChange={vi.fn()} classes={classes} />);
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+
+  it('endpoint em outro host da rede, modo direto: aponta "Repassar pelo servidor"', () => {
+    render(<LocalLlmEndpointFields apiBase="" values={{ baseUrl: 'http://192.168.0.10:1234/v1' }} onChange={vi.fn()} classes={classes} />);
+    expect(screen.getByRole('alert').textContent).toMatch(/Repassar pelo servidor/);
+  });
+
+  it('outro host com o modo via servidor: sem aviso', () => {
+    render(<LocalLlmEndpointFields apiBase="" values={{ baseUrl: 'http://192.168.0.10:1234/v1', viaServer: true }} onChange={vi.fn()} classes={classes} />);
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @file LocalLlmEndpointFields.tsx
+ * @description Campos do provider "Local (OpenAI-compatível)": base URL, modelo
+ *              (listado do endpoint via GET /models) e chave opcional. Usado pelo
+ *              ConfigModal e pelos modais de configuração dos sub-apps, cada um
+ *              com as próprias classes visuais. O navegador chama o endpoint
+ *              direto; "via servidor" é opção de instalações self-hosted.
+ * @version 1.53.38
+ * v1.53.54: avisa quando o endpoint direto não é localhost (barrado pela CSP).
+ */
+
+import React, { useState, useCallback } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { DEFAULT_LOCAL_LLM_BASE_URL, LOCAL_LLM_REMOTE_HOST_HINT, fetchLocalLlmModels, isDirectLocalLlmUrl } from '../../utils/local-llm';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface LocalLlmEndpointValues {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  /** Repassar pelo proxy /api/local-llm (servidor na rede do gabinete) */
+  viaServer: boolean;
+}
+
+interface LocalLlmEndpointFieldsProps {
+  /** API_BASE do app (proxy /api/local-llm, só no modo via servidor) */
+  apiBase: string;
+  values: Partial<LocalLlmEndpointValues>;
+  onChange: (patch: Partial<LocalLlmEndpointValues>) => void;
+  /** Classes do tema do app que hospeda os campos */
+  classes: {
+    label: string;
+    input: string;
+    button: string;
+    hint: string;
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPONENTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const LocalLlmEndpointFields: React.FC<LocalLlmEndpointFieldsProps> = ({ apiBase, values, onChange, classes }) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = values.baseUrl || DEFAULT_LOCAL_LLM_BASE_URL;
+
+  const listModels = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const list = await fetchLocalLlmModels({ apiBase, baseUrl, apiKey: values.apiKey, viaServer: values.viaServer });
+      setModels(list);
+      if (list.length === 0) {
+        setError('O endpoint não informou nenhum modelo (no Ollama, rode "ollama pull <modelo>").');
+      } else if (!values.model || !list.includes(values.model)) {
+        onChange({ model: list[0] });
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiBase, baseUrl, values.apiKey, values.viaServer, values.model, onChange]);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="local-llm-base-url" className={classes.label}>Endereço do endpoint (OpenAI-compatível):</label>
+        <input
+          id="local-llm-base-url"
+          type="url"
+          value={values.baseUrl ?? ''}
+          onChange={(e) => onChange({ baseUrl: e.target.value })}
+          placeholder={DEFAULT_LOCAL_LLM_BASE_URL}
+          className={classes.input}
+        />
+        <p className={classes.hint}>
+          Ollama: http://localhost:11434/v1 · llama.cpp: http://localhost:8080/v1 · vLLM: http://localhost:8000/v1
+        </p>
+        {!values.viaServer && !isDirectLocalLlmUrl(baseUrl) && (
+          <p role="alert" className={`${classes.hint} text-amber-600`}>{LOCAL_LLM_REMOTE_HOST_HINT}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="local-llm-model" className={classes.label}>Modelo:</label>
+        <div className="flex gap-2">
+          <input
+            id="local-llm-model"
+            list="local-llm-models"
+            value={values.model ?? ''}
+            onChange={(e) => onChange({ model: e.target.value })}
+            placeholder="ex: qwen3:14b"
+            className={classes.input}
+          />
+          <datalist id="local-llm-models">
+            {models.map(m => <option key={m} value={m} />)}
+          </datalist>
+          <button
+            type="button"
+            onClick={listModels}
+            disabled={loading}
+            className={classes.button}
+            title="Consultar os modelos disponíveis no endpoint"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} aria-hidden />
+            <span className="whitespace-nowrap">{loading ? 'Listando...' : 'Listar modelos'}</span>
+          </button>
+        </div>
+        {error && <p role="alert" className={`${classes.hint} text-red-500`}>{error}</p>}
+        {!error && models.length > 0 && (
+          <p className={classes.hint}>{models.length} modelo(s) disponível(is) no endpoint.</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="local-llm-api-key" className={classes.label}>Chave (opcional):</label>
+        <input
+          id="local-llm-api-key"
+          type="password"
+          value={values.apiKey ?? ''}
+          onChange={(e) => onChange({ apiKey: e.target.value })}
+          placeholder="só se o servidor exigir (vLLM --api-key)"
+          className={classes.input}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="local-llm-via-server" className={`${classes.label} flex items-center gap-2`}>
+          <input
+            id="local-llm-via-server"
+            type="checkbox"
+            checked={values.viaServer ?? false}
+            onChange={(e) => onChange({ viaServer: e.target.checked })}
+          />
+          Repassar pelo servidor do Sentencify (instalação self-hosted)
+        </label>
+        <p className={classes.hint}>
+          {values.viaServer
+            ? 'O servidor repassa as chamadas ao endpoint (liberado em LOCAL_LLM_ALLOWED_HOSTS). Use só se o servidor roda na rede do gabinete; senão as peças passam por ele.'
+            : 'O navegador chama o endpoint direto e as peças não saem desta máquina/rede. O endpoint precisa aceitar chamadas deste site (Ollama: OLLAMA_ORIGINS; vLLM: --allowed-origins).'}
+        </p>
+        <p className={classes.hint}>PDFs são enviados só como texto extraído.</p>
+      </div>
+    </div>
+  );
+};
+
+export default LocalLlmEndpointFields;
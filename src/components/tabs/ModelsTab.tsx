@@ -16,7 +16,7 @@
 
 import React from 'react';
 import {
-  Search, X, Plus, Upload, Download, Save, Share2, Users, Sparkles, RefreshCw, Star, FileText as FileTextIcon
+  Search, X, Plus, Upload, Download, Save, Share2, Users, Building2, Sparkles, RefreshCw, Star, FileText as FileTextIcon
 } from 'lucide-react';
 import { CSS } from '../../constants/styles';
 import { SyncStatusIndicator, ModelFormModal, ModelCard, VirtualList } from '../';
@@ -223,6 +223,18 @@ export const ModelsTab: React.FC<ModelsTabProps> = ({
             </button>
           )}
 
+          {/* v1.53.43: Gabinete com papéis (acervo da equipe) */}
+          {cloudSync.isAuthenticated && (
+            <button
+              onClick={() => openModal('workspaces')}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg theme-bg-secondary theme-hover-bg border theme-border-input theme-text-primary transition-colors"
+              title="Gabinete: acervo compartilhado com a equipe, com papéis"
+            >
+              <Building2 className="w-4 h-4" />
+              Gabinete
+            </button>
+          )}
+
           {modelLibrary.models.length > 0 && (
             <button
               onClick={() => openModal('deleteAllModels')}
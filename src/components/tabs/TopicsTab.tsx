@@ -4,7 +4,7 @@
  * @version 1.37.55
  *
  * Seções:
- * 1. Header com botões de ação (Unir, Novo, Edição Global, Revisar, Dispositivo, Exportar)
+ * 1. Header com botões de ação (Unir, Novo, Edição Global, Revisar, Liquidação, Dispositivo, Exportar)
  * 2. Contadores de status (Decididos/Pendentes)
  * 3. Aviso CNJ sobre mini-relatórios
  * 4. Lista DND de tópicos selecionados (SortableTopicCard)
@@ -23,7 +23,8 @@ import {
   Sparkles,
   Download,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Calculator
 } from 'lucide-react';
 import { DndContext } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
@@ -201,6 +202,15 @@ export const TopicsTab: React.FC<TopicsTabProps> = ({
                           document.body
                         )}
                       </div>
+                      {/* v1.53.33: Liquidação estimada (anexada ao dispositivo) */}
+                      <button
+                        onClick={() => openModal('liquidacao')}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm theme-bg-secondary theme-hover-bg border theme-border-input theme-text-primary transition-all"
+                        title="Estimar a liquidação das verbas deferidas (anexada ao dispositivo)"
+                      >
+                        <Calculator className="w-4 h-4" />
+                        Liquidação
+                      </button>
                       {/* Botão Gerar Dispositivo */}
                       <div className="relative group">
                         <button
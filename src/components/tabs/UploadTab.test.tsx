@@ -19,12 +19,13 @@
  * 11. Auto-detect processo number for contestacao/complementar
  * 12. Text preview for contestacao/complementar texts
  * 13. Ctrl+Enter paste handler
+ * 14. Índice de documentos do PJe
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { UploadTab } from './UploadTab';
-import type { UploadTabProps, UploadedFile, PastedText, AnalyzedDocuments, ProcessingMode } from '../../types';
+import type { UploadTabProps, UploadedFile, PastedText, AnalyzedDocuments, ProcessingMode, PjeDocumentIndexEntry } from '../../types';
 
 // Mock useDocumentsStore
 const mockDocumentsStore = {
@@ -55,6 +56,8 @@ const mockDocumentsStore = {
   analyzing: false,
   setContestacaoFiles: vi.fn(),
   setComplementaryFiles: vi.fn(),
+  pjeDocumentIndex: [] as PjeDocumentIndexEntry[],
+  setPjeDocumentIndex: vi.fn(),
 };
 vi.mock('../../stores/useDocumentsStore', () => ({
   useDocumentsStore: (selector: (s: typeof mockDocumentsStore) => unknown) => selector(mockDocumentsStore),
@@ -149,6 +152,8 @@ describe('UploadTab', () => {
     mockDocumentsStore.analyzing = false;
     mockDocumentsStore.setContestacaoFiles = vi.fn();
     mockDocumentsStore.setComplementaryFiles = vi.fn();
+    mockDocumentsStore.pjeDocumentIndex = [];
+    mockDocumentsStore.setPjeDocumentIndex = vi.fn();
     mockUIStore.setTextPreview = vi.fn();
     mockRemovePdfFromIndexedDB.mockClear().mockResolvedValue(undefined);
   });
@@ -1549,4 +1554,100 @@ describe('UploadTab', () => {
       expect(screen.getByText(/3[.,]000\s*caracteres/i)).toBeInTheDocument();
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PJE DOCUMENT INDEX
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('PJe Document Index', () => {
+    const entry: PjeDocumentIndexEntry = {
+      id: 'a1b2c3d', type: 'contestacao', label: 'Contestação', signer: 'ADVOGADA DA RÉ',
+      signedAt: '05/02/2026', startPage: 4, endPage: 9, sourceName: 'autos.pdf'
+    };
+
+    it('should not render the section without PDFs or index', () => {
+      const props = createMockProps();
+      render(<UploadTab {...props} />);
+
+      expect(screen.queryByText('Índice de documentos do PJe')).not.toBeInTheDocument();
+    });
+
+    it('should index every uploaded PDF and store the result', async () => {
+      const file = new File(['x'], 'autos.pdf', { type: 'application/pdf' });
+      mockDocumentsStore.peticaoFiles = [{ file, id: 'p1' }];
+      const indexPjeDocuments = vi.fn().mockResolvedValue([entry]);
+      const props = createMockProps({
+        documentServices: { autoDetectProcessoNumero: vi.fn().mockResolvedValue(null), indexPjeDocuments },
+      });
+      render(<UploadTab {...props} />);
+
+      fireEvent.click(screen.getByText('Indexar IDs do PJe'));
+
+      await waitFor(() => {
+        expect(mockDocumentsStore.setPjeDocumentIndex).toHaveBeenCalledWith([{ ...entry, fileId: 'p1' }]);
+      });
+      expect(indexPjeDocuments).toHaveBeenCalledWith(file, 'autos.pdf');
+    });
+
+    it('should drop the entries of a removed PDF from the index', async () => {
+      const other: PjeDocumentIndexEntry = { ...entry, id: 'f00ba12', sourceName: 'inicial.pdf', fileId: 'p1' };
+      mockDocumentsStore.peticaoFiles = [{ file: new File(['x'], 'inicial.pdf'), id: 'p1' }];
+      mockDocumentsStore.contestacaoFiles = [{ file: new File(['x'], 'autos.pdf'), id: 'c1' }];
+      const props = createMockProps();
+      render(<UploadTab {...props} />);
+
+      const row = screen.getByText(/autos\.pdf/).closest('div.flex');
+      fireEvent.click(row!.querySelector('button')!);
+
+      await waitFor(() => expect(mockDocumentsStore.setPjeDocumentIndex).toHaveBeenCalled());
+      const updater = mockDocumentsStore.setPjeDocumentIndex.mock.calls[0][0];
+      // Entrada com fileId sai pelo id; entrada antiga (sem fileId) pelo nome do arquivo
+      expect(updater([{ ...entry, fileId: 'c1' }, other])).toEqual([other]);
+      expect(updater([entry, other])).toEqual([other]);
+    });
+
+    it('should clear the copied-citation timer on unmount', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      const clearTimeoutSpy = vi.spyOn(globalThis, 'clearTimeout');
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText: vi.fn().mockResolvedValue(undefined) }, configurable: true });
+      mockDocumentsStore.pjeDocumentIndex = [entry];
+      const { unmount } = render(<UploadTab {...createMockProps()} />);
+
+      fireEvent.click(screen.getByTitle('Copiar "Id. a1b2c3d, fl. 4"'));
+      await waitFor(() => expect(document.querySelector('.text-green-400')).not.toBeNull());
+      const timerIndex = setTimeoutSpy.mock.calls.findIndex(([, delay]) => delay === 2000);
+      const timer = setTimeoutSpy.mock.results[timerIndex].value;
+      unmount();
+
+      expect(clearTimeoutSpy).toHaveBeenCalledWith(timer);
+      setTimeoutSpy.mockRestore();
+      clearTimeoutSpy.mockRestore();
+    });
+
+    it('should warn when no PJe footer is found', async () => {
+      mockDocumentsStore.peticaoFiles = [{ file: new File(['x'], 'a.pdf'), id: 'p1' }];
+      const props = createMockProps({
+        documentServices: { autoDetectProcessoNumero: vi.fn(), indexPjeDocuments: vi.fn().mockResolvedValue([]) },
+      });
+      render(<UploadTab {...props} />);
+
+      fireEvent.click(screen.getByText('Indexar IDs do PJe'));
+
+      expect(await screen.findByText(/Nenhum rodapé de assinatura do PJe/)).toBeInTheDocument();
+    });
+
+    it('should list entries and copy the citation', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      mockDocumentsStore.pjeDocumentIndex = [entry];
+      const props = createMockProps();
+      render(<UploadTab {...props} />);
+
+      expect(screen.getByText('Id. a1b2c3d')).toBeInTheDocument();
+      expect(screen.getByText(/ADVOGADA DA RÉ, 05\/02\/2026 · fls\. 4–9/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByTitle('Copiar "Id. a1b2c3d, fl. 4"'));
+      await waitFor(() => expect(writeText).toHaveBeenCalledWith('Id. a1b2c3d, fl. 4'));
+    });
+  });
 });
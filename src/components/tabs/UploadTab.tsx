@@ -1,7 +1,7 @@
 /**
  * @file UploadTab.tsx
  * @description Aba de Upload de documentos
- * @version 1.38.40
+ * @version 1.53.31
  *
  * FASE 3 Etapa 3.3: Acessa useDocumentsStore e useUIStore diretamente,
  * eliminando ~20 props de prop drilling.
@@ -10,17 +10,20 @@
  * 1. Petição Inicial (upload múltiplo + paste + lista)
  * 2. Contestação (upload múltiplo + paste + lista)
  * 3. Documentos Complementares (upload + paste + lista)
- * 4. Botão Analisar Documentos
+ * 4. Índice de documentos do PJe (v1.53.31)
+ * 5. Botão Analisar Documentos
+ * 6. Importar do Analisador de Prepauta (v1.53.49)
  */
 
 import React from 'react';
-import { Upload, FileText, Trash2 } from 'lucide-react';
+import { Upload, FileText, Trash2, ListTree, Copy, Check, Loader2, ClipboardList } from 'lucide-react';
 import { CSS } from '../../constants/styles';
 import { ProcessingModeSelector } from '../ui';
 import { useDocumentsStore } from '../../stores/useDocumentsStore';
 import { useUIStore } from '../../stores/useUIStore';
 import { removePdfFromIndexedDB } from '../../hooks/useLocalStorage';
-import type { UploadTabProps, ProcessingMode } from '../../types';
+import { formatPjeCitation, removePjeDocumentsOfFile } from '../../utils/pjeDocumentIndex';
+import type { UploadTabProps, ProcessingMode, PjeDocumentIndexEntry } from '../../types';
 
 export const UploadTab: React.FC<UploadTabProps> = ({
   getDefaultProcessingMode,
@@ -31,6 +34,7 @@ export const UploadTab: React.FC<UploadTabProps> = ({
   handleUploadComplementary,
   removePeticaoFile,
   handleAnalyzeDocuments,
+  onOpenAnalisadorImport,
   aiIntegration,
   documentServices
 }) => {
@@ -58,9 +62,68 @@ export const UploadTab: React.FC<UploadTabProps> = ({
   const analyzing = useDocumentsStore((s) => s.analyzing);
   const setContestacaoFiles = useDocumentsStore((s) => s.setContestacaoFiles);
   const setComplementaryFiles = useDocumentsStore((s) => s.setComplementaryFiles);
+  const pjeDocumentIndex = useDocumentsStore((s) => s.pjeDocumentIndex) || [];
+  const setPjeDocumentIndex = useDocumentsStore((s) => s.setPjeDocumentIndex);
 
   const setTextPreview = useUIStore((s) => s.setTextPreview);
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ÍNDICE DE DOCUMENTOS DO PJE (v1.53.31)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const [indexingPje, setIndexingPje] = React.useState(false);
+  const [pjeIndexError, setPjeIndexError] = React.useState<string | null>(null);
+  const [copiedCitation, setCopiedCitation] = React.useState<string | null>(null);
+  const copiedTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const uploadedPdfs = [...peticaoFiles, ...contestacaoFiles, ...complementaryFiles].filter(f => f.file);
+  const canIndexPje = !!documentServices.indexPjeDocuments && uploadedPdfs.length > 0;
+  // v1.53.54: PDFs presentes ao fim de uma indexação em andamento (removidos no meio ficam de fora)
+  const uploadedPdfIdsRef = React.useRef<string[]>([]);
+  uploadedPdfIdsRef.current = uploadedPdfs.map(f => f.id);
+
+  React.useEffect(() => () => {
+    if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+  }, []);
+
+  /** v1.53.54: o índice acompanha os arquivos — remover o PDF remove as peças dele */
+  const dropPjeIndexOf = (fileObj: { id: string; file?: File; name?: string } | undefined) => {
+    if (!fileObj) return;
+    setPjeDocumentIndex(prev => removePjeDocumentsOfFile(prev, { id: fileObj.id, name: fileObj.file?.name || fileObj.name || '' }));
+    setPjeIndexError(null);
+  };
+
+  const handleIndexPjeDocuments = async () => {
+    if (!documentServices.indexPjeDocuments) return;
+    setIndexingPje(true);
+    setPjeIndexError(null);
+    try {
+      const entries: Array<PjeDocumentIndexEntry & { fileId: string }> = [];
+      for (const fileObj of uploadedPdfs) {
+        const fileEntries = await documentServices.indexPjeDocuments(fileObj.file, fileObj.file.name || fileObj.name);
+        entries.push(...fileEntries.map(entry => ({ ...entry, fileId: fileObj.id })));
+      }
+      setPjeDocumentIndex(entries.filter(entry => uploadedPdfIdsRef.current.includes(entry.fileId)));
+      if (entries.length === 0) {
+        setPjeIndexError('Nenhum rodapé de assinatura do PJe encontrado nos PDFs enviados.');
+      }
+    } catch (err) {
+      setPjeIndexError((err as Error).message);
+    } finally {
+      setIndexingPje(false);
+    }
+  };
+
+  const copyPjeCitation = async (entry: PjeDocumentIndexEntry) => {
+    const citation = formatPjeCitation(entry);
+    try {
+      await navigator.clipboard.writeText(citation);
+      setCopiedCitation(citation);
+      if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+      copiedTimerRef.current = setTimeout(() => setCopiedCitation(null), 2000);
+    } catch { }
+  };
+
   return (
     <div className="space-y-6">
       {/* v1.36.36: Aviso removido - bloqueio visual no seletor é suficiente */}
@@ -140,11 +203,14 @@ export const UploadTab: React.FC<UploadTabProps> = ({
                     value={documentProcessingModes.peticoes?.[idx] || 'pdfjs'}
                     onChange={(mode: ProcessingMode) => setPeticaoMode(idx, mode)}
                     anonymizationEnabled={aiIntegration.aiSettings?.anonymization?.enabled}
-                    binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'manual'}
-                    blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
+                    binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'local-llm' || aiIntegration.aiSettings?.provider === 'manual'}
+                    blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'local-llm' ? 'local-llm' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
                   />
                   <button
-                    onClick={() => removePeticaoFile(idx)}
+                    onClick={() => {
+                      dropPjeIndexOf(peticaoFiles[idx]);
+                      removePeticaoFile(idx);
+                    }}
                     className="ml-2 hover-text-red-400-from-300"
                     title="Remover"
                   >
@@ -391,12 +457,13 @@ export const UploadTab: React.FC<UploadTabProps> = ({
                     onChange={(mode: ProcessingMode) => setContestacaoMode(idx, mode)}
                     className="mx-2"
                     anonymizationEnabled={aiIntegration.aiSettings?.anonymization?.enabled}
-                    binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'manual'}
-                    blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
+                    binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'local-llm' || aiIntegration.aiSettings?.provider === 'manual'}
+                    blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'local-llm' ? 'local-llm' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
                   />
                   <button
                     onClick={async () => {
                       const fileToRemove = contestacaoFiles[idx];
+                      dropPjeIndexOf(fileToRemove);
                       if (fileToRemove?.id) {
                         try { await removePdfFromIndexedDB(`upload-contestacao-${fileToRemove.id}`); } catch {}
                       }
@@ -606,12 +673,13 @@ export const UploadTab: React.FC<UploadTabProps> = ({
                   onChange={(mode: ProcessingMode) => setComplementarMode(idx, mode)}
                   className="mx-2"
                   anonymizationEnabled={aiIntegration.aiSettings?.anonymization?.enabled}
-                  binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'manual'}
-                  blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
+                  binaryPdfBlocked={aiIntegration.aiSettings?.provider === 'grok' || aiIntegration.aiSettings?.provider === 'deepseek' || aiIntegration.aiSettings?.provider === 'local-llm' || aiIntegration.aiSettings?.provider === 'manual'}
+                  blockReason={aiIntegration.aiSettings?.provider === 'deepseek' ? 'deepseek' : aiIntegration.aiSettings?.provider === 'grok' ? 'grok' : aiIntegration.aiSettings?.provider === 'local-llm' ? 'local-llm' : aiIntegration.aiSettings?.provider === 'manual' ? 'manual' : undefined}
                 />
                 <button
                   onClick={async () => {
                     const fileToRemove = complementaryFiles[idx];
+                    dropPjeIndexOf(fileToRemove);
                     if (fileToRemove?.id) {
                       try { await removePdfFromIndexedDB(`upload-complementar-${fileToRemove.id}`); } catch {}
                     }
@@ -689,7 +757,62 @@ export const UploadTab: React.FC<UploadTabProps> = ({
       </div>
 
       {/* ═══════════════════════════════════════════════════════════════════════════════
-          SEÇÃO 4: Botão Analisar Documentos
+          SEÇÃO 4: Índice de documentos do PJe (v1.53.31)
+          ═══════════════════════════════════════════════════════════════════════════════ */}
+      {(canIndexPje || pjeDocumentIndex.length > 0) && (
+        <div className="theme-bg-secondary-30 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium theme-text-tertiary flex items-center gap-2">
+              <ListTree className="w-4 h-4" />
+              Índice de documentos do PJe
+              {pjeDocumentIndex.length > 0 && (
+                <span className="text-xs theme-text-muted">({pjeDocumentIndex.length})</span>
+              )}
+            </p>
+            {canIndexPje && (
+              <button
+                onClick={handleIndexPjeDocuments}
+                disabled={indexingPje}
+                className="text-xs px-3 py-1.5 rounded bg-blue-600 text-white hover-blue-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                {indexingPje && <Loader2 className="w-3 h-3 animate-spin" />}
+                {indexingPje ? 'Indexando...' : pjeDocumentIndex.length > 0 ? 'Reindexar' : 'Indexar IDs do PJe'}
+              </button>
+            )}
+          </div>
+
+          {pjeIndexError && <p className="text-xs text-red-400">{pjeIndexError}</p>}
+
+          {pjeDocumentIndex.length > 0 && (
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {pjeDocumentIndex.map((entry, idx) => {
+                const citation = formatPjeCitation(entry);
+                return (
+                  <div key={`pje-${entry.sourceName}-${entry.id}-${idx}`} className="flex items-center gap-2 text-sm theme-bg-primary-50 rounded p-2">
+                    <span className="font-mono text-xs text-blue-400 flex-shrink-0">Id. {entry.id}</span>
+                    <span className="theme-text-tertiary truncate flex-1">
+                      {entry.label}
+                      <span className="theme-text-muted text-xs">
+                        {' '}— {entry.signer}, {entry.signedAt} · fls. {entry.startPage === entry.endPage ? entry.startPage : `${entry.startPage}–${entry.endPage}`} · {entry.sourceName}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => copyPjeCitation(entry)}
+                      title={`Copiar "${citation}"`}
+                      className="hover-text-blue-400-from-300"
+                    >
+                      {copiedCitation === citation ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* ═══════════════════════════════════════════════════════════════════════════════
+          SEÇÃO 5: Botão Analisar Documentos
           ═══════════════════════════════════════════════════════════════════════════════ */}
       <button
         onClick={handleAnalyzeDocuments}
@@ -698,6 +821,18 @@ export const UploadTab: React.FC<UploadTabProps> = ({
       >
         {analyzing ? 'Analisando documentos...' : 'Analisar Documentos'}
       </button>
+
+      {/* SEÇÃO 6: Sem nova leitura da IA — reaproveita a análise de prepauta já salva */}
+      {onOpenAnalisadorImport && (
+        <button
+          onClick={onOpenAnalisadorImport}
+          disabled={analyzing}
+          className={`w-full flex items-center justify-center gap-2 ${CSS.btnSecondary} disabled:opacity-50`}
+        >
+          <ClipboardList className="w-4 h-4" />
+          Importar do Analisador de Prepauta
+        </button>
+      )}
     </div>
   );
 };
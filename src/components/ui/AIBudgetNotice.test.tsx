@@ -0,0 +1,38 @@
+/**
+ * @file AIBudgetNotice.test.tsx
+ * @description Testes para o aviso de orçamento mensal de IA
+ * @version 1.53.54
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { AIBudgetNotice } from './AIBudgetNotice';
+import { fetchAIProxy } from '../../utils/aiBudget';
+
+const warnedResponse = (warning: string) =>
+  new Response('{}', { status: 200, headers: { 'X-AI-Budget-Warning': warning } });
+
+describe('AIBudgetNotice', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fica oculto até uma chamada de IA trazer o aviso', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(warnedResponse('9.00/10.00')));
+    render(<AIBudgetNotice />);
+    expect(screen.queryByRole('status')).toBeNull();
+
+    await act(() => fetchAIProxy('/api/claude/messages'));
+    expect(screen.getByRole('status').textContent).toContain('US$ 9,00, acima do alerta de US$ 10,00');
+  });
+
+  it('não reaparece depois de fechado', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(warnedResponse('9.00/10.00')));
+    render(<AIBudgetNotice />);
+
+    await act(() => fetchAIProxy('/api/claude/messages'));
+    fireEvent.click(screen.getByLabelText('Fechar aviso de orçamento'));
+    await act(() => fetchAIProxy('/api/claude/messages'));
+    expect(screen.queryByRole('status')).toBeNull();
+  });
+});
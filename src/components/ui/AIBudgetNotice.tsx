@@ -0,0 +1,43 @@
+/**
+ * @file AIBudgetNotice.tsx
+ * @description Aviso de orçamento mensal de IA perto do limite
+ * @version 1.53.54
+ *
+ * Montado uma vez na raiz (main.jsx), fora das rotas: vale para o app principal
+ * e para os subapps, cujos hooks useAIIntegration chamam a IA via fetchAIProxy.
+ * Usa Tailwind puro (sem classes theme-*, que só existem no app principal).
+ * Fechado, não reaparece até recarregar a página.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { formatAIBudgetWarning, onAIBudgetWarning } from '../../utils/aiBudget';
+import type { AIBudgetWarning } from '../../utils/aiBudget';
+
+export const AIBudgetNotice: React.FC = () => {
+  const [warning, setWarning] = useState<AIBudgetWarning | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => onAIBudgetWarning(setWarning), []);
+
+  if (!warning || dismissed) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 z-[9999] max-w-md flex items-start gap-3 p-4 rounded-lg shadow-lg border bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/40 text-amber-800 dark:text-amber-300"
+    >
+      <AlertCircle className="w-5 h-5 flex-shrink-0 text-amber-500 dark:text-amber-400" />
+      <p className="flex-1 text-sm font-medium">{formatAIBudgetWarning(warning)}</p>
+      <button
+        onClick={() => setDismissed(true)}
+        className="flex-shrink-0 p-1 rounded hover:bg-black/5 transition-colors"
+        aria-label="Fechar aviso de orçamento"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default AIBudgetNotice;
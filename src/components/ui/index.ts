@@ -29,3 +29,6 @@ export { LockedTabOverlay } from './LockedTabOverlay';
 export { ContextScopeSelector } from './ContextScopeSelector';
 export type { ContextScopeSelectorProps } from './ContextScopeSelector';
 // ContextScope type vem de src/types/index.ts (fonte única de verdade)
+
+// v1.53.54: AIBudgetNotice - aviso de orçamento mensal de IA (montado em main.jsx)
+export { AIBudgetNotice } from './AIBudgetNotice';
@@ -0,0 +1,92 @@
+/**
+ * @file ModelHistoryPanel.test.tsx
+ * @description Testes para o painel de histórico de revisões do modelo
+ * @version 1.53.44
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { ModelHistoryPanel } from './ModelHistoryPanel';
+import * as revisionsApi from '../../utils/modelRevisions';
+import type { ModelRevision } from '../../utils/modelRevisions';
+
+vi.mock('../../utils/modelRevisions', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../utils/modelRevisions')>();
+  return {
+    ...actual,
+    listModelRevisions: vi.fn(),
+    getModelRevisionDiff: vi.fn(),
+    restoreModelRevision: vi.fn(),
+  };
+});
+
+const revisions: ModelRevision[] = [
+  {
+    id: 'rev-2', userId: 'u-ass', userEmail: 'assessor@exemplo.com', operation: 'update', title: 'Horas extras',
+    category: 'Mérito', syncVersion: 3, restoredFrom: null, createdAt: '2026-10-19T14:00:00.000Z', contentLength: 40,
+  },
+  {
+    id: 'rev-1', userId: 'u-juiz', userEmail: 'juiz@exemplo.com', operation: 'baseline', title: 'Horas extras',
+    category: 'Mérito', syncVersion: 2, restoredFrom: null, createdAt: '2026-10-18T10:00:00.000Z', contentLength: 30,
+  },
+];
+
+describe('ModelHistoryPanel', () => {
+  const onRestored = vi.fn();
+
+  beforeEach(() => {
+    vi.mocked(revisionsApi.listModelRevisions).mockResolvedValue(revisions);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('lists who changed the model and when', async () => {
+    render(<ModelHistoryPanel modelId="mod-1" onRestored={onRestored} />);
+
+    expect(await screen.findByText(/assessor@exemplo\.com/)).toBeInTheDocument();
+    expect(screen.getByText('Versão anterior ao histórico')).toBeInTheDocument();
+    expect(screen.getByText('(mais recente)')).toBeInTheDocument();
+    expect(revisionsApi.listModelRevisions).toHaveBeenCalledWith('mod-1');
+  });
+
+  it('compares a revision with the current text and restores it', async () => {
+    vi.mocked(revisionsApi.getModelRevisionDiff).mockResolvedValue({
+      against: 'current',
+      from: { title: 'Horas extras', content: '<p>Texto do juiz</p>', category: 'Mérito', keywords: null },
+      to: { title: 'Horas extras', content: '<p>Texto do assessor</p>', category: 'Mérito', keywords: null },
+      changedFields: ['content'],
+    });
+    const restored = {
+      id: 'mod-1', title: 'Horas extras', content: '<p>Texto do juiz</p>', category: 'Mérito', keywords: null,
+      syncVersion: 4, updatedAt: '2026-10-19T15:00:00.000Z',
+    };
+    vi.mocked(revisionsApi.restoreModelRevision).mockResolvedValue(restored);
+    render(<ModelHistoryPanel modelId="mod-1" onRestored={onRestored} />);
+
+    const compareButtons = await screen.findAllByRole('button', { name: /Comparar revisão/ });
+    fireEvent.click(compareButtons[1]);
+
+    expect(await screen.findByText('Comparar Versões')).toBeInTheDocument();
+    expect(revisionsApi.getModelRevisionDiff).toHaveBeenCalledWith('mod-1', 'rev-1', 'current');
+    expect(screen.getByText('juiz')).toHaveClass('line-through');
+
+    fireEvent.click(screen.getByText('Restaurar Versão Anterior'));
+
+    await vi.waitFor(() => expect(onRestored).toHaveBeenCalledWith(restored));
+    expect(revisionsApi.restoreModelRevision).toHaveBeenCalledWith('mod-1', 'rev-1');
+    expect(screen.queryByText('Comparar Versões')).toBeNull();
+    expect(revisionsApi.listModelRevisions).toHaveBeenCalledTimes(2);
+    expect(await screen.findAllByText('Comparar')).toHaveLength(2);
+  });
+
+  it('shows the server error when the model has no history there', async () => {
+    vi.mocked(revisionsApi.listModelRevisions).mockRejectedValue(new Error('Modelo não encontrado'));
+    render(<ModelHistoryPanel modelId="local-only" onRestored={onRestored} />);
+
+    expect(await screen.findByText('Modelo não encontrado')).toBeInTheDocument();
+    expect(screen.queryByText(/Nenhuma revisão registrada/)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @file ModelHistoryPanel.tsx
+ * @description Histórico de revisões de um modelo no servidor, com comparação e restauração
+ * @version 1.53.44
+ *
+ * Lista quem alterou o modelo e quando; "Comparar" abre o VersionCompareModal
+ * com a revisão contra o texto atual do servidor, e "Restaurar Versão Anterior"
+ * devolve o modelo àquele texto (o servidor grava a restauração como nova revisão).
+ *
+ * @usedBy ModelPreviewModal
+ */
+
+import React from 'react';
+import { History } from 'lucide-react';
+import { VersionCompareModal } from './VersionCompareModal';
+import {
+  listModelRevisions,
+  getModelRevisionDiff,
+  restoreModelRevision,
+  REVISION_OPERATION_LABELS,
+} from '../../utils/modelRevisions';
+import type { ModelRevision, ModelRevisionDiff, RestoredModelRevision } from '../../utils/modelRevisions';
+
+export interface ModelHistoryPanelProps {
+  modelId: string;
+  onRestored: (restored: RestoredModelRevision) => void;
+}
+
+interface CompareState {
+  revision: ModelRevision;
+  diff: ModelRevisionDiff;
+}
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const ModelHistoryPanel = React.memo(({ modelId, onRestored }: ModelHistoryPanelProps) => {
+  const [revisions, setRevisions] = React.useState<ModelRevision[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [compare, setCompare] = React.useState<CompareState | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const loadRevisions = React.useCallback(async () => {
+    try {
+      setError(null);
+      setRevisions(await listModelRevisions(modelId));
+    } catch (err) {
+      setError((err as Error).message);
+      setRevisions([]);
+    }
+  }, [modelId]);
+
+  React.useEffect(() => { loadRevisions(); }, [loadRevisions]);
+
+  const handleCompare = async (revision: ModelRevision) => {
+    setBusyId(revision.id);
+    try {
+      const diff = await getModelRevisionDiff(modelId, revision.id, 'current');
+      setCompare({ revision, diff });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!compare) return;
+    const { revision } = compare;
+    setCompare(null);
+    setBusyId(revision.id);
+    try {
+      const restored = await restoreModelRevision(modelId, revision.id);
+      onRestored(restored);
+      await loadRevisions();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold theme-text-primary flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Histórico de revisões
+      </h4>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {revisions === null ? (
+        <p className="text-sm theme-text-muted">Carregando histórico...</p>
+      ) : revisions.length === 0 ? (
+        !error && <p className="text-sm theme-text-muted">Nenhuma revisão registrada no servidor para este modelo.</p>
+      ) : (
+        <ul className="divide-y theme-border-input border theme-border-input rounded-lg">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div className="min-w-0">
+                <p className="theme-text-primary">
+                  {REVISION_OPERATION_LABELS[revision.operation]}
+                  {index === 0 && <span className="ml-2 text-xs theme-text-muted">(mais recente)</span>}
+                </p>
+                <p className="text-xs theme-text-muted truncate">
+                  {revision.userEmail || 'Usuário removido'} · {formatDate(revision.createdAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleCompare(revision)}
+                disabled={busyId !== null}
+                className="px-3 py-1 text-xs rounded border theme-border-input theme-text-primary hover-slate-600 disabled:opacity-50"
+                aria-label={`Comparar revisão de ${formatDate(revision.createdAt)}`}
+              >
+                {busyId === revision.id ? 'Aguarde...' : 'Comparar'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compare && (
+        <VersionCompareModal
+          oldContent={compare.diff.from?.content || ''}
+          newContent={compare.diff.to.content}
+          timestamp={Date.parse(compare.revision.createdAt) || Date.now()}
+          onRestore={handleRestore}
+          onClose={() => setCompare(null)}
+        />
+      )}
+    </div>
+  );
+});
+
+ModelHistoryPanel.displayName = 'ModelHistoryPanel';
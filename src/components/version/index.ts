@@ -9,3 +9,6 @@ export type { VersionCompareModalProps } from './VersionCompareModal';
 
 export { VersionSelect } from './VersionSelect';
 export type { VersionSelectProps } from './VersionSelect';
+
+export { ModelHistoryPanel } from './ModelHistoryPanel';
+export type { ModelHistoryPanelProps } from './ModelHistoryPanel';
@@ -2,6 +2,136 @@
 // Extraído do App.jsx para melhor organização
 
 export const CHANGELOG = [
+  {
+    version: '1.53.54',
+    date: '2026-10-19',
+    feature: 'fix(ia): LLM local chamado direto do navegador — o repasse pelo servidor vira opção para instalações self-hosted',
+  },
+  {
+    version: '1.53.53',
+    date: '2026-10-19',
+    feature: 'feat(analisador): antecedentes da reclamada — processos anteriores (resultado e tese de defesa) e provas orais, com busca aproximada por nome/CNPJ',
+  },
+  {
+    version: '1.53.52',
+    date: '2026-10-19',
+    feature: 'feat(analisador): estatísticas da vara — temas mais frequentes, taxa de acordo por reclamada, valor médio por rito e reclamadas recorrentes, por período',
+  },
+  {
+    version: '1.53.51',
+    date: '2026-10-19',
+    feature: 'feat(analisador): fila de lote no servidor (SQLite) com retry/backoff — o lote continua com a aba fechada',
+  },
+  {
+    version: '1.53.50',
+    date: '2026-10-19',
+    feature: 'feat(analisador): calendário da pauta (semana/mês) com remarcação por arrastar, impressão do dia e exportação .ics',
+  },
+  {
+    version: '1.53.49',
+    date: '2026-10-19',
+    feature: 'feat(sentença): importar tópicos, partes e rascunho do relatório de uma análise salva do Analisador de Prepauta',
+  },
+  {
+    version: '1.53.48',
+    date: '2026-10-19',
+    feature: 'feat(noticias): notícias da mesma história agrupadas em um card com todas as fontes e resumo IA único',
+  },
+  {
+    version: '1.53.47',
+    date: '2026-10-19',
+    feature: 'feat(financeiro): orçamentos mensais por categoria e por titular com barras de progresso, projeção de fim de mês (parcelas e recorrentes) e alertas em 80%/100%',
+  },
+  {
+    version: '1.53.46',
+    date: '2026-10-19',
+    feature: 'feat(financeiro): importadores de OFX/QFX, Nubank, Itaú, Bradesco, BB e Santander (CSV e PDF) com detecção automática do banco pelo conteúdo do arquivo',
+  },
+  {
+    version: '1.53.45',
+    date: '2026-10-19',
+    feature: 'feat(admin): trilha de auditoria append-only (logins, magic links, compartilhamentos, allowlist, exclusões em lote) com aba no AdminPanel e exportação CSV',
+  },
+  {
+    version: '1.53.44',
+    date: '2026-10-19',
+    feature: 'feat(modelos): histórico de revisões no servidor (quem, quando, diff) com restauração pelo preview do modelo',
+  },
+  {
+    version: '1.53.43',
+    date: '2026-10-19',
+    feature: 'feat(gabinete): gabinetes com papéis (juiz, assessor, estagiário) — modelos, pacotes de conhecimento e análises pertencem ao gabinete; convites por email, acervo pessoal movido em um clique e aprovação de modelos pelo juiz',
+  },
+  {
+    version: '1.53.42',
+    date: '2026-10-19',
+    feature: 'feat(admin): ledger de uso de IA no servidor (tokens e custo por usuário, app e operação), relatório mensal e orçamentos com alerta e bloqueio no AdminPanel',
+  },
+  {
+    version: '1.53.41',
+    date: '2026-10-19',
+    feature: 'feat(sync): sessões de trabalho (tópicos, provas, análises, histórico de versões) sincronizadas entre dispositivos com encriptação ponta a ponta por frase-senha e controle de conflito por versão',
+  },
+  {
+    version: '1.53.40',
+    date: '2026-10-19',
+    feature: 'feat(anonimização): NER local detecta pessoas e empresas antes de cada envio à IA, com revisão (aprovar/rejeitar) na janela de nomes',
+  },
+  {
+    version: '1.53.39',
+    date: '2026-10-19',
+    feature: 'feat(anonimização): pseudônimos numerados por processo ([RECLAMANTE_1], [CPF_2]) em cofre local, re-identificados ao inserir a resposta da IA no editor',
+  },
+  {
+    version: '1.53.38',
+    date: '2026-10-19',
+    feature: 'feat(ia): provider LLM local OpenAI-compatível (Ollama/llama.cpp/vLLM) com listagem de modelos e streaming',
+  },
+  {
+    version: '1.53.37',
+    date: '2026-10-19',
+    feature: 'feat(legislação): redações datadas por artigo — "vigente em dd/mm/aaaa" na aba Legislação, histórico de redações e contexto da IA com a redação vigente no período do contrato',
+  },
+  {
+    version: '1.53.36',
+    date: '2026-10-19',
+    feature: 'feat(editor): verificador de citações na fundamentação — súmulas, OJs, temas e artigos vinculados às bases locais com texto no hover e alerta de citações canceladas/superadas ou inexistentes antes da assinatura',
+  },
+  {
+    version: '1.53.35',
+    date: '2026-10-19',
+    feature: 'feat(pesquisa): índice textual BM25 offline (frases, citações exatas e operadores) com ranking híbrido junto aos embeddings em legislação e jurisprudência',
+  },
+  {
+    version: '1.53.34',
+    date: '2026-10-19',
+    feature: 'feat(analisador): cálculo determinístico da prescrição bienal e quinquenal (com projeção do aviso prévio) e alertas nos pedidos prescritos',
+  },
+  {
+    version: '1.53.33',
+    date: '2026-10-19',
+    feature: 'feat(liquidação): motor de estimativa (horas extras e reflexos, férias + 1/3, 13º, aviso prévio proporcional, FGTS + 40%, multas 467/477) com IPCA-E/SELIC da ADC 58; planilha anexada ao dispositivo',
+  },
+  {
+    version: '1.53.32',
+    date: '2026-10-19',
+    feature: 'feat(rastreabilidade): trechos verificados guardam offset e folha da peça; "Ver no PDF" abre visualizador embutido na folha com o trecho destacado',
+  },
+  {
+    version: '1.53.31',
+    date: '2026-10-19',
+    feature: 'feat(upload): índice de documentos do PJe — divide o PDF dos autos por ID do rodapé, identifica o tipo da peça, signatário e folhas, e copia a citação "Id. X, fl. Y"',
+  },
+  {
+    version: '1.53.30',
+    date: '2026-10-19',
+    feature: 'feat(exportação): sentença em PDF/A-1b pronta para o PJe — fontes embutidas, perfil sRGB, XMP, cabeçalho com número CNJ e partes, paginação e espaço reservado para assinatura',
+  },
+  {
+    version: '1.53.29',
+    date: '2026-10-19',
+    feature: 'feat(exportação): sentença em .docx nativo com timbres configuráveis. O ExportModal ganhou o botão "Baixar .docx" ao lado do "Copiar com Formatação": o arquivo é montado no navegador (OOXML + zip STORE próprio em utils/zip.ts, sem biblioteca via CDN) a partir dos mesmos blocos da exportação por clipboard — buildDecisionSections (utils/decisionSections.ts) virou fonte única de ordem/conteúdo para os dois formatos. htmlToDocxParagraphs converte o HTML do Quill preservando títulos, parágrafos justificados, alinhamentos ql-align-*, recuos ql-indent-*, listas (inclusive data-list do Quill 2, com numeração reiniciada por lista), citações e negrito/itálico/sublinhado/tachado. Timbres (LetterheadTemplate: cabeçalho, vara, magistrado/cargo, cidade para a linha de local e data, rodapé e "Página X de Y") ficam no localStorage via useLetterheadTemplates e são editáveis no próprio modal. A4 com margens ABNT, Times New Roman 12pt, espaçamento 1,5.',
+  },
   {
     version: '1.53.28',
     date: '2026-06-12',
@@ -0,0 +1,40 @@
+/**
+ * @file letterhead.ts
+ * @description Timbres padrão para exportação da sentença em .docx
+ * @version 1.53.29
+ */
+
+import type { LetterheadTemplate } from '../types';
+
+/** Chave do localStorage com os timbres do usuário */
+export const LETTERHEAD_STORAGE_KEY = 'sentencify-letterhead-templates';
+
+/** Chave do localStorage com o id do timbre selecionado */
+export const LETTERHEAD_ACTIVE_KEY = 'sentencify-letterhead-active';
+
+export const DEFAULT_LETTERHEAD_TEMPLATES: LetterheadTemplate[] = [
+  {
+    id: 'padrao-jt',
+    name: 'Justiça do Trabalho (padrão)',
+    headerText: 'PODER JUDICIÁRIO\nJUSTIÇA DO TRABALHO',
+    varaName: '',
+    judgeName: '',
+    judgeTitle: 'Juiz(a) do Trabalho',
+    city: '',
+    footerText: '',
+    showPageNumbers: true,
+  },
+  {
+    id: 'sem-timbre',
+    name: 'Sem timbre',
+    headerText: '',
+    varaName: '',
+    judgeName: '',
+    judgeTitle: '',
+    city: '',
+    footerText: '',
+    showPageNumbers: false,
+  },
+];
+
+export const DEFAULT_LETTERHEAD_ID = DEFAULT_LETTERHEAD_TEMPLATES[0].id;
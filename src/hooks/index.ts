@@ -85,7 +85,8 @@ export {
   saveArtigosToIndexedDB,
   loadArtigosFromIndexedDB,
   clearArtigosFromIndexedDB,
-  sortArtigosNatural
+  sortArtigosNatural,
+  loadLegislacaoChatContext
 } from './useLegislacao';
 export type { UseLegislacaoReturn } from './useLegislacao';
 
@@ -94,6 +95,7 @@ export {
   useJurisprudencia,
   IRR_TYPES,
   isIRRType,
+  matchesFiltrosJuris,
   JURIS_TIPOS_DISPONIVEIS,
   JURIS_TRIBUNAIS_DISPONIVEIS,
   savePrecedentesToIndexedDB,
@@ -341,6 +343,14 @@ export type {
   UseDecisionExportReturn
 } from './useDecisionExport';
 
+// Letterhead templates hook (TIER 0 - timbres da exportação .docx, localStorage)
+export { useLetterheadTemplates } from './useLetterheadTemplates';
+export type { UseLetterheadTemplatesReturn } from './useLetterheadTemplates';
+
+// Citation catalog hook (TIER 1 - jurisprudência + legislação do IndexedDB para o verificador de citações)
+export { useCitationCatalog } from './useCitationCatalog';
+export type { UseCitationCatalogReturn } from './useCitationCatalog';
+
 // Slash Menu hook (TIER 0 - gerencia estado interno do slash menu)
 export { useSlashMenu } from './useSlashMenu';
 export type {
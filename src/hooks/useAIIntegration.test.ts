@@ -1095,6 +1095,24 @@ describe('useAIIntegration', () => {
       expect((fetchCall[1] as any).headers['x-api-key']).toBe('sk-test-claude');
     });
 
+    it('should tag the call with X-AI-Operation only when operation is given', async () => {
+      const mockResponse = createMockResponse({
+        content: [{ type: 'text', text: 'test' }],
+        usage: { input_tokens: 10, output_tokens: 5 }
+      });
+      vi.mocked(global.fetch).mockResolvedValue(mockResponse as any);
+
+      const { result } = renderHook(() => useAIIntegration());
+      await act(async () => {
+        await result.current.callAI([{ role: 'user', content: 'Hi' }] as any, { operation: 'dispositivo' });
+        await result.current.callAI([{ role: 'user', content: 'Hi' }] as any);
+      });
+
+      const [first, second] = vi.mocked(global.fetch).mock.calls;
+      expect((first[1] as any).headers['X-AI-Operation']).toBe('dispositivo');
+      expect((second[1] as any).headers['X-AI-Operation']).toBeUndefined();
+    });
+
     it('should throw on non-ok HTTP response', async () => {
       const mockResponse = createMockResponse(
         { error: { message: 'Bad request' } },
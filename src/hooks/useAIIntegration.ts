@@ -16,7 +16,11 @@ import { getCodexCliBridgeUrl, CODEX_CLI_MESSAGES_PATH } from '../utils/codex-cl
 import { withRetry } from '../utils/retry';
 import { serializeForManual, normalizeManualResponse } from '../utils/manualCall';
 import { useManualCallStore } from '../stores/useManualCallStore';
+import { maskMessagesForAI } from '../stores/usePseudonymVaultStore';
 import { rasterizePdfDocumentBlocks } from '../utils/pdfRasterize';
+import { callLocalLlm, streamLocalLlm, localLlmResponseText } from '../utils/local-llm';
+import { fetchAIProxy } from '../utils/aiBudget';
+import type { LocalLlmResult } from '../utils/local-llm';
 // v1.42.02: Registry provider-agnostic para habilitar web search
 import { applyWebSearchTool, extractGrounding, withWebSearchHint } from '../utils/ai-tools/webSearch';
 import type {
@@ -34,6 +38,10 @@ import type {
 } from '../types';
 import { extractJSON, parseAIResponse, DoubleCheckResponseSchema } from '../schemas/ai-responses';
 
+/** v1.53.42: operação da chamada no ledger de uso de IA do servidor (AdminPanel) */
+const usageHeaders = (operation?: string): Record<string, string> =>
+  operation ? { 'X-AI-Operation': operation } : {};
+
 /** Tipo para resultado parseado do Double Check (campos verificados variam por operação) */
 interface DoubleCheckParsedResult {
   verifiedTopics?: unknown;
@@ -464,7 +472,7 @@ const useAIIntegration = () => {
           : `${API_BASE}/api/claude/messages`;
         const claudeHeaders = localBridge
           ? { 'Content-Type': 'application/json' }
-          : { ...getApiHeaders(), 'x-api-key': aiSettings.apiKeys?.claude || '' };
+          : { ...getApiHeaders(), ...usageHeaders(options.operation), 'x-api-key': aiSettings.apiKeys?.claude || '' };
 
         // Quando web search está ativo no provider local (claude-cli),
         // injeta hint no system prompt forçando citação em [título](url) —
@@ -490,7 +498,7 @@ const useAIIntegration = () => {
         if (localBridge && webSearch) {
           (requestBody as Record<string, unknown>).web_search = true;
         }
-        const response = await fetch(claudeUrl, {
+        const response = await fetchAIProxy(claudeUrl, {
           method: 'POST',
           headers: claudeHeaders,
           body: JSON.stringify(requestBody),
@@ -996,9 +1004,9 @@ const useAIIntegration = () => {
         });
 
         // Fazer requisicao via proxy local
-        const response = await fetch(`${API_BASE}/api/gemini/generate`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/gemini/generate`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys?.gemini || '' },
+          headers: { 'Content-Type': 'application/json', ...usageHeaders(options.operation), 'x-api-key': aiSettings.apiKeys?.gemini || '' },
           body: JSON.stringify({
             model,
             request: finalRequest
@@ -1176,9 +1184,9 @@ const useAIIntegration = () => {
           : `${API_BASE}/api/openai/chat`;
         const headers: Record<string, string> = localBridge
           ? { 'Content-Type': 'application/json' }
-          : { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys?.openai || '' };
+          : { 'Content-Type': 'application/json', ...usageHeaders(options.operation), 'x-api-key': aiSettings.apiKeys?.openai || '' };
 
-        const response = await fetch(url, {
+        const response = await fetchAIProxy(url, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
@@ -1286,10 +1294,11 @@ const useAIIntegration = () => {
           max_tokens: maxTokens
         };
 
-        const response = await fetch(`${API_BASE}/api/grok/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/grok/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...usageHeaders(options.operation),
             'x-api-key': aiSettings.apiKeys?.grok || ''
           },
           body: JSON.stringify(requestBody),
@@ -1420,10 +1429,11 @@ const useAIIntegration = () => {
           requestBody.response_format = { type: 'json_object' };
         }
 
-        const response = await fetch(`${API_BASE}/api/deepseek/chat`, {
+        const response = await fetchAIProxy(`${API_BASE}/api/deepseek/chat`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...usageHeaders(options.operation),
             'x-api-key': aiSettings.apiKeys?.deepseek || ''
           },
           body: JSON.stringify(requestBody),
@@ -1479,10 +1489,69 @@ const useAIIntegration = () => {
     });
   }, [aiSettings, convertToOpenAIFormat, extractTokenMetrics, extractResponseText, addTokenUsage, getAiInstructions]);
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // v1.53.38: LOCAL (OpenAI-compatível) — Ollama, llama.cpp server, vLLM
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** Registra o uso do endpoint local (sem custo; entra nas métricas por modelo) */
+  const logLocalLlmUsage = React.useCallback((result: LocalLlmResult, model: string) => {
+    if (!result.usage) return;
+    addTokenUsage({
+      input: result.usage.prompt_tokens || 0,
+      output: result.usage.completion_tokens || 0,
+      model,
+      provider: 'local-llm'
+    });
+  }, [addTokenUsage]);
+
+  /**
+   * Chamada ao endpoint local via proxy /api/local-llm. Text-only: PDFs binários
+   * viram placeholder (a UI bloqueia o modo PDF Puro para este provider).
+   */
+  const callLocalLlmAPI = React.useCallback(async (messages: AIMessage[], options: AICallOptions = {}) => {
+    const {
+      maxTokens = 8000,
+      systemPrompt = null,
+      model = aiSettings.localLlmModel || '',
+      abortSignal = null,
+      logMetrics = true,
+      temperature = null
+    } = options;
+
+    try {
+      const result = await callLocalLlm({
+        apiBase: API_BASE,
+        baseUrl: aiSettings.localLlmBaseUrl,
+        viaServer: aiSettings.localLlmViaServer,
+        apiKey: aiSettings.apiKeys?.['local-llm'],
+        model: model || '',
+        messages,
+        systemPrompt: resolveSystemPromptText(systemPrompt, options),
+        maxTokens,
+        temperature,
+        signal: abortSignal
+      });
+      if (logMetrics) logLocalLlmUsage(result, model || '');
+      if (aiSettings.logThinking && result.reasoning) {
+        console.group('[LocalLLM] Thinking');
+        console.log(result.reasoning);
+        console.groupEnd();
+      }
+      return localLlmResponseText(result);
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        throw new Error('Operação cancelada pelo usuário');
+      }
+      throw err;
+    }
+  }, [aiSettings, logLocalLlmUsage, getAiInstructions]);
+
   // Função unificada que escolhe Claude, Gemini, OpenAI ou Grok baseado no provider
   // v1.37.90: Permite override do provider via options para casos específicos (ex: voice improvement)
   const callAI = React.useCallback(async (messages: AIMessage[], options: AICallOptions = {}) => {
     const provider = options.provider || aiSettings.provider || 'claude';
+    // v1.53.39: dados re-identificados no editor voltam à IA como pseudônimos
+    messages = maskMessagesForAI(messages, aiSettings.anonymization);
 
     // Modo Sem Provider: serializa o prompt e aguarda o usuário colar a resposta
     if (provider === 'manual') {
@@ -1522,6 +1591,14 @@ const useAIIntegration = () => {
       });
     }
 
+    // v1.53.38: endpoint OpenAI-compatível local (Ollama/llama.cpp/vLLM)
+    if (provider === 'local-llm') {
+      return await callLocalLlmAPI(messages, {
+        ...options,
+        model: options.model || aiSettings.localLlmModel || ''
+      });
+    }
+
     // Provider local: roteia para o daemon llm-bridge (assinatura, custo $0)
     if (provider === 'claude-cli') {
       return await callLLM(messages, {
@@ -1545,7 +1622,7 @@ const useAIIntegration = () => {
       ...options,
       model: options.model || aiSettings.claudeModel || 'claude-sonnet-4-20250514'
     });
-  }, [aiSettings, callLLM, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI, getAiInstructions]);
+  }, [aiSettings, callLLM, callGeminiAPI, callOpenAIAPI, callGrokAPI, callDeepseekAPI, callLocalLlmAPI, getAiInstructions]);
 
   // ========================================
   // END MULTI-PROVIDER SUPPORT
@@ -1629,10 +1706,11 @@ const useAIIntegration = () => {
       };
     }
 
-    const response = await fetch(`${API_BASE}/api/claude/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/claude/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...usageHeaders(options.operation),
         'x-api-key': aiSettings.apiKeys?.claude || ''
       },
       body: JSON.stringify(requestBody)
@@ -1724,10 +1802,11 @@ const useAIIntegration = () => {
       requestBody.reasoning_effort = reasoningLevel;
     }
 
-    const response = await fetch(`${API_BASE}/api/openai/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/openai/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...usageHeaders(options.operation),
         'x-api-key': aiSettings.apiKeys?.openai || ''
       },
       body: JSON.stringify(requestBody)
@@ -1805,10 +1884,11 @@ const useAIIntegration = () => {
 
     const grokMessages = convertToOpenAIFormat(messages, finalSystemPrompt);
 
-    const response = await fetch(`${API_BASE}/api/grok/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/grok/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...usageHeaders(options.operation),
         'x-api-key': aiSettings.apiKeys?.grok || ''
       },
       body: JSON.stringify({
@@ -1917,10 +1997,11 @@ const useAIIntegration = () => {
       streamBody.response_format = { type: 'json_object' };
     }
 
-    const response = await fetch(`${API_BASE}/api/deepseek/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/deepseek/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...usageHeaders(options.operation),
         'x-api-key': aiSettings.apiKeys?.deepseek || ''
       },
       body: JSON.stringify(streamBody)
@@ -2010,6 +2091,45 @@ const useAIIntegration = () => {
     return fullText.trim();
   }, [aiSettings, addTokenUsage, convertToOpenAIFormat, getAiInstructions]);
 
+  /**
+   * Chamada ao endpoint local com streaming (v1.53.38)
+   * O proxy mantém o SSE vivo com ping enquanto o modelo (às vezes em CPU) não emite tokens.
+   */
+  const callLocalLlmAPIStream = React.useCallback(async (
+    messages: AIMessage[],
+    options: AIStreamOptions = {}
+  ): Promise<string> => {
+    const {
+      maxTokens = 8000,
+      systemPrompt = null,
+      model = aiSettings.localLlmModel || '',
+      abortSignal = null,
+      temperature = null,
+      onChunk
+    } = options;
+
+    const result = await streamLocalLlm({
+      apiBase: API_BASE,
+      baseUrl: aiSettings.localLlmBaseUrl,
+      viaServer: aiSettings.localLlmViaServer,
+      apiKey: aiSettings.apiKeys?.['local-llm'],
+      model: model || '',
+      messages,
+      systemPrompt: resolveSystemPromptText(systemPrompt, options),
+      maxTokens,
+      temperature,
+      signal: abortSignal
+    }, onChunk);
+
+    logLocalLlmUsage(result, model || '');
+    if (aiSettings.logThinking && result.reasoning) {
+      console.group('[LocalLLM] Thinking');
+      console.log(result.reasoning);
+      console.groupEnd();
+    }
+    return localLlmResponseText(result);
+  }, [aiSettings, logLocalLlmUsage, getAiInstructions]);
+
   /**
    * Chamada Gemini com streaming
    */
@@ -2060,9 +2180,9 @@ const useAIIntegration = () => {
       anonymizationEnabled: !!aiSettings?.anonymization?.enabled,
     });
 
-    const response = await fetch(`${API_BASE}/api/gemini/stream`, {
+    const response = await fetchAIProxy(`${API_BASE}/api/gemini/stream`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json', 'x-api-key': aiSettings.apiKeys?.gemini || '' },
+      headers: { 'Content-Type': 'application/json', ...usageHeaders(options.operation), 'x-api-key': aiSettings.apiKeys?.gemini || '' },
       body: JSON.stringify({
         model,
         request: finalRequest
@@ -2145,6 +2265,7 @@ const useAIIntegration = () => {
     options: AIStreamOptions = {}
   ): Promise<string> => {
     const provider = options.provider || aiSettings.provider || 'claude';
+    messages = maskMessagesForAI(messages, aiSettings.anonymization);
 
     switch (provider) {
       case 'claude':
@@ -2157,6 +2278,8 @@ const useAIIntegration = () => {
         return callGrokAPIStream(messages, options);
       case 'deepseek':
         return callDeepseekAPIStream(messages, options);
+      case 'local-llm':
+        return callLocalLlmAPIStream(messages, options);
       case 'claude-cli':
         // v1 sem streaming: cai para o caminho não-stream via bridge local
         return callLLM(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6' });
@@ -2170,7 +2293,7 @@ const useAIIntegration = () => {
       default:
         return callClaudeAPIStream(messages, options);
     }
-  }, [aiSettings.provider, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLLM, callOpenAIAPI, getAiInstructions]);
+  }, [aiSettings.provider, aiSettings.anonymization, aiSettings.claudeCliModel, aiSettings.codexCliModel, callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLocalLlmAPIStream, callLLM, callOpenAIAPI, getAiInstructions]);
 
   /**
    * Chama a API com streaming para provider/modelo específico (para double check)
@@ -2187,12 +2310,12 @@ const useAIIntegration = () => {
     const hasPdfBinary = content.some(c =>
       typeof c === 'object' && c !== null && 'type' in c && c.type === 'document'
     );
-    const providerSupportsPdf = provider !== 'grok';  // Grok não suporta PDF binário
+    const providerSupportsPdf = provider !== 'grok' && provider !== 'local-llm';  // Grok e endpoint local não suportam PDF binário
 
     let finalContent: AIMessageContent[];
     if (hasPdfBinary && !providerSupportsPdf) {
-      // Grok: filtrar PDFs binários (não suportados) - usar apenas texto
-      console.warn('[DoubleCheck] Grok não suporta PDF binário, usando apenas texto');
+      // Grok/local: filtrar PDFs binários (não suportados) - usar apenas texto
+      console.warn(`[DoubleCheck] ${provider} não suporta PDF binário, usando apenas texto`);
       finalContent = content.filter(c =>
         !(typeof c === 'object' && c !== null && 'type' in c && c.type === 'document')
       );
@@ -2200,13 +2323,14 @@ const useAIIntegration = () => {
       finalContent = content;
     }
 
-    const messages: AIMessage[] = [
+    const messages: AIMessage[] = maskMessagesForAI([
       { role: 'user', content: finalContent }
-    ];
+    ], aiSettings.anonymization);
 
     // v1.36.56: Construir opções com thinking config do Double Check
     const dcSettings = aiSettings.doubleCheck;
     const options: AIStreamOptions = {
+      operation: 'double-check',
       maxTokens,
       model,
       geminiThinkingLevel: dcSettings?.geminiThinkingLevel,
@@ -2237,6 +2361,9 @@ const useAIIntegration = () => {
     if (provider === 'deepseek') {
       return await callDeepseekAPIStream(messages, options);
     }
+    if (provider === 'local-llm') {
+      return await callLocalLlmAPIStream(messages, options);
+    }
     if (provider === 'claude-cli') {
       // v1.53.28: effort independente do Double Check (default próprio 'high', não herda o global)
       return await callLLM(messages, { ...options, localBridge: true, model: options.model || aiSettings.claudeCliModel || 'claude-sonnet-4-6', claudeCliEffort: dcSettings?.claudeCliEffort || 'high' });
@@ -2247,7 +2374,7 @@ const useAIIntegration = () => {
     }
     // Default: Claude
     return await callClaudeAPIStream(messages, options);
-  }, [callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLLM, callOpenAIAPI, aiSettings.doubleCheck, aiSettings.claudeCliModel, aiSettings.codexCliModel]);
+  }, [callClaudeAPIStream, callGeminiAPIStream, callOpenAIAPIStream, callGrokAPIStream, callDeepseekAPIStream, callLocalLlmAPIStream, callLLM, callOpenAIAPI, aiSettings.doubleCheck, aiSettings.anonymization, aiSettings.claudeCliModel, aiSettings.codexCliModel]);
 
   /**
    * Executa o double check em uma resposta da IA
@@ -290,6 +290,7 @@ export function useChatAssistant(
       // v1.32.26: maxTokens aumentado para 16000 (respostas longas no chat)
       // v1.42.02: webSearch e onGrounding repassados ao provider (só Gemini aplica no v1)
       const response = await aiIntegration.callAI(apiMessages, {
+        operation: 'chat',
         maxTokens: 16000,
         useInstructions: true,
         logMetrics: true,
@@ -0,0 +1,44 @@
+/**
+ * @file useCitationCatalog.ts
+ * @description Hook que carrega jurisprudência e legislação do IndexedDB e monta
+ * o catálogo de citações (utils/citationLinker) para verificar a fundamentação
+ * @tier 1 (dependências: IndexedDB de jurisprudência e legislação)
+ * @version 1.53.36
+ * @usedBy CitationCheckPanel, ExportModal
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { loadPrecedentesFromIndexedDB } from './useJurisprudencia';
+import { loadArtigosFromIndexedDB } from './useLegislacao';
+import { buildCitationCatalog } from '../utils/citationLinker';
+import type { CitationCatalog } from '../types';
+
+export interface UseCitationCatalogReturn {
+  /** null enquanto as bases carregam */
+  catalog: CitationCatalog | null;
+  /** Recarrega as bases (após importar/baixar jurisprudência ou legislação) */
+  reload: () => void;
+}
+
+/**
+ * @param enabled - Só lê o IndexedDB quando true (ex: modal aberto)
+ */
+export function useCitationCatalog(enabled = true): UseCitationCatalogReturn {
+  const [catalog, setCatalog] = useState<CitationCatalog | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    Promise.all([loadPrecedentesFromIndexedDB(), loadArtigosFromIndexedDB()])
+      .then(([precedentes, artigos]) => {
+        if (!cancelled) setCatalog(buildCitationCatalog(precedentes, artigos));
+      })
+      .catch(err => console.warn('[Citações] Falha ao carregar bases:', err));
+    return () => { cancelled = true; };
+  }, [enabled, version]);
+
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  return { catalog, reload };
+}
@@ -9,6 +9,16 @@ import { renderHook, act } from '@testing-library/react';
 import { useDecisionExport } from './useDecisionExport';
 import type { Topic, TopicCategory } from '../types';
 
+// Fontes do PDF/A vêm de public/fonts — no teste usamos uma família fictícia
+vi.mock('../utils/pdfFont', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/pdfFont')>();
+  const font = {
+    name: 'Fake', data: new Uint8Array([0, 1, 0, 0]), widths: Array(224).fill(500),
+    ascent: 800, descent: -200, capHeight: 700, italicAngle: 0, bbox: [0, -200, 1000, 800], flags: 32
+  };
+  return { ...actual, loadPdfFonts: vi.fn(async () => ({ regular: font, bold: font, italic: font, boldItalic: font })) };
+});
+
 // Mock clipboard API - declare at module level
 let mockClipboardWrite: ReturnType<typeof vi.fn>;
 let mockClipboardWriteText: ReturnType<typeof vi.fn>;
@@ -435,6 +445,110 @@ describe('useDecisionExport', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DOCX EXPORT TESTS (v1.53.29)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('exportDecisionDocx', () => {
+    const template = {
+      id: 't', name: 'T', headerText: 'PODER JUDICIÁRIO', varaName: '', judgeName: '',
+      judgeTitle: '', city: '', footerText: '', showPageNumbers: true
+    };
+
+    it('should set error when no topics selected', () => {
+      const { result } = renderHook(() => useDecisionExport(createDefaultProps([])));
+
+      act(() => result.current.exportDecisionDocx(template));
+
+      expect(mockSetError).toHaveBeenCalledWith('Nenhum tópico selecionado para exportar');
+    });
+
+    it('should download a .docx named after the process number', () => {
+      const createObjectURL = vi.fn().mockReturnValue('blob:docx');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      const topics = [createMockTopic({ title: 'RELATÓRIO', editedRelatorio: '<p>Relatório</p>' })];
+      const { result } = renderHook(() =>
+        useDecisionExport({ ...createDefaultProps(topics), processoNumero: '0001234-56.2025.5.15.0001' })
+      );
+
+      act(() => result.current.exportDecisionDocx(template));
+
+      expect(global.Blob).toHaveBeenCalledWith(
+        [expect.any(Uint8Array)],
+        { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }
+      );
+      expect(clickSpy).toHaveBeenCalled();
+      const anchor = clickSpy.mock.contexts[0] as HTMLAnchorElement;
+      expect(anchor.download).toBe('sentenca-0001234-56.2025.5.15.0001.docx');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:docx');
+      expect(mockSetError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportDecisionPdf', () => {
+    const template = {
+      id: 't', name: 'T', headerText: 'PODER JUDICIÁRIO', varaName: '', judgeName: '',
+      judgeTitle: '', city: '', footerText: '', showPageNumbers: true
+    };
+
+    it('should set error when no topics selected', async () => {
+      const { result } = renderHook(() => useDecisionExport(createDefaultProps([])));
+
+      await act(() => result.current.exportDecisionPdf(template));
+
+      expect(mockSetError).toHaveBeenCalledWith('Nenhum tópico selecionado para exportar');
+    });
+
+    it('should report font loading failures', async () => {
+      const { loadPdfFonts } = await import('../utils/pdfFont');
+      vi.mocked(loadPdfFonts).mockRejectedValueOnce(new Error('Falha ao baixar fonte (404)'));
+
+      const topics = [createMockTopic({ title: 'RELATÓRIO', editedRelatorio: '<p>Relatório</p>' })];
+      const { result } = renderHook(() => useDecisionExport(createDefaultProps(topics)));
+
+      await act(() => result.current.exportDecisionPdf(template));
+
+      expect(mockSetError).toHaveBeenCalledWith('Erro ao gerar PDF/A: Falha ao baixar fonte (404)');
+    });
+
+    it('should download a .pdf named after the process number', async () => {
+      vi.useRealTimers();
+      const createObjectURL = vi.fn().mockReturnValue('blob:pdf');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      const topics = [createMockTopic({ title: 'RELATÓRIO', editedRelatorio: '<p>Relatório</p>' })];
+      const { result } = renderHook(() =>
+        useDecisionExport({ ...createDefaultProps(topics), processoNumero: '0001234-56.2025.5.15.0001' })
+      );
+
+      await act(() => result.current.exportDecisionPdf(template));
+
+      expect(global.Blob).toHaveBeenCalledWith([expect.any(Uint8Array)], { type: 'application/pdf' });
+      const anchor = clickSpy.mock.contexts[0] as HTMLAnchorElement;
+      expect(anchor.download).toBe('sentenca-0001234-56.2025.5.15.0001.pdf');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:pdf');
+      expect(mockSetError).not.toHaveBeenCalled();
+    });
+
+    it('should warn about characters the font cannot render', async () => {
+      vi.useRealTimers();
+      Object.assign(URL, { createObjectURL: vi.fn().mockReturnValue('blob:pdf'), revokeObjectURL: vi.fn() });
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      const topics = [createMockTopic({ title: 'DISPOSITIVO', category: 'DISPOSITIVO' as TopicCategory, editedContent: '<p>Item ✓ deferido</p>' })];
+      const { result } = renderHook(() => useDecisionExport(createDefaultProps(topics)));
+
+      await act(() => result.current.exportDecisionPdf(template));
+
+      expect(mockSetError).toHaveBeenCalledWith(expect.stringContaining('um caractere sem equivalente na fonte saiu como "?": ✓'));
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // ERROR HANDLING TESTS
   // ═══════════════════════════════════════════════════════════════════════════
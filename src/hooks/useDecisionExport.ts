@@ -5,12 +5,18 @@
  *
  * Extraído do App.tsx para modularização.
  * Gerencia exportação da sentença para clipboard e modal.
+ * v1.53.29: exportação em .docx nativo com timbre configurável (exportDecisionDocx).
+ * v1.53.30: exportação em PDF/A-1b para juntada no PJe (exportDecisionPdf).
  */
 
 import React from 'react';
 import { EXPORT_STYLES } from '../constants/export-styles';
 import { cleanHtmlForExport, htmlToFormattedText } from '../utils/html-conversion';
-import type { Topic } from '../types';
+import { buildDecisionSections } from '../utils/decisionSections';
+import { buildDecisionDocx, getDocxFileName, DOCX_MIME_TYPE } from '../utils/docxExport';
+import { buildDecisionPdfA, getPdfFileName, PDF_MIME_TYPE } from '../utils/pdfaExport';
+import { loadPdfFonts } from '../utils/pdfFont';
+import type { LetterheadTemplate, PartesProcesso, Topic } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -24,10 +30,35 @@ export interface UseDecisionExportProps {
   setExportedHtml: (html: string) => void;
   setCopySuccess: (success: boolean) => void;
   copyTimeoutRef: React.MutableRefObject<ReturnType<typeof setTimeout> | null>;
+  /** Número do processo, usado no nome do arquivo e no cabeçalho do PDF */
+  processoNumero?: string;
+  /** Partes do processo, exibidas na abertura do PDF */
+  partesProcesso?: PartesProcesso;
 }
 
 export interface UseDecisionExportReturn {
   exportDecision: () => Promise<void>;
+  /** v1.53.29: Gera e baixa a sentença em .docx com o timbre informado */
+  exportDecisionDocx: (template: LetterheadTemplate) => void;
+  /** v1.53.30: Gera e baixa a sentença em PDF/A-1b (fontes servidas pelo próprio app) */
+  exportDecisionPdf: (template: LetterheadTemplate) => Promise<void>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Dispara o download de um arquivo binário gerado no navegador */
+function downloadBinary(data: Uint8Array, type: string, fileName: string): void {
+  const blob = new Blob([data as BlobPart], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -41,7 +72,9 @@ export function useDecisionExport({
   setExportedText,
   setExportedHtml,
   setCopySuccess,
-  copyTimeoutRef
+  copyTimeoutRef,
+  processoNumero,
+  partesProcesso
 }: UseDecisionExportProps): UseDecisionExportReturn {
 
   const exportDecision = React.useCallback(async () => {
@@ -118,56 +151,23 @@ export function useDecisionExport({
 <h1 style="${EXPORT_STYLES.h1}">SENTENÇA</h1>
 `;
 
-      selectedTopics.forEach((topic, index) => {
-        // Remover numeração romana do título
-        let topicTitle = topic.title.toUpperCase();
-        topicTitle = topicTitle.replace(/^I\s*[-–]\s*/i, '');
-        topicTitle = topicTitle.replace(/^II\s*[-–]\s*/i, '');
-        topicTitle = topicTitle.replace(/^III\s*[-–]\s*/i, '');
-        topicTitle = topicTitle.replace(/^IV\s*[-–]\s*/i, '');
-        topicTitle = topicTitle.replace(/^V\s*[-–]\s*/i, '');
+      buildDecisionSections(selectedTopics).forEach((section) => {
+        plainText += `\n${section.title}\n\n`;
 
-        plainText += `\n${topicTitle}\n\n`;
+        if (section.kind === 'heading') {
+          htmlText += `<h2 style="${EXPORT_STYLES.h2}">${section.title}</h2>`;
+          return;
+        }
 
         htmlText += `<div style="${EXPORT_STYLES.section}">`;
-        htmlText += `<h2 style="${EXPORT_STYLES.h2}">${topicTitle}</h2>`;
-
-        const isRelatorio = topic.title.toUpperCase() === 'RELATÓRIO';
-        const isDispositivo = topic.title.toUpperCase() === 'DISPOSITIVO';
-
-        if (isRelatorio) {
-          // RELATÓRIO: apenas editedRelatorio
-          const relatorioHtml = topic.editedRelatorio || topic.relatorio || '';
-          if (relatorioHtml) {
-            htmlText += cleanHtmlForExport(relatorioHtml);
-            plainText += htmlToFormattedText(relatorioHtml) + '\n\n';
-          }
-        } else if (isDispositivo) {
-          // DISPOSITIVO: apenas editedContent
-          if (topic.editedContent) {
-            htmlText += cleanHtmlForExport(topic.editedContent);
-            plainText += htmlToFormattedText(topic.editedContent) + '\n\n';
-          }
-        } else {
-          // Tópicos normais: mini-relatório + fundamentação
-          const relatorioHtml = topic.editedRelatorio || topic.relatorio || '';
-          if (relatorioHtml) {
-            htmlText += cleanHtmlForExport(relatorioHtml);
-            plainText += htmlToFormattedText(relatorioHtml) + '\n\n';
-          }
-          if (topic.editedFundamentacao) {
-            htmlText += cleanHtmlForExport(topic.editedFundamentacao);
-            plainText += htmlToFormattedText(topic.editedFundamentacao) + '\n\n';
-          }
-        }
+        htmlText += `<h2 style="${EXPORT_STYLES.h2}">${section.title}</h2>`;
 
-        htmlText += `</div>`;
+        section.htmlParts.forEach((html) => {
+          htmlText += cleanHtmlForExport(html);
+          plainText += htmlToFormattedText(html) + '\n\n';
+        });
 
-        // Adicionar "FUNDAMENTAÇÃO" após o primeiro tópico (RELATÓRIO)
-        if (index === 0) {
-          plainText += '\nFUNDAMENTAÇÃO\n\n';
-          htmlText += `<h2 style="${EXPORT_STYLES.h2}">FUNDAMENTAÇÃO</h2>`;
-        }
+        htmlText += `</div>`;
       });
 
       htmlText += `
@@ -209,7 +209,49 @@ export function useDecisionExport({
     }
   }, [selectedTopics, setError, openModal, setExportedText, setExportedHtml, setCopySuccess, copyTimeoutRef]);
 
+  const exportDecisionDocx = React.useCallback((template: LetterheadTemplate) => {
+    if (selectedTopics.length === 0) {
+      setError('Nenhum tópico selecionado para exportar');
+      return;
+    }
+
+    try {
+      const docx = buildDecisionDocx(selectedTopics, template);
+      downloadBinary(docx, DOCX_MIME_TYPE, getDocxFileName(processoNumero));
+    } catch (err) {
+      setError('Erro ao gerar arquivo .docx: ' + (err as Error).message);
+    }
+  }, [selectedTopics, setError, processoNumero]);
+
+  const exportDecisionPdf = React.useCallback(async (template: LetterheadTemplate) => {
+    if (selectedTopics.length === 0) {
+      setError('Nenhum tópico selecionado para exportar');
+      return;
+    }
+
+    try {
+      const fonts = await loadPdfFonts();
+      let unsupported: string[] = [];
+      const pdf = await buildDecisionPdfA(selectedTopics, {
+        template,
+        fonts,
+        processoNumero,
+        partes: partesProcesso,
+        onUnsupportedChars: (chars) => { unsupported = chars; }
+      });
+      downloadBinary(pdf, PDF_MIME_TYPE, getPdfFileName(processoNumero));
+      // v1.53.54: o PDF sai mesmo assim, mas quem exporta precisa saber o que virou "?"
+      if (unsupported.length > 0) {
+        setError(`PDF/A gerado, mas ${unsupported.length === 1 ? 'um caractere sem equivalente na fonte saiu' : `${unsupported.length} caracteres sem equivalente na fonte saíram`} como "?": ${unsupported.join(' ')} — revise o texto e exporte de novo.`);
+      }
+    } catch (err) {
+      setError('Erro ao gerar PDF/A: ' + (err as Error).message);
+    }
+  }, [selectedTopics, setError, processoNumero, partesProcesso]);
+
   return {
-    exportDecision
+    exportDecision,
+    exportDecisionDocx,
+    exportDecisionPdf
   };
 }
@@ -34,6 +34,8 @@ import { getCorrectionDescription } from '../utils/double-check-utils';
 import { sanitizeQuillHTML } from './useQuillEditor';
 import { useUIStore } from '../stores/useUIStore';
 import { buildChatContext } from '../utils/chat-context-builder';
+import { loadLegislacaoChatContext } from './useLegislacao';
+import { reidentifyForEditor } from '../stores/usePseudonymVaultStore';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // INTERFACES
@@ -68,6 +70,7 @@ export interface AIIntegrationForDecisionText {
     messages: Array<{ role: string; content: AIMessageContent[] | string }>,
     options?: {
       maxTokens?: number;
+      operation?: string;
       useInstructions?: boolean;
       /** v1.53.10: safety sem auto-revisão final (saída vai direto pro editor) */
       semRevisaoFinal?: boolean;
@@ -83,6 +86,7 @@ export interface AIIntegrationForDecisionText {
     messages: Array<{ role: string; content: AIMessageContent[] | string }>,
     options?: {
       maxTokens?: number;
+      operation?: string;
       useInstructions?: boolean;
       /** v1.53.10: safety sem auto-revisão final (saída vai direto pro editor) */
       semRevisaoFinal?: boolean;
@@ -376,6 +380,7 @@ Responda APENAS com o texto gerado em HTML, sem prefácio, sem explicações. Ge
         role: 'user',
         content: contentArray
       }], {
+        operation: 'texto-decisao',
         maxTokens: 4000,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -402,7 +407,7 @@ Responda APENAS com o texto gerado em HTML, sem prefácio, sem explicações. Ge
     if (!aiIntegration.aiGeneratedText || !editorRef.current || !editingTopic) return;
 
     const currentHtml = editorRef.current.root.innerHTML;
-    const normalizedAiText = normalizeHTMLSpacing(aiIntegration.aiGeneratedText);
+    const normalizedAiText = normalizeHTMLSpacing(reidentifyForEditor(aiIntegration.aiGeneratedText));
     let newHtml: string;
 
     switch (mode) {
@@ -451,6 +456,8 @@ Responda APENAS com o texto gerado em HTML, sem prefácio, sem explicações. Ge
       anonymizationEnabled: aiIntegration?.aiSettings?.anonymization?.enabled,
       anonymizationSettings: aiIntegration?.aiSettings?.anonymization as AnonymizationSettings | undefined,
       knowledgePackage: options.knowledgePackage,
+      // v1.53.37: redação dos artigos citados vigente no período do contrato
+      legislacao: await loadLegislacaoChatContext(),
     });
   }, [editingTopic, selectedTopics, topicContextScope, analyzedDocuments, proofManager, storage.fileToBase64, aiIntegration?.aiSettings?.anonymization, aiIntegration?.aiSettings?.customPrompt, editorRef]);
 
@@ -492,10 +499,12 @@ Responda APENAS com o texto gerado em HTML, sem prefácio, sem explicações. Ge
       anonymizationEnabled: aiIntegration?.aiSettings?.anonymization?.enabled,
       anonymizationSettings: aiIntegration?.aiSettings?.anonymization as AnonymizationSettings | undefined,
       inlineMode: true,
+      legislacao: await loadLegislacaoChatContext(),
     });
 
     // System prompt dedicado: sem auto-revisão final e sem o "raciocínio em voz alta"
     const baseOptions = {
+      operation: 'texto-decisao',
       maxTokens: 4000,
       useInstructions: false,
       systemPrompt: buildInlineGenerateSystemPrompt({
@@ -529,7 +538,7 @@ Responda APENAS com o texto gerado em HTML, sem prefácio, sem explicações. Ge
     if (!response || !editorRef.current || !editingTopic) return;
 
     const currentHtml = editorRef.current.root.innerHTML;
-    const normalizedAiText = normalizeHTMLSpacing(response);
+    const normalizedAiText = normalizeHTMLSpacing(reidentifyForEditor(response));
     let newHtml: string;
 
     switch (mode) {
@@ -718,6 +727,7 @@ Responda APENAS com o texto gerado, sem prefácio, sem explicações, sem markdo
         role: 'user',
         content: [{ type: 'text', text: prompt }]
       }], {
+        operation: 'texto-modelo',
         maxTokens: 4000,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -7,7 +7,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useDispositivoGeneration } from './useDispositivoGeneration';
-import type { Topic } from '../types';
+import { useLiquidacaoStore } from '../stores/useLiquidacaoStore';
+import type { LiquidacaoResultado, Topic } from '../types';
 
 // Mock useUIStore
 vi.mock('../stores/useUIStore', () => ({
@@ -509,4 +510,61 @@ describe('useDispositivoGeneration', () => {
       expect(options.topK).toBe(50);
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // LIQUIDAÇÃO TESTS (v1.53.33)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Liquidação', () => {
+    const liquidacao: LiquidacaoResultado = {
+      linhas: [{ verba: 'multa-477', descricao: 'Multa do art. 477, § 8º, da CLT', principal: 3000, correcao: 0, selic: 0, total: 3000 }],
+      totalPrincipal: 3000, totalCorrecao: 0, totalSelic: 0, total: 3000,
+      avisoPrevioDias: 0, dataCalculo: '2024-06-15', criterio: 'Critério ADC 58', avisos: [],
+    };
+
+    beforeEach(() => {
+      useLiquidacaoStore.getState().resetAll();
+      useLiquidacaoStore.getState().setResultado(liquidacao);
+    });
+
+    it('should append the liquidação after the AI text on generation', async () => {
+      const props = createMockProps();
+      const { result } = renderHook(() => useDispositivoGeneration(props));
+
+      await act(async () => {
+        await result.current.generateDispositivo();
+      });
+
+      const text = props.aiIntegration.setDispositivoText.mock.calls[0][0] as string;
+      expect(text.startsWith('<p>Dispositivo gerado</p>')).toBe(true);
+      expect(text).toContain('PLANILHA DE LIQUIDAÇÃO (ESTIMATIVA)');
+      // Valores não vão para o prompt
+      const prompt = JSON.stringify(props.aiIntegration.callAI.mock.calls[0][0]);
+      expect(prompt).not.toContain('PLANILHA DE LIQUIDAÇÃO');
+    });
+
+    it('should append the liquidação on regeneration', async () => {
+      const props = createMockProps();
+      const { result } = renderHook(() => useDispositivoGeneration(props));
+
+      await act(async () => {
+        await result.current.regenerateDispositivoWithInstruction();
+      });
+
+      const updated = props.setEditingTopic.mock.calls[0][0] as Topic;
+      expect(updated.editedContent).toContain('Multa do art. 477');
+    });
+
+    it('should not append when anexarAoDispositivo is off', async () => {
+      useLiquidacaoStore.getState().setAnexarAoDispositivo(false);
+      const props = createMockProps();
+      const { result } = renderHook(() => useDispositivoGeneration(props));
+
+      await act(async () => {
+        await result.current.generateDispositivo();
+      });
+
+      expect(props.aiIntegration.setDispositivoText).toHaveBeenCalledWith('<p>Dispositivo gerado</p>');
+    });
+  });
 });
@@ -4,6 +4,7 @@
  * Extraído do App.tsx v1.37.16 - FASE 11 refactoring
  *
  * v1.37.59: Integração com DoubleCheckReviewModal - abre modal para revisão de correções
+ * v1.53.33: Anexa a planilha de liquidação (useLiquidacaoStore) ao dispositivo gerado
  */
 
 import { useCallback, useRef, useEffect } from 'react';
@@ -11,6 +12,9 @@ import type { Topic, AIMessage, AICallOptions, AIMessageContent, DoubleCheckCorr
 import { buildDispositivoPromptText } from '../prompts';
 import { normalizeHTMLSpacing, isRelatorio } from '../utils/text';
 import { useUIStore } from '../stores/useUIStore';
+import { useLiquidacaoStore, selectLiquidacaoParaDispositivo } from '../stores/useLiquidacaoStore';
+import { formatLiquidacaoHtml } from '../utils/liquidacao';
+import { reidentifyForEditor } from '../stores/usePseudonymVaultStore';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -26,6 +30,7 @@ export interface AIIntegrationForDispositivo {
   // v1.39.09: Streaming para evitar timeout
   callAIStream?: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     /** v1.53.7: estilo sem proibição de enumerações (dispositivo é enumerado) */
     semFormatoNarrativo?: boolean;
@@ -134,6 +139,10 @@ export function useDispositivoGeneration({
   const doubleCheckResult = useUIStore(state => state.doubleCheckResult);
   const setDoubleCheckResult = useUIStore(state => state.setDoubleCheckResult);
 
+  // v1.53.33: Planilha de liquidação — determinística, anexada DEPOIS da IA e do
+  // Double Check para que os valores nunca passem pelo modelo
+  const liquidacao = useLiquidacaoStore(selectLiquidacaoParaDispositivo);
+
   // Ref para armazenar o resolver da Promise que aguarda decisão do usuário
   const pendingDoubleCheckResolve = useRef<((result: DoubleCheckReviewResult) => void) | null>(null);
 
@@ -255,6 +264,7 @@ export function useDispositivoGeneration({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'dispositivo',
           maxTokens: 8000,
           useInstructions: true,
           semFormatoNarrativo: true,
@@ -266,6 +276,7 @@ export function useDispositivoGeneration({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'dispositivo',
           maxTokens: 8000,
           useInstructions: true,
           semFormatoNarrativo: true,
@@ -335,7 +346,11 @@ export function useDispositivoGeneration({
         }
       }
 
-      aiIntegration.setDispositivoText(dispositivoFinal);
+      if (liquidacao) {
+        dispositivoFinal += formatLiquidacaoHtml(liquidacao);
+      }
+
+      aiIntegration.setDispositivoText(reidentifyForEditor(dispositivoFinal));
       openModal('dispositivo');
       aiIntegration.setGeneratingDispositivo(false);
     } catch (err) {
@@ -352,7 +367,8 @@ export function useDispositivoGeneration({
     openDoubleCheckReview,
     showToast,
     isTopicDecidido,
-    htmlToFormattedText
+    htmlToFormattedText,
+    liquidacao
   ]);
 
   /**
@@ -448,6 +464,7 @@ export function useDispositivoGeneration({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'dispositivo',
           maxTokens: 8000,
           useInstructions: true,
           semFormatoNarrativo: true,
@@ -459,6 +476,7 @@ export function useDispositivoGeneration({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'dispositivo',
           maxTokens: 8000,
           useInstructions: true,
           semFormatoNarrativo: true,
@@ -474,7 +492,8 @@ export function useDispositivoGeneration({
         throw new Error('Dispositivo gerado está vazio');
       }
 
-      const htmlContent = normalizeHTMLSpacing(textContent.trim());
+      const htmlContent = normalizeHTMLSpacing(reidentifyForEditor(textContent.trim()))
+        + (liquidacao ? formatLiquidacaoHtml(liquidacao) : '');
 
       const updatedTopic = {
         ...editingTopic,
@@ -518,7 +537,8 @@ export function useDispositivoGeneration({
     showToast,
     sanitizeHTML,
     isTopicDecidido,
-    htmlToFormattedText
+    htmlToFormattedText,
+    liquidacao
   ]);
 
   return {
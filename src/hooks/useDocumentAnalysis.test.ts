@@ -9,6 +9,7 @@ const mockOpenModal = vi.fn();
 const mockCloseModal = vi.fn();
 const mockOpenDoubleCheckReview = vi.fn();
 const mockSetDoubleCheckResult = vi.fn();
+const mockSetProcessoNumero = vi.fn();
 
 vi.mock('../stores/useUIStore', () => ({
   useUIStore: vi.fn((selector?: unknown) => {
@@ -18,6 +19,7 @@ vi.mock('../stores/useUIStore', () => ({
       openDoubleCheckReview: mockOpenDoubleCheckReview,
       doubleCheckResult: null,
       setDoubleCheckResult: mockSetDoubleCheckResult,
+      setProcessoNumero: mockSetProcessoNumero,
     };
     if (typeof selector === 'function') {
       return (selector as (s: typeof state) => unknown)(state);
@@ -45,6 +47,8 @@ import { useDocumentAnalysis } from './useDocumentAnalysis';
 import type { UseDocumentAnalysisProps, CurationData } from './useDocumentAnalysis';
 import { parseAIResponse, extractJSON } from '../schemas/ai-responses';
 import { anonymizeText } from '../utils/text';
+import { usePseudonymVaultStore } from '../stores/usePseudonymVaultStore';
+import { createPseudonymVault, pseudonymFor } from '../utils/pseudonymVault';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // HELPERS
@@ -54,9 +58,11 @@ const mockCallAI = vi.fn();
 const mockExtractResponseText = vi.fn();
 const mockPerformDoubleCheck = vi.fn();
 const mockSetAiSettings = vi.fn();
-const mockExtractTextFromPDFPure = vi.fn();
-const mockExtractTextFromPDFWithClaudeVision = vi.fn();
-const mockExtractTextFromPDFWithTesseract = vi.fn();
+const mockExtractPagedTextFromPDFPure = vi.fn();
+const mockExtractPagedTextFromPDFWithClaudeVision = vi.fn();
+const mockExtractPagedTextFromPDFWithTesseract = vi.fn();
+/** Texto extraído de um PDF de uma folha */
+const paged = (text: string) => ({ text, pageOffsets: [{ page: 1, offset: 0 }] });
 const mockFileToBase64 = vi.fn();
 const mockSetExtractedTopics = vi.fn();
 const mockSetSelectedTopics = vi.fn();
@@ -89,9 +95,9 @@ function createDefaultProps(overrides: Partial<UseDocumentAnalysisProps> = {}):
       performDoubleCheck: mockPerformDoubleCheck,
     },
     documentServices: {
-      extractTextFromPDFPure: mockExtractTextFromPDFPure,
-      extractTextFromPDFWithClaudeVision: mockExtractTextFromPDFWithClaudeVision,
-      extractTextFromPDFWithTesseract: mockExtractTextFromPDFWithTesseract,
+      extractPagedTextFromPDFPure: mockExtractPagedTextFromPDFPure,
+      extractPagedTextFromPDFWithClaudeVision: mockExtractPagedTextFromPDFWithClaudeVision,
+      extractPagedTextFromPDFWithTesseract: mockExtractPagedTextFromPDFWithTesseract,
     },
     storage: {
       fileToBase64: mockFileToBase64,
@@ -584,7 +590,7 @@ describe('useDocumentAnalysis', () => {
   describe('PDF file processing', () => {
     it('should use extractTextFromPDFPure for pdfjs mode', async () => {
       const longText = 'A'.repeat(200); // > 100 chars to pass length check
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -603,12 +609,12 @@ describe('useDocumentAnalysis', () => {
         await vi.advanceTimersByTimeAsync(5000);
       });
 
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
     });
 
     it('should use extractTextFromPDFWithClaudeVision for claude-vision mode', async () => {
       const longText = 'B'.repeat(200);
-      mockExtractTextFromPDFWithClaudeVision.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFWithClaudeVision.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -633,12 +639,12 @@ describe('useDocumentAnalysis', () => {
         await vi.advanceTimersByTimeAsync(5000);
       });
 
-      expect(mockExtractTextFromPDFWithClaudeVision).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFWithClaudeVision).toHaveBeenCalled();
     });
 
     it('should use extractTextFromPDFWithTesseract for tesseract mode', async () => {
       const longText = 'C'.repeat(200);
-      mockExtractTextFromPDFWithTesseract.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFWithTesseract.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -657,7 +663,7 @@ describe('useDocumentAnalysis', () => {
         await vi.advanceTimersByTimeAsync(5000);
       });
 
-      expect(mockExtractTextFromPDFWithTesseract).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFWithTesseract).toHaveBeenCalled();
     });
 
     it('should use pdf-puro mode (base64) and fileToBase64', async () => {
@@ -689,7 +695,7 @@ describe('useDocumentAnalysis', () => {
     });
 
     it('should fallback to pdf-puro when extraction returns insufficient text and anonymization disabled', async () => {
-      mockExtractTextFromPDFPure.mockResolvedValue('short'); // < 100 chars
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged('short')); // < 100 chars
       mockFileToBase64.mockResolvedValue('fallbackbase64');
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
@@ -714,7 +720,7 @@ describe('useDocumentAnalysis', () => {
     });
 
     it('should show error toast when extraction fails with anonymization enabled', async () => {
-      mockExtractTextFromPDFPure.mockResolvedValue('short'); // Insufficient text
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged('short')); // Insufficient text
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -748,7 +754,7 @@ describe('useDocumentAnalysis', () => {
     });
 
     it('should fallback to base64 when extraction throws an error (anonymization disabled)', async () => {
-      mockExtractTextFromPDFPure.mockRejectedValue(new Error('Extraction failed'));
+      mockExtractPagedTextFromPDFPure.mockRejectedValue(new Error('Extraction failed'));
       mockFileToBase64.mockResolvedValue('errorFallbackBase64');
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
@@ -773,7 +779,7 @@ describe('useDocumentAnalysis', () => {
 
     it('should fallback to pdfjs for unknown processing mode', async () => {
       const longText = 'D'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -793,12 +799,12 @@ describe('useDocumentAnalysis', () => {
       });
 
       // Unknown mode should fallback to PDF.js
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
     });
 
     it('should process contestacao files with pdfjs mode', async () => {
       const longText = 'E'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -819,12 +825,12 @@ describe('useDocumentAnalysis', () => {
       });
 
       // extractTextFromPDFPure should be called for the contestacao file
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
     });
 
     it('should process complementary files with pdfjs mode', async () => {
       const longText = 'F'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -844,12 +850,12 @@ describe('useDocumentAnalysis', () => {
         await vi.advanceTimersByTimeAsync(5000);
       });
 
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
     });
 
     it('should apply anonymization effective mode (force pdfjs when anonymization blocks claude-vision)', async () => {
       const longText = 'G'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -877,8 +883,8 @@ describe('useDocumentAnalysis', () => {
       });
 
       // With anonymization enabled, claude-vision should be blocked -> pdfjs used
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
-      expect(mockExtractTextFromPDFWithClaudeVision).not.toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFWithClaudeVision).not.toHaveBeenCalled();
     });
   });
 
@@ -940,7 +946,7 @@ describe('useDocumentAnalysis', () => {
 
     it('should apply anonymization to extracted PDF text', async () => {
       const longText = 'João reclamante texto com mais de cem caracteres para o teste funcionar corretamente na verificacao de tamanho minimo do texto extraido';
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -966,10 +972,12 @@ describe('useDocumentAnalysis', () => {
         await vi.advanceTimersByTimeAsync(5000);
       });
 
+      // v1.53.39: passa pelo cofre de pseudônimos do processo
       expect(anonymizeText).toHaveBeenCalledWith(
         longText,
         expect.objectContaining({ enabled: true }),
-        expect.any(Array)
+        expect.any(Array),
+        expect.objectContaining({ entries: expect.any(Object) })
       );
     });
   });
@@ -1076,6 +1084,41 @@ describe('useDocumentAnalysis', () => {
       });
     });
 
+    it('should restore party names as plain text, without HTML escaping', async () => {
+      const vault = createPseudonymVault();
+      const reclamante = pseudonymFor(vault, 'RECLAMANTE', 'Ana <Lima>');
+      const reclamada = pseudonymFor(vault, 'EMPRESA', 'Silva & Filhos Ltda');
+      usePseudonymVaultStore.getState().setVault(vault);
+      (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
+        success: true,
+        data: {
+          topics: [{ title: 'T1', category: 'C1' }],
+          partes: { reclamante, reclamadas: [reclamada] },
+        },
+      });
+      mockCallAI.mockResolvedValue({ stop_reason: 'end_turn' });
+      mockExtractResponseText.mockReturnValue(VALID_TOPICS_RESPONSE);
+
+      const props = createDefaultProps({
+        pastedPeticaoTexts: [createMockPastedText()],
+      });
+      const { result } = renderHook(() => useDocumentAnalysis(props));
+
+      try {
+        await act(async () => {
+          result.current.handleAnalyzeDocuments();
+          await vi.advanceTimersByTimeAsync(5000);
+        });
+      } finally {
+        usePseudonymVaultStore.getState().resetAll();
+      }
+
+      expect(mockSetPartesProcesso).toHaveBeenCalledWith({
+        reclamante: 'Ana <Lima>',
+        reclamadas: ['Silva & Filhos Ltda'],
+      });
+    });
+
     it('should call reorderTopicsViaLLM with extracted topics', async () => {
       const topics = [{ title: 'B Topic', category: 'M' }, { title: 'A Topic', category: 'P' }];
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
@@ -1790,7 +1833,7 @@ describe('useDocumentAnalysis', () => {
   describe('multiple documents handling', () => {
     it('should process multiple peticao files', async () => {
       const longText = 'M'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -1810,12 +1853,12 @@ describe('useDocumentAnalysis', () => {
       });
 
       // Should be called once per file
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalledTimes(2);
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalledTimes(2);
     });
 
     it('should process multiple contestacao files and pasted texts together', async () => {
       const longText = 'N'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -1884,7 +1927,7 @@ describe('useDocumentAnalysis', () => {
 
     it('should separate extracted-from-PDF vs already-pasted texts in curation data', async () => {
       const pdfExtractedText = 'P'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(pdfExtractedText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(pdfExtractedText));
       const pastedContent = 'Texto ja colado da contestacao';
 
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
@@ -1914,6 +1957,8 @@ describe('useDocumentAnalysis', () => {
       expect(curationData!.documents.contestaçõesJaColadas[0].text).toBe(pastedContent);
       // The PDF extracted should be in contestaçõesExtraidasDePDF
       expect(curationData!.documents.contestaçõesExtraidasDePDF.length).toBe(1);
+      // ...com o início das folhas à parte, para a rastreabilidade abrir o PDF
+      expect(curationData!.documents.contestaçõesExtraidasDePDF[0].pageOffsets).toEqual([{ page: 1, offset: 0 }]);
     });
   });
 
@@ -2181,7 +2226,7 @@ describe('useDocumentAnalysis', () => {
 
     it('should use globalOcrEngine as default when no doc-specific mode set', async () => {
       const longText = 'Q'.repeat(200);
-      mockExtractTextFromPDFPure.mockResolvedValue(longText);
+      mockExtractPagedTextFromPDFPure.mockResolvedValue(paged(longText));
       (parseAIResponse as ReturnType<typeof vi.fn>).mockReturnValue({
         success: true,
         data: { topics: [], partes: { reclamante: '', reclamadas: [] } },
@@ -2207,7 +2252,7 @@ describe('useDocumentAnalysis', () => {
       });
 
       // Should use pdfjs (globalOcrEngine) since no specific mode set
-      expect(mockExtractTextFromPDFPure).toHaveBeenCalled();
+      expect(mockExtractPagedTextFromPDFPure).toHaveBeenCalled();
     });
 
     it('should handle handleCurationConfirm with topicosComplementares in aiSettings', async () => {
@@ -2260,4 +2305,36 @@ describe('useDocumentAnalysis', () => {
       expect(custas).toBeUndefined();
     });
   });
+
+  describe('handleImportFromAnalisador', () => {
+    const analysis = {
+      id: 'an-1',
+      numeroProcesso: '0001234-56.2025.5.03.0001',
+      reclamante: 'Maria Souza',
+      reclamadas: ['Transportes Ltda'],
+      resultado: {
+        identificacao: { reclamantes: ['Maria Souza'], reclamadas: ['Transportes Ltda'] },
+        contrato: { dadosInicial: { dataAdmissao: '2020-03-01', funcao: 'motorista' }, controversias: [] },
+        preliminares: [{ tipo: 'Inépcia da inicial', descricao: 'Pedido sem causa de pedir', alegadaPor: 'reclamada' }],
+        prejudiciais: {},
+        pedidos: [{ numero: 1, tema: 'Horas extras', descricao: 'HE além da 8ª', fatosReclamante: 'Jornada 7h-19h', controversia: true, pontosEsclarecer: [] }],
+      },
+    } as any;
+
+    it('should build RELATÓRIO + imported topics, partes and processo without calling AI', () => {
+      const props = createDefaultProps();
+      const { result } = renderHook(() => useDocumentAnalysis(props));
+
+      act(() => { result.current.handleImportFromAnalisador(analysis); });
+
+      const topics = mockSetExtractedTopics.mock.calls[0][0];
+      expect(topics.map((t: any) => t.title)).toEqual(['RELATÓRIO', 'INÉPCIA DA INICIAL', 'HORAS EXTRAS']);
+      expect(topics[0].relatorio).toContain('<strong>MARIA SOUZA</strong>');
+      expect(mockSetSelectedTopics).toHaveBeenCalledWith(topics);
+      expect(mockSetPartesProcesso).toHaveBeenCalledWith({ reclamante: 'Maria Souza', reclamadas: ['Transportes Ltda'] });
+      expect(mockSetProcessoNumero).toHaveBeenCalledWith('0001234-56.2025.5.03.0001');
+      expect(mockSetActiveTab).toHaveBeenCalledWith('topics');
+      expect(mockCallAI).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -8,16 +8,21 @@
  *          handleCurationConfirm, handleCurationCancel
  *
  * v1.37.59: Integração com DoubleCheckReviewModal - abre modal para revisão de correções
+ * v1.53.49: handleImportFromAnalisador - tópicos a partir de uma análise salva do Analisador
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useUIStore } from '../stores/useUIStore';
-import { anonymizeText, normalizeHTMLSpacing } from '../utils/text';
+import { normalizeHTMLSpacing } from '../utils/text';
+import { detectEntitiesForAI, pseudonymizeForAI, reidentifyText } from '../stores/usePseudonymVaultStore';
 import type { RelatorioComRevisao } from '../utils/text';
 import { resolveEffectiveMode } from '../utils/documentMode';
+import { transformPagedText, type PagedText } from '../utils/pageOffsets';
 import { parseAIResponse, extractJSON, TopicExtractionSchema } from '../schemas/ai-responses';
 import type { PromptInjectionDetection, DivergenciaPedido } from '../schemas/ai-responses';
 import { buildAnalysisPrompt } from '../prompts';
+import { buildTopicsFromAnalysis, buildRelatorioFromAnalysis, partesFromAnalysis } from '../utils/analisadorImport';
+import type { SavedAnalysis } from '../apps/analisador/types';
 import type {
   AIMessage,
   AIMessageContent,
@@ -34,6 +39,7 @@ import type {
   DoubleCheckReviewResult,
   DoubleCheckCorrection,
   PerformDoubleCheckFunction,
+  PageOffset,
 } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -45,6 +51,10 @@ interface ExtractedTextItem {
   id: string;
   text: string;
   name: string;
+  /** v1.53.32: Id do UploadedFile de origem (navegação da rastreabilidade ao PDF) */
+  sourceFileId?: string;
+  /** v1.53.54: Início de cada folha do PDF no texto (já anonimizado) */
+  pageOffsets?: PageOffset[];
 }
 
 /** Tipo para item do content array */
@@ -82,9 +92,9 @@ export interface CurationData {
 
 /** Interface para servicos de documento */
 export interface DocumentServicesForAnalysis {
-  extractTextFromPDFPure: (file: File, onProgress?: (current: number, total: number) => void) => Promise<string | null>;
-  extractTextFromPDFWithClaudeVision: (file: File, onProgress?: (current: number, total: number) => void) => Promise<string | null>;
-  extractTextFromPDFWithTesseract: (file: File, onProgress?: (current: number, total: number, status?: string) => void) => Promise<string | null>;
+  extractPagedTextFromPDFPure: (file: File, onProgress?: (current: number, total: number) => void) => Promise<PagedText | null>;
+  extractPagedTextFromPDFWithClaudeVision: (file: File, onProgress?: (current: number, total: number) => void) => Promise<PagedText | null>;
+  extractPagedTextFromPDFWithTesseract: (file: File, onProgress?: (current: number, total: number, status?: string) => void) => Promise<PagedText | null>;
 }
 
 /** Interface para storage */
@@ -98,6 +108,7 @@ export interface AIIntegrationForAnalysis {
   setAiSettings: (fn: (prev: AISettings) => AISettings) => void;
   callAI: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     /** v1.53.10: safety sem auto-revisão final (saída é JSON) */
     semRevisaoFinal?: boolean;
@@ -109,6 +120,7 @@ export interface AIIntegrationForAnalysis {
   /** v1.40.00: Streaming para evitar timeout no Render */
   callAIStream?: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     /** v1.53.10: safety sem auto-revisão final (saída é JSON) */
     semRevisaoFinal?: boolean;
@@ -179,6 +191,8 @@ export interface UseDocumentAnalysisReturn {
   handleAnonymizationConfirm: (nomes: string[]) => void;
   handleCurationConfirm: (curatedTopics: Topic[]) => Promise<void>;
   handleCurationCancel: () => void;
+  /** v1.53.49: Monta tópicos, partes e relatório a partir de uma análise do Analisador (sem IA) */
+  handleImportFromAnalisador: (analysis: SavedAnalysis) => void;
   // Setters para controle externo
   setShowAnonymizationModal: (show: boolean) => void;
   setShowTopicCurationModal: (show: boolean) => void;
@@ -187,6 +201,25 @@ export interface UseDocumentAnalysisReturn {
   setPendingCurationData: (data: CurationData | null) => void;
 }
 
+/**
+ * Tópicos complementares ativos nas configurações, sem os que já existem entre os tópicos gerados
+ */
+const buildTopicosComplementares = (aiSettings: AISettings | undefined, existing: Topic[]): Topic[] => {
+  const títulosExistentes = new Set(existing.map((t: Topic) => (t.title || '').toUpperCase().trim()));
+  return (aiSettings?.topicosComplementares || [])
+    .filter((t: TopicoComplementar) => t.enabled)
+    .sort((a: TopicoComplementar, b: TopicoComplementar) => a.ordem - b.ordem)
+    .map((config: TopicoComplementar, idx: number) => ({
+      title: config.title,
+      category: config.category,
+      relatorio: config.descricao || '',
+      editedContent: '',
+      order: existing.length + idx + 1,
+      isComplementar: true
+    }))
+    .filter((t: Topic) => !títulosExistentes.has((t.title || '').toUpperCase().trim()));
+};
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // HOOK
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -230,6 +263,7 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
 
   // Store de modais
   const { openModal, closeModal } = useUIStore();
+  const setProcessoNumero = useUIStore(state => state.setProcessoNumero);
 
   // Double Check Review - Zustand actions (v1.37.59)
   const openDoubleCheckReview = useUIStore(state => state.openDoubleCheckReview);
@@ -286,7 +320,14 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
         });
 
       const maybeAnonymize = (text: string) =>
-        anonymizationEnabled ? anonymizeText(text, anonConfig, nomesParaAnonimizar) : text;
+        anonymizationEnabled ? pseudonymizeForAI(text, anonConfig, nomesParaAnonimizar) : text;
+
+      // v1.53.40: NER local antes de anonimizar (nomes não informados pelo juiz).
+      // Textos colados de uma vez; PDFs logo após a extração.
+      const detectNames = async (texts: string[]) => {
+        if (anonymizationEnabled) await detectEntitiesForAI(texts, anonConfig);
+      };
+      await detectNames([...pastedPeticaoTexts, ...pastedContestacaoTexts, ...pastedComplementaryTexts].map(t => t.text));
 
       // === PROCESSAR PETICOES (MULTIPLAS) ===
       if (peticaoFiles.length > 0) {
@@ -309,30 +350,31 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
             });
           } else {
             try {
-              let extractedText: string | null = null;
+              let extracted: PagedText | null = null;
 
               if (peticaoMode === 'pdfjs') {
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`${label} (PDF.js) - página ${current}/${total}...`);
                 });
               } else if (peticaoMode === 'claude-vision') {
-                extractedText = await documentServices.extractTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`${label} (Claude Vision) - página ${current}/${total}...`);
                 });
               } else if (peticaoMode === 'tesseract') {
-                extractedText = await documentServices.extractTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
                   setAnalysisProgress(`${label} (Tesseract) - página ${current}/${total} ${status || ''}`);
                 });
               } else {
                 console.warn(`[analyzeDocuments] Modo desconhecido '${peticaoMode}', usando PDF.js`);
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`${label} (PDF.js) - página ${current}/${total}...`);
                 });
               }
 
-              if (extractedText && extractedText.length > 100) {
-                const anonText = maybeAnonymize(extractedText);
-                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: label };
+              if (extracted && extracted.text.length > 100) {
+                await detectNames([extracted.text]);
+                const { text: anonText, pageOffsets } = transformPagedText(extracted, maybeAnonymize);
+                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: label, sourceFileId: peticaoFiles[i].id, pageOffsets };
                 extractedTextsData.peticoes[i] = extractedItem;
                 peticoesTextFinal.push(extractedItem);
                 contentArray.push({
@@ -406,30 +448,31 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
             });
           } else {
             try {
-              let extractedText: string | null = null;
+              let extracted: PagedText | null = null;
 
               if (mode === 'pdfjs') {
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Contestação ${i + 1} (PDF.js) - página ${current}/${total}...`);
                 });
               } else if (mode === 'claude-vision') {
-                extractedText = await documentServices.extractTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Contestação ${i + 1} (Claude Vision) - página ${current}/${total}...`);
                 });
               } else if (mode === 'tesseract') {
-                extractedText = await documentServices.extractTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
                   setAnalysisProgress(`Contestação ${i + 1} (Tesseract) - página ${current}/${total} ${status || ''}`);
                 });
               } else {
                 console.warn(`[analyzeDocuments] Contestação - modo desconhecido '${mode}', usando PDF.js`);
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Contestação ${i + 1} (PDF.js) - página ${current}/${total}...`);
                 });
               }
 
-              if (extractedText && extractedText.length > 100) {
-                const anonText = maybeAnonymize(extractedText);
-                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: `Contestação ${i + 1}` };
+              if (extracted && extracted.text.length > 100) {
+                await detectNames([extracted.text]);
+                const { text: anonText, pageOffsets } = transformPagedText(extracted, maybeAnonymize);
+                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: `Contestação ${i + 1}`, sourceFileId: contestacaoFiles[i].id, pageOffsets };
                 extractedTextsData.contestacoes[i] = extractedItem;
                 contestacoesTextFinal.push(extractedItem);
                 contentArray.push({
@@ -500,30 +543,31 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
             });
           } else {
             try {
-              let extractedText: string | null = null;
+              let extracted: PagedText | null = null;
 
               if (mode === 'pdfjs') {
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Complementar ${i + 1} (PDF.js) - página ${current}/${total}...`);
                 });
               } else if (mode === 'claude-vision') {
-                extractedText = await documentServices.extractTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithClaudeVision(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Complementar ${i + 1} (Claude Vision) - página ${current}/${total}...`);
                 });
               } else if (mode === 'tesseract') {
-                extractedText = await documentServices.extractTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
+                extracted = await documentServices.extractPagedTextFromPDFWithTesseract(fileObj, (current: number, total: number, status?: string) => {
                   setAnalysisProgress(`Complementar ${i + 1} (Tesseract) - página ${current}/${total} ${status || ''}`);
                 });
               } else {
                 console.warn(`[analyzeDocuments] Complementar - modo desconhecido '${mode}', usando PDF.js`);
-                extractedText = await documentServices.extractTextFromPDFPure(fileObj, (current: number, total: number) => {
+                extracted = await documentServices.extractPagedTextFromPDFPure(fileObj, (current: number, total: number) => {
                   setAnalysisProgress(`Complementar ${i + 1} (PDF.js) - página ${current}/${total}...`);
                 });
               }
 
-              if (extractedText && extractedText.length > 100) {
-                const anonText = maybeAnonymize(extractedText);
-                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: `Complementar ${i + 1}` };
+              if (extracted && extracted.text.length > 100) {
+                await detectNames([extracted.text]);
+                const { text: anonText, pageOffsets } = transformPagedText(extracted, maybeAnonymize);
+                const extractedItem = { id: crypto.randomUUID(), text: anonText, name: `Complementar ${i + 1}`, sourceFileId: complementaryFiles[i].id, pageOffsets };
                 extractedTextsData.complementares[i] = extractedItem;
                 complementaresTextFinal.push(extractedItem);
                 contentArray.push({
@@ -600,6 +644,7 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
       if (aiIntegration.callAIStream) {
         // Streaming silencioso: evita timeout, não mostra texto parcial
         textContent = await aiIntegration.callAIStream(messages, {
+          operation: 'analise-documentos',
           maxTokens: 16000,
           useInstructions: true,
           semRevisaoFinal: true,
@@ -610,6 +655,7 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
       } else {
         // Fallback: chamada tradicional (pode dar timeout em documentos grandes)
         const data = await aiIntegration.callAI(messages, {
+          operation: 'analise-documentos',
           maxTokens: 16000,
           useInstructions: true,
           semRevisaoFinal: true,
@@ -715,8 +761,8 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
       // Armazenar informações das partes se disponíveis
       if (parsed.partes) {
         setPartesProcesso({
-          reclamante: parsed.partes.reclamante || '',
-          reclamadas: parsed.partes.reclamadas || []
+          reclamante: reidentifyText(parsed.partes.reclamante || ''),
+          reclamadas: (parsed.partes.reclamadas || []).map(reidentifyText)
         });
       }
 
@@ -939,22 +985,6 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
       const { corpo: relatórioCorpo, revisao: relatórioRevisao } = await generateRelatorioProcessual(relatórioContentArray);
       const relatórioHtml = normalizeHTMLSpacing(relatórioCorpo.trim());
 
-      // Buscar tópicos complementares configurados pelo usuário
-      const topicosComplementaresConfig = aiIntegration.aiSettings?.topicosComplementares || [];
-      const topicosComplementaresAtivos = topicosComplementaresConfig
-        .filter((t: TopicoComplementar) => t.enabled)
-        .sort((a: TopicoComplementar, b: TopicoComplementar) => a.ordem - b.ordem);
-
-      // Gerar tópicos complementares baseados na configuração
-      const topicosComplementares = topicosComplementaresAtivos.map((config: TopicoComplementar, idx: number) => ({
-        title: config.title,
-        category: config.category,
-        relatorio: config.descricao || '',
-        editedContent: '',
-        order: curatedTopics.length + idx + 1,
-        isComplementar: true
-      }));
-
       // Filtrar tópicos para remover qualquer "RELATÓRIO" que possa ter sido incluído
       const topicsSemRelatorio = curatedTopics.filter((topic: Topic) =>
         !topic.title || topic.title.toUpperCase() !== 'RELATÓRIO'
@@ -1017,13 +1047,8 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
         await new Promise(resolve => setTimeout(resolve, 500));
       }
 
-      // Filtrar complementares que jáexistem nos tópicos gerados
-      const títulosGeradosUpper = new Set(
-        topicsComRelatorios.map((t: Topic) => (t.title || '').toUpperCase().trim())
-      );
-      const topicosComplementaresUnicos = topicosComplementares.filter(
-        (t: { title: string }) => !títulosGeradosUpper.has((t.title || '').toUpperCase().trim())
-      );
+      // Tópicos complementares configurados pelo usuário (exceto os que já existem nos gerados)
+      const topicosComplementaresUnicos = buildTopicosComplementares(aiIntegration.aiSettings, topicsComRelatorios);
 
       // Montar lista final de tópicos
       const allTopics: Topic[] = [
@@ -1047,8 +1072,8 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
       // Atualizar partes do processo se disponíveis
       if (partes) {
         setPartesProcesso({
-          reclamante: partes.reclamante || '',
-          reclamadas: partes.reclamadas || []
+          reclamante: reidentifyText(partes.reclamante || ''),
+          reclamadas: (partes.reclamadas || []).map(reidentifyText)
         });
       }
 
@@ -1085,6 +1110,48 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
     closeModal,
   ]);
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // IMPORTAR DO ANALISADOR (v1.53.49)
+  // Reaproveita preliminares, prejudiciais, pedidos e reconvenção já extraídos
+  // pelo Analisador de Prepauta: sem nova chamada à IA nem curadoria.
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const handleImportFromAnalisador = useCallback((analysis: SavedAnalysis) => {
+    const topics = buildTopicsFromAnalysis(analysis.resultado);
+    const relatórioHtml = buildRelatorioFromAnalysis(analysis.resultado, topics);
+
+    const allTopics: Topic[] = [
+      {
+        title: 'RELATÓRIO',
+        category: 'RELATÓRIO',
+        relatorio: relatórioHtml,
+        editedFundamentacao: relatórioHtml,
+      },
+      ...topics.map((topic: Topic, index: number) => ({ ...topic, order: index + 1 })),
+      ...buildTopicosComplementares(aiIntegration.aiSettings, topics)
+    ];
+
+    setExtractedTopics(allTopics);
+    setSelectedTopics(allTopics.slice(0, topics.length + 1));
+    setPartesProcesso(partesFromAnalysis(analysis.resultado));
+
+    const numero = analysis.numeroProcesso || analysis.resultado.identificacao?.numeroProcesso;
+    if (numero) setProcessoNumero(numero);
+
+    closeModal('importAnalisador');
+    setActiveTab('topics');
+    showToast(`${topics.length} tópico(s) importado(s) do Analisador.`, 'success');
+  }, [
+    aiIntegration.aiSettings,
+    setExtractedTopics,
+    setSelectedTopics,
+    setPartesProcesso,
+    setProcessoNumero,
+    setActiveTab,
+    showToast,
+    closeModal,
+  ]);
+
   // ═══════════════════════════════════════════════════════════════════════════
   // CANCELA CURADORIA
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1112,6 +1179,7 @@ export const useDocumentAnalysis = (props: UseDocumentAnalysisProps): UseDocumen
     handleAnonymizationConfirm,
     handleCurationConfirm,
     handleCurationCancel,
+    handleImportFromAnalisador,
     // Setters para controle externo
     setShowAnonymizationModal,
     setShowTopicCurationModal,
@@ -418,6 +418,42 @@ describe('useDocumentServices', () => {
       expect(text).toContain('Second');
     });
 
+    it('should keep the start of each page with text aside from the text', async () => {
+      const mockPdfDoc = createMockPdfDocument(3, ['Primeira', ' ', 'Terceira']);
+      (window as any).pdfjsLib = createMockPdfjsLib(mockPdfDoc);
+
+      const { result } = renderHook(() => useDocumentServices(null));
+      const file = createMockFile('test.pdf', 'application/pdf');
+
+      let paged: { text: string; pageOffsets: { page: number; offset: number }[] } | null = null;
+      await act(async () => {
+        paged = await result.current.extractPagedTextFromPDFPure(file);
+      });
+
+      expect(paged!.text).toBe('Primeira\n\n \n\nTerceira');
+      expect(paged!.pageOffsets).toEqual([{ page: 1, offset: 0 }, { page: 3, offset: 13 }]);
+    });
+
+    it('should shift page offsets past the PJe document label', async () => {
+      const footer = 'Documento assinado eletronicamente por FULANO, em 18/03/2026, às 11:15:27 - 85cb794';
+      const mockPdfDoc = createMockPdfDocument(2, [`Primeira ${footer}`, 'Segunda']);
+      (window as any).pdfjsLib = createMockPdfjsLib(mockPdfDoc);
+
+      const { result } = renderHook(() => useDocumentServices(null));
+      const file = createMockFile('test.pdf', 'application/pdf');
+
+      let paged: { text: string; pageOffsets: { page: number; offset: number }[] } | null = null;
+      await act(async () => {
+        paged = await result.current.extractPagedTextFromPDFPure(file);
+      });
+
+      expect(paged!.text.startsWith('[ID deste documento no PJe: 85cb794]')).toBe(true);
+      expect(paged!.text).not.toContain('assinado');
+      expect(paged!.pageOffsets.map(p => p.page)).toEqual([1, 2]);
+      expect(paged!.text.slice(paged!.pageOffsets[0].offset)).toMatch(/^Primeira/);
+      expect(paged!.text.slice(paged!.pageOffsets[1].offset)).toBe('Segunda');
+    });
+
     it('should call progressCallback for each page', async () => {
       const mockPdfDoc = createMockPdfDocument(3, ['p1', 'p2', 'p3']);
       const mockPdfjsLib = createMockPdfjsLib(mockPdfDoc);
@@ -539,6 +575,49 @@ describe('useDocumentServices', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // indexPjeDocuments
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('indexPjeDocuments', () => {
+    const footer = (id: string) => `Documento assinado eletronicamente por FULANO, em 10/01/2026, às 10:00:00 - ${id}`;
+
+    it('should build the PJe index from the raw text of each page', async () => {
+      const mockPdfDoc = createMockPdfDocument(3, [
+        `Vem propor a presente reclamação trabalhista ${footer('85cb794')}`,
+        `pedidos ${footer('85cb794')}`,
+        `Vem apresentar contestação ${footer('a1b2c3d')}`,
+      ]);
+      (window as any).pdfjsLib = createMockPdfjsLib(mockPdfDoc);
+
+      const { result } = renderHook(() => useDocumentServices(null));
+      const file = createMockFile('autos.pdf', 'application/pdf');
+
+      let index: Awaited<ReturnType<typeof result.current.indexPjeDocuments>> = [];
+      await act(async () => {
+        index = await result.current.indexPjeDocuments(file);
+      });
+
+      expect(index.map(e => [e.id, e.type, e.startPage, e.endPage, e.sourceName])).toEqual([
+        ['85cb794', 'peticao-inicial', 1, 2, 'autos.pdf'],
+        ['a1b2c3d', 'contestacao', 3, 3, 'autos.pdf'],
+      ]);
+      expect(mockPdfDoc.destroy).toHaveBeenCalled();
+    });
+
+    it('should throw a descriptive error when the PDF cannot be read', async () => {
+      (window as any).pdfjsLib = {
+        getDocument: vi.fn(() => ({ promise: Promise.reject(new Error('corrupt PDF')) })),
+        GlobalWorkerOptions: { workerSrc: '' },
+      };
+
+      const { result } = renderHook(() => useDocumentServices(null));
+      const file = createMockFile('autos.pdf', 'application/pdf');
+
+      await expect(result.current.indexPjeDocuments(file)).rejects.toThrow('Falha ao indexar documentos do PJe: corrupt PDF');
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // extractTextFromDOCX
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1,16 +1,21 @@
 /**
  * @file useDocumentServices.ts
  * @description Hook para processamento de documentos (PDF, DOCX, OCR)
- * @version 1.36.79
+ * @version 1.53.54
  *
  * Extraído do App.tsx v1.9.12
  * Centraliza toda a lógica de processamento de documentos
+ * v1.53.31: índice de documentos do PJe (indexPjeDocuments)
+ * v1.53.32: início de cada página do PDF.js e do Tesseract (rastreabilidade → PDF)
+ * v1.53.54: esse início vai à parte (pageOffsets), sem marcadores no texto
  */
 
 import React from 'react';
-import type { PdfjsLib, MammothLib, TesseractLib, PdfDocument, TesseractScheduler, AISettings, AIMessage, AICallOptions } from '../types';
+import type { PdfjsLib, MammothLib, TesseractLib, PdfDocument, TesseractScheduler, AISettings, AIMessage, AICallOptions, PjeDocumentIndexEntry } from '../types';
 import { API_BASE } from '../constants/api';
-import { cleanPjeForExtraction } from '../utils/pjeArtifacts';
+import { cleanPjeArtifacts, cleanPjeForExtraction } from '../utils/pjeArtifacts';
+import { buildPjeDocumentIndex } from '../utils/pjeDocumentIndex';
+import { joinPages, pageOffsetsFromMarkers, transformPagedText, type PagedText } from '../utils/pageOffsets';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -29,6 +34,21 @@ export interface AIIntegrationForDocuments {
 
 export type UseDocumentServicesReturn = ReturnType<typeof useDocumentServices>;
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * cleanPjeForExtraction mantendo o início das folhas: o rodapé sai como no texto
+ * inteiro e o rótulo com o ID do PJe desloca todas as folhas.
+ */
+const cleanPagedPjeText = (paged: PagedText): PagedText => {
+  const cleaned = transformPagedText(paged, cleanPjeArtifacts);
+  const text = cleanPjeForExtraction(paged.text);
+  const shift = text.length - cleaned.text.length;
+  return { text, pageOffsets: cleaned.pageOffsets.map(p => ({ page: p.page, offset: p.offset + shift })) };
+};
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // HOOK
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -144,14 +164,15 @@ const useDocumentServices = (aiIntegration: AIIntegrationForDocuments | null) =>
   // 📝 EXTRAÇÃO DE TEXTO DE PDF
 
   // v1.20.2: Adicionado pdf.destroy() em finally (FIX memory leak ~50-100MB por PDF)
-  const extractTextFromPDFPure = React.useCallback(async (file: File, progressCallback: ((page: number, total: number) => void) | null = null) => {
+  // v1.53.54: devolve também o início de cada página (pageOffsets)
+  const extractPagedTextFromPDFPure = React.useCallback(async (file: File, progressCallback: ((page: number, total: number) => void) | null = null): Promise<PagedText | null> => {
     let pdf: PdfDocument | null = null;
     try {
       const pdfjsLib = await loadPDFJS();
       const arrayBuffer = await file.arrayBuffer();
       pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
-      let fullText = '';
+      const pages: { page: number; text: string }[] = [];
       const totalPages = pdf.numPages;
 
       for (let i = 1; i <= totalPages; i++) {
@@ -162,15 +183,14 @@ const useDocumentServices = (aiIntegration: AIIntegrationForDocuments | null) =>
         const textContent = await page.getTextContent();
         // v1.14.1: Validar textContent.items antes de map (fix: null em alguns PDFs)
         const items = textContent?.items || [];
-        const pageText = items.map((item: { str?: string }) => item?.str || '').join(' ');
-        fullText += pageText + '\n\n';
+        pages.push({ page: i, text: items.map((item: { str?: string }) => item?.str || '').join(' ') });
       }
 
       // v1.16.7: Anonimização movida para analyzeDocuments (evita duplicação)
       // v1.50.42: Remove rodapé de assinatura do PJe que a extração de texto do
       // pdf.js injeta no meio de frases (Vision não precisa — entende layout),
       // preservando o ID do documento num marcador no topo.
-      return cleanPjeForExtraction(fullText.trim());
+      return cleanPagedPjeText(joinPages(pages));
     } catch (err) {
       return null;
     } finally {
@@ -180,6 +200,10 @@ const useDocumentServices = (aiIntegration: AIIntegrationForDocuments | null) =>
     }
   }, [loadPDFJS]);
 
+  const extractTextFromPDFPure = React.useCallback(async (file: File, progressCallback: ((page: number, total: number) => void) | null = null) => {
+    return (await extractPagedTextFromPDFPure(file, progressCallback))?.text ?? null;
+  }, [extractPagedTextFromPDFPure]);
+
   const extractTextFromDOCX = React.useCallback(async (file: File) => {
     try {
       const mammoth = await loadMammoth();
@@ -302,7 +326,7 @@ const useDocumentServices = (aiIntegration: AIIntegrationForDocuments | null) =>
 
 INSTRUÇÕES IMPORTANTES:
 - Processe CADA página na ordem exata apresentada
-- Para CADA página, inicie com uma linha "--- PÁGINA ${firstPage <= 1 ? 'X' : firstPage + ' a ' + lastPage} ---" (substitua X pelo número)
+- Para CADA página, inicie com uma linha "--- PÁGINA N ---", com N = número da página (${firstPage} a ${lastPage})
 - Retorne APENAS o texto extraído, sem comentários ou explicações
 - Preserve a formatação de parágrafos e estrutura do documento
 - Idioma do documento: ${idioma}`
@@ -719,7 +743,8 @@ REGRAS:
   // v1.31.03: Batching + Workers dinâmicos (75% cores, max 8)
   // v1.32.15: Alta qualidade (SCALE 4.0 + PSM 6)
   // v1.43.21: por → por+eng (siglas EN), PSM 6 → PSM 1 (auto + OSD), pré-processamento grayscale+Otsu
-  const extractTextFromPDFWithTesseract = React.useCallback(async (file: File, progressCallback: ((page: number, total: number, status?: string) => void) | null = null) => {
+  // v1.53.54: devolve também o início de cada página (pageOffsets)
+  const extractPagedTextFromPDFWithTesseract = React.useCallback(async (file: File, progressCallback: ((page: number, total: number, status?: string) => void) | null = null): Promise<PagedText | null> => {
     const SCALE = 4.0;  // v1.32.15: Máxima qualidade OCR
     // 75% dos cores lógicos, mínimo 2, máximo 8
     const NUM_WORKERS = Math.min(Math.max(Math.ceil((navigator.hardwareConcurrency || 4) * 0.75), 2), 8);
@@ -847,7 +872,7 @@ REGRAS:
       allResults.sort((a, b) => a.pageNum - b.pageNum);
       // v1.50.42: mesmo tratamento do pdf.js — Tesseract também capta o rodapé do
       // PJe no rodapé de página, que cai no meio quando a frase cruza a quebra.
-      return cleanPjeForExtraction(allResults.map(r => r.text).join('\n\n').trim());
+      return cleanPagedPjeText(joinPages(allResults.map(r => ({ page: r.pageNum, text: r.text }))));
 
     } catch (err) {
       console.error('[Tesseract OCR] Erro:', err);
@@ -862,6 +887,18 @@ REGRAS:
     }
   }, [loadPDFJS, loadTesseract, preprocessCanvasForOCR]);
 
+  const extractTextFromPDFWithTesseract = React.useCallback(async (file: File, progressCallback: ((page: number, total: number, status?: string) => void) | null = null) => {
+    return (await extractPagedTextFromPDFWithTesseract(file, progressCallback))?.text ?? null;
+  }, [extractPagedTextFromPDFWithTesseract]);
+
+  // v1.53.54: Claude Vision já escreve "--- PÁGINA N ---" antes de cada página (prompt
+  // do batch); o início das páginas sai desses marcadores. No fallback para o pdf.js
+  // o texto vem sem eles e a folha fica desconhecida.
+  const extractPagedTextFromPDFWithClaudeVision = React.useCallback(async (file: File, progressCallback: ((page: number, total: number, status?: string) => void) | null = null): Promise<PagedText | null> => {
+    const text = await extractTextFromPDFWithClaudeVision(file, progressCallback);
+    return text === null ? null : { text, pageOffsets: pageOffsetsFromMarkers(text) };
+  }, [extractTextFromPDFWithClaudeVision]);
+
   const extractTextFromPDF = React.useCallback(async (file: File, progressCallback: ((page: number, total: number, status?: string) => void) | null = null) => {
     const engine = aiIntegration?.aiSettings?.ocrEngine || 'pdfjs';
 
@@ -994,6 +1031,43 @@ REGRAS:
     }
   }, [extractProcessoFromFileName, extractProcessoFromFirstPage]);
 
+  // 🗂️ ÍNDICE DE DOCUMENTOS DO PJE
+
+  // v1.53.31: Divide o PDF dos autos em documentos do PJe (ID, tipo, signatário, folhas).
+  // Usa o texto BRUTO de cada página — o rodapé de assinatura é justamente o que
+  // identifica o documento, então aqui não se aplica cleanPjeForExtraction.
+  const indexPjeDocuments = React.useCallback(async (
+    file: File,
+    sourceName: string = file.name,
+    progressCallback: ((page: number, total: number) => void) | null = null
+  ): Promise<PjeDocumentIndexEntry[]> => {
+    let pdf: PdfDocument | null = null;
+    try {
+      const pdfjsLib = await loadPDFJS();
+      const arrayBuffer = await file.arrayBuffer();
+      pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+
+      const pageTexts: string[] = [];
+      for (let i = 1; i <= pdf.numPages; i++) {
+        if (progressCallback) {
+          progressCallback(i, pdf.numPages);
+        }
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const items = textContent?.items || [];
+        pageTexts.push(items.map((item: { str?: string }) => item?.str || '').join(' '));
+      }
+
+      return buildPjeDocumentIndex(pageTexts, sourceName);
+    } catch (err) {
+      throw new Error(`Falha ao indexar documentos do PJe: ${(err as Error).message}`);
+    } finally {
+      if (pdf) {
+        try { pdf.destroy(); } catch (e) { /* ignore */ }
+      }
+    }
+  }, [loadPDFJS]);
+
   // 📦 PROCESSAMENTO EM LOTE
 
   const extractTextFromBulkFile = React.useCallback(async (file: File): Promise<string> => {
@@ -1150,11 +1224,15 @@ REGRAS:
     extractTextFromDOCX,
     extractTextFromPDFWithClaudeVision,
     extractTextFromPDFWithTesseract,  // 🆕 v1.31
+    extractPagedTextFromPDFPure,  // 🆕 v1.53.54
+    extractPagedTextFromPDFWithClaudeVision,  // 🆕 v1.53.54
+    extractPagedTextFromPDFWithTesseract,  // 🆕 v1.53.54
     extractTextFromPDF,
     extractTextFromPDFWithMode,  // 🆕 v1.12.20
     extractProcessoFromFileName,
     extractProcessoFromFirstPage,
     autoDetectProcessoNumero,
+    indexPjeDocuments,  // 🆕 v1.53.31
     extractTextFromBulkFile,
     tryExtractTextFromPDFs
   };
@@ -265,6 +265,7 @@ export function useFactsComparison({
 
       // v1.40.10: Usar streaming para evitar timeout em operações longas
       const aiOptions = {
+        operation: 'confronto-fatos',
         maxTokens: 8000,
         useInstructions: false,
         temperature: 0.3,
@@ -26,6 +26,44 @@ export const openVersionDB = (): Promise<IDBDatabase> => new Promise((resolve, r
   };
 });
 
+/** Registro bruto do histórico (IndexedDB), sem o id autoincrement */
+export type StoredFieldVersion = { topicTitle: string; content: string; timestamp: number; preview?: string };
+
+/**
+ * v1.53.41: Todo o histórico de versões (para o sync de sessões entre dispositivos).
+ */
+export const exportAllFieldVersions = async (): Promise<StoredFieldVersion[]> => {
+  try {
+    const db = await openVersionDB();
+    const all = await new Promise<Array<StoredFieldVersion & { id?: number }>>(r => {
+      const req = db.transaction(VERSION_STORE).objectStore(VERSION_STORE).getAll();
+      req.onsuccess = () => r(req.result || []);
+      req.onerror = () => r([]);
+    });
+    db.close();
+    return all.map(({ topicTitle, content, timestamp, preview }) => ({ topicTitle, content, timestamp, preview }));
+  } catch { return []; }
+};
+
+/**
+ * v1.53.41: Acrescenta versões ao histórico (ids novos). Usado após
+ * importProjectFromJson, que zera o store.
+ */
+export const importFieldVersions = async (versions: StoredFieldVersion[]): Promise<void> => {
+  if (!versions?.length) return;
+  try {
+    const db = await openVersionDB();
+    const tx = db.transaction(VERSION_STORE, 'readwrite');
+    const store = tx.objectStore(VERSION_STORE);
+    versions.forEach(({ topicTitle, content, timestamp, preview }) => store.add({ topicTitle, content, timestamp, preview }));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (e) { console.warn('Erro ao importar versões:', e); }
+};
+
 export interface UseFieldVersioningReturn {
   saveVersion: (topicTitle: string, content: string) => Promise<void>;
   getVersions: (topicTitle: string) => Promise<FieldVersion[]>;
@@ -68,6 +68,7 @@ export interface AIIntegrationForFileHandling {
     messages: Array<{ role: string; content: Array<{ type: string; text?: string }> }>,
     options?: {
       maxTokens?: number;
+      operation?: string;
       useInstructions?: boolean;
       /** v1.53.10: safety sem auto-revisão final (saída é JSON) */
       semRevisaoFinal?: boolean;
@@ -235,6 +236,7 @@ export function useFileHandling({
       role: 'user',
       content: [{ type: 'text', text: analysisPrompt }]
     }], {
+      operation: 'extracao-modelos',
       maxTokens: BULK_AI_CONFIG.maxTokens,
       useInstructions: true,
       semRevisaoFinal: true,
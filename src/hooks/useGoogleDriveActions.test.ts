@@ -9,6 +9,8 @@ import { renderHook, act } from '@testing-library/react';
 import { useGoogleDriveActions } from './useGoogleDriveActions';
 import type { UseGoogleDriveActionsProps } from './useGoogleDriveActions';
 import type { GoogleDriveFile } from './useGoogleDrive';
+import { exportAllFieldVersions, importFieldVersions } from './useFieldVersioning';
+import { usePseudonymVaultStore } from '../stores/usePseudonymVaultStore';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MOCKS
@@ -19,6 +21,7 @@ const mockListFiles = vi.fn();
 const mockBuildProjectJson = vi.fn();
 const mockExportProject = vi.fn();
 const mockImportProject = vi.fn();
+const mockImportProjectFromJson = vi.fn();
 const mockAutoSaveSession = vi.fn();
 const mockSetError = vi.fn();
 const mockShowToast = vi.fn();
@@ -64,6 +67,7 @@ const createDefaultProps = (): UseGoogleDriveActionsProps => ({
     buildProjectJson: mockBuildProjectJson,
     exportProject: mockExportProject,
     importProject: mockImportProject,
+    importProjectFromJson: mockImportProjectFromJson,
     autoSaveSession: mockAutoSaveSession,
   },
   proofManager: {
@@ -371,6 +375,50 @@ describe('useGoogleDriveActions', () => {
   // STATE AGGREGATION
   // ═══════════════════════════════════════════════════════════════════════════
 
+  describe('session sync payload (v1.53.41)', () => {
+    it('bundles project, field versions and pseudonym vault', async () => {
+      mockBuildProjectJson.mockResolvedValueOnce({ version: '1.53.41', processoNumero: 'PROC-1' });
+      await importFieldVersions([{ topicTitle: 'HORAS EXTRAS', content: '<p>v1</p>', timestamp: 1 }]);
+      usePseudonymVaultStore.getState().setVault({ entries: { '[CPF_1]': '111' }, index: {}, counters: { CPF: 1 } });
+
+      const { result } = renderHook(() => useGoogleDriveActions(createDefaultProps()));
+      const payload = await result.current.buildSessionPayload();
+
+      expect(payload).toMatchObject({
+        format: 'sentencify-session',
+        project: { processoNumero: 'PROC-1' },
+        fieldVersions: [expect.objectContaining({ topicTitle: 'HORAS EXTRAS', content: '<p>v1</p>' })],
+        pseudonymVault: { entries: { '[CPF_1]': '111' } },
+      });
+    });
+
+    it('imports the project and restores history and vault afterwards', async () => {
+      mockImportProjectFromJson.mockResolvedValueOnce(undefined);
+      usePseudonymVaultStore.getState().resetAll();
+
+      const { result } = renderHook(() => useGoogleDriveActions(createDefaultProps()));
+      await act(async () => {
+        await result.current.importSessionPayload({
+          format: 'sentencify-session',
+          version: 1,
+          project: { version: '1.53.41' },
+          fieldVersions: [{ topicTitle: 'FGTS', content: '<p>casa</p>', timestamp: 2 }],
+          pseudonymVault: { entries: { '[RECLAMANTE_1]': 'ANA' }, index: {}, counters: { RECLAMANTE: 1 } },
+          nerEntities: { ANA: { text: 'ANA', isOrg: false, status: 'aprovado' } },
+        });
+      });
+
+      expect(mockImportProjectFromJson).toHaveBeenCalledWith(
+        { version: '1.53.41' },
+        expect.objectContaining({ setSelectedTopics: mockSetSelectedTopics }),
+        expect.any(Function)
+      );
+      expect((await exportAllFieldVersions()).some(v => v.topicTitle === 'FGTS')).toBe(true);
+      expect(usePseudonymVaultStore.getState().vault.entries['[RECLAMANTE_1]']).toBe('ANA');
+      expect(usePseudonymVaultStore.getState().entities.ANA.status).toBe('aprovado');
+    });
+  });
+
   describe('State Aggregation', () => {
     it('should include all document state in buildAllStates', async () => {
       mockBuildProjectJson.mockResolvedValueOnce({});
@@ -1,10 +1,13 @@
 /**
  * @file useGoogleDriveActions.ts
  * @description Hook para ações de salvar/carregar do GoogleDriveButton
- * @version 1.38.52
+ * @version 1.53.41
  *
  * Extraído do App.tsx para reduzir tamanho do arquivo.
  * Contém callbacks para: onSave, onSaveLocal, onLoadClick, onLoadLocal do GoogleDriveButton.
+ *
+ * v1.53.41: buildSessionPayload/importSessionPayload para o sync de sessões
+ * encriptado (CloudSessionsModal).
  */
 
 import { useCallback } from 'react';
@@ -24,10 +27,14 @@ import type {
   DocumentProcessingModes,
   ProofAnalysisResult,
   ProjectState,
+  ImportedProject,
   ModalKey,
 } from '../types';
 import type { GoogleDriveFile } from './useGoogleDrive';
 import { SESSION_EXPIRED_CODE } from './useGoogleDrive';
+import { exportAllFieldVersions, importFieldVersions } from './useFieldVersioning';
+import { usePseudonymVaultStore } from '../stores/usePseudonymVaultStore';
+import type { CloudSessionPayload } from '../utils/sessionSync';
 
 // v1.41.21: Mensagem padrão para sessão Google Drive expirada.
 // Aponta o usuário para o botão "Projeto" no header — o popup de reconexão
@@ -82,6 +89,11 @@ interface AIIntegrationForDrive {
  */
 interface StorageForDrive {
   buildProjectJson: (allStates: ProjectState) => Promise<object>;
+  importProjectFromJson: (
+    project: ImportedProject,
+    callbacks: ImportCallbacks,
+    autoSaveFn: (states: SessionState, setErrorFn: (err: string | null) => void, immediate: boolean) => Promise<void>
+  ) => Promise<void>;
   exportProject: (allStates: ProjectState, onError: (err: string | null) => void) => void;
   importProject: (
     event: React.ChangeEvent<HTMLInputElement>,
@@ -163,6 +175,10 @@ export interface UseGoogleDriveActionsReturn {
   handleLocalSave: () => void;
   handleLocalLoad: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleClear: () => void;
+  /** v1.53.41: Sessão atual completa (projeto + histórico de versões + cofre) */
+  buildSessionPayload: () => Promise<CloudSessionPayload>;
+  /** v1.53.41: Substitui a sessão atual pela baixada de outro dispositivo */
+  importSessionPayload: (payload: CloudSessionPayload) => Promise<void>;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -260,45 +276,78 @@ export function useGoogleDriveActions(props: UseGoogleDriveActionsProps): UseGoo
     storage.exportProject(allStates, (err: string | null) => setError(err || ''));
   }, [buildAllStates, storage, setError]);
 
+  /**
+   * Callbacks de import (arquivo local e sessão sincronizada)
+   */
+  const buildImportCallbacks = useCallback((): ImportCallbacks => ({
+    setPastedPeticaoTexts: documentSetters.setPastedPeticaoTexts,
+    setPastedContestacaoTexts: documentSetters.setPastedContestacaoTexts,
+    setPastedComplementaryTexts: documentSetters.setPastedComplementaryTexts,
+    setExtractedTopics: documentSetters.setExtractedTopics,
+    setSelectedTopics: documentSetters.setSelectedTopics,
+    setPartesProcesso: documentSetters.setPartesProcesso,
+    setAnalyzedDocuments: documentSetters.setAnalyzedDocuments,
+    setProofFiles: proofManager.setProofFiles,
+    setProofTexts: proofManager.setProofTexts,
+    setProofUsePdfMode: proofManager.setProofUsePdfMode,
+    setExtractedProofTexts: proofManager.setExtractedProofTexts,
+    setProofExtractionFailed: proofManager.setProofExtractionFailed,
+    setProofTopicLinks: proofManager.setProofTopicLinks,
+    setProofAnalysisResults: proofManager.setProofAnalysisResults,
+    setProofConclusions: proofManager.setProofConclusions,
+    setProofSendFullContent: proofManager.setProofSendFullContent,
+    setActiveTab: documentSetters.setActiveTab,
+    setAiSettings: aiIntegration.setAiSettings,
+    setError: (err) => setError(err || ''),
+    setProcessoNumero: documentSetters.setProcessoNumero,
+    setPeticaoFiles: documentSetters.setPeticaoFiles,
+    setContestacaoFiles: documentSetters.setContestacaoFiles,
+    setComplementaryFiles: documentSetters.setComplementaryFiles,
+    setExtractedTexts: documentSetters.setExtractedTexts,
+    setDocumentProcessingModes: documentSetters.setDocumentProcessingModes,
+    setTokenMetrics: aiIntegration.setTokenMetrics
+  }), [documentSetters, proofManager, aiIntegration, setError]);
+
+  const autoSaveFn = useCallback((states: SessionState, setErrorFn: (err: string | null) => void, immediate: boolean) => {
+    return storage.autoSaveSession(states, setErrorFn, immediate);
+  }, [storage]);
+
   /**
    * Load project from local file
    */
   const handleLocalLoad = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const callbacks: ImportCallbacks = {
-      setPastedPeticaoTexts: documentSetters.setPastedPeticaoTexts,
-      setPastedContestacaoTexts: documentSetters.setPastedContestacaoTexts,
-      setPastedComplementaryTexts: documentSetters.setPastedComplementaryTexts,
-      setExtractedTopics: documentSetters.setExtractedTopics,
-      setSelectedTopics: documentSetters.setSelectedTopics,
-      setPartesProcesso: documentSetters.setPartesProcesso,
-      setAnalyzedDocuments: documentSetters.setAnalyzedDocuments,
-      setProofFiles: proofManager.setProofFiles,
-      setProofTexts: proofManager.setProofTexts,
-      setProofUsePdfMode: proofManager.setProofUsePdfMode,
-      setExtractedProofTexts: proofManager.setExtractedProofTexts,
-      setProofExtractionFailed: proofManager.setProofExtractionFailed,
-      setProofTopicLinks: proofManager.setProofTopicLinks,
-      setProofAnalysisResults: proofManager.setProofAnalysisResults,
-      setProofConclusions: proofManager.setProofConclusions,
-      setProofSendFullContent: proofManager.setProofSendFullContent,
-      setActiveTab: documentSetters.setActiveTab,
-      setAiSettings: aiIntegration.setAiSettings,
-      setError: (err) => setError(err || ''),
-      setProcessoNumero: documentSetters.setProcessoNumero,
-      setPeticaoFiles: documentSetters.setPeticaoFiles,
-      setContestacaoFiles: documentSetters.setContestacaoFiles,
-      setComplementaryFiles: documentSetters.setComplementaryFiles,
-      setExtractedTexts: documentSetters.setExtractedTexts,
-      setDocumentProcessingModes: documentSetters.setDocumentProcessingModes,
-      setTokenMetrics: aiIntegration.setTokenMetrics
-    };
+    storage.importProject(e, buildImportCallbacks(), autoSaveFn);
+  }, [storage, buildImportCallbacks, autoSaveFn]);
 
-    const autoSaveFn = (states: SessionState, setErrorFn: (err: string | null) => void, immediate: boolean) => {
-      return storage.autoSaveSession(states, setErrorFn, immediate);
+  /**
+   * v1.53.41: Pacote da sessão para o sync entre dispositivos
+   */
+  const buildSessionPayload = useCallback(async (): Promise<CloudSessionPayload> => {
+    const project = await storage.buildProjectJson(buildAllStates());
+    const { vault, entities } = usePseudonymVaultStore.getState();
+    return {
+      format: 'sentencify-session',
+      version: 1,
+      project,
+      fieldVersions: await exportAllFieldVersions(),
+      pseudonymVault: vault,
+      nerEntities: entities,
     };
+  }, [storage, buildAllStates]);
 
-    storage.importProject(e, callbacks, autoSaveFn);
-  }, [documentSetters, proofManager, aiIntegration, storage, setError]);
+  /**
+   * v1.53.41: Restaura uma sessão sincronizada. importProjectFromJson zera o
+   * histórico de versões, que é reposto em seguida; o cofre de pseudônimos
+   * acompanha a sessão para a re-identificação continuar funcionando.
+   */
+  const importSessionPayload = useCallback(async (payload: CloudSessionPayload) => {
+    await storage.importProjectFromJson(payload.project as ImportedProject, buildImportCallbacks(), autoSaveFn);
+    await importFieldVersions(payload.fieldVersions || []);
+    const vaultStore = usePseudonymVaultStore.getState();
+    vaultStore.resetAll();
+    if (payload.pseudonymVault) vaultStore.setVault(payload.pseudonymVault);
+    if (payload.nerEntities) usePseudonymVaultStore.setState({ entities: payload.nerEntities });
+  }, [storage, buildImportCallbacks, autoSaveFn]);
 
   /**
    * Open clear project modal
@@ -313,5 +362,7 @@ export function useGoogleDriveActions(props: UseGoogleDriveActionsProps): UseGoo
     handleLocalSave,
     handleLocalLoad,
     handleClear,
+    buildSessionPayload,
+    importSessionPayload,
   };
 }
@@ -22,6 +22,7 @@ import { normalizeHTMLSpacing } from '../utils/text';
 import { sanitizeHTML } from '../utils/sanitizeHTML';
 import { stripInlineColors } from '../utils/color-stripper';
 import { InlineGeneratePopover, type InlineGenerateMode } from '../components/editors/InlineGeneratePopover';
+import { reidentifyForEditor } from '../stores/usePseudonymVaultStore';
 import type { QuillInstance, InlineGenerateFn } from '../types';
 
 export interface UseInlineGenerateOptions {
@@ -196,7 +197,7 @@ export function useInlineGenerate(
     try { quill.enable(true); } catch { /* noop */ }
 
     const idx = cursorIdxRef.current;
-    const html = stripInlineColors(sanitizeHTML(normalizeHTMLSpacing(text)) || '');
+    const html = stripInlineColors(sanitizeHTML(normalizeHTMLSpacing(reidentifyForEditor(text))) || '');
     // Mede o tamanho antes/depois para posicionar o cursor logo após o trecho inserido
     // (getText(idx) contaria também o que já existia depois do cursor → iria pro fim do doc).
     const lengthBefore = quill.getLength();
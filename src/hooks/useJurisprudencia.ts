@@ -7,7 +7,9 @@
  */
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import type { Precedente, FiltrosJuris } from '../types';
+import { FullTextIndexService } from '../services/FullTextIndexService';
+import { precedenteToFullTextDoc, searchFullText } from '../utils/fullTextSearch';
+import type { Precedente, FiltrosJuris, FullTextHit, FullTextIndex } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONSTANTES
@@ -41,6 +43,22 @@ export const JURIS_TRIBUNAIS_DISPONIVEIS = ['TST', 'STF', 'STJ', 'TRT8'];
 export const isIRRType = (tipo: string | null | undefined): boolean =>
   IRR_TYPES.has((tipo || '').toUpperCase().replace(/-/g, ''));
 
+/**
+ * Verifica se o precedente passa nos filtros de fonte, tipo e tribunal
+ */
+export const matchesFiltrosJuris = (
+  p: Pick<Precedente, 'category' | 'tipoProcesso' | 'tribunal'>,
+  filtros: FiltrosJuris
+): boolean => {
+  if (filtros.fonte.length > 0 && !(p.category && filtros.fonte.includes(p.category))) return false;
+  if (filtros.tipo.length > 0) {
+    if (!p.tipoProcesso) return false;
+    if (!(filtros.tipo.includes('IRR') && isIRRType(p.tipoProcesso)) && !filtros.tipo.includes(p.tipoProcesso)) return false;
+  }
+  if (filtros.tribunal && filtros.tribunal.length > 0 && !(p.tribunal && filtros.tribunal.includes(p.tribunal))) return false;
+  return true;
+};
+
 /**
  * Abre conexão com o IndexedDB de jurisprudência
  */
@@ -133,6 +151,10 @@ export interface UseJurisprudenciaReturn {
   handleClearAll: () => Promise<void>;
   reloadPrecedentes: () => Promise<number>;
   copiedId: string | null;
+  /** v1.53.35: Índice BM25 pronto (busca com frases, citações e operadores) */
+  fullTextReady: boolean;
+  /** v1.53.35: Busca BM25 crua (ids de precedentes), usada na fusão com os embeddings */
+  fullTextSearch: (query: string, limit?: number) => FullTextHit[];
 }
 
 /**
@@ -147,14 +169,29 @@ export function useJurisprudencia(): UseJurisprudenciaReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [deleteAllConfirmText, setDeleteAllConfirmText] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [fullTextIndex, setFullTextIndex] = useState<FullTextIndex | null>(null);
+  // v1.53.54: Índice só depois da carga inicial (antes dela, precedentes = [] não reflete a base)
+  const [precedentesLoaded, setPrecedentesLoaded] = useState(false);
   const itemsPerPage = 10;
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const removeAccents = useCallback((str: string) =>
     str.normalize('NFD').replace(/[\u0300-\u036f]/g, ''), []);
 
+  const fullTextSearch = useCallback((query: string, limit = 50) =>
+    searchFullText(fullTextIndex, query, limit), [fullTextIndex]);
+
   const searchPrecedentes = useCallback((term: string) => {
     if (!term?.trim()) return precedentes;
+
+    // v1.53.35: Índice BM25 (a busca por substring abaixo fica enquanto o índice carrega)
+    if (fullTextIndex) {
+      const byId = new Map(precedentes.map(p => [p.id, p]));
+      return searchFullText(fullTextIndex, term, precedentes.length)
+        .map(hit => byId.get(hit.id))
+        .filter((p): p is Precedente => !!p);
+    }
+
     const normalizedTerm = removeAccents(term.toLowerCase());
     const terms = normalizedTerm.split(/\s+/).filter(t => t.length > 2);
     return precedentes
@@ -173,25 +210,11 @@ export function useJurisprudencia(): UseJurisprudenciaReturn {
       .filter(({ score }) => score > 0)
       .sort((a, b) => b.score - a.score)
       .map(({ precedente }) => precedente);
-  }, [precedentes, removeAccents]);
+  }, [precedentes, removeAccents, fullTextIndex]);
 
   const filteredPrecedentes = useMemo(() => {
-    let result = searchTerm ? searchPrecedentes(searchTerm) : precedentes;
-    if (filtros.fonte.length > 0) {
-      result = result.filter(p => p.category && filtros.fonte.includes(p.category));
-    }
-    if (filtros.tipo.length > 0) {
-      result = result.filter(p => {
-        if (!p.tipoProcesso) return false;
-        if (filtros.tipo.includes('IRR') && isIRRType(p.tipoProcesso)) return true;
-        return filtros.tipo.includes(p.tipoProcesso);
-      });
-    }
-    if (filtros.tribunal && filtros.tribunal.length > 0) {
-      const tribunalFilter = filtros.tribunal;
-      result = result.filter(p => p.tribunal && tribunalFilter.includes(p.tribunal));
-    }
-    return result;
+    const result = searchTerm ? searchPrecedentes(searchTerm) : precedentes;
+    return result.filter(p => matchesFiltrosJuris(p, filtros));
   }, [precedentes, searchTerm, filtros, searchPrecedentes]);
 
   const paginatedPrecedentes = useMemo(() => {
@@ -245,6 +268,8 @@ export function useJurisprudencia(): UseJurisprudenciaReturn {
   const handleClearAll = useCallback(async () => {
     setPrecedentes([]);
     await clearPrecedentesFromIndexedDB();
+    await FullTextIndexService.clear('jurisprudencia')
+      .catch(err => console.warn('[FullText] Falha ao limpar índice de jurisprudência:', err));
   }, []);
 
   // v1.33.61: Recarregar precedentes do IndexedDB (usado após download automático)
@@ -256,9 +281,19 @@ export function useJurisprudencia(): UseJurisprudenciaReturn {
 
   // Carregar precedentes na inicialização
   useEffect(() => {
-    loadPrecedentesFromIndexedDB().then(setPrecedentes);
+    loadPrecedentesFromIndexedDB().then(setPrecedentes).finally(() => setPrecedentesLoaded(true));
   }, []);
 
+  // v1.53.35: Índice BM25 persistido no IndexedDB (reconstruído quando os precedentes mudam)
+  useEffect(() => {
+    if (!precedentesLoaded) return;
+    let cancelled = false;
+    FullTextIndexService.getOrBuild('jurisprudencia', precedentes.map(precedenteToFullTextDoc))
+      .then(index => { if (!cancelled) setFullTextIndex(index); })
+      .catch(err => console.warn('[FullText] Índice de jurisprudência indisponível:', err));
+    return () => { cancelled = true; };
+  }, [precedentes, precedentesLoaded]);
+
   // Cleanup do timeout de busca
   useEffect(() => {
     return () => {
@@ -284,6 +319,8 @@ export function useJurisprudencia(): UseJurisprudenciaReturn {
     handleCopyTese,
     handleClearAll,
     reloadPrecedentes,
-    copiedId
+    copiedId,
+    fullTextReady: fullTextIndex !== null,
+    fullTextSearch
   };
 }
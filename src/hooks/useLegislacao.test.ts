@@ -0,0 +1,54 @@
+/**
+ * @file useLegislacao.test.ts
+ * @description Testes do índice BM25 no ciclo de vida do hook de legislação
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useLegislacao, saveArtigosToIndexedDB, clearArtigosFromIndexedDB } from './useLegislacao';
+import { FullTextIndexService } from '../services/FullTextIndexService';
+import type { Artigo } from '../types';
+
+const ARTIGO: Artigo = {
+  id: 'clt-art-477',
+  lei: 'clt',
+  numero: '477',
+  texto: 'Na extinção do contrato de trabalho, o empregador deverá pagar as verbas rescisórias.',
+  caput: 'Na extinção do contrato de trabalho, o empregador deverá pagar as verbas rescisórias.',
+};
+
+describe('useLegislacao — índice BM25', () => {
+  beforeEach(async () => {
+    await clearArtigosFromIndexedDB();
+    await FullTextIndexService.clear('legislacao');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds the index only after the articles are loaded', async () => {
+    await saveArtigosToIndexedDB([ARTIGO]);
+    const getOrBuild = vi.spyOn(FullTextIndexService, 'getOrBuild');
+
+    const { result } = renderHook(() => useLegislacao());
+
+    await waitFor(() => expect(result.current.fullTextReady).toBe(true));
+    expect(getOrBuild).toHaveBeenCalledTimes(1);
+    expect(getOrBuild.mock.calls[0][1].map(doc => doc.id)).toEqual(['clt-art-477']);
+  });
+
+  it('clears the persisted index when the base is deleted', async () => {
+    await saveArtigosToIndexedDB([ARTIGO]);
+    const getOrBuild = vi.spyOn(FullTextIndexService, 'getOrBuild');
+    const { result } = renderHook(() => useLegislacao());
+    await waitFor(() => expect(result.current.fullTextReady).toBe(true));
+    expect(await FullTextIndexService.load('legislacao')).not.toBeNull();
+
+    await act(async () => { await result.current.handleClearAll(); });
+    await act(async () => { await getOrBuild.mock.results[getOrBuild.mock.results.length - 1]?.value; });
+
+    expect(await FullTextIndexService.load('legislacao')).toBeNull();
+    expect(result.current.artigos).toEqual([]);
+  });
+});
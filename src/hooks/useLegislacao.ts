@@ -7,7 +7,11 @@
  */
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import type { Artigo } from '../types';
+import { FullTextIndexService } from '../services/FullTextIndexService';
+import { artigoToFullTextDoc, searchFullText } from '../utils/fullTextSearch';
+import { mergeArtigoRedacoes } from '../utils/legislacaoRedacoes';
+import { useLiquidacaoStore } from '../stores/useLiquidacaoStore';
+import type { Artigo, ContratoPeriodo, FullTextHit, FullTextIndex } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CONSTANTES
@@ -101,6 +105,18 @@ export const loadArtigosFromIndexedDB = async (): Promise<Artigo[]> => {
   }
 };
 
+/**
+ * v1.53.37: Artigos + período do contrato informado na liquidação, para o contexto da IA
+ * escolher a redação vigente (sem período, o chat-context-builder lê os relatórios)
+ */
+export const loadLegislacaoChatContext = async (): Promise<{ artigos: Artigo[]; contratoPeriodo: ContratoPeriodo | null }> => {
+  const params = useLiquidacaoStore.getState().params;
+  return {
+    artigos: await loadArtigosFromIndexedDB(),
+    contratoPeriodo: params?.admissao ? { inicio: params.admissao, ...(params.demissao ? { fim: params.demissao } : {}) } : null,
+  };
+};
+
 /**
  * Limpa todos os artigos do IndexedDB
  */
@@ -163,6 +179,10 @@ export interface UseLegislacaoReturn {
   handleCopyArtigo: (artigo: Artigo) => Promise<boolean>;
   handleClearAll: () => Promise<void>;
   reloadArtigos: () => Promise<number>;
+  /** v1.53.35: Índice BM25 pronto (busca com frases, citações e operadores) */
+  fullTextReady: boolean;
+  /** v1.53.35: Busca BM25 crua (ids de artigos), usada na fusão com os embeddings */
+  fullTextSearch: (query: string, limit?: number) => FullTextHit[];
 }
 
 /**
@@ -178,6 +198,9 @@ export function useLegislacao(): UseLegislacaoReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [fullTextIndex, setFullTextIndex] = useState<FullTextIndex | null>(null);
+  // v1.53.54: Índice só depois da carga inicial (antes dela, artigos = [] não reflete a base)
+  const [artigosLoaded, setArtigosLoaded] = useState(false);
 
   const ITEMS_PER_PAGE = 15;
 
@@ -185,8 +208,20 @@ export function useLegislacao(): UseLegislacaoReturn {
     return str?.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase() || '';
   }, []);
 
+  const fullTextSearch = useCallback((query: string, limit = 50) =>
+    searchFullText(fullTextIndex, query, limit), [fullTextIndex]);
+
   const searchArtigos = useCallback((term: string, lista: Artigo[]) => {
     if (!term?.trim()) return lista;
+
+    // v1.53.35: Índice BM25 (a busca por substring abaixo fica enquanto o índice carrega)
+    if (fullTextIndex) {
+      const byId = new Map(lista.map(a => [a.id, a]));
+      return searchFullText(fullTextIndex, term, lista.length)
+        .map(hit => byId.get(hit.id))
+        .filter((a): a is Artigo => !!a);
+    }
+
     const termNorm = removeAccents(term.trim());
     const terms = termNorm.split(/\s+/).filter(t => t.length > 1);
     const numeroMatch = term.match(/\d+[º°]?(?:-[a-z])?/i);
@@ -219,7 +254,7 @@ export function useLegislacao(): UseLegislacaoReturn {
     .filter(({ score }) => score > 0)
     .sort((a: { score: number }, b: { score: number }) => b.score - a.score)
     .map(({ artigo }) => artigo);
-  }, [removeAccents]);
+  }, [removeAccents, fullTextIndex]);
 
   const filteredArtigos = useMemo(() => {
     let result = artigos;
@@ -250,7 +285,9 @@ export function useLegislacao(): UseLegislacaoReturn {
         throw new Error('Arquivo não contém artigos válidos');
       }
 
-      await saveArtigosToIndexedDB(items);
+      // v1.53.37: texto alterado com nova vigência não sobrescreve a redação anterior
+      const existentes = new Map((await loadArtigosFromIndexedDB()).map(a => [a.id, a]));
+      await saveArtigosToIndexedDB((items as Artigo[]).map(item => mergeArtigoRedacoes(existentes.get(item.id), item)));
       const allArtigos = await loadArtigosFromIndexedDB();
       setArtigos(sortArtigosNatural(allArtigos));
 
@@ -301,6 +338,8 @@ export function useLegislacao(): UseLegislacaoReturn {
     setLeisDisponiveis([]);
     setDeleteConfirmText('');
     await clearArtigosFromIndexedDB();
+    await FullTextIndexService.clear('legislacao')
+      .catch(err => console.warn('[FullText] Falha ao limpar índice de legislação:', err));
   }, []);
 
   // v1.33.61: Recarregar artigos do IndexedDB (usado após download automático)
@@ -318,9 +357,19 @@ export function useLegislacao(): UseLegislacaoReturn {
       setArtigos(sortArtigosNatural(data));
       const leis = [...new Set(data.map(a => a.lei || a.id?.split('-art-')[0] || a.id?.split('-')[0]))].filter(Boolean) as string[];
       setLeisDisponiveis(leis.sort());
-    });
+    }).finally(() => setArtigosLoaded(true));
   }, []);
 
+  // v1.53.35: Índice BM25 persistido no IndexedDB (reconstruído quando os artigos mudam)
+  useEffect(() => {
+    if (!artigosLoaded) return;
+    let cancelled = false;
+    FullTextIndexService.getOrBuild('legislacao', artigos.map(artigoToFullTextDoc))
+      .then(index => { if (!cancelled) setFullTextIndex(index); })
+      .catch(err => console.warn('[FullText] Índice de legislação indisponível:', err));
+    return () => { cancelled = true; };
+  }, [artigos, artigosLoaded]);
+
   // Reset página ao mudar filtros
   useEffect(() => {
     setCurrentPage(1);
@@ -346,6 +395,8 @@ export function useLegislacao(): UseLegislacaoReturn {
     handleImportJSON,
     handleCopyArtigo,
     handleClearAll,
-    reloadArtigos
+    reloadArtigos,
+    fullTextReady: fullTextIndex !== null,
+    fullTextSearch
   };
 }
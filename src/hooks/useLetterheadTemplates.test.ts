@@ -0,0 +1,62 @@
+/**
+ * @file useLetterheadTemplates.test.ts
+ * @description Testes para o hook de timbres da exportação .docx
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useLetterheadTemplates } from './useLetterheadTemplates';
+import { DEFAULT_LETTERHEAD_TEMPLATES, LETTERHEAD_STORAGE_KEY, LETTERHEAD_ACTIVE_KEY } from '../constants/letterhead';
+
+describe('useLetterheadTemplates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('inicia com os timbres padrão e o primeiro ativo', () => {
+    const { result } = renderHook(() => useLetterheadTemplates());
+    expect(result.current.templates.map(t => t.id)).toEqual(DEFAULT_LETTERHEAD_TEMPLATES.map(t => t.id));
+    expect(result.current.activeTemplate.id).toBe(DEFAULT_LETTERHEAD_TEMPLATES[0].id);
+  });
+
+  it('salva novo timbre e persiste no localStorage', () => {
+    const { result } = renderHook(() => useLetterheadTemplates());
+    act(() => {
+      result.current.saveTemplate({ ...DEFAULT_LETTERHEAD_TEMPLATES[0], id: 'vara-1', name: '1ª VT' });
+      result.current.setActiveTemplateId('vara-1');
+    });
+    expect(result.current.activeTemplate.name).toBe('1ª VT');
+    expect(JSON.parse(localStorage.getItem(LETTERHEAD_STORAGE_KEY)!)).toHaveLength(3);
+    expect(localStorage.getItem(LETTERHEAD_ACTIVE_KEY)).toBe('vara-1');
+  });
+
+  it('atualiza timbre existente pelo id', () => {
+    const { result } = renderHook(() => useLetterheadTemplates());
+    act(() => {
+      result.current.saveTemplate({ ...DEFAULT_LETTERHEAD_TEMPLATES[0], judgeName: 'Fulano' });
+    });
+    expect(result.current.templates).toHaveLength(2);
+    expect(result.current.activeTemplate.judgeName).toBe('Fulano');
+  });
+
+  it('cai no primeiro timbre quando o ativo é removido', () => {
+    const { result } = renderHook(() => useLetterheadTemplates());
+    act(() => result.current.deleteTemplate(DEFAULT_LETTERHEAD_TEMPLATES[0].id));
+    expect(result.current.activeTemplate.id).toBe(DEFAULT_LETTERHEAD_TEMPLATES[1].id);
+  });
+
+  it('não remove o último timbre restante', () => {
+    const { result } = renderHook(() => useLetterheadTemplates());
+    act(() => result.current.deleteTemplate(DEFAULT_LETTERHEAD_TEMPLATES[0].id));
+    act(() => result.current.deleteTemplate(DEFAULT_LETTERHEAD_TEMPLATES[1].id));
+    expect(result.current.templates).toHaveLength(1);
+  });
+
+  it('restaura timbres salvos anteriormente', () => {
+    localStorage.setItem(LETTERHEAD_STORAGE_KEY, JSON.stringify([{ id: 'x', name: 'Salvo' }]));
+    localStorage.setItem(LETTERHEAD_ACTIVE_KEY, 'x');
+    const { result } = renderHook(() => useLetterheadTemplates());
+    expect(result.current.activeTemplate.name).toBe('Salvo');
+    expect(result.current.activeTemplate.showPageNumbers).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @file useLetterheadTemplates.ts
+ * @description Hook para os timbres da exportação .docx (persistidos no localStorage)
+ * @tier 0 (sem dependências)
+ * @version 1.53.29
+ * @usedBy ExportModal
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DEFAULT_LETTERHEAD_TEMPLATES,
+  DEFAULT_LETTERHEAD_ID,
+  LETTERHEAD_STORAGE_KEY,
+  LETTERHEAD_ACTIVE_KEY,
+} from '../constants/letterhead';
+import type { LetterheadTemplate } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface UseLetterheadTemplatesReturn {
+  /** Timbres disponíveis (padrão + criados pelo usuário) */
+  templates: LetterheadTemplate[];
+  /** Timbre selecionado (sempre definido; cai no padrão se o id sumir) */
+  activeTemplate: LetterheadTemplate;
+  /** Seleciona o timbre ativo */
+  setActiveTemplateId: (id: string) => void;
+  /** Cria ou atualiza um timbre (match por id) */
+  saveTemplate: (template: LetterheadTemplate) => void;
+  /** Remove um timbre; o último timbre restante não pode ser removido */
+  deleteTemplate: (id: string) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function loadTemplates(): LetterheadTemplate[] {
+  try {
+    const saved = localStorage.getItem(LETTERHEAD_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        // Merge com o padrão para tolerar campos adicionados em versões futuras
+        return parsed.map((t: Partial<LetterheadTemplate>) => ({ ...DEFAULT_LETTERHEAD_TEMPLATES[1], ...t }) as LetterheadTemplate);
+      }
+    }
+  } catch (err) {
+    // Ignore localStorage/JSON errors
+  }
+  return DEFAULT_LETTERHEAD_TEMPLATES.map(t => ({ ...t }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// HOOK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function useLetterheadTemplates(): UseLetterheadTemplatesReturn {
+  const [templates, setTemplates] = useState<LetterheadTemplate[]>(loadTemplates);
+  const [activeId, setActiveId] = useState<string>(() => {
+    try {
+      return localStorage.getItem(LETTERHEAD_ACTIVE_KEY) || DEFAULT_LETTERHEAD_ID;
+    } catch (err) {
+      return DEFAULT_LETTERHEAD_ID;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LETTERHEAD_STORAGE_KEY, JSON.stringify(templates));
+    } catch (err) {
+      // Ignore localStorage errors
+    }
+  }, [templates]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LETTERHEAD_ACTIVE_KEY, activeId);
+    } catch (err) {
+      // Ignore localStorage errors
+    }
+  }, [activeId]);
+
+  const activeTemplate = useMemo(
+    () => templates.find(t => t.id === activeId) || templates[0],
+    [templates, activeId]
+  );
+
+  const saveTemplate = useCallback((template: LetterheadTemplate) => {
+    setTemplates(prev => {
+      const exists = prev.some(t => t.id === template.id);
+      return exists ? prev.map(t => (t.id === template.id ? template : t)) : [...prev, template];
+    });
+  }, []);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setTemplates(prev => (prev.length <= 1 ? prev : prev.filter(t => t.id !== id)));
+  }, []);
+
+  return {
+    templates,
+    activeTemplate,
+    setActiveTemplateId: setActiveId,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
+
+export default useLetterheadTemplates;
@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { savePdfToIndexedDB, convertFileWithFallback } from './useLocalStorage';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { savePdfToIndexedDB, convertFileWithFallback, useLocalStorage } from './useLocalStorage';
+import { useLiquidacaoStore } from '../stores/useLiquidacaoStore';
+import type { LiquidacaoResultado, RestoreSessionCallbacks, SessionState } from '../types';
 
 // fake-indexeddb is configured in setup.js
 
@@ -152,3 +155,38 @@ describe('convertFileWithFallback', () => {
     ).rejects.toBe(original);
   });
 });
+
+describe('liquidação na sessão', () => {
+  const resultado: LiquidacaoResultado = {
+    linhas: [], totalPrincipal: 1000, totalCorrecao: 10, totalSelic: 20, total: 1030,
+    avisoPrevioDias: 33, dataCalculo: '2024-06-15', criterio: 'ADC 58', avisos: [],
+  };
+
+  const session = { processoNumero: '0001', extractedTopics: [], selectedTopics: [], proofFiles: [] } as unknown as SessionState;
+
+  /** Callbacks do restoreSession: cada setter é um vi.fn criado sob demanda */
+  const restoreCallbacks = () => new Proxy({} as Record<string, unknown>, {
+    get: (target, key: string) => (target[key] ??= vi.fn()),
+  }) as unknown as RestoreSessionCallbacks;
+
+  beforeEach(() => {
+    localStorage.clear();
+    useLiquidacaoStore.getState().resetAll();
+  });
+
+  it('saves the estimate and restores it with the session', async () => {
+    useLiquidacaoStore.getState().setResultado(resultado);
+    useLiquidacaoStore.getState().setAnexarAoDispositivo(false);
+    const { result } = renderHook(() => useLocalStorage());
+
+    await act(() => result.current.autoSaveSession(session, () => {}, true));
+    expect(JSON.parse(localStorage.getItem('sentencifySession') || '{}').liquidacao)
+      .toEqual({ params: null, resultado, anexarAoDispositivo: false });
+
+    useLiquidacaoStore.getState().resetAll();
+    await act(() => result.current.restoreSession(restoreCallbacks()));
+
+    expect(useLiquidacaoStore.getState().resultado).toEqual(resultado);
+    expect(useLiquidacaoStore.getState().anexarAoDispositivo).toBe(false);
+  });
+});
@@ -40,6 +40,9 @@ import type {
 } from '../types';
 import { useAIStore, migrateQuickPrompts } from '../stores/useAIStore';
 import { useReviewStore } from '../stores/useReviewStore';
+import { useLiquidacaoStore } from '../stores/useLiquidacaoStore';
+import { usePseudonymVaultStore } from '../stores/usePseudonymVaultStore';
+import { clearLinkedCloudSession } from '../utils/sessionSync';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // PDF INDEXEDDB HELPERS (v1.38.52: Extracted to usePdfStorage.ts)
@@ -448,7 +451,9 @@ export function useLocalStorage(): UseLocalStorageReturn {
         proofConclusions: proofConclusions,
         proofSendFullContent: allStates.proofSendFullContent || {},
         // v1.20.3: Contador de tokens persistente
-        tokenMetrics: tokenMetrics || { totalInput: 0, totalOutput: 0, totalCacheRead: 0, totalCacheCreation: 0, requestCount: 0, lastUpdated: null }
+        tokenMetrics: tokenMetrics || { totalInput: 0, totalOutput: 0, totalCacheRead: 0, totalCacheCreation: 0, requestCount: 0, lastUpdated: null },
+        // v1.53.54: Estimativa de liquidação do processo
+        liquidacao: allStates.liquidacao ?? useLiquidacaoStore.getState().serializeForPersistence()
       };
 
       if (immediate) {
@@ -608,6 +613,7 @@ export function useLocalStorage(): UseLocalStorageReturn {
       setExtractedTopics(session.extractedTopics || []);
       setSelectedTopics(session.selectedTopics || []);
       setPartesProcesso(session.partesProcesso || { reclamante: '', reclamadas: [] });
+      useLiquidacaoStore.getState().restoreFromPersistence(session.liquidacao);
 
       // v1.40.18: Carregar analyzedDocuments texts do IndexedDB
       const restoredAnalyzedDocs: {
@@ -1180,7 +1186,8 @@ export function useLocalStorage(): UseLocalStorageReturn {
       tokenMetrics: tokenMetrics || { totalInput: 0, totalOutput: 0, totalCacheRead: 0, totalCacheCreation: 0, requestCount: 0, lastUpdated: null },
       factsComparison,  // v1.36.12
       sentenceReviewCache: sentenceReviewCacheExport,  // v1.36.57
-      chatHistory: chatHistoryExport  // v1.37.92
+      chatHistory: chatHistoryExport,  // v1.37.92
+      liquidacao: allStates.liquidacao ?? useLiquidacaoStore.getState().serializeForPersistence()  // v1.53.54
     };
   }, [fileToBase64]);
 
@@ -1341,6 +1348,7 @@ export function useLocalStorage(): UseLocalStorageReturn {
     }));
     setSelectedTopics(sanitizedSelectedTopics);
     setPartesProcesso(project.partesProcesso || { reclamante: '', reclamadas: [] });
+    useLiquidacaoStore.getState().restoreFromPersistence(project.liquidacao);
 
     // v1.40.18: Salvar analyzedDocuments texts no IndexedDB
     const analyzedDocs = project.analyzedDocuments || {
@@ -1842,6 +1850,15 @@ export function useLocalStorage(): UseLocalStorageReturn {
       setComplementaryFiles?.([]);
       setActiveTab('upload');
 
+      // v1.53.33: Estimativa de liquidação pertence ao processo
+      useLiquidacaoStore.getState().resetAll();
+
+      // v1.53.39: Cofre de pseudônimos é do processo — não pode vazar para o próximo
+      usePseudonymVaultStore.getState().resetAll();
+
+      // v1.53.41: Processo novo não continua vinculado à sessão da nuvem
+      clearLinkedCloudSession();
+
       // Limpar estados do sistema de provas - Dados (v1.2.0)
       setProofFiles([]);
       setProofTexts([]);
@@ -400,6 +400,44 @@ describe('useModelEditing', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // applyRestoredRevision (v1.53.44)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('applyRestoredRevision', () => {
+    it('should replace the local model without pushing when semantic search is off', async () => {
+      const props = createDefaultProps();
+      const { result } = renderHook(() => useModelEditing(props));
+      const restored = { ...createMockModel('model-1', 'Model 1', '<p>Texto antigo</p>'), syncVersion: 7, embedding: [1, 2] };
+
+      await act(async () => {
+        await result.current.applyRestoredRevision(restored);
+      });
+
+      const updatedModels = mockSetModels.mock.calls[0][0] as Model[];
+      expect(updatedModels[0]).toMatchObject({ content: '<p>Texto antigo</p>', syncVersion: 7 });
+      expect(updatedModels[0].embedding).toBeUndefined();
+      expect(mockOpenPreview).toHaveBeenCalledWith(expect.objectContaining({ syncVersion: 7 }));
+      expect(mockTrackChange).not.toHaveBeenCalled();
+    });
+
+    it('should push the regenerated embedding when semantic search is active', async () => {
+      const props = createDefaultProps();
+      props.aiIntegration.aiSettings.modelSemanticEnabled = true;
+      props.searchModelReady = true;
+      const { result } = renderHook(() => useModelEditing(props));
+
+      await act(async () => {
+        await result.current.applyRestoredRevision({ ...createMockModel('model-1', 'Model 1'), syncVersion: 7 });
+      });
+
+      expect(mockTrackChange).toHaveBeenCalledWith('update', expect.objectContaining({
+        syncVersion: 7,
+        embedding: [0.1, 0.2, 0.3],
+      }));
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // CLOUD SYNC HANDLING
   // ═══════════════════════════════════════════════════════════════
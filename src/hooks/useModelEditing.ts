@@ -4,7 +4,8 @@
  * @version 1.38.52
  *
  * Extraído do App.tsx para reduzir tamanho do arquivo.
- * Contém handlers para: saveQuickEdit, confirmSaveAsNew, startEditingModel, duplicateModel.
+ * Contém handlers para: saveQuickEdit, confirmSaveAsNew, startEditingModel, duplicateModel,
+ * applyRestoredRevision (v1.53.44).
  */
 
 import { useCallback } from 'react';
@@ -94,6 +95,7 @@ export interface UseModelEditingReturn {
   confirmSaveAsNew: () => Promise<void>;
   startEditingModel: (model: Model) => void;
   duplicateModel: (model: Model) => Promise<void>;
+  applyRestoredRevision: (model: Model) => Promise<void>;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -200,6 +202,47 @@ export function useModelEditing(props: UseModelEditingProps): UseModelEditingRet
     showToast,
   ]);
 
+  /**
+   * v1.53.44: Applies a revision restored on the server (ModelHistoryPanel) to the local library.
+   * The server already holds the restored text with a new syncVersion, so there is nothing to push —
+   * except the regenerated embedding when local AI is active (the server discards it on restore).
+   */
+  const applyRestoredRevision = useCallback(async (restoredModel: Model) => {
+    const updatedModel: Model = { ...restoredModel };
+    delete updatedModel.embedding;
+
+    if (aiIntegration.aiSettings.modelSemanticEnabled && searchModelReady) {
+      try {
+        updatedModel.embedding = await AIModelService.getEmbedding(buildModelEmbeddingText(updatedModel), 'passage');
+        if (cloudSync?.trackChange) cloudSync.trackChange('update', updatedModel);
+      } catch (err) {
+        console.warn('[MODEL-EMBED] Erro ao regenerar embedding:', err);
+      }
+    }
+
+    modelLibrary.setModels(modelLibrary.models.map(m => m.id === updatedModel.id ? updatedModel : m));
+    modelLibrary.setHasUnsavedChanges(true);
+    TFIDFSimilarity.invalidate();
+    apiCache.invalidate('suggestions_');
+
+    if (modelLibrary.suggestions?.length > 0) {
+      modelLibrary.setSuggestions(
+        modelLibrary.suggestions.map(s => s.id === updatedModel.id ? updatedModel : s)
+      );
+    }
+    if (modelPreview.onModelUpdatedRef?.current) {
+      modelPreview.onModelUpdatedRef.current(updatedModel);
+    }
+    modelPreview.openPreview(updatedModel);
+  }, [
+    modelPreview,
+    modelLibrary,
+    aiIntegration.aiSettings.modelSemanticEnabled,
+    searchModelReady,
+    cloudSync,
+    apiCache,
+  ]);
+
   /**
    * Saves as a new model (from edited preview)
    * Generates embedding automatically if local AI is active
@@ -366,5 +409,6 @@ export function useModelEditing(props: UseModelEditingProps): UseModelEditingRet
     confirmSaveAsNew,
     startEditingModel,
     duplicateModel,
+    applyRestoredRevision,
   };
 }
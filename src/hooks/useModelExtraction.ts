@@ -23,6 +23,7 @@ export interface AIIntegrationForModelExtraction {
     messages: Array<{ role: string; content: AIMessageContent[] }>,
     options?: {
       maxTokens?: number;
+      operation?: string;
       useInstructions?: boolean;
       /** v1.53.10: safety sem auto-revisão final (saída é JSON) */
       semRevisaoFinal?: boolean;
@@ -345,6 +346,7 @@ ${decisionText}`;
         role: 'user',
         content: [{ type: 'text', text: analysisPrompt }]
       }], {
+        operation: 'extracao-modelos',
         maxTokens: 16000,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -111,6 +111,7 @@ Não adicione explicações, apenas as keywords separadas por vírgula.`;
         role: 'user',
         content: [{ type: 'text', text: prompt }]
       }], {
+        operation: 'palavras-chave',
         maxTokens: 500,
         useInstructions: false,
         temperature: 0.2,
@@ -203,6 +204,7 @@ Responda APENAS com JSON válido, sem explicações:
         role: 'user',
         content: [{ type: 'text', text: prompt }]
       }], {
+        operation: 'titulo-modelo',
         maxTokens: 200,
         useInstructions: false,
         temperature: 0.1,
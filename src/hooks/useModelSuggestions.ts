@@ -237,6 +237,7 @@ Inclua APENAS modelos que sejam realmente relevantes. Se nenhum for relevante, r
       let textContent;
       try {
         textContent = await aiIntegration.callAI(messages, {
+          operation: 'sugestao-modelos',
           provider: modelCfg.provider,
           model: modelCfg.model,
           maxTokens: 300,
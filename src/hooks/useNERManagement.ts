@@ -16,6 +16,7 @@
  */
 
 import { useState, useCallback } from 'react';
+import { NER_STORAGE_KEYS } from '../utils/nerNames';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -45,10 +46,8 @@ export interface UseNERManagementReturn {
 // CONSTANTES
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const STORAGE_KEYS = {
-  NER_ENABLED: 'nerEnabled',
-  NER_INCLUDE_ORG: 'nerIncludeOrg',
-} as const;
+// v1.53.40: Compartilhadas com readNerPreferences (detecção automática fora de componentes)
+const STORAGE_KEYS = NER_STORAGE_KEYS;
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // HOOK
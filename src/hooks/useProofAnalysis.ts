@@ -8,7 +8,8 @@
  */
 
 import { useCallback, useRef, useEffect } from 'react';
-import { anonymizeText, extractRevisao } from '../utils/text';
+import { extractRevisao } from '../utils/text';
+import { detectEntitiesForAI, pseudonymizeForAI } from '../stores/usePseudonymVaultStore';
 import { getCorrectionDescription } from '../utils/double-check-utils';
 import { isPdfBinaryAllowed } from '../utils/manualCall';
 import { useUIStore } from '../stores/useUIStore';
@@ -45,6 +46,7 @@ export interface AIIntegrationForProofs {
   aiSettings: AISettings;
   callAI: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     extractText?: boolean;
     temperature?: number;
@@ -54,6 +56,7 @@ export interface AIIntegrationForProofs {
   // v1.39.09: Streaming para evitar timeout
   callAIStream?: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     onChunk?: StreamChunkCallback;
   }) => Promise<string>;
@@ -287,7 +290,7 @@ export const useProofAnalysis = ({
       const anonConfig: AnonymizationSettings | null | undefined = aiIntegration?.aiSettings?.anonymization;
       const shouldAnonymize = anonConfig?.enabled;
       const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
-      const maybeAnonymize = (text: string) => shouldAnonymize ? anonymizeText(text, anonConfig, nomesParaAnonimizar) : text;
+      const maybeAnonymize = (text: string) => shouldAnonymize ? pseudonymizeForAI(text, anonConfig, nomesParaAnonimizar) : text;
 
       // Preparar conteudo da prova
       const contentArray: AIMessageContent[] = [];
@@ -296,6 +299,14 @@ export const useProofAnalysis = ({
       const attachments = proof.attachments || [];
       const hasAttachments = attachments.length > 0;
 
+      // v1.53.40: NER local sobre a prova e os anexos antes de anonimizar
+      if (shouldAnonymize) {
+        await detectEntitiesForAI([
+          proofManager.extractedProofTexts[proofId] || proof.text,
+          ...attachments.map(a => a.extractedText || a.text)
+        ], anonConfig);
+      }
+
       // v1.38.8: Helper para construir conteúdo com delimitadores XML
       // Quando há anexos, usamos XML para distinguir prova principal dos anexos
       const buildProofContent = (proofText: string, proofName: string, proofType: string): string => {
@@ -548,6 +559,7 @@ ${customInstructions ? `INSTRUÇÕES DO MAGISTRADO:\n${customInstructions}\n` :
           role: 'user',
           content: contentArray
         }], {
+          operation: 'analise-provas',
           maxTokens: 20000,
           useInstructions: true,
           onChunk
@@ -557,6 +569,7 @@ ${customInstructions ? `INSTRUÇÕES DO MAGISTRADO:\n${customInstructions}\n` :
           role: 'user',
           content: contentArray
         }], {
+          operation: 'analise-provas',
           maxTokens: 20000,
           useInstructions: true,
           temperature: 0.3,
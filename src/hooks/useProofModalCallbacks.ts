@@ -15,7 +15,7 @@ import type {
   Proof,
   ModalKey,
 } from '../types';
-import { anonymizeText } from '../utils/text';
+import { pseudonymizeForAI } from '../stores/usePseudonymVaultStore';
 import { removePdfFromIndexedDB } from './usePdfStorage';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -205,7 +205,7 @@ export function useProofModalCallbacks(props: UseProofModalCallbacksProps): UseP
       if (!pendingProof) return;
 
       const id = Date.now() + Math.random();
-      const anonText = anonymizeText(pendingProof.text, anonConfig, nomes);
+      const anonText = pseudonymizeForAI(pendingProof.text, anonConfig, nomes);
 
       proofManager.setProofTexts((prev: ProofText[]) => [...prev, {
         id,
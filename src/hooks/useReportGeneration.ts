@@ -25,6 +25,7 @@ import {
 import { parseAIResponse, RastreabilidadeResponseSchema } from '../schemas/ai-responses';
 import { splitReportIntoParagraphs } from '../utils/reportParagraphs';
 import { buildTracingSources, buildSourceTracingPrompt, mapTracingResponse } from '../utils/sourceTracing';
+import { reidentifyForEditor } from '../stores/usePseudonymVaultStore';
 import type {
   Topic,
   AnalyzedDocuments,
@@ -92,6 +93,7 @@ export type StreamChunkCallback = (fullText: string) => void;
 export interface AIIntegrationForReports {
   callAI: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     /** v1.53.10: safety sem auto-revisão final (saída vai direto pro editor) */
     semRevisaoFinal?: boolean;
@@ -105,6 +107,7 @@ export interface AIIntegrationForReports {
   }) => Promise<string>;
   callAIStream?: (messages: AIMessage[], options?: {
     maxTokens?: number;
+    operation?: string;
     useInstructions?: boolean;
     /** v1.53.10: safety sem auto-revisão final (saída vai direto pro editor) */
     semRevisaoFinal?: boolean;
@@ -335,6 +338,7 @@ export const useReportGeneration = ({
         role: 'user',
         content: contentArray
       }], {
+        operation: 'mini-relatorio',
         maxTokens,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -346,6 +350,7 @@ export const useReportGeneration = ({
         role: 'user',
         content: contentArray
       }], {
+        operation: 'mini-relatorio',
         maxTokens,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -361,8 +366,8 @@ export const useReportGeneration = ({
     // withRevision: devolve o texto com a <revisao> intacta (consumidor separa);
     // senão, descarta a revisão (mini-relatórios comuns).
     return withRevision
-      ? normalizeHTMLSpacing(result)
-      : cleanReportBody(normalizeHTMLSpacing(result));
+      ? normalizeHTMLSpacing(reidentifyForEditor(result))
+      : cleanReportBody(normalizeHTMLSpacing(reidentifyForEditor(result)));
   }, [aiIntegration, buildDocumentContentArray, buildMiniReportPrompt]);
 
   /**
@@ -393,6 +398,7 @@ export const useReportGeneration = ({
     contentArray.push({ type: 'text', text: buildSourceTracingPrompt(paragraphs) });
 
     const raw = await aiIntegration.callAI([{ role: 'user', content: contentArray }], {
+      operation: 'rastreabilidade',
       // v1.50.39: 6000 (era 4000) — além dos trechos, a resposta agora traz o
       // juízo de fidelidade por parágrafo (veredito + divergências).
       maxTokens: 6000,
@@ -471,6 +477,7 @@ export const useReportGeneration = ({
         role: 'user',
         content: contentArray
       }], {
+        operation: 'mini-relatorio',
         maxTokens,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -482,6 +489,7 @@ export const useReportGeneration = ({
         role: 'user',
         content: contentArray
       }], {
+        operation: 'mini-relatorio',
         maxTokens,
         useInstructions: true,
         semRevisaoFinal: true,
@@ -504,7 +512,7 @@ export const useReportGeneration = ({
       if (parsed.reports && Array.isArray(parsed.reports)) {
         return parsed.reports.map((r: { title: string; relatorio?: string }) => ({
           title: r.title,
-          relatorio: cleanReportBody(normalizeHTMLSpacing(r.relatorio || ''))
+          relatorio: cleanReportBody(normalizeHTMLSpacing(reidentifyForEditor(r.relatorio || '')))
         }));
       }
       throw new Error('Formato de resposta inválido');
@@ -516,7 +524,7 @@ export const useReportGeneration = ({
           if (parsed.reports && Array.isArray(parsed.reports)) {
             return parsed.reports.map((r: { title: string; relatorio?: string }) => ({
               title: r.title,
-              relatorio: cleanReportBody(normalizeHTMLSpacing(r.relatorio || ''))
+              relatorio: cleanReportBody(normalizeHTMLSpacing(reidentifyForEditor(r.relatorio || '')))
             }));
           }
         } catch {
@@ -717,6 +725,7 @@ Responda APENAS com o texto do relatório formatado em HTML, pronto para ser ins
         content: contentArray
       }];
       const options = {
+        operation: 'relatorio',
         maxTokens: 8000,
         useInstructions: true,
         // v1.53.24: revisão CORRETIVA — corrige/remove alucinações ANTES de finalizar
@@ -733,7 +742,7 @@ Responda APENAS com o texto do relatório formatado em HTML, pronto para ser ins
         ? await aiIntegration.callAIStream(messages, options)
         : await aiIntegration.callAI(messages, options);
 
-      return extractReportRevisao(normalizeHTMLSpacing(textContent.trim()));
+      return extractReportRevisao(normalizeHTMLSpacing(reidentifyForEditor(textContent.trim())));
     } catch {
       return {
         corpo: `SENTENÇA
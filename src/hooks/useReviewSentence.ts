@@ -36,6 +36,7 @@ export interface CanGenerateResult {
 export interface AIIntegrationForReview {
   callAI: (messages: Array<{ role: string; content: AIMessageContent[] }>, options?: {
     maxTokens?: number;
+    operation?: string;
     systemPrompt?: string;
     useInstructions?: boolean;
     logMetrics?: boolean;
@@ -46,6 +47,7 @@ export interface AIIntegrationForReview {
   /** v1.40.01: Streaming para evitar timeout no Render */
   callAIStream?: (messages: Array<{ role: string; content: AIMessageContent[] }>, options?: {
     maxTokens?: number;
+    operation?: string;
     systemPrompt?: string;
     useInstructions?: boolean;
     temperature?: number;
@@ -221,6 +223,7 @@ export function useReviewSentence({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'revisao-sentenca',
           maxTokens: 8192,
           systemPrompt: AI_PROMPTS.revisaoSentenca(reviewScope === 'decisionWithDocs'),
           useInstructions: false,
@@ -234,6 +237,7 @@ export function useReviewSentence({
           role: 'user',
           content: contentArray
         }], {
+          operation: 'revisao-sentenca',
           maxTokens: 8192,
           systemPrompt: AI_PROMPTS.revisaoSentenca(reviewScope === 'decisionWithDocs'),
           useInstructions: false,
@@ -161,6 +161,7 @@ Não adicione explicações, pontos finais ou outros caracteres. Apenas a palavr
         role: 'user',
         content: [{ type: 'text', text: prompt }]
       }], {
+        operation: 'resultado-topico',
         maxTokens: 500,
         useInstructions: false,
         logMetrics: true,
@@ -124,6 +124,7 @@ Use os números originais da lista. Não use \`\`\`json nem nenhum cercado de c
         content: [{ type: 'text', text: prompt }]
       }];
       const options = {
+        operation: 'ordenacao-topicos',
         // v1.43.05: 20000 (era 8000) — topic ordering NÃO é trivial. Reordenar
         // 16 tópicos trabalhistas exige classificação jurídica (Preliminar /
         // Prejudicial / Mérito / Q.Finais), ordenação de Art.337 CPC, etc.
@@ -164,6 +164,7 @@ export function useVoiceImprovement({ callAI, provider }: UseVoiceImprovementPro
       const improvedText = await callAI(
         [{ role: 'user', content: prompt }],
         {
+          operation: 'voz',
           provider: config.provider,
           model: config.model,
           maxTokens: 1000,
@@ -204,6 +205,7 @@ export function useVoiceImprovement({ callAI, provider }: UseVoiceImprovementPro
       const improved = await callAI(
         [{ role: 'user', content: buildVoiceInstructionPrompt(rawText) }],
         {
+          operation: 'voz',
           provider: config.provider,
           model: config.model,
           maxTokens: 500,
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import * as Sentry from '@sentry/react';
 import './index.css'; // Tailwind CSS
 import App from './App';
+import { AIBudgetNotice } from './components/ui/AIBudgetNotice';
 import { installApiAuthInterceptor } from './utils/installApiAuthInterceptor';
 
 // v1.53.3: anexa o JWT de sessão a toda chamada ao backend próprio (/api/...),
@@ -30,6 +31,10 @@ if (typeof window !== 'undefined' && window.pdfjsLib) {
 // v1.30: Removido React.StrictMode
 // O Quill.js não suporta o comportamento de dupla montagem do StrictMode (React 18+)
 // Isso causava duas toolbars empilhadas no editor
+// v1.53.54: aviso de orçamento de IA fora das rotas, para valer em todos os apps
 ReactDOM.createRoot(document.getElementById('root')).render(
-  <App />
+  <>
+    <App />
+    <AIBudgetNotice />
+  </>
 );
@@ -279,8 +279,9 @@ PROIBIDO: Inventar numeração diferente da do relatório.`,
   // v1.53.9: FONTE ÚNICA da instrução de anonimização. Antes havia duas versões divergentes:
   // esta (lista parcial de placeholders + "etc.") e AI_INSTRUCTIONS_ANONYMIZATION em system.ts
   // (lista completa). Unificadas no texto da lista completa; system.ts agora referencia esta.
-  preservarAnonimizacao: `ANONIMIZAÇÃO DE DADOS: Quando o texto fornecido contiver placeholders de anonimização como [PESSOA 1], [PESSOA 2], [VALOR], [CPF], [CNPJ], [EMAIL], [TELEFONE], [OAB], [CEP], [RG], [PIS], [CTPS], [CONTA], [PROCESSO], você DEVE:
-1. MANTER esses placeholders exatamente como estão no texto gerado
+  // v1.53.39: inclui os pseudônimos numerados da pseudonimização reversível.
+  preservarAnonimizacao: `ANONIMIZAÇÃO DE DADOS: Quando o texto fornecido contiver placeholders de anonimização como [PESSOA 1], [PESSOA 2], [VALOR], [CPF], [CNPJ], [EMAIL], [TELEFONE], [OAB], [CEP], [RG], [PIS], [CTPS], [CONTA], [PROCESSO] ou pseudônimos numerados como [RECLAMANTE_1], [RECLAMADA_2], [CPF_1], você DEVE:
+1. MANTER esses placeholders exatamente como estão no texto gerado, inclusive a numeração ([RECLAMADA_2] continua [RECLAMADA_2]) — eles são substituídos pelos dados reais depois
 2. JAMAIS substituir os placeholders por valores inventados ou inferidos
 3. JAMAIS criar dados fictícios (nomes, valores, datas, documentos) que não existam no contexto fornecido
 4. JAMAIS inferir ou deduzir dados não fornecidos (nomes, salários, datas, documentos) a partir de outros elementos do contexto
@@ -0,0 +1,52 @@
+/**
+ * @file FullTextIndexService.test.ts
+ * @description Testes da persistência dos índices BM25 no IndexedDB
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FullTextIndexService } from './FullTextIndexService';
+import { fullTextSignature } from '../utils/fullTextSearch';
+import type { FullTextDoc } from '../types';
+
+const DOCS: FullTextDoc[] = [
+  { id: 'clt-art-477', text: 'Pagamento das verbas rescisórias em dez dias', citations: ['art:clt:477'] },
+  { id: 'clt-art-59', text: 'Duração do trabalho acrescida de horas extras', citations: ['art:clt:59'] },
+];
+
+describe('FullTextIndexService', () => {
+  beforeEach(async () => {
+    await new Promise<void>((resolve) => {
+      const req = indexedDB.deleteDatabase(FullTextIndexService.DB_NAME);
+      req.onsuccess = () => resolve();
+      req.onerror = () => resolve();
+      req.onblocked = () => resolve();
+    });
+  });
+
+  it('persists the index and reuses it while the signature matches', async () => {
+    const built = await FullTextIndexService.getOrBuild('legislacao', DOCS);
+    const stored = await FullTextIndexService.load('legislacao');
+
+    expect(stored?.signature).toBe(fullTextSignature(DOCS));
+    expect(await FullTextIndexService.getOrBuild('legislacao', DOCS)).toEqual(built);
+  });
+
+  it('keeps the persisted index when called with an empty list', async () => {
+    await FullTextIndexService.getOrBuild('legislacao', DOCS);
+
+    const empty = await FullTextIndexService.getOrBuild('legislacao', []);
+
+    expect(empty).toBeTruthy();
+    expect((await FullTextIndexService.load('legislacao'))?.signature).toBe(fullTextSignature(DOCS));
+  });
+
+  it('clear removes only the named index', async () => {
+    await FullTextIndexService.getOrBuild('legislacao', DOCS);
+    await FullTextIndexService.getOrBuild('jurisprudencia', DOCS);
+
+    await FullTextIndexService.clear('legislacao');
+
+    expect(await FullTextIndexService.load('legislacao')).toBeNull();
+    expect(await FullTextIndexService.load('jurisprudencia')).not.toBeNull();
+  });
+});
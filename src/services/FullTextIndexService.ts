@@ -0,0 +1,96 @@
+/**
+ * @file FullTextIndexService.ts
+ * @description Persistência no IndexedDB dos índices BM25 de legislação e
+ * jurisprudência (utils/fullTextSearch). O índice é reconstruído só quando a
+ * assinatura dos documentos muda (importação, download, exclusão).
+ * @version 1.53.54
+ *
+ * v1.53.54: getOrBuild não apaga o índice persistido quando a lista está vazia
+ * (o hook monta com [] antes de carregar a base); a limpeza é explícita, ao
+ * excluir a base (clear).
+ */
+
+import { buildFullTextIndex, fullTextSignature } from '../utils/fullTextSearch';
+import type { FullTextDoc, FullTextIndex } from '../types';
+
+export type FullTextIndexName = 'legislacao' | 'jurisprudencia';
+
+interface StoredFullTextIndex {
+  name: FullTextIndexName;
+  signature: string;
+  builtAt: number;
+  index: FullTextIndex;
+}
+
+export const FullTextIndexService = {
+  DB_NAME: 'sentencify-fulltext',
+  STORE_NAME: 'indexes',
+  VERSION: 1,
+
+  openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.DB_NAME, this.VERSION);
+      req.onerror = () => reject(req.error);
+      req.onsuccess = () => resolve(req.result);
+      req.onupgradeneeded = (e: IDBVersionChangeEvent) => {
+        const db = (e.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.createObjectStore(this.STORE_NAME, { keyPath: 'name' });
+        }
+      };
+    });
+  },
+
+  async load(name: FullTextIndexName): Promise<StoredFullTextIndex | null> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.STORE_NAME, 'readonly');
+      const req = tx.objectStore(this.STORE_NAME).get(name) as IDBRequest<StoredFullTextIndex | undefined>;
+      req.onsuccess = () => { db.close(); resolve(req.result || null); };
+      req.onerror = () => { db.close(); reject(req.error); };
+    });
+  },
+
+  async save(entry: StoredFullTextIndex): Promise<void> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.STORE_NAME, 'readwrite');
+      tx.objectStore(this.STORE_NAME).put(entry);
+      tx.oncomplete = () => { db.close(); resolve(); };
+      tx.onerror = () => { db.close(); reject(tx.error); };
+    });
+  },
+
+  async clear(name: FullTextIndexName): Promise<void> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.STORE_NAME, 'readwrite');
+      tx.objectStore(this.STORE_NAME).delete(name);
+      tx.oncomplete = () => { db.close(); resolve(); };
+      tx.onerror = () => { db.close(); reject(tx.error); };
+    });
+  },
+
+  /**
+   * Devolve o índice persistido se ainda corresponde aos documentos; senão
+   * reconstrói e persiste. Falhas do IndexedDB não impedem a busca (índice em memória).
+   * Lista vazia gera índice vazio só em memória: o persistido fica intacto.
+   */
+  async getOrBuild(name: FullTextIndexName, docs: FullTextDoc[]): Promise<FullTextIndex> {
+    const signature = fullTextSignature(docs);
+    try {
+      const stored = await this.load(name);
+      if (stored?.signature === signature) return stored.index;
+    } catch (err) {
+      console.warn('[FullText] Falha ao ler índice:', err);
+    }
+
+    const index = buildFullTextIndex(docs);
+    try {
+      if (docs.length > 0) await this.save({ name, signature, builtAt: Date.now(), index });
+    } catch (err) {
+      console.warn('[FullText] Falha ao salvar índice:', err);
+    }
+    return index;
+  }
+};
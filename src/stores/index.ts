@@ -92,3 +92,24 @@ export {
   selectSearchInitializing,
   selectSearchDownloadProgress
 } from './useSearchStore';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIQUIDAÇÃO STORE (v1.53.33)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { useLiquidacaoStore, selectLiquidacaoParaDispositivo } from './useLiquidacaoStore';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PSEUDONYM VAULT STORE (v1.53.39)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  usePseudonymVaultStore,
+  pseudonymizeForAI,
+  maskMessagesForAI,
+  reidentifyForEditor,
+  reidentifyText,
+  detectEntitiesForAI,
+  selectPseudonymCount,
+  selectNerEntities
+} from './usePseudonymVaultStore';
@@ -17,6 +17,7 @@ import type {
   TokenMetrics
 } from '../../types/ai';
 import { loadApiKeysFromStorage, persistApiKeys, resolveApiKeys } from './aiKeyPersistence';
+import { DEFAULT_LOCAL_LLM_BASE_URL } from '../../utils/local-llm';
 
 export interface AIStoreConfig {
   /** Nome do persist do Zustand (ex: 'analisador-prepauta-ai-store'). */
@@ -59,6 +60,9 @@ const DEFAULT_AI_SETTINGS: AISettings = {
   deepseekModel: '',
   deepseekThinking: true,
   deepseekReasoningEffort: 'high',
+  localLlmBaseUrl: DEFAULT_LOCAL_LLM_BASE_URL,
+  localLlmModel: '',
+  localLlmViaServer: false,
   apiKeys: { claude: '', gemini: '', openai: '', grok: '', deepseek: '' },
   useExtendedThinking: false,
   thinkingBudget: '10000',
@@ -115,7 +119,8 @@ export function createAIStore(config: AIStoreConfig) {
           set((state) => {
             const specialKeys: Partial<Record<AIProvider, keyof AISettings>> = {
               'claude-cli': 'claudeCliModel',
-              'codex-cli': 'codexCliModel'
+              'codex-cli': 'codexCliModel',
+              'local-llm': 'localLlmModel'
             };
             const key = (specialKeys[provider] ?? `${provider}Model`) as keyof AISettings;
             return { aiSettings: { ...state.aiSettings, [key]: model } };
@@ -205,7 +210,7 @@ export function createAIStore(config: AIStoreConfig) {
 export const selectProvider = (state: AIStoreBase): AIProvider => state.aiSettings.provider;
 
 export const selectCurrentModel = (state: AIStoreBase): string => {
-  const { provider, claudeModel, claudeCliModel, codexCliModel, geminiModel, openaiModel, grokModel, deepseekModel } = state.aiSettings;
+  const { provider, claudeModel, claudeCliModel, codexCliModel, geminiModel, openaiModel, grokModel, deepseekModel, localLlmModel } = state.aiSettings;
   switch (provider) {
     case 'claude':
       return claudeModel;
@@ -221,6 +226,8 @@ export const selectCurrentModel = (state: AIStoreBase): string => {
       return grokModel;
     case 'deepseek':
       return deepseekModel;
+    case 'local-llm':
+      return localLlmModel || '';
     default:
       return claudeModel;
   }
@@ -14,6 +14,7 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { encryptApiKeys, decryptApiKeys } from '../utils/crypto';
+import { DEFAULT_LOCAL_LLM_BASE_URL } from '../utils/local-llm';
 import type {
   AISettings,
   AIProvider,
@@ -217,6 +218,7 @@ export interface ApiTestStatuses {
   deepseek: ApiTestStatus;
   'claude-cli'?: ApiTestStatus; // Sem API key — status de teste não aplicável
   'codex-cli'?: ApiTestStatus; // Sem API key — status de teste não aplicável
+  'local-llm'?: ApiTestStatus; // v1.53.38: teste = listar modelos do endpoint local
   'manual'?: ApiTestStatus; // Sem API key — status de teste não aplicável
 }
 
@@ -229,6 +231,7 @@ const initialApiTestStatuses: ApiTestStatuses = {
   deepseek: null,
   'claude-cli': null,
   'codex-cli': null,
+  'local-llm': null,
 };
 
 /** Estado inicial do AISettings */
@@ -246,6 +249,9 @@ const initialAISettings: AISettings = {
   deepseekModel: '',
   deepseekThinking: true,
   deepseekReasoningEffort: 'high',
+  localLlmBaseUrl: DEFAULT_LOCAL_LLM_BASE_URL,
+  localLlmModel: '',
+  localLlmViaServer: false,
   apiKeys: {
     claude: '',
     gemini: '',
@@ -367,7 +373,7 @@ interface AIStoreState {
     cacheRead?: number;
     cacheCreation?: number;
     model?: string;
-    provider?: 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli';
+    provider?: 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm';
     /** v1.52.48: Custo real reportado pelo provider (ex.: total_cost_usd do claude CLI). */
     costUSD?: number;
   }) => void;
@@ -922,7 +928,7 @@ export const selectProvider = (state: AIStoreState): AIProvider =>
 
 /** Selector: Retorna modelo atual baseado no provider */
 export const selectCurrentModel = (state: AIStoreState): string => {
-  const { provider, claudeModel, claudeCliModel, codexCliModel, geminiModel, openaiModel, grokModel, deepseekModel } = state.aiSettings;
+  const { provider, claudeModel, claudeCliModel, codexCliModel, geminiModel, openaiModel, grokModel, deepseekModel, localLlmModel } = state.aiSettings;
   switch (provider) {
     case 'claude': return claudeModel;
     case 'claude-cli': return claudeCliModel || 'claude-sonnet-4-6';
@@ -931,6 +937,7 @@ export const selectCurrentModel = (state: AIStoreState): string => {
     case 'openai': return openaiModel;
     case 'grok': return grokModel;
     case 'deepseek': return deepseekModel;
+    case 'local-llm': return localLlmModel || '';
     case 'manual': return 'manual';
     default: return claudeModel;
   }
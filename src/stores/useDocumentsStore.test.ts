@@ -249,6 +249,31 @@ describe('useDocumentsStore', () => {
     });
   });
 
+  describe('setPjeDocumentIndex', () => {
+    const entry = {
+      id: '85cb794', type: 'contestacao' as const, label: 'Contestação', signer: 'ADV',
+      signedAt: '05/02/2026', startPage: 4, endPage: 9, sourceName: 'processo.pdf'
+    };
+
+    it('should set and update the PJe document index', () => {
+      useDocumentsStore.getState().setPjeDocumentIndex([entry]);
+      useDocumentsStore.getState().setPjeDocumentIndex(prev => [...prev, { ...entry, id: 'f00ba12' }]);
+      expect(useDocumentsStore.getState().pjeDocumentIndex.map(e => e.id)).toEqual(['85cb794', 'f00ba12']);
+    });
+
+    it('should persist, restore and clear the index', () => {
+      useDocumentsStore.getState().setPjeDocumentIndex([entry]);
+      const serialized = useDocumentsStore.getState().serializeForPersistence();
+      expect(serialized.pjeDocumentIndex).toEqual([entry]);
+
+      useDocumentsStore.getState().clearAll();
+      expect(useDocumentsStore.getState().pjeDocumentIndex).toEqual([]);
+
+      useDocumentsStore.getState().restoreFromPersistence(serialized);
+      expect(useDocumentsStore.getState().pjeDocumentIndex).toEqual([entry]);
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // PERSISTÊNCIA
   // ═══════════════════════════════════════════════════════════════════════════
@@ -19,7 +19,8 @@ import type {
   ProcessingMode,
   ExtractedTexts,
   AnalyzedDocuments,
-  DocumentProcessingModes
+  DocumentProcessingModes,
+  PjeDocumentIndexEntry
 } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -54,12 +55,15 @@ interface DocumentsStoreState {
   pastedComplementaryTexts: PastedText[];
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // ESTADOS DE METADADOS (1)
+  // ESTADOS DE METADADOS (2)
   // ═══════════════════════════════════════════════════════════════════════════
 
   /** Documentos processados após análise */
   analyzedDocuments: AnalyzedDocuments;
 
+  /** v1.53.31: Índice de documentos do PJe (ID, tipo, folhas) dos PDFs enviados */
+  pjeDocumentIndex: PjeDocumentIndexEntry[];
+
   // ═══════════════════════════════════════════════════════════════════════════
   // ESTADOS DE UI/PROGRESSO (6)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -106,10 +110,11 @@ interface DocumentsStoreState {
   setPastedComplementaryTexts: (texts: PastedText[] | ((prev: PastedText[]) => PastedText[])) => void;
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // SETTERS DE METADADOS E UI (7)
+  // SETTERS DE METADADOS E UI (8)
   // ═══════════════════════════════════════════════════════════════════════════
 
   setAnalyzedDocuments: (docs: AnalyzedDocuments | ((prev: AnalyzedDocuments) => AnalyzedDocuments)) => void;
+  setPjeDocumentIndex: (index: PjeDocumentIndexEntry[] | ((prev: PjeDocumentIndexEntry[]) => PjeDocumentIndexEntry[])) => void;
   setAnalyzing: (v: boolean) => void;
   setAnalysisProgress: (p: string) => void;
   setExtractingText: (v: boolean) => void;
@@ -202,8 +207,9 @@ export const useDocumentsStore = create<DocumentsStoreState>()(
       pastedContestacaoTexts: [],
       pastedComplementaryTexts: [],
 
-      // Metadados (1)
+      // Metadados (2)
       analyzedDocuments: { ...INITIAL_ANALYZED_DOCUMENTS },
+      pjeDocumentIndex: [],
 
       // UI/Progresso (6)
       analyzing: false,
@@ -291,6 +297,15 @@ export const useDocumentsStore = create<DocumentsStoreState>()(
           }
         }, false, 'setAnalyzedDocuments'),
 
+      setPjeDocumentIndex: (indexOrUpdater) =>
+        set((state) => {
+          if (typeof indexOrUpdater === 'function') {
+            state.pjeDocumentIndex = indexOrUpdater(state.pjeDocumentIndex);
+          } else {
+            state.pjeDocumentIndex = indexOrUpdater;
+          }
+        }, false, 'setPjeDocumentIndex'),
+
       setAnalyzing: (v) =>
         set((state) => {
           state.analyzing = v;
@@ -426,6 +441,7 @@ export const useDocumentsStore = create<DocumentsStoreState>()(
           pastedContestacaoTexts: state.pastedContestacaoTexts,
           pastedComplementaryTexts: state.pastedComplementaryTexts,
           analyzedDocuments: state.analyzedDocuments,
+          pjeDocumentIndex: state.pjeDocumentIndex,
           showPasteArea: state.showPasteArea,
           extractedTexts: state.extractedTexts,
           documentProcessingModes: state.documentProcessingModes
@@ -443,6 +459,7 @@ export const useDocumentsStore = create<DocumentsStoreState>()(
           if (data.pastedContestacaoTexts) state.pastedContestacaoTexts = data.pastedContestacaoTexts as PastedText[];
           if (data.pastedComplementaryTexts) state.pastedComplementaryTexts = data.pastedComplementaryTexts as PastedText[];
           if (data.analyzedDocuments) state.analyzedDocuments = data.analyzedDocuments as AnalyzedDocuments;
+          if (data.pjeDocumentIndex) state.pjeDocumentIndex = data.pjeDocumentIndex as PjeDocumentIndexEntry[];
           if (data.showPasteArea) state.showPasteArea = data.showPasteArea as Record<string, boolean>;
           if (data.extractedTexts) state.extractedTexts = data.extractedTexts as ExtractedTexts;
           if (data.documentProcessingModes) state.documentProcessingModes = data.documentProcessingModes as DocumentProcessingModes;
@@ -457,6 +474,7 @@ export const useDocumentsStore = create<DocumentsStoreState>()(
           state.pastedContestacaoTexts = [];
           state.pastedComplementaryTexts = [];
           state.analyzedDocuments = { ...INITIAL_ANALYZED_DOCUMENTS };
+          state.pjeDocumentIndex = [];
           state.analyzing = false;
           state.analysisProgress = '';
           state.extractingText = false;
@@ -486,5 +504,8 @@ export const selectComplementaryFiles = (state: DocumentsStoreState) => state.co
 /** Seleciona documentos analisados */
 export const selectAnalyzedDocuments = (state: DocumentsStoreState) => state.analyzedDocuments;
 
+/** Seleciona o índice de documentos do PJe (citação "Id. X, fl. Y") */
+export const selectPjeDocumentIndex = (state: DocumentsStoreState) => state.pjeDocumentIndex;
+
 /** Seleciona modos de processamento */
 export const selectDocumentProcessingModes = (state: DocumentsStoreState) => state.documentProcessingModes;
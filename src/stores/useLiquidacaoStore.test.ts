@@ -0,0 +1,66 @@
+/**
+ * @file useLiquidacaoStore.test.ts
+ * @description Testes do store da estimativa de liquidação
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useLiquidacaoStore, selectLiquidacaoParaDispositivo } from './useLiquidacaoStore';
+import type { LiquidacaoResultado } from '../types';
+
+const resultado: LiquidacaoResultado = {
+  linhas: [], totalPrincipal: 0, totalCorrecao: 0, totalSelic: 0, total: 0,
+  avisoPrevioDias: 0, dataCalculo: '2024-06-15', criterio: '', avisos: [],
+};
+
+describe('useLiquidacaoStore', () => {
+  beforeEach(() => {
+    useLiquidacaoStore.getState().resetAll();
+  });
+
+  it('should start empty with anexarAoDispositivo enabled', () => {
+    const state = useLiquidacaoStore.getState();
+    expect(state.params).toBeNull();
+    expect(state.resultado).toBeNull();
+    expect(state.anexarAoDispositivo).toBe(true);
+  });
+
+  it('should expose the result to the dispositivo only while anexar is on', () => {
+    useLiquidacaoStore.getState().setResultado(resultado);
+    expect(selectLiquidacaoParaDispositivo(useLiquidacaoStore.getState())).toEqual(resultado);
+
+    useLiquidacaoStore.getState().setAnexarAoDispositivo(false);
+    expect(selectLiquidacaoParaDispositivo(useLiquidacaoStore.getState())).toBeNull();
+  });
+
+  it('resetAll should clear params and result', () => {
+    const store = useLiquidacaoStore.getState();
+    store.setParams({
+      admissao: '2020-01-01', demissao: '2021-01-01', ajuizamento: '2021-02-01', dataCalculo: '2021-06-01',
+      salario: 2000, motivo: 'sem-justa-causa', verbas: ['aviso-previo'],
+    });
+    store.setResultado(resultado);
+    store.setAnexarAoDispositivo(false);
+
+    useLiquidacaoStore.getState().resetAll();
+    const state = useLiquidacaoStore.getState();
+    expect(state.params).toBeNull();
+    expect(state.resultado).toBeNull();
+    expect(state.anexarAoDispositivo).toBe(true);
+  });
+
+  it('serializes and restores the estimate with the session', () => {
+    const store = useLiquidacaoStore.getState();
+    store.setResultado(resultado);
+    store.setAnexarAoDispositivo(false);
+    const saved = useLiquidacaoStore.getState().serializeForPersistence();
+
+    useLiquidacaoStore.getState().resetAll();
+    useLiquidacaoStore.getState().restoreFromPersistence(saved);
+    expect(useLiquidacaoStore.getState().resultado).toEqual(resultado);
+    expect(useLiquidacaoStore.getState().anexarAoDispositivo).toBe(false);
+
+    useLiquidacaoStore.getState().restoreFromPersistence(undefined);
+    expect(useLiquidacaoStore.getState().resultado).toBeNull();
+    expect(useLiquidacaoStore.getState().anexarAoDispositivo).toBe(true);
+  });
+});
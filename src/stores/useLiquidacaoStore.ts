@@ -0,0 +1,123 @@
+/**
+ * @file useLiquidacaoStore.ts
+ * @description Store Zustand da estimativa de liquidação (parâmetros + planilha calculada)
+ * @version 1.53.54
+ *
+ * A planilha é calculada no LiquidacaoModal e anexada ao dispositivo por
+ * useDispositivoGeneration quando `anexarAoDispositivo` estiver ativo.
+ * v1.53.54: salva e restaurada com a sessão e o projeto (useLocalStorage).
+ *
+ * @usedBy LiquidacaoModal, useDispositivoGeneration, useLocalStorage
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import type { LiquidacaoParams, LiquidacaoPersistedState, LiquidacaoResultado } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 1: TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface LiquidacaoState {
+  /** Últimos parâmetros informados (pré-preenchem o modal) */
+  params: LiquidacaoParams | null;
+
+  /** Planilha calculada a partir de `params` */
+  resultado: LiquidacaoResultado | null;
+
+  /** Anexa a planilha ao final do dispositivo gerado */
+  anexarAoDispositivo: boolean;
+
+  setParams: (params: LiquidacaoParams | null) => void;
+  setResultado: (resultado: LiquidacaoResultado | null) => void;
+  setAnexarAoDispositivo: (anexar: boolean) => void;
+
+  /** Reseta todo o estado (novo processo) */
+  resetAll: () => void;
+
+  /** Dados para a sessão/projeto */
+  serializeForPersistence: () => LiquidacaoPersistedState;
+
+  /** Substitui o estado pelo da sessão/projeto (ausente → estado inicial) */
+  restoreFromPersistence: (data: Partial<LiquidacaoPersistedState> | null | undefined) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 2: STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const useLiquidacaoStore = create<LiquidacaoState>()(
+  devtools(
+    immer((set, get) => ({
+      params: null,
+      resultado: null,
+      anexarAoDispositivo: true,
+
+      setParams: (params) =>
+        set(
+          (state) => {
+            state.params = params;
+          },
+          false,
+          'setParams'
+        ),
+
+      setResultado: (resultado) =>
+        set(
+          (state) => {
+            state.resultado = resultado;
+          },
+          false,
+          'setResultado'
+        ),
+
+      setAnexarAoDispositivo: (anexar) =>
+        set(
+          (state) => {
+            state.anexarAoDispositivo = anexar;
+          },
+          false,
+          `setAnexarAoDispositivo/${anexar}`
+        ),
+
+      resetAll: () =>
+        set(
+          (state) => {
+            state.params = null;
+            state.resultado = null;
+            state.anexarAoDispositivo = true;
+          },
+          false,
+          'resetAll'
+        ),
+
+      serializeForPersistence: () => {
+        const { params, resultado, anexarAoDispositivo } = get();
+        return { params, resultado, anexarAoDispositivo };
+      },
+
+      restoreFromPersistence: (data) =>
+        set(
+          (state) => {
+            state.params = data?.params ?? null;
+            state.resultado = data?.resultado ?? null;
+            state.anexarAoDispositivo = data?.anexarAoDispositivo ?? true;
+          },
+          false,
+          'restoreFromPersistence'
+        ),
+    })),
+    { name: 'LiquidacaoStore' }
+  )
+);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 3: SELECTORS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Selector: planilha a anexar ao dispositivo (null se não calculada ou desativada) */
+export const selectLiquidacaoParaDispositivo = (state: LiquidacaoState): LiquidacaoResultado | null =>
+  state.anexarAoDispositivo ? state.resultado : null;
+
+export default useLiquidacaoStore;
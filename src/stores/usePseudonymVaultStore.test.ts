@@ -0,0 +1,128 @@
+/**
+ * @file usePseudonymVaultStore.test.ts
+ * @description Testes do cofre de pseudônimos do processo
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  usePseudonymVaultStore,
+  pseudonymizeForAI,
+  maskMessagesForAI,
+  reidentifyForEditor,
+  reidentifyText,
+  detectEntitiesForAI,
+  selectPseudonymCount
+} from './usePseudonymVaultStore';
+import AIModelService from '../services/AIModelService';
+import type { AnonymizationSettings } from '../types';
+
+vi.mock('../services/AIModelService', () => ({
+  default: { extractEntities: vi.fn() },
+}));
+
+const config: AnonymizationSettings = { enabled: true, nomesUsuario: [] };
+
+describe('usePseudonymVaultStore', () => {
+  beforeEach(() => {
+    usePseudonymVaultStore.getState().resetAll();
+    localStorage.clear();
+    vi.mocked(AIModelService.extractEntities).mockReset();
+  });
+
+  it('keeps pseudonyms stable across documents of the same case', () => {
+    expect(pseudonymizeForAI('Reclamante: ANA LIMA, CPF 111.222.333-44', config, ['ANA LIMA (reclamante)']))
+      .toBe('Reclamante: [RECLAMANTE_1], CPF [CPF_1]');
+    expect(pseudonymizeForAI('Ana Lima (CPF 11122233344) e CPF 555.666.777-88', config, ['ANA LIMA (reclamante)']))
+      .toBe('[RECLAMANTE_1] (CPF [CPF_1]) e CPF [CPF_2]');
+    expect(selectPseudonymCount(usePseudonymVaultStore.getState())).toBe(3);
+  });
+
+  it('re-identifies AI output and masks it again on the way back', () => {
+    pseudonymizeForAI('ANA LIMA', config, ['ANA LIMA (reclamante)']);
+
+    const html = reidentifyForEditor('<p>Defiro a [RECLAMANTE_1] a justiça gratuita.</p>');
+    expect(html).toBe('<p>Defiro a ANA LIMA a justiça gratuita.</p>');
+
+    const [msg] = maskMessagesForAI([{ role: 'user', content: html }], config);
+    expect(msg.content).toBe('<p>Defiro a [RECLAMANTE_1] a justiça gratuita.</p>');
+    expect(maskMessagesForAI([{ role: 'user', content: html }], { ...config, enabled: false })[0].content).toBe(html);
+  });
+
+  it('re-identifies plain-text fields without HTML escaping', () => {
+    pseudonymizeForAI('SILVA & FILHOS LTDA', config, ['SILVA & FILHOS LTDA (empresa)']);
+
+    expect(reidentifyText('[EMPRESA_1]')).toBe('SILVA & FILHOS LTDA');
+    expect(reidentifyForEditor('<p>[EMPRESA_1]</p>')).toBe('<p>SILVA &amp; FILHOS LTDA</p>');
+  });
+
+  it('falls back to generic placeholders when reversivel is off', () => {
+    expect(pseudonymizeForAI('CPF 111.222.333-44', { ...config, reversivel: false })).toBe('CPF [CPF]');
+    expect(selectPseudonymCount(usePseudonymVaultStore.getState())).toBe(0);
+  });
+
+  it('resetAll should empty the vault', () => {
+    pseudonymizeForAI('CPF 111.222.333-44', config);
+    usePseudonymVaultStore.getState().resetAll();
+    expect(reidentifyForEditor('[CPF_1]')).toBe('[CPF_1]');
+  });
+
+  describe('entidades do NER', () => {
+    const peticao = 'MARIA SOUZA ajuizou ação em face de ACME SERVICOS. Testemunha: JOSÉ PERES. '.repeat(2);
+
+    beforeEach(() => {
+      localStorage.setItem('nerEnabled', 'true');
+      localStorage.setItem('nerIncludeOrg', 'true');
+      vi.mocked(AIModelService.extractEntities).mockResolvedValue([
+        { text: 'Maria Souza', type: 'PESSOA', score: 0.99, start: 0, end: 11 },
+        { text: 'Acme Servicos', type: 'ORGANIZACAO', score: 0.95, start: 36, end: 49 },
+        { text: 'José Peres', type: 'PESSOA', score: 0.99, start: 63, end: 73 },
+      ]);
+    });
+
+    it('registers detected names as pending and anonymizes them without a manual list', async () => {
+      expect(await detectEntitiesForAI([peticao], config)).toBe(3);
+      expect(Object.values(usePseudonymVaultStore.getState().entities).map(e => e.status)).toEqual(['pendente', 'pendente', 'pendente']);
+
+      expect(pseudonymizeForAI('MARIA SOUZA x ACME SERVICOS', config, []))
+        .toBe('[PESSOA_1] x [EMPRESA_1]');
+    });
+
+    it('prefers the role typed by the judge and skips rejected entities', async () => {
+      await detectEntitiesForAI([peticao], config);
+      usePseudonymVaultStore.getState().setEntityStatus('JOSE PERES', 'rejeitado');
+
+      expect(pseudonymizeForAI('Maria Souza e José Peres', config, ['MARIA SOUZA (reclamante)']))
+        .toBe('[RECLAMANTE_1] e José Peres');
+    });
+
+    it('scans each text once and does nothing when NER or nerAutomatico is off', async () => {
+      await detectEntitiesForAI([peticao], config);
+      await detectEntitiesForAI([peticao], config);
+      expect(AIModelService.extractEntities).toHaveBeenCalledTimes(1);
+
+      expect(await detectEntitiesForAI(['outro texto '.repeat(10)], { ...config, nerAutomatico: false })).toBe(0);
+      localStorage.setItem('nerEnabled', 'false');
+      expect(await detectEntitiesForAI(['outro texto '.repeat(10)], config)).toBe(0);
+      expect(AIModelService.extractEntities).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not block the AI call when the model fails', async () => {
+      vi.mocked(AIModelService.extractEntities).mockRejectedValue(new Error('worker'));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(await detectEntitiesForAI([peticao], config)).toBe(0);
+      warn.mockRestore();
+    });
+
+    it('resolvePendingEntities approves pending ones and resetAll clears them', async () => {
+      await detectEntitiesForAI([peticao], config);
+      const store = usePseudonymVaultStore.getState();
+      store.setEntityStatus('ACME SERVICOS', 'rejeitado');
+      store.resolvePendingEntities('aprovado');
+      expect(usePseudonymVaultStore.getState().entities['ACME SERVICOS'].status).toBe('rejeitado');
+      expect(usePseudonymVaultStore.getState().entities['MARIA SOUZA'].status).toBe('aprovado');
+
+      usePseudonymVaultStore.getState().resetAll();
+      expect(usePseudonymVaultStore.getState().entities).toEqual({});
+    });
+  });
+});
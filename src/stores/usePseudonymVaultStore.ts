@@ -0,0 +1,277 @@
+/**
+ * @file usePseudonymVaultStore.ts
+ * @description Store Zustand do cofre de pseudônimos do processo em uso
+ * @version 1.53.40
+ *
+ * Os textos enviados à IA recebem pseudônimos numerados ([RECLAMANTE_1], [CPF_2]);
+ * o cofre guarda os originais (apenas neste navegador, localStorage) e as
+ * respostas são re-identificadas ao entrar no editor. Na volta, o texto do
+ * editor enviado como contexto é mascarado de novo (maskMessagesForAI). O cofre
+ * é zerado junto com o processo (clearProject).
+ *
+ * v1.53.40: Entidades do NER local (detectEntitiesForAI, antes das chamadas à IA)
+ * entram no cofre como nomes a anonimizar, com revisão do juiz no
+ * AnonymizationNamesModal (pendente/aprovado/rejeitado).
+ *
+ * @usedBy useAIIntegration, context-helpers, useDocumentAnalysis, useProofAnalysis, ProofCard,
+ *         useDecisionTextGeneration, useDispositivoGeneration, useReportGeneration,
+ *         AnonymizationNamesModal (revisão das entidades do NER)
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import AIModelService from '../services/AIModelService';
+import { anonymizeText } from '../utils/text';
+import { filterNerNames, nerNameKey, readNerPreferences } from '../utils/nerNames';
+import {
+  applyPseudonymsToMessages,
+  clonePseudonymVault,
+  createPseudonymVault,
+  pseudonymCount,
+  restorePseudonyms
+} from '../utils/pseudonymVault';
+import type {
+  AnonymizationSettings,
+  NerDetectedName,
+  NerEntityReview,
+  NerEntityStatus,
+  PseudonymVault
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 1: TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface PseudonymVaultState {
+  /** Pseudônimos do processo em uso */
+  vault: PseudonymVault;
+
+  /** Entidades detectadas pelo NER no processo, por nerNameKey */
+  entities: Record<string, NerEntityReview>;
+
+  /**
+   * Anonimiza registrando os originais no cofre. Com `reversivel: false`
+   * usa os placeholders genéricos de sempre (nada é guardado).
+   */
+  pseudonymize: (text: string, config: AnonymizationSettings | null | undefined, nomes?: string[]) => string;
+
+  /** Devolve os originais ao texto gerado pela IA */
+  reidentify: (text: string, options?: { html?: boolean }) => string;
+
+  setVault: (vault: PseudonymVault) => void;
+
+  /** Registra entidades detectadas como pendentes (ignora as já conhecidas). Retorna quantas são novas */
+  addDetectedEntities: (names: NerDetectedName[]) => number;
+
+  setEntityStatus: (key: string, status: NerEntityStatus) => void;
+
+  /** Aprova (ou rejeita) todas as entidades pendentes */
+  resolvePendingEntities: (status: Exclude<NerEntityStatus, 'pendente'>) => void;
+
+  /** Zera o cofre e as entidades (novo processo) */
+  resetAll: () => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 2: ENTIDADES DO NER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Limite por documento na detecção automática (o NER roda em chunks de 400 chars) */
+const NER_AUTO_MAX_CHARS = 20000;
+
+/** Hashes dos textos já varridos pelo NER neste processo (sessão) */
+const scannedTexts = new Set<string>();
+
+const textHash = (text: string): string => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0;
+  return `${text.length}:${hash}`;
+};
+
+/**
+ * Nomes informados pelo juiz + entidades não rejeitadas. Empresas recebem a
+ * anotação "(empresa)" (pseudônimo [EMPRESA_N]); entidades que repetem um nome
+ * já informado ficam de fora, prevalecendo o papel anotado pelo juiz.
+ */
+const withEntityNames = (nomes: string[], entities: Record<string, NerEntityReview>): string[] => {
+  const informados = new Set(nomes.map(nerNameKey));
+  const detectados = Object.entries(entities)
+    .filter(([key, e]) => e.status !== 'rejeitado' && !informados.has(key))
+    .map(([, e]) => (e.isOrg ? `${e.text} (empresa)` : e.text));
+  return detectados.length > 0 ? [...nomes, ...detectados] : nomes;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 3: STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const usePseudonymVaultStore = create<PseudonymVaultState>()(
+  devtools(
+    persist(
+      immer((set, get) => ({
+        vault: createPseudonymVault(),
+        entities: {},
+
+        pseudonymize: (text, config, nomes = []) => {
+          if (!text || !config?.enabled) return text;
+          const todosNomes = withEntityNames(nomes, get().entities);
+          if (config.reversivel === false) return anonymizeText(text, config, todosNomes);
+
+          const draft = clonePseudonymVault(get().vault);
+          const result = anonymizeText(text, config, todosNomes, draft);
+          if (pseudonymCount(draft) !== pseudonymCount(get().vault)) {
+            set(
+              (state) => {
+                state.vault = draft;
+              },
+              false,
+              'pseudonymize'
+            );
+          }
+          return result;
+        },
+
+        reidentify: (text, options) => restorePseudonyms(text, get().vault, options),
+
+        setVault: (vault) =>
+          set(
+            (state) => {
+              state.vault = vault;
+            },
+            false,
+            'setVault'
+          ),
+
+        addDetectedEntities: (names) => {
+          const known = get().entities;
+          const novas = names.filter((n, i) => {
+            const key = nerNameKey(n.text);
+            return key.length >= 2 && !known[key] && names.findIndex(o => nerNameKey(o.text) === key) === i;
+          });
+          if (novas.length > 0) {
+            set(
+              (state) => {
+                for (const n of novas) {
+                  state.entities[nerNameKey(n.text)] = { text: n.text, isOrg: n.isOrg, status: 'pendente' };
+                }
+              },
+              false,
+              'addDetectedEntities'
+            );
+          }
+          return novas.length;
+        },
+
+        setEntityStatus: (key, status) =>
+          set(
+            (state) => {
+              if (state.entities[key]) state.entities[key].status = status;
+            },
+            false,
+            'setEntityStatus'
+          ),
+
+        resolvePendingEntities: (status) =>
+          set(
+            (state) => {
+              for (const entity of Object.values(state.entities)) {
+                if (entity.status === 'pendente') entity.status = status;
+              }
+            },
+            false,
+            'resolvePendingEntities'
+          ),
+
+        resetAll: () => {
+          scannedTexts.clear();
+          set(
+            (state) => {
+              state.vault = createPseudonymVault();
+              state.entities = {};
+            },
+            false,
+            'resetAll'
+          );
+        },
+      })),
+      {
+        name: 'sentencify-pseudonym-vault',
+        partialize: (state) => ({ vault: state.vault, entities: state.entities }),
+      }
+    ),
+    { name: 'PseudonymVaultStore' }
+  )
+);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SEÇÃO 4: HELPERS (uso fora de componentes)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Anonimiza texto para envio à IA usando o cofre do processo */
+export const pseudonymizeForAI = (
+  text: string,
+  config: AnonymizationSettings | null | undefined,
+  nomes: string[] = []
+): string => usePseudonymVaultStore.getState().pseudonymize(text, config, nomes);
+
+/**
+ * Roda o NER local sobre os textos antes de anonimizá-los para a IA e registra
+ * as pessoas/empresas encontradas como entidades pendentes de revisão. Só age
+ * com anonimização e NER ativos (e `nerAutomatico` não desligado); cada texto é
+ * varrido uma vez por processo. Falhas do modelo não bloqueiam a chamada à IA.
+ *
+ * @returns Quantidade de entidades novas
+ */
+export const detectEntitiesForAI = async (
+  texts: Array<string | null | undefined>,
+  config: AnonymizationSettings | null | undefined
+): Promise<number> => {
+  if (!config?.enabled || config.nerAutomatico === false) return 0;
+  const prefs = readNerPreferences();
+  if (!prefs.enabled) return 0;
+
+  const pendentes = texts
+    .filter((t): t is string => !!t && t.trim().length > 50)
+    .map(t => t.slice(0, NER_AUTO_MAX_CHARS))
+    .filter(t => !scannedTexts.has(textHash(t)));
+  if (pendentes.length === 0) return 0;
+
+  const texto = pendentes.join('\n\n');
+  try {
+    const entidades = await AIModelService.extractEntities(texto);
+    pendentes.forEach(t => scannedTexts.add(textHash(t)));
+    return usePseudonymVaultStore.getState().addDetectedEntities(filterNerNames(entidades, texto, prefs.includeOrg));
+  } catch (err) {
+    console.warn('[NER] Detecção automática falhou (nomes não informados podem não ser anonimizados):', (err as Error).message);
+    return 0;
+  }
+};
+
+/**
+ * Troca dados já conhecidos do cofre pelos pseudônimos antes do envio à IA
+ * (texto do editor re-identificado que volta como contexto).
+ */
+export const maskMessagesForAI = <M extends { content: unknown }>(
+  messages: M[],
+  config: AnonymizationSettings | null | undefined
+): M[] => {
+  if (!config?.enabled || config.reversivel === false) return messages;
+  return applyPseudonymsToMessages(messages, usePseudonymVaultStore.getState().vault);
+};
+
+/** Re-identifica a resposta da IA antes de inseri-la no editor (HTML) */
+export const reidentifyForEditor = (html: string): string =>
+  usePseudonymVaultStore.getState().reidentify(html, { html: true });
+
+/** Re-identifica campos de texto puro (ex.: nomes das partes), sem escapar HTML */
+export const reidentifyText = (text: string): string =>
+  usePseudonymVaultStore.getState().reidentify(text);
+
+/** Selector: quantidade de pseudônimos no cofre */
+export const selectPseudonymCount = (state: PseudonymVaultState): number => pseudonymCount(state.vault);
+
+/** Selector: entidades detectadas pelo NER no processo */
+export const selectNerEntities = (state: PseudonymVaultState): Record<string, NerEntityReview> => state.entities;
+
+export default usePseudonymVaultStore;
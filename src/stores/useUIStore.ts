@@ -44,7 +44,11 @@ const ALL_MODAL_KEYS: ModalKey[] = [
   'proofTextAnonymization', 'proofExtractionAnonymization', 'sentenceReview', 'sentenceReviewResult',
   'logout', 'shareLibrary', 'changelog', 'topicCuration', 'modelGenerator',
   'regenerateRelatorioCustom', 'bulkModal', 'driveFiles',
-  'importProvaOralList', 'importProvaOralSections'  // v1.39.08: Importar Prova Oral
+  'importProvaOralList', 'importProvaOralSections',  // v1.39.08: Importar Prova Oral
+  'liquidacao',  // v1.53.33: Estimativa de liquidação
+  'cloudSessions',  // v1.53.41: Sessões sincronizadas (E2E)
+  'workspaces',  // v1.53.43: Gabinetes com papéis
+  'importAnalisador'  // v1.53.49: Projeto a partir de análise do Analisador
 ];
 
 /**
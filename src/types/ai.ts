@@ -8,7 +8,7 @@
  *              devem ser movidos para cá sem revisão.
  */
 
-export type AIProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'manual';
+export type AIProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm' | 'manual';
 
 /**
  * Providers de CLI local que autenticam por login OAuth (Claude Code / ChatGPT)
@@ -16,9 +16,9 @@ export type AIProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' |
  */
 export const KEYLESS_CLI_PROVIDERS: ReadonlyArray<AIProvider> = ['claude-cli', 'codex-cli'];
 
-/** True quando o provider exige API key (todos, exceto os CLIs locais OAuth). */
+/** True quando o provider exige API key (todos, exceto os CLIs locais OAuth e o endpoint local). */
 export const providerRequiresApiKey = (provider: AIProvider): boolean =>
-  !KEYLESS_CLI_PROVIDERS.includes(provider);
+  !KEYLESS_CLI_PROVIDERS.includes(provider) && provider !== 'local-llm';
 
 /** Níveis de thinking do Gemini */
 export type GeminiThinkingLevel = 'minimal' | 'low' | 'medium' | 'high';
@@ -46,6 +46,7 @@ export interface APIKeys {
   deepseek: string;
   'claude-cli'?: string; // Sem API key — usa login OAuth local
   'codex-cli'?: string; // Sem API key — usa OAuth ChatGPT local
+  'local-llm'?: string; // Opcional — só se o endpoint local exigir Bearer (vLLM --api-key)
   'manual'?: string;    // Sem API key — usuário cola a resposta manualmente
 }
 
@@ -64,6 +65,12 @@ export interface AISettings {
   deepseekModel: DeepseekModel;
   deepseekThinking: boolean;
   deepseekReasoningEffort: DeepseekReasoningEffort;
+  /** Endpoint OpenAI-compatível local (Ollama, llama.cpp, vLLM) — base da API, com /v1 */
+  localLlmBaseUrl?: string;
+  /** Modelo do endpoint local (id devolvido por GET /v1/models) */
+  localLlmModel?: string;
+  /** Self-hosted: chama o endpoint local pelo proxy /api/local-llm em vez do navegador */
+  localLlmViaServer?: boolean;
   apiKeys: APIKeys;
   useExtendedThinking: boolean;
   thinkingBudget: string;
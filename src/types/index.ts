@@ -33,6 +33,9 @@ export type TopicResultado =
   | 'INDEFINIDO'
   | null;
 
+/** v1.53.49: Vínculo de um pedido com o principal (ver utils/analisadorImport) */
+export type PedidoVinculado = 'subsidiario' | 'alternativo' | 'sucessivo';
+
 export interface Topic {
   id?: string | number;
   title: string;
@@ -65,6 +68,11 @@ export interface Topic {
   isComplementar?: boolean;
   /** v1.53.22: auto-revisão da IA (tag <revisao>) do RELATÓRIO, exibida em painel à parte. */
   revisaoIA?: string;
+  /** v1.53.49: Título do tópico do pedido principal (pedido importado do Analisador com vínculo) */
+  pedidoPrincipal?: string;
+  tipoPedido?: PedidoVinculado;
+  /** Condição de aplicação do pedido vinculado (ex.: "caso não reconhecido o vínculo") */
+  condicao?: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -81,10 +89,14 @@ export interface RelatorioFonteTrecho {
   status: 'verificado' | 'nao_localizado';
   /** Similaridade 0–1 do match fuzzy (ausente quando match exato). */
   matchScore?: number;
-  /** Reservado para o caso B (navegação ao PDF). NÃO populado na v1. */
+  /** Caso B (navegação ao PDF): início do trecho no texto extraído da peça (v1.53.32). */
   offsetInicio?: number;
-  /** Reservado para o caso B (navegação ao PDF). NÃO populado na v1. */
+  /** Caso B: fim (exclusivo) do trecho no texto extraído da peça (v1.53.32). */
   offsetFim?: number;
+  /** Folha do PDF onde o trecho começa (pelos `pageOffsets` do texto extraído). */
+  pagina?: number;
+  /** Id do UploadedFile de origem, para abrir o PDF no visualizador. */
+  arquivoId?: string;
 }
 
 /**
@@ -167,6 +179,9 @@ export interface Model {
   sharedBy?: string;
   isShared?: boolean;
   sharedPermission?: 'view' | 'edit';
+  // Gabinete (v1.53.43): null = acervo pessoal; approvedAt null = aguardando aprovação do juiz
+  workspaceId?: string | null;
+  approvedAt?: string | null;
   // Embedding
   embedding?: number[];
   // Timestamps
@@ -255,7 +270,7 @@ export const MAX_PROOF_ANALYSES = 5;
 // AI SETTINGS TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-export type AIProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'manual';
+export type AIProvider = 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm' | 'manual';
 export type OCREngine = 'pdfjs' | 'tesseract' | 'pdf-puro' | 'claude-vision' | 'gemini-vision';
 export type GeminiThinkingLevel = 'minimal' | 'low' | 'medium' | 'high';
 export type OpenAIReasoningLevel = 'low' | 'medium' | 'high' | 'xhigh';
@@ -302,6 +317,40 @@ export interface AnonymizationSettings {
   valores?: boolean;
   nomes?: boolean;
   nomesUsuario: string[];
+  /** v1.53.39: Pseudônimos numerados por processo, re-identificados ao inserir no editor (default: true) */
+  reversivel?: boolean;
+  /** v1.53.40: Roda o NER local nos documentos antes das chamadas à IA (requer NER ativo; default: true) */
+  nerAutomatico?: boolean;
+}
+
+/**
+ * v1.53.39: Cofre da pseudonimização reversível (um por processo, só local).
+ * Ex.: entries['[CPF_1]'] = '123.456.789-00'
+ */
+export interface PseudonymVault {
+  /** Pseudônimo → dado original */
+  entries: Record<string, string>;
+  /** `${categoria}:${original normalizado}` → pseudônimo (mesmo dado, mesmo número) */
+  index: Record<string, string>;
+  /** Último número usado por categoria */
+  counters: Record<string, number>;
+}
+
+/** v1.53.40: Nome detectado pelo NER após os filtros de stopwords/dedup */
+export interface NerDetectedName {
+  /** Em maiúsculas, como exibido na lista de nomes */
+  text: string;
+  isOrg: boolean;
+}
+
+export type NerEntityStatus = 'pendente' | 'aprovado' | 'rejeitado';
+
+/**
+ * v1.53.40: Entidade detectada automaticamente no processo, aguardando revisão
+ * do juiz. Pendentes e aprovadas são anonimizadas; rejeitadas não.
+ */
+export interface NerEntityReview extends NerDetectedName {
+  status: NerEntityStatus;
 }
 
 /** v1.40.XX: Sub-opção para quickprompts com múltiplos modos */
@@ -354,7 +403,13 @@ export interface AISettings {
   deepseekModel: DeepseekModel;
   deepseekThinking: boolean;
   deepseekReasoningEffort: DeepseekReasoningEffort;
-  apiKeys: { claude: string; gemini: string; openai: string; grok: string; deepseek: string; 'claude-cli'?: string; 'codex-cli'?: string; 'manual'?: string };
+  /** v1.53.38: Endpoint OpenAI-compatível local (Ollama, llama.cpp, vLLM) — base da API, com /v1 */
+  localLlmBaseUrl?: string;
+  /** v1.53.38: Modelo do endpoint local (id devolvido por GET /v1/models) */
+  localLlmModel?: string;
+  /** Self-hosted: chama o endpoint local pelo proxy /api/local-llm em vez do navegador */
+  localLlmViaServer?: boolean;
+  apiKeys: { claude: string; gemini: string; openai: string; grok: string; deepseek: string; 'claude-cli'?: string; 'codex-cli'?: string; 'local-llm'?: string; 'manual'?: string };
   useExtendedThinking: boolean;
   thinkingBudget: string;
   geminiThinkingLevel: GeminiThinkingLevel;
@@ -740,7 +795,11 @@ export type ModalKey =
   | 'factsComparisonIndividual' // v1.36.21: Confronto de Fatos (editor individual)
   | 'driveFiles' // v1.37.49: Modal de arquivos do Google Drive
   | 'importProvaOralList' // v1.39.08: Lista de análises de Prova Oral para importar
-  | 'importProvaOralSections'; // v1.39.08: Seleção de seções da Prova Oral
+  | 'importProvaOralSections' // v1.39.08: Seleção de seções da Prova Oral
+  | 'liquidacao' // v1.53.33: Estimativa de liquidação para o dispositivo
+  | 'cloudSessions' // v1.53.41: Sessões sincronizadas entre dispositivos (E2E)
+  | 'workspaces' // v1.53.43: Gabinetes com papéis (juiz, assessor, estagiário)
+  | 'importAnalisador'; // v1.53.49: Tópicos a partir de análise salva do Analisador
 
 export type ModalState = Record<ModalKey, boolean>;
 
@@ -751,7 +810,7 @@ export type ModalState = Record<ModalKey, boolean>;
 /** v1.37.91: Métricas por modelo específico */
 export interface PerModelMetrics {
   /** v1.52.48: 'claude-cli'/'codex-cli' distinguem provider local (assinatura) do API HTTP (pago). */
-  provider: 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli';
+  provider: 'claude' | 'gemini' | 'openai' | 'grok' | 'deepseek' | 'claude-cli' | 'codex-cli' | 'local-llm';
   /**
    * v1.52.48: Model ID "limpo" (ex.: "claude-sonnet-4-6"). A chave do byModel passou a ser
    * composta (`provider:model`) para não fundir CLI e API HTTP que usam o mesmo modelo;
@@ -987,6 +1046,9 @@ export interface AICallOptions extends SystemPromptVariantOptions {
   localBridge?: boolean;
   /** Título opcional exibido no modal do modo manual (ex.: "Prova oral — fase 2 de 3"). */
   manualTitle?: string;
+  /** v1.53.42: Operação registrada no ledger de uso de IA do servidor (header
+   *  X-AI-Operation, ex.: 'relatorio', 'dispositivo'). Sem ela, conta como 'geral'. */
+  operation?: string;
 }
 
 /** Tipo para função callAI */
@@ -1079,6 +1141,18 @@ export interface PastedText {
   id: string;
   text: string;
   name: string;
+  /** v1.53.32: Id do UploadedFile de onde o texto foi extraído (ausente em texto colado) */
+  sourceFileId?: string;
+  /** v1.53.54: Início de cada folha do PDF no `text` (ausente em texto colado) */
+  pageOffsets?: PageOffset[];
+}
+
+/** Início de uma folha do PDF no texto extraído (v1.53.54) */
+export interface PageOffset {
+  /** Folha do PDF (1-based) */
+  page: number;
+  /** Posição do primeiro caractere da folha no texto */
+  offset: number;
 }
 
 /** Mensagem do chat assistente */
@@ -1163,6 +1237,42 @@ export interface Artigo {
   type?: string;
   similarity?: number;
   status?: string;
+  /** v1.53.37: Início de vigência da redação atual (AAAA-MM-DD), quando conhecido */
+  vigenciaInicio?: string;
+  /** v1.53.37: Redações anteriores, da mais antiga para a mais recente */
+  redacoes?: ArtigoRedacao[];
+}
+
+/** v1.53.37: Redação anterior de um artigo e o período em que vigorou */
+export interface ArtigoRedacao {
+  /** AAAA-MM-DD; ausente = desde a redação original */
+  vigenciaInicio?: string;
+  /** AAAA-MM-DD — último dia de vigência */
+  vigenciaFim: string;
+  /** Norma que deu a redação seguinte (ex: "Lei 13.467/2017") */
+  alteradaPor?: string;
+  caput: string;
+  incisos?: { numero: string; texto: string }[];
+  paragrafos?: { numero: string; texto: string }[];
+  alineas?: { letra: string; texto: string }[];
+}
+
+/**
+ * v1.53.37: Redação de um artigo aplicável a uma data/período.
+ * `artigo` é null quando a redação da época não está cadastrada na base.
+ */
+export interface ArtigoRedacaoAplicada {
+  artigo: Artigo | null;
+  vigenciaInicio?: string;
+  vigenciaFim?: string;
+  alteradaPor?: string;
+  atual: boolean;
+}
+
+/** v1.53.37: Período do contrato de trabalho (AAAA-MM-DD; fim ausente = em curso) */
+export interface ContratoPeriodo {
+  inicio: string;
+  fim?: string;
 }
 
 /** Sugestão de jurisprudência */
@@ -1460,6 +1570,90 @@ export interface JurisFiltros {
   searchTerm?: string;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// FULL-TEXT SEARCH TYPES - ÍNDICE BM25 (v1.53.35)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Documento indexável (artigo ou precedente) */
+export interface FullTextDoc {
+  id: string;
+  text: string;
+  /** Chaves de citação exata (ex: "art:clt:477", "art:clt:477:p8", "sumula:tst:331") */
+  citations: string[];
+}
+
+/** Índice invertido serializável (persistido no IndexedDB) */
+export interface FullTextIndex {
+  version: number;
+  docCount: number;
+  avgLength: number;
+  /** Nº de tokens de cada documento */
+  lengths: Record<string, number>;
+  /** termo → docId → posições do termo no documento */
+  postings: Record<string, Record<string, number[]>>;
+  /** chave de citação → docIds */
+  citations: Record<string, string[]>;
+}
+
+/** Resultado da busca textual */
+export interface FullTextHit {
+  id: string;
+  score: number;
+  /** Documento localizado pela citação exata (artigo/súmula/tema) */
+  citation: boolean;
+}
+
+/** Resultado da fusão BM25 + embeddings */
+export interface HybridHit {
+  id: string;
+  score: number;
+  citation: boolean;
+  /** Posição no ranking textual (ausente se só semântico) */
+  textRank?: number;
+  /** Similaridade do embedding (ausente se só textual) */
+  similarity?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CITATION LINKER TYPES - VERIFICAÇÃO DE CITAÇÕES NO EDITOR (v1.53.36)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Situação da citação frente às bases locais */
+export type CitationCheckStatus = 'valida' | 'invalida' | 'inexistente' | 'nao_verificavel';
+
+/** Citação legal encontrada no texto da decisão */
+export interface LegalCitation {
+  kind: 'artigo' | 'precedente';
+  /** Trecho original (ex: "Súmula 338 do TST") */
+  raw: string;
+  /** Posição no texto puro */
+  start: number;
+  end: number;
+  /** Chave no formato do índice textual (ex: "art:clt:59", "sumula:tst:338", "oj:sdi1:394") */
+  key: string;
+  /** Parágrafo/inciso citado (ex: "art:clt:477:p8") */
+  specific: string[];
+  /** Rótulo normalizado para exibição (ex: "Súmula 338 TST", "Art. 59 CLT") */
+  label: string;
+}
+
+/** Citação confrontada com as bases de legislação e jurisprudência */
+export interface CheckedCitation extends LegalCitation {
+  status: CitationCheckStatus;
+  precedente?: Precedente;
+  artigo?: Artigo;
+  /** Motivo do alerta (cancelada, parágrafo inexistente, base não importada...) */
+  detail?: string;
+}
+
+/** Bases locais indexadas por chave de citação */
+export interface CitationCatalog {
+  precedentes: Map<string, Precedente[]>;
+  artigos: Map<string, Artigo[]>;
+  /** Prefixos importados (ex: "sumula:tst", "oj:sdi1", "art:clt") — ausência = não verificável */
+  coverage: Set<string>;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CDN SERVICE TYPES (FASE 8.7)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1538,6 +1732,8 @@ export interface ModelPreviewModalProps {
   onDelete?: (model: Model) => void;
   onToggleFavorite?: (id: string) => void;
   onOpenSaveAsNew?: (content: string, model: Model) => void;
+  /** v1.53.44: Histórico de revisões do servidor; recebe o modelo já restaurado (sem prop = sem histórico) */
+  onRevisionRestored?: (model: Model) => void;
 }
 
 export interface RenameTopicModalProps {
@@ -1625,6 +1821,10 @@ export interface ExportModalProps {
   copySuccess: boolean;
   setCopySuccess: (success: boolean) => void;
   setError: (error: string) => void;
+  /** v1.53.29: Baixa a sentença em .docx com o timbre escolhido */
+  onExportDocx?: (template: LetterheadTemplate) => void;
+  /** v1.53.30: Baixa a sentença em PDF/A-1b (cabeçalho com número CNJ e bloco de assinatura) */
+  onExportPdf?: (template: LetterheadTemplate) => Promise<void>;
 }
 
 export interface JurisprudenciaModalProps {
@@ -2334,7 +2534,7 @@ export interface ProofCardProps {
   extractTextFromPDFWithMode: (file: File, mode: string, progressCallback?: ((page: number, total: number) => void) | null) => Promise<string | null>;
   anonymizationEnabled?: boolean;
   binaryPdfBlocked?: boolean;  // v1.43.14: Bloquear PDF Puro quando provider não suporta binário (Grok, DeepSeek, Codex CLI, Sem Provider)
-  blockReason?: 'grok' | 'deepseek' | 'codex-cli' | 'manual';  // v1.43.14+: Motivo do bloqueio para tooltip/label
+  blockReason?: 'grok' | 'deepseek' | 'codex-cli' | 'local-llm' | 'manual';  // v1.43.14+: Motivo do bloqueio para tooltip/label
   anonConfig?: AnonymizationSettings | null;
   nomesParaAnonimizar?: string[];
   editorTheme?: 'dark' | 'light' | string;
@@ -2358,6 +2558,8 @@ export interface ArtigoCardProps {
   expanded: boolean;
   onToggleExpand: (id: string) => void;
   copiedId: string | null;
+  /** v1.53.37: Exibe a redação vigente nesta data (AAAA-MM-DD); vazio = atual */
+  dataReferencia?: string;
 }
 
 export interface JurisprudenciaCardProps {
@@ -2394,7 +2596,7 @@ export interface ProcessingModeSelectorProps {
   disabled?: boolean;
   anonymizationEnabled?: boolean;
   binaryPdfBlocked?: boolean;  // v1.43.14: Bloquear PDF Puro quando provider não suporta binário (Grok, DeepSeek, Codex CLI, Sem Provider)
-  blockReason?: 'grok' | 'deepseek' | 'codex-cli' | 'manual';  // v1.43.14+: Motivo do bloqueio para label/tooltip
+  blockReason?: 'grok' | 'deepseek' | 'codex-cli' | 'local-llm' | 'manual';  // v1.43.14+: Motivo do bloqueio para label/tooltip
   className?: string;
 }
 
@@ -2660,6 +2862,7 @@ export interface SessionState {
   complementaryFiles: UploadedFile[];
   tokenMetrics?: TokenMetrics;
   hasUploadFiles?: boolean;
+  liquidacao?: LiquidacaoPersistedState; // v1.53.54
 }
 
 export interface ProjectState extends SessionState {
@@ -2707,6 +2910,7 @@ export interface ImportedProject {
   factsComparison?: Record<string, FactsComparisonResult>;
   sentenceReviewCache?: Record<string, string>; // v1.36.57
   chatHistory?: Record<string, ChatMessage[]>; // v1.37.92
+  liquidacao?: LiquidacaoPersistedState; // v1.53.54
 }
 
 export interface ImportCallbacks {
@@ -2934,6 +3138,8 @@ export interface UploadTabProps {
 
   // Document analysis
   handleAnalyzeDocuments: () => void;
+  /** v1.53.49: Abre a importação do Analisador (ausente sem login) */
+  onOpenAnalisadorImport?: () => void;
 
   // AI settings (for ProcessingModeSelector provider detection)
   aiIntegration: {
@@ -2946,6 +3152,8 @@ export interface UploadTabProps {
   // Document services (for auto-detecting processo número)
   documentServices: {
     autoDetectProcessoNumero: (docs: { peticao?: File; contestacoes?: File[]; complementares?: File[] }) => Promise<string | null>;
+    // v1.53.31: índice de documentos do PJe (IDs, tipos, folhas)
+    indexPjeDocuments?: (file: File, sourceName?: string) => Promise<PjeDocumentIndexEntry[]>;
   };
 }
 
@@ -3003,6 +3211,163 @@ export interface TopicsTabProps {
   hasReviewCache: boolean;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT TYPES - TIMBRES DA SENTENÇA (v1.53.29)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Modelo de timbre aplicado à exportação da sentença (.docx e PDF/A) */
+export interface LetterheadTemplate {
+  id: string;
+  /** Nome exibido no seletor (ex.: "1ª Vara do Trabalho de X") */
+  name: string;
+  /** Linhas do cabeçalho, uma por linha (ex.: PODER JUDICIÁRIO / JUSTIÇA DO TRABALHO) */
+  headerText: string;
+  /** Nome da vara, exibido abaixo das linhas do cabeçalho */
+  varaName: string;
+  /** Nome do(a) magistrado(a) no bloco de assinatura (vazio = sem bloco) */
+  judgeName: string;
+  /** Cargo exibido abaixo do nome (ex.: Juiz do Trabalho Substituto) */
+  judgeTitle: string;
+  /** Cidade usada na linha de local e data antes da assinatura (vazio = omite) */
+  city: string;
+  /** Texto livre do rodapé (endereço, telefone...) */
+  footerText: string;
+  /** Inclui "Página X de Y" no rodapé */
+  showPageNumbers: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PJE TYPES - ÍNDICE DE DOCUMENTOS DOS AUTOS (v1.53.31)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Tipo de peça identificado na primeira página de cada documento do PJe */
+export type PjeDocumentType =
+  | 'peticao-inicial'
+  | 'emenda'
+  | 'contestacao'
+  | 'replica'
+  | 'ata'
+  | 'laudo'
+  | 'procuracao'
+  | 'sentenca'
+  | 'decisao'
+  | 'despacho'
+  | 'recurso'
+  | 'documento';
+
+/** Documento do PJe localizado em um PDF dos autos (agrupado pelo ID do rodapé) */
+export interface PjeDocumentIndexEntry {
+  /** ID do documento no PJe (hash do rodapé, ex.: "85cb794") */
+  id: string;
+  type: PjeDocumentType;
+  /** Título legível (ex.: "Contestação") */
+  label: string;
+  /** Quem assinou eletronicamente */
+  signer: string;
+  /** Data da assinatura (DD/MM/AAAA) */
+  signedAt: string;
+  /** Primeira e última folha no PDF de origem (1-based) */
+  startPage: number;
+  endPage: number;
+  /** Nome do arquivo de origem */
+  sourceName: string;
+  /** v1.53.54: id do UploadedFile de origem — a entrada sai do índice junto com o arquivo (ausente em índices antigos) */
+  fileId?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIQUIDAÇÃO TYPES - ESTIMATIVA DE CÁLCULOS TRABALHISTAS (v1.53.33)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Modalidade da extinção do contrato (define aviso, proporcionais e multa do FGTS) */
+export type LiquidacaoMotivoRescisao = 'sem-justa-causa' | 'rescisao-indireta' | 'pedido-demissao' | 'justa-causa';
+
+/** Verbas suportadas pelo motor de liquidação */
+export type LiquidacaoVerbaId =
+  | 'horas-extras'
+  | 'ferias'
+  | 'decimo-terceiro'
+  | 'aviso-previo'
+  | 'fgts'
+  | 'multa-467'
+  | 'multa-477';
+
+/** Parâmetros das horas extras deferidas */
+export interface LiquidacaoHorasExtras {
+  /** Média de horas extras por mês */
+  horasMensais: number;
+  /** Adicional em % (ex.: 50) */
+  adicional: number;
+  /** Divisor da jornada (ex.: 220) */
+  divisor: number;
+  /** Período deferido (AAAA-MM-DD); ausente = contrato inteiro */
+  inicio?: string;
+  fim?: string;
+  /** Reflexos em DSR, 13º, férias + 1/3, aviso prévio e FGTS */
+  reflexos: boolean;
+}
+
+/** Entrada do cálculo (datas em AAAA-MM-DD) */
+export interface LiquidacaoParams {
+  admissao: string;
+  demissao: string;
+  ajuizamento: string;
+  dataCalculo: string;
+  /** Último salário mensal */
+  salario: number;
+  motivo: LiquidacaoMotivoRescisao;
+  verbas: LiquidacaoVerbaId[];
+  horasExtras?: LiquidacaoHorasExtras;
+  /** Períodos de férias vencidos e não gozados */
+  feriasVencidas?: number;
+  /** Férias vencidas fora do período concessivo (art. 137 da CLT) */
+  feriasVencidasEmDobro?: boolean;
+  /** FGTS do contrato não depositado (além do FGTS sobre as rescisórias) */
+  fgtsSemDepositos?: boolean;
+}
+
+/** Variação mensal (%) dos índices, por competência "AAAA-MM" */
+export interface IndicesCorrecao {
+  ipcaE: Record<string, number>;
+  selic: Record<string, number>;
+  /** Origem dos índices (ex.: "Banco Central (SGS)") */
+  fonte?: string;
+}
+
+/** Linha da planilha de liquidação */
+export interface LiquidacaoLinha {
+  verba: LiquidacaoVerbaId;
+  descricao: string;
+  principal: number;
+  /** Correção monetária pelo IPCA-E (fase pré-judicial) */
+  correcao: number;
+  /** SELIC a partir do ajuizamento (correção + juros) */
+  selic: number;
+  total: number;
+}
+
+export interface LiquidacaoResultado {
+  linhas: LiquidacaoLinha[];
+  totalPrincipal: number;
+  totalCorrecao: number;
+  totalSelic: number;
+  total: number;
+  /** Dias de aviso prévio (Lei 12.506/2011); 0 quando indevido */
+  avisoPrevioDias: number;
+  dataCalculo: string;
+  /** Critério de atualização, para constar no dispositivo */
+  criterio: string;
+  /** Alertas do cálculo (índices ausentes, verbas indevidas na modalidade etc.) */
+  avisos: string[];
+}
+
+/** Estimativa de liquidação salva com a sessão e o projeto (v1.53.54) */
+export interface LiquidacaoPersistedState {
+  params: LiquidacaoParams | null;
+  resultado: LiquidacaoResultado | null;
+  anexarAoDispositivo: boolean;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // GLOBAL TYPE AUGMENTATIONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -3015,16 +3380,34 @@ export interface QuillConstructor {
   find: (element: Element) => QuillInstance | null;
 }
 
+/** PDF.js text item (posição usada no destaque de trechos — v1.53.32) */
+export interface PdfTextItem {
+  str?: string;
+  /** Matriz [a, b, c, d, e, f] do texto no espaço do PDF */
+  transform?: number[];
+  width?: number;
+  height?: number;
+}
+
 /** PDF.js page interface */
+/** Render em andamento do PDF.js; cancel() rejeita a promise com RenderingCancelledException */
+export interface PdfRenderTask {
+  promise: Promise<void>;
+  cancel: () => void;
+}
+
 export interface PdfPage {
-  getTextContent: () => Promise<{ items: Array<{ str?: string }> }>;
-  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }) => { promise: Promise<void> };
+  getTextContent: () => Promise<{ items: PdfTextItem[] }>;
+  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }) => PdfRenderTask;
   getViewport: (options: { scale: number }) => PdfViewport;
 }
 
 export interface PdfViewport {
   width: number;
   height: number;
+  scale?: number;
+  /** Matriz do espaço do PDF para o canvas */
+  transform?: number[];
 }
 
 /** PDF.js document interface */
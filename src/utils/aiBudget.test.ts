@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  fetchAIProxy,
+  formatAIBudgetWarning,
+  onAIBudgetWarning,
+  parseAIBudgetWarning,
+  AI_BUDGET_EXCEEDED_MESSAGE
+} from './aiBudget';
+import { withRetry } from './retry';
+
+const jsonResponse = (data: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseAIBudgetWarning', () => {
+  it('lê "gasto/limite" em USD', () => {
+    expect(parseAIBudgetWarning('8.50/10.00')).toEqual({ spent: 8.5, limit: 10 });
+  });
+
+  it('ignora valor ausente ou malformado', () => {
+    expect(parseAIBudgetWarning(null)).toBeNull();
+    expect(parseAIBudgetWarning('muito')).toBeNull();
+  });
+});
+
+describe('formatAIBudgetWarning', () => {
+  it('formata os valores em dólar no padrão brasileiro', () => {
+    expect(formatAIBudgetWarning({ spent: 1234.5, limit: 1000 })).toContain('US$ 1.234,50, acima do alerta de US$ 1.000,00');
+  });
+});
+
+describe('fetchAIProxy', () => {
+  it('repassa o aviso do header aos ouvintes e devolve a resposta', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ ok: 1 }, 200, { 'X-AI-Budget-Warning': '8.50/10.00' })));
+    const listener = vi.fn();
+    const unsubscribe = onAIBudgetWarning(listener);
+
+    const response = await fetchAIProxy('/api/claude/messages', { method: 'POST' });
+    expect(await response.json()).toEqual({ ok: 1 });
+    expect(listener).toHaveBeenCalledWith({ spent: 8.5, limit: 10 });
+
+    unsubscribe();
+    await fetchAIProxy('/api/claude/messages');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('converte o 402 do orçamento em mensagem clara, sem retentar', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      error: { type: 'budget_exceeded', message: 'Limite mensal de uso de IA atingido (US$ 500.00 de US$ 500.00).' }
+    }, 402));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(withRetry(() => fetchAIProxy('/api/openai/chat'), { maxRetries: 2, initialDelayMs: 0 }))
+      .rejects.toThrow(AI_BUDGET_EXCEEDED_MESSAGE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('deixa outros 402 para o tratamento do provider', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: { message: 'Payment required' } }, 402)));
+
+    const response = await fetchAIProxy('/api/grok/chat');
+    expect(response.status).toBe(402);
+    expect(await response.json()).toEqual({ error: { message: 'Payment required' } });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @file aiBudget.ts
+ * @description Orçamento mensal de IA do lado do cliente: lê o aviso do
+ *              middleware aiBudget (header X-AI-Budget-Warning) e converte o
+ *              bloqueio (402 budget_exceeded) em mensagem clara. Compartilhado
+ *              entre o app principal e os subapps.
+ * @version 1.53.54
+ */
+
+/** Header enviado pelo servidor acima do limite de alerta ("gasto/limite" em USD) */
+export const AI_BUDGET_WARNING_HEADER = 'X-AI-Budget-Warning';
+
+/**
+ * Mensagem do bloqueio. Sem valores: o withRetry retenta erros cuja mensagem
+ * contém um status retentável ("500"), o que um "US$ 500.00" dispararia.
+ */
+export const AI_BUDGET_EXCEEDED_MESSAGE =
+  'Limite mensal de uso de IA atingido — novas chamadas ficam bloqueadas até o próximo mês. Procure o administrador para ampliar o orçamento.';
+
+export interface AIBudgetWarning {
+  spent: number;
+  limit: number;
+}
+
+type AIBudgetWarningListener = (warning: AIBudgetWarning) => void;
+
+const listeners = new Set<AIBudgetWarningListener>();
+
+/** Interpreta o header "gasto/limite"; valor ausente ou inválido → null */
+export function parseAIBudgetWarning(value: string | null): AIBudgetWarning | null {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+  return { spent: Number(match[1]), limit: Number(match[2]) };
+}
+
+const usd = (value: number) => `US$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Texto do aviso exibido a quem usa a IA */
+export function formatAIBudgetWarning({ spent, limit }: AIBudgetWarning): string {
+  return `Uso de IA no mês: ${usd(spent)}, acima do alerta de ${usd(limit)}. Ao atingir o limite do orçamento, as chamadas serão bloqueadas.`;
+}
+
+/** Inscreve um ouvinte dos avisos de orçamento; devolve a função de cancelamento */
+export function onAIBudgetWarning(listener: AIBudgetWarningListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * fetch das chamadas de IA nos hooks useAIIntegration. Repassa o aviso de
+ * orçamento aos ouvintes e lança AI_BUDGET_EXCEEDED_MESSAGE no 402 do
+ * middleware, antes do tratamento de erro de cada provider (que mostraria
+ * "HTTP 402" ou o JSON cru). Demais respostas seguem intactas.
+ */
+export async function fetchAIProxy(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 402) {
+    const data = await response.clone().json().catch(() => null);
+    if (data?.error?.type === 'budget_exceeded') throw new Error(AI_BUDGET_EXCEEDED_MESSAGE);
+  }
+  const warning = parseAIBudgetWarning(response.headers?.get(AI_BUDGET_WARNING_HEADER) ?? null);
+  if (warning) listeners.forEach(listener => listener(warning));
+  return response;
+}
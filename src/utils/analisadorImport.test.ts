@@ -0,0 +1,101 @@
+/**
+ * @file analisadorImport.test.ts
+ * @description Testes da conversão de análises do Analisador em tópicos da sentença
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTopicsFromAnalysis, buildRelatorioFromAnalysis, partesFromAnalysis } from './analisadorImport';
+import type { AnalysisResult, PedidoAnalise } from '../apps/analisador/types';
+
+const pedido = (numero: number, tema: string, extra: Partial<PedidoAnalise> = {}): PedidoAnalise => ({
+  numero,
+  tema,
+  descricao: `Descrição ${tema}`,
+  fatosReclamante: `Fatos ${tema}`,
+  controversia: true,
+  pontosEsclarecer: [],
+  ...extra,
+});
+
+const baseResult = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  identificacao: { reclamantes: ['João da Silva'], reclamadas: ['Alfa S.A.', 'Beta Ltda'], dataAjuizamento: '2025-02-10' },
+  contrato: {
+    dadosInicial: { dataAdmissao: '2019-05-02', dataDemissao: '2024-11-30', funcao: 'operador', ultimoSalario: 3200 },
+    dadosContestacao: { motivoRescisao: 'justa causa' },
+    controversias: [],
+  },
+  preliminares: [],
+  prejudiciais: {},
+  pedidos: [],
+  defesasAutonomas: [],
+  impugnacoes: { documentos: [], documentosNaoImpugnados: [] },
+  provas: {
+    reclamante: { testemunhal: true, documental: true, pericial: false, depoimentoPessoal: true },
+    reclamada: { testemunhal: true, documental: true, pericial: false, depoimentoPessoal: true },
+  },
+  valorCausa: { valorTotal: 85000, somaPedidos: 85000, inconsistencia: false },
+  alertas: [],
+  tabelaSintetica: [],
+  ...overrides,
+});
+
+describe('buildTopicsFromAnalysis', () => {
+  it('orders preliminares, prejudiciais, mérito and reconvenção with the right categories', () => {
+    const topics = buildTopicsFromAnalysis(baseResult({
+      preliminares: [{ tipo: 'Incompetência material', descricao: 'Vínculo estatutário', alegadaPor: 'reclamada' }],
+      prejudiciais: { prescricao: { tipo: 'quinquenal', fundamentacao: 'Art. 7º, XXIX, CF' } },
+      pedidos: [pedido(2, 'Horas extras'), pedido(1, 'Reversão da justa causa')],
+      reconvencao: { existe: true, pedidos: [pedido(1, 'Devolução de adiantamento')] },
+    }));
+
+    expect(topics.map(t => [t.title, t.category])).toEqual([
+      ['INCOMPETÊNCIA MATERIAL', 'PRELIMINAR'],
+      ['PRESCRIÇÃO QUINQUENAL', 'PREJUDICIAL'],
+      ['REVERSÃO DA JUSTA CAUSA', 'MÉRITO'],
+      ['HORAS EXTRAS', 'MÉRITO'],
+      ['RECONVENÇÃO - DEVOLUÇÃO DE ADIANTAMENTO', 'MÉRITO'],
+    ]);
+    expect(topics[3].relatorio).toContain('<strong>Reclamante:</strong> Fatos Horas extras');
+  });
+
+  it('places subsidiary pedidos right after their principal and links them', () => {
+    const topics = buildTopicsFromAnalysis(baseResult({
+      pedidos: [
+        pedido(1, 'Vínculo de emprego'),
+        pedido(2, 'Verbas rescisórias'),
+        pedido(3, 'Indenização por serviços', { tipoPedido: 'subsidiario', pedidoPrincipalNumero: 1, condicao: 'caso não reconhecido o vínculo' }),
+      ],
+    }));
+
+    expect(topics.map(t => t.title)).toEqual(['VÍNCULO DE EMPREGO', 'INDENIZAÇÃO POR SERVIÇOS', 'VERBAS RESCISÓRIAS']);
+    expect(topics[1]).toMatchObject({
+      pedidoPrincipal: 'VÍNCULO DE EMPREGO',
+      tipoPedido: 'subsidiario',
+      condicao: 'caso não reconhecido o vínculo',
+    });
+    expect(topics[1].relatorio).toContain('Pedido subsidiário ao de VÍNCULO DE EMPREGO');
+    expect(topics[0].pedidoPrincipal).toBeUndefined();
+  });
+
+  it('keeps titles unique and strips values concatenated to the tema', () => {
+    const topics = buildTopicsFromAnalysis(baseResult({
+      pedidos: [pedido(1, 'Horas extras(12316.19)'), pedido(4, 'Horas extras')],
+    }));
+
+    expect(topics.map(t => t.title)).toEqual(['HORAS EXTRAS', 'HORAS EXTRAS (PEDIDO 4)']);
+    expect(topics[0].relatorio).toContain('12.316,19');
+  });
+});
+
+describe('partesFromAnalysis / buildRelatorioFromAnalysis', () => {
+  it('prefills parties and drafts the relatório with contract data from both sides', () => {
+    const result = baseResult({ pedidos: [pedido(1, 'Horas extras')] });
+    const html = buildRelatorioFromAnalysis(result, buildTopicsFromAnalysis(result));
+
+    expect(partesFromAnalysis(result)).toEqual({ reclamante: 'João da Silva', reclamadas: ['Alfa S.A.', 'Beta Ltda'] });
+    expect(html).toContain('<strong>JOÃO DA SILVA</strong> ajuizou reclamação trabalhista em face de <strong>ALFA S.A.</strong> e <strong>BETA LTDA</strong>, em 10/02/2025');
+    expect(html).toContain('admissão em 02/05/2019');
+    expect(html).toContain('Postulou: horas extras.');
+    expect(html).toContain('modalidade de ruptura: justa causa');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @file analisadorImport.ts
+ * @description Converte uma análise salva do Analisador de Prepauta em tópicos da sentença
+ * @version 1.53.49
+ *
+ * O AnalysisResult já traz preliminares, prejudiciais, pedidos (com vínculo
+ * principal/subsidiário) e reconvenção extraídos da petição e da contestação.
+ * Montar os tópicos a partir dele dispensa a nova passada de IA do
+ * useDocumentAnalysis e mantém as duas ferramentas com a mesma leitura do caso.
+ */
+
+import type { Topic, PartesProcesso, PedidoVinculado } from '../types';
+import type { AnalysisResult, ContratoData, PedidoAnalise, Preliminar } from '../apps/analisador/types';
+import { formatDateBR } from '../apps/analisador/utils/format-date';
+import { formatCurrency, parseThemeAndValue } from '../apps/analisador/utils/format-pedido';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraph = (label: string, text?: string): string =>
+  text?.trim() ? `<p><strong>${label}:</strong> ${escapeHtml(text.trim())}</p>` : '';
+
+/** "A, B e C" */
+const joinNames = (names: string[]): string =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} e ${names[names.length - 1]}`;
+
+const PRESCRICAO_TITLES: Record<string, string> = {
+  quinquenal: 'PRESCRIÇÃO QUINQUENAL',
+  bienal: 'PRESCRIÇÃO BIENAL',
+  parcial: 'PRESCRIÇÃO PARCIAL',
+};
+
+const RECONVENCAO_PREFIX = 'RECONVENÇÃO - ';
+
+const TIPO_PEDIDO_LABELS: Record<PedidoVinculado, string> = {
+  subsidiario: 'subsidiário',
+  alternativo: 'alternativo',
+  sucessivo: 'sucessivo',
+};
+
+/** Título único em maiúsculas (pedidos com o mesmo tema recebem o número) */
+const uniqueTitle = (title: string, numero: number | null, used: Set<string>): string => {
+  const base = title.trim().toUpperCase() || (numero ? `PEDIDO ${numero}` : 'TÓPICO');
+  let result = used.has(base) && numero ? `${base} (PEDIDO ${numero})` : base;
+  for (let n = 2; used.has(result); n++) result = `${base} (${n})`;
+  used.add(result);
+  return result;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MINI-RELATÓRIOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const preliminarRelatorio = (preliminar: Preliminar): string => [
+  paragraph(`Arguida pela ${preliminar.alegadaPor}`, preliminar.descricao),
+  paragraph('Fundamentos', preliminar.fundamentacao),
+].join('');
+
+const pedidoRelatorio = (pedido: PedidoAnalise, principalTitle?: string): string => {
+  const vinculo = principalTitle && pedido.tipoPedido && pedido.tipoPedido !== 'principal'
+    ? `<p><em>Pedido ${TIPO_PEDIDO_LABELS[pedido.tipoPedido]} ao de ${escapeHtml(principalTitle)}${pedido.condicao ? ` — ${escapeHtml(pedido.condicao)}` : ''}.</em></p>`
+    : '';
+  const { extractedValor } = parseThemeAndValue(pedido.tema, pedido.valor);
+  const dados = [
+    pedido.periodo ? `período: ${pedido.periodo}` : '',
+    extractedValor !== undefined ? `valor: ${formatCurrency(extractedValor)}` : '',
+  ].filter(Boolean).join('; ');
+
+  return [
+    vinculo,
+    paragraph('Pedido', pedido.descricao + (dados ? ` (${dados})` : '')),
+    paragraph('Reclamante', pedido.fatosReclamante),
+    paragraph('Reclamada', pedido.defesaReclamada),
+    paragraph('Tese jurídica', pedido.teseJuridica),
+    paragraph('Confissão ficta', pedido.confissaoFicta),
+  ].join('');
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TÓPICOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tópicos na ordem processual: preliminares → prejudiciais → mérito (pela
+ * numeração da inicial, cada subsidiário/alternativo/sucessivo logo após o
+ * seu principal) → pedidos da reconvenção. Não inclui RELATÓRIO/DISPOSITIVO.
+ */
+export function buildTopicsFromAnalysis(result: AnalysisResult): Topic[] {
+  const used = new Set<string>(['RELATÓRIO', 'DISPOSITIVO']);
+  const topics: Topic[] = [];
+
+  for (const preliminar of result.preliminares || []) {
+    topics.push({
+      title: uniqueTitle(preliminar.tipo, null, used),
+      category: 'PRELIMINAR',
+      relatorio: preliminarRelatorio(preliminar),
+    });
+  }
+
+  const { prescricao, decadencia } = result.prejudiciais || {};
+  if (prescricao) {
+    topics.push({
+      title: uniqueTitle(PRESCRICAO_TITLES[prescricao.tipo] || 'PRESCRIÇÃO', null, used),
+      category: 'PREJUDICIAL',
+      relatorio: [
+        paragraph('Marco alegado', formatDateBR(prescricao.dataBase)),
+        paragraph('Fundamentos', prescricao.fundamentacao),
+      ].join(''),
+    });
+  }
+  if (decadencia) {
+    topics.push({
+      title: uniqueTitle(decadencia.tipo ? `DECADÊNCIA - ${decadencia.tipo}` : 'DECADÊNCIA', null, used),
+      category: 'PREJUDICIAL',
+      relatorio: [
+        paragraph('Prazo', decadencia.prazo),
+        paragraph('Fundamentos', decadencia.fundamentacao),
+      ].join(''),
+    });
+  }
+
+  topics.push(...pedidosToTopics(result.pedidos || [], used, ''));
+  if (result.reconvencao?.existe) {
+    topics.push(...pedidosToTopics(result.reconvencao.pedidos || [], used, RECONVENCAO_PREFIX));
+  }
+
+  return topics;
+}
+
+/** Pedidos de mérito com os vinculados (tipoPedido ≠ principal) logo após o principal */
+function pedidosToTopics(pedidos: PedidoAnalise[], used: Set<string>, prefix: string): Topic[] {
+  const sorted = [...pedidos].sort((a, b) => a.numero - b.numero);
+  const numeros = new Set(sorted.map(p => p.numero));
+  const isLinked = (p: PedidoAnalise) =>
+    !!p.tipoPedido && p.tipoPedido !== 'principal' &&
+    p.pedidoPrincipalNumero !== undefined && p.pedidoPrincipalNumero !== p.numero && numeros.has(p.pedidoPrincipalNumero);
+
+  const titles = new Map<number, string>();
+  const topics: Topic[] = [];
+
+  const push = (pedido: PedidoAnalise, principalTitle?: string) => {
+    const { cleanTema } = parseThemeAndValue(pedido.tema, pedido.valor);
+    const title = uniqueTitle(`${prefix}${cleanTema}`, pedido.numero, used);
+    titles.set(pedido.numero, title);
+    topics.push({
+      title,
+      category: 'MÉRITO',
+      relatorio: pedidoRelatorio(pedido, principalTitle),
+      ...(principalTitle && pedido.tipoPedido && pedido.tipoPedido !== 'principal' ? {
+        pedidoPrincipal: principalTitle,
+        tipoPedido: pedido.tipoPedido,
+        ...(pedido.condicao ? { condicao: pedido.condicao } : {}),
+      } : {}),
+    });
+    // Cadeias (subsidiário do subsidiário) seguem a mesma regra
+    for (const linked of sorted.filter(p => isLinked(p) && p.pedidoPrincipalNumero === pedido.numero)) {
+      if (!titles.has(linked.numero)) push(linked, title);
+    }
+  };
+
+  for (const pedido of sorted) {
+    if (!isLinked(pedido) && !titles.has(pedido.numero)) push(pedido);
+  }
+  // Vínculos circulares ficam no fim, sem vínculo
+  for (const pedido of sorted) {
+    if (!titles.has(pedido.numero)) push(pedido);
+  }
+
+  return topics;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARTES E RELATÓRIO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function partesFromAnalysis(result: AnalysisResult): PartesProcesso {
+  return {
+    reclamante: (result.identificacao?.reclamantes || []).join(', '),
+    reclamadas: [...(result.identificacao?.reclamadas || [])],
+  };
+}
+
+const contratoFrases = (dados: ContratoData): string[] => [
+  dados.dataAdmissao ? `admissão em ${formatDateBR(dados.dataAdmissao)}` : '',
+  dados.funcao ? `função de ${dados.funcao}` : '',
+  dados.tipoContrato ? `contrato ${dados.tipoContrato}` : '',
+  dados.ultimoSalario ? `último salário de ${formatCurrency(dados.ultimoSalario)}` : '',
+  dados.dataDemissao ? `término em ${formatDateBR(dados.dataDemissao)}` : '',
+  dados.motivoRescisao ? `modalidade de ruptura: ${dados.motivoRescisao}` : '',
+  dados.jornadaAlegada ? `jornada: ${dados.jornadaAlegada}` : '',
+].filter(Boolean);
+
+/**
+ * Rascunho do RELATÓRIO com partes, dados do contrato (versões da inicial e da
+ * defesa), pedidos e teses de defesa — ponto de partida para revisão do juiz.
+ */
+export function buildRelatorioFromAnalysis(result: AnalysisResult, topics: Topic[]): string {
+  const { reclamante, reclamadas } = partesFromAnalysis(result);
+  const autor = reclamante ? `<strong>${escapeHtml(reclamante.toUpperCase())}</strong>` : 'A parte reclamante';
+  const reus = reclamadas.length
+    ? joinNames(reclamadas.map(r => `<strong>${escapeHtml(r.toUpperCase())}</strong>`))
+    : 'a parte reclamada';
+
+  const paragraphs: string[] = [];
+  const contratoInicial = contratoFrases(result.contrato?.dadosInicial || {});
+  paragraphs.push(
+    `${autor} ajuizou reclamação trabalhista em face de ${reus}` +
+    (result.identificacao?.dataAjuizamento ? `, em ${escapeHtml(formatDateBR(result.identificacao.dataAjuizamento))}` : '') +
+    (contratoInicial.length ? `, alegando, em síntese: ${escapeHtml(contratoInicial.join('; '))}.` : '.')
+  );
+
+  const merito = topics.filter(t => t.category === 'MÉRITO' && !t.title.startsWith(RECONVENCAO_PREFIX));
+  if (merito.length) {
+    paragraphs.push(`Postulou: ${escapeHtml(merito.map(t => t.title.toLowerCase()).join('; '))}.`);
+  }
+  if (result.valorCausa?.valorTotal) {
+    paragraphs.push(`Atribuiu à causa o valor de ${formatCurrency(result.valorCausa.valorTotal)}.`);
+  }
+
+  const defesa: string[] = [];
+  const preliminares = topics.filter(t => t.category === 'PRELIMINAR').map(t => t.title.toLowerCase());
+  const prejudiciais = topics.filter(t => t.category === 'PREJUDICIAL').map(t => t.title.toLowerCase());
+  if (preliminares.length) defesa.push(`arguiu preliminares de ${joinNames(preliminares)}`);
+  if (prejudiciais.length) defesa.push(`suscitou ${joinNames(prejudiciais)}`);
+  const contratoDefesa = contratoFrases(result.contrato?.dadosContestacao || {});
+  if (contratoDefesa.length) defesa.push(`quanto ao contrato, sustentou: ${contratoDefesa.join('; ')}`);
+  if ((result.contrato?.controversias || []).length) {
+    defesa.push(`controvertendo ${result.contrato.controversias.join('; ')}`);
+  }
+  paragraphs.push(defesa.length
+    ? `A defesa apresentou contestação, na qual ${escapeHtml(joinNames(defesa))}. No mérito, pugnou pela improcedência dos pedidos.`
+    : 'A defesa apresentou contestação, pugnando pela improcedência dos pedidos.');
+
+  if (result.reconvencao?.existe) {
+    const reconvencao = topics.filter(t => t.title.startsWith(RECONVENCAO_PREFIX)).map(t => t.title.slice(RECONVENCAO_PREFIX.length).toLowerCase());
+    paragraphs.push(`Apresentou reconvenção${reconvencao.length ? `, postulando ${escapeHtml(joinNames(reconvencao))}` : ''}.`);
+  }
+
+  return paragraphs.map(p => `<p>${p}</p>`).join('');
+}
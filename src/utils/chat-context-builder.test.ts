@@ -586,6 +586,48 @@ describe('buildChatContext', () => {
       expect(lastItem.text).toContain('confirmar com o usuário');
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // v1.53.37: REDAÇÕES VIGENTES NO CONTRATO
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe('Legislação por período do contrato', () => {
+    const artigos = [{
+      id: 'clt-art-71', lei: 'clt', numero: '71', texto: '', caput: 'Intervalo intrajornada.',
+      paragrafos: [{ numero: '4', texto: 'Apenas o período suprimido. (Redação dada pela Lei nº 13.467, de 2017)' }],
+      redacoes: [{ vigenciaFim: '2017-11-10', caput: 'Intervalo intrajornada.', paragrafos: [{ numero: '4', texto: 'Remuneração do período correspondente.' }] }],
+    }];
+
+    it('anexa a redação de cada período do contrato para os artigos citados', async () => {
+      const result = await buildChatContext(createParams({
+        currentContent: 'Aplica-se o art. 71, § 4º, da CLT.',
+        legislacao: { artigos, contratoPeriodo: { inicio: '2016-01-01', fim: '2018-06-30' } },
+      }));
+      const allText = getAllText(result);
+
+      expect(allText).toContain('DIREITO INTERTEMPORAL');
+      expect(allText).toContain('Remuneração do período correspondente.');
+      expect(allText).toContain('vigente desde 11/11/2017 (atual)');
+    });
+
+    it('lê o período do relatório quando não informado', async () => {
+      const result = await buildChatContext(createParams({
+        currentContent: 'art. 71 da CLT',
+        allTopics: [{ title: 'RELATÓRIO', relatorio: 'Admitido em 01/03/2015 e dispensado em 02/02/2019.' }],
+        legislacao: { artigos },
+      }));
+
+      expect(getAllText(result)).toContain('01/03/2015 a 02/02/2019');
+    });
+
+    it('omite o bloco sem período ou sem artigo citado', async () => {
+      const semPeriodo = await buildChatContext(createParams({ currentContent: 'art. 71 da CLT', legislacao: { artigos } }));
+      const semCitacao = await buildChatContext(createParams({ legislacao: { artigos, contratoPeriodo: { inicio: '2016-01-01' } } }));
+
+      expect(getAllText(semPeriodo)).not.toContain('DIREITO INTERTEMPORAL');
+      expect(getAllText(semCitacao)).not.toContain('DIREITO INTERTEMPORAL');
+    });
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -1,7 +1,7 @@
 /**
  * @file chat-context-builder.ts
  * @description Função centralizada para construção de contexto do chat do Assistente IA
- * @version 1.38.22
+ * @version 1.53.37
  *
  * Centraliza a lógica de buildContextForChat (editor individual) e buildContextForChatGlobal (editor global)
  * para eliminar ~280 linhas de código duplicado.
@@ -10,13 +10,15 @@
  * - Escopo de tópicos: current, selected, all
  * - Toggle de documentos: includeMainDocs
  * - Filtro de prova oral: proofFilter
+ * - v1.53.37: Redações dos artigos citados vigentes durante o contrato (direito intertemporal)
  */
 
 import { AI_PROMPTS, SOCRATIC_INTERN_LOGIC } from '../prompts/ai-prompts';
 import { buildStyleAnchor } from '../prompts/system';
 import { INSTRUCAO_NAO_PRESUMIR } from '../prompts/instrucoes';
 import { prepareDocumentsContext, prepareProofsContext, prepareOralProofsContext } from './context-helpers';
-import type { AIMessageContent, AnonymizationSettings } from '../types';
+import { buildRedacoesContext, extractContratoPeriodo } from './legislacaoRedacoes';
+import type { AIMessageContent, AnonymizationSettings, Artigo, ContratoPeriodo } from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TIPOS
@@ -83,6 +85,12 @@ export interface BuildChatContextParams {
   /** v1.51.0: Geração inline (Ctrl+K) — omite o modo socrático e o INSTRUCAO_NAO_PRESUMIR
    *  (que fazem a IA "narrar" a avaliação de pendências antes de redigir). */
   inlineMode?: boolean;
+  /** v1.53.37: Legislação local — artigos citados recebem a redação vigente no período do contrato */
+  legislacao?: {
+    artigos: Artigo[];
+    /** Período informado pelo usuário (liquidação); sem ele, é lido dos relatórios da análise */
+    contratoPeriodo?: ContratoPeriodo | null;
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -248,6 +256,17 @@ Quando gerar texto para a decisão, responda em HTML.
 ${AI_PROMPTS.formatacaoHTML("<p>A <strong>CLT</strong> estabelece...</p><p>Nesse contexto, ...</p>")}`
   });
 
+  // 7.1 v1.53.37: Artigos citados cuja redação mudou durante o contrato (ex: Reforma Trabalhista)
+  if (params.legislacao?.artigos.length) {
+    const relatorios = [currentTopic, ...allTopics].map(t => t.editedRelatorio || t.relatorio || '').join('\n');
+    const periodo = params.legislacao.contratoPeriodo || extractContratoPeriodo(relatorios);
+    if (periodo) {
+      const citados = [currentTopic.editedRelatorio || currentTopic.relatorio || '', currentContent, userMessage].join('\n');
+      const redacoes = buildRedacoesContext(citados, params.legislacao.artigos, periodo);
+      if (redacoes) contentArray.push({ type: 'text', text: redacoes });
+    }
+  }
+
   // 8. Injetar pacote de conhecimento (template geral do juiz)
   if (params.knowledgePackage) {
     const { name, instructions, files } = params.knowledgePackage;
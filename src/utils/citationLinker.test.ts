@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCitationCatalog,
+  checkCitations,
+  citationPreview,
+  isCitationProblem,
+  parseLegalCitations,
+  uniqueCitations,
+} from './citationLinker';
+import type { Artigo, Precedente } from '../types';
+
+const precedente = (p: Partial<Precedente> & { id: string }): Precedente =>
+  ({ tipo: '', numero: '', texto: '', tribunal: 'TST', ...p });
+
+const PRECEDENTES: Precedente[] = [
+  precedente({ id: 'sum-tst-338', tipoProcesso: 'Súmula', orgao: 'Pleno', numero: 338 as unknown as string, enunciado: 'Jornada de trabalho. Registro. Ônus da prova.', status: 'Válida' }),
+  precedente({ id: 'sum-tst-291', tipoProcesso: 'Súmula', orgao: 'Pleno', numero: '291', enunciado: 'Horas extras. Habitualidade. Supressão.', status: 'Cancelada' }),
+  precedente({ id: 'oj-sdi1-394', tipoProcesso: 'OJ', orgao: 'SDI-1', numero: '394', titulo: 'REPOUSO SEMANAL REMUNERADO', enunciado: 'Integração das horas extras.', status: 'Válida' }),
+  precedente({ id: 'oj-sdi2-394', tipoProcesso: 'OJ', orgao: 'SDI-2', numero: '394', enunciado: 'Mandado de segurança.', status: 'Cancelada' }),
+  precedente({ id: 'sum-stf-4', tipoProcesso: 'Súmula', tribunal: 'STF', numero: '4', enunciado: 'Salário mínimo como indexador.', status: 'Superada' }),
+];
+
+const ARTIGOS: Artigo[] = [
+  { id: 'clt-art-58', lei: 'clt', numero: '58', texto: '', caput: 'A duração normal do trabalho não excederá 8 horas diárias.' },
+  { id: 'clt-art-59', lei: 'clt', numero: '59', texto: '', caput: 'A duração diária do trabalho poderá ser acrescida de horas extras.' },
+  {
+    id: 'clt-art-477', lei: 'clt', numero: '477', texto: '', caput: 'Na extinção do contrato...',
+    paragrafos: [{ numero: '6º', texto: 'Prazo de dez dias.' }, { numero: '8º', texto: 'Multa pela inobservância do § 6º.' }],
+  },
+  { id: 'cf88-art-7', lei: 'cf88', numero: '7º', texto: '', caput: 'São direitos dos trabalhadores...', incisos: [{ numero: 'XXIX', texto: 'prazo prescricional de cinco anos' }] },
+  { id: 'cdc-art-10', lei: 'cdc', numero: '10', texto: '', caput: 'Revogado.', status: 'revogado' },
+];
+
+const catalog = buildCitationCatalog(PRECEDENTES, ARTIGOS);
+const check = (text: string) => checkCitations(parseLegalCitations(text), catalog);
+
+describe('parseLegalCitations', () => {
+  it('reconhece súmulas, OJs com órgão e artigos com lei', () => {
+    const found = parseLegalCitations('Aplica-se a Súmula 338 do TST, a OJ 394 da SDI-1 e o art. 59 da CLT.');
+    expect(found.map(c => [c.key, c.label])).toEqual([
+      ['sumula:tst:338', 'Súmula 338 TST'],
+      ['oj:sdi1:394', 'OJ 394 SDI-1'],
+      ['art:clt:59', 'Art. 59 CLT'],
+    ]);
+    expect(found[0].raw).toBe('Súmula 338 do TST');
+  });
+
+  it('separa listas e reconhece parágrafo, inciso e lei antes do artigo', () => {
+    expect(parseLegalCitations('arts. 58 e 59 da CLT').map(c => c.key)).toEqual(['art:clt:58', 'art:clt:59']);
+    expect(parseLegalCitations('Súmulas 219 e 329 do TST').map(c => c.key)).toEqual(['sumula:tst:219', 'sumula:tst:329']);
+    expect(parseLegalCitations('art. 477, § 8º, da CLT')[0].specific).toEqual(['art:clt:477:p8']);
+    expect(parseLegalCitations('art. 7º, XXIX, da CF/88')[0]).toMatchObject({ key: 'art:cf88:7', specific: ['art:cf88:7:ixxix'], label: 'Art. 7, XXIX CF' });
+    expect(parseLegalCitations('CLT, art. 477')[0].key).toBe('art:clt:477');
+  });
+
+  it('lê item da súmula, "c. TST", SBDI-1 e Súmula Vinculante', () => {
+    expect(parseLegalCitations('Súmula nº 338, I, do c. TST')[0].key).toBe('sumula:tst:338');
+    expect(parseLegalCitations('Orientação Jurisprudencial 394 da SBDI-1 do TST')[0].key).toBe('oj:sdi1:394');
+    expect(parseLegalCitations('Súmula Vinculante 4')[0]).toMatchObject({ key: 'sumula:stf:4', label: 'Súmula Vinculante 4' });
+  });
+
+  it('não confunde o ano da lei com artigo da lista', () => {
+    expect(parseLegalCitations('art. 2º da Lei 6.019/74').map(c => c.key)).toEqual(['art:l6019:2']);
+  });
+});
+
+describe('checkCitations', () => {
+  it('vincula citações válidas ao precedente/artigo', () => {
+    const [sumula, oj, art] = check('Súmula 338 do TST, OJ 394 da SDI-1 e art. 59 da CLT');
+    expect(sumula).toMatchObject({ status: 'valida', precedente: { id: 'sum-tst-338' } });
+    expect(oj).toMatchObject({ status: 'valida', precedente: { id: 'oj-sdi1-394' } });
+    expect(art).toMatchObject({ status: 'valida', artigo: { id: 'clt-art-59' } });
+  });
+
+  it('sinaliza precedentes cancelados/superados e artigos revogados', () => {
+    const results = check('Súmula 291 do TST; OJ 394 da SDI-2; Súmula Vinculante 4; art. 10 do CDC');
+    expect(results.map(c => c.status)).toEqual(['invalida', 'invalida', 'invalida', 'invalida']);
+    expect(results[0].detail).toContain('Cancelada');
+    expect(results.every(isCitationProblem)).toBe(true);
+  });
+
+  it('distingue inexistente de base não importada', () => {
+    const [sumula, art, par, stj] = check('Súmula 999 do TST, art. 999 da CLT, art. 477, § 9º, da CLT e Súmula 7 do STJ');
+    expect(sumula.status).toBe('inexistente');
+    expect(art.status).toBe('inexistente');
+    expect(par).toMatchObject({ status: 'inexistente', artigo: { id: 'clt-art-477' } });
+    expect(stj.status).toBe('nao_verificavel');
+    expect(check('art. 3º da Lei 8.213/91')[0].status).toBe('nao_verificavel');
+  });
+
+  it('sem tribunal/órgão prefere TST e SDI-1', () => {
+    expect(check('OJ 394')[0].precedente?.id).toBe('oj-sdi1-394');
+    expect(check('Súmula 338')[0].precedente?.id).toBe('sum-tst-338');
+  });
+
+  it('com catálogo ainda carregando nada é acusado', () => {
+    expect(checkCitations(parseLegalCitations('Súmula 291 do TST'), null)[0].status).toBe('nao_verificavel');
+  });
+});
+
+describe('citationPreview / uniqueCitations', () => {
+  it('mostra o texto do precedente e do parágrafo citado', () => {
+    expect(citationPreview(check('OJ 394 da SDI-1')[0])).toBe('REPOUSO SEMANAL REMUNERADO — Integração das horas extras.');
+    expect(citationPreview(check('art. 477, § 8º, da CLT')[0])).toBe('Na extinção do contrato...\n§ 8º Multa pela inobservância do § 6º.');
+  });
+
+  it('agrupa repetições', () => {
+    const unique = uniqueCitations(check('Súmula 338 do TST ... Súmula 338 do TST ... art. 59 da CLT'));
+    expect(unique.map(c => [c.key, c.count])).toEqual([['sumula:tst:338', 2], ['art:clt:59', 1]]);
+  });
+});
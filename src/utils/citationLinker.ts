@@ -0,0 +1,312 @@
+/**
+ * @file citationLinker.ts
+ * @description Localiza citações legais na fundamentação ("Súmula 338 do TST",
+ * "OJ 394 da SDI-1", "art. 59 da CLT") e as confronta com as bases locais de
+ * jurisprudência e legislação: existe? está cancelada/superada/revogada?
+ * @version 1.53.36
+ *
+ * As chaves seguem o formato do índice textual (utils/fullTextSearch), acrescidas
+ * do órgão das OJs (oj:sdi1:394), que numeram SDI-1, SDI-2 e SDC separadamente.
+ */
+
+import {
+  artigoToFullTextDoc,
+  findLeiAlias,
+  foldText,
+  normArtNumero,
+  normDigits,
+  normTribunal,
+  paragrafoKey,
+  precedenteToFullTextDoc
+} from './fullTextSearch';
+import { isStatusValido } from './jurisprudencia';
+import type { Artigo, CheckedCitation, CitationCatalog, LegalCitation, Precedente } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CATÁLOGO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** "SBDI-1", "SDI 1", "Tribunal Pleno" → sdi1, pleno */
+const normOrgao = (orgao?: string): string =>
+  foldText(orgao || '').replace(/[^a-z0-9]/g, '').replace(/^sbdi/, 'sdi').replace(/^tribunalpleno$/, 'pleno');
+
+const keyPrefix = (key: string): string => key.slice(0, key.lastIndexOf(':'));
+
+const pushTo = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+/** Indexa precedentes e artigos pelas chaves de citação */
+export function buildCitationCatalog(precedentes: Precedente[], artigos: Artigo[]): CitationCatalog {
+  const catalog: CitationCatalog = { precedentes: new Map(), artigos: new Map(), coverage: new Set() };
+
+  for (const p of precedentes) {
+    const keys = precedenteToFullTextDoc(p).citations;
+    const orgao = normOrgao(p.orgao);
+    const numero = normDigits(p.numero);
+    if (keys[0]?.startsWith('oj:') && orgao && numero) keys.push(`oj:${orgao}:${numero}`);
+    for (const key of keys) {
+      pushTo(catalog.precedentes, key, p);
+      catalog.coverage.add(keyPrefix(key));
+    }
+  }
+
+  for (const a of artigos) {
+    const { citations } = artigoToFullTextDoc(a);
+    // Chaves de parágrafo/inciso não entram no mapa: são conferidas no próprio artigo
+    for (const key of citations.filter(k => k.split(':').length <= 3)) {
+      pushTo(catalog.artigos, key, a);
+      catalog.coverage.add(keyPrefix(key));
+    }
+  }
+
+  return catalog;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PARSER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const NUM = String.raw`\d+(?:\.\d{3})*`;
+const QUALIFIER = String.raw`\s*,?\s*(?:§+\s*\d+\s*[º°o]?|§\s*unico|paragrafo\s+(?:\d+[º°o]?|unico)|p\.\s*u\.|inc(?:iso)?\.?\s+[ivxlc]+\b|,\s*(?!cc\b)[ivxlc]+\b)`;
+
+const ART_RE = new RegExp(
+  String.raw`\b(?:arts?\.|artigos?\b|art\b)\s*(${NUM}(?:\s*-\s*[a-z]\b)?)[º°o]?((?:${QUALIFIER})*)((?:\s*(?:,|\be\b)\s*${NUM}(?:\s*-\s*[a-z]\b)?[º°o]?(?!\s*[/.]?\d))*)`,
+  'g'
+);
+const PARAGRAFO_RE = /§+\s*(\d+)|§\s*(unico)|paragrafo\s+(\d+|unico)|(p\.\s*u\.)/;
+const INCISO_RE = /inc(?:iso)?\.?\s+([ivxlc]+)\b|,\s*([ivxlc]+)\b/;
+
+const PRECEDENTE_RE = new RegExp(
+  String.raw`\b(sumulas?\s+vinculantes?|sumulas?|orientac(?:ao|oes)\s+jurisprudencia(?:l|is)|ojs?|temas?)\s*(?:n[º°o.]*s?\s*)?(\d+)((?:\s*(?:,|\be\b)\s*\d+\b(?!\s*[/.]\d))*)`,
+  'g'
+);
+/** Item da súmula ("Súmula 338, I, do TST") */
+const ITEM_RE = /^\s*,?\s*(?:item\s+)?[ivx]+\s*(?=,|\s+d[ao]\b)/;
+const CONNECTOR_RE = /^[\s,]*(?:(?:d[aoe]s?|na|no|pel[ao])\s+)?(?:(?:c|e|col|eg)\.\s*|colendo\s+|egregio\s+)?/;
+const ORGAO_RE = /^(?:s\.?b?\.?d\.?i\.?\s*-?\s*(1|2|i{1,2})\b|sdc\b|(?:tribunal\s+)?pleno\b|orgao\s+especial\b)/;
+const TRIBUNAL_RE = /^(tst|stf|stj|trt\s*(?:da\s*)?-?\s*(\d+)(?:a|ª)?(?:\s*regiao)?)\b/;
+
+const LEI_LABELS: Record<string, string> = { clt: 'CLT', cpc: 'CPC', cf88: 'CF', cdc: 'CDC', cc: 'CC' };
+/** Sigla legível da lei a partir da chave do índice (clt → CLT, l6019 → Lei 6.019) */
+export const leiLabel = (lei: string): string =>
+  LEI_LABELS[lei] || (/^l\d+$/.test(lei) ? `Lei ${lei.slice(1).replace(/\B(?=(\d{3})+$)/, '.')}` : lei.toUpperCase());
+
+/** Lei escrita logo após a citação ("da CLT", ", da Lei 6.019/74") */
+const leiAfter = (folded: string, end: number): { key: string; end: number } | null => {
+  const window = folded.slice(end, end + 50);
+  const alias = findLeiAlias(window);
+  if (!alias || alias.match.index === undefined) return null;
+  if (!/^[\s,]*(?:(?:d[aoe]s?|na|no)\s+)?$/.test(window.slice(0, alias.match.index))) return null;
+  return { key: alias.key, end: end + alias.match.index + alias.match[0].length };
+};
+
+/** Lei escrita antes ("CLT, art. 59") */
+const leiBefore = (folded: string, start: number): string | null => {
+  const window = folded.slice(Math.max(0, start - 16), start);
+  const alias = findLeiAlias(window);
+  if (!alias || alias.match.index === undefined) return null;
+  return /^[\s,]*$/.test(window.slice(alias.match.index + alias.match[0].length)) ? alias.key : null;
+};
+
+/** Órgão e tribunal após a citação de precedente ("da SDI-1 do TST") */
+const precedenteContext = (folded: string, end: number) => {
+  let pos = end;
+  let orgao = '';
+  let tribunal = '';
+  const item = folded.slice(pos).match(ITEM_RE);
+  if (item) pos += item[0].length;
+
+  for (let i = 0; i < 2; i++) {
+    const rest = folded.slice(pos, pos + 40);
+    const connector = rest.match(CONNECTOR_RE)?.[0] || '';
+    const after = rest.slice(connector.length);
+    const o = !orgao && after.match(ORGAO_RE);
+    if (o) {
+      orgao = o[1] ? `sdi${/^(2|ii)$/.test(o[1]) ? 2 : 1}` : normOrgao(o[0]);
+      pos += connector.length + o[0].length;
+      continue;
+    }
+    const t = !tribunal && after.match(TRIBUNAL_RE);
+    if (t) {
+      tribunal = t[2] ? `trt${t[2]}` : normTribunal(t[1]);
+      pos += connector.length + t[0].length;
+      continue;
+    }
+    break;
+  }
+  return { orgao, tribunal, end: pos };
+};
+
+/**
+ * Encontra as citações no texto puro. Listas ("arts. 58 e 59 da CLT",
+ * "Súmulas 219 e 329 do TST") geram uma citação por número.
+ */
+export function parseLegalCitations(text: string): LegalCitation[] {
+  const source = (text || '').normalize('NFC');
+  const folded = foldText(source);
+  const found: LegalCitation[] = [];
+
+  for (const m of folded.matchAll(ART_RE)) {
+    const start = m.index ?? 0;
+    let end = start + m[0].length;
+    const after = leiAfter(folded, end);
+    const lei = after?.key || leiBefore(folded, start) || '';
+    if (after) end = after.end;
+
+    const numeros = [m[1], ...(m[3] ? m[3].split(/,|\be\b/).map(n => n.trim()).filter(Boolean) : [])];
+    numeros.forEach((n, i) => {
+      const numero = normArtNumero(n);
+      if (!numero) return;
+      const key = lei ? `art:${lei}:${numero}` : `art:${numero}`;
+      // Parágrafo/inciso só se aplicam ao primeiro número da lista
+      const qualifiers = i === 0 ? m[2] || '' : '';
+      const par = qualifiers.match(PARAGRAFO_RE);
+      const inc = qualifiers.match(INCISO_RE);
+      const specific = [
+        ...(par ? [`${key}:${par[4] ? 'pu' : paragrafoKey(par[1] || par[2] || par[3])}`] : []),
+        ...(inc ? [`${key}:i${inc[1] || inc[2]}`] : []),
+      ];
+      const parLabel = par ? (par[4] || /unico/.test(par[0]) ? ', parágrafo único' : `, § ${par[1] || par[3]}º`) : '';
+      const incLabel = inc ? `, ${(inc[1] || inc[2]).toUpperCase()}` : '';
+      found.push({
+        kind: 'artigo',
+        raw: source.slice(start, end).trim(),
+        start,
+        end,
+        key,
+        specific,
+        label: `Art. ${n.replace(/[\s º°]+/g, '').toUpperCase()}${parLabel}${incLabel}${lei ? ` ${leiLabel(lei)}` : ''}`,
+      });
+    });
+  }
+
+  for (const m of folded.matchAll(PRECEDENTE_RE)) {
+    const start = m.index ?? 0;
+    const ctx = precedenteContext(folded, start + m[0].length);
+    const tipoRaw = m[1];
+    const vinculante = tipoRaw.includes('vinculante');
+    const tipo = tipoRaw.startsWith('tema') ? 'tema' : tipoRaw.startsWith('sumula') ? 'sumula' : 'oj';
+    const tribunal = ctx.tribunal || (vinculante ? 'stf' : '');
+    const numeros = [m[2], ...(m[3] ? m[3].split(/,|\be\b/).map(n => n.trim()).filter(Boolean) : [])];
+
+    for (const n of numeros) {
+      const numero = normDigits(n);
+      const key = tipo === 'oj' && ctx.orgao
+        ? `oj:${ctx.orgao}:${numero}`
+        : tribunal ? `${tipo}:${tribunal}:${numero}` : `${tipo}:${numero}`;
+      const tipoLabel = tipo === 'tema' ? 'Tema' : tipo === 'oj' ? 'OJ' : vinculante ? 'Súmula Vinculante' : 'Súmula';
+      const orgaoLabel = tipo === 'oj' && ctx.orgao ? ` ${ctx.orgao.toUpperCase().replace(/^SDI/, 'SDI-')}` : '';
+      const tribunalLabel = tribunal && !vinculante && !orgaoLabel ? ` ${tribunal.toUpperCase()}` : '';
+      found.push({
+        kind: 'precedente',
+        raw: source.slice(start, ctx.end).trim(),
+        start,
+        end: ctx.end,
+        key,
+        specific: [],
+        label: `${tipoLabel} ${numero}${orgaoLabel}${tribunalLabel}`,
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// VERIFICAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Sem tribunal/órgão na citação, prefere o TST e a SDI-1 (bases trabalhistas) */
+const pickPrecedente = (candidates: Precedente[]): Precedente => {
+  const score = (p: Precedente) =>
+    (normTribunal(p.tribunal) === 'tst' ? 2 : 0) + (normOrgao(p.orgao) === 'sdi1' ? 1 : 0);
+  return [...candidates].sort((a, b) => score(b) - score(a))[0];
+};
+
+/** Sem a lei na citação, só resolve se houver um único artigo (ou o da CLT) */
+const pickArtigo = (candidates: Artigo[]): Artigo | undefined =>
+  candidates.length === 1 ? candidates[0] : candidates.find(a => a.lei === 'clt');
+
+const checkOne = (citation: LegalCitation, catalog: CitationCatalog): CheckedCitation => {
+  const covered = catalog.coverage.has(keyPrefix(citation.key));
+
+  if (citation.kind === 'precedente') {
+    const candidates = catalog.precedentes.get(citation.key);
+    if (!candidates?.length) {
+      return covered
+        ? { ...citation, status: 'inexistente', detail: 'Não consta na base de jurisprudência importada' }
+        : { ...citation, status: 'nao_verificavel', detail: 'Base deste tribunal/órgão não importada' };
+    }
+    const precedente = pickPrecedente(candidates);
+    return isStatusValido(precedente.status)
+      ? { ...citation, status: 'valida', precedente }
+      : { ...citation, status: 'invalida', precedente, detail: `Situação: ${precedente.status}` };
+  }
+
+  const candidates = catalog.artigos.get(citation.key);
+  if (!candidates?.length) {
+    // "art. 5º" sem a lei: não há como afirmar que não existe
+    return covered && citation.key.split(':').length === 3
+      ? { ...citation, status: 'inexistente', detail: 'Artigo não consta na lei importada' }
+      : { ...citation, status: 'nao_verificavel', detail: covered ? 'Lei não identificada na citação' : 'Lei não importada' };
+  }
+  const artigo = pickArtigo(candidates);
+  if (!artigo) return { ...citation, status: 'nao_verificavel', detail: 'Lei não identificada na citação' };
+
+  const artKeys = artigoToFullTextDoc(artigo).citations;
+  const missing = citation.specific.filter(k => !artKeys.includes(k));
+  if (!isStatusValido(artigo.status)) {
+    return { ...citation, status: 'invalida', artigo, detail: `Situação: ${artigo.status}` };
+  }
+  if (missing.length > 0) {
+    return { ...citation, status: 'inexistente', artigo, detail: 'Parágrafo/inciso citado não existe no artigo' };
+  }
+  return { ...citation, status: 'valida', artigo };
+};
+
+/** Confronta cada citação com as bases locais (catálogo null = bases ainda carregando) */
+export function checkCitations(citations: LegalCitation[], catalog: CitationCatalog | null): CheckedCitation[] {
+  if (!catalog) return citations.map(c => ({ ...c, status: 'nao_verificavel' as const, detail: 'Bases carregando' }));
+  return citations.map(c => checkOne(c, catalog));
+}
+
+/** Citações que pedem revisão antes da assinatura */
+export const isCitationProblem = (c: CheckedCitation): boolean =>
+  c.status === 'invalida' || c.status === 'inexistente';
+
+/** Texto exibido ao passar o mouse sobre a citação */
+export function citationPreview(c: CheckedCitation): string {
+  if (c.precedente) {
+    const p = c.precedente;
+    return [p.titulo, p.tese || p.enunciado || p.texto].filter(Boolean).join(' — ');
+  }
+  if (c.artigo) {
+    const a = c.artigo;
+    const cited = c.specific.map(k => {
+      const q = k.split(':').pop() || '';
+      if (q.startsWith('i')) {
+        const inciso = a.incisos?.find(i => foldText(i.numero).replace(/[^ivxlc]/g, '') === q.slice(1));
+        return inciso ? `${inciso.numero} - ${inciso.texto}` : '';
+      }
+      const par = a.paragrafos?.find(p => paragrafoKey(p.numero || '') === q);
+      return par ? `§ ${par.numero} ${par.texto}` : '';
+    }).filter(Boolean);
+    return [a.caput || a.texto, ...cited].filter(Boolean).join('\n');
+  }
+  return c.detail || '';
+}
+
+/** Agrupa citações repetidas (mesma chave e parágrafo/inciso) mantendo a primeira ocorrência */
+export function uniqueCitations<T extends LegalCitation>(citations: T[]): Array<T & { count: number }> {
+  const byKey = new Map<string, T & { count: number }>();
+  for (const c of citations) {
+    const id = [c.key, ...c.specific].join('|');
+    const existing = byKey.get(id);
+    if (existing) existing.count++;
+    else byKey.set(id, { ...c, count: 1 });
+  }
+  return [...byKey.values()];
+}
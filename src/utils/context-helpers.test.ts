@@ -8,6 +8,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { prepareDocumentsContext, prepareProofsContext, prepareOralProofsContext, fastHashUtil } from './context-helpers';
+import { usePseudonymVaultStore } from '../stores/usePseudonymVaultStore';
 import type { ProofFile, ProofText, ProofAnalysisResult, AnonymizationSettings, AIDocumentContent, AITextContent } from '../types';
 
 // Mock isOralProof from components (React module - needs mock)
@@ -57,6 +58,7 @@ const createAnonConfig = (overrides: Partial<AnonymizationSettings> = {}): Anony
 describe('context-helpers', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    usePseudonymVaultStore.getState().resetAll();
   });
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -748,7 +750,7 @@ describe('context-helpers', () => {
       const result = await prepareProofsContext(proofManager, 'Topic', mockFileToBase64, true, anonConfig);
       expect(result.proofsContext).toContain('Conteúdo Completo da Prova:');
       // CPF should be anonymized
-      expect(result.proofsContext).toContain('[CPF]');
+      expect(result.proofsContext).toContain('[CPF_1]');
     });
 
     // --- proofSendFullContent: ProofText ---
@@ -778,7 +780,7 @@ describe('context-helpers', () => {
 
       const anonConfig = createAnonConfig();
       const result = await prepareProofsContext(proofManager, 'Topic', mockFileToBase64, true, anonConfig);
-      expect(result.proofsContext).toContain('[CPF]');
+      expect(result.proofsContext).toContain('[CPF_1]');
       expect(result.proofsContext).not.toContain('123.456.789-00');
     });
 
@@ -1234,7 +1236,7 @@ describe('context-helpers', () => {
       const anonConfig = createAnonConfig();
       const result = await prepareOralProofsContext(proofManager, 'Topic', mockFileToBase64, true, anonConfig);
       expect(result.proofsContext).toContain('Conteúdo Completo da Prova:');
-      expect(result.proofsContext).toContain('[CPF]');
+      expect(result.proofsContext).toContain('[CPF_1]');
       expect(result.proofsContext).not.toContain('999.888.777-66');
     });
 
@@ -1265,7 +1267,7 @@ describe('context-helpers', () => {
 
       const anonConfig = createAnonConfig();
       const result = await prepareOralProofsContext(proofManager, 'Topic', mockFileToBase64, true, anonConfig);
-      expect(result.proofsContext).toContain('[CPF]');
+      expect(result.proofsContext).toContain('[CPF_1]');
       expect(result.proofsContext).not.toContain('111.222.333-44');
     });
 
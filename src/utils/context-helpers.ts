@@ -9,7 +9,7 @@
  */
 
 import type { AIMessageContent, ProofFile, ProofText, ProofAttachment, AnonymizationSettings, ProofAnalysisResult } from '../types';
-import { anonymizeText } from './text';
+import { detectEntitiesForAI, pseudonymizeForAI } from '../stores/usePseudonymVaultStore';
 import { isOralProof } from '../components';
 import { wrapUserContent } from './prompt-safety';
 import { isPdfBinaryAllowed } from './manualCall';
@@ -134,6 +134,21 @@ interface ProofsContextResult {
   noOralProofFound?: boolean;
 }
 
+/**
+ * v1.53.40: Textos das provas que seguirão na íntegra (e dos anexos), para a
+ * detecção automática de nomes antes de anonimizar.
+ */
+const collectFullContentTexts = (
+  proofs: Array<ProofFile | ProofText>,
+  proofManager: ProofManagerInput
+): Array<string | undefined> =>
+  proofs
+    .filter(proof => proofManager.proofSendFullContent?.[proof.id])
+    .flatMap(proof => [
+      proofManager.extractedProofTexts?.[proof.id] || (proof as ProofText).text,
+      ...((proof as ProofFile | ProofText).attachments || []).map(a => (a as ProofAttachment).extractedText || (a as ProofAttachment).text)
+    ]);
+
 /**
  * Prepara contexto de provas vinculadas para envio à API de IA
  * @param proofManager - Estado do gerenciador de provas
@@ -183,6 +198,10 @@ export const prepareProofsContext = async (
     return { proofDocuments: [] as AIMessageContent[], proofsContext: '', hasProofs: false };
   }
 
+  if (anonymizationEnabled) {
+    await detectEntitiesForAI(collectFullContentTexts(filteredProofs, proofManager), anonConfig);
+  }
+
   const proofDocuments: AIMessageContent[] = [];
   let proofsContext = '\n\n🔍 PROVAS VINCULADAS A ESTE TÓPICO:\n\n';
 
@@ -224,7 +243,7 @@ export const prepareProofsContext = async (
             // Anon ativa: fallback para texto extraído (se existir)
             if (fullText) {
               const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
-              const textToSend = anonymizeText(fullText, anonConfig, nomesParaAnonimizar);
+              const textToSend = pseudonymizeForAI(fullText, anonConfig, nomesParaAnonimizar);
               proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
             } else {
               proofsContext += `\n[PDF "${proof.name}" não anexado - anonimização ativa e texto não extraído]\n`;
@@ -247,7 +266,7 @@ export const prepareProofsContext = async (
           // Usuário escolheu "Usar Texto" → enviar texto extraído
           const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
           const textToSend = (anonymizationEnabled && anonConfig)
-            ? anonymizeText(fullText, anonConfig, nomesParaAnonimizar)
+            ? pseudonymizeForAI(fullText, anonConfig, nomesParaAnonimizar)
             : fullText;
           proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
         }
@@ -255,7 +274,7 @@ export const prepareProofsContext = async (
         // v1.21.5: Anonimizar texto colado ao enviar
         const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
         const textToSend = (anonymizationEnabled && anonConfig)
-          ? anonymizeText((proof as ProofText).text, anonConfig, nomesParaAnonimizar)
+          ? pseudonymizeForAI((proof as ProofText).text, anonConfig, nomesParaAnonimizar)
           : (proof as ProofText).text;
         proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
       }
@@ -280,7 +299,7 @@ export const prepareProofsContext = async (
             if (anonymizationEnabled) {
               // Anon ativa: fallback para texto extraído
               if (attachment.extractedText) {
-                const textToSend = anonymizeText(attachment.extractedText, anonConfig, nomesParaAnonimizar);
+                const textToSend = pseudonymizeForAI(attachment.extractedText, anonConfig, nomesParaAnonimizar);
                 proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
               } else {
                 proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}: [PDF sem texto extraído — anonimização ativa]\n`;
@@ -311,7 +330,7 @@ export const prepareProofsContext = async (
             // Modo pdfjs / tesseract / claude-vision → precisa de texto extraído
             if (attachment.extractedText) {
               const textToSend = (anonymizationEnabled && anonConfig)
-                ? anonymizeText(attachment.extractedText, anonConfig, nomesParaAnonimizar)
+                ? pseudonymizeForAI(attachment.extractedText, anonConfig, nomesParaAnonimizar)
                 : attachment.extractedText;
               proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
             } else {
@@ -321,7 +340,7 @@ export const prepareProofsContext = async (
         } else {
           // Anexo de texto
           const textToSend = (anonymizationEnabled && anonConfig)
-            ? anonymizeText(attachment.text || '', anonConfig, nomesParaAnonimizar)
+            ? pseudonymizeForAI(attachment.text || '', anonConfig, nomesParaAnonimizar)
             : (attachment.text || '');
           proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
         }
@@ -388,6 +407,10 @@ export const prepareOralProofsContext = async (
     return { proofDocuments: [] as AIMessageContent[], proofsContext: '', hasProofs: false, noOralProofFound: true };
   }
 
+  if (anonymizationEnabled) {
+    await detectEntitiesForAI(collectFullContentTexts(filteredProofs, proofManager), anonConfig);
+  }
+
   const proofDocuments: AIMessageContent[] = [];
   let proofsContext = '\n\n🎤 PROVAS ORAIS VINCULADAS A ESTE TÓPICO:\n\n';
 
@@ -428,7 +451,7 @@ export const prepareOralProofsContext = async (
             // Anon ativa: fallback para texto extraído (se existir)
             if (fullText) {
               const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
-              const textToSend = anonymizeText(fullText, anonConfig, nomesParaAnonimizar);
+              const textToSend = pseudonymizeForAI(fullText, anonConfig, nomesParaAnonimizar);
               proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
             } else {
               proofsContext += `\n[PDF "${proof.name}" não anexado - anonimização ativa e texto não extraído]\n`;
@@ -451,7 +474,7 @@ export const prepareOralProofsContext = async (
           // Usuário escolheu "Usar Texto" → enviar texto extraído
           const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
           const textToSend = (anonymizationEnabled && anonConfig)
-            ? anonymizeText(fullText, anonConfig, nomesParaAnonimizar)
+            ? pseudonymizeForAI(fullText, anonConfig, nomesParaAnonimizar)
             : fullText;
           proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
         }
@@ -459,7 +482,7 @@ export const prepareOralProofsContext = async (
         // Anonimizar texto colado ao enviar
         const nomesParaAnonimizar = anonConfig?.nomesUsuario || [];
         const textToSend = (anonymizationEnabled && anonConfig)
-          ? anonymizeText((proof as ProofText).text, anonConfig, nomesParaAnonimizar)
+          ? pseudonymizeForAI((proof as ProofText).text, anonConfig, nomesParaAnonimizar)
           : (proof as ProofText).text;
         proofsContext += `\nConteúdo Completo da Prova:\n${textToSend}\n`;
       }
@@ -482,7 +505,7 @@ export const prepareOralProofsContext = async (
           if (usePdfPuro) {
             if (anonymizationEnabled) {
               if (attachment.extractedText) {
-                const textToSend = anonymizeText(attachment.extractedText, anonConfig, nomesParaAnonimizar);
+                const textToSend = pseudonymizeForAI(attachment.extractedText, anonConfig, nomesParaAnonimizar);
                 proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
               } else {
                 proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}: [PDF sem texto extraído — anonimização ativa]\n`;
@@ -512,7 +535,7 @@ export const prepareOralProofsContext = async (
           } else {
             if (attachment.extractedText) {
               const textToSend = (anonymizationEnabled && anonConfig)
-                ? anonymizeText(attachment.extractedText, anonConfig, nomesParaAnonimizar)
+                ? pseudonymizeForAI(attachment.extractedText, anonConfig, nomesParaAnonimizar)
                 : attachment.extractedText;
               proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
             } else {
@@ -521,7 +544,7 @@ export const prepareOralProofsContext = async (
           }
         } else {
           const textToSend = (anonymizationEnabled && anonConfig)
-            ? anonymizeText(attachment.text || '', anonConfig, nomesParaAnonimizar)
+            ? pseudonymizeForAI(attachment.text || '', anonConfig, nomesParaAnonimizar)
             : (attachment.text || '');
           proofsContext += `\nAnexo ${attachmentNum} — ${attachment.name}:\n${textToSend}\n`;
         }
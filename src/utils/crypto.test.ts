@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { encryptString, decryptString, encryptApiKeys, decryptApiKeys, isEncrypted } from './crypto';
+import { webcrypto } from 'node:crypto';
+import {
+  encryptString,
+  decryptString,
+  encryptApiKeys,
+  decryptApiKeys,
+  isEncrypted,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+} from './crypto';
 
 // Web Crypto API mock
 const mockEncrypt = vi.fn();
@@ -178,3 +187,25 @@ describe('decryptApiKeys', () => {
     expect(result.claude).toBe('sk-ant-short');
   });
 });
+
+// v1.53.41: Frase-senha usa a Web Crypto real (PBKDF2 + AES-GCM do Node)
+describe('encryptWithPassphrase / decryptWithPassphrase', () => {
+  beforeEach(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: webcrypto, writable: true, configurable: true });
+  });
+
+  it('should round-trip with the same passphrase and use a fresh salt each time', async () => {
+    const a = await encryptWithPassphrase('sessão do processo', 'frase secreta');
+    const b = await encryptWithPassphrase('sessão do processo', 'frase secreta');
+
+    expect(a).toMatch(/^p1\./);
+    expect(a).not.toBe(b);
+    expect(await decryptWithPassphrase(a, 'frase secreta')).toBe('sessão do processo');
+  });
+
+  it('should throw on wrong passphrase or unknown envelope', async () => {
+    const env = await encryptWithPassphrase('x'.repeat(100000), 'certa');
+    await expect(decryptWithPassphrase(env, 'errada')).rejects.toThrow('Frase-senha incorreta');
+    await expect(decryptWithPassphrase('abc', 'certa')).rejects.toThrow('Formato');
+  });
+});
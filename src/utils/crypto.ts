@@ -4,6 +4,7 @@
  * Protege contra: acesso fisico ao dispositivo, extensoes lendo localStorage,
  * sync de browser vazando keys.
  * NAO protege contra: XSS (atacante pode chamar decrypt no mesmo contexto)
+ * v1.53.41: encryptWithPassphrase/decryptWithPassphrase para o sync de sessoes E2E
  */
 
 const DB_NAME = 'sentencify-keystore';
@@ -181,3 +182,91 @@ export function isEncrypted(value: string): boolean {
     return false;
   }
 }
+
+// ═══════════════════════════════════════════════════════════════════
+// v1.53.41: Encriptacao por frase-senha (sync de sessoes E2E)
+// A chave mestra acima nao e exportavel (presa ao navegador); para abrir
+// a mesma sessao em outro computador a chave e derivada da frase-senha
+// (PBKDF2-SHA256). O servidor recebe apenas o envelope encriptado.
+// ═══════════════════════════════════════════════════════════════════
+
+const PASSPHRASE_ENVELOPE_PREFIX = 'p1';
+const PBKDF2_ITERATIONS = 310000;
+
+/** Base64 em blocos (String.fromCharCode(...arr) estoura a pilha em payloads grandes) */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+}
+
+async function deriveKeyFromPassphrase(passphrase: string, salt: BufferSource): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encripta com chave derivada da frase-senha (AES-256-GCM)
+ * @returns Envelope "p1.<salt base64>.<IV + ciphertext base64>"
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKeyFromPassphrase(passphrase, salt);
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const combined = new Uint8Array(iv.length + encrypted.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(encrypted), iv.length);
+
+  return `${PASSPHRASE_ENVELOPE_PREFIX}.${bytesToBase64(salt)}.${bytesToBase64(combined)}`;
+}
+
+/**
+ * Decripta um envelope de encryptWithPassphrase.
+ * Diferente de decryptString, LANCA erro: frase-senha errada precisa ser
+ * distinguida de conteudo vazio.
+ */
+export async function decryptWithPassphrase(envelope: string, passphrase: string): Promise<string> {
+  const [prefix, saltB64, dataB64] = (envelope || '').split('.');
+  if (prefix !== PASSPHRASE_ENVELOPE_PREFIX || !saltB64 || !dataB64) {
+    throw new Error('Formato de dados encriptados desconhecido');
+  }
+
+  try {
+    const combined = base64ToBytes(dataB64);
+    const key = await deriveKeyFromPassphrase(passphrase, base64ToBytes(saltB64));
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: combined.slice(0, 12) },
+      key,
+      combined.slice(12)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('Frase-senha incorreta ou dados corrompidos');
+  }
+}
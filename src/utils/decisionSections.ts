@@ -0,0 +1,90 @@
+/**
+ * @file decisionSections.ts
+ * @description Montagem das seções da sentença para exportação
+ * @version 1.53.29
+ *
+ * Fonte única da ordem e do conteúdo exportado de cada tópico. Consumido pela
+ * exportação para clipboard (useDecisionExport) e pela geração de .docx
+ * (docxExport), garantindo que os dois formatos tragam exatamente o mesmo texto.
+ */
+
+import type { Topic } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DecisionSection {
+  /** 'topic' = tópico com conteúdo; 'heading' = título avulso (ex.: FUNDAMENTAÇÃO) */
+  kind: 'topic' | 'heading';
+  /** Título já normalizado para exportação (maiúsculas, sem numeração romana) */
+  title: string;
+  /** Blocos HTML do tópico, na ordem de exibição (vazio para 'heading') */
+  htmlParts: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Remove a numeração romana inicial ("I - ", "II – "...) e converte para maiúsculas
+ */
+export function cleanExportTopicTitle(title: string): string {
+  let topicTitle = title.toUpperCase();
+  topicTitle = topicTitle.replace(/^I\s*[-–]\s*/i, '');
+  topicTitle = topicTitle.replace(/^II\s*[-–]\s*/i, '');
+  topicTitle = topicTitle.replace(/^III\s*[-–]\s*/i, '');
+  topicTitle = topicTitle.replace(/^IV\s*[-–]\s*/i, '');
+  topicTitle = topicTitle.replace(/^V\s*[-–]\s*/i, '');
+  return topicTitle;
+}
+
+/**
+ * Retorna os blocos HTML exportáveis de um tópico:
+ * - RELATÓRIO: apenas o relatório editado
+ * - DISPOSITIVO: apenas editedContent
+ * - Demais: mini-relatório + fundamentação
+ */
+export function getTopicExportHtmlParts(topic: Topic): string[] {
+  const upperTitle = topic.title.toUpperCase();
+  const relatorioHtml = topic.editedRelatorio || topic.relatorio || '';
+
+  if (upperTitle === 'RELATÓRIO') {
+    return relatorioHtml ? [relatorioHtml] : [];
+  }
+  if (upperTitle === 'DISPOSITIVO') {
+    return topic.editedContent ? [topic.editedContent] : [];
+  }
+
+  const parts: string[] = [];
+  if (relatorioHtml) parts.push(relatorioHtml);
+  if (topic.editedFundamentacao) parts.push(topic.editedFundamentacao);
+  return parts;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MONTAGEM
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Converte os tópicos selecionados na sequência de seções da sentença.
+ * O título "FUNDAMENTAÇÃO" é inserido logo após o primeiro tópico (RELATÓRIO).
+ */
+export function buildDecisionSections(selectedTopics: Topic[]): DecisionSection[] {
+  const sections: DecisionSection[] = [];
+
+  selectedTopics.forEach((topic, index) => {
+    sections.push({
+      kind: 'topic',
+      title: cleanExportTopicTitle(topic.title),
+      htmlParts: getTopicExportHtmlParts(topic)
+    });
+
+    if (index === 0) {
+      sections.push({ kind: 'heading', title: 'FUNDAMENTAÇÃO', htmlParts: [] });
+    }
+  });
+
+  return sections;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { buildDecisionDocx, htmlToDocxParagraphs, getDocxFileName, escapeXml } from './docxExport';
+import { DEFAULT_LETTERHEAD_TEMPLATES } from '../constants/letterhead';
+import type { LetterheadTemplate, Topic } from '../types';
+
+const readZip = (bytes: Uint8Array): Record<string, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    const size = view.getUint32(pos + 18, true);
+    const nameLen = view.getUint16(pos + 26, true);
+    const name = decoder.decode(bytes.subarray(pos + 30, pos + 30 + nameLen));
+    const start = pos + 30 + nameLen;
+    files[name] = decoder.decode(bytes.subarray(start, start + size));
+    pos = start + size;
+  }
+  return files;
+};
+
+const template: LetterheadTemplate = {
+  ...DEFAULT_LETTERHEAD_TEMPLATES[0],
+  varaName: '2ª Vara do Trabalho de Campinas',
+  judgeName: 'Maria Souza',
+  city: 'Campinas',
+  footerText: 'Rua X, 100',
+};
+
+const topics: Topic[] = [
+  { title: 'RELATÓRIO', category: 'RELATÓRIO', editedRelatorio: '<p>Relatório do caso.</p>' },
+  { title: 'I - HORAS EXTRAS', category: 'MÉRITO', relatorio: '<p>Pede horas.</p>', editedFundamentacao: '<p class="ql-align-center"><strong>Defiro</strong> o pedido.</p>' },
+  { title: 'DISPOSITIVO', category: 'DISPOSITIVO', editedContent: '<ol><li data-list="ordered">Item A</li><li data-list="bullet">Item B</li></ol>' },
+];
+
+describe('htmlToDocxParagraphs', () => {
+  it('preserva negrito, itálico e sublinhado como propriedades de run', () => {
+    const xml = htmlToDocxParagraphs('<p><strong>a</strong><em>b</em><u>c</u></p>', { orderedNumIds: [] });
+    expect(xml).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">a</w:t>');
+    expect(xml).toContain('<w:rPr><w:i/></w:rPr><w:t xml:space="preserve">b</w:t>');
+    expect(xml).toContain('<w:u w:val="single"/>');
+  });
+
+  it('justifica parágrafos por padrão e respeita ql-align-*', () => {
+    expect(htmlToDocxParagraphs('<p>x</p>', { orderedNumIds: [] })).toContain('<w:jc w:val="both"/>');
+    expect(htmlToDocxParagraphs('<p class="ql-align-right">x</p>', { orderedNumIds: [] })).toContain('<w:jc w:val="right"/>');
+  });
+
+  it('converte títulos em estilos Heading', () => {
+    expect(htmlToDocxParagraphs('<h1>T</h1><h3>S</h3>', { orderedNumIds: [] }))
+      .toMatch(/Heading1.*Heading2/);
+  });
+
+  it('usa numeração própria para cada lista ordenada e marcador para data-list="bullet"', () => {
+    const numbering = { orderedNumIds: [] as number[] };
+    const xml = htmlToDocxParagraphs('<ol><li>1</li></ol><ol><li>1</li></ol><ul><li>•</li></ul>', numbering);
+    expect(numbering.orderedNumIds).toEqual([2, 3]);
+    expect(xml).toContain('<w:numId w:val="1"/>');
+    expect(xml).toContain('<w:numId w:val="3"/>');
+  });
+
+  it('escapa caracteres especiais do XML', () => {
+    expect(htmlToDocxParagraphs('<p>A &amp; B &lt; C</p>', { orderedNumIds: [] })).toContain('A &amp; B &lt; C');
+    expect(escapeXml('"<&>"')).toBe('&quot;&lt;&amp;&gt;&quot;');
+  });
+
+  it('remove caracteres de controle inválidos no XML 1.0 e mantém tab e quebras', () => {
+    expect(escapeXml('a\u0000b\u0008c\u000Bd\u000Ce\u001Ff')).toBe('abcdef');
+    expect(escapeXml('a\tb\nc\rd')).toBe('a\tb\nc\rd');
+    expect(htmlToDocxParagraphs('<p>Fl.\u000C 12</p>', { orderedNumIds: [] })).toContain('Fl. 12');
+  });
+
+  it('retorna vazio para HTML vazio', () => {
+    expect(htmlToDocxParagraphs('', { orderedNumIds: [] })).toBe('');
+  });
+});
+
+describe('buildDecisionDocx', () => {
+  const files = readZip(buildDecisionDocx(topics, template, { date: new Date(2026, 9, 19) }));
+
+  it('gera todas as partes obrigatórias do pacote OOXML', () => {
+    expect(Object.keys(files)[0]).toBe('[Content_Types].xml');
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'word/header1.xml', 'word/footer1.xml'
+    ]));
+  });
+
+  it('monta o corpo na ordem RELATÓRIO → FUNDAMENTAÇÃO → tópicos → DISPOSITIVO', () => {
+    const doc = files['word/document.xml'];
+    const order = ['SENTENÇA', 'RELATÓRIO', 'FUNDAMENTAÇÃO', 'HORAS EXTRAS', 'Defiro', 'DISPOSITIVO', 'Item A'].map(t => doc.indexOf(t));
+    expect(order.every(i => i >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+    expect(doc).not.toContain('I - HORAS');
+  });
+
+  it('aplica o timbre no cabeçalho, rodapé e bloco de assinatura', () => {
+    expect(files['word/header1.xml']).toContain('JUSTIÇA DO TRABALHO');
+    expect(files['word/header1.xml']).toContain('2ª Vara do Trabalho de Campinas');
+    expect(files['word/footer1.xml']).toContain('Rua X, 100');
+    expect(files['word/footer1.xml']).toContain('NUMPAGES');
+    expect(files['word/document.xml']).toContain('Campinas, 19 de outubro de 2026.');
+    expect(files['word/document.xml']).toContain('MARIA SOUZA');
+  });
+
+  it('omite numeração de páginas e assinatura quando o timbre não as define', () => {
+    const plain = readZip(buildDecisionDocx(topics, DEFAULT_LETTERHEAD_TEMPLATES[1]));
+    expect(plain['word/footer1.xml']).not.toContain('PAGE');
+    expect(plain['word/document.xml']).not.toContain('Juiz');
+  });
+});
+
+describe('getDocxFileName', () => {
+  it('usa o número do processo quando disponível', () => {
+    expect(getDocxFileName('0001234-56.2025.5.15.0001')).toBe('sentenca-0001234-56.2025.5.15.0001.docx');
+  });
+
+  it('cai na data atual sem processo', () => {
+    expect(getDocxFileName()).toMatch(/^sentenca-\d{4}-\d{2}-\d{2}\.docx$/);
+  });
+});
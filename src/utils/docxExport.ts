@@ -0,0 +1,399 @@
+/**
+ * @file docxExport.ts
+ * @description Geração da sentença em .docx nativo (OOXML) a partir dos tópicos
+ * @version 1.53.29
+ *
+ * Converte o HTML do Quill (parágrafos, títulos, listas, negrito/itálico/sublinhado,
+ * alinhamento via classes ql-align-*) em WordprocessingML e empacota com zip.ts.
+ * O timbre (cabeçalho, rodapé, numeração de páginas e bloco de assinatura) vem de
+ * um LetterheadTemplate configurado pelo usuário.
+ */
+
+import { buildDecisionSections } from './decisionSections';
+import { createZip } from './zip';
+import type { LetterheadTemplate, Topic } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** numId da lista com marcadores (abstractNum 0); listas numeradas recebem numIds a partir de 2 */
+const BULLET_NUM_ID = 1;
+
+/** Recuo por nível de lista/ql-indent, em twips (1,27 cm) */
+const INDENT_STEP = 720;
+
+/** Recuo das citações (blockquote), em twips (4 cm) */
+const QUOTE_INDENT = 2268;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  vertAlign?: 'superscript' | 'subscript';
+}
+
+interface ParagraphOptions {
+  style?: string;
+  align?: 'left' | 'center' | 'right' | 'both';
+  indentLeft?: number;
+  numId?: number;
+  ilvl?: number;
+}
+
+/** Estado de numeração compartilhado entre todos os blocos do documento */
+export interface DocxNumberingState {
+  /** numIds das listas numeradas (cada <ol> reinicia em 1) */
+  orderedNumIds: number[];
+}
+
+export interface BuildDocxOptions {
+  /** Data usada na linha de local e data (default: hoje) */
+  date?: Date;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS XML
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Escapa o texto para o XML do .docx. Remove também os caracteres de controle
+ * proibidos no XML 1.0 (colados de PDF/Word), que fazem o Word recusar o arquivo.
+ */
+export function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function buildRun(text: string, format: RunFormat): string {
+  const props: string[] = [];
+  if (format.bold) props.push('<w:b/>');
+  if (format.italic) props.push('<w:i/>');
+  if (format.strike) props.push('<w:strike/>');
+  if (format.underline) props.push('<w:u w:val="single"/>');
+  if (format.vertAlign) props.push(`<w:vertAlign w:val="${format.vertAlign}"/>`);
+  const rPr = props.length ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+  return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function buildParagraph(runs: string, options: ParagraphOptions = {}): string {
+  const props: string[] = [];
+  if (options.style) props.push(`<w:pStyle w:val="${options.style}"/>`);
+  if (options.numId !== undefined) {
+    props.push(`<w:numPr><w:ilvl w:val="${options.ilvl ?? 0}"/><w:numId w:val="${options.numId}"/></w:numPr>`);
+  }
+  if (options.indentLeft) props.push(`<w:ind w:left="${options.indentLeft}"/>`);
+  if (options.align) props.push(`<w:jc w:val="${options.align}"/>`);
+  const pPr = props.length ? `<w:pPr>${props.join('')}</w:pPr>` : '';
+  return `<w:p>${pPr}${runs}</w:p>`;
+}
+
+/** Lê o alinhamento das classes do Quill (ql-align-*) ou do style inline */
+function getAlignment(el: Element, fallback: ParagraphOptions['align']): ParagraphOptions['align'] {
+  const className = el.getAttribute('class') || '';
+  const style = (el.getAttribute('style') || '').toLowerCase();
+  if (className.includes('ql-align-center') || style.includes('text-align: center')) return 'center';
+  if (className.includes('ql-align-right') || style.includes('text-align: right')) return 'right';
+  if (className.includes('ql-align-justify') || style.includes('text-align: justify')) return 'both';
+  if (style.includes('text-align: left')) return 'left';
+  return fallback;
+}
+
+/** Nível de recuo do Quill (ql-indent-N) */
+function getIndentLevel(el: Element): number {
+  const match = (el.getAttribute('class') || '').match(/ql-indent-(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONVERSÃO HTML → WORDPROCESSINGML
+// ═══════════════════════════════════════════════════════════════════════════
+
+function convertInline(node: Node, format: RunFormat): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    return text ? buildRun(text, format) : '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'br') return '<w:r><w:br/></w:r>';
+
+  const next: RunFormat = { ...format };
+  const style = (el.getAttribute('style') || '').toLowerCase();
+  if (tag === 'strong' || tag === 'b' || /font-weight:\s*(bold|[6-9]00)/.test(style)) next.bold = true;
+  if (tag === 'em' || tag === 'i' || style.includes('font-style: italic')) next.italic = true;
+  if (tag === 'u' || style.includes('text-decoration: underline')) next.underline = true;
+  if (tag === 's' || tag === 'strike' || tag === 'del') next.strike = true;
+  if (tag === 'sup') next.vertAlign = 'superscript';
+  if (tag === 'sub') next.vertAlign = 'subscript';
+
+  return Array.from(el.childNodes).map(child => convertInline(child, next)).join('');
+}
+
+function convertList(list: Element, numbering: DocxNumberingState): string {
+  let orderedNumId: number | null = null;
+  const getOrderedNumId = (): number => {
+    if (orderedNumId === null) {
+      orderedNumId = BULLET_NUM_ID + 1 + numbering.orderedNumIds.length;
+      numbering.orderedNumIds.push(orderedNumId);
+    }
+    return orderedNumId;
+  };
+
+  return Array.from(list.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map(li => {
+      // Quill 2 usa <ol> para ambos os tipos, diferenciando via data-list
+      const dataList = li.getAttribute('data-list');
+      const isOrdered = dataList ? dataList === 'ordered' : list.tagName.toLowerCase() === 'ol';
+      return buildParagraph(convertInline(li, {}), {
+        style: 'ListParagraph',
+        numId: isOrdered ? getOrderedNumId() : BULLET_NUM_ID,
+        ilvl: Math.min(getIndentLevel(li), 8),
+        align: getAlignment(li, 'both')
+      });
+    })
+    .join('');
+}
+
+function convertBlock(node: Node, numbering: DocxNumberingState): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').trim();
+    return text ? buildParagraph(buildRun(text, {}), { align: 'both' }) : '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+
+  if (/^h[1-6]$/.test(tag)) {
+    return buildParagraph(convertInline(el, {}), {
+      style: tag === 'h1' ? 'Heading1' : 'Heading2',
+      align: getAlignment(el, undefined)
+    });
+  }
+  if (tag === 'ul' || tag === 'ol') return convertList(el, numbering);
+  if (tag === 'blockquote') {
+    return buildParagraph(convertInline(el, {}), { style: 'Quote', indentLeft: QUOTE_INDENT, align: 'both' });
+  }
+  if (tag === 'div' && Array.from(el.children).some(c => /^(p|div|ul|ol|h[1-6]|blockquote)$/i.test(c.tagName))) {
+    return Array.from(el.childNodes).map(child => convertBlock(child, numbering)).join('');
+  }
+
+  const indent = getIndentLevel(el);
+  return buildParagraph(convertInline(el, {}), {
+    align: getAlignment(el, 'both'),
+    indentLeft: indent ? indent * INDENT_STEP : undefined
+  });
+}
+
+/**
+ * Converte HTML (formato Quill) em parágrafos WordprocessingML (<w:p>...)
+ */
+export function htmlToDocxParagraphs(html: string, numbering: DocxNumberingState): string {
+  if (!html || !html.trim()) return '';
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  return Array.from(doc.body.childNodes).map(node => convertBlock(node, numbering)).join('');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARTES DO PACOTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildContentTypes(): string {
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+    + '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>'
+    + '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+}
+
+function buildPackageRels(): string {
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+}
+
+function buildDocumentRels(): string {
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>'
+    + '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>'
+    + '<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>'
+    + '</Relationships>';
+}
+
+function buildCoreProps(title: string): string {
+  return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">`
+    + `<dc:title>${escapeXml(title)}</dc:title><dc:creator>SentencifyAI</dc:creator>`
+    + '</cp:coreProperties>';
+}
+
+/** Times New Roman 12pt, espaçamento 1,5 — mesmo padrão do EXPORT_STYLES */
+function buildStyles(): string {
+  const font = '<w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/>';
+  return `${XML_HEADER}<w:styles xmlns:w="${W_NS}">`
+    + `<w:docDefaults><w:rPrDefault><w:rPr>${font}<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="pt-BR"/></w:rPr></w:rPrDefault>`
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="240" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>'
+    + '<w:pPr><w:keepNext/><w:spacing w:after="400"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="28"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>'
+    + '<w:pPr><w:keepNext/><w:spacing w:before="400" w:after="200"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:caps/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="120"/></w:pPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:jc w:val="center"/></w:pPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:jc w:val="center"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>'
+    + '</w:styles>';
+}
+
+function buildNumbering(numbering: DocxNumberingState): string {
+  const levels = (format: 'bullet' | 'decimal'): string => Array.from({ length: 9 }, (_, ilvl) => {
+    const text = format === 'bullet' ? (ilvl % 2 === 0 ? '•' : '◦') : `%${ilvl + 1}.`;
+    return `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>`
+      + `<w:pPr><w:ind w:left="${INDENT_STEP * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+
+  const orderedNums = numbering.orderedNumIds.map(numId =>
+    `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+  ).join('');
+
+  return `${XML_HEADER}<w:numbering xmlns:w="${W_NS}">`
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>`
+    + `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${orderedNums}`
+    + '</w:numbering>';
+}
+
+function buildField(instruction: string): string {
+  return '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+    + `<w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>`
+    + '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r>'
+    + '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+}
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function buildHeader(template: LetterheadTemplate): string {
+  const lines = splitLines(template.headerText).map(line =>
+    buildParagraph(buildRun(line, { bold: true }), { style: 'Header' })
+  );
+  if (template.varaName.trim()) {
+    lines.push(buildParagraph(buildRun(template.varaName.trim(), {}), { style: 'Header' }));
+  }
+  // Word exige ao menos um parágrafo no cabeçalho
+  const body = lines.length ? lines.join('') : buildParagraph('', { style: 'Header' });
+  return `${XML_HEADER}<w:hdr xmlns:w="${W_NS}" xmlns:r="${R_NS}">${body}</w:hdr>`;
+}
+
+function buildFooter(template: LetterheadTemplate): string {
+  const lines = splitLines(template.footerText).map(line =>
+    buildParagraph(buildRun(line, {}), { style: 'Footer' })
+  );
+  if (template.showPageNumbers) {
+    lines.push(buildParagraph(
+      buildRun('Página ', {}) + buildField('PAGE') + buildRun(' de ', {}) + buildField('NUMPAGES'),
+      { style: 'Footer' }
+    ));
+  }
+  const body = lines.length ? lines.join('') : buildParagraph('', { style: 'Footer' });
+  return `${XML_HEADER}<w:ftr xmlns:w="${W_NS}" xmlns:r="${R_NS}">${body}</w:ftr>`;
+}
+
+/** Linha de local/data + nome e cargo do(a) magistrado(a) */
+function buildSignatureBlock(template: LetterheadTemplate, date: Date): string {
+  const parts: string[] = [];
+  if (template.city.trim()) {
+    const dateText = date.toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric' });
+    parts.push(buildParagraph(buildRun(`${template.city.trim()}, ${dateText}.`, {}), { align: 'right' }));
+  }
+  if (template.judgeName.trim()) {
+    parts.push(buildParagraph(''));
+    parts.push(buildParagraph(buildRun(template.judgeName.trim().toUpperCase(), { bold: true }), { align: 'center' }));
+    if (template.judgeTitle.trim()) {
+      parts.push(buildParagraph(buildRun(template.judgeTitle.trim(), {}), { align: 'center' }));
+    }
+  }
+  return parts.join('');
+}
+
+/** A4 com margens ABNT (3 cm superior/esquerda, 2 cm inferior/direita) */
+function buildSectionProps(): string {
+  return '<w:sectPr><w:headerReference w:type="default" r:id="rId3"/><w:footerReference w:type="default" r:id="rId4"/>'
+    + '<w:pgSz w:w="11906" w:h="16838"/>'
+    + '<w:pgMar w:top="1701" w:right="1134" w:bottom="1134" w:left="1701" w:header="709" w:footer="709" w:gutter="0"/>'
+    + '</w:sectPr>';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API PÚBLICA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Gera o arquivo .docx completo da sentença a partir dos tópicos selecionados
+ */
+export function buildDecisionDocx(
+  selectedTopics: Topic[],
+  template: LetterheadTemplate,
+  options: BuildDocxOptions = {}
+): Uint8Array {
+  const numbering: DocxNumberingState = { orderedNumIds: [] };
+  let body = buildParagraph(buildRun('SENTENÇA', {}), { style: 'Heading1' });
+
+  for (const section of buildDecisionSections(selectedTopics)) {
+    body += buildParagraph(buildRun(section.title, {}), { style: 'Heading2' });
+    for (const html of section.htmlParts) {
+      body += htmlToDocxParagraphs(html, numbering);
+    }
+  }
+
+  body += buildSignatureBlock(template, options.date ?? new Date());
+
+  const documentXml = `${XML_HEADER}<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body}${buildSectionProps()}</w:body></w:document>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: buildContentTypes() },
+    { name: '_rels/.rels', data: buildPackageRels() },
+    { name: 'docProps/core.xml', data: buildCoreProps('Sentença') },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/_rels/document.xml.rels', data: buildDocumentRels() },
+    { name: 'word/styles.xml', data: buildStyles() },
+    { name: 'word/numbering.xml', data: buildNumbering(numbering) },
+    { name: 'word/header1.xml', data: buildHeader(template) },
+    { name: 'word/footer1.xml', data: buildFooter(template) },
+  ]);
+}
+
+/**
+ * Nome do arquivo exportado: "sentenca-<processo>.docx" ou "sentenca-<data>.docx"
+ */
+export function getDocxFileName(processoNumero?: string): string {
+  const suffix = processoNumero?.replace(/[^\d.-]/g, '') || new Date().toISOString().split('T')[0];
+  return `sentenca-${suffix}.docx`;
+}
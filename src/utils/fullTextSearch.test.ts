@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  artigoToFullTextDoc,
+  buildFullTextIndex,
+  extractCitations,
+  fullTextSignature,
+  fuseHybridRankings,
+  parseFullTextQuery,
+  precedenteToFullTextDoc,
+  searchFullText,
+  tokenizeFullText,
+} from './fullTextSearch';
+import type { Artigo, Precedente } from '../types';
+
+const artigo = (id: string, numero: string, caput: string, extra: Partial<Artigo> = {}): Artigo => ({
+  id,
+  lei: id.split('-art-')[0],
+  numero,
+  texto: caput,
+  caput,
+  ...extra,
+});
+
+const ARTIGOS: Artigo[] = [
+  artigo('clt-art-477', '477', 'Na extinção do contrato de trabalho, o empregador deverá proceder à anotação na CTPS e pagar as verbas rescisórias.', {
+    paragrafos: [
+      { numero: '6', texto: 'A entrega ao empregado de documentos e o pagamento das verbas rescisórias deverão ser efetuados até dez dias.' },
+      { numero: '8', texto: 'A inobservância do disposto no § 6º sujeitará o infrator à multa em favor do empregado.' },
+    ],
+  }),
+  artigo('clt-art-482', '482', 'Constituem justa causa para rescisão do contrato de trabalho pelo empregador: a) ato de improbidade.'),
+  artigo('clt-art-483', '483', 'O empregado poderá considerar rescindido o contrato quando o empregador praticar falta grave, sem justa causa aparente.'),
+  artigo('cpc-art-477', '477', 'O perito protocolará o laudo em juízo, no prazo fixado pelo juiz.'),
+  artigo('cf88-art-7', '7º', 'São direitos dos trabalhadores urbanos e rurais.', {
+    incisos: [{ numero: 'XXIX', texto: 'ação, quanto aos créditos resultantes das relações de trabalho, com prazo prescricional de cinco anos.' }],
+  }),
+];
+
+const PRECEDENTES: Precedente[] = [
+  { id: 'tst-sum-331', tipo: 'Súmula', tipoProcesso: 'Súmula', numero: '331', tribunal: 'TST', texto: '', tese: 'Contrato de prestação de serviços. Responsabilidade subsidiária do tomador.' },
+  { id: 'tst-oj-394', tipo: 'OJ', tipoProcesso: 'OJ', numero: '394', tribunal: 'TST', texto: '', tese: 'Repouso semanal remunerado. Integração das horas extras.' },
+  { id: 'stf-tema-1046', tipo: 'RE', tipoProcesso: 'RE', numero: '1121633', tema: '1046', tribunal: 'STF', texto: '', tese: 'São constitucionais os acordos e convenções coletivas que limitam direitos trabalhistas, respeitado o art. 7º.' },
+];
+
+const legisIndex = buildFullTextIndex(ARTIGOS.map(artigoToFullTextDoc));
+const jurisIndex = buildFullTextIndex(PRECEDENTES.map(precedenteToFullTextDoc));
+const ids = (hits: { id: string }[]) => hits.map(h => h.id);
+
+describe('tokenizeFullText', () => {
+  it('remove acentos, pontuação e reduz plurais', () => {
+    expect(tokenizeFullText('Férias, Rescisões e Horas Extras')).toEqual(['feria', 'rescisao', 'e', 'hora', 'extra']);
+    expect(tokenizeFullText('§ 8º')).toEqual(['8']);
+  });
+});
+
+describe('extractCitations', () => {
+  it('reconhece artigo, parágrafo e lei', () => {
+    const { citations, rest } = extractCitations('art. 477 §8º CLT');
+    expect(citations).toEqual([{ base: 'art:clt:477', specific: ['art:clt:477:p8'], raw: 'art. 477 §8º' }]);
+    expect(rest).toBe('');
+  });
+
+  it('reconhece inciso, Constituição e leis numeradas', () => {
+    expect(extractCitations('art. 7º, XXIX, da CF').citations[0]).toMatchObject({ base: 'art:cf88:7', specific: ['art:cf88:7:ixxix'] });
+    expect(extractCitations('artigo 2 da Lei 6.019/74').citations[0].base).toBe('art:l6019:2');
+  });
+
+  it('reconhece súmulas, OJs e temas com tribunal', () => {
+    expect(extractCitations('Súmula 331 do TST').citations[0].base).toBe('sumula:tst:331');
+    expect(extractCitations('OJ 394').citations[0].base).toBe('oj:394');
+    expect(extractCitations('Súmula Vinculante 4').citations[0].base).toBe('sumula:stf:4');
+  });
+
+  it('não consome a lei sem citação de artigo', () => {
+    expect(extractCitations('horas extras CLT')).toEqual({ citations: [], rest: 'horas extras CLT' });
+  });
+});
+
+describe('parseFullTextQuery', () => {
+  it('interpreta frases, OU e exclusões', () => {
+    const parsed = parseFullTextQuery('"justa causa" OU improbidade -perito');
+    expect(parsed.groups).toEqual([[{ terms: ['justa', 'causa'] }, { terms: ['improbidade'] }]]);
+    expect(parsed.excluded).toEqual([{ terms: ['perito'] }]);
+    expect(parsed.explicit).toBe(true);
+  });
+
+  it('descarta stopwords soltas e exige os demais termos', () => {
+    const parsed = parseFullTextQuery('multa do empregado');
+    expect(parsed.groups).toEqual([[{ terms: ['multa'] }], [{ terms: ['empregado'] }]]);
+    expect(parsed.explicit).toBe(false);
+  });
+});
+
+describe('searchFullText', () => {
+  it('coloca a citação exata à frente de artigos semelhantes', () => {
+    const hits = searchFullText(legisIndex, 'art. 477 §8º CLT');
+    expect(ids(hits)).toEqual(['clt-art-477']);
+    expect(hits[0].citation).toBe(true);
+  });
+
+  it('sem a lei, traz o artigo de todas as leis', () => {
+    expect(ids(searchFullText(legisIndex, 'art. 477')).sort()).toEqual(['clt-art-477', 'cpc-art-477']);
+  });
+
+  it('busca frases por posições consecutivas', () => {
+    expect(ids(searchFullText(legisIndex, '"justa causa"')).sort()).toEqual(['clt-art-482', 'clt-art-483']);
+    expect(ids(searchFullText(legisIndex, '"causa justa"'))).toEqual([]);
+  });
+
+  it('aplica operadores booleanos', () => {
+    expect(ids(searchFullText(legisIndex, '"justa causa" -"falta grave"'))).toEqual(['clt-art-482']);
+    expect(ids(searchFullText(legisIndex, 'perito OR improbidade')).sort()).toEqual(['clt-art-482', 'cpc-art-477']);
+    expect(ids(searchFullText(legisIndex, 'perito AND improbidade'))).toEqual([]);
+  });
+
+  it('cai para OU quando nenhum documento tem todos os termos (sem operadores)', () => {
+    expect(ids(searchFullText(legisIndex, 'perito improbidade')).sort()).toEqual(['clt-art-482', 'cpc-art-477']);
+  });
+
+  it('ranqueia por BM25 (termo mais frequente/raro primeiro)', () => {
+    const hits = searchFullText(legisIndex, 'verbas rescisórias');
+    expect(hits[0].id).toBe('clt-art-477');
+  });
+
+  it('localiza precedentes pela citação e citações ausentes viram frase', () => {
+    expect(ids(searchFullText(jurisIndex, 'Súmula 331 TST'))).toEqual(['tst-sum-331']);
+    expect(ids(searchFullText(jurisIndex, 'tema 1046'))).toEqual(['stf-tema-1046']);
+    expect(ids(searchFullText(jurisIndex, 'art. 7º'))).toEqual(['stf-tema-1046']);
+  });
+
+  it('retorna vazio sem índice ou consulta', () => {
+    expect(searchFullText(null, 'multa')).toEqual([]);
+    expect(searchFullText(legisIndex, '   ')).toEqual([]);
+  });
+});
+
+describe('fuseHybridRankings', () => {
+  it('funde os rankings e mantém citações no topo', () => {
+    const fused = fuseHybridRankings(
+      [{ id: 'a', score: 1000, citation: true }, { id: 'b', score: 3, citation: false }],
+      [{ id: 'c', similarity: 0.9 }, { id: 'b', similarity: 0.8 }, { id: 'b', similarity: 0.7 }]
+    );
+    expect(fused.map(h => h.id)).toEqual(['a', 'b', 'c']);
+    expect(fused[1]).toMatchObject({ textRank: 2, similarity: 0.8 });
+    expect(fused[2].textRank).toBeUndefined();
+  });
+});
+
+describe('fullTextSignature', () => {
+  it('muda quando o conteúdo muda', () => {
+    const docs = ARTIGOS.map(artigoToFullTextDoc);
+    const changed = [...docs.slice(1), { ...docs[0], text: docs[0].text + ' novo' }];
+    expect(fullTextSignature(docs)).toBe(fullTextSignature(ARTIGOS.map(artigoToFullTextDoc)));
+    expect(fullTextSignature(changed)).not.toBe(fullTextSignature(docs));
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * @file fullTextSearch.ts
+ * @description Busca textual offline (BM25) sobre legislação e jurisprudência:
+ * índice invertido com posições (frases), chaves de citação exata
+ * ("art. 477 § 8º CLT", "Súmula 331 TST"), operadores booleanos e fusão com o
+ * ranking dos embeddings (Reciprocal Rank Fusion). Funções puras — a persistência
+ * do índice fica no FullTextIndexService.
+ * @version 1.53.35
+ */
+
+import type { Artigo, Precedente, FullTextDoc, FullTextIndex, FullTextHit, HybridHit } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const FULLTEXT_INDEX_VERSION = 1;
+
+/** Parâmetros clássicos do Okapi BM25 */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Citação exata sempre à frente do ranking textual */
+const CITATION_BOOST = 1000;
+
+/** Constante da Reciprocal Rank Fusion */
+export const RRF_K = 60;
+
+/** Stopwords (já normalizadas) ignoradas em termos soltos; frases as mantêm */
+const STOPWORDS = new Set([
+  'a', 'o', 'e', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos', 'um', 'uma',
+  'ao', 'aos', 'ou', 'que', 'se', 'com', 'por', 'para', 'pela', 'pelo', 'como', 'sua', 'seu',
+  'art', 'artigo', 'lei',
+]);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// NORMALIZAÇÃO E TOKENIZAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Minúsculas sem acentos */
+export const foldText = (s: string): string =>
+  (s || '').toLowerCase().normalize('NFD').replace(/\p{Mn}/gu, '');
+
+/**
+ * Reduz plurais (férias → feria, rescisões → rescisao, mulheres → mulher).
+ * Propositalmente mais leve que stemJuridico: frases e citações precisam
+ * de tokens previsíveis.
+ */
+export const normalizeToken = (t: string): string => {
+  if (t.length <= 3 || /^\d/.test(t)) return t;
+  if (t.length > 4 && /[oa]es$/.test(t)) return t.slice(0, -3) + 'ao';
+  if (t.length > 4 && t.endsWith('ais')) return t.slice(0, -3) + 'al';
+  if (t.length > 4 && /[rz]es$/.test(t)) return t.slice(0, -2);
+  if (t.endsWith('ns')) return t.slice(0, -2) + 'm';
+  if (t.endsWith('s')) return t.slice(0, -1);
+  return t;
+};
+
+export const tokenizeFullText = (text: string): string[] =>
+  foldText(text).replace(/[º°ª]/g, '').split(/[^a-z0-9]+/).filter(Boolean).map(normalizeToken);
+
+const own = <T>(record: Record<string, T>, key: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+/** "477-A" → "477a", "7º" → "7" */
+export const normArtNumero = (numero: string): string =>
+  foldText(numero).replace(/[º°ª]/g, '').replace(/[^a-z0-9]/g, '').replace(/^0+(?=\d)/, '');
+
+/** Os JSONs de jurisprudência trazem número/tema numéricos */
+export const normDigits = (numero?: string | number): string =>
+  String(numero ?? '').match(/\d+/)?.[0]?.replace(/^0+(?=\d)/, '') || '';
+
+export const normTribunal = (tribunal?: string): string => foldText(tribunal || '').replace(/[^a-z0-9]/g, '');
+
+/** Tipo do precedente para as chaves de citação */
+export const normTipoPrecedente = (tipo?: string): string => {
+  const t = foldText(tipo || '').replace(/[^a-z ]/g, '').trim();
+  if (/^(irr|rr|rrag|incjulgrrembrep|incjulgrrepetitivo)$/.test(t.replace(/ /g, ''))) return 'irr';
+  if (t.startsWith('orientacao') || t === 'oj') return 'oj';
+  if (t.startsWith('sumula')) return 'sumula';
+  return t.replace(/ /g, '');
+};
+
+export const paragrafoKey = (numero: string): string =>
+  /unico/.test(foldText(numero)) ? 'pu' : `p${normDigits(numero)}`;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DOCUMENTOS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Artigo → documento indexável com chaves art:<lei>:<número>[:p<§>|:i<inciso>] */
+export function artigoToFullTextDoc(artigo: Artigo): FullTextDoc {
+  const lei = artigo.lei || artigo.id?.split('-art-')[0] || artigo.id?.split('-')[0] || '';
+  const keywords = Array.isArray(artigo.keywords) ? artigo.keywords : (artigo.keywords ? [artigo.keywords] : []);
+  const text = [
+    `Art. ${artigo.numero}`,
+    artigo.caput || artigo.texto,
+    ...(artigo.paragrafos || []).map(p => `§ ${p.numero} ${p.texto}`),
+    ...(artigo.incisos || []).map(i => `${i.numero} ${i.texto}`),
+    ...(artigo.alineas || []).map(a => `${a.letra}) ${a.texto}`),
+    keywords.join(' '),
+  ].filter(Boolean).join('\n');
+
+  const numero = normArtNumero(artigo.numero || artigo.id?.split('-art-')[1] || '');
+  const bases = numero ? [`art:${lei}:${numero}`, `art:${numero}`] : [];
+  const qualifiers = [
+    ...(artigo.paragrafos || []).map(p => paragrafoKey(p.numero || '')),
+    ...(artigo.incisos || []).map(i => `i${foldText(i.numero || '').replace(/[^ivxlc]/g, '')}`),
+  ].filter(q => q.length > 1);
+
+  return {
+    id: artigo.id,
+    text,
+    citations: [...bases, ...bases.flatMap(b => qualifiers.map(q => `${b}:${q}`))],
+  };
+}
+
+/** Precedente → documento com chaves <tipo>[:<tribunal>]:<número> e tema[:<tribunal>]:<tema> */
+export function precedenteToFullTextDoc(p: Precedente): FullTextDoc {
+  const keywords = Array.isArray(p.keywords) ? p.keywords.join(' ') : (p.keywords || '');
+  const text = [
+    p.tipoProcesso, p.numero, p.tema ? `Tema ${p.tema}` : '', p.titulo,
+    p.tese || p.enunciado || p.texto || p.fullText, keywords,
+  ].filter(Boolean).join('\n');
+
+  const tipo = normTipoPrecedente(p.tipoProcesso || p.tipo);
+  const tribunal = normTribunal(p.tribunal);
+  const numero = normDigits(p.numero);
+  const tema = normDigits(p.tema);
+  const citations: string[] = [];
+  if (tipo && numero) citations.push(`${tipo}:${numero}`, ...(tribunal ? [`${tipo}:${tribunal}:${numero}`] : []));
+  if (tema) citations.push(`tema:${tema}`, ...(tribunal ? [`tema:${tribunal}:${tema}`] : []));
+
+  return { id: p.id, text, citations };
+}
+
+/** Assinatura do conjunto de documentos (detecta índice persistido desatualizado) */
+export function fullTextSignature(docs: FullTextDoc[]): string {
+  let hash = 0;
+  for (const doc of docs) {
+    const key = `${doc.id}:${doc.text.length}`;
+    for (let i = 0; i < key.length; i++) {
+      hash = ((hash << 5) - hash) + key.charCodeAt(i);
+      hash = hash & hash;
+    }
+  }
+  return `${FULLTEXT_INDEX_VERSION}:${docs.length}:${hash.toString(36)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ÍNDICE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildFullTextIndex(docs: FullTextDoc[]): FullTextIndex {
+  const postings: Record<string, Record<string, number[]>> = {};
+  const lengths: Record<string, number> = {};
+  const citations: Record<string, string[]> = {};
+  let totalTokens = 0;
+
+  for (const doc of docs) {
+    const tokens = tokenizeFullText(doc.text);
+    lengths[doc.id] = tokens.length;
+    totalTokens += tokens.length;
+    tokens.forEach((token, pos) => {
+      const byDoc = own(postings, token) || (postings[token] = {});
+      const positions = own(byDoc, doc.id) || (byDoc[doc.id] = []);
+      positions.push(pos);
+    });
+    for (const key of new Set(doc.citations)) {
+      (own(citations, key) || (citations[key] = [])).push(doc.id);
+    }
+  }
+
+  return {
+    version: FULLTEXT_INDEX_VERSION,
+    docCount: docs.length,
+    avgLength: docs.length > 0 ? totalTokens / docs.length : 0,
+    lengths,
+    postings,
+    citations,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSULTA: CITAÇÕES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface CitationQuery {
+  /** Chave do artigo/precedente (ex: art:clt:477) */
+  base: string;
+  /** Chaves mais específicas exigidas para o "match completo" (ex: art:clt:477:p8) */
+  specific: string[];
+  /** Trecho original da consulta (vira frase se a citação não existir no índice) */
+  raw: string;
+}
+
+const ART_RE = /\bart(?:igo)?s?\.?\s*(\d+(?:\.\d{3})*)(?:[º°]|o\b)?(?:\s*-\s*([a-z])\b)?((?:\s*,?\s*(?:§\s*\d+\s*[º°]?|§\s*unico|paragrafo\s+(?:\d+|unico)|p\.\s*u\.|inc(?:iso)?\.?\s+[ivxlc]+\b|,\s*[ivxlc]+\b))*)/gi;
+const PARAGRAFO_RE = /§\s*(\d+|unico)|paragrafo\s+(\d+|unico)|(p\.\s*u\.)/i;
+const INCISO_RE = /inc(?:iso)?\.?\s+([ivxlc]+)\b|,\s*([ivxlc]+)\b/i;
+
+const LEI_ALIASES: Array<[RegExp, (m: RegExpMatchArray) => string]> = [
+  [/\bclt\b/i, () => 'clt'],
+  [/\bcpc\b/i, () => 'cpc'],
+  [/\bcf\s*\/?\s*(?:88|1988)\b|\bcrfb\b|\bcf\b|\bconstituicao(?:\s+federal)?\b/i, () => 'cf88'],
+  [/\bcdc\b/i, () => 'cdc'],
+  [/\bcodigo\s+civil\b|\bcc\b/i, () => 'cc'],
+  [/\blei\s*(?:n[º°o.]*\s*)?(\d{1,2}\.\d{3}|\d{3,5})(?:\s*\/\s*\d{2,4})?/i, m => `l${m[1].replace(/\./g, '')}`],
+];
+
+/** Primeira lei citada no texto (já sem acentos) → chave usada nas citações (clt, cf88, l6019...) */
+export function findLeiAlias(text: string): { key: string; match: RegExpMatchArray } | null {
+  for (const [re, toKey] of LEI_ALIASES) {
+    const match = text.match(re);
+    if (match) return { key: toKey(match), match };
+  }
+  return null;
+}
+
+const PRECEDENTE_RE = /\b(sumula\s+vinculante|sumula|orientacao\s+jurisprudencial|oj|tema|irr|irdr|iac)\s*(?:n[º°o.]*\s*)?(\d+)/gi;
+const TRIBUNAL_RE = /\b(tst|stf|stj|trt\s*-?\s*\d+)\b/i;
+
+/**
+ * Separa as citações exatas do restante da consulta. A lei (CLT, CPC, "Lei 605")
+ * e o tribunal só são consumidos quando acompanham uma citação.
+ */
+export function extractCitations(query: string): { citations: CitationQuery[]; rest: string } {
+  let rest = (query || '').normalize('NFD').replace(/\p{Mn}/gu, '');
+  const citations: CitationQuery[] = [];
+
+  const arts = [...rest.matchAll(ART_RE)];
+  if (arts.length > 0) {
+    for (const m of arts) rest = rest.replace(m[0], ' ');
+    const alias = findLeiAlias(rest);
+    const lei = alias?.key || '';
+    if (alias) rest = rest.replace(alias.match[0], ' ');
+    for (const m of arts) {
+      const numero = normArtNumero(`${m[1]}${m[2] || ''}`);
+      const base = lei ? `art:${lei}:${numero}` : `art:${numero}`;
+      const qualifiers = m[3] || '';
+      const par = qualifiers.match(PARAGRAFO_RE);
+      const inc = qualifiers.match(INCISO_RE);
+      const specific = [
+        ...(par ? [`${base}:${par[3] ? 'pu' : paragrafoKey(par[1] || par[2])}`] : []),
+        ...(inc ? [`${base}:i${(inc[1] || inc[2]).toLowerCase()}`] : []),
+      ];
+      citations.push({ base, specific, raw: m[0] });
+    }
+  }
+
+  const precedentes = [...rest.matchAll(PRECEDENTE_RE)];
+  if (precedentes.length > 0) {
+    for (const m of precedentes) rest = rest.replace(m[0], ' ');
+    const tribunalMatch = rest.match(TRIBUNAL_RE);
+    if (tribunalMatch) rest = rest.replace(tribunalMatch[0], ' ');
+    for (const m of precedentes) {
+      const tipoRaw = foldText(m[1]);
+      const vinculante = tipoRaw.includes('vinculante');
+      const tipo = tipoRaw.startsWith('tema') ? 'tema' : normTipoPrecedente(tipoRaw);
+      const tribunal = tribunalMatch ? normTribunal(tribunalMatch[1]) : (vinculante ? 'stf' : '');
+      const numero = normDigits(m[2]);
+      citations.push({
+        base: tribunal ? `${tipo}:${tribunal}:${numero}` : `${tipo}:${numero}`,
+        specific: [],
+        raw: m[0],
+      });
+    }
+  }
+
+  return { citations, rest: rest.trim() };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONSULTA: OPERADORES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Termo (1 token) ou frase (tokens consecutivos) */
+interface QueryClause {
+  terms: string[];
+}
+
+export interface ParsedFullTextQuery {
+  /** Grupos exigidos (E); dentro do grupo, alternativas (OU) */
+  groups: QueryClause[][];
+  excluded: QueryClause[];
+  /** Usuário usou aspas/operadores (desliga o fallback para OU) */
+  explicit: boolean;
+}
+
+/**
+ * Interpreta "frases entre aspas", OR/OU, AND/E, NOT/NÃO e o prefixo "-".
+ * Termos sem operador são exigidos (E).
+ */
+export function parseFullTextQuery(query: string): ParsedFullTextQuery {
+  const groups: QueryClause[][] = [];
+  const excluded: QueryClause[] = [];
+  let explicit = false;
+  let pendingOr = false;
+  let pendingNot = false;
+
+  for (const m of (query || '').matchAll(/(-?)"([^"]*)"|(\S+)/g)) {
+    const word = m[3];
+    if (word && /^(OR|OU|\|)$/.test(word)) { pendingOr = true; explicit = true; continue; }
+    if (word && /^(AND|E|\+|&)$/.test(word)) { explicit = true; continue; }
+    if (word && /^(NOT|NAO|NÃO)$/.test(word)) { pendingNot = true; explicit = true; continue; }
+
+    let negate = pendingNot;
+    let terms: string[];
+    if (m[2] !== undefined) {
+      explicit = true;
+      negate = negate || m[1] === '-';
+      terms = tokenizeFullText(m[2]);
+    } else {
+      let text = word;
+      if (text.length > 1 && text.startsWith('-')) { negate = true; explicit = true; text = text.slice(1); }
+      terms = tokenizeFullText(text);
+      if (terms.length === 1 && STOPWORDS.has(terms[0])) terms = [];
+    }
+    pendingNot = false;
+
+    if (terms.length > 0) {
+      const clause = { terms };
+      if (negate) excluded.push(clause);
+      else if (pendingOr && groups.length > 0) groups[groups.length - 1].push(clause);
+      else groups.push([clause]);
+    }
+    pendingOr = false;
+  }
+
+  return { groups, excluded, explicit };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// BUSCA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Frequência da cláusula em cada documento (frase = posições consecutivas) */
+function clauseFrequencies(index: FullTextIndex, clause: QueryClause): Map<string, number> {
+  const result = new Map<string, number>();
+  const lists = clause.terms.map(t => own(index.postings, t));
+  if (lists.some(l => !l)) return result;
+  const [first, ...others] = lists as Record<string, number[]>[];
+
+  for (const docId of Object.keys(first)) {
+    if (others.length === 0) {
+      result.set(docId, first[docId].length);
+      continue;
+    }
+    const positionSets = others.map(o => own(o, docId));
+    if (positionSets.some(p => !p)) continue;
+    const sets = (positionSets as number[][]).map(p => new Set(p));
+    const tf = first[docId].filter(pos => sets.every((s, i) => s.has(pos + i + 1))).length;
+    if (tf > 0) result.set(docId, tf);
+  }
+  return result;
+}
+
+function scoreClause(index: FullTextIndex, clause: QueryClause): Map<string, number> {
+  const freqs = clauseFrequencies(index, clause);
+  const df = freqs.size;
+  const idf = Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5));
+  const scores = new Map<string, number>();
+  freqs.forEach((tf, docId) => {
+    const norm = 1 - BM25_B + BM25_B * ((index.lengths[docId] || 0) / (index.avgLength || 1));
+    scores.set(docId, idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm));
+  });
+  return scores;
+}
+
+const addScores = (target: Map<string, number>, source: Map<string, number>) => {
+  source.forEach((s, id) => target.set(id, (target.get(id) || 0) + s));
+};
+
+/**
+ * Busca BM25 com citações exatas e operadores. Citações encontradas vêm primeiro
+ * (o match completo, com § ou inciso, à frente do artigo apenas); citações ausentes
+ * do índice são buscadas como frase. Sem operadores explícitos, se nenhum documento
+ * contém todos os termos, cai para OU.
+ */
+export function searchFullText(index: FullTextIndex | null, query: string, limit = 50): FullTextHit[] {
+  if (!index || !query?.trim()) return [];
+
+  const { citations, rest } = extractCitations(query);
+  const citationTier = new Map<string, number>();
+  const unmatched: string[] = [];
+  for (const c of citations) {
+    const docs = own(index.citations, c.base);
+    if (!docs) { unmatched.push(`"${c.raw.replace(/"/g, '')}"`); continue; }
+    const full = new Set(c.specific.length > 0
+      ? docs.filter(id => c.specific.every(k => own(index.citations, k)?.includes(id)))
+      : docs);
+    for (const id of docs) {
+      citationTier.set(id, Math.max(citationTier.get(id) || 0, full.has(id) ? 2 : 1));
+    }
+  }
+
+  const parsed = parseFullTextQuery([rest, ...unmatched].join(' '));
+  const groupScores = parsed.groups.map(group => {
+    const scores = new Map<string, number>();
+    for (const clause of group) addScores(scores, scoreClause(index, clause));
+    return scores;
+  });
+
+  let textScores = new Map<string, number>();
+  if (groupScores.length > 0) {
+    const [first, ...others] = groupScores;
+    first.forEach((s, id) => {
+      if (others.every(g => g.has(id))) textScores.set(id, s + others.reduce((acc, g) => acc + (g.get(id) || 0), 0));
+    });
+    if (textScores.size === 0 && !parsed.explicit && groupScores.length > 1) {
+      textScores = new Map();
+      groupScores.forEach(g => addScores(textScores, g));
+    }
+  }
+
+  const excluded = new Set<string>();
+  for (const clause of parsed.excluded) clauseFrequencies(index, clause).forEach((_, id) => excluded.add(id));
+
+  const hits = new Map<string, FullTextHit>();
+  citationTier.forEach((tier, id) => hits.set(id, { id, score: tier * CITATION_BOOST + (textScores.get(id) || 0), citation: true }));
+  textScores.forEach((score, id) => { if (!hits.has(id)) hits.set(id, { id, score, citation: false }); });
+
+  return [...hits.values()]
+    .filter(h => !excluded.has(h.id))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// FUSÃO HÍBRIDA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reciprocal Rank Fusion do ranking BM25 com o dos embeddings (já ordenado por
+ * similaridade; ids repetidos de chunks contam uma vez). Citações exatas ficam
+ * sempre no topo.
+ */
+export function fuseHybridRankings(
+  textHits: FullTextHit[],
+  semanticHits: Array<{ id: string; similarity: number }>,
+  k = RRF_K
+): HybridHit[] {
+  const fused = new Map<string, HybridHit>();
+  textHits.forEach((hit, i) => {
+    fused.set(hit.id, { id: hit.id, score: 1 / (k + i + 1), citation: hit.citation, textRank: i + 1 });
+  });
+
+  const seen = new Set<string>();
+  let rank = 0;
+  for (const hit of semanticHits) {
+    if (seen.has(hit.id)) continue;
+    seen.add(hit.id);
+    rank++;
+    const existing = fused.get(hit.id);
+    if (existing) {
+      existing.score += 1 / (k + rank);
+      existing.similarity = hit.similarity;
+    } else {
+      fused.set(hit.id, { id: hit.id, score: 1 / (k + rank), citation: false, similarity: hit.similarity });
+    }
+  }
+
+  return [...fused.values()].sort((a, b) => Number(b.citation) - Number(a.citation) || b.score - a.score);
+}
@@ -5,7 +5,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 // que é onde as regras de segurança do interceptor mais importam.
 vi.mock('../constants/api', () => ({ API_BASE: '' }));
 
-import { installApiAuthInterceptor } from './installApiAuthInterceptor';
+import { installApiAuthInterceptor, currentAIApp } from './installApiAuthInterceptor';
 
 const AUTH_KEY = 'sentencify-auth-token';
 
@@ -86,4 +86,31 @@ describe('installApiAuthInterceptor', () => {
     expect(h.headerOf(0, 'x-api-key')).toBe('sk-abc');
     expect(h.headerOf(0, 'Content-Type')).toBe('application/json');
   });
+
+  it('identifica o app nas rotas de proxy de IA (X-AI-App) e só nelas', async () => {
+    localStorage.setItem(AUTH_KEY, 'tok123');
+    const h = setupInterceptor();
+    await h.fetch('/api/gemini/stream', { method: 'POST' });
+    await h.fetch('/api/sync/pull', { method: 'POST' });
+    await h.fetch('/api/claude/messages', { method: 'POST', headers: { 'X-AI-App': 'embargos' } });
+    expect(h.headerOf(0, 'X-AI-App')).toBe('sentencify');
+    expect(h.headerOf(1, 'X-AI-App')).toBeNull();
+    expect(h.headerOf(2, 'X-AI-App')).toBe('embargos');
+  });
+
+  it('envia o gabinete ativo (X-Workspace-Id) só ao backend próprio', async () => {
+    localStorage.setItem(AUTH_KEY, 'tok123');
+    localStorage.setItem('sentencify-active-workspace', 'ws-1');
+    const h = setupInterceptor();
+    await h.fetch('/api/sync/push', { method: 'POST' });
+    await h.fetch('https://www.googleapis.com/drive/v3/files');
+    expect(h.headerOf(0, 'X-Workspace-Id')).toBe('ws-1');
+    expect(h.headerOf(1, 'X-Workspace-Id')).toBeNull();
+  });
+
+  it('mapeia a rota da SPA para o app', () => {
+    expect(currentAIApp('/analise/123')).toBe('analisador');
+    expect(currentAIApp('/prova-oral')).toBe('prova-oral');
+    expect(currentAIApp('/')).toBe('sentencify');
+  });
 });
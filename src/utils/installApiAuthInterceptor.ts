@@ -1,10 +1,28 @@
 // src/utils/installApiAuthInterceptor.ts
 // v1.53.3 - Injeção centralizada do JWT de sessão nas chamadas ao backend próprio.
+// v1.53.42 - Header X-AI-App nas rotas de proxy de IA (ledger de uso no servidor).
+// v1.53.43 - Header X-Workspace-Id com o gabinete ativo.
 
 import { API_BASE } from '../constants/api';
+import { getActiveWorkspaceId } from './workspaces';
 
 const AUTH_KEY = 'sentencify-auth-token';
 
+const AI_PROXY_PATH = /\/api\/(claude|gemini|openai|grok|deepseek)\//;
+
+/**
+ * App que originou a chamada de IA, pela rota da SPA (mesmas rotas do App.tsx).
+ * Vai no header X-AI-App para o relatório mensal do AdminPanel separar o gasto
+ * por app sem editar os call sites de cada subapp.
+ */
+export function currentAIApp(pathname: string = window.location.pathname): string {
+  if (pathname.startsWith('/analise')) return 'analisador';
+  if (pathname.startsWith('/embargos')) return 'embargos';
+  if (pathname.startsWith('/prova-oral')) return 'prova-oral';
+  if (pathname.startsWith('/noticias')) return 'noticias';
+  return 'sentencify';
+}
+
 /**
  * Instala um wrapper global em `window.fetch` que anexa o JWT de sessão
  * (`Authorization: Bearer <token>`) a TODA chamada ao backend próprio (`/api/...`).
@@ -25,6 +43,13 @@ const AUTH_KEY = 'sentencify-auth-token';
  *   refresh automático de token, já injeta o seu).
  * - Falha de forma transparente: qualquer erro no wrapper cai no fetch original.
  * - Idempotente: seguro contra dupla instalação (HMR em dev).
+ *
+ * v1.53.42: nas rotas de proxy de IA também anexa `X-AI-App` (ver currentAIApp),
+ * sem sobrescrever um valor explícito.
+ *
+ * v1.53.43: com um gabinete ativo (utils/workspaces), toda chamada ao backend leva
+ * `X-Workspace-Id` — o servidor cria modelos, pacotes e análises no gabinete
+ * quando o papel do usuário permite.
  */
 export function installApiAuthInterceptor(): void {
   if (typeof window === 'undefined' || !window.fetch) return;
@@ -60,15 +85,27 @@ export function installApiAuthInterceptor(): void {
 
       if (isBackendApiUrl(url)) {
         const token = localStorage.getItem(AUTH_KEY);
-        if (token) {
+        const isAIProxy = AI_PROXY_PATH.test(url);
+        const workspaceId = getActiveWorkspaceId();
+        if (token || isAIProxy || workspaceId) {
           const headers = new Headers(
             (init && init.headers) ||
             (input instanceof Request ? input.headers : undefined)
           );
-          if (!headers.has('Authorization')) {
+          let changed = false;
+          if (token && !headers.has('Authorization')) {
             headers.set('Authorization', `Bearer ${token}`);
-            init = { ...(init || {}), headers };
+            changed = true;
+          }
+          if (isAIProxy && !headers.has('X-AI-App')) {
+            headers.set('X-AI-App', currentAIApp());
+            changed = true;
+          }
+          if (workspaceId && !headers.has('X-Workspace-Id')) {
+            headers.set('X-Workspace-Id', workspaceId);
+            changed = true;
           }
+          if (changed) init = { ...(init || {}), headers };
         }
       }
     } catch {
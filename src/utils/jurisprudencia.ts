@@ -40,7 +40,7 @@ export type CallAIFunction = (
 // STATUS E VALIDAÇÃO
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export const STATUS_INVALIDOS = new Set(['cancelada', 'revogada', 'convertida', 'superado', 'convertida em súmula']);
+export const STATUS_INVALIDOS = new Set(['cancelada', 'revogada', 'revogado', 'convertida', 'superado', 'superada', 'convertida em súmula']);
 
 export const isStatusValido = (status: string | null | undefined): boolean => {
   if (!status) return true;
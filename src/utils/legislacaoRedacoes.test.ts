@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRedacoesContext,
+  extractContratoPeriodo,
+  formatVigencia,
+  inferVigenciaInicio,
+  mergeArtigoRedacoes,
+  redacaoEm,
+  redacoesNoPeriodo,
+} from './legislacaoRedacoes';
+import type { Artigo } from '../types';
+
+const ART_58: Artigo = {
+  id: 'clt-art-58',
+  lei: 'clt',
+  numero: '58',
+  texto: '',
+  caput: 'A duração normal do trabalho não excederá de 8 (oito) horas diárias.',
+  paragrafos: [{ numero: '2', texto: 'O tempo despendido até a efetiva ocupação do posto não será computado na jornada. (Redação dada pela Lei nº 13.467, de 2017) (Vigência)' }],
+  redacoes: [{
+    vigenciaInicio: '2001-06-20',
+    vigenciaFim: '2017-11-10',
+    alteradaPor: 'Lei 13.467/2017',
+    caput: 'A duração normal do trabalho não excederá de 8 (oito) horas diárias.',
+    paragrafos: [{ numero: '2', texto: 'O tempo despendido até o local de trabalho não será computado, salvo local de difícil acesso.' }],
+  }],
+};
+
+const ART_71: Artigo = {
+  id: 'clt-art-71',
+  lei: 'clt',
+  numero: '71',
+  texto: '',
+  caput: 'Em qualquer trabalho contínuo...',
+  paragrafos: [{ numero: '4', texto: 'Pagamento apenas do período suprimido. (Redação dada pela Lei nº 13.467, de 2017)' }],
+};
+
+const ART_59: Artigo = { id: 'clt-art-59', lei: 'clt', numero: '59', texto: '', caput: 'Horas extras.' };
+
+describe('redações datadas', () => {
+  it('escolhe a redação vigente na data', () => {
+    const antes = redacaoEm(ART_58, '2016-03-01');
+    expect(antes.atual).toBe(false);
+    expect(antes.artigo?.paragrafos?.[0].texto).toContain('difícil acesso');
+    expect(antes.artigo?.redacoes).toBeUndefined();
+
+    const depois = redacaoEm(ART_58, '2017-11-11');
+    expect(depois).toMatchObject({ atual: true, vigenciaInicio: '2017-11-11' });
+    expect(depois.artigo).toBe(ART_58);
+  });
+
+  it('deduz a vigência das notas de alteração e acusa redação anterior não cadastrada', () => {
+    expect(inferVigenciaInicio(ART_71)).toBe('2017-11-11');
+    expect(inferVigenciaInicio(ART_59)).toBeUndefined();
+
+    const antes = redacaoEm(ART_71, '2015-01-01');
+    expect(antes).toMatchObject({ artigo: null, vigenciaFim: '2017-11-10', alteradaPor: 'Lei 13.467/2017' });
+    expect(redacaoEm(ART_59, '1990-01-01')).toMatchObject({ artigo: ART_59, atual: true });
+  });
+
+  it('lista as redações que alcançam o período do contrato', () => {
+    expect(redacoesNoPeriodo(ART_58, { inicio: '2015-02-01', fim: '2019-03-10' }).map(s => s.atual)).toEqual([false, true]);
+    expect(redacoesNoPeriodo(ART_58, { inicio: '2018-01-01' }).map(s => s.atual)).toEqual([true]);
+    expect(redacoesNoPeriodo(ART_58, { inicio: '2010-01-01', fim: '2012-12-31' }).map(s => s.atual)).toEqual([false]);
+  });
+
+  it('formata o período de vigência', () => {
+    expect(formatVigencia({ vigenciaInicio: '2001-06-20', vigenciaFim: '2017-11-10' })).toBe('vigente de 20/06/2001 a 10/11/2017');
+    expect(formatVigencia({ vigenciaInicio: '2017-11-11' })).toBe('vigente desde 11/11/2017');
+    expect(formatVigencia({ vigenciaFim: '2017-11-10' })).toBe('vigente até 10/11/2017');
+    expect(formatVigencia({})).toBe('redação atual');
+  });
+});
+
+describe('mergeArtigoRedacoes', () => {
+  const antigo: Artigo = { id: 'clt-art-10', lei: 'clt', numero: '10', texto: '', caput: 'Texto antigo.', vigenciaInicio: '2001-01-01' };
+
+  it('arquiva a redação da base quando o texto novo informa a vigência', () => {
+    const novo: Artigo = { ...antigo, caput: 'Texto novo.', vigenciaInicio: '2017-11-11' };
+    const merged = mergeArtigoRedacoes(antigo, novo);
+    expect(merged.caput).toBe('Texto novo.');
+    expect(merged.redacoes).toEqual([
+      { vigenciaInicio: '2001-01-01', vigenciaFim: '2017-11-10', caput: 'Texto antigo.', paragrafos: undefined, incisos: undefined, alineas: undefined },
+    ]);
+  });
+
+  it('preserva redações já cadastradas e não arquiva sem data', () => {
+    const comHistorico = { ...ART_58 };
+    const reimportado: Artigo = { ...ART_58, redacoes: undefined };
+    expect(mergeArtigoRedacoes(comHistorico, reimportado).redacoes).toEqual(ART_58.redacoes);
+    expect(mergeArtigoRedacoes(antigo, { ...antigo, caput: 'Outro.', vigenciaInicio: undefined }).redacoes).toBeUndefined();
+    expect(mergeArtigoRedacoes(undefined, antigo)).toBe(antigo);
+  });
+});
+
+describe('extractContratoPeriodo', () => {
+  it('lê admissão e dispensa do relatório', () => {
+    expect(extractContratoPeriodo('O reclamante alega que foi admitido em 01/02/2015 e dispensado sem justa causa em 10.03.2019.'))
+      .toEqual({ inicio: '2015-02-01', fim: '2019-03-10' });
+    expect(extractContratoPeriodo('Afirma que laborou de 3/4/2016 a 5/6/2020 como vendedor.')).toEqual({ inicio: '2016-04-03', fim: '2020-06-05' });
+    expect(extractContratoPeriodo('Admissão em 01/08/2019, contrato em vigor.')).toEqual({ inicio: '2019-08-01' });
+    expect(extractContratoPeriodo('Pedido de horas extras.')).toBeNull();
+  });
+});
+
+describe('buildRedacoesContext', () => {
+  const artigos = [ART_58, ART_59, ART_71];
+
+  it('inclui só os artigos citados cuja redação mudou no contrato', () => {
+    const ctx = buildRedacoesContext('Pede horas in itinere (art. 58, § 2º, da CLT), art. 59 da CLT e art. 71 da CLT.', artigos, { inicio: '2015-02-01', fim: '2019-03-10' });
+    expect(ctx).toContain('01/02/2015 a 10/03/2019');
+    expect(ctx).toContain('Art. 58 CLT');
+    expect(ctx).toContain('vigente de 20/06/2001 a 10/11/2017 (alterada pela Lei 13.467/2017)');
+    expect(ctx).toContain('difícil acesso');
+    expect(ctx).toContain('vigente desde 11/11/2017 (atual)');
+    expect(ctx).toContain('Art. 71 CLT');
+    expect(ctx).toContain('NÃO CADASTRADA');
+    expect(ctx).not.toContain('Art. 59 CLT');
+  });
+
+  it('fica vazio quando o contrato é todo posterior à alteração', () => {
+    expect(buildRedacoesContext('art. 58 da CLT', artigos, { inicio: '2018-01-01' })).toBe('');
+    expect(buildRedacoesContext('', artigos, { inicio: '2010-01-01' })).toBe('');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @file legislacaoRedacoes.ts
+ * @description Redações datadas dos artigos de lei: qual texto vigorava em uma data,
+ * quais redações alcançam o período do contrato e o bloco de direito intertemporal
+ * enviado à IA (ex: contratos iniciados antes da Reforma Trabalhista).
+ * @version 1.53.37
+ *
+ * Modelo: o artigo guarda a redação atual (caput/parágrafos/incisos) e, em `redacoes`,
+ * as anteriores com o período de vigência. Sem `vigenciaInicio` explícito, o início da
+ * redação atual é deduzido das notas do texto ("Redação dada pela Lei nº 13.467, de 2017").
+ */
+
+import { buildCitationCatalog, checkCitations, leiLabel, parseLegalCitations } from './citationLinker';
+import { foldText } from './fullTextSearch';
+import { toIsoDate } from './liquidacao';
+import type { Artigo, ArtigoRedacao, ArtigoRedacaoAplicada, ContratoPeriodo } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DATAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Normas com início de vigência conhecido, reconhecidas nas notas do texto legal */
+const NORMAS_VIGENCIA: Array<[RegExp, string, string]> = [
+  [/lei\s+n[º°o.]*\s*13\.?467/i, '2017-11-11', 'Lei 13.467/2017'],
+  [/lei\s+n[º°o.]*\s*13\.?874/i, '2019-09-20', 'Lei 13.874/2019'],
+];
+
+const shiftIso = (iso: string, days: number): string => {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const todayIso = (): string => new Date().toISOString().slice(0, 10);
+
+/** AAAA-MM-DD → DD/MM/AAAA */
+export const formatDataBR = (iso: string): string => iso.split('-').reverse().join('/');
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// REDAÇÕES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const textosDoArtigo = (a: Pick<Artigo, 'caput' | 'paragrafos' | 'incisos' | 'alineas'>): string[] => [
+  a.caput || '',
+  ...(a.paragrafos || []).map(p => p.texto),
+  ...(a.incisos || []).map(i => i.texto),
+  ...(a.alineas || []).map(al => al.texto),
+];
+
+/** Norma mais recente (com vigência conhecida) citada nas notas de alteração do texto */
+function normaMaisRecente(artigo: Artigo): { vigencia: string; norma: string } | null {
+  let best: { vigencia: string; norma: string } | null = null;
+  for (const texto of textosDoArtigo(artigo)) {
+    for (const [, nota] of texto.matchAll(/\(([^)]*)\)/g)) {
+      if (!/reda[çc][ãa]o dada|inclu[íi]d[oa]|acrescid[oa]|revogad[oa]/i.test(nota)) continue;
+      for (const [re, vigencia, norma] of NORMAS_VIGENCIA) {
+        if (re.test(nota) && (!best || vigencia > best.vigencia)) best = { vigencia, norma };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Início de vigência da redação atual: explícito no JSON, dia seguinte ao fim da última
+ * redação anterior, ou deduzido das notas de alteração. undefined se desconhecido.
+ */
+export function inferVigenciaInicio(artigo: Artigo): string | undefined {
+  if (artigo.vigenciaInicio) return artigo.vigenciaInicio;
+  const ultima = artigo.redacoes?.[artigo.redacoes.length - 1];
+  if (ultima) return shiftIso(ultima.vigenciaFim, 1);
+  return normaMaisRecente(artigo)?.vigencia;
+}
+
+const artigoNaRedacao = (artigo: Artigo, r: ArtigoRedacao): Artigo => ({
+  ...artigo,
+  caput: r.caput,
+  paragrafos: r.paragrafos || [],
+  incisos: r.incisos || [],
+  alineas: r.alineas || [],
+  status: 'vigente',
+  vigenciaInicio: r.vigenciaInicio,
+  redacoes: undefined,
+});
+
+/**
+ * Linha do tempo completa do artigo, em ordem cronológica. Quando a redação atual tem
+ * início conhecido mas a anterior não foi cadastrada, entra um trecho com `artigo: null`.
+ */
+export function linhaDoTempo(artigo: Artigo): ArtigoRedacaoAplicada[] {
+  const anteriores = [...(artigo.redacoes || [])].sort((a, b) => a.vigenciaFim.localeCompare(b.vigenciaFim));
+  const segmentos: ArtigoRedacaoAplicada[] = anteriores.map(r => ({
+    artigo: artigoNaRedacao(artigo, r),
+    vigenciaInicio: r.vigenciaInicio,
+    vigenciaFim: r.vigenciaFim,
+    alteradaPor: r.alteradaPor,
+    atual: false,
+  }));
+
+  const inicioAtual = inferVigenciaInicio(artigo);
+  const ultimoFim = anteriores[anteriores.length - 1]?.vigenciaFim;
+  if (inicioAtual && (!ultimoFim || shiftIso(ultimoFim, 1) < inicioAtual)) {
+    segmentos.push({
+      artigo: null,
+      vigenciaInicio: ultimoFim ? shiftIso(ultimoFim, 1) : undefined,
+      vigenciaFim: shiftIso(inicioAtual, -1),
+      alteradaPor: anteriores.length ? undefined : normaMaisRecente(artigo)?.norma,
+      atual: false,
+    });
+  }
+
+  segmentos.push({ artigo, vigenciaInicio: inicioAtual, atual: true });
+  return segmentos;
+}
+
+/** Redação vigente na data (AAAA-MM-DD) */
+export function redacaoEm(artigo: Artigo, data: string): ArtigoRedacaoAplicada {
+  const segmentos = linhaDoTempo(artigo);
+  return segmentos.find(s => (!s.vigenciaInicio || s.vigenciaInicio <= data) && (!s.vigenciaFim || data <= s.vigenciaFim))
+    ?? segmentos[segmentos.length - 1];
+}
+
+/** Redações que vigoraram em algum momento do período (contrato em curso = até hoje) */
+export function redacoesNoPeriodo(artigo: Artigo, periodo: ContratoPeriodo): ArtigoRedacaoAplicada[] {
+  const fim = periodo.fim || todayIso();
+  return linhaDoTempo(artigo).filter(s =>
+    (!s.vigenciaInicio || s.vigenciaInicio <= fim) && (!s.vigenciaFim || s.vigenciaFim >= periodo.inicio)
+  );
+}
+
+/** "vigente de 20/06/2001 a 10/11/2017", "vigente desde 11/11/2017"... */
+export function formatVigencia(r: Pick<ArtigoRedacaoAplicada, 'vigenciaInicio' | 'vigenciaFim'>): string {
+  if (r.vigenciaInicio && r.vigenciaFim) return `vigente de ${formatDataBR(r.vigenciaInicio)} a ${formatDataBR(r.vigenciaFim)}`;
+  if (r.vigenciaFim) return `vigente até ${formatDataBR(r.vigenciaFim)}`;
+  if (r.vigenciaInicio) return `vigente desde ${formatDataBR(r.vigenciaInicio)}`;
+  return 'redação atual';
+}
+
+const assinaturaTexto = (a: Pick<Artigo, 'caput' | 'paragrafos' | 'incisos' | 'alineas'>): string =>
+  textosDoArtigo(a).join('\n');
+
+/**
+ * Importação de uma nova versão do artigo: se o texto mudou e o JSON novo informa
+ * `vigenciaInicio`, a redação que estava na base vira redação anterior em vez de se perder.
+ * Redações anteriores já cadastradas são preservadas quando o JSON novo não traz as suas.
+ */
+export function mergeArtigoRedacoes(anterior: Artigo | undefined, novo: Artigo): Artigo {
+  if (!anterior) return novo;
+  if (novo.redacoes?.length) return novo;
+
+  const mesmoTexto = assinaturaTexto(anterior) === assinaturaTexto(novo);
+  const inicioAnterior = inferVigenciaInicio(anterior);
+  let redacoes = anterior.redacoes;
+  if (!mesmoTexto && novo.vigenciaInicio && (!inicioAnterior || inicioAnterior < novo.vigenciaInicio)) {
+    redacoes = [...(anterior.redacoes || []), {
+      vigenciaInicio: inicioAnterior,
+      vigenciaFim: shiftIso(novo.vigenciaInicio, -1),
+      caput: anterior.caput || '',
+      paragrafos: anterior.paragrafos,
+      incisos: anterior.incisos,
+      alineas: anterior.alineas,
+    }];
+  }
+
+  return {
+    ...novo,
+    ...(mesmoTexto && !novo.vigenciaInicio && anterior.vigenciaInicio ? { vigenciaInicio: anterior.vigenciaInicio } : {}),
+    ...(redacoes?.length ? { redacoes } : {}),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PERÍODO DO CONTRATO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DATA = String.raw`(\d{1,2}[/.]\d{1,2}[/.]\d{4})`;
+const ADMISSAO_RE = new RegExp(String.raw`(?:admitid[oa]|admissao|contratad[oa]|inicio do contrato|inicio do vinculo)[^\d]{0,40}?` + DATA);
+const DISPENSA_RE = new RegExp(String.raw`(?:dispensad[oa]|demitid[oa]|despedid[oa]|desligad[oa]|dispensa|demissao|rescisao|termino do contrato|extincao do contrato|fim do contrato)[^\d]{0,40}?` + DATA);
+const INTERVALO_RE = new RegExp(String.raw`(?:laborou|trabalhou|prestou servicos|periodo|vinculo|contrato)[^\d]{0,40}?(?:de|desde|entre)\s+` + DATA + String.raw`\s+(?:a|ate|e)\s+` + DATA);
+
+const isoDe = (data: string): string => toIsoDate(data.replace(/\./g, '/'));
+
+/**
+ * Período do contrato lido do relatório/mini-relatórios da análise
+ * ("admitido em 01/02/2015 e dispensado em 10/03/2019"). null se não houver admissão.
+ */
+export function extractContratoPeriodo(text: string): ContratoPeriodo | null {
+  const folded = foldText(text);
+  const intervalo = INTERVALO_RE.exec(folded);
+  const inicio = isoDe(ADMISSAO_RE.exec(folded)?.[1] || intervalo?.[1] || '');
+  if (!inicio) return null;
+  const fim = isoDe(DISPENSA_RE.exec(folded)?.[1] || intervalo?.[2] || '');
+  return fim && fim >= inicio ? { inicio, fim } : { inicio };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONTEXTO DA IA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const MAX_ARTIGOS_CONTEXTO = 10;
+
+const numeroParagrafo = (numero: string): string => /^\d+$/.test(numero) ? `${numero}º` : numero;
+
+/** Texto integral do artigo (caput, parágrafos, incisos e alíneas) */
+export function artigoTextoCompleto(a: Artigo): string {
+  return [
+    a.caput || a.texto,
+    ...(a.incisos || []).map(i => `${i.numero} - ${i.texto}`),
+    ...(a.alineas || []).map(al => `${al.letra}) ${al.texto}`),
+    ...(a.paragrafos || []).map(p => `§ ${numeroParagrafo(p.numero)} ${p.texto}`),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Bloco com os artigos citados no texto cuja redação mudou durante o contrato (ou que
+ * o contrato antecede): cada redação com o período em que vigorou. Vazio se nada mudou.
+ */
+export function buildRedacoesContext(text: string, artigos: Artigo[], periodo: ContratoPeriodo): string {
+  if (!text.trim() || artigos.length === 0) return '';
+  const checked = checkCitations(
+    parseLegalCitations(text).filter(c => c.kind === 'artigo'),
+    buildCitationCatalog([], artigos)
+  );
+
+  const vistos = new Set<string>();
+  const blocos: string[] = [];
+  for (const c of checked) {
+    if (!c.artigo || vistos.has(c.artigo.id) || blocos.length >= MAX_ARTIGOS_CONTEXTO) continue;
+    vistos.add(c.artigo.id);
+    const segmentos = redacoesNoPeriodo(c.artigo, periodo);
+    if (segmentos.length < 2 && segmentos[0]?.atual !== false) continue;
+
+    const rotulo = `Art. ${c.artigo.numero} ${leiLabel(c.key.split(':')[1] || '')}`;
+    const linhas = segmentos.map(s => {
+      const nota = s.alteradaPor ? ` (alterada pela ${s.alteradaPor})` : '';
+      return s.artigo
+        ? `• Redação ${formatVigencia(s)}${s.atual ? ' (atual)' : nota}:\n${artigoTextoCompleto(s.artigo)}`
+        : `• Redação ${formatVigencia(s)}${nota}: NÃO CADASTRADA na base — confira o texto da época antes de aplicá-lo.`;
+    });
+    blocos.push(`${rotulo}\n${linhas.join('\n')}`);
+  }
+  if (blocos.length === 0) return '';
+
+  const fim = periodo.fim ? formatDataBR(periodo.fim) : 'contrato em curso';
+  return `📜 DIREITO INTERTEMPORAL — REDAÇÕES DOS ARTIGOS CITADOS DURANTE O CONTRATO (${formatDataBR(periodo.inicio)} a ${fim}):
+
+${blocos.join('\n\n')}
+
+Aplique a cada fato a redação vigente à época em que ocorreu (tempus regit actum). Não estenda a redação atual a períodos anteriores à sua vigência sem fundamentar.`;
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  calcularAvisoPrevioDias,
+  calcularLiquidacao,
+  fetchIndicesCorrecao,
+  formatLiquidacaoHtml,
+  liquidacaoParamsFromAnalise,
+  toIsoDate,
+} from './liquidacao';
+import type { LiquidacaoParams } from '../types';
+
+const baseParams = (over: Partial<LiquidacaoParams> = {}): LiquidacaoParams => ({
+  admissao: '2020-03-10',
+  demissao: '2023-09-20',
+  ajuizamento: '2023-11-01',
+  dataCalculo: '2024-06-15',
+  salario: 3000,
+  motivo: 'sem-justa-causa',
+  verbas: [],
+  ...over,
+});
+
+const linha = (r: ReturnType<typeof calcularLiquidacao>, prefix: string) =>
+  r.linhas.find(l => l.descricao.startsWith(prefix));
+
+describe('calcularAvisoPrevioDias', () => {
+  it('30 dias + 3 por ano completo, limitado a 90', () => {
+    expect(calcularAvisoPrevioDias('2023-01-10', '2023-12-31')).toBe(30);
+    expect(calcularAvisoPrevioDias('2020-03-10', '2023-03-09')).toBe(36);
+    expect(calcularAvisoPrevioDias('2020-03-10', '2023-03-10')).toBe(39);
+    expect(calcularAvisoPrevioDias('1990-01-01', '2023-01-01')).toBe(90);
+  });
+});
+
+describe('calcularLiquidacao - verbas rescisórias', () => {
+  it('projeta o aviso no 13º e nas férias proporcionais (OJ 82 da SDI-1)', () => {
+    const r = calcularLiquidacao(baseParams({ verbas: ['aviso-previo', 'decimo-terceiro', 'ferias', 'multa-477', 'multa-467'] }));
+    expect(r.avisoPrevioDias).toBe(39);
+    expect(linha(r, 'Aviso prévio')?.principal).toBe(3900);
+    // Projeção até 29/10/2023: 10 avos de 13º e 8 avos de férias
+    expect(linha(r, '13º salário proporcional (10/12)')?.principal).toBe(2500);
+    expect(linha(r, 'Férias proporcionais + 1/3 (8/12)')?.principal).toBe(2666.67);
+    expect(linha(r, 'Multa do art. 477')?.principal).toBe(3000);
+    expect(linha(r, 'Multa do art. 467')?.principal).toBe(4533.33);
+    expect(r.totalPrincipal).toBe(16600);
+    expect(r.avisos).toContain('Valores sem atualização: índices de correção não carregados.');
+  });
+
+  it('justa causa: sem aviso, 13º e férias proporcionais (com avisos); vencidas em dobro continuam devidas', () => {
+    const r = calcularLiquidacao(baseParams({
+      motivo: 'justa-causa',
+      verbas: ['aviso-previo', 'decimo-terceiro', 'ferias'],
+      feriasVencidas: 1,
+      feriasVencidasEmDobro: true,
+    }));
+    expect(r.avisoPrevioDias).toBe(0);
+    expect(r.linhas.map(l => l.descricao)).toEqual(['Férias vencidas + 1/3 (1 período(s), em dobro)']);
+    expect(r.linhas[0].principal).toBe(8000);
+    expect(r.avisos.some(a => a.includes('Aviso prévio indenizado indevido'))).toBe(true);
+    expect(r.avisos.some(a => a.includes('Súmula 171'))).toBe(true);
+  });
+
+  it('FGTS: depósitos do contrato, FGTS rescisório e multa de 40% só na dispensa imotivada', () => {
+    const params = baseParams({ admissao: '2023-01-01', demissao: '2023-12-31', salario: 1200, verbas: ['fgts', 'aviso-previo'], fgtsSemDepositos: true });
+    const r = calcularLiquidacao(params);
+    // 12 meses × 1200 × 13/12 × 8%
+    expect(linha(r, 'FGTS não depositado')?.principal).toBe(1248);
+    expect(linha(r, 'FGTS sobre aviso')?.principal).toBe(96);
+    expect(linha(r, 'Multa de 40%')?.principal).toBe(537.6);
+
+    const pedido = calcularLiquidacao({ ...params, motivo: 'pedido-demissao' });
+    expect(linha(pedido, 'Multa de 40%')).toBeUndefined();
+  });
+
+  it('valida datas e salário', () => {
+    expect(() => calcularLiquidacao(baseParams({ admissao: '10/03/2020' }))).toThrow(/Data inválida em "admissão"/);
+    expect(() => calcularLiquidacao(baseParams({ demissao: '2019-01-01' }))).toThrow(/anterior à admissão/);
+    expect(() => calcularLiquidacao(baseParams({ salario: 0 }))).toThrow(/salário/);
+  });
+});
+
+describe('calcularLiquidacao - horas extras', () => {
+  it('calcula horas extras mês a mês com reflexos', () => {
+    const r = calcularLiquidacao(baseParams({
+      admissao: '2022-06-01',
+      demissao: '2023-02-28',
+      salario: 2200,
+      verbas: ['horas-extras'],
+      horasExtras: { horasMensais: 10, adicional: 50, divisor: 220, inicio: '2023-01-01', reflexos: true },
+    }));
+    // 10h × (2200/220 × 1,5) = 150 por mês
+    expect(linha(r, 'Horas extras (adicional de 50%)')?.principal).toBe(300);
+    expect(linha(r, 'Reflexos das horas extras em DSR')?.principal).toBe(50);
+    expect(linha(r, 'Reflexos das horas extras em 13º')?.principal).toBe(29.17);
+    expect(linha(r, 'Reflexos das horas extras em férias')?.principal).toBe(38.89);
+    expect(linha(r, 'Reflexos das horas extras em aviso')?.principal).toBe(175);
+    expect(linha(r, 'Reflexos das horas extras em FGTS + 40%')?.principal).toBe(62.07);
+  });
+
+  it('proporcionaliza meses incompletos e omite reflexos quando não deferidos', () => {
+    const r = calcularLiquidacao(baseParams({
+      admissao: '2023-04-16',
+      demissao: '2023-05-31',
+      salario: 2200,
+      verbas: ['horas-extras'],
+      horasExtras: { horasMensais: 10, adicional: 100, divisor: 220, reflexos: false },
+    }));
+    // abril: 15/30 do mês; maio: completo → 1,5 × 200
+    expect(r.linhas).toHaveLength(1);
+    expect(r.linhas[0].principal).toBe(300);
+  });
+});
+
+describe('calcularLiquidacao - atualização (ADC 58)', () => {
+  it('IPCA-E até o ajuizamento e SELIC depois, sobre o valor corrigido', () => {
+    const r = calcularLiquidacao(
+      baseParams({ admissao: '2022-01-01', demissao: '2023-01-15', ajuizamento: '2023-03-10', dataCalculo: '2023-06-20', salario: 1000, verbas: ['multa-477'] }),
+      { ipcaE: { '2023-01': 1, '2023-02': 2 }, selic: { '2023-03': 1, '2023-04': 1, '2023-05': 1 } }
+    );
+    expect(r.linhas[0]).toMatchObject({ principal: 1000, correcao: 30.2, selic: 30.91, total: 1061.11 });
+    expect(r.total).toBe(1061.11);
+    expect(r.avisos).toEqual([]);
+    expect(r.criterio).toContain('10/03/2023');
+    expect(r.criterio).toContain('20/06/2023');
+  });
+
+  it('índices ausentes viram aviso e contam como 0%', () => {
+    const r = calcularLiquidacao(
+      baseParams({ admissao: '2022-01-01', demissao: '2023-01-15', ajuizamento: '2023-03-10', dataCalculo: '2023-06-20', salario: 1000, verbas: ['multa-477'] }),
+      { ipcaE: { '2023-01': 1 }, selic: {} }
+    );
+    expect(r.linhas[0].correcao).toBe(10);
+    expect(r.avisos).toEqual([
+      'IPCA-E não informado em 1 competência(s) (2023-02) — considerado 0%.',
+      'SELIC não informado em 3 competência(s) (2023-03 a 2023-05) — considerado 0%.',
+    ]);
+  });
+});
+
+describe('formatLiquidacaoHtml', () => {
+  it('gera uma linha por verba e o total, sem <table>', () => {
+    const html = formatLiquidacaoHtml(calcularLiquidacao(baseParams({ verbas: ['multa-477'] })));
+    expect(html).toContain('PLANILHA DE LIQUIDAÇÃO (ESTIMATIVA)');
+    expect(html).toMatch(/Multa do art\. 477, § 8º, da CLT: R\$\s3\.000,00/);
+    expect(html).toMatch(/Total: R\$\s3\.000,00/);
+    expect(html).toContain('ADC 58');
+    expect(html).not.toContain('<table');
+  });
+});
+
+describe('liquidacaoParamsFromAnalise', () => {
+  it('converte datas, motivo e temas dos pedidos do Analisador', () => {
+    const params = liquidacaoParamsFromAnalise(
+      { dataAdmissao: '10/03/2020', dataDemissao: '20/09/2023', ultimoSalario: 3000, motivoRescisao: 'Dispensa sem justa causa' },
+      [{ tema: 'Horas extras' }, { tema: 'Verbas rescisórias', descricao: 'aviso prévio, 13º salário e férias' }, { tema: 'Multa do art. 477' }]
+    );
+    expect(params).toEqual({
+      admissao: '2020-03-10',
+      demissao: '2023-09-20',
+      salario: 3000,
+      motivo: 'sem-justa-causa',
+      verbas: ['horas-extras', 'ferias', 'decimo-terceiro', 'aviso-previo', 'multa-477'],
+    });
+  });
+
+  it('toIsoDate ignora formatos desconhecidos', () => {
+    expect(toIsoDate('1/2/2024')).toBe('2024-02-01');
+    expect(toIsoDate('2024-02-01')).toBe('2024-02-01');
+    expect(toIsoDate('fevereiro de 2024')).toBe('');
+  });
+});
+
+describe('fetchIndicesCorrecao', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('busca as séries do SGS pelo backend', async () => {
+    const fetchMock = vi.fn(async (url: string) => ({
+      ok: true,
+      json: async () => ({
+        serie: url.includes('/10764?') ? { '2023-01': 0.55 } : { '2023-01': 1.12, '2023-02': 0.92 },
+      }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const indices = await fetchIndicesCorrecao('2023-01-15', '2023-02-28');
+    expect(indices).toEqual({ ipcaE: { '2023-01': 0.55 }, selic: { '2023-01': 1.12, '2023-02': 0.92 }, fonte: 'Banco Central (SGS)' });
+    expect(fetchMock.mock.calls[0][0]).toContain('/api/indices/bcb/10764?inicio=2023-01-15&fim=2023-02-28');
+    expect(fetchMock.mock.calls[0][0]).not.toContain('api.bcb.gov.br');
+  });
+
+  it('propaga falha com mensagem em português', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: false,
+      status: 502,
+      json: async () => ({ error: 'Banco Central respondeu 503 (série 10764)' }),
+    })));
+    await expect(fetchIndicesCorrecao('2023-01-01', '2023-02-01')).rejects.toThrow('Falha ao obter índices de correção: Banco Central respondeu 503');
+  });
+
+  it('rejeita período inválido antes de chamar o backend', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    await expect(fetchIndicesCorrecao('2023-13-01', '2023-02-01')).rejects.toThrow('Data inválida');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
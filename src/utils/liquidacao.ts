@@ -0,0 +1,552 @@
+/**
+ * @file liquidacao.ts
+ * @description Motor de estimativa de liquidação trabalhista para a sentença líquida:
+ * horas extras e reflexos, férias + 1/3, 13º, aviso prévio proporcional
+ * (Lei 12.506/2011), FGTS + 40% e multas dos arts. 467 e 477 da CLT, com
+ * atualização pelo critério da ADC 58 (IPCA-E na fase pré-judicial e SELIC a
+ * partir do ajuizamento). Funções puras; os índices vêm do Banco Central (SGS).
+ * @version 1.53.54
+ *
+ * v1.53.54: índices buscados pelo backend (/api/indices/bcb), que faz cache das
+ * séries — o CSP não libera api.bcb.gov.br no navegador.
+ *
+ * Granularidade mensal: cada parcela é atualizada pelos índices das competências
+ * entre o seu vencimento e o mês anterior ao marco final. É uma estimativa para o
+ * dispositivo — não substitui a liquidação (PJe-Calc).
+ */
+
+import { API_BASE } from '../constants/api';
+import type {
+  IndicesCorrecao,
+  LiquidacaoLinha,
+  LiquidacaoMotivoRescisao,
+  LiquidacaoParams,
+  LiquidacaoResultado,
+  LiquidacaoVerbaId,
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const LIQUIDACAO_VERBA_LABELS: Record<LiquidacaoVerbaId, string> = {
+  'horas-extras': 'Horas extras e reflexos',
+  ferias: 'Férias + 1/3',
+  'decimo-terceiro': '13º salário proporcional',
+  'aviso-previo': 'Aviso prévio indenizado',
+  fgts: 'FGTS + 40%',
+  'multa-467': 'Multa do art. 467 da CLT',
+  'multa-477': 'Multa do art. 477, § 8º, da CLT',
+};
+
+export const LIQUIDACAO_MOTIVO_LABELS: Record<LiquidacaoMotivoRescisao, string> = {
+  'sem-justa-causa': 'Dispensa sem justa causa',
+  'rescisao-indireta': 'Rescisão indireta',
+  'pedido-demissao': 'Pedido de demissão',
+  'justa-causa': 'Dispensa por justa causa',
+};
+
+/** Séries do SGS/Banco Central: IPCA-E (var. % mensal) e SELIC acumulada no mês */
+export const BCB_SERIES = { ipcaE: 10764, selic: 4390 } as const;
+
+const FGTS_ALIQUOTA = 0.08;
+const FGTS_MULTA = 0.4;
+/** Aviso prévio: 30 dias + 3 por ano completo, até 60 dias de acréscimo (Lei 12.506/2011) */
+const AVISO_BASE_DIAS = 30;
+const AVISO_DIAS_POR_ANO = 3;
+const AVISO_MAX_ACRESCIMO = 60;
+/** Prazo de pagamento das rescisórias (art. 477, § 6º, da CLT) */
+const PRAZO_RESCISORIAS_DIAS = 10;
+/** DSR estimado como 1/6 das horas extras (6 dias úteis por repouso) */
+const DSR_FRACAO = 1 / 6;
+
+const DAY_MS = 86_400_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DATAS (AAAA-MM-DD, sem fuso)
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface Ymd { y: number; m: number; d: number }
+
+const daysInMonth = (y: number, m: number): number => new Date(Date.UTC(y, m, 0)).getUTCDate();
+
+function parseIsoDate(iso: string, campo: string): Ymd {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(iso || '');
+  const [y, m, d] = match ? [Number(match[1]), Number(match[2]), Number(match[3])] : [0, 0, 0];
+  if (!match || m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m)) {
+    throw new Error(`Data inválida em "${campo}": ${iso || '(vazia)'}`);
+  }
+  return { y, m, d };
+}
+
+const serial = (date: Ymd): number => Date.UTC(date.y, date.m - 1, date.d) / DAY_MS;
+
+function fromSerial(n: number): Ymd {
+  const dt = new Date(n * DAY_MS);
+  return { y: dt.getUTCFullYear(), m: dt.getUTCMonth() + 1, d: dt.getUTCDate() };
+}
+
+const addDays = (date: Ymd, days: number): Ymd => fromSerial(serial(date) + days);
+
+/** Soma meses mantendo o dia (limitado ao fim do mês) */
+function addMonths(date: Ymd, months: number): Ymd {
+  const index = date.y * 12 + (date.m - 1) + months;
+  const y = Math.floor(index / 12);
+  const m = (index % 12) + 1;
+  return { y, m, d: Math.min(date.d, daysInMonth(y, m)) };
+}
+
+const monthKey = (y: number, m: number): string => `${y}-${String(m).padStart(2, '0')}`;
+
+/** Índice absoluto do mês (para iterar competências) */
+const monthIndex = (date: Pick<Ymd, 'y' | 'm'>): number => date.y * 12 + (date.m - 1);
+const keyFromIndex = (index: number): string => monthKey(Math.floor(index / 12), (index % 12) + 1);
+
+const formatDateBR = (date: Ymd): string =>
+  `${String(date.d).padStart(2, '0')}/${String(date.m).padStart(2, '0')}/${date.y}`;
+
+/** Anos completos de serviço entre as datas */
+function anosCompletos(inicio: Ymd, fim: Ymd): number {
+  let anos = fim.y - inicio.y;
+  if (fim.m < inicio.m || (fim.m === inicio.m && fim.d < inicio.d)) anos--;
+  return Math.max(0, anos);
+}
+
+/** Frações mensais (dias trabalhados / dias do mês) de cada mês civil do período */
+function fracoesMensais(inicio: Ymd, fim: Ymd): Array<{ y: number; m: number; fracao: number; dias: number }> {
+  const result: Array<{ y: number; m: number; fracao: number; dias: number }> = [];
+  for (let idx = monthIndex(inicio); idx <= monthIndex(fim); idx++) {
+    const y = Math.floor(idx / 12);
+    const m = (idx % 12) + 1;
+    const dim = daysInMonth(y, m);
+    const first = idx === monthIndex(inicio) ? inicio.d : 1;
+    const last = idx === monthIndex(fim) ? fim.d : dim;
+    const dias = last - first + 1;
+    if (dias > 0) result.push({ y, m, fracao: dias / dim, dias });
+  }
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGRAS DAS VERBAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const isDispensaImotivada = (motivo: LiquidacaoMotivoRescisao): boolean =>
+  motivo === 'sem-justa-causa' || motivo === 'rescisao-indireta';
+
+/** Dias de aviso prévio proporcional (Lei 12.506/2011), a partir das datas AAAA-MM-DD */
+export function calcularAvisoPrevioDias(admissao: string, demissao: string): number {
+  const anos = anosCompletos(parseIsoDate(admissao, 'admissão'), parseIsoDate(demissao, 'demissão'));
+  return AVISO_BASE_DIAS + Math.min(AVISO_MAX_ACRESCIMO, anos * AVISO_DIAS_POR_ANO);
+}
+
+/** Avos de 13º do ano da extinção: meses civis com 15 dias ou mais de trabalho (Lei 4.090/62) */
+function avosDecimoTerceiro(admissao: Ymd, fim: Ymd): number {
+  const inicioAno = { y: fim.y, m: 1, d: 1 };
+  const inicio = serial(admissao) > serial(inicioAno) ? admissao : inicioAno;
+  return fracoesMensais(inicio, fim).filter(f => f.dias >= 15).length;
+}
+
+/** Avos de férias do período aquisitivo em curso: fração superior a 14 dias (art. 146 da CLT) */
+function avosFeriasProporcionais(admissao: Ymd, fim: Ymd): number {
+  let y = fim.y;
+  if (fim.m < admissao.m || (fim.m === admissao.m && fim.d < admissao.d)) y--;
+  const aniversario = { y, m: admissao.m, d: Math.min(admissao.d, daysInMonth(y, admissao.m)) };
+  const inicio = serial(aniversario) < serial(admissao) ? admissao : aniversario;
+
+  let meses = (fim.y - inicio.y) * 12 + (fim.m - inicio.m);
+  if (fim.d < inicio.d) meses--;
+  const restante = serial(fim) - serial(addMonths(inicio, meses)) + 1;
+  return Math.min(12, meses + (restante >= 15 ? 1 : 0));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ATUALIZAÇÃO (ADC 58)
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface AtualizacaoContext {
+  ajuizamento: Ymd;
+  calculo: Ymd;
+  indices?: IndicesCorrecao;
+  faltantes: { ipcaE: Set<string>; selic: Set<string> };
+}
+
+/**
+ * IPCA-E (composto) das competências do vencimento até o mês anterior ao
+ * ajuizamento; depois, SELIC (soma simples, que já engloba os juros) até o mês
+ * anterior ao cálculo, sobre o valor corrigido.
+ */
+function atualizar(principal: number, vencimento: Pick<Ymd, 'y' | 'm'>, ctx: AtualizacaoContext): { correcao: number; selic: number } {
+  if (!ctx.indices || principal === 0) return { correcao: 0, selic: 0 };
+
+  const venc = monthIndex(vencimento);
+  const ajuiz = monthIndex(ctx.ajuizamento);
+  const calc = monthIndex(ctx.calculo);
+
+  let fator = 1;
+  for (let idx = venc; idx < ajuiz; idx++) {
+    const key = keyFromIndex(idx);
+    const taxa = ctx.indices.ipcaE[key];
+    if (taxa === undefined) ctx.faltantes.ipcaE.add(key);
+    fator *= 1 + (taxa ?? 0) / 100;
+  }
+
+  let selicAcumulada = 0;
+  for (let idx = Math.max(venc, ajuiz); idx < calc; idx++) {
+    const key = keyFromIndex(idx);
+    const taxa = ctx.indices.selic[key];
+    if (taxa === undefined) ctx.faltantes.selic.add(key);
+    selicAcumulada += taxa ?? 0;
+  }
+
+  const corrigido = principal * fator;
+  return { correcao: corrigido - principal, selic: (corrigido * selicAcumulada) / 100 };
+}
+
+const round2 = (v: number): number => Math.round((v + Number.EPSILON) * 100) / 100;
+
+interface LinhaAcumulador {
+  add: (valor: number, vencimento: Pick<Ymd, 'y' | 'm'>) => LinhaAcumulador;
+  build: (verba: LiquidacaoVerbaId, descricao: string) => LiquidacaoLinha;
+}
+
+/** Acumula parcelas (cada uma com seu vencimento) numa linha da planilha */
+function createLinha(ctx: AtualizacaoContext): LinhaAcumulador {
+  let principal = 0;
+  let correcao = 0;
+  let selic = 0;
+
+  const acumulador: LinhaAcumulador = {
+    add: (valor, vencimento) => {
+      const atualizado = atualizar(valor, vencimento, ctx);
+      principal += valor;
+      correcao += atualizado.correcao;
+      selic += atualizado.selic;
+      return acumulador;
+    },
+    build: (verba, descricao) => {
+      const p = round2(principal);
+      const c = round2(correcao);
+      const s = round2(selic);
+      return { verba, descricao, principal: p, correcao: c, selic: s, total: round2(p + c + s) };
+    },
+  };
+  return acumulador;
+}
+
+const describeFaltantes = (label: string, keys: Set<string>): string | null => {
+  if (keys.size === 0) return null;
+  const sorted = [...keys].sort();
+  const range = sorted.length === 1 ? sorted[0] : `${sorted[0]} a ${sorted[sorted.length - 1]}`;
+  return `${label} não informado em ${sorted.length} competência(s) (${range}) — considerado 0%.`;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CÁLCULO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calcula a planilha de liquidação estimada. Lança erro para datas inválidas
+ * ou salário não informado; verbas indevidas na modalidade viram avisos.
+ */
+export function calcularLiquidacao(params: LiquidacaoParams, indices?: IndicesCorrecao): LiquidacaoResultado {
+  const admissao = parseIsoDate(params.admissao, 'admissão');
+  const demissao = parseIsoDate(params.demissao, 'demissão');
+  const ajuizamento = parseIsoDate(params.ajuizamento, 'ajuizamento');
+  const calculo = parseIsoDate(params.dataCalculo, 'data do cálculo');
+  if (serial(demissao) < serial(admissao)) throw new Error('A demissão não pode ser anterior à admissão');
+  if (!(params.salario > 0)) throw new Error('Informe o último salário');
+
+  const ctx: AtualizacaoContext = { ajuizamento, calculo, indices, faltantes: { ipcaE: new Set(), selic: new Set() } };
+  const verbas = new Set(params.verbas);
+  const dispensaImotivada = isDispensaImotivada(params.motivo);
+  const justaCausa = params.motivo === 'justa-causa';
+  const salario = params.salario;
+  const linhas: LiquidacaoLinha[] = [];
+  const avisos: string[] = [];
+  const line = () => createLinha(ctx);
+
+  // Aviso prévio e projeção do contrato (OJ 82 da SDI-1)
+  const avisoPrevioDias = dispensaImotivada ? calcularAvisoPrevioDias(params.admissao, params.demissao) : 0;
+  const fimProjetado = addDays(demissao, avisoPrevioDias);
+  const vencRescisorias = addDays(demissao, PRAZO_RESCISORIAS_DIAS);
+  const mesesContrato = fracoesMensais(admissao, demissao);
+
+  // Base das verbas rescisórias (multa 467) e do FGTS rescisório
+  let baseRescisorias = 0;
+  let baseFgtsRescisorio = 0;
+  let baseMulta40 = 0;
+
+  // ── Horas extras e reflexos ──
+  if (verbas.has('horas-extras') && params.horasExtras && params.horasExtras.horasMensais > 0) {
+    const he = params.horasExtras;
+    const inicio = he.inicio ? parseIsoDate(he.inicio, 'início das horas extras') : admissao;
+    const fim = he.fim ? parseIsoDate(he.fim, 'fim das horas extras') : demissao;
+    const valorHoraExtra = (salario / (he.divisor || 220)) * (1 + he.adicional / 100);
+
+    const heLinha = line();
+    const dsrLinha = line();
+    const fgtsMensal = line();
+    let somaComDsr = 0;
+    const ultimosDoze: number[] = [];
+
+    for (const mes of fracoesMensais(inicio, fim)) {
+      const valor = valorHoraExtra * he.horasMensais * mes.fracao;
+      const dsr = valor * DSR_FRACAO;
+      const venc = addMonths({ y: mes.y, m: mes.m, d: 1 }, 1);
+      heLinha.add(valor, venc);
+      dsrLinha.add(dsr, venc);
+      somaComDsr += valor + dsr;
+      ultimosDoze.push(valor + dsr);
+      if (ultimosDoze.length > 12) ultimosDoze.shift();
+      fgtsMensal.add((valor + dsr) * FGTS_ALIQUOTA, venc);
+    }
+
+    linhas.push(heLinha.build('horas-extras', `Horas extras (adicional de ${he.adicional}%)`));
+    if (he.reflexos) {
+      // Cada mês com horas extras contribui com 1/12 para o 13º e para as férias
+      const reflexo13 = somaComDsr / 12;
+      const reflexoFerias = (somaComDsr / 12) * (4 / 3);
+      const mediaMensal = ultimosDoze.reduce((a, b) => a + b, 0) / Math.max(1, ultimosDoze.length);
+      const reflexoAviso = avisoPrevioDias > 0 ? mediaMensal * (avisoPrevioDias / 30) : 0;
+      const fgtsRescisorio = (reflexo13 + reflexoAviso) * FGTS_ALIQUOTA;
+
+      linhas.push(dsrLinha.build('horas-extras', 'Reflexos das horas extras em DSR'));
+      linhas.push(line().add(reflexo13, vencRescisorias).build('horas-extras', 'Reflexos das horas extras em 13º salário'));
+      linhas.push(line().add(reflexoFerias, vencRescisorias).build('horas-extras', 'Reflexos das horas extras em férias + 1/3'));
+      if (reflexoAviso > 0) {
+        linhas.push(line().add(reflexoAviso, vencRescisorias).build('horas-extras', 'Reflexos das horas extras em aviso prévio'));
+      }
+
+      fgtsMensal.add(fgtsRescisorio, vencRescisorias);
+      if (dispensaImotivada) {
+        const multa = (somaComDsr * FGTS_ALIQUOTA + fgtsRescisorio) * FGTS_MULTA;
+        fgtsMensal.add(multa, vencRescisorias);
+      }
+      linhas.push(fgtsMensal.build('horas-extras', dispensaImotivada
+        ? 'Reflexos das horas extras em FGTS + 40%'
+        : 'Reflexos das horas extras em FGTS'));
+    }
+  }
+
+  // ── Aviso prévio ──
+  if (verbas.has('aviso-previo')) {
+    if (avisoPrevioDias > 0) {
+      const valor = (salario / 30) * avisoPrevioDias;
+      linhas.push(line().add(valor, vencRescisorias).build('aviso-previo', `Aviso prévio indenizado (${avisoPrevioDias} dias — Lei 12.506/2011)`));
+      baseRescisorias += valor;
+      baseFgtsRescisorio += valor;
+    } else {
+      avisos.push(`Aviso prévio indenizado indevido na modalidade "${LIQUIDACAO_MOTIVO_LABELS[params.motivo]}".`);
+    }
+  }
+
+  // ── 13º proporcional ──
+  if (verbas.has('decimo-terceiro')) {
+    if (justaCausa) {
+      avisos.push('13º salário proporcional indevido na dispensa por justa causa.');
+    } else {
+      const avos = avosDecimoTerceiro(admissao, fimProjetado);
+      const valor = (salario * avos) / 12;
+      linhas.push(line().add(valor, vencRescisorias).build('decimo-terceiro', `13º salário proporcional (${avos}/12)`));
+      baseRescisorias += valor;
+      baseFgtsRescisorio += valor;
+    }
+  }
+
+  // ── Férias + 1/3 ──
+  if (verbas.has('ferias')) {
+    const vencidas = Math.max(0, Math.floor(params.feriasVencidas || 0));
+    if (vencidas > 0) {
+      const dobro = params.feriasVencidasEmDobro ? 2 : 1;
+      const valor = salario * (4 / 3) * vencidas * dobro;
+      const descricao = `Férias vencidas + 1/3 (${vencidas} período(s)${dobro === 2 ? ', em dobro' : ''})`;
+      linhas.push(line().add(valor, vencRescisorias).build('ferias', descricao));
+      baseRescisorias += valor;
+    }
+    if (justaCausa) {
+      avisos.push('Férias proporcionais indevidas na dispensa por justa causa (Súmula 171 do TST).');
+    } else {
+      const avos = avosFeriasProporcionais(admissao, fimProjetado);
+      const valor = ((salario * avos) / 12) * (4 / 3);
+      linhas.push(line().add(valor, vencRescisorias).build('ferias', `Férias proporcionais + 1/3 (${avos}/12)`));
+      baseRescisorias += valor;
+    }
+  }
+
+  // ── FGTS + 40% ──
+  if (verbas.has('fgts')) {
+    // Depósitos do contrato estimados sobre o último salário (inclui o 13º: 1/12 por mês)
+    const depositosContrato = line();
+    let totalDepositos = 0;
+    for (const mes of mesesContrato) {
+      const deposito = salario * mes.fracao * (13 / 12) * FGTS_ALIQUOTA;
+      totalDepositos += deposito;
+      depositosContrato.add(deposito, addMonths({ y: mes.y, m: mes.m, d: 1 }, 1));
+    }
+    if (params.fgtsSemDepositos) {
+      linhas.push(depositosContrato.build('fgts', 'FGTS não depositado do contrato (8%)'));
+    }
+
+    const fgtsRescisorio = baseFgtsRescisorio * FGTS_ALIQUOTA;
+    if (fgtsRescisorio > 0) {
+      linhas.push(line().add(fgtsRescisorio, vencRescisorias).build('fgts', 'FGTS sobre aviso prévio e 13º salário (8%)'));
+    }
+
+    if (dispensaImotivada) {
+      baseMulta40 = (totalDepositos + fgtsRescisorio) * FGTS_MULTA;
+      linhas.push(line().add(baseMulta40, vencRescisorias).build('fgts', 'Multa de 40% do FGTS'));
+      baseRescisorias += baseMulta40;
+    }
+  }
+
+  // ── Multas ──
+  if (verbas.has('multa-467')) {
+    if (baseRescisorias > 0) {
+      linhas.push(line().add(baseRescisorias * 0.5, vencRescisorias).build('multa-467', 'Multa do art. 467 da CLT (50% das rescisórias)'));
+    } else {
+      avisos.push('Multa do art. 467 sem base: nenhuma verba rescisória calculada.');
+    }
+  }
+  if (verbas.has('multa-477')) {
+    linhas.push(line().add(salario, vencRescisorias).build('multa-477', 'Multa do art. 477, § 8º, da CLT'));
+  }
+
+  if (!indices) {
+    avisos.push('Valores sem atualização: índices de correção não carregados.');
+  } else {
+    const ipca = describeFaltantes('IPCA-E', ctx.faltantes.ipcaE);
+    const selic = describeFaltantes('SELIC', ctx.faltantes.selic);
+    if (ipca) avisos.push(ipca);
+    if (selic) avisos.push(selic);
+  }
+
+  const sum = (key: 'principal' | 'correcao' | 'selic' | 'total') => round2(linhas.reduce((acc, l) => acc + l[key], 0));
+
+  return {
+    linhas,
+    totalPrincipal: sum('principal'),
+    totalCorrecao: sum('correcao'),
+    totalSelic: sum('selic'),
+    total: sum('total'),
+    avisoPrevioDias,
+    dataCalculo: params.dataCalculo,
+    criterio: `Correção monetária pelo IPCA-E na fase pré-judicial e, a partir do ajuizamento (${formatDateBR(ajuizamento)}), `
+      + `pela taxa SELIC, que engloba os juros de mora (ADC 58/STF). Valores atualizados até ${formatDateBR(calculo)}.`,
+    avisos,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SAÍDA PARA O DISPOSITIVO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const formatBRL = (value: number): string =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const escapeHtml = (s: string): string =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Planilha em HTML para anexar ao dispositivo. Usa parágrafos (uma verba por
+ * linha) em vez de <table>: o editor (Quill 2) descarta tabelas.
+ */
+export function formatLiquidacaoHtml(resultado: LiquidacaoResultado): string {
+  const linhas = resultado.linhas.map(l =>
+    `<p>${escapeHtml(l.descricao)}: ${formatBRL(l.total)} (principal ${formatBRL(l.principal)}; `
+    + `IPCA-E ${formatBRL(l.correcao)}; SELIC ${formatBRL(l.selic)}).</p>`
+  );
+  return [
+    '<p><br></p>',
+    '<p><strong>PLANILHA DE LIQUIDAÇÃO (ESTIMATIVA)</strong></p>',
+    ...linhas,
+    `<p><strong>Total: ${formatBRL(resultado.total)}</strong> (principal ${formatBRL(resultado.totalPrincipal)}; `
+      + `IPCA-E ${formatBRL(resultado.totalCorrecao)}; SELIC ${formatBRL(resultado.totalSelic)}).</p>`,
+    `<p><em>${escapeHtml(resultado.criterio)}</em></p>`,
+  ].join('');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRÉ-PREENCHIMENTO A PARTIR DO ANALISADOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** "DD/MM/AAAA" (ou já AAAA-MM-DD) → AAAA-MM-DD; vazio se não reconhecer */
+export function toIsoDate(value?: string): string {
+  if (!value) return '';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return value.trim();
+  const match = /(\d{1,2})\/(\d{1,2})\/(\d{4})/.exec(value);
+  if (!match) return '';
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+}
+
+const MOTIVO_RULES: Array<[LiquidacaoMotivoRescisao, RegExp]> = [
+  ['rescisao-indireta', /indireta/],
+  ['sem-justa-causa', /sem justa causa|imotivad/],
+  ['justa-causa', /justa causa/],
+  ['pedido-demissao', /pedido de demiss|pediu demiss/],
+];
+
+const VERBA_RULES: Array<[LiquidacaoVerbaId, RegExp]> = [
+  ['horas-extras', /hora(s)? extra|sobrejornada|intervalo/],
+  ['ferias', /ferias/],
+  ['decimo-terceiro', /13|decimo terceiro|gratificacao natalina/],
+  ['aviso-previo', /aviso previo/],
+  ['fgts', /fgts/],
+  ['multa-467', /467/],
+  ['multa-477', /477/],
+];
+
+const fold = (s: string): string => s.normalize('NFD').replace(/\p{Mn}/gu, '').toLowerCase();
+
+/**
+ * Sugere os parâmetros a partir dos dados extraídos pelo Analisador
+ * (ContratoData e temas dos pedidos). Campos não reconhecidos ficam vazios
+ * para o usuário completar.
+ */
+export function liquidacaoParamsFromAnalise(
+  contrato: { dataAdmissao?: string; dataDemissao?: string; ultimoSalario?: number; motivoRescisao?: string },
+  pedidos: Array<{ tema: string; descricao?: string }>
+): Partial<LiquidacaoParams> {
+  const motivoText = fold(contrato.motivoRescisao || '');
+  const motivo = MOTIVO_RULES.find(([, re]) => re.test(motivoText))?.[0];
+  const verbas = VERBA_RULES
+    .filter(([, re]) => pedidos.some(p => re.test(fold(`${p.tema} ${p.descricao || ''}`))))
+    .map(([id]) => id);
+
+  return {
+    admissao: toIsoDate(contrato.dataAdmissao),
+    demissao: toIsoDate(contrato.dataDemissao),
+    ...(contrato.ultimoSalario ? { salario: contrato.ultimoSalario } : {}),
+    ...(motivo ? { motivo } : {}),
+    verbas,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ÍNDICES (BANCO CENTRAL - SGS)
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function fetchBcbSerie(codigo: number, inicio: string, fim: string): Promise<Record<string, number>> {
+  parseIsoDate(inicio, 'período dos índices');
+  parseIsoDate(fim, 'período dos índices');
+  const url = `${API_BASE}/api/indices/bcb/${codigo}?inicio=${inicio}&fim=${fim}`;
+  const response = await fetch(url);
+  const data = await response.json().catch(() => null) as { serie?: Record<string, number>; error?: string } | null;
+  if (!response.ok) {
+    throw new Error(data?.error || `Servidor respondeu ${response.status} (série ${codigo})`);
+  }
+  return data?.serie || {};
+}
+
+/** Baixa IPCA-E e SELIC mensais do período (AAAA-MM-DD) */
+export async function fetchIndicesCorrecao(inicio: string, fim: string): Promise<IndicesCorrecao> {
+  try {
+    const [ipcaE, selic] = await Promise.all([
+      fetchBcbSerie(BCB_SERIES.ipcaE, inicio, fim),
+      fetchBcbSerie(BCB_SERIES.selic, inicio, fim),
+    ]);
+    return { ipcaE, selic, fonte: 'Banco Central (SGS)' };
+  } catch (err) {
+    throw new Error(`Falha ao obter índices de correção: ${(err as Error).message}`);
+  }
+}
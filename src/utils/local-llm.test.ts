@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  callLocalLlm,
+  fetchLocalLlmModels,
+  isDirectLocalLlmUrl,
+  localLlmDirectHeaders,
+  localLlmHeaders,
+  localLlmResponseText,
+  streamLocalLlm,
+  toLocalLlmMessages,
+  DEFAULT_LOCAL_LLM_BASE_URL
+} from './local-llm';
+
+const sseResponse = (events: unknown[]): Response => {
+  const body = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + ': ping\n\n';
+  const bytes = new TextEncoder().encode(body);
+  // Entrega em dois pedaços para exercitar o buffer de linhas
+  const cut = Math.floor(bytes.length / 2);
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes.slice(0, cut));
+      controller.enqueue(bytes.slice(cut));
+      controller.close();
+    }
+  });
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const jsonResponse = (data: unknown, status = 200): Response =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('local-llm', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('monta headers com a base default e a chave opcional', () => {
+    expect(localLlmHeaders()).toEqual({ 'Content-Type': 'application/json', 'x-base-url': DEFAULT_LOCAL_LLM_BASE_URL });
+    expect(localLlmHeaders(' http://gpu:8000/v1 ', 'tok')).toMatchObject({ 'x-base-url': 'http://gpu:8000/v1', 'x-api-key': 'tok' });
+    expect(localLlmDirectHeaders()).toEqual({ 'Content-Type': 'application/json' });
+    expect(localLlmDirectHeaders(' tok ')).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer tok' });
+  });
+
+  it('converte mensagens para texto, com placeholder para PDF', () => {
+    const out = toLocalLlmMessages([
+      { role: 'user', content: [{ type: 'document', source: {} }, { type: 'text', text: 'Analise.' }] },
+      { role: 'assistant', content: 'Ok.' }
+    ], 'Você é assessor.');
+    expect(out).toEqual([
+      { role: 'system', content: 'Você é assessor.' },
+      { role: 'user', content: '[PDF anexo omitido — provider não suporta envio binário]\nAnalise.' },
+      { role: 'assistant', content: 'Ok.' }
+    ]);
+  });
+
+  it('exige modelo selecionado', async () => {
+    await expect(callLocalLlm({ apiBase: '', model: '', messages: [] })).rejects.toThrow(/Nenhum modelo local/);
+  });
+
+  it('chama o endpoint direto do navegador e devolve texto e uso', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      choices: [{ message: { content: ' Resposta. ' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 3 }
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await callLocalLlm({ apiBase: 'http://api', baseUrl: 'http://localhost:8080/v1/', apiKey: 'tok', model: 'llama3.1', messages: [{ role: 'user', content: 'Oi' }], maxTokens: 100 });
+
+    expect(result).toEqual({ text: 'Resposta.', reasoning: '', usage: { prompt_tokens: 10, completion_tokens: 3 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer tok' });
+    expect(JSON.parse(init.body)).toEqual({ model: 'llama3.1', messages: [{ role: 'user', content: 'Oi' }], max_tokens: 100 });
+  });
+
+  it('via servidor, chama o proxy /chat', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ choices: [{ message: { content: 'Ok' } }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await callLocalLlm({ apiBase: 'http://api', baseUrl: 'http://localhost:8080/v1', viaServer: true, model: 'llama3.1', messages: [] });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://api/api/local-llm/chat');
+    expect(init.headers['x-base-url']).toBe('http://localhost:8080/v1');
+  });
+
+  it('propaga a mensagem de erro do proxy', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ error: { message: 'Host "10.0.0.5" não liberado' } }, 403)));
+    await expect(callLocalLlm({ apiBase: '', viaServer: true, model: 'm', messages: [] })).rejects.toThrow('não liberado');
+  });
+
+  it('explica quando o navegador não alcança o endpoint (offline ou CORS)', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(callLocalLlm({ apiBase: '', model: 'm', messages: [] })).rejects.toThrow(/inacessível.*OLLAMA_ORIGINS/);
+  });
+
+  it('no modo direto, só localhost/127.0.0.1 passam pela CSP', () => {
+    expect(isDirectLocalLlmUrl(undefined)).toBe(true);
+    expect(isDirectLocalLlmUrl('http://127.0.0.1:8080/v1')).toBe(true);
+    expect(isDirectLocalLlmUrl('http://192.168.0.10:1234/v1')).toBe(false);
+    expect(isDirectLocalLlmUrl('http://gpu-gabinete.local:11434/v1')).toBe(false);
+    expect(isDirectLocalLlmUrl('não é url')).toBe(true);
+  });
+
+  it('endpoint em outro host da rede: aponta o modo via servidor', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(callLocalLlm({ apiBase: '', baseUrl: 'http://192.168.0.10:1234/v1', model: 'm', messages: [] }))
+      .rejects.toThrow(/Repassar pelo servidor/);
+  });
+
+  it('lê o streaming OpenAI do endpoint, separando o raciocínio', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      { choices: [{ delta: { reasoning_content: 'Pensando...' } }] },
+      { choices: [{ delta: { content: 'Procede ' } }] },
+      { choices: [{ delta: { content: 'o pedido.' } }] },
+      { choices: [], usage: { prompt_tokens: 50, completion_tokens: 4 } }
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const chunks: string[] = [];
+
+    const result = await streamLocalLlm({ apiBase: '', model: 'qwen3', messages: [{ role: 'user', content: 'x' }] }, t => chunks.push(t));
+
+    expect(result).toEqual({ text: 'Procede o pedido.', reasoning: 'Pensando...', usage: { prompt_tokens: 50, completion_tokens: 4 } });
+    expect(chunks).toEqual(['Procede ', 'Procede o pedido.']);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${DEFAULT_LOCAL_LLM_BASE_URL}/chat/completions`);
+    expect(JSON.parse(init.body)).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('lança o erro enviado no meio do streaming do endpoint', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([{ error: { message: 'model not found' } }])));
+    await expect(streamLocalLlm({ apiBase: '', model: 'x', messages: [] })).rejects.toThrow('model not found');
+  });
+
+  it('via servidor, acumula o streaming já traduzido pelo proxy', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      { type: 'reasoning', text: 'Pensando...' },
+      { type: 'text', text: 'Procede ' },
+      { type: 'text', text: 'o pedido.' },
+      { type: 'done', usage: { prompt_tokens: 50, completion_tokens: 4 } }
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await streamLocalLlm({ apiBase: '', viaServer: true, model: 'qwen3', messages: [{ role: 'user', content: 'x' }] });
+
+    expect(result).toEqual({ text: 'Procede o pedido.', reasoning: 'Pensando...', usage: { prompt_tokens: 50, completion_tokens: 4 } });
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/local-llm/stream');
+  });
+
+  it('via servidor, lança o erro enviado no meio do streaming', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([{ type: 'error', error: { message: 'model not found' } }])));
+    await expect(streamLocalLlm({ apiBase: '', viaServer: true, model: 'x', messages: [] })).rejects.toThrow('model not found');
+  });
+
+  it('usa o raciocínio quando o conteúdo vem vazio', () => {
+    expect(localLlmResponseText({ text: '', reasoning: 'R', usage: null })).toBe('R');
+    expect(localLlmResponseText({ text: 'T', reasoning: 'R', usage: null })).toBe('T');
+  });
+
+  it('lista os modelos do endpoint em ordem alfabética', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ data: [{ id: 'qwen3:8b' }, { id: 'llama3.1:8b' }, { id: 42 }] }));
+    vi.stubGlobal('fetch', fetchMock);
+    await expect(fetchLocalLlmModels({ apiBase: '', baseUrl: 'http://localhost:8080/v1' })).resolves.toEqual(['llama3.1:8b', 'qwen3:8b']);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+  });
+
+  it('via servidor, lista os modelos devolvidos pelo proxy', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ models: ['qwen3:8b', 'llama3.1:8b', 42] })));
+    await expect(fetchLocalLlmModels({ apiBase: '', viaServer: true })).resolves.toEqual(['llama3.1:8b', 'qwen3:8b']);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @file local-llm.ts
+ * @description Cliente do provider "Local (OpenAI-compatível)": Ollama, llama.cpp
+ *              server ou vLLM. O navegador chama o endpoint direto (como o bridge
+ *              do Claude CLI), para que as peças não passem pelo servidor na nuvem;
+ *              o proxy /api/local-llm fica como opção de instalações self-hosted.
+ *              Compartilhado entre o app principal e os subapps.
+ * @version 1.53.38
+ * v1.53.54: a CSP do app (connect-src) só libera http://localhost e
+ *           http://127.0.0.1; endpoint em outro host da rede exige o modo via servidor.
+ */
+
+/** Base default (Ollama). llama.cpp usa :8080/v1 e vLLM :8000/v1. */
+export const DEFAULT_LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+
+/** Prefixo das rotas do proxy no servidor (modo viaServer). */
+export const LOCAL_LLM_API_PATH = '/api/local-llm';
+
+/** Placeholder de PDF/imagem: o endpoint local é tratado como text-only. */
+const BINARY_PLACEHOLDER = '[PDF anexo omitido — provider não suporta envio binário]';
+
+export interface LocalLlmConnection {
+  /** API_BASE do app (proxy, só com viaServer) */
+  apiBase: string;
+  /** Base da API OpenAI-compatível, com /v1 */
+  baseUrl?: string;
+  /** Opcional: Bearer exigido por alguns servidores (vLLM --api-key) */
+  apiKey?: string;
+  /** Self-hosted: repassa pelo servidor do Sentencify em vez de chamar o endpoint do navegador */
+  viaServer?: boolean;
+}
+
+export interface LocalLlmRequest extends LocalLlmConnection {
+  model: string;
+  /** Mensagens no formato Claude (app principal ou subapps); só o texto é enviado */
+  messages: ReadonlyArray<{ role: string; content: unknown }>;
+  systemPrompt?: string | null;
+  maxTokens?: number;
+  temperature?: number | null;
+  signal?: AbortSignal | null;
+}
+
+/** Uso reportado no formato OpenAI (`usage` da última resposta) */
+export interface LocalLlmUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+export interface LocalLlmResult {
+  text: string;
+  reasoning: string;
+  usage: LocalLlmUsage | null;
+}
+
+const resolveBaseUrl = (baseUrl?: string): string =>
+  ((baseUrl || '').trim() || DEFAULT_LOCAL_LLM_BASE_URL).replace(/\/+$/, '');
+
+/** Hosts que a CSP do app (connect-src em server/index.js) deixa o navegador chamar */
+const DIRECT_LOCAL_LLM_HOSTS = ['localhost', '127.0.0.1'];
+
+/**
+ * O navegador pode chamar o endpoint direto? Só em localhost/127.0.0.1: outro
+ * host da rede (ex.: http://192.168.0.10:11434) é barrado pela CSP antes de
+ * sair da página e precisa do modo via servidor. URL inválida não é julgada aqui.
+ */
+export function isDirectLocalLlmUrl(baseUrl?: string): boolean {
+  try {
+    return DIRECT_LOCAL_LLM_HOSTS.includes(new URL(resolveBaseUrl(baseUrl)).hostname);
+  } catch {
+    return true;
+  }
+}
+
+/** Aviso para endpoint fora de localhost no modo direto */
+export const LOCAL_LLM_REMOTE_HOST_HINT =
+  'O navegador só chama endpoints em localhost/127.0.0.1 (política de segurança do app). ' +
+  'Para outro computador da rede, marque "Repassar pelo servidor" e libere o host em LOCAL_LLM_ALLOWED_HOSTS.';
+
+/** Headers do proxy: base URL sempre, chave só quando configurada. */
+export function localLlmHeaders(baseUrl?: string, apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'x-base-url': (baseUrl || '').trim() || DEFAULT_LOCAL_LLM_BASE_URL
+  };
+  if (apiKey?.trim()) headers['x-api-key'] = apiKey.trim();
+  return headers;
+}
+
+/** Headers da chamada direta ao endpoint: chave opcional como Bearer. */
+export function localLlmDirectHeaders(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey?.trim()) headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+  return headers;
+}
+
+/**
+ * Requisição ao endpoint: direto do navegador ou, com viaServer, pelo proxy
+ * (rotas /chat, /stream e /models do servidor).
+ */
+async function requestEndpoint(
+  conn: LocalLlmConnection,
+  route: 'chat' | 'stream' | 'models',
+  init: RequestInit = {}
+): Promise<Response> {
+  if (conn.viaServer) {
+    return fetch(`${conn.apiBase}${LOCAL_LLM_API_PATH}/${route}`, {
+      ...init,
+      headers: localLlmHeaders(conn.baseUrl, conn.apiKey)
+    });
+  }
+
+  const baseUrl = resolveBaseUrl(conn.baseUrl);
+  try {
+    return await fetch(`${baseUrl}${route === 'models' ? '/models' : '/chat/completions'}`, {
+      ...init,
+      headers: localLlmDirectHeaders(conn.apiKey)
+    });
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') throw err;
+    if (!isDirectLocalLlmUrl(baseUrl)) {
+      throw new Error(`Endpoint local inacessível (${baseUrl}). ${LOCAL_LLM_REMOTE_HOST_HINT}`);
+    }
+    // Endpoint fora do ar ou bloqueado por CORS: o navegador não distingue
+    throw new Error(
+      `Endpoint local inacessível (${baseUrl}). Confira se está rodando e se aceita chamadas deste site ` +
+      '(Ollama: OLLAMA_ORIGINS; vLLM: --allowed-origins).'
+    );
+  }
+}
+
+const blockToText = (block: unknown): string => {
+  if (typeof block === 'string') return block;
+  if (block && typeof block === 'object') {
+    const b = block as { type?: string; text?: string };
+    if (b.type === 'text' || (b.type == null && typeof b.text === 'string')) return b.text ?? '';
+    if (b.type === 'document' || b.type === 'image') return BINARY_PLACEHOLDER;
+  }
+  return '';
+};
+
+/**
+ * Converte mensagens no formato Claude para o formato OpenAI, só com texto.
+ * Blocos binários viram placeholder (como no DeepSeek dos subapps).
+ */
+export function toLocalLlmMessages(
+  messages: LocalLlmRequest['messages'],
+  systemPrompt?: string | null
+): Array<{ role: string; content: string }> {
+  const out: Array<{ role: string; content: string }> = [];
+  if (systemPrompt) out.push({ role: 'system', content: systemPrompt });
+  for (const msg of messages) {
+    const content = Array.isArray(msg.content)
+      ? msg.content.map(blockToText).filter(Boolean).join('\n')
+      : blockToText(msg.content);
+    out.push({ role: msg.role, content });
+  }
+  return out;
+}
+
+const buildBody = (req: LocalLlmRequest): Record<string, unknown> => {
+  if (!req.model) {
+    throw new Error('Nenhum modelo local selecionado. Escolha o modelo em Configurações IA.');
+  }
+  const body: Record<string, unknown> = {
+    model: req.model,
+    messages: toLocalLlmMessages(req.messages, req.systemPrompt),
+    max_tokens: req.maxTokens ?? 8000
+  };
+  if (req.temperature != null) body.temperature = req.temperature;
+  return body;
+};
+
+const errorMessage = async (response: Response): Promise<string> => {
+  const data = await response.json().catch(() => ({})) as { error?: { message?: string } | string };
+  const err = data.error;
+  return (typeof err === 'string' ? err : err?.message) || `Endpoint local: HTTP ${response.status}`;
+};
+
+/** Chamada sem streaming (chat/completions; o proxy devolve a resposta intacta). */
+export async function callLocalLlm(req: LocalLlmRequest): Promise<LocalLlmResult> {
+  const response = await requestEndpoint(req, 'chat', {
+    method: 'POST',
+    body: JSON.stringify(buildBody(req)),
+    signal: req.signal ?? undefined
+  });
+  if (!response.ok) throw new Error(await errorMessage(response));
+
+  const data = await response.json() as {
+    choices?: Array<{ message?: { content?: string; reasoning_content?: string; reasoning?: string } }>;
+    usage?: LocalLlmUsage;
+  };
+  const message = data.choices?.[0]?.message;
+  return {
+    text: (message?.content || '').trim(),
+    reasoning: (message?.reasoning_content || message?.reasoning || '').trim(),
+    usage: data.usage || null
+  };
+}
+
+type StreamEvent =
+  | { type: 'text' | 'reasoning'; text: string }
+  | { type: 'done'; usage: LocalLlmUsage | null }
+  | { type: 'error'; message: string };
+
+/** Linha SSE do proxy, já no formato dos demais providers */
+const parseProxyLine = (data: string): StreamEvent[] => {
+  const parsed = JSON.parse(data) as { type?: string; text?: string; usage?: LocalLlmUsage | null; error?: { message?: string } };
+  if ((parsed.type === 'text' || parsed.type === 'reasoning') && parsed.text) return [{ type: parsed.type, text: parsed.text }];
+  if (parsed.type === 'done') return [{ type: 'done', usage: parsed.usage || null }];
+  if (parsed.type === 'error') return [{ type: 'error', message: parsed.error?.message || 'Erro no streaming do endpoint local' }];
+  return [];
+};
+
+/** Linha SSE do endpoint (chunk OpenAI); Ollama/vLLM põem o raciocínio em reasoning_content ou reasoning */
+const parseOpenAILine = (data: string): StreamEvent[] => {
+  if (data === '[DONE]') return [];
+  const parsed = JSON.parse(data) as {
+    choices?: Array<{ delta?: { content?: string; reasoning_content?: string; reasoning?: string } }>;
+    usage?: LocalLlmUsage;
+    error?: { message?: string } | string;
+  };
+  if (parsed.error) {
+    const message = typeof parsed.error === 'string' ? parsed.error : parsed.error.message;
+    return [{ type: 'error', message: message || 'Erro no streaming do endpoint local' }];
+  }
+  const events: StreamEvent[] = [];
+  const delta = parsed.choices?.[0]?.delta || {};
+  const reasoning = delta.reasoning_content || delta.reasoning;
+  if (delta.content) events.push({ type: 'text', text: delta.content });
+  else if (reasoning) events.push({ type: 'reasoning', text: reasoning });
+  if (parsed.usage) events.push({ type: 'done', usage: parsed.usage });
+  return events;
+};
+
+/**
+ * Chamada com streaming. Direto, lê o SSE OpenAI do endpoint; com viaServer,
+ * o proxy já traduz para {type:'text'|'reasoning'|'done'|'error'}.
+ * @param onChunk - recebe o texto acumulado a cada pedaço
+ */
+export async function streamLocalLlm(
+  req: LocalLlmRequest,
+  onChunk?: (fullText: string) => void
+): Promise<LocalLlmResult> {
+  const body = req.viaServer
+    ? buildBody(req)
+    : { ...buildBody(req), stream: true, stream_options: { include_usage: true } };
+  const response = await requestEndpoint(req, 'stream', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    signal: req.signal ?? undefined
+  });
+  if (!response.ok) throw new Error(await errorMessage(response));
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Stream não disponível');
+
+  const parseLine = req.viaServer ? parseProxyLine : parseOpenAILine;
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let reasoning = '';
+  let usage: LocalLlmUsage | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data) continue;
+      let events: StreamEvent[];
+      try {
+        events = parseLine(data);
+      } catch {
+        continue;
+      }
+      for (const event of events) {
+        if (event.type === 'text') {
+          text += event.text;
+          onChunk?.(text);
+        } else if (event.type === 'reasoning') {
+          reasoning += event.text;
+        } else if (event.type === 'done') {
+          usage = event.usage;
+        } else if (event.type === 'error') {
+          throw new Error(event.message);
+        }
+      }
+    }
+  }
+
+  return { text: text.trim(), reasoning: reasoning.trim(), usage };
+}
+
+/**
+ * Texto final da resposta. Modelos de raciocínio (qwen3, deepseek-r1) às vezes
+ * esgotam max_tokens no thinking: nesse caso usa o raciocínio como fallback.
+ */
+export function localLlmResponseText(result: LocalLlmResult): string {
+  return result.text || result.reasoning;
+}
+
+/** Lista os modelos servidos pelo endpoint (GET /models → ids). */
+export async function fetchLocalLlmModels(conn: LocalLlmConnection): Promise<string[]> {
+  const response = await requestEndpoint(conn, 'models');
+  if (!response.ok) throw new Error(await errorMessage(response));
+  // Proxy: { models: string[] }; endpoint: { data: [{ id }] }
+  const data = await response.json() as { models?: unknown; data?: unknown };
+  const ids = conn.viaServer
+    ? data.models
+    : Array.isArray(data.data) ? data.data.map((m: { id?: unknown } | null) => m?.id) : [];
+  return Array.isArray(ids)
+    ? ids.filter((m): m is string => typeof m === 'string' && m !== '').sort((a, b) => a.localeCompare(b))
+    : [];
+}
@@ -67,9 +67,10 @@ describe('manualCall', () => {
     expect(normalizeManualResponse('```\nx\n```')).toBe('x');
   });
 
-  it('isPdfBinaryAllowed é false para manual e grok', () => {
+  it('isPdfBinaryAllowed é false para manual, grok e endpoint local', () => {
     expect(isPdfBinaryAllowed('manual')).toBe(false);
     expect(isPdfBinaryAllowed('grok')).toBe(false);
+    expect(isPdfBinaryAllowed('local-llm')).toBe(false);
     expect(isPdfBinaryAllowed('claude')).toBe(true);
   });
 });
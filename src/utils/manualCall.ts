@@ -26,9 +26,9 @@ export class ManualCancelledError extends Error {
   }
 }
 
-/** PDF binário só é aceito por providers que o suportam. Manual e Grok exigem texto extraído. */
+/** PDF binário só é aceito por providers que o suportam. Manual, Grok e o endpoint local exigem texto extraído. */
 export function isPdfBinaryAllowed(provider: AIProvider): boolean {
-  return provider !== 'manual' && provider !== 'grok';
+  return provider !== 'manual' && provider !== 'grok' && provider !== 'local-llm';
 }
 
 /** Extrai o texto de um bloco de conteúdo; lança em blocos binários (document/image). */
@@ -0,0 +1,93 @@
+/**
+ * @file modelRevisions.ts
+ * @description Histórico de revisões dos modelos no servidor (listar, comparar, restaurar).
+ * @version 1.53.44
+ *
+ * O servidor grava uma revisão a cada criação/edição de modelo (sync ou PUT),
+ * com quem escreveu e quando — edições em bibliotecas compartilhadas e
+ * gabinetes deixam de apagar o texto anterior. Restaurar é uma edição como
+ * outra qualquer: gera nova sync_version e nova revisão.
+ *
+ * @usedBy ModelHistoryPanel
+ */
+
+import { API_BASE } from '../constants/api';
+
+const AUTH_KEY = 'sentencify-auth-token';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** 'baseline' = estado anterior ao histórico, preservado na primeira edição */
+export type ModelRevisionOperation = 'baseline' | 'create' | 'update' | 'restore';
+
+export interface ModelRevision {
+  id: string;
+  userId: string | null;
+  userEmail: string | null;
+  operation: ModelRevisionOperation;
+  title: string;
+  category: string | null;
+  syncVersion: number;
+  restoredFrom: string | null;
+  createdAt: string;
+  contentLength: number;
+}
+
+export interface ModelRevisionSnapshot {
+  title: string;
+  content: string;
+  category: string | null;
+  keywords: string | null;
+}
+
+export interface ModelRevisionDiff {
+  against: 'current' | 'previous';
+  /** Estado anterior (null se a revisão for a primeira) */
+  from: ModelRevisionSnapshot | null;
+  to: ModelRevisionSnapshot;
+  changedFields: Array<keyof ModelRevisionSnapshot>;
+}
+
+export interface RestoredModelRevision extends ModelRevisionSnapshot {
+  id: string;
+  syncVersion: number;
+  updatedAt: string;
+}
+
+export const REVISION_OPERATION_LABELS: Record<ModelRevisionOperation, string> = {
+  baseline: 'Versão anterior ao histórico',
+  create: 'Criação',
+  update: 'Edição',
+  restore: 'Restauração',
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function requestJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = localStorage.getItem(AUTH_KEY);
+  const res = await fetch(`${API_BASE}/api/models${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `Erro ${res.status} no histórico do modelo`);
+  }
+  return data as T;
+}
+
+export const listModelRevisions = async (modelId: string) =>
+  (await requestJson<{ revisions: ModelRevision[] }>(`/${modelId}/revisions`)).revisions;
+
+export const getModelRevisionDiff = (modelId: string, revisionId: string, against: 'current' | 'previous' = 'current') =>
+  requestJson<ModelRevisionDiff>(`/${modelId}/revisions/${revisionId}/diff?against=${against}`);
+
+export const restoreModelRevision = (modelId: string, revisionId: string) =>
+  requestJson<RestoredModelRevision>(`/${modelId}/revisions/${revisionId}/restore`, { method: 'POST' });
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { filterNerNames, nerNameKey, readNerPreferences, NER_STORAGE_KEYS } from './nerNames';
+import type { NERProcessedEntity } from '../types';
+
+const ent = (text: string, type = 'PESSOA', score = 0.99): NERProcessedEntity => ({ text, type, score, start: 0, end: text.length });
+
+describe('nerNames', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('filtra stopwords, fragmentos e gentílicos e mantém o tipo', () => {
+    const nomes = filterNerNames(
+      [ent('Maria Souza Brasileira'), ent('Reclamante'), ent('LTDA', 'ORGANIZACAO'), ent('Acme Servicos', 'ORGANIZACAO', 0.95)],
+      'texto',
+      true
+    );
+    expect(nomes).toEqual([
+      { text: 'MARIA SOUZA', isOrg: false },
+      { text: 'ACME SERVICOS', isOrg: true },
+    ]);
+  });
+
+  it('ignora ORG sem includeOrg e usa o fallback por sufixo societário com includeOrg', () => {
+    const texto = 'em face de FENIX TRANSPORTES LTDA, inscrita no CNPJ';
+    expect(filterNerNames([ent('Acme', 'ORGANIZACAO')], texto, false)).toEqual([]);
+    expect(filterNerNames([], texto, true)).toEqual([{ text: 'FENIX TRANSPORTES LTDA', isOrg: true }]);
+  });
+
+  it('nerNameKey ignora acento, espaços e a anotação de papel', () => {
+    expect(nerNameKey('José  da Silva (reclamante)')).toBe('JOSE DA SILVA');
+    expect(nerNameKey('JOSE DA SILVA')).toBe('JOSE DA SILVA');
+  });
+
+  it('readNerPreferences lê as chaves do useNERManagement', () => {
+    expect(readNerPreferences()).toEqual({ enabled: false, includeOrg: false });
+    localStorage.setItem(NER_STORAGE_KEYS.NER_ENABLED, 'true');
+    localStorage.setItem(NER_STORAGE_KEYS.NER_INCLUDE_ORG, '{quebrado');
+    expect(readNerPreferences()).toEqual({ enabled: true, includeOrg: false });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @file nerNames.ts
+ * @description Filtros sobre as entidades do NER local (LeNER-br) para obter os
+ *              nomes de pessoas e empresas a anonimizar.
+ * @version 1.53.40
+ *
+ * v1.53.40: Extraído do useDetectEntities — o mesmo pipeline atende o botão
+ * "Detectar nomes" e a detecção automática antes das chamadas à IA
+ * (usePseudonymVaultStore.detectEntitiesForAI).
+ */
+
+import type { NERProcessedEntity, NerDetectedName } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Chaves das preferências de NER no localStorage (useNERManagement) */
+export const NER_STORAGE_KEYS = {
+  NER_ENABLED: 'nerEnabled',
+  NER_INCLUDE_ORG: 'nerIncludeOrg',
+} as const;
+
+// v1.25.23: Separar STOP_WORDS em dois grupos para evitar filtrar "ALMEIDA" (contém "ME")
+const STOP_WORDS_CONTAINS = [
+  'V . EXA', 'V. EXA', 'VOSSA EXCELÊNCIA', 'V.EXA',
+  'RECLAMANTE', 'RECLAMADA', 'RECLAMADO',
+  'TRIBUNAL'
+];
+
+// Palavras curtas que devem ser palavras inteiras (word boundary)
+const STOP_WORDS_EXACT = [
+  'EXA', 'MM', 'DR', 'DRA', 'SR', 'SRA', 'EXMO', 'EXMA',
+  'CPF', 'CNPJ', 'CEP', 'RG', 'CTPS', 'PIS',
+  'S/A', 'S.A', 'ME', 'EPP', 'AUTOR', 'RÉU',
+  'JUIZ', 'JUÍZO', 'VARA', 'TST', 'TRT'
+];
+
+// v1.52.49: Fragmentos isolados a descartar quando a entidade detectada é EXATAMENTE
+// uma destas palavras (igualdade total, não word-boundary). O LeNER-br às vezes emite
+// o sufixo societário ou um pedaço de órgão como span separado (ex.: "EIRELI", "LTDA",
+// "REGIÃO" de "8ª Região"). Não afeta nomes que CONTÊM a palavra (ex.: "FENIX ... LTDA").
+const ISOLATED_DISCARD = [
+  'LTDA', 'EIRELI', 'EI', 'ME', 'EPP', 'S/A', 'S.A', 'S.A.', 'SA',
+  'REGIÃO', 'REGIAO', 'COMARCA', 'TRIBUNAL', 'VARA'
+];
+
+// v1.25.22: Lista de gentílicos/estados civis que não são nomes de pessoas
+const GENTILIC_WORDS = [
+  'PARAENSE', 'PAULISTA', 'CARIOCA', 'MINEIRO', 'MINEIRA',
+  'GAÚCHO', 'GAÚCHA', 'BAIANO', 'BAIANA', 'CATARINENSE',
+  'GOIANO', 'GOIANA', 'CAPIXABA', 'AMAPAENSE', 'AMAZONENSE',
+  'ACREANO', 'ACREANA', 'RONDONIENSE', 'RORAIMENSE', 'TOCANTINENSE',
+  'MARANHENSE', 'PIAUIENSE', 'CEARENSE', 'POTIGUAR', 'PARAIBANO', 'PARAIBANA',
+  'PERNAMBUCANO', 'PERNAMBUCANA', 'ALAGOANO', 'ALAGOANA', 'SERGIPANO', 'SERGIPANA',
+  'PARANAENSE', 'MATOGROSSENSE', 'SULMATOGROSSENSE', 'BRASILIENSE',
+  'BRASILEIRO', 'BRASILEIRA', 'SOLTEIRO', 'SOLTEIRA', 'CASADO', 'CASADA',
+  'DIVORCIADO', 'DIVORCIADA', 'VIÚVO', 'VIÚVA', 'SEPARADO', 'SEPARADA'
+];
+
+// v1.29.01: STOP_WORDS para ORG (tribunais, órgãos públicos, termos jurídicos)
+const ORG_STOP_WORDS = [
+  'JUSTIÇA DO TRABALHO', 'TRIBUNAL REGIONAL', 'TRIBUNAL SUPERIOR',
+  'TRT', 'TST', 'STF', 'STJ', 'TRF', 'TRE',
+  'MINISTÉRIO PÚBLICO', 'MPT', 'MPF', 'MPE',
+  'VARA DO TRABALHO', 'VARA CÍVEL', 'JUÍZO',
+  'RECLAMANTE', 'RECLAMADA', 'RECLAMADO', 'AUTOR', 'RÉU', 'RÉUS',
+  'CNPJ', 'CEI', 'CPF',
+  'UNIÃO FEDERAL', 'MUNICÍPIO DE', 'PREFEITURA DE', 'GOVERNO DO',
+  'INSS', 'CEF', 'CAIXA ECONÔMICA FEDERAL', 'BANCO DO BRASIL', 'FGTS',
+  'EXCELENTÍSSIMO', 'V. EXA', 'SECRETARIA'
+];
+
+const ORG_MIN_SCORE = 0.85;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Função para verificar se é palavra inteira (word boundary)
+const containsExactWord = (text: string, word: string): boolean => {
+  const regex = new RegExp(`\\b${word}\\b`, 'i');
+  return regex.test(text);
+};
+
+// Remove acentos para comparação tolerante (SERVIÇOS == SERVICOS)
+const stripAccents = (s: string): string =>
+  s.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Fuzzy similarity para deduplicação (v1.52.49: insensível a acento)
+const similarity = (aRaw: string, bRaw: string): number => {
+  const a = stripAccents(aRaw);
+  const b = stripAccents(bRaw);
+  const longer = a.length > b.length ? a : b;
+  const shorter = a.length > b.length ? b : a;
+  if (longer.length === 0) return 1.0;
+  if (longer.includes(shorter)) return shorter.length / longer.length;
+  const wordsA = a.split(/\s+/);
+  const wordsB = b.split(/\s+/);
+  const common = wordsA.filter((w: string) => wordsB.some((wb: string) => wb.includes(w) || w.includes(wb)));
+  return common.length / Math.max(wordsA.length, wordsB.length);
+};
+
+/**
+ * Chave de comparação de nomes (sem acento, espaços colapsados, maiúsculas,
+ * sem a anotação de papel entre parênteses).
+ */
+export const nerNameKey = (nome: string): string =>
+  stripAccents(nome.replace(/\s*\([^)]*\)\s*$/, '')).replace(/\s+/g, ' ').trim().toUpperCase();
+
+/** Preferências de NER gravadas pelo useNERManagement (fora de componentes) */
+export const readNerPreferences = (): { enabled: boolean; includeOrg: boolean } => {
+  const read = (key: string): boolean => {
+    try {
+      return JSON.parse(localStorage.getItem(key) || 'false') === true;
+    } catch {
+      return false;
+    }
+  };
+  return { enabled: read(NER_STORAGE_KEYS.NER_ENABLED), includeOrg: read(NER_STORAGE_KEYS.NER_INCLUDE_ORG) };
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PIPELINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reduz as entidades do NER aos nomes a anonimizar: pessoas (PER) e, com
+ * `includeOrg`, empresas (ORG confiáveis + fallback por regex de sufixo
+ * societário no texto). Remove stopwords, fragmentos, duplicatas (fuzzy, por
+ * tipo) e gentílicos no fim do nome.
+ */
+export const filterNerNames = (
+  entidades: NERProcessedEntity[],
+  textoCompleto: string,
+  includeOrg: boolean
+): NerDetectedName[] => {
+  // v1.29: Filtrar pessoas (PER/PESSOA) e opcionalmente ORG
+  const isPessoa = (e: { type: string }) => e.type.includes('PER') || e.type.includes('PESSOA');
+  const isOrg = (e: { type: string }) => e.type.includes('ORG');
+
+  const entidadesFiltradas = entidades.filter(e => {
+    if (isPessoa(e)) return true;
+    if (includeOrg && isOrg(e)) {
+      if (e.score < ORG_MIN_SCORE) return false;
+      const upper = e.text.toUpperCase();
+      if (ORG_STOP_WORDS.some(sw => upper.includes(sw))) return false;
+      return true;
+    }
+    return false;
+  });
+
+  // v1.33.14: Fallback regex para ORG não detectadas pelo modelo
+  if (includeOrg) {
+    const ORG_REGEX = /\b([A-Z0-9]+(?:\s+[A-Z0-9]+){0,3})\s+(LTDA|EIRELI|S\.?A\.?|ME|EPP)\b/gi;
+    const ORG_PREFIX_STOP = ['O', 'A', 'OS', 'AS', 'DE', 'DO', 'DA', 'EM', 'FACE', 'CONTRA', 'RECLAMADA', 'RECLAMANTE'];
+    const textoUpper = textoCompleto.toUpperCase();
+    let match;
+    while ((match = ORG_REGEX.exec(textoUpper)) !== null) {
+      let fullOrg = match[0].trim().replace(/\s+/g, ' ');
+      const words = fullOrg.split(' ');
+      while (words.length > 2 && ORG_PREFIX_STOP.includes(words[0])) {
+        words.shift();
+      }
+      fullOrg = words.join(' ');
+      const alreadyDetected = entidadesFiltradas.some(e =>
+        e.text.toUpperCase().includes(fullOrg) || fullOrg.includes(e.text.toUpperCase())
+      );
+      if (!alreadyDetected && !ORG_STOP_WORDS.some(sw => fullOrg.includes(sw))) {
+        console.log(`[NER] Fallback ORG: "${fullOrg}"`);
+        entidadesFiltradas.push({ text: fullOrg, type: 'ORG', score: 0.9, start: 0, end: fullOrg.length });
+      }
+    }
+  }
+
+  // v1.29.02: Manter tipo junto com texto para fuzzy dedup separado
+  const nomesComTipo = entidadesFiltradas.map(e => ({
+    text: e.text.toUpperCase(),
+    isOrg: isOrg(e)
+  }));
+
+  // v1.25.23: Filtro com STOP_WORDS separados (contains vs exact)
+  const seen = new Map<string, NerDetectedName>();
+  nomesComTipo.forEach(item => {
+    if (!seen.has(item.text)) seen.set(item.text, item);
+  });
+  const nomesFiltrados = [...seen.values()].filter(item =>
+    item.text.length >= 4 &&
+    !ISOLATED_DISCARD.includes(item.text.trim()) &&
+    !STOP_WORDS_CONTAINS.some(sw => item.text.includes(sw)) &&
+    !STOP_WORDS_EXACT.some(sw => containsExactWord(item.text, sw)) &&
+    !GENTILIC_WORDS.includes(item.text.trim())
+  );
+
+  // v1.29.02: Fuzzy dedup separado por tipo (PER vs ORG)
+  const nomesUnicos: NerDetectedName[] = [];
+  for (const item of nomesFiltrados) {
+    const similarIdx = nomesUnicos.findIndex(n => {
+      if (n.isOrg !== item.isOrg) return false;
+      const threshold = item.isOrg ? 0.85 : 0.7;
+      return similarity(n.text, item.text) > threshold;
+    });
+    if (similarIdx >= 0) {
+      if (item.text.length > nomesUnicos[similarIdx].text.length) {
+        console.log(`[NER] Fuzzy merge: "${nomesUnicos[similarIdx].text}" → "${item.text}"`);
+        nomesUnicos[similarIdx] = item;
+      }
+    } else {
+      nomesUnicos.push(item);
+    }
+  }
+  console.log('[NER] Nomes após fuzzy dedup:', nomesUnicos.map(n => n.text));
+
+  // v1.25.24: Limpar gentílicos do final dos nomes
+  return nomesUnicos.map(item => {
+    let limpo = item.text;
+    for (const gentilic of GENTILIC_WORDS) {
+      if (limpo.endsWith(' ' + gentilic)) {
+        limpo = limpo.slice(0, -(gentilic.length + 1)).trim();
+      }
+    }
+    return { text: limpo, isOrg: item.isOrg };
+  });
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getPageAtOffset, joinPages, pageOffsetsFromMarkers, transformPagedText } from './pageOffsets';
+
+describe('joinPages', () => {
+  it('junta as páginas sem marcadores e guarda o início de cada uma', () => {
+    const paged = joinPages([{ page: 1, text: 'primeira' }, { page: 2, text: ' ' }, { page: 3, text: 'terceira' }]);
+    expect(paged.text).toBe('primeira\n\n \n\nterceira');
+    expect(paged.pageOffsets).toEqual([{ page: 1, offset: 0 }, { page: 3, offset: paged.text.indexOf('terceira') }]);
+  });
+
+  it('desconta o espaço aparado no início', () => {
+    const paged = joinPages([{ page: 1, text: '' }, { page: 2, text: 'texto' }]);
+    expect(paged).toEqual({ text: 'texto', pageOffsets: [{ page: 2, offset: 0 }] });
+  });
+
+  it('PDF sem texto resulta em texto vazio', () => {
+    expect(joinPages([{ page: 1, text: ' ' }, { page: 2, text: '' }])).toEqual({ text: '', pageOffsets: [] });
+  });
+});
+
+describe('transformPagedText', () => {
+  const paged = joinPages([
+    { page: 1, text: 'Reclamante: JOÃO DA SILVA.' },
+    { page: 2, text: 'O autor JOÃO DA SILVA laborava das 8h às 18h.' },
+  ]);
+
+  it('recalcula o início das folhas depois de substituições', () => {
+    const anon = transformPagedText(paged, t => t.replace(/JOÃO DA SILVA/g, '[RECLAMANTE]'));
+    expect(anon.text).not.toContain('JOÃO');
+    expect(anon.pageOffsets[1].offset).toBe(anon.text.indexOf('O autor'));
+  });
+
+  it('aplica a transformação ao texto inteiro (nome que cruza a quebra)', () => {
+    const split = joinPages([{ page: 1, text: 'Reclamante: JOÃO DA' }, { page: 2, text: 'SILVA, brasileiro.' }]);
+    const anon = transformPagedText(split, t => t.replace(/JOÃO DA\s+SILVA/g, '[RECLAMANTE]'));
+    expect(anon.text).toBe('Reclamante: [RECLAMANTE], brasileiro.');
+    expect(getPageAtOffset(anon.pageOffsets, anon.text.indexOf('brasileiro'))).toBe(2);
+  });
+
+  it('considera prefixos inseridos antes da primeira folha', () => {
+    const labeled = transformPagedText({ text: 'x', pageOffsets: [] }, t => `[ID] ${t}`);
+    expect(labeled).toEqual({ text: '[ID] x', pageOffsets: [] });
+  });
+});
+
+describe('pageOffsetsFromMarkers', () => {
+  it('lê os marcadores do OCR via visão, inclusive variações', () => {
+    const vision = '--- Página 7 ---\nabc\n--- PAGINA 8 a 9 ---\ndef';
+    expect(pageOffsetsFromMarkers(vision)).toEqual([{ page: 7, offset: 0 }, { page: 8, offset: vision.indexOf('--- PAGINA 8') }]);
+    expect(pageOffsetsFromMarkers('texto sem páginas')).toEqual([]);
+  });
+});
+
+describe('getPageAtOffset', () => {
+  const offsets = [{ page: 1, offset: 10 }, { page: 3, offset: 50 }];
+
+  it('devolve a folha do último início antes da posição', () => {
+    expect(getPageAtOffset(offsets, 10)).toBe(1);
+    expect(getPageAtOffset(offsets, 49)).toBe(1);
+    expect(getPageAtOffset(offsets, 80)).toBe(3);
+  });
+
+  it('undefined antes da primeira folha ou sem offsets', () => {
+    expect(getPageAtOffset(offsets, 0)).toBeUndefined();
+    expect(getPageAtOffset(undefined, 5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @file pageOffsets.ts
+ * @description Início de cada folha do PDF no texto extraído, guardado à parte
+ * (`pageOffsets`) em vez de marcadores no próprio texto — o texto que vai à IA
+ * e fica armazenado continua o mesmo. Permite levar um trecho localizado no
+ * texto de volta à folha do PDF (rastreabilidade, caso B). Funções puras.
+ */
+
+import type { PageOffset } from '../types';
+
+/** Texto extraído com o início de cada folha */
+export interface PagedText {
+  text: string;
+  pageOffsets: PageOffset[];
+}
+
+/**
+ * Junta o texto das páginas (como o pdf.js/Tesseract sempre fizeram: página +
+ * separador, resultado aparado). Páginas sem texto não recebem offset, para a
+ * folha de um trecho ser sempre a última com texto antes dele.
+ */
+export function joinPages(pages: Array<{ page: number; text: string }>, separator = '\n\n'): PagedText {
+  let text = '';
+  const pageOffsets: PageOffset[] = [];
+  for (const { page, text: pageText } of pages) {
+    if (pageText.trim()) pageOffsets.push({ page, offset: text.length });
+    text += pageText + separator;
+  }
+  const lead = text.length - text.trimStart().length;
+  return {
+    text: text.trim(),
+    pageOffsets: pageOffsets.map(p => ({ page: p.page, offset: Math.max(0, p.offset - lead) })),
+  };
+}
+
+/**
+ * Aplica `transform` (limpeza do PJe, anonimização) mantendo os offsets. O texto
+ * resultante é o do texto inteiro — um nome que cruza a quebra de página continua
+ * sendo anonimizado. O início de cada folha é recalculado aplicando a mesma
+ * transformação folha a folha: exato para substituições locais, aproximado em
+ * poucos caracteres quando um trecho substituído cruza a quebra.
+ */
+export function transformPagedText(paged: PagedText, transform: (text: string) => string): PagedText {
+  const text = transform(paged.text);
+  if (paged.pageOffsets.length === 0) return { text, pageOffsets: [] };
+
+  const bounds = paged.pageOffsets.map(p => p.offset);
+  let cursor = transform(paged.text.slice(0, bounds[0])).length;
+  const pageOffsets = paged.pageOffsets.map((p, i) => {
+    const offset = Math.min(cursor, text.length);
+    cursor += transform(paged.text.slice(bounds[i], bounds[i + 1] ?? paged.text.length)).length;
+    return { page: p.page, offset };
+  });
+  return { text, pageOffsets };
+}
+
+/**
+ * Linha de marcador que o OCR via Claude Vision escreve antes de cada página.
+ * Aceita variações da IA ("--- PÁGINA 3 a 5 ---", "--- Página 3 ---").
+ */
+const PAGE_MARKER = /^-{3}\s*P[ÁA]GINA\s+(\d+)[^\n]*?-{3}\s*$/gim;
+
+/** Offsets a partir dos marcadores da resposta do OCR via visão */
+export function pageOffsetsFromMarkers(text: string): PageOffset[] {
+  return [...(text || '').matchAll(PAGE_MARKER)].map(m => ({ page: Number(m[1]), offset: m.index! }));
+}
+
+/**
+ * Folha (1-based) em que está a posição `offset` do texto — a do último início
+ * de folha antes dela. Sem offsets ou antes da primeira folha → undefined.
+ */
+export function getPageAtOffset(pageOffsets: PageOffset[] | undefined, offset: number): number | undefined {
+  let page: number | undefined;
+  for (const p of pageOffsets || []) {
+    if (p.offset > offset) break;
+    page = p.page;
+  }
+  return page;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { encodeWinAnsi, winAnsiToUnicode, measureText, parseTrueTypeFont, FIRST_CHAR, PDF_FONT_URLS } from './pdfFont';
+
+/**
+ * Monta um TrueType mínimo (head, hhea, hmtx, cmap formato 4) com 3 glifos:
+ * 0 = .notdef (500), 1 = espaço (250), 2 = "A"..."C" (700)
+ */
+const buildTestFont = (): Uint8Array => {
+  const tables: Record<string, Uint8Array> = {};
+
+  const head = new DataView(new ArrayBuffer(54));
+  head.setUint16(18, 1000);                      // unitsPerEm
+  head.setInt16(36, -100); head.setInt16(38, -200); head.setInt16(40, 900); head.setInt16(42, 800);
+  tables.head = new Uint8Array(head.buffer);
+
+  const hhea = new DataView(new ArrayBuffer(36));
+  hhea.setInt16(4, 850); hhea.setInt16(6, -250);
+  hhea.setUint16(34, 3);                         // numberOfHMetrics
+  tables.hhea = new Uint8Array(hhea.buffer);
+
+  const hmtx = new DataView(new ArrayBuffer(12));
+  hmtx.setUint16(0, 500); hmtx.setUint16(4, 250); hmtx.setUint16(8, 700);
+  tables.hmtx = new Uint8Array(hmtx.buffer);
+
+  // cmap: segmentos [32..32 → 1], [65..67 → 2 via idRangeOffset], [0xFFFF]
+  const segCount = 3;
+  const cmap = new DataView(new ArrayBuffer(4 + 8 + 14 + segCount * 8 + 2 + 6));
+  cmap.setUint16(2, 1);
+  cmap.setUint16(4, 3); cmap.setUint16(6, 1); cmap.setUint32(8, 12);
+  const sub = 12;
+  cmap.setUint16(sub, 4);
+  cmap.setUint16(sub + 6, segCount * 2);
+  const ends = sub + 14;
+  [32, 67, 0xffff].forEach((v, i) => cmap.setUint16(ends + i * 2, v));
+  const starts = ends + segCount * 2 + 2;
+  [32, 65, 0xffff].forEach((v, i) => cmap.setUint16(starts + i * 2, v));
+  const deltas = starts + segCount * 2;
+  [1 - 32, 0, 1].forEach((v, i) => cmap.setInt16(deltas + i * 2, v));
+  const ranges = deltas + segCount * 2;
+  cmap.setUint16(ranges + 2, (segCount - 1) * 2);  // aponta para glyphIdArray logo após os ranges
+  const glyphArray = ranges + segCount * 2;
+  [2, 2, 2].forEach((g, i) => cmap.setUint16(glyphArray + i * 2, g));
+  tables.cmap = new Uint8Array(cmap.buffer);
+
+  const tags = Object.keys(tables);
+  let offset = 12 + tags.length * 16;
+  const total = offset + tags.reduce((s, t) => s + tables[t].length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tags.length);
+  tags.forEach((tag, i) => {
+    const rec = 12 + i * 16;
+    out.set(new TextEncoder().encode(tag), rec);
+    view.setUint32(rec + 8, offset);
+    view.setUint32(rec + 12, tables[tag].length);
+    out.set(tables[tag], offset);
+    offset += tables[tag].length;
+  });
+  return out;
+};
+
+describe('encodeWinAnsi', () => {
+  it('mantém ASCII e Latin-1 (acentos do português)', () => {
+    expect(encodeWinAnsi('Ação')).toEqual([0x41, 0xe7, 0xe3, 0x6f]);
+  });
+
+  it('mapeia aspas curvas, travessão e marcador para a faixa 0x80–0x9F', () => {
+    expect(encodeWinAnsi('“—•”')).toEqual([0x93, 0x97, 0x95, 0x94]);
+  });
+
+  it('normaliza NBSP em espaço e troca caracteres sem mapeamento por "?"', () => {
+    expect(encodeWinAnsi('a b✓')).toEqual([0x61, 32, 0x62, 63]);
+  });
+
+  it('usa substitutos explícitos e a letra sem diacrítico antes de recorrer a "?"', () => {
+    const bytes = (s: string) => String.fromCharCode(...encodeWinAnsi(s));
+    expect(bytes('art. 7\u2011A')).toBe('art. 7-A');
+    expect(bytes('\ufb01m')).toBe('fim');
+    expect(bytes('a\u200bb')).toBe('ab');
+    expect(bytes('Erdős ≤ 2')).toBe('Erdos <= 2');
+  });
+
+  it('anota os caracteres que saíram como "?"', () => {
+    const unsupported = new Set<string>();
+    expect(encodeWinAnsi('✓ ok ✓ 日', unsupported)).toEqual([63, 32, 0x6f, 0x6b, 32, 63, 32, 63]);
+    expect([...unsupported]).toEqual(['✓', '日']);
+  });
+
+  it('winAnsiToUnicode é o inverso para a faixa alta', () => {
+    expect(winAnsiToUnicode(0x96)).toBe(0x2013);
+    expect(winAnsiToUnicode(0xe9)).toBe(0xe9);
+  });
+});
+
+describe('parseTrueTypeFont', () => {
+  const font = parseTrueTypeFont(buildTestFont(), 'Teste');
+
+  it('lê larguras via cmap + hmtx para cada código WinAnsi', () => {
+    expect(font.widths[32 - FIRST_CHAR]).toBe(250);
+    expect(font.widths[66 - FIRST_CHAR]).toBe(700);
+    expect(font.widths[90 - FIRST_CHAR]).toBe(500); // sem glifo → .notdef
+  });
+
+  it('extrai métricas do FontDescriptor e usa o nome de fallback sem tabela name', () => {
+    expect(font.name).toBe('Teste');
+    expect(font.bbox).toEqual([-100, -200, 900, 800]);
+    expect(font.ascent).toBe(850);
+    expect(font.descent).toBe(-250);
+    expect(font.flags).toBe(32);
+  });
+
+  it('measureText soma as larguras na escala do tamanho', () => {
+    expect(measureText(font, 'A B', 10)).toBe((700 + 250 + 700) / 100);
+  });
+
+  it('rejeita arquivos sem as tabelas obrigatórias', () => {
+    expect(() => parseTrueTypeFont(new Uint8Array(12), 'X')).toThrow('TrueType inválido');
+  });
+});
+
+describe('fontes servidas em public/fonts', () => {
+  // O loadPdfFonts é testado com fetch simulado; aqui valem os arquivos de verdade
+  it.each(Object.entries(PDF_FONT_URLS))('%s: o .ttf existe e é um TrueType utilizável', (style, url) => {
+    const data = new Uint8Array(readFileSync(resolve(__dirname, '../../public', `.${url}`)));
+    const font = parseTrueTypeFont(data, style);
+    expect(font.widths['A'.charCodeAt(0) - FIRST_CHAR]).toBeGreaterThan(0);
+    expect(font.widths['ç'.charCodeAt(0) - FIRST_CHAR]).toBeGreaterThan(0);
+    expect(font.flags & 64).toBe(style.includes('talic') ? 64 : 0);
+  });
+
+  it('a licença acompanha as fontes', () => {
+    expect(readFileSync(resolve(__dirname, '../../public/fonts/tinos/LICENSE.txt'), 'utf-8')).toContain('Open Font License');
+  });
+});
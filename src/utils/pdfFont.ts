@@ -0,0 +1,299 @@
+/**
+ * @file pdfFont.ts
+ * @description Fontes TrueType para geração de PDF/A (parsing de métricas + carga dos arquivos)
+ * @version 1.53.54
+ *
+ * PDF/A-1b exige que TODAS as fontes estejam embutidas — inclusive as "14 padrão".
+ * Usamos a família Tinos (métrica idêntica à Times New Roman), embutida como
+ * fonte TrueType simples com WinAnsiEncoding, que cobre todo o português.
+ * v1.53.54: os .ttf são servidos pelo próprio app (public/fonts/tinos), não mais
+ * do branch `main` do google/fonts no CDN — a fonte embutida não muda sozinha e
+ * a exportação não depende de terceiros. Caracteres fora da WinAnsi têm
+ * substituto explícito; os que sobram são informados a quem exporta.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Pasta pública com os .ttf (ver public/fonts/tinos/README.md) */
+const FONT_BASE = '/fonts/tinos';
+
+export const PDF_FONT_URLS = {
+  regular: `${FONT_BASE}/Tinos-Regular.ttf`,
+  bold: `${FONT_BASE}/Tinos-Bold.ttf`,
+  italic: `${FONT_BASE}/Tinos-Italic.ttf`,
+  boldItalic: `${FONT_BASE}/Tinos-BoldItalic.ttf`,
+} as const;
+
+/** Primeiro e último código WinAnsi com largura declarada no /Widths */
+export const FIRST_CHAR = 32;
+export const LAST_CHAR = 255;
+
+/** Faixa 0x80–0x9F da WinAnsi (cp1252) que difere do Latin-1 */
+const WIN_ANSI_HIGH: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d,
+  0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014,
+  0x98: 0x02dc, 0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+const UNICODE_TO_WIN_ANSI: Map<number, number> = new Map(
+  Object.entries(WIN_ANSI_HIGH).map(([code, unicode]) => [unicode, Number(code)])
+);
+
+/**
+ * Substitutos para caracteres sem código WinAnsi que aparecem em texto jurídico
+ * colado de outros editores/PDFs (hífens e espaços tipográficos, ligaduras, sinais
+ * matemáticos, setas). String vazia = caractere invisível, descartado.
+ */
+const WIN_ANSI_SUBSTITUTES: Record<number, string> = {
+  0x2010: '-', 0x2011: '-', 0x2012: '-', 0x2015: '—', 0x2212: '-', 0x2043: '-',
+  0x2002: ' ', 0x2003: ' ', 0x2007: ' ', 0x2008: ' ', 0x2009: ' ', 0x200a: ' ', 0x202f: ' ', 0x205f: ' ', 0x3000: ' ',
+  0x200b: '', 0x200c: '', 0x200d: '', 0x2060: '', 0xfeff: '',
+  0x2032: "'", 0x2033: '"', 0x201b: '‘', 0x201f: '“', 0x2024: '.', 0x2027: '·',
+  0xfb00: 'ff', 0xfb01: 'fi', 0xfb02: 'fl', 0xfb03: 'ffi', 0xfb04: 'ffl',
+  0x2264: '<=', 0x2265: '>=', 0x2260: '!=', 0x2248: '~', 0x2192: '->', 0x2190: '<-', 0x2194: '<->',
+  0x2116: 'Nº', 0x2153: '1/3', 0x2154: '2/3', 0x215b: '1/8',
+};
+
+/** Código WinAnsi direto do code point, ou null */
+function winAnsiCode(cp: number): number | null {
+  if (cp === 0x09 || cp === 0xa0) return 32;
+  if ((cp >= 32 && cp <= 126) || (cp >= 0xa1 && cp <= 0xff)) return cp;
+  return UNICODE_TO_WIN_ANSI.get(cp) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface PdfFont {
+  /** Nome PostScript (BaseFont) */
+  name: string;
+  /** Programa TrueType completo (FontFile2) */
+  data: Uint8Array;
+  /** Larguras em milésimos de em para os códigos FIRST_CHAR..LAST_CHAR */
+  widths: number[];
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  bbox: [number, number, number, number];
+  /** Flags do FontDescriptor (32 = não simbólica, +64 itálica) */
+  flags: number;
+}
+
+export interface PdfFontFamily {
+  regular: PdfFont;
+  bold: PdfFont;
+  italic: PdfFont;
+  boldItalic: PdfFont;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CODIFICAÇÃO WINANSI
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Converte um código WinAnsi em code point Unicode */
+export function winAnsiToUnicode(code: number): number {
+  return WIN_ANSI_HIGH[code] ?? code;
+}
+
+/**
+ * Codifica texto em bytes WinAnsi. Espaços especiais (NBSP, tabs) viram espaço
+ * comum; sem código, usa o substituto explícito ou a letra sem diacrítico
+ * ("ő" → "o"). O que ainda sobra vira "?" e é anotado em `unsupported`.
+ */
+export function encodeWinAnsi(text: string, unsupported?: Set<string>): number[] {
+  const bytes: number[] = [];
+  for (const char of text.normalize('NFC')) {
+    const cp = char.codePointAt(0)!;
+    const code = winAnsiCode(cp);
+    if (code !== null) {
+      bytes.push(code);
+      continue;
+    }
+    const substitute = WIN_ANSI_SUBSTITUTES[cp] ?? char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    const substituteCodes = [...substitute].map(c => winAnsiCode(c.codePointAt(0)!));
+    if (substitute !== char && substituteCodes.every(c => c !== null)) {
+      bytes.push(...(substituteCodes as number[]));
+    } else {
+      bytes.push(63);
+      unsupported?.add(char);
+    }
+  }
+  return bytes;
+}
+
+/** Largura do texto em pontos para o tamanho de fonte informado */
+export function measureText(font: PdfFont, text: string, size: number): number {
+  let total = 0;
+  for (const code of encodeWinAnsi(text)) {
+    total += font.widths[code - FIRST_CHAR] ?? 0;
+  }
+  return (total * size) / 1000;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING TRUETYPE
+// ═══════════════════════════════════════════════════════════════════════════
+
+function readTables(view: DataView): Map<string, { offset: number; length: number }> {
+  const numTables = view.getUint16(4);
+  const tables = new Map<string, { offset: number; length: number }>();
+  for (let i = 0; i < numTables; i++) {
+    const rec = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(rec), view.getUint8(rec + 1), view.getUint8(rec + 2), view.getUint8(rec + 3)
+    );
+    tables.set(tag, { offset: view.getUint32(rec + 8), length: view.getUint32(rec + 12) });
+  }
+  return tables;
+}
+
+/** Lê o subtable cmap formato 4 (plataforma 3, encoding 1 — Unicode BMP) */
+function readCmap(view: DataView, cmapOffset: number): (unicode: number) => number {
+  const numSubtables = view.getUint16(cmapOffset + 2);
+  let subOffset = -1;
+  for (let i = 0; i < numSubtables; i++) {
+    const rec = cmapOffset + 4 + i * 8;
+    const platformId = view.getUint16(rec);
+    const encodingId = view.getUint16(rec + 2);
+    const offset = cmapOffset + view.getUint32(rec + 4);
+    if (view.getUint16(offset) !== 4) continue;
+    if ((platformId === 3 && encodingId === 1) || (platformId === 0 && subOffset < 0)) subOffset = offset;
+  }
+  if (subOffset < 0) throw new Error('Fonte sem tabela cmap Unicode (formato 4)');
+
+  const segCount = view.getUint16(subOffset + 6) / 2;
+  const endCodes = subOffset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  return (unicode: number): number => {
+    for (let i = 0; i < segCount; i++) {
+      if (view.getUint16(endCodes + i * 2) < unicode) continue;
+      const start = view.getUint16(startCodes + i * 2);
+      if (start > unicode) return 0;
+      const delta = view.getInt16(idDeltas + i * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+      if (rangeOffset === 0) return (unicode + delta) & 0xffff;
+      const glyphAddr = idRangeOffsets + i * 2 + rangeOffset + (unicode - start) * 2;
+      const glyph = view.getUint16(glyphAddr);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+}
+
+/** Nome PostScript (nameID 6) da tabela "name", se houver */
+function readPostScriptName(view: DataView, nameOffset: number): string | null {
+  const count = view.getUint16(nameOffset + 2);
+  const storage = nameOffset + view.getUint16(nameOffset + 4);
+  for (let i = 0; i < count; i++) {
+    const rec = nameOffset + 6 + i * 12;
+    if (view.getUint16(rec + 6) !== 6) continue;
+    const platformId = view.getUint16(rec);
+    const length = view.getUint16(rec + 8);
+    const offset = storage + view.getUint16(rec + 10);
+    let name = '';
+    if (platformId === 3 || platformId === 0) {
+      for (let j = 0; j < length; j += 2) name += String.fromCharCode(view.getUint16(offset + j));
+    } else {
+      for (let j = 0; j < length; j++) name += String.fromCharCode(view.getUint8(offset + j));
+    }
+    if (name) return name.replace(/[^\x21-\x7e]/g, '');
+  }
+  return null;
+}
+
+/**
+ * Extrai do arquivo TrueType as métricas necessárias ao FontDescriptor e ao /Widths
+ */
+export function parseTrueTypeFont(data: Uint8Array, fallbackName: string): PdfFont {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tables = readTables(view);
+  const head = tables.get('head');
+  const hhea = tables.get('hhea');
+  const hmtx = tables.get('hmtx');
+  const cmap = tables.get('cmap');
+  if (!head || !hhea || !hmtx || !cmap) {
+    throw new Error('Arquivo de fonte TrueType inválido');
+  }
+
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const scale = (v: number) => Math.round((v * 1000) / unitsPerEm);
+  const bbox: [number, number, number, number] = [
+    scale(view.getInt16(head.offset + 36)), scale(view.getInt16(head.offset + 38)),
+    scale(view.getInt16(head.offset + 40)), scale(view.getInt16(head.offset + 42)),
+  ];
+  const ascent = scale(view.getInt16(hhea.offset + 4));
+  const descent = scale(view.getInt16(hhea.offset + 6));
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+
+  const advance = (glyph: number): number => {
+    const index = Math.min(glyph, numberOfHMetrics - 1);
+    return view.getUint16(hmtx.offset + index * 4);
+  };
+
+  const glyphFor = readCmap(view, cmap.offset);
+  const widths: number[] = [];
+  for (let code = FIRST_CHAR; code <= LAST_CHAR; code++) {
+    widths.push(scale(advance(glyphFor(winAnsiToUnicode(code)))));
+  }
+
+  const os2 = tables.get('OS/2');
+  const capHeight = os2 && os2.length >= 90 ? scale(view.getInt16(os2.offset + 88)) : ascent;
+  const post = tables.get('post');
+  const italicAngle = post ? view.getInt32(post.offset + 4) / 65536 : 0;
+  const name = tables.has('name') ? readPostScriptName(view, tables.get('name')!.offset) : null;
+
+  return {
+    name: name || fallbackName,
+    data,
+    widths,
+    ascent,
+    descent,
+    capHeight,
+    italicAngle,
+    bbox,
+    flags: 32 | (italicAngle !== 0 ? 64 : 0),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CARGA DOS ARQUIVOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+let fontFamilyPromise: Promise<PdfFontFamily> | null = null;
+
+/** Assinaturas sfnt de TrueType (0x00010000 e "true") */
+const TRUETYPE_SIGNATURES = [0x00010000, 0x74727565];
+
+async function fetchFont(url: string, fallbackName: string): Promise<PdfFont> {
+  const response = await fetch(url);
+  const data = response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+  // Sem o arquivo, o fallback do SPA devolve o index.html com status 200
+  if (!data || data.length < 12 || !TRUETYPE_SIGNATURES.includes(new DataView(data.buffer, data.byteOffset).getUint32(0))) {
+    throw new Error(`Fonte do PDF/A ausente no servidor (${url}${response.ok ? '' : ` — HTTP ${response.status}`})`);
+  }
+  return parseTrueTypeFont(data, fallbackName);
+}
+
+/**
+ * Carrega e interpreta a família Tinos (cache em memória; nova tentativa após falha)
+ */
+export function loadPdfFonts(): Promise<PdfFontFamily> {
+  if (!fontFamilyPromise) {
+    fontFamilyPromise = Promise.all([
+      fetchFont(PDF_FONT_URLS.regular, 'Tinos'),
+      fetchFont(PDF_FONT_URLS.bold, 'Tinos-Bold'),
+      fetchFont(PDF_FONT_URLS.italic, 'Tinos-Italic'),
+      fetchFont(PDF_FONT_URLS.boldItalic, 'Tinos-BoldItalic'),
+    ]).then(([regular, bold, italic, boldItalic]) => ({ regular, bold, italic, boldItalic }));
+    fontFamilyPromise.catch(() => { fontFamilyPromise = null; });
+  }
+  return fontFamilyPromise;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getItemRects, matchPassageAcrossPages, matchPassageInItems } from './pdfPassage';
+
+const item = (str: string, y: number, x = 72) => ({ str, transform: [12, 0, 0, 12, x, y], width: str.length * 6, height: 12 });
+
+describe('matchPassageInItems', () => {
+  const items = [
+    item('EXCELENTÍSSIMO SENHOR JUIZ', 780),
+    item('O reclamante laborava das 8h às 18h,', 700),
+    item('sem intervalo intrajornada, de segunda', 686),
+    item('a sábado.', 672),
+    item('Pede deferimento.', 600),
+  ];
+
+  it('encontra o trecho que atravessa várias linhas', () => {
+    const m = matchPassageInItems(items, 'laborava das 8h as 18h, sem intervalo intrajornada');
+    expect(m?.score).toBe(1);
+    expect(m?.itemIndexes).toEqual([1, 2]);
+  });
+
+  it('aceita pequenas diferenças (fuzzy) e rejeita trecho de outra página', () => {
+    expect(matchPassageInItems(items, 'o reclamante laborava das 8h as 18h sem intervalo intrajornada de segunda a sabado')).not.toBeNull();
+    expect(matchPassageInItems(items, 'a reclamada juntou cartões de ponto britânicos')).toBeNull();
+  });
+
+  it('ignora itens vazios', () => {
+    expect(matchPassageInItems([{ str: '' }, item('texto exato', 10)], 'texto exato')?.itemIndexes).toEqual([1]);
+  });
+});
+
+describe('matchPassageAcrossPages', () => {
+  const page1 = [item('Fls. 3', 800), item('O reclamante foi dispensado sem justa causa', 120)];
+  const page2 = [item('e não recebeu as verbas rescisórias.', 780), item('Pede deferimento.', 700)];
+
+  it('encontra o trecho que cruza a quebra de página, com os itens de cada folha', () => {
+    const m = matchPassageAcrossPages([page1, page2], 'dispensado sem justa causa e nao recebeu as verbas rescisorias');
+    expect(m?.score).toBe(1);
+    expect(m?.itemIndexes).toEqual([[1], [0]]);
+  });
+
+  it('indica as folhas sem o trecho com lista vazia', () => {
+    expect(matchPassageAcrossPages([page1, page2], 'Pede deferimento')?.itemIndexes).toEqual([[], [1]]);
+    expect(matchPassageAcrossPages([page1, page2], 'a reclamada juntou cartões de ponto britânicos')).toBeNull();
+  });
+
+  it('só na primeira folha o trecho partido não passa do limiar', () => {
+    expect(matchPassageInItems(page1, 'dispensado sem justa causa e nao recebeu as verbas rescisorias')).toBeNull();
+  });
+});
+
+describe('getItemRects', () => {
+  it('converte a matriz do item para pixels do viewport (origem no topo)', () => {
+    // Viewport pdf.js para página de 800pt de altura na escala 1.5: y invertido
+    const viewport = { transform: [1.5, 0, 0, -1.5, 0, 1200], scale: 1.5 };
+    const [rect] = getItemRects([item('abc', 700, 100)], [0], viewport);
+    expect(rect).toEqual({ left: 150, top: 1200 - 1050 - 18, width: 27, height: 18 });
+  });
+
+  it('pula itens sem matriz', () => {
+    expect(getItemRects([{ str: 'x' }], [0], { transform: [1, 0, 0, 1, 0, 0], scale: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @file pdfPassage.ts
+ * @description Localiza um trecho citado nos itens de texto das páginas do PDF
+ * (pdf.js) — inclusive o trecho que cruza a quebra de página — e calcula os
+ * retângulos de destaque no canvas. Usado pelo visualizador da rastreabilidade
+ * (caso B). Funções puras — o pdf.js só fornece os itens.
+ */
+
+import { locateNormalized, normalizeForMatch } from './sourceMatching';
+import type { PdfTextItem } from '../types';
+
+/** Retângulo de destaque em pixels do canvas renderizado */
+export interface PassageRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PassageMatch {
+  score: number;
+  /** Índices dos itens de texto cobertos pelo trecho */
+  itemIndexes: number[];
+}
+
+export interface MultiPagePassageMatch {
+  score: number;
+  /** Itens cobertos em cada página recebida (mesma ordem; vazio = trecho fora dela) */
+  itemIndexes: number[][];
+}
+
+/** Similaridade mínima para destacar (mesmo limiar da verificação local) */
+export const PASSAGE_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Junta os itens das páginas (em sequência) num texto normalizado, lembrando a
+ * página e o item de cada caractere (-1 nos espaços de junção).
+ */
+function buildPagesIndex(pages: PdfTextItem[][]): { normalized: string; owners: Array<[number, number] | null> } {
+  let normalized = '';
+  const owners: Array<[number, number] | null> = [];
+  pages.forEach((items, pageIdx) => {
+    items.forEach((item, idx) => {
+      const n = normalizeForMatch(item.str || '');
+      if (!n) return;
+      if (normalized) {
+        normalized += ' ';
+        owners.push(null);
+      }
+      normalized += n;
+      for (let i = 0; i < n.length; i++) owners.push([pageIdx, idx]);
+    });
+  });
+  return { normalized, owners };
+}
+
+/**
+ * Procura o trecho nos itens de páginas consecutivas, como se fossem um texto
+ * só — o trecho que começa no fim de uma folha e termina na seguinte é achado
+ * inteiro. Retorna null abaixo do limiar (trecho fora dessas páginas ou texto
+ * ilegível).
+ */
+export function matchPassageAcrossPages(
+  pages: PdfTextItem[][],
+  trecho: string,
+  threshold: number = PASSAGE_MATCH_THRESHOLD
+): MultiPagePassageMatch | null {
+  const { normalized, owners } = buildPagesIndex(pages);
+  const span = locateNormalized(normalizeForMatch(trecho), normalized);
+  if (!span || span.score < threshold) return null;
+
+  const covered = pages.map(() => new Set<number>());
+  for (let i = span.start; i < span.end; i++) {
+    const owner = owners[i];
+    if (owner) covered[owner[0]].add(owner[1]);
+  }
+  return { score: span.score, itemIndexes: covered.map(set => [...set].sort((a, b) => a - b)) };
+}
+
+/**
+ * Procura o trecho nos itens de uma página. Retorna null abaixo do limiar
+ * (trecho em outra página ou texto da página ilegível).
+ */
+export function matchPassageInItems(
+  items: PdfTextItem[],
+  trecho: string,
+  threshold: number = PASSAGE_MATCH_THRESHOLD
+): PassageMatch | null {
+  const match = matchPassageAcrossPages([items], trecho, threshold);
+  return match && { score: match.score, itemIndexes: match.itemIndexes[0] };
+}
+
+/** Produto de matrizes afins do pdf.js ([a, b, c, d, e, f]) */
+function multiply(m1: number[], m2: number[]): number[] {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+/**
+ * Retângulos (em pixels do viewport) dos itens de texto indicados. A base do
+ * texto no pdf.js fica em (e, f); a altura vem da escala vertical da matriz.
+ */
+export function getItemRects(
+  items: PdfTextItem[],
+  itemIndexes: number[],
+  viewport: { transform: number[]; scale: number }
+): PassageRect[] {
+  return itemIndexes.flatMap(idx => {
+    const item = items[idx];
+    if (!item?.transform) return [];
+    const m = multiply(viewport.transform, item.transform);
+    const height = Math.hypot(m[2], m[3]);
+    return [{ left: m[4], top: m[5] - height, width: (item.width || 0) * viewport.scale, height }];
+  });
+}
@@ -51,7 +51,7 @@ export interface RasterizeOptions {
 // LOADER pdf.js (reusa window.pdfjsLib, igual aos pdfService dos subapps)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const loadPdfJs = async (): Promise<PdfjsLib> => {
+export const loadPdfJs = async (): Promise<PdfjsLib> => {
   if (window.pdfjsLib) return window.pdfjsLib;
 
   return new Promise((resolve, reject) => {
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildDecisionPdfA, buildSrgbIccProfile, formatCnjNumber, getPdfFileName, htmlToPdfBlocks } from './pdfaExport';
+import { DEFAULT_LETTERHEAD_TEMPLATES } from '../constants/letterhead';
+import type { PdfFont, PdfFontFamily } from './pdfFont';
+import type { Topic } from '../types';
+
+const fakeFont = (name: string): PdfFont => ({
+  name,
+  data: new Uint8Array([0, 1, 0, 0]),
+  widths: Array(224).fill(500),
+  ascent: 800,
+  descent: -200,
+  capHeight: 700,
+  italicAngle: 0,
+  bbox: [0, -200, 1000, 800],
+  flags: 32,
+});
+
+const fonts: PdfFontFamily = {
+  regular: fakeFont('Regular'),
+  bold: fakeFont('Bold'),
+  italic: fakeFont('Italic'),
+  boldItalic: fakeFont('BoldItalic'),
+};
+
+const topics: Topic[] = [
+  { title: 'RELATÓRIO', category: 'RELATÓRIO', editedRelatorio: '<p>Relatório.</p>' },
+  { title: 'HORAS EXTRAS', category: 'MÉRITO', editedFundamentacao: '<p>Fundamentação (com parênteses).</p>' },
+  { title: 'DISPOSITIVO', category: 'DISPOSITIVO', editedContent: '<p>JULGO PROCEDENTE.</p>' },
+];
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('formatCnjNumber', () => {
+  it('aplica a máscara CNJ a 20 dígitos', () => {
+    expect(formatCnjNumber('00012345620255150001')).toBe('0001234-56.2025.5.15.0001');
+  });
+
+  it('preserva a classe processual antes do número', () => {
+    expect(formatCnjNumber('ATOrd 0001234-56.2025.5.15.0001')).toBe('ATOrd 0001234-56.2025.5.15.0001');
+  });
+
+  it('devolve o texto original quando não reconhece o número', () => {
+    expect(formatCnjNumber(' 123 ')).toBe('123');
+    expect(formatCnjNumber(undefined)).toBe('');
+  });
+});
+
+describe('htmlToPdfBlocks', () => {
+  it('gera marcadores numerados e com bullet nas listas do Quill', () => {
+    const blocks = htmlToPdfBlocks('<ol><li data-list="ordered">a</li><li data-list="ordered">b</li><li data-list="bullet">c</li></ol>');
+    expect(blocks.map(b => b.marker)).toEqual(['1.', '2.', '•']);
+  });
+
+  it('preserva estilos inline e alinhamento', () => {
+    const [block] = htmlToPdfBlocks('<p class="ql-align-center"><strong>Defiro</strong> <em>em parte</em></p>');
+    expect(block.align).toBe('center');
+    expect(block.runs).toEqual([
+      { text: 'Defiro', bold: true },
+      { text: ' ' },
+      { text: 'em parte', italic: true },
+    ]);
+  });
+
+  it('justifica parágrafos por padrão', () => {
+    expect(htmlToPdfBlocks('<p>x</p>')[0].align).toBe('both');
+  });
+});
+
+describe('buildSrgbIccProfile', () => {
+  it('gera perfil ICC v2 de monitor RGB com tamanho consistente', () => {
+    const icc = buildSrgbIccProfile();
+    const view = new DataView(icc.buffer);
+    expect(view.getUint32(0)).toBe(icc.length);
+    expect(latin1(icc.subarray(12, 24))).toBe('mntrRGB XYZ ');
+    expect(latin1(icc.subarray(36, 40))).toBe('acsp');
+    expect(icc.length % 4).toBe(0);
+  });
+});
+
+describe('buildDecisionPdfA', () => {
+  const build = () => buildDecisionPdfA(topics, {
+    template: { ...DEFAULT_LETTERHEAD_TEMPLATES[0], judgeName: 'Maria Souza' },
+    fonts,
+    processoNumero: '00012345620255150001',
+    partes: { reclamante: 'JOÃO', reclamadas: ['EMPRESA LTDA'] },
+    date: new Date(Date.UTC(2026, 9, 19, 12, 0, 0)),
+  });
+
+  it('produz arquivo PDF 1.4 com trailer /ID e xref coerente', async () => {
+    const pdf = latin1(await build());
+    expect(pdf.startsWith('%PDF-1.4\n%')).toBe(true);
+    expect(pdf).toMatch(/\/ID \[<[0-9A-F]{32}> <[0-9A-F]{32}>\]/);
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('declara conformidade PDF/A-1b com XMP, OutputIntent e fontes embutidas', async () => {
+    const pdf = latin1(await build());
+    expect(pdf).toContain('<pdfaid:part>1</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance>');
+    expect(pdf).toContain('/S /GTS_PDFA1');
+    expect(pdf).toMatch(/\/FontFile2 \d+ 0 R/);
+    expect(pdf).toContain('/Encoding /WinAnsiEncoding');
+    expect(pdf).toContain("/CreationDate (D:20261019120000+00'00')");
+    expect(pdf).toContain('<xmp:CreateDate>2026-10-19T12:00:00Z</xmp:CreateDate>');
+  });
+
+  it('inclui o número CNJ no título e o metadado XMP sem compressão', async () => {
+    const pdf = latin1(await build());
+    expect(pdf).toContain('Processo 0001234-56.2025.5.15.0001');
+    expect(pdf).toMatch(/\/Type \/Metadata \/Subtype \/XML \/Length \d+ >>/);
+  });
+
+  it('é determinístico para a mesma data', async () => {
+    expect(await build()).toEqual(await build());
+  });
+
+  it('informa os caracteres sem equivalente na fonte', async () => {
+    const onUnsupportedChars = vi.fn();
+    const withSymbols: Topic[] = [{ title: 'DISPOSITIVO', category: 'DISPOSITIVO', editedContent: '<p>Pedido ✓ deferido.</p>' }];
+    await buildDecisionPdfA(withSymbols, { template: DEFAULT_LETTERHEAD_TEMPLATES[0], fonts, onUnsupportedChars });
+    expect(onUnsupportedChars).toHaveBeenCalledWith(['✓']);
+
+    onUnsupportedChars.mockClear();
+    await buildDecisionPdfA(topics, { template: DEFAULT_LETTERHEAD_TEMPLATES[0], fonts, onUnsupportedChars });
+    expect(onUnsupportedChars).not.toHaveBeenCalled();
+  });
+});
+
+describe('getPdfFileName', () => {
+  it('usa somente o número CNJ no nome do arquivo', () => {
+    expect(getPdfFileName('ATOrd 0001234-56.2025.5.15.0001')).toBe('sentenca-0001234-56.2025.5.15.0001.pdf');
+  });
+});
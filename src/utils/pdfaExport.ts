@@ -0,0 +1,770 @@
+/**
+ * @file pdfaExport.ts
+ * @description Geração local da sentença em PDF/A-1b pronta para juntada no PJe
+ * @version 1.53.54
+ *
+ * Escritor de PDF próprio (sem biblioteca externa) com os requisitos do PDF/A-1b:
+ * fontes TrueType embutidas (pdfFont.ts), OutputIntent sRGB com perfil ICC gerado
+ * aqui, metadados XMP espelhando o dicionário Info e /ID no trailer. O layout
+ * pagina RELATÓRIO, FUNDAMENTAÇÃO por tópico e DISPOSITIVO (mesma fonte de
+ * conteúdo do .docx — buildDecisionSections), com cabeçalho trazendo o número
+ * CNJ do processo, numeração "Página X de Y" e bloco reservado à assinatura.
+ */
+
+import { buildDecisionSections } from './decisionSections';
+import { crc32 } from './zip';
+import { encodeWinAnsi, measureText, FIRST_CHAR, LAST_CHAR } from './pdfFont';
+import type { PdfFont, PdfFontFamily } from './pdfFont';
+import type { LetterheadTemplate, PartesProcesso, Topic } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTES DE PÁGINA (A4, margens ABNT)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_LEFT = 85.04;   // 3 cm
+const MARGIN_RIGHT = 56.69;  // 2 cm
+const MARGIN_TOP = 42.52;    // 1,5 cm até o cabeçalho
+const MARGIN_BOTTOM = 28.35; // 1 cm até o rodapé
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_LEFT - MARGIN_RIGHT;
+
+const BODY_SIZE = 12;
+const BODY_LINE_HEIGHT = 18;   // espaçamento 1,5
+const HEADER_SIZE = 9;
+const HEADER_LINE_HEIGHT = 11;
+const LIST_INDENT = 24;
+const QUOTE_INDENT = 113.4;    // 4 cm (citação longa)
+const SIGNATURE_HEIGHT = 140;
+
+const PRODUCER = 'SentencifyAI';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+type FontKey = keyof PdfFontFamily;
+type Align = 'left' | 'center' | 'right' | 'both';
+
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+/** Bloco de texto antes da quebra em linhas */
+export interface PdfBlock {
+  runs: TextRun[];
+  align: Align;
+  size: number;
+  lineHeight: number;
+  indent: number;
+  /** Marcador de lista ("•", "1.") desenhado no recuo da primeira linha */
+  marker?: string;
+  spaceAfter: number;
+  /** Não deixa o bloco sozinho no fim da página (títulos) */
+  keepWithNext?: boolean;
+}
+
+interface PlacedSegment {
+  x: number;
+  y: number;
+  text: string;
+  font: FontKey;
+  size: number;
+  underline?: boolean;
+  gray?: boolean;
+}
+
+interface PdfPageContent {
+  segments: PlacedSegment[];
+  /** Retângulo tracejado do bloco de assinatura */
+  signatureBox?: { x: number; y: number; width: number; height: number };
+}
+
+export interface BuildPdfAOptions {
+  template: LetterheadTemplate;
+  fonts: PdfFontFamily;
+  processoNumero?: string;
+  partes?: PartesProcesso;
+  /** Data de geração (default: agora) */
+  date?: Date;
+  /** Caracteres sem equivalente na fonte (saíram como "?"), para avisar quem exporta */
+  onUnsupportedChars?: (chars: string[]) => void;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS DE TEXTO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Extrai e formata o número CNJ (NNNNNNN-DD.AAAA.J.TR.OOOO) de um texto livre.
+ * Aceita o número com ou sem máscara e preserva a classe processual (ATOrd, ATSum...).
+ */
+export function formatCnjNumber(raw: string | undefined | null): string {
+  if (!raw) return '';
+  const masked = raw.match(/\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4}/);
+  const classe = raw.match(/^\s*([A-Za-z]{2,6})\s/)?.[1];
+  let numero = masked?.[0];
+  if (!numero) {
+    const digits = raw.replace(/\D/g, '');
+    if (digits.length !== 20) return raw.trim();
+    numero = `${digits.slice(0, 7)}-${digits.slice(7, 9)}.${digits.slice(9, 13)}.${digits[13]}.${digits.slice(14, 16)}.${digits.slice(16)}`;
+  }
+  return classe ? `${classe} ${numero}` : numero;
+}
+
+function fontKeyFor(run: TextRun): FontKey {
+  if (run.bold && run.italic) return 'boldItalic';
+  if (run.bold) return 'bold';
+  if (run.italic) return 'italic';
+  return 'regular';
+}
+
+/** String literal PDF a partir de bytes WinAnsi (escapa delimitadores e não-ASCII) */
+function pdfString(bytes: number[]): string {
+  let out = '(';
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) out += '\\' + String.fromCharCode(b);
+    else if (b < 32 || b > 126) out += '\\' + b.toString(8).padStart(3, '0');
+    else out += String.fromCharCode(b);
+  }
+  return out + ')';
+}
+
+/** Texto para o dicionário Info (PDFDocEncoding coincide com Latin-1 para o português) */
+function pdfTextString(text: string): string {
+  return pdfString(encodeWinAnsi(text));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HTML → BLOCOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function collectRuns(node: Node, format: Omit<TextRun, 'text'>, runs: TextRun[]): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    if (text) runs.push({ text, ...format });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'br') {
+    runs.push({ text: '\n', ...format });
+    return;
+  }
+  const style = (el.getAttribute('style') || '').toLowerCase();
+  const next = { ...format };
+  if (tag === 'strong' || tag === 'b' || /font-weight:\s*(bold|[6-9]00)/.test(style)) next.bold = true;
+  if (tag === 'em' || tag === 'i' || style.includes('font-style: italic')) next.italic = true;
+  if (tag === 'u' || style.includes('text-decoration: underline')) next.underline = true;
+  el.childNodes.forEach(child => collectRuns(child, next, runs));
+}
+
+function alignOf(el: Element, fallback: Align): Align {
+  const className = el.getAttribute('class') || '';
+  const style = (el.getAttribute('style') || '').toLowerCase();
+  if (className.includes('ql-align-center') || style.includes('text-align: center')) return 'center';
+  if (className.includes('ql-align-right') || style.includes('text-align: right')) return 'right';
+  if (className.includes('ql-align-justify') || style.includes('text-align: justify')) return 'both';
+  return fallback;
+}
+
+function indentLevelOf(el: Element): number {
+  const match = (el.getAttribute('class') || '').match(/ql-indent-(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function paragraphBlock(runs: TextRun[], overrides: Partial<PdfBlock> = {}): PdfBlock {
+  return {
+    runs,
+    align: 'both',
+    size: BODY_SIZE,
+    lineHeight: BODY_LINE_HEIGHT,
+    indent: 0,
+    spaceAfter: 12,
+    ...overrides,
+  };
+}
+
+function headingBlock(text: string, overrides: Partial<PdfBlock> = {}): PdfBlock {
+  return paragraphBlock([{ text, bold: true }], { align: 'left', spaceAfter: 10, keepWithNext: true, ...overrides });
+}
+
+/**
+ * Converte HTML (formato Quill) em blocos de texto paginável
+ */
+export function htmlToPdfBlocks(html: string): PdfBlock[] {
+  if (!html || !html.trim()) return [];
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const blocks: PdfBlock[] = [];
+
+  const visit = (node: Node): void => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').trim();
+      if (text) blocks.push(paragraphBlock([{ text }]));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const runs: TextRun[] = [];
+
+    if (/^h[1-6]$/.test(tag)) {
+      collectRuns(el, { bold: true }, runs);
+      blocks.push(paragraphBlock(runs, { align: alignOf(el, 'left'), spaceAfter: 10, keepWithNext: true }));
+    } else if (tag === 'ul' || tag === 'ol') {
+      let counter = 0;
+      Array.from(el.children).filter(li => li.tagName.toLowerCase() === 'li').forEach(li => {
+        const dataList = li.getAttribute('data-list');
+        const ordered = dataList ? dataList === 'ordered' : tag === 'ol';
+        const liRuns: TextRun[] = [];
+        collectRuns(li, {}, liRuns);
+        blocks.push(paragraphBlock(liRuns, {
+          indent: LIST_INDENT * (1 + indentLevelOf(li)),
+          marker: ordered ? `${++counter}.` : '•',
+          align: alignOf(li, 'both'),
+          spaceAfter: 6,
+        }));
+      });
+    } else if (tag === 'blockquote') {
+      collectRuns(el, {}, runs);
+      blocks.push(paragraphBlock(runs, { indent: QUOTE_INDENT, size: 10, lineHeight: 12 }));
+    } else if (tag === 'div' && Array.from(el.children).some(c => /^(p|div|ul|ol|h[1-6]|blockquote)$/i.test(c.tagName))) {
+      el.childNodes.forEach(visit);
+    } else {
+      collectRuns(el, {}, runs);
+      blocks.push(paragraphBlock(runs, { align: alignOf(el, 'both'), indent: indentLevelOf(el) * LIST_INDENT }));
+    }
+  };
+
+  doc.body.childNodes.forEach(visit);
+  return blocks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEBRA DE LINHAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface WordPiece { text: string; font: FontKey; underline?: boolean; width: number }
+interface Word { pieces: WordPiece[]; width: number }
+type Line = { words: Word[]; width: number; last: boolean };
+
+/** Divide os runs em palavras (uma palavra pode misturar estilos: "<b>Defiro</b>,") */
+function toWords(runs: TextRun[], fonts: PdfFontFamily, size: number): Word[][] {
+  const paragraphs: Word[][] = [[]];
+  let current: Word | null = null;
+
+  const flush = () => {
+    if (current && current.pieces.length) paragraphs[paragraphs.length - 1].push(current);
+    current = null;
+  };
+
+  for (const run of runs) {
+    const font = fontKeyFor(run);
+    for (const token of run.text.split(/(\s+)/)) {
+      if (!token) continue;
+      if (token === '\n' || /^\s+$/.test(token)) {
+        flush();
+        if (token.includes('\n')) paragraphs.push([]);
+        continue;
+      }
+      const width = measureText(fonts[font], token, size);
+      if (!current) current = { pieces: [], width: 0 };
+      current.pieces.push({ text: token, font, underline: run.underline, width });
+      current.width += width;
+    }
+  }
+  flush();
+  // "<p><br></p>" do Quill: a quebra final não abre uma linha extra
+  if (paragraphs.length > 1 && paragraphs[paragraphs.length - 1].length === 0) paragraphs.pop();
+  return paragraphs;
+}
+
+function breakLines(words: Word[], maxWidth: number, spaceWidth: number): Line[] {
+  const lines: Line[] = [];
+  let line: Word[] = [];
+  let width = 0;
+  for (const word of words) {
+    const extra = line.length ? spaceWidth + word.width : word.width;
+    if (line.length && width + extra > maxWidth) {
+      lines.push({ words: line, width, last: false });
+      line = [word];
+      width = word.width;
+    } else {
+      line.push(word);
+      width += extra;
+    }
+  }
+  lines.push({ words: line, width, last: true });
+  return lines;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAGINAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════
+
+class PageComposer {
+  pages: PdfPageContent[] = [];
+  private y = 0;
+
+  constructor(
+    private fonts: PdfFontFamily,
+    private bodyTop: number,
+    private bodyBottom: number
+  ) {
+    this.newPage();
+  }
+
+  private get page(): PdfPageContent {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push({ segments: [] });
+    this.y = this.bodyTop;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y - height < this.bodyBottom && this.y < this.bodyTop) this.newPage();
+  }
+
+  /** Quebra o bloco em linhas e posiciona, paginando quando necessário */
+  addBlock(block: PdfBlock, nextBlockMinHeight = 0): void {
+    const spaceWidth = measureText(this.fonts.regular, ' ', block.size);
+    const maxWidth = CONTENT_WIDTH - block.indent;
+    const lines = toWords(block.runs, this.fonts, block.size)
+      .flatMap(words => breakLines(words, maxWidth, spaceWidth));
+
+    if (block.keepWithNext) this.ensureSpace(block.lineHeight * lines.length + nextBlockMinHeight);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(block.lineHeight);
+      const baseline = this.y - block.size;
+      const left = MARGIN_LEFT + block.indent;
+
+      if (index === 0 && block.marker) {
+        this.page.segments.push({
+          x: left - LIST_INDENT + 6, y: baseline, text: block.marker, font: 'regular', size: block.size,
+        });
+      }
+
+      let x = left;
+      let gap = spaceWidth;
+      if (block.align === 'center') x = left + (maxWidth - line.width) / 2;
+      else if (block.align === 'right') x = left + maxWidth - line.width;
+      else if (block.align === 'both' && !line.last && line.words.length > 1) {
+        const wordsWidth = line.words.reduce((sum, w) => sum + w.width, 0);
+        gap = (maxWidth - wordsWidth) / (line.words.length - 1);
+      }
+
+      for (const word of line.words) {
+        for (const piece of word.pieces) {
+          this.page.segments.push({
+            x, y: baseline, text: piece.text, font: piece.font, size: block.size, underline: piece.underline,
+          });
+          x += piece.width;
+        }
+        x += gap;
+      }
+      this.y -= block.lineHeight;
+    });
+
+    this.y -= block.spaceAfter;
+  }
+
+  /** Linha de local/data, retângulo reservado à assinatura eletrônica e identificação do juiz */
+  addSignatureBlock(template: LetterheadTemplate, date: Date): void {
+    this.ensureSpace(SIGNATURE_HEIGHT);
+    if (template.city.trim()) {
+      const dateText = date.toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric' });
+      this.addBlock(paragraphBlock([{ text: `${template.city.trim()}, ${dateText}.` }], { align: 'right' }));
+    }
+
+    const boxWidth = 260;
+    const boxHeight = 56;
+    const boxX = MARGIN_LEFT + (CONTENT_WIDTH - boxWidth) / 2;
+    const boxY = this.y - boxHeight - 6;
+    this.page.signatureBox = { x: boxX, y: boxY, width: boxWidth, height: boxHeight };
+
+    const label = 'Espaço reservado à assinatura eletrônica (PJe)';
+    const labelWidth = measureText(this.fonts.italic, label, 8);
+    this.page.segments.push({
+      x: boxX + (boxWidth - labelWidth) / 2, y: boxY + boxHeight / 2 - 3, text: label, font: 'italic', size: 8, gray: true,
+    });
+    this.y = boxY - 8;
+
+    if (template.judgeName.trim()) {
+      this.addBlock(paragraphBlock([{ text: template.judgeName.trim().toUpperCase(), bold: true }], { align: 'center', spaceAfter: 0 }));
+    }
+    if (template.judgeTitle.trim()) {
+      this.addBlock(paragraphBlock([{ text: template.judgeTitle.trim() }], { align: 'center', spaceAfter: 0 }));
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CABEÇALHO / RODAPÉ
+// ═══════════════════════════════════════════════════════════════════════════
+
+function headerLines(template: LetterheadTemplate, processo: string): string[] {
+  const lines = template.headerText.split('\n').map(l => l.trim()).filter(Boolean);
+  if (template.varaName.trim()) lines.push(template.varaName.trim());
+  if (processo) lines.push(`Processo nº ${processo}`);
+  return lines;
+}
+
+function footerLines(template: LetterheadTemplate): string[] {
+  return template.footerText.split('\n').map(l => l.trim()).filter(Boolean);
+}
+
+function centeredSegment(text: string, font: PdfFont, fontKey: FontKey, size: number, y: number): PlacedSegment {
+  const width = measureText(font, text, size);
+  return { x: MARGIN_LEFT + (CONTENT_WIDTH - width) / 2, y, text, font: fontKey, size };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ESCRITOR PDF
+// ═══════════════════════════════════════════════════════════════════════════
+
+const encoder = new TextEncoder();
+
+function latin1(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+}
+
+/** Compacta com FlateDecode quando o navegador oferece CompressionStream */
+async function deflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  void writer.write(data as Uint8Array<ArrayBuffer>);
+  void writer.close();
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const out = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+}
+
+class PdfObjectWriter {
+  private objects: Uint8Array[][] = [];
+
+  /** Reserva um número de objeto (para referências cruzadas antes da escrita) */
+  reserve(): number {
+    this.objects.push([]);
+    return this.objects.length;
+  }
+
+  set(id: number, body: string): void {
+    this.objects[id - 1] = [latin1(`${id} 0 obj\n${body}\nendobj\n`)];
+  }
+
+  async setStream(id: number, dict: string, data: Uint8Array, compress = true): Promise<void> {
+    const compressed = compress ? await deflate(data) : null;
+    const payload = compressed ?? data;
+    const filter = compressed ? ' /Filter /FlateDecode' : '';
+    this.objects[id - 1] = [
+      latin1(`${id} 0 obj\n<< ${dict} /Length ${payload.length}${filter} >>\nstream\n`),
+      payload,
+      latin1('\nendstream\nendobj\n'),
+    ];
+  }
+
+  serialize(rootId: number, infoId: number, fileId: string): Uint8Array {
+    const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    for (const object of this.objects) {
+      offsets.push(offset);
+      for (const part of object) {
+        parts.push(part);
+        offset += part.length;
+      }
+    }
+    let xref = `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`;
+    for (const o of offsets) xref += `${o.toString().padStart(10, '0')} 00000 n \n`;
+    xref += `trailer\n<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R /ID [<${fileId}> <${fileId}>] >>\n`;
+    xref += `startxref\n${offset}\n%%EOF\n`;
+    parts.push(latin1(xref));
+
+    const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+    let pos = 0;
+    for (const part of parts) {
+      out.set(part, pos);
+      pos += part.length;
+    }
+    return out;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERFIL ICC sRGB (OutputIntent)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Gera um perfil ICC v2 de monitor sRGB mínimo (primárias adaptadas a D50, gama 2,2).
+ * Exigido pelo OutputIntent GTS_PDFA1; evita embarcar um arquivo .icc no bundle.
+ */
+export function buildSrgbIccProfile(): Uint8Array {
+  const s15 = (v: number) => Math.round(v * 65536);
+  const xyz = (x: number, y: number, z: number) => [0x58595a20, 0, s15(x), s15(y), s15(z)];
+  const desc = 'sRGB IEC61966-2.1';
+
+  const descTag = new Uint8Array(12 + desc.length + 1 + 8 + 3 + 67);
+  const dv = new DataView(descTag.buffer);
+  dv.setUint32(0, 0x64657363); // 'desc'
+  dv.setUint32(8, desc.length + 1);
+  descTag.set(encoder.encode(desc), 12);
+
+  const cprt = 'No copyright, use freely';
+  const cprtTag = new Uint8Array(8 + cprt.length + 1);
+  new DataView(cprtTag.buffer).setUint32(0, 0x74657874); // 'text'
+  cprtTag.set(encoder.encode(cprt), 8);
+
+  const words = (values: number[]) => {
+    const out = new Uint8Array(values.length * 4);
+    const v = new DataView(out.buffer);
+    values.forEach((w, i) => v.setInt32(i * 4, w | 0));
+    return out;
+  };
+  const curve = new Uint8Array(14);
+  const cv = new DataView(curve.buffer);
+  cv.setUint32(0, 0x63757276); // 'curv'
+  cv.setUint32(8, 1);
+  cv.setUint16(12, 0x0233);    // gama 2,2 (u8Fixed8)
+
+  const tags: Array<[string, Uint8Array]> = [
+    ['desc', descTag],
+    ['cprt', cprtTag],
+    ['wtpt', words(xyz(0.9505, 1, 1.089))],
+    ['rXYZ', words(xyz(0.4361, 0.2225, 0.0139))],
+    ['gXYZ', words(xyz(0.3851, 0.7169, 0.0971))],
+    ['bXYZ', words(xyz(0.1431, 0.0606, 0.7141))],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  const tableSize = 4 + tags.length * 12;
+  let dataOffset = 128 + tableSize;
+  const placements: Array<{ sig: string; offset: number; size: number; data: Uint8Array }> = [];
+  const seen = new Map<Uint8Array, number>();
+  for (const [sig, data] of tags) {
+    if (seen.has(data)) {
+      placements.push({ sig, offset: seen.get(data)!, size: data.length, data });
+      continue;
+    }
+    dataOffset = (dataOffset + 3) & ~3;
+    seen.set(data, dataOffset);
+    placements.push({ sig, offset: dataOffset, size: data.length, data });
+    dataOffset += data.length;
+  }
+  const total = (dataOffset + 3) & ~3;
+
+  const profile = new Uint8Array(total);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, total);
+  view.setUint32(8, 0x02100000);          // versão 2.1
+  view.setUint32(12, 0x6d6e7472);         // 'mntr'
+  view.setUint32(16, 0x52474220);         // 'RGB '
+  view.setUint32(20, 0x58595a20);         // 'XYZ '
+  view.setUint16(24, 2026);
+  view.setUint16(26, 1);
+  view.setUint16(28, 1);
+  view.setUint32(36, 0x61637370);         // 'acsp'
+  view.setInt32(68, s15(0.9642));         // iluminante D50
+  view.setInt32(72, s15(1));
+  view.setInt32(76, s15(0.8249));
+  view.setUint32(128, tags.length);
+  placements.forEach((p, i) => {
+    const rec = 132 + i * 12;
+    profile.set(encoder.encode(p.sig), rec);
+    view.setUint32(rec + 4, p.offset);
+    view.setUint32(rec + 8, p.size);
+    profile.set(p.data, p.offset);
+  });
+  return profile;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METADADOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function pdfDate(date: Date): string {
+  const p = (n: number) => n.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${p(date.getUTCMonth() + 1)}${p(date.getUTCDate())}`
+    + `${p(date.getUTCHours())}${p(date.getUTCMinutes())}${p(date.getUTCSeconds())}+00'00'`;
+}
+
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function buildXmp(title: string, date: Date): string {
+  return '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n'
+    + '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">'
+    + '<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"><pdfaid:part>1</pdfaid:part><pdfaid:conformance>B</pdfaid:conformance></rdf:Description>'
+    + `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:format>application/pdf</dc:format><dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title></rdf:Description>`
+    + `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/"><xmp:CreateDate>${xmpDate(date)}</xmp:CreateDate><xmp:ModifyDate>${xmpDate(date)}</xmp:ModifyDate><xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool></rdf:Description>`
+    + `<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/"><pdf:Producer>${PRODUCER}</pdf:Producer></rdf:Description>`
+    + '</rdf:RDF></x:xmpmeta>\n<?xpacket end="w"?>';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API PÚBLICA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Gera a sentença completa em PDF/A-1b a partir dos tópicos selecionados
+ */
+export async function buildDecisionPdfA(selectedTopics: Topic[], options: BuildPdfAOptions): Promise<Uint8Array> {
+  const { template, fonts, partes } = options;
+  const date = options.date ?? new Date();
+  const processo = formatCnjNumber(options.processoNumero);
+
+  // Cabeçalho/rodapé definem a área útil do corpo
+  const header = headerLines(template, processo);
+  const footer = footerLines(template);
+  const headerBottom = PAGE_HEIGHT - MARGIN_TOP - header.length * HEADER_LINE_HEIGHT;
+  const bodyTop = header.length ? headerBottom - 18 : PAGE_HEIGHT - MARGIN_TOP;
+  const bodyBottom = MARGIN_BOTTOM + (footer.length + 1) * HEADER_LINE_HEIGHT + 18;
+
+  const composer = new PageComposer(fonts, bodyTop, bodyBottom);
+  composer.addBlock(headingBlock('SENTENÇA', { align: 'center', size: 14, lineHeight: 20, spaceAfter: 16 }));
+
+  if (partes?.reclamante || partes?.reclamadas?.length) {
+    const partyBlock = (label: string, value: string) =>
+      paragraphBlock([{ text: `${label}: `, bold: true }, { text: value }], { align: 'left', spaceAfter: 2 });
+    if (processo) composer.addBlock(partyBlock('PROCESSO', processo));
+    if (partes.reclamante) composer.addBlock(partyBlock('RECLAMANTE', partes.reclamante));
+    const reclamadas = (partes.reclamadas || []).filter(Boolean);
+    if (reclamadas.length) composer.addBlock(partyBlock(reclamadas.length > 1 ? 'RECLAMADAS' : 'RECLAMADA', reclamadas.join('; ')));
+    composer.addBlock(paragraphBlock([], { spaceAfter: 6 }));
+  }
+
+  for (const section of buildDecisionSections(selectedTopics)) {
+    composer.addBlock(headingBlock(section.title), BODY_LINE_HEIGHT * 2);
+    for (const html of section.htmlParts) {
+      htmlToPdfBlocks(html).forEach(block => composer.addBlock(block));
+    }
+  }
+  composer.addSignatureBlock(template, date);
+
+  // Objetos PDF
+  const writer = new PdfObjectWriter();
+  const catalogId = writer.reserve();
+  const pagesId = writer.reserve();
+  const infoId = writer.reserve();
+  const metadataId = writer.reserve();
+  const iccId = writer.reserve();
+  const outputIntentId = writer.reserve();
+
+  const usedFonts = new Set<FontKey>(['regular', 'bold']);
+  composer.pages.forEach(page => page.segments.forEach(s => usedFonts.add(s.font)));
+  const fontResources: string[] = [];
+  const fontKeys = (['regular', 'bold', 'italic', 'boldItalic'] as FontKey[]).filter(k => usedFonts.has(k));
+  const fontNames = new Map<FontKey, string>();
+
+  for (const [index, key] of fontKeys.entries()) {
+    const font = fonts[key];
+    const resourceName = `F${index + 1}`;
+    fontNames.set(key, resourceName);
+    const fontId = writer.reserve();
+    const descriptorId = writer.reserve();
+    const fileId = writer.reserve();
+    await writer.setStream(fileId, `/Length1 ${font.data.length}`, font.data);
+    writer.set(descriptorId, `<< /Type /FontDescriptor /FontName /${font.name} /Flags ${font.flags} `
+      + `/FontBBox [${font.bbox.join(' ')}] /ItalicAngle ${font.italicAngle} /Ascent ${font.ascent} `
+      + `/Descent ${font.descent} /CapHeight ${font.capHeight} /StemV 80 /FontFile2 ${fileId} 0 R >>`);
+    writer.set(fontId, `<< /Type /Font /Subtype /TrueType /BaseFont /${font.name} /FirstChar ${FIRST_CHAR} `
+      + `/LastChar ${LAST_CHAR} /Widths [${font.widths.join(' ')}] /Encoding /WinAnsiEncoding /FontDescriptor ${descriptorId} 0 R >>`);
+    fontResources.push(`/${resourceName} ${fontId} 0 R`);
+  }
+
+  const pageIds: number[] = [];
+  const totalPages = composer.pages.length;
+  const unsupported = new Set<string>();
+  for (const [index, page] of composer.pages.entries()) {
+    // Cabeçalho e rodapé são desenhados por página (precisam do total)
+    const segments = [...page.segments];
+    header.forEach((line, i) => {
+      segments.push(centeredSegment(line, fonts.bold, 'bold', HEADER_SIZE, PAGE_HEIGHT - MARGIN_TOP - HEADER_SIZE - i * HEADER_LINE_HEIGHT));
+    });
+    footer.forEach((line, i) => {
+      segments.push(centeredSegment(line, fonts.regular, 'regular', 8, MARGIN_BOTTOM + (footer.length - i) * HEADER_LINE_HEIGHT));
+    });
+    segments.push(centeredSegment(`Página ${index + 1} de ${totalPages}`, fonts.regular, 'regular', HEADER_SIZE, MARGIN_BOTTOM));
+
+    let content = '';
+    if (header.length) {
+      content += `0 G 0.5 w ${num(MARGIN_LEFT)} ${num(headerBottom - 6)} m ${num(PAGE_WIDTH - MARGIN_RIGHT)} ${num(headerBottom - 6)} l S\n`;
+    }
+    if (page.signatureBox) {
+      const b = page.signatureBox;
+      content += `0.5 G 0.75 w [3 2] 0 d ${num(b.x)} ${num(b.y)} ${num(b.width)} ${num(b.height)} re S [] 0 d\n`;
+    }
+    for (const s of segments) {
+      content += `BT ${s.gray ? '0.45' : '0'} g /${fontNames.get(s.font)} ${s.size} Tf 1 0 0 1 ${num(s.x)} ${num(s.y)} Tm ${pdfString(encodeWinAnsi(s.text, unsupported))} Tj ET\n`;
+      if (s.underline) {
+        const width = measureText(fonts[s.font], s.text, s.size);
+        content += `0 G 0.5 w ${num(s.x)} ${num(s.y - 1.5)} m ${num(s.x + width)} ${num(s.y - 1.5)} l S\n`;
+      }
+    }
+
+    const pageId = writer.reserve();
+    const contentId = writer.reserve();
+    await writer.setStream(contentId, '', latin1(content));
+    writer.set(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << ${fontResources.join(' ')} >> >> /Contents ${contentId} 0 R >>`);
+    pageIds.push(pageId);
+  }
+  if (unsupported.size > 0) options.onUnsupportedChars?.([...unsupported]);
+
+  const title = processo ? `Sentença - Processo ${processo}` : 'Sentença';
+  writer.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  writer.set(infoId, `<< /Title ${pdfTextString(title)} /Creator (${PRODUCER}) /Producer (${PRODUCER}) `
+    + `/CreationDate (${pdfDate(date)}) /ModDate (${pdfDate(date)}) >>`);
+  // PDF/A-1: o stream de metadados XMP não pode ser compactado
+  await writer.setStream(metadataId, '/Type /Metadata /Subtype /XML', encoder.encode(buildXmp(title, date)), false);
+  await writer.setStream(iccId, '/N 3', buildSrgbIccProfile());
+  writer.set(outputIntentId, '<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (sRGB IEC61966-2.1) '
+    + `/Info (sRGB IEC61966-2.1) /DestOutputProfile ${iccId} 0 R >>`);
+  writer.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R /Metadata ${metadataId} 0 R /OutputIntents [${outputIntentId} 0 R] >>`);
+
+  const seed = encoder.encode(`${title}|${date.toISOString()}|${totalPages}`);
+  const hash = crc32(seed).toString(16).padStart(8, '0');
+  const fileId = (hash + crc32(encoder.encode(hash)).toString(16).padStart(8, '0')).repeat(2).toUpperCase();
+  return writer.serialize(catalogId, infoId, fileId);
+}
+
+/**
+ * Nome do arquivo exportado: "sentenca-<processo>.pdf" ou "sentenca-<data>.pdf"
+ */
+export function getPdfFileName(processoNumero?: string): string {
+  const cnj = formatCnjNumber(processoNumero).match(/\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4}/)?.[0];
+  return `sentenca-${cnj || new Date().toISOString().split('T')[0]}.pdf`;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { cleanPjeArtifacts, getPjeDocIds, cleanPjeForExtraction } from './pjeArtifacts';
+import { cleanPjeArtifacts, getPjeDocIds, cleanPjeForExtraction, parsePjeSignatures } from './pjeArtifacts';
 
 describe('cleanPjeArtifacts', () => {
   it('remove o rodapé do PJe injetado no meio da frase, juntando as duas metades', () => {
@@ -64,3 +64,21 @@ describe('cleanPjeForExtraction', () => {
     expect(cleanPjeForExtraction('Texto sem rodapé.')).toBe('Texto sem rodapé.');
   });
 });
+
+describe('parsePjeSignatures', () => {
+  it('captura signatário, data, hora e ID do rodapé', () => {
+    const t = 'texto Documento assinado eletronicamente por JEAN CARLOS MAGALHAES, em 18/03/2026, às 11:15:27 - 85cb794 mais';
+    expect(parsePjeSignatures(t)).toEqual([
+      { id: '85cb794', signer: 'JEAN CARLOS MAGALHAES', date: '18/03/2026', time: '11:15:27' },
+    ]);
+  });
+
+  it('mantém a ordem e as repetições (uma por página)', () => {
+    const t = 'p1 assinado eletronicamente por X, em 01/01/2026, às 09:00:00 - aaa1 p2 assinado eletronicamente por Y, em 02/02/2026, às 10:00:00 - bbb2 p3 assinado eletronicamente por Y, em 02/02/2026, às 10:00:00 - bbb2';
+    expect(parsePjeSignatures(t).map(s => s.id)).toEqual(['aaa1', 'bbb2', 'bbb2']);
+  });
+
+  it('retorna [] sem rodapé', () => {
+    expect(parsePjeSignatures('')).toEqual([]);
+  });
+});
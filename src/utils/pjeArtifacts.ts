@@ -56,3 +56,33 @@ export function cleanPjeForExtraction(text: string): string {
     : `[IDs dos documentos neste arquivo no PJe: ${ids.join(', ')}]`;
   return `${label}\n\n${cleaned}`;
 }
+
+/**
+ * Rodapé completo, com os grupos que interessam ao índice de documentos:
+ * signatário, data, hora e ID. Mesmo padrão de PJE_ASSINATURA, só que capturando.
+ */
+const PJE_ASSINATURA_DETALHADA = /(?:documento\s+)?assinado eletronicamente por\s+([\s\S]*?),?\s+em\s+(\d{1,2}\/\d{1,2}\/\d{4}),?\s*(?:às\s*)?(\d{1,2}:\d{2}:\d{2})\s*[-–—]\s*(\w+)/gi;
+
+export interface PjeSignature {
+  id: string;
+  signer: string;
+  date: string;
+  time: string;
+}
+
+/**
+ * Lê os rodapés de assinatura do texto, na ordem em que aparecem (sem deduplicar —
+ * quem agrupa por documento é o índice em pjeDocumentIndex).
+ */
+export function parsePjeSignatures(text: string): PjeSignature[] {
+  const signatures: PjeSignature[] = [];
+  for (const m of (text || '').matchAll(PJE_ASSINATURA_DETALHADA)) {
+    signatures.push({
+      id: m[4],
+      signer: m[1].replace(/\s+/g, ' ').trim(),
+      date: m[2],
+      time: m[3],
+    });
+  }
+  return signatures;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { buildPjeDocumentIndex, classifyPjeDocument, findPjeDocumentByPage, formatPjeCitation, removePjeDocumentsOfFile } from './pjeDocumentIndex';
+
+const rodape = (signer: string, date: string, id: string) =>
+  `Documento assinado eletronicamente por ${signer}, em ${date}, às 10:00:00 - ${id}`;
+
+describe('classifyPjeDocument', () => {
+  it('reconhece a petição inicial mesmo mencionando contestação no pedido de citação', () => {
+    const t = 'EXCELENTÍSSIMO SENHOR JUIZ... FULANO vem propor, em face de EMPRESA LTDA, a presente RECLAMAÇÃO TRABALHISTA. Requer a citação da ré para, querendo, contestar.';
+    expect(classifyPjeDocument(t)).toBe('peticao-inicial');
+  });
+
+  it('reconhece a contestação que cita a reclamação trabalhista', () => {
+    const t = 'EMPRESA LTDA, nos autos da reclamação trabalhista que lhe move FULANO, vem apresentar CONTESTAÇÃO.';
+    expect(classifyPjeDocument(t)).toBe('contestacao');
+  });
+
+  it.each([
+    ['ATA DE AUDIÊNCIA. Aberta a audiência, presentes as partes.', 'ata'],
+    ['LAUDO PERICIAL de insalubridade. Quesitos do juízo.', 'laudo'],
+    ['PROCURAÇÃO AD JUDICIA. Outorgante: FULANO.', 'procuracao'],
+    ['O reclamante apresenta réplica à contestação.', 'replica'],
+    ['Vem apresentar emenda à petição inicial.', 'emenda'],
+    ['Inconformada, interpõe RECURSO ORDINÁRIO.', 'recurso'],
+    ['SENTENÇA. Vistos etc. Ante o exposto, julgo procedentes em parte os pedidos.', 'sentenca'],
+    ['DESPACHO. Intimem-se as partes.', 'despacho'],
+    ['Cartão de ponto de janeiro/2024', 'documento'],
+  ])('classifica "%s" como %s', (text, expected) => {
+    expect(classifyPjeDocument(text)).toBe(expected);
+  });
+});
+
+describe('buildPjeDocumentIndex', () => {
+  const pages = [
+    'CAPA DO PROCESSO — sem rodapé',
+    `Vem propor a presente reclamação trabalhista. ${rodape('ADVOGADO DO AUTOR', '10/01/2026', '85cb794')}`,
+    `continuação dos pedidos ${rodape('ADVOGADO DO AUTOR', '10/01/2026', '85cb794')}`,
+    `EMPRESA vem apresentar contestação. ${rodape('ADVOGADA DA RÉ', '05/02/2026', 'a1b2c3d')}`,
+    'página digitalizada sem rodapé',
+    `ATA DE AUDIÊNCIA ${rodape('JUIZ DO TRABALHO', '20/03/2026', 'f00ba12')}`,
+  ];
+
+  const index = buildPjeDocumentIndex(pages, 'processo.pdf');
+
+  it('agrupa páginas consecutivas pelo ID e ignora a capa sem rodapé', () => {
+    expect(index.map(e => [e.id, e.startPage, e.endPage])).toEqual([
+      ['85cb794', 2, 3],
+      ['a1b2c3d', 4, 5],
+      ['f00ba12', 6, 6],
+    ]);
+  });
+
+  it('registra tipo, rótulo, signatário, data e arquivo de origem', () => {
+    expect(index[1]).toEqual({
+      id: 'a1b2c3d',
+      type: 'contestacao',
+      label: 'Contestação',
+      signer: 'ADVOGADA DA RÉ',
+      signedAt: '05/02/2026',
+      startPage: 4,
+      endPage: 5,
+      sourceName: 'processo.pdf',
+    });
+  });
+
+  it('usa o último rodapé da página quando uma frase cruza a quebra', () => {
+    const page = `fim da frase ${rodape('X', '01/01/2026', 'old0001')} e segue ${rodape('Y', '02/01/2026', 'new0002')}`;
+    expect(buildPjeDocumentIndex([page], 'a.pdf')[0].id).toBe('new0002');
+  });
+
+  it('localiza o documento de uma folha e formata a citação', () => {
+    const doc = findPjeDocumentByPage(index, 5, { id: 'f1', name: 'processo.pdf' });
+    expect(doc?.id).toBe('a1b2c3d');
+    expect(formatPjeCitation(doc!, 5)).toBe('Id. a1b2c3d, fl. 5');
+    expect(formatPjeCitation(index[0])).toBe('Id. 85cb794, fl. 2');
+    expect(findPjeDocumentByPage(index, 1)).toBeNull();
+    expect(findPjeDocumentByPage(index, 2, { id: 'f2', name: 'outro.pdf' })).toBeNull();
+  });
+
+  it('com fileId, localiza só entre as peças do arquivo', () => {
+    const entries = [
+      { ...index[0], fileId: 'a', startPage: 1, endPage: 3 },
+      { ...index[0], id: 'f00ba12', fileId: 'b', startPage: 1, endPage: 3 },
+    ];
+    expect(findPjeDocumentByPage(entries, 2, { id: 'b', name: index[0].sourceName })?.id).toBe('f00ba12');
+  });
+});
+
+describe('removePjeDocumentsOfFile', () => {
+  const entry = { id: '85cb794', type: 'contestacao' as const, label: 'Contestação', signer: 'X', signedAt: '01/01/2026', startPage: 1, endPage: 2, sourceName: 'autos.pdf' };
+
+  it('remove pelo id do arquivo, mesmo com nomes iguais', () => {
+    const index = [{ ...entry, fileId: 'a' }, { ...entry, id: 'f00ba12', fileId: 'b' }];
+    expect(removePjeDocumentsOfFile(index, { id: 'a', name: 'autos.pdf' }).map(e => e.id)).toEqual(['f00ba12']);
+  });
+
+  it('entradas sem fileId (índices antigos) casam pelo nome', () => {
+    const index = [entry, { ...entry, id: 'f00ba12', sourceName: 'outro.pdf' }];
+    expect(removePjeDocumentsOfFile(index, { id: 'a', name: 'autos.pdf' }).map(e => e.id)).toEqual(['f00ba12']);
+  });
+});
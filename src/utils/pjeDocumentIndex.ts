@@ -0,0 +1,136 @@
+/**
+ * @file pjeDocumentIndex.ts
+ * @description Índice de documentos do PJe dentro de um PDF dos autos (processo
+ * completo ou peças avulsas). Agrupa as páginas pelo ID do rodapé de assinatura,
+ * classifica o tipo da peça pela primeira página e formata a citação usada na
+ * sentença ("Id. 85cb794, fl. 12"). Funções puras, sem dependências de React/API.
+ */
+
+import { cleanPjeArtifacts, parsePjeSignatures } from './pjeArtifacts';
+import type { PjeDocumentIndexEntry, PjeDocumentType } from '../types';
+
+export const PJE_DOCUMENT_TYPE_LABELS: Record<PjeDocumentType, string> = {
+  'peticao-inicial': 'Petição Inicial',
+  emenda: 'Emenda à Inicial',
+  contestacao: 'Contestação',
+  replica: 'Réplica',
+  ata: 'Ata de Audiência',
+  laudo: 'Laudo Pericial',
+  procuracao: 'Procuração',
+  sentenca: 'Sentença',
+  decisao: 'Decisão',
+  despacho: 'Despacho',
+  recurso: 'Recurso',
+  documento: 'Documento',
+};
+
+/**
+ * Regras de classificação, em ordem de prioridade. A ordem importa: a inicial
+ * costuma mencionar "contestação" (pedido de citação) e a contestação costuma
+ * mencionar "reclamação trabalhista" — por isso os padrões são ancorados em
+ * expressões típicas do cabeçalho de cada peça.
+ */
+const TYPE_RULES: Array<[PjeDocumentType, RegExp]> = [
+  ['ata', /\b(ata|termo) de audiencia\b/],
+  ['laudo', /\blaudo (pericial|tecnico|medico|de insalubridade|de periculosidade)\b/],
+  ['procuracao', /^\s*(procuracao|substabelecimento)\b|\boutorgante\b/],
+  ['replica', /\b(replica|impugnacao (a|da) (contestacao|defesa)|manifestacao (sobre|a|acerca da) (contestacao|defesa))\b/],
+  ['emenda', /\bemenda (a|da) (peticao )?inicial\b/],
+  ['contestacao', /\b(apresentar|apresenta|oferecer|oferece|vem apresentar)\s+(a\s+)?(sua\s+)?(contestacao|defesa)\b|^\s*contestacao\b/],
+  ['recurso', /\b(recurso ordinario|recurso de revista|agravo de peticao|agravo de instrumento|embargos de declaracao)\b/],
+  ['sentenca', /^\s*sentenca\b|\bjulgo (totalmente |parcialmente )?(procedentes?|improcedentes?)\b/],
+  ['peticao-inicial', /\b(propor|ajuizar|propoe|ajuiza)\b.{0,300}?\b(reclamacao|reclamatoria|acao) trabalhista\b/],
+  ['decisao', /^\s*decisao\b/],
+  ['despacho', /^\s*despacho\b/],
+];
+
+/** Quanto do início da peça é considerado na classificação */
+const CLASSIFY_WINDOW = 2000;
+
+const normalizeForClassification = (text: string): string =>
+  cleanPjeArtifacts(text)
+    .slice(0, CLASSIFY_WINDOW)
+    .normalize('NFD')
+    .replace(/\p{Mn}/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+/** Identifica o tipo da peça pelo texto da primeira página */
+export function classifyPjeDocument(firstPageText: string): PjeDocumentType {
+  const normalized = normalizeForClassification(firstPageText);
+  for (const [type, pattern] of TYPE_RULES) {
+    if (pattern.test(normalized)) return type;
+  }
+  return 'documento';
+}
+
+/**
+ * Monta o índice a partir do texto de cada página do PDF (na ordem).
+ * Páginas sem rodapé (digitalizadas sem OCR, por exemplo) ficam com o documento
+ * anterior; páginas iniciais sem rodapé (capa do "processo completo") são ignoradas.
+ */
+export function buildPjeDocumentIndex(pageTexts: string[], sourceName: string): PjeDocumentIndexEntry[] {
+  const entries: PjeDocumentIndexEntry[] = [];
+  let current: PjeDocumentIndexEntry | null = null;
+
+  pageTexts.forEach((pageText, idx) => {
+    const page = idx + 1;
+    const signatures = parsePjeSignatures(pageText);
+    // O rodapé da própria página é o último; anteriores vêm de frases que cruzaram a quebra
+    const signature = signatures[signatures.length - 1];
+
+    if (!signature || signature.id === current?.id) {
+      if (current) current.endPage = page;
+      return;
+    }
+
+    const type = classifyPjeDocument(pageText);
+    current = {
+      id: signature.id,
+      type,
+      label: PJE_DOCUMENT_TYPE_LABELS[type],
+      signer: signature.signer,
+      signedAt: signature.date,
+      startPage: page,
+      endPage: page,
+      sourceName,
+    };
+    entries.push(current);
+  });
+
+  return entries;
+}
+
+/** A entrada veio do arquivo? Pelo id; índices antigos (sem fileId) pelo nome */
+const isFromFile = (entry: PjeDocumentIndexEntry, file: { id: string; name: string }): boolean =>
+  entry.fileId ? entry.fileId === file.id : entry.sourceName === file.name;
+
+/**
+ * Documento que contém a folha informada. Com o arquivo, só entre as peças dele
+ * (no índice, cada PDF tem a própria numeração de folhas).
+ */
+export function findPjeDocumentByPage(
+  index: PjeDocumentIndexEntry[],
+  page: number,
+  file?: { id: string; name: string }
+): PjeDocumentIndexEntry | null {
+  return index.find(entry =>
+    page >= entry.startPage && page <= entry.endPage && (!file || isFromFile(entry, file))
+  ) || null;
+}
+
+/**
+ * Índice sem as peças do arquivo removido. Entradas de índices salvos antes da
+ * v1.53.54 não têm fileId e casam pelo nome do arquivo.
+ */
+export function removePjeDocumentsOfFile(
+  index: PjeDocumentIndexEntry[],
+  file: { id: string; name: string }
+): PjeDocumentIndexEntry[] {
+  return index.filter(entry => !isFromFile(entry, file));
+}
+
+/** Citação no formato usado nas sentenças: "Id. 85cb794, fl. 12" (sem folha → primeira folha) */
+export function formatPjeCitation(entry: Pick<PjeDocumentIndexEntry, 'id' | 'startPage'>, page?: number): string {
+  return `Id. ${entry.id}, fl. ${page ?? entry.startPage}`;
+}
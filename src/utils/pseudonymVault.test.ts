@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPseudonyms,
+  applyPseudonymsToMessages,
+  createPseudonymVault,
+  nameCategory,
+  pseudonymFor,
+  restorePseudonyms,
+} from './pseudonymVault';
+import { anonymizeText } from './text';
+import type { AnonymizationSettings } from '../types';
+
+const config: AnonymizationSettings = { enabled: true, nomesUsuario: [] };
+
+describe('pseudonymVault', () => {
+  it('deduz o papel da anotação do nome', () => {
+    expect(nameCategory('MARIA SOUZA (reclamante)')).toBe('RECLAMANTE');
+    expect(nameCategory('ACME LTDA (1ª reclamada)')).toBe('RECLAMADA');
+    expect(nameCategory('JOSÉ LIMA (testemunha do autor)')).toBe('TESTEMUNHA');
+    expect(nameCategory('JOÃO PERES')).toBe('PESSOA');
+    expect(nameCategory('ACME SERVICOS (empresa)')).toBe('EMPRESA');
+  });
+
+  it('numera por categoria e repete o pseudônimo para o mesmo dado', () => {
+    const vault = createPseudonymVault();
+    expect(pseudonymFor(vault, 'CPF', '123.456.789-00')).toBe('[CPF_1]');
+    expect(pseudonymFor(vault, 'CPF', '987.654.321-00')).toBe('[CPF_2]');
+    expect(pseudonymFor(vault, 'CPF', '12345678900')).toBe('[CPF_1]');
+    expect(pseudonymFor(vault, 'RECLAMANTE', 'José  Lima')).toBe('[RECLAMANTE_1]');
+    expect(pseudonymFor(vault, 'RECLAMANTE', 'JOSE LIMA')).toBe('[RECLAMANTE_1]');
+    expect(vault.entries).toEqual({ '[CPF_1]': '123.456.789-00', '[CPF_2]': '987.654.321-00', '[RECLAMANTE_1]': 'José  Lima' });
+  });
+
+  it('anonimiza com o cofre e re-identifica a resposta', () => {
+    const vault = createPseudonymVault();
+    const peticao = 'MARIA SOUZA, CPF 123.456.789-00, em face de ACME LTDA. Maria Souza foi dispensada.';
+    const anon = anonymizeText(peticao, config, ['MARIA SOUZA (reclamante)', 'ACME LTDA (1ª reclamada)'], vault);
+
+    expect(anon).toBe('[RECLAMANTE_1], CPF [CPF_1], em face de [RECLAMADA_1]. [RECLAMANTE_1] foi dispensada.');
+
+    // Segunda peça do mesmo processo: mesmos pseudônimos
+    expect(anonymizeText('Contestação de ACME LTDA quanto ao CPF 12345678900', config, ['ACME LTDA (1ª reclamada)'], vault))
+      .toBe('Contestação de [RECLAMADA_1] quanto ao CPF [CPF_1]');
+
+    const resposta = '<p>Condeno [RECLAMADA 1] a pagar a [RECLAMANTE\\_1] (CPF [CPF_1]); [PESSOA_9] não consta.</p>';
+    expect(restorePseudonyms(resposta, vault, { html: true }))
+      .toBe('<p>Condeno ACME LTDA a pagar a MARIA SOUZA (CPF 123.456.789-00); [PESSOA_9] não consta.</p>');
+  });
+
+  it('escapa o original para HTML e deixa o texto intacto com o cofre vazio', () => {
+    const vault = createPseudonymVault();
+    pseudonymFor(vault, 'RECLAMADA', 'SILVA & FILHOS <ME>');
+    expect(restorePseudonyms('[RECLAMADA_1]', vault, { html: true })).toBe('SILVA &amp; FILHOS &lt;ME&gt;');
+    expect(restorePseudonyms('[RECLAMADA_1]', createPseudonymVault())).toBe('[RECLAMADA_1]');
+  });
+
+  it('mascara de novo o texto re-identificado antes do envio', () => {
+    const vault = createPseudonymVault();
+    pseudonymFor(vault, 'RECLAMANTE', 'ANA SILVA');
+    pseudonymFor(vault, 'PESSOA', 'SILVA');
+
+    expect(applyPseudonyms('A reclamante Ana  Silva e a testemunha Silva. Silvana não.', vault))
+      .toBe('A reclamante [RECLAMANTE_1] e a testemunha [PESSOA_1]. Silvana não.');
+
+    const messages = [{ role: 'user', content: [{ type: 'text', text: 'ANA SILVA' }, { type: 'document', source: {} }] }];
+    expect(applyPseudonymsToMessages(messages, vault)[0].content).toEqual([{ type: 'text', text: '[RECLAMANTE_1]' }, { type: 'document', source: {} }]);
+    expect(applyPseudonymsToMessages(messages, createPseudonymVault())).toBe(messages);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @file pseudonymVault.ts
+ * @description Pseudonimização reversível: cofre por processo que associa cada
+ *              dado anonimizado a um pseudônimo numerado e estável ([CPF_2],
+ *              [RECLAMANTE_1]) e devolve os originais ao texto gerado pela IA.
+ * @version 1.53.39
+ *
+ * Funções puras — o cofre do processo em uso fica em usePseudonymVaultStore.
+ */
+
+import type { PseudonymVault } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CATEGORIAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Categorias cujo original é comparado só pelos dígitos (pontuação varia entre peças) */
+const NUMERIC_CATEGORIES = new Set(['CNPJ', 'CPF', 'RG', 'PIS', 'CTPS', 'CEP', 'PROCESSO', 'TELEFONE', 'CONTA', 'VALOR']);
+
+/** Papéis reconhecidos na anotação entre parênteses do nome ("EMPRESA LTDA (1ª reclamada)") */
+const ROLE_PATTERNS: Array<[RegExp, string]> = [
+  // Papéis auxiliares primeiro: "testemunha do autor" é TESTEMUNHA, não RECLAMANTE
+  [/testemunh/i, 'TESTEMUNHA'],
+  [/advogad|procurador|patron/i, 'ADVOGADO'],
+  [/perit/i, 'PERITO'],
+  [/reclamant|autor|requerent|exequent/i, 'RECLAMANTE'],
+  [/reclamad|requerid|executad|(^|\s)r[ée]u?(\s|$)/i, 'RECLAMADA'],
+  // v1.53.40: Organizações detectadas pelo NER sem papel informado
+  [/empresa|organiza/i, 'EMPRESA'],
+];
+
+/**
+ * Categoria do pseudônimo de um nome informado pelo usuário, a partir da
+ * anotação entre parênteses. Sem anotação (ou papel desconhecido) → PESSOA.
+ */
+export const nameCategory = (nome: string): string => {
+  const annotation = nome.match(/\(([^)]*)\)\s*$/)?.[1];
+  if (!annotation) return 'PESSOA';
+  const role = ROLE_PATTERNS.find(([re]) => re.test(annotation));
+  return role ? role[1] : 'PESSOA';
+};
+
+const originalKey = (category: string, original: string): string => {
+  const normalized = NUMERIC_CATEGORIES.has(category)
+    ? original.replace(/\D/g, '')
+    : original.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+  return `${category}:${normalized}`;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// COFRE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const createPseudonymVault = (): PseudonymVault => ({ entries: {}, index: {}, counters: {} });
+
+/** Cópia rasa suficiente para mutar sem tocar no estado congelado do store */
+export const clonePseudonymVault = (vault: PseudonymVault): PseudonymVault => ({
+  entries: { ...vault.entries },
+  index: { ...vault.index },
+  counters: { ...vault.counters },
+});
+
+export const pseudonymCount = (vault: PseudonymVault | null | undefined): number =>
+  vault ? Object.keys(vault.entries).length : 0;
+
+/**
+ * Pseudônimo do original na categoria. O mesmo dado recebe sempre o mesmo
+ * número no processo; dados novos recebem o próximo. MUTA o cofre.
+ */
+export const pseudonymFor = (vault: PseudonymVault, category: string, original: string): string => {
+  const key = originalKey(category, original);
+  const existing = vault.index[key];
+  if (existing) return existing;
+
+  const n = (vault.counters[category] || 0) + 1;
+  const token = `[${category}_${n}]`;
+  vault.counters[category] = n;
+  vault.index[key] = token;
+  vault.entries[token] = original.trim();
+  return token;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// RE-IDENTIFICAÇÃO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Aceita as variações que os modelos costumam produzir: [CPF_2], [CPF 2],
+ * [ CPF_2 ] e [CPF\_2] (underscore escapado por markdown).
+ */
+const PSEUDONYM_REGEX = /\[\s*([A-Z]+)(?:\\?_|\s+)(\d+)\s*\]/g;
+
+const escapeHtml = (str: string): string =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export interface RestorePseudonymsOptions {
+  /** Escapa o original para inserção em HTML do editor */
+  html?: boolean;
+}
+
+/**
+ * Substitui os pseudônimos do cofre pelos dados originais. Pseudônimos que não
+ * estão no cofre (inventados pela IA) ficam como estão, para revisão manual.
+ */
+export const restorePseudonyms = (
+  text: string,
+  vault: PseudonymVault | null | undefined,
+  options: RestorePseudonymsOptions = {}
+): string => {
+  if (!text || pseudonymCount(vault) === 0) return text;
+  return text.replace(PSEUDONYM_REGEX, (match: string, category: string, n: string) => {
+    const original = vault!.entries[`[${category}_${n}]`];
+    if (original === undefined) return match;
+    return options.html ? escapeHtml(original) : original;
+  });
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MASCARAMENTO DE SAÍDA
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const escapeRegex = (str: string): string => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Caminho inverso de restorePseudonyms: troca os originais já conhecidos pelo
+ * pseudônimo. Cobre o texto re-identificado que volta para a IA como contexto
+ * (relatórios e fundamentações do editor), que não passa por anonymizeText.
+ */
+export const applyPseudonyms = (text: string, vault: PseudonymVault | null | undefined): string => {
+  if (!text || pseudonymCount(vault) === 0) return text;
+  // Originais mais longos primeiro ("ANA SILVA" antes de "SILVA"), como em anonymizeText
+  const pairs = Object.entries(vault!.entries)
+    .filter(([, original]) => original.length >= 2)
+    .sort((a, b) => b[1].length - a[1].length);
+
+  let result = text;
+  for (const [token, original] of pairs) {
+    const body = escapeRegex(original).replace(/\s+/g, '\\s+');
+    result = result.replace(new RegExp(`(?<![\\p{L}\\d])${body}(?![\\p{L}\\d])`, 'giu'), token);
+  }
+  return result;
+};
+
+const applyToContent = (content: unknown, vault: PseudonymVault): unknown => {
+  if (typeof content === 'string') return applyPseudonyms(content, vault);
+  if (!Array.isArray(content)) return content;
+  return content.map((block) => {
+    const b = block as { type?: string; text?: unknown };
+    return b && b.type === 'text' && typeof b.text === 'string'
+      ? { ...b, text: applyPseudonyms(b.text, vault) }
+      : block;
+  });
+};
+
+/** applyPseudonyms nos blocos de texto de mensagens no formato Claude */
+export const applyPseudonymsToMessages = <M extends { content: unknown }>(
+  messages: M[],
+  vault: PseudonymVault | null | undefined
+): M[] => {
+  if (pseudonymCount(vault) === 0) return messages;
+  return messages.map((m) => ({ ...m, content: applyToContent(m.content, vault!) }) as M);
+};
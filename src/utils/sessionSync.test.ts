@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CloudSessionConflictError,
+  clearLinkedCloudSession,
+  getLinkedCloudSession,
+  listCloudSessions,
+  pullCloudSession,
+  pushCloudSession,
+  setLinkedCloudSession,
+  type CloudSessionPayload,
+} from './sessionSync';
+
+const payload: CloudSessionPayload = {
+  format: 'sentencify-session',
+  version: 1,
+  project: { version: '1.53.41', processoNumero: '0000313-98.2025.5.08.0110', selectedTopics: [{ title: 'HORAS EXTRAS' }] },
+  fieldVersions: [{ topicTitle: 'HORAS EXTRAS', content: '<p>v1</p>', timestamp: 1 }],
+  pseudonymVault: { entries: { '[RECLAMANTE_1]': 'MARIA SOUZA' }, index: {}, counters: { RECLAMANTE: 1 } },
+};
+
+/** Servidor em memória com o contrato de /api/sync/sessions */
+const mockServer = () => {
+  const rows = new Map<string, { label: string; payload: string; syncVersion: number }>();
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const id = decodeURIComponent(url.split('/api/sync/sessions')[1].replace(/^\//, ''));
+    const reply = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body });
+    if (init.method === 'PUT') {
+      const body = JSON.parse(init.body as string);
+      const row = rows.get(id);
+      if (row && row.syncVersion !== body.syncVersion && !body.force) {
+        return reply(409, { reason: 'version_mismatch', serverVersion: row.syncVersion, updatedAt: '2026-10-19T10:00:00Z' });
+      }
+      const syncVersion = row ? row.syncVersion + 1 : 1;
+      rows.set(id, { label: body.label, payload: body.payload, syncVersion });
+      return reply(200, { success: true, syncVersion, updatedAt: '2026-10-19T10:00:00Z' });
+    }
+    if (!id) {
+      return reply(200, {
+        sessions: [...rows.entries()].map(([rid, r]) => ({ id: rid, label: r.label, size: r.payload.length, updatedAt: '', syncVersion: r.syncVersion })),
+      });
+    }
+    const row = rows.get(id);
+    return row ? reply(200, { session: { id, ...row } }) : reply(404, { error: 'Sessão não encontrada' });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { rows, fetchMock };
+};
+
+describe('sessionSync', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('sends only ciphertext and restores the session with the same passphrase', async () => {
+    const { rows } = mockServer();
+    const saved = await pushCloudSession({ id: 'sessao-0001', label: 'Processo 313', payload, syncVersion: 0 }, 'frase do gabinete');
+    expect(saved.syncVersion).toBe(1);
+
+    const stored = rows.get('sessao-0001')!;
+    expect(stored.payload).not.toContain('MARIA SOUZA');
+    expect(stored.label).not.toContain('Processo 313');
+
+    const pulled = await pullCloudSession('sessao-0001', 'frase do gabinete');
+    expect(pulled).toEqual({ payload, syncVersion: 1, label: 'Processo 313' });
+
+    await expect(pullCloudSession('sessao-0001', 'outra frase')).rejects.toThrow('Frase-senha incorreta');
+    expect(await listCloudSessions('outra frase')).toMatchObject([{ id: 'sessao-0001', label: null }]);
+  }, 20000);
+
+  it('reports a conflict when another device saved first, unless forced', async () => {
+    mockServer();
+    await pushCloudSession({ id: 'sessao-0002', label: 'P', payload, syncVersion: 0 }, 'x');
+    await pushCloudSession({ id: 'sessao-0002', label: 'P', payload, syncVersion: 1 }, 'x');
+
+    const stale = pushCloudSession({ id: 'sessao-0002', label: 'P', payload, syncVersion: 1 }, 'x');
+    await expect(stale).rejects.toBeInstanceOf(CloudSessionConflictError);
+    await expect(stale).rejects.toMatchObject({ serverVersion: 2 });
+
+    const forced = await pushCloudSession({ id: 'sessao-0002', label: 'P', payload, syncVersion: 1, force: true }, 'x');
+    expect(forced.syncVersion).toBe(3);
+  }, 20000);
+
+  it('keeps the local link to the cloud session until cleared', () => {
+    expect(getLinkedCloudSession()).toBeNull();
+    setLinkedCloudSession({ id: 'sessao-0003', syncVersion: 4, label: 'P' });
+    expect(getLinkedCloudSession()).toEqual({ id: 'sessao-0003', syncVersion: 4, label: 'P' });
+    clearLinkedCloudSession();
+    expect(getLinkedCloudSession()).toBeNull();
+  });
+});
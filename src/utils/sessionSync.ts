@@ -0,0 +1,182 @@
+/**
+ * @file sessionSync.ts
+ * @description Sync de sessões de trabalho (processo em andamento) entre
+ *              dispositivos, encriptado ponta a ponta.
+ * @version 1.53.41
+ *
+ * O pacote da sessão (JSON do projeto do buildProjectJson + histórico de
+ * versões dos campos + cofre de pseudônimos e entidades do NER) é encriptado
+ * no navegador com chave derivada da frase-senha do juiz (encryptWithPassphrase).
+ * O servidor (/api/sync/sessions) só guarda envelopes opacos e controla
+ * conflitos por sync_version, como no sync de modelos: salvar por cima de uma
+ * versão mais nova exige escolha explícita (force).
+ *
+ * A frase-senha não é persistida; o vínculo "esta sessão local = sessão X da
+ * nuvem" fica no localStorage e é desfeito ao limpar o projeto.
+ *
+ * @usedBy CloudSessionsModal, useLocalStorage (clearProject)
+ */
+
+import { API_BASE } from '../constants/api';
+import { encryptWithPassphrase, decryptWithPassphrase } from './crypto';
+import type { StoredFieldVersion } from '../hooks/useFieldVersioning';
+import type { NerEntityReview, PseudonymVault } from '../types';
+
+const AUTH_KEY = 'sentencify-auth-token';
+const LINK_KEY = 'sentencify-cloud-session-link';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Conteúdo (em claro) de uma sessão sincronizada */
+export interface CloudSessionPayload {
+  format: 'sentencify-session';
+  version: 1;
+  /** Saída do buildProjectJson (mesmo formato do arquivo .json do projeto) */
+  project: object;
+  fieldVersions: StoredFieldVersion[];
+  pseudonymVault?: PseudonymVault;
+  nerEntities?: Record<string, NerEntityReview>;
+}
+
+/** Item da lista de sessões (label já decifrado) */
+export interface CloudSessionSummary {
+  id: string;
+  /** null quando o label não abre com a frase-senha informada */
+  label: string | null;
+  size: number;
+  updatedAt: string;
+  syncVersion: number;
+}
+
+/** Vínculo da sessão local com a sessão da nuvem */
+export interface LinkedCloudSession {
+  id: string;
+  syncVersion: number;
+  label: string;
+}
+
+/** A sessão foi salva por outro dispositivo depois da versão conhecida aqui */
+export class CloudSessionConflictError extends Error {
+  serverVersion: number;
+  updatedAt: string | null;
+
+  constructor(serverVersion: number, updatedAt: string | null) {
+    super('A sessão foi alterada em outro dispositivo');
+    this.name = 'CloudSessionConflictError';
+    this.serverVersion = serverVersion;
+    this.updatedAt = updatedAt;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem(AUTH_KEY);
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function requestJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${API_BASE}/api/sync/sessions${path}`, {
+    ...init,
+    headers: { ...getAuthHeaders(), ...(init.headers as Record<string, string> | undefined) },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (res.status === 409 && data.reason === 'version_mismatch') {
+    throw new CloudSessionConflictError(data.serverVersion || 0, data.updatedAt || null);
+  }
+  if (!res.ok) {
+    throw new Error(data.error || `Erro ${res.status} no sync de sessões`);
+  }
+  return data as T;
+}
+
+/** ID novo para sessão (aceito pela rota: 8–64 caracteres [A-Za-z0-9-]) */
+export const newCloudSessionId = (): string => crypto.randomUUID();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VÍNCULO LOCAL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const getLinkedCloudSession = (): LinkedCloudSession | null => {
+  try {
+    const raw = localStorage.getItem(LINK_KEY);
+    return raw ? (JSON.parse(raw) as LinkedCloudSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setLinkedCloudSession = (link: LinkedCloudSession): void => {
+  localStorage.setItem(LINK_KEY, JSON.stringify(link));
+};
+
+export const clearLinkedCloudSession = (): void => {
+  localStorage.removeItem(LINK_KEY);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lista as sessões do usuário. Labels que não abrem com a frase-senha (salvas
+ * com outra frase) vêm com `label: null`.
+ */
+export async function listCloudSessions(passphrase: string): Promise<CloudSessionSummary[]> {
+  const { sessions } = await requestJson<{ sessions: Array<Omit<CloudSessionSummary, 'label'> & { label: string }> }>('');
+  return Promise.all(
+    sessions.map(async (s) => ({
+      ...s,
+      label: await decryptWithPassphrase(s.label, passphrase).catch(() => null),
+    }))
+  );
+}
+
+/**
+ * Baixa e decifra uma sessão.
+ * @throws Error('Frase-senha incorreta ou dados corrompidos') com frase errada
+ */
+export async function pullCloudSession(
+  id: string,
+  passphrase: string
+): Promise<{ payload: CloudSessionPayload; syncVersion: number; label: string }> {
+  const { session } = await requestJson<{ session: { payload: string; label: string; syncVersion: number } }>(
+    `/${encodeURIComponent(id)}`
+  );
+  const payload = JSON.parse(await decryptWithPassphrase(session.payload, passphrase)) as CloudSessionPayload;
+  if (payload?.format !== 'sentencify-session' || !payload.project) {
+    throw new Error('Sessão em formato desconhecido');
+  }
+  const label = await decryptWithPassphrase(session.label, passphrase).catch(() => '');
+  return { payload, syncVersion: session.syncVersion, label };
+}
+
+/**
+ * Encripta e envia a sessão. `syncVersion` é a versão conhecida localmente
+ * (0 para sessão nova).
+ * @throws CloudSessionConflictError se outro dispositivo salvou depois (sem `force`)
+ */
+export async function pushCloudSession(
+  params: { id: string; label: string; payload: CloudSessionPayload; syncVersion: number; force?: boolean },
+  passphrase: string
+): Promise<{ syncVersion: number; updatedAt: string }> {
+  const [label, payload] = await Promise.all([
+    encryptWithPassphrase(params.label, passphrase),
+    encryptWithPassphrase(JSON.stringify(params.payload), passphrase),
+  ]);
+  return requestJson<{ syncVersion: number; updatedAt: string }>(`/${encodeURIComponent(params.id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ label, payload, syncVersion: params.syncVersion, force: !!params.force }),
+  });
+}
+
+export async function deleteCloudSession(id: string): Promise<void> {
+  await requestJson<{ success: boolean }>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeForMatch, verifyTrechoInSources, type NormalizedSource } from './sourceMatching';
+import { normalizeForMatch, normalizeForMatchWithOffsets, locateNormalized, verifyTrechoInSources, type NormalizedSource } from './sourceMatching';
 
 const norm = (peca: string, text: string): NormalizedSource => ({ peca, normalized: normalizeForMatch(text) });
 
@@ -56,3 +56,48 @@ describe('verifyTrechoInSources', () => {
     expect(r.peca).toBe('Petição inicial');
   });
 });
+
+describe('normalizeForMatchWithOffsets', () => {
+  it('mapeia cada caractere normalizado para a posição no texto original', () => {
+    const raw = 'Ação:  "Nula"';
+    const { normalized, offsets } = normalizeForMatchWithOffsets(raw);
+    expect(normalized).toBe('acao nula');
+    expect(offsets.map(o => raw[o])).toEqual(['A', 'ç', 'ã', 'o', ':', 'N', 'u', 'l', 'a']);
+  });
+
+  it('o rodapé do PJe vira um único espaço sem deslocar o restante', () => {
+    const raw = 'ocorrida em Documento assinado eletronicamente por X, em 18/03/2026, às 11:15:27 - 85cb794 31/10/2025';
+    const { normalized, offsets } = normalizeForMatchWithOffsets(raw);
+    expect(normalized).toBe('ocorrida em 31/10/2025');
+    expect(raw.slice(offsets[normalized.indexOf('31')])).toBe('31/10/2025');
+  });
+});
+
+describe('locateNormalized', () => {
+  it('localiza a janela fuzzy com posições no texto normalizado', () => {
+    const text = 'preambulo qualquer o autor trabalhava de segunda a sabado sem intervalo e depois';
+    const span = locateNormalized('o autor trabalhou de segunda a sabado sem intervalo', text);
+    expect(span!.score).toBeGreaterThan(0.85);
+    expect(text.slice(span!.start, span!.end)).toBe('o autor trabalhava de segunda a sabado sem intervalo');
+  });
+
+  it('null sem nenhum token em comum', () => {
+    expect(locateNormalized('abc', 'xyz')).toBeNull();
+  });
+});
+
+describe('verifyTrechoInSources — offsets', () => {
+  it('devolve offsets no texto original quando a fonte tem o mapa', () => {
+    const raw = 'Intro. A ré sustenta que o autor usufruía de intervalo.';
+    const src = { peca: 'Contestação 1', ...normalizeForMatchWithOffsets(raw) };
+    const r = verifyTrechoInSources('o autor usufruia de intervalo', [src], 'X');
+    expect(r.sourceIndex).toBe(0);
+    expect(raw.slice(r.offsetInicio, r.offsetFim)).toBe('o autor usufruía de intervalo');
+  });
+
+  it('sem mapa de offsets, só o status e a peça', () => {
+    const r = verifyTrechoInSources('usufruia de intervalo', [norm('C', 'usufruía de intervalo')], 'X');
+    expect(r.status).toBe('verificado');
+    expect(r.offsetInicio).toBeUndefined();
+  });
+});
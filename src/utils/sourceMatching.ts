@@ -2,33 +2,107 @@
  * @file sourceMatching.ts
  * @description Verificação local determinística de trechos-fonte contra o texto
  * das peças (anti-alucinação). Funções puras, sem dependências de React/API.
+ * v1.53.32: o match também devolve a posição (offsets no texto original da peça),
+ * usada para abrir o PDF na página do trecho.
  */
 
-import { cleanPjeArtifacts } from './pjeArtifacts';
+import { PJE_ASSINATURA } from './pjeArtifacts';
+
+/** Texto normalizado + posição de cada caractere no texto original. */
+export interface NormalizedText {
+  normalized: string;
+  /** offsets[i] = índice, no texto original, do caractere que gerou normalized[i] */
+  offsets: number[];
+}
+
+const QUOTES = /[“”„‘’]/;
+const DASHES = /[‐-―]/;
+const PUNCTUATION = /[.,;:!?()\[\]{}"]/;
+const WHITESPACE = /\s/;
+
+/**
+ * Mesma normalização de normalizeForMatch, caractere a caractere, registrando de
+ * onde veio cada caractere do resultado. O rodapé do PJe vira um espaço (como em
+ * cleanPjeArtifacts) e espaços consecutivos são colapsados.
+ */
+export function normalizeForMatchWithOffsets(s: string): NormalizedText {
+  const raw = s || '';
+  const footerEnd = new Map<number, number>();
+  for (const m of raw.matchAll(PJE_ASSINATURA)) {
+    footerEnd.set(m.index!, m.index! + m[0].length);
+  }
+
+  const out: string[] = [];
+  const offsets: number[] = [];
+  const pushSpace = (at: number) => {
+    if (out.length > 0 && out[out.length - 1] !== ' ') {
+      out.push(' ');
+      offsets.push(at);
+    }
+  };
+
+  let i = 0;
+  while (i < raw.length) {
+    const end = footerEnd.get(i);
+    if (end !== undefined && end > i) {
+      pushSpace(i);
+      i = end;
+      continue;
+    }
+
+    const cp = raw.codePointAt(i)!;
+    const char = String.fromCodePoint(cp);
+    const folded = cp < 128
+      ? char.toLowerCase()
+      : char.normalize('NFD').replace(/\p{Mn}/gu, '').toLowerCase();
+
+    for (const c of folded) {
+      if (WHITESPACE.test(c) || QUOTES.test(c) || PUNCTUATION.test(c)) {
+        pushSpace(i);
+      } else {
+        out.push(DASHES.test(c) ? '-' : c);
+        offsets.push(i);
+      }
+    }
+    i += char.length;
+  }
+
+  if (out[out.length - 1] === ' ') {
+    out.pop();
+    offsets.pop();
+  }
+  return { normalized: out.join(''), offsets };
+}
 
 /** Normaliza texto para comparação: sem rodapé PJe, sem acento, sem pontuação, minúsculo, espaços colapsados. */
 export function normalizeForMatch(s: string): string {
-  return cleanPjeArtifacts(s)
-    .normalize('NFD')
-    .replace(/\p{Mn}/gu, '')
-    .toLowerCase()
-    .replace(/[“”„‘’]/g, ' ')
-    .replace(/[‐-―]/g, '-')
-    .replace(/[.,;:!?()\[\]{}"]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+  return normalizeForMatchWithOffsets(s).normalized;
 }
 
 /** Fonte já normalizada (normaliza-se uma vez, reusa por trecho). */
 export interface NormalizedSource {
   peca: string;
   normalized: string;
+  /** Presente quando normalizada por normalizeForMatchWithOffsets — habilita os offsets no resultado. */
+  offsets?: number[];
 }
 
 export interface MatchResult {
   status: 'verificado' | 'nao_localizado';
   peca: string;
   matchScore?: number;
+  /** Índice da fonte onde o trecho foi localizado (apenas quando verificado). */
+  sourceIndex?: number;
+  /** Início/fim (exclusivo) do trecho no texto ORIGINAL da fonte (exige NormalizedSource.offsets). */
+  offsetInicio?: number;
+  offsetFim?: number;
+}
+
+/** Trecho localizado dentro de um texto normalizado (índices no normalizado, fim exclusivo). */
+export interface LocatedSpan {
+  start: number;
+  end: number;
+  score: number;
 }
 
 const FUZZY_THRESHOLD = 0.85;
@@ -37,6 +111,17 @@ function tokenize(s: string): string[] {
   return s.split(' ').filter(Boolean);
 }
 
+/** Posição inicial de cada token (o normalizado tem exatamente um espaço entre tokens). */
+function tokenStarts(tokens: string[]): number[] {
+  const starts: number[] = [];
+  let pos = 0;
+  for (const t of tokens) {
+    starts.push(pos);
+    pos += t.length + 1;
+  }
+  return starts;
+}
+
 /** Coeficiente de Dice entre dois multisets de tokens (0-1). */
 function diceCoefficient(a: string[], b: string[]): number {
   if (a.length === 0 || b.length === 0) return 0;
@@ -50,6 +135,39 @@ function diceCoefficient(a: string[], b: string[]): number {
   return (2 * inter) / (a.length + b.length);
 }
 
+/**
+ * Localiza um trecho JÁ normalizado dentro de um texto normalizado:
+ * substring exata (score 1) ou a melhor janela deslizante de tokens (Dice).
+ * Retorna null só quando não há nenhum token em comum.
+ */
+export function locateNormalized(nt: string, normalized: string): LocatedSpan | null {
+  if (!nt || !normalized) return null;
+
+  const exact = normalized.indexOf(nt);
+  if (exact >= 0) return { start: exact, end: exact + nt.length, score: 1 };
+
+  const tt = tokenize(nt);
+  const st = tokenize(normalized);
+  const w = tt.length;
+  if (st.length < w) {
+    const score = diceCoefficient(tt, st);
+    return score > 0 ? { start: 0, end: normalized.length, score } : null;
+  }
+
+  let best = 0;
+  let bestIdx = -1;
+  for (let i = 0; i + w <= st.length; i++) {
+    const score = diceCoefficient(tt, st.slice(i, i + w));
+    if (score > best) { best = score; bestIdx = i; }
+    if (best >= 1) break;
+  }
+  if (bestIdx < 0) return null;
+
+  const starts = tokenStarts(st);
+  const last = bestIdx + w - 1;
+  return { start: starts[bestIdx], end: starts[last] + st[last].length, score: best };
+}
+
 /**
  * Verifica se `trecho` aparece em alguma das `sources`.
  * 1) substring exata normalizada -> verificado (peça onde foi achado);
@@ -65,33 +183,40 @@ export function verifyTrechoInSources(
   const nt = normalizeForMatch(trecho);
   if (!nt) return { status: 'nao_localizado', peca: aiLabel };
 
-  // Passo 1: substring exata normalizada
-  for (const src of sources) {
-    if (src.normalized.includes(nt)) {
-      return { status: 'verificado', peca: src.peca, matchScore: 1 };
+  let best: LocatedSpan | null = null;
+  let bestIndex = -1;
+
+  // Passo 1: substring exata normalizada (todas as fontes antes do fuzzy)
+  for (let i = 0; i < sources.length && !best; i++) {
+    const exact = sources[i].normalized.indexOf(nt);
+    if (exact >= 0) {
+      best = { start: exact, end: exact + nt.length, score: 1 };
+      bestIndex = i;
     }
   }
 
   // Passo 2: fuzzy por janela deslizante de tokens
-  const tt = tokenize(nt);
-  let best = 0;
-  let bestPeca = aiLabel;
-  outer: for (const src of sources) {
-    const st = tokenize(src.normalized);
-    const w = tt.length;
-    if (st.length < w) {
-      const score = diceCoefficient(tt, st);
-      if (score > best) { best = score; bestPeca = src.peca; }
-      continue;
-    }
-    for (let i = 0; i + w <= st.length; i++) {
-      const score = diceCoefficient(tt, st.slice(i, i + w));
-      if (score > best) { best = score; bestPeca = src.peca; }
-      if (best >= 1) break outer;
+  if (!best) {
+    for (let i = 0; i < sources.length; i++) {
+      const span = locateNormalized(nt, sources[i].normalized);
+      if (span && span.score > (best?.score ?? 0)) {
+        best = span;
+        bestIndex = i;
+      }
+      if (best && best.score >= 1) break;
     }
   }
 
-  const rounded = Number(best.toFixed(3));
-  if (best >= threshold) return { status: 'verificado', peca: bestPeca, matchScore: rounded };
-  return { status: 'nao_localizado', peca: aiLabel, matchScore: rounded };
+  const rounded = Number((best?.score ?? 0).toFixed(3));
+  if (!best || best.score < threshold) {
+    return { status: 'nao_localizado', peca: aiLabel, matchScore: rounded };
+  }
+
+  const src = sources[bestIndex];
+  const result: MatchResult = { status: 'verificado', peca: src.peca, matchScore: rounded, sourceIndex: bestIndex };
+  if (src.offsets && src.offsets.length > 0) {
+    result.offsetInicio = src.offsets[best.start];
+    result.offsetFim = src.offsets[best.end - 1] + 1;
+  }
+  return result;
 }
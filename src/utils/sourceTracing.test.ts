@@ -65,6 +65,25 @@ describe('mapTracingResponse', () => {
     expect(blocos[1].trechos[0].peca).toBe('Contestação 1'); // corrige etiqueta errada da IA
   });
 
+  it('registra offsets, folha e arquivo de origem do trecho verificado (caso B)', () => {
+    const text = 'Qualificação das partes.\n\nO autor laborava das 8h às 18h, sem intervalo.';
+    const pageOffsets = [{ page: 1, offset: 0 }, { page: 2, offset: text.indexOf('O autor') }];
+    const parsed = [{ blocoIndex: 0, trechos: [{ peca: 'Petição inicial', trecho: 'laborava das 8h as 18h sem intervalo' }] }];
+    const [bloco] = mapTracingResponse(parsed, paragraphs, [{ peca: 'Petição inicial', text, sourceFileId: 'file-1', pageOffsets }]);
+    const t = bloco.trechos[0];
+    expect(t.status).toBe('verificado');
+    expect(text.slice(t.offsetInicio, t.offsetFim)).toBe('laborava das 8h às 18h, sem intervalo');
+    expect(t.pagina).toBe(2);
+    expect(t.arquivoId).toBe('file-1');
+  });
+
+  it('não registra posição para trecho não localizado', () => {
+    const parsed = [{ blocoIndex: 0, trechos: [{ peca: 'Petição inicial', trecho: 'o autor viajou para a lua' }] }];
+    const [bloco] = mapTracingResponse(parsed, paragraphs, [{ ...sources[0], sourceFileId: 'file-1' }]);
+    expect(bloco.trechos[0].offsetInicio).toBeUndefined();
+    expect(bloco.trechos[0].arquivoId).toBeUndefined();
+  });
+
   it('marca trecho inventado como nao_localizado', () => {
     const parsed = [{ blocoIndex: 0, trechos: [{ peca: 'Petição inicial', trecho: 'o autor viajou para a lua' }] }];
     const blocos = mapTracingResponse(parsed, paragraphs, sources);
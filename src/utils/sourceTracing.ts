@@ -3,11 +3,15 @@
  * @description Helpers puros do segundo passe de rastreabilidade: montagem das
  * fontes rotuladas, construção do prompt e mapeamento da resposta da IA com
  * verificação local. Sem dependências de React/API.
+ * v1.53.32: trechos verificados guardam offsets, folha e arquivo de origem
+ * (navegação ao PDF no RastreabilidadeModal).
+ * v1.53.54: folha pelos pageOffsets da peça, não por marcadores no texto.
  */
 
-import { normalizeForMatch, verifyTrechoInSources, type NormalizedSource } from './sourceMatching';
+import { normalizeForMatchWithOffsets, verifyTrechoInSources, type NormalizedSource } from './sourceMatching';
+import { getPageAtOffset } from './pageOffsets';
 import type { ReportParagraph } from './reportParagraphs';
-import type { RelatorioBlocoFonte, RelatorioBlocoFidelidade } from '../types';
+import type { RelatorioBlocoFonte, RelatorioBlocoFidelidade, RelatorioFonteTrecho, PageOffset } from '../types';
 
 /** Tamanho máximo do resumo do parágrafo exibido na UI de rastreabilidade. */
 const BLOCO_RESUMO_MAX_LEN = 120;
@@ -17,15 +21,26 @@ const BLOCO_RESUMO_MAX_LEN = 120;
  * frouxo (campos opcionais) para facilitar testes; compatível estruturalmente
  * com o `docs` real do hook de geração.
  */
+interface TracingDoc {
+  name?: string;
+  text: string;
+  sourceFileId?: string;
+  pageOffsets?: PageOffset[];
+}
+
 export interface TracingDocs {
-  peticoesText?: { name?: string; text: string }[];
-  contestacoesText?: { text: string }[];
-  complementaresText?: { text: string }[];
+  peticoesText?: TracingDoc[];
+  contestacoesText?: TracingDoc[];
+  complementaresText?: TracingDoc[];
 }
 
 export interface TracingSource {
   peca: string;
   text: string;
+  /** Id do UploadedFile de origem (ausente em texto colado) */
+  sourceFileId?: string;
+  /** Início de cada folha do PDF no `text` (ausente em texto colado) */
+  pageOffsets?: PageOffset[];
 }
 
 /** Bloco da resposta da IA já parseado/validado pelo schema Zod. */
@@ -54,18 +69,18 @@ export function buildTracingSources(
   const out: TracingSource[] = [];
 
   (docs.peticoesText || []).forEach((d, i) => {
-    out.push({ peca: d.name || (i === 0 ? 'Petição inicial' : `Petição ${i + 1}`), text: d.text || '' });
+    out.push({ peca: d.name || (i === 0 ? 'Petição inicial' : `Petição ${i + 1}`), text: d.text || '', sourceFileId: d.sourceFileId, pageOffsets: d.pageOffsets });
   });
 
   // Contestações e complementares são rotuladas por índice (+ reclamada quando houver),
   // não por d.name — diferente das petições, onde o nome do arquivo é um rótulo útil.
   (docs.contestacoesText || []).forEach((d, i) => {
     const reclamada = partes?.reclamadas?.[i];
-    out.push({ peca: `Contestação ${i + 1}${reclamada ? ` — ${reclamada}` : ''}`, text: d.text || '' });
+    out.push({ peca: `Contestação ${i + 1}${reclamada ? ` — ${reclamada}` : ''}`, text: d.text || '', sourceFileId: d.sourceFileId, pageOffsets: d.pageOffsets });
   });
 
   (docs.complementaresText || []).forEach((d, i) => {
-    out.push({ peca: `Documento complementar ${i + 1}`, text: d.text || '' });
+    out.push({ peca: `Documento complementar ${i + 1}`, text: d.text || '', sourceFileId: d.sourceFileId, pageOffsets: d.pageOffsets });
   });
 
   return out.filter(s => s.text.trim().length > 0);
@@ -107,12 +122,22 @@ export function mapTracingResponse(
   paragraphs: ReportParagraph[],
   sources: TracingSource[]
 ): RelatorioBlocoFonte[] {
-  const normSources: NormalizedSource[] = sources.map(s => ({ peca: s.peca, normalized: normalizeForMatch(s.text) }));
+  const normSources: NormalizedSource[] = sources.map(s => ({ peca: s.peca, ...normalizeForMatchWithOffsets(s.text) }));
   return paragraphs.map(p => {
     const aiBloco = parsedBlocos.find(b => Number(b.blocoIndex) === p.index);
     const trechos = (aiBloco?.trechos || []).map(t => {
       const res = verifyTrechoInSources(t.trecho, normSources, t.peca || '');
-      return { trecho: t.trecho, peca: res.peca, status: res.status, matchScore: res.matchScore };
+      const trecho: RelatorioFonteTrecho = { trecho: t.trecho, peca: res.peca, status: res.status, matchScore: res.matchScore };
+      // Caso B: posição no texto extraído → folha do PDF (só faz sentido quando verificado)
+      if (res.sourceIndex !== undefined && res.offsetInicio !== undefined) {
+        const source = sources[res.sourceIndex];
+        trecho.offsetInicio = res.offsetInicio;
+        trecho.offsetFim = res.offsetFim;
+        const pagina = getPageAtOffset(source.pageOffsets, res.offsetInicio);
+        if (pagina !== undefined) trecho.pagina = pagina;
+        if (source.sourceFileId) trecho.arquivoId = source.sourceFileId;
+      }
+      return trecho;
     });
     const fidelidade: RelatorioBlocoFidelidade = {
       veredito: normalizeVeredito(aiBloco?.fidelidade?.veredito),
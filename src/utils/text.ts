@@ -5,79 +5,93 @@
  *
  * Extraído do App.tsx
  * Inclui: anonymizeText, normalizeHTMLSpacing, removeMetaComments, topic helpers
+ * v1.53.39: anonymizeText aceita cofre de pseudônimos (pseudonimização reversível)
  */
 
-import type { Topic, AnonymizationSettings } from '../types';
+import type { Topic, AnonymizationSettings, PseudonymVault } from '../types';
+import { nameCategory, pseudonymFor } from './pseudonymVault';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // ANONIMIZAÇÃO DE TEXTO (v1.17.0)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export const anonymizeText = (text: string, config: AnonymizationSettings | null | undefined, nomesUsuario: string[] = []): string => {
+/**
+ * Substitui dados pessoais por placeholders.
+ * Sem `vault`: placeholders genéricos ([CPF], [PESSOA 1]) e os originais são descartados.
+ * Com `vault` (v1.53.39): pseudônimos numerados por processo ([CPF_2], [RECLAMANTE_1]),
+ * registrados no cofre (que é MUTADO) para re-identificação posterior.
+ */
+export const anonymizeText = (
+  text: string,
+  config: AnonymizationSettings | null | undefined,
+  nomesUsuario: string[] = [],
+  vault?: PseudonymVault
+): string => {
   if (!text || !config?.enabled) return text;
 
   // Normalizar: juntar dígitos separados por quebras de linha (PDF.js às vezes quebra números)
   let result = text.replace(/(\d)\s+(\d)/g, '$1$2');
-  const encontrados: Record<string, string[]> = { cnpj: [], cpf: [], rg: [], pis: [], ctps: [], cep: [], processo: [], oab: [], telefone: [], email: [], conta: [], valor: [], pessoa: [] };
+  const token = (category: string, original: string): string =>
+    vault ? pseudonymFor(vault, category, original) : `[${category}]`;
 
   // CNPJ: 00.000.000/0000-00
   if (config.cnpj !== false) {
-    result = result.replace(/\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}/g, (m: string) => { encontrados.cnpj.push(m); return '[CNPJ]'; });
+    result = result.replace(/\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}/g, (m: string) => token('CNPJ', m));
   }
 
   // CPF: 000.000.000-00 (após CNPJ para evitar conflito)
   if (config.cpf !== false) {
-    result = result.replace(/\d{3}\.?\d{3}\.?\d{3}-?\d{2}/g, (m: string) => { encontrados.cpf.push(m); return '[CPF]'; });
+    result = result.replace(/\d{3}\.?\d{3}\.?\d{3}-?\d{2}/g, (m: string) => token('CPF', m));
   }
 
   // RG: 00.000.000-0 ou similar
   if (config.rg !== false) {
-    result = result.replace(/\d{1,2}\.?\d{3}\.?\d{3}-?[\dXx]/g, (m: string) => { encontrados.rg.push(m); return '[RG]'; });
+    result = result.replace(/\d{1,2}\.?\d{3}\.?\d{3}-?[\dXx]/g, (m: string) => token('RG', m));
   }
 
   // PIS/PASEP: 000.00000.00-0
   if (config.pis !== false) {
-    result = result.replace(/\d{3}\.?\d{5}\.?\d{2}-?\d/g, (m: string) => { encontrados.pis.push(m); return '[PIS]'; });
+    result = result.replace(/\d{3}\.?\d{5}\.?\d{2}-?\d/g, (m: string) => token('PIS', m));
   }
 
   // CTPS: 0000000/00000 ou similar
   if (config.ctps !== false) {
-    result = result.replace(/\d{5,7}[/-]\d{3,5}/g, (m: string) => { encontrados.ctps.push(m); return '[CTPS]'; });
+    result = result.replace(/\d{5,7}[/-]\d{3,5}/g, (m: string) => token('CTPS', m));
   }
 
   // CEP: 00.000-000 ou 00000-000
   if (config.cep !== false) {
-    result = result.replace(/\d{2}\.?\d{3}-?\d{3}/g, (m: string) => { encontrados.cep.push(m); return '[CEP]'; });
+    result = result.replace(/\d{2}\.?\d{3}-?\d{3}/g, (m: string) => token('CEP', m));
   }
 
   // Número de processo CNJ: 0000000-00.0000.0.00.0000 (com espaços antes/depois de separadores)
   if (config.processo !== false) {
-    result = result.replace(/\d{7}\s*-\s*\d{2}\s*\.\s*\d{4}\s*\.\s*\d\s*\.\s*\d{2}\s*\.\s*\d{4}/g, (m: string) => { encontrados.processo.push(m); return '[PROCESSO]'; });
+    result = result.replace(/\d{7}\s*-\s*\d{2}\s*\.\s*\d{4}\s*\.\s*\d\s*\.\s*\d{2}\s*\.\s*\d{4}/g, (m: string) => token('PROCESSO', m));
   }
 
   // OAB: OAB/XX 0000
   if (config.oab !== false) {
-    result = result.replace(/OAB\/?\s*[A-Z]{2}\s*\d+/gi, (m: string) => { encontrados.oab.push(m); return '[OAB]'; });
+    result = result.replace(/OAB\/?\s*[A-Z]{2}\s*\d+/gi, (m: string) => token('OAB', m));
   }
 
   // Telefone: (00) 00000-0000 ou variações
   if (config.telefone !== false) {
-    result = result.replace(/\(?\d{2}\)?\s*\d{4,5}-?\d{4}/g, (m: string) => { encontrados.telefone.push(m); return '[TELEFONE]'; });
+    result = result.replace(/\(?\d{2}\)?\s*\d{4,5}-?\d{4}/g, (m: string) => token('TELEFONE', m));
   }
 
   // E-mail
   if (config.email !== false) {
-    result = result.replace(/[\w.-]+@[\w.-]+\.\w{2,}/gi, (m: string) => { encontrados.email.push(m); return '[EMAIL]'; });
+    result = result.replace(/[\w.-]+@[\w.-]+\.\w{2,}/gi, (m: string) => token('EMAIL', m));
   }
 
   // Conta bancária: Ag. 0000 C/C 00000-0 ou variações
   if (config.contaBancaria !== false) {
-    result = result.replace(/[Aa]g[êe]?n?c?i?a?\.?\s*:?\s*\d[\d.-]*\s*[Cc]\.?\/?\s*[Cc]\.?\s*:?\s*\d[\d.-]*/g, (m: string) => { encontrados.conta.push(m); return '[CONTA]'; });
+    result = result.replace(/[Aa]g[êe]?n?c?i?a?\.?\s*:?\s*\d[\d.-]*\s*[Cc]\.?\/?\s*[Cc]\.?\s*:?\s*\d[\d.-]*/g, (m: string) => token('CONTA', m));
   }
 
   // Valores monetários R$
   if (config.valores === true) {
-    result = result.replace(/R\$\s*[\d.,]+/g, (m: string) => { encontrados.valor.push(m); return '[VALOR]'; });
+    result = result.replace(/R\$\s*[\d.,]+/g, (m: string) => token('VALOR', m));
   }
 
   // Nomes inseridos pelo usuário (v1.17.0)
@@ -111,7 +125,7 @@ export const anonymizeText = (text: string, config: AnonymizationSettings | null
       // Limitar tamanho do nome para evitar ReDoS
       if (nomeClean.length > 200) nomeClean = nomeClean.substring(0, 200);
 
-      const placeholder = `[PESSOA ${index + 1}]`;
+      const placeholder = vault ? pseudonymFor(vault, nameCategory(nome), nomeClean) : `[PESSOA ${index + 1}]`;
       let matchCount = 0;
 
       // TENTATIVA 1: Busca normal (com espaços flexíveis)
@@ -123,10 +137,7 @@ export const anonymizeText = (text: string, config: AnonymizationSettings | null
 
       matchCount = (result.match(nomeRegex) || []).length;
       if (matchCount > 0) {
-        result = result.replace(nomeRegex, (match: string) => {
-          encontrados.pessoa.push(match);
-          return placeholder;
-        });
+        result = result.replace(nomeRegex, placeholder);
       }
 
       // TENTATIVA 2: Busca normalizada (sem acentos) se não encontrou
@@ -140,18 +151,17 @@ export const anonymizeText = (text: string, config: AnonymizationSettings | null
         const resultNorm = normalize(result);
 
         // Encontrar posições no texto normalizado (limitar a 100 matches para evitar loops)
-        const matches: Array<{ start: number; len: number; original: string }> = [];
+        const matches: Array<{ start: number; len: number }> = [];
         let match: RegExpExecArray | null;
         let matchLimit = 100;
         while ((match = regexNorm.exec(resultNorm)) !== null && matchLimit-- > 0) {
-          matches.push({ start: match.index, len: match[0].length, original: result.substring(match.index, match.index + match[0].length) });
+          matches.push({ start: match.index, len: match[0].length });
         }
 
         if (matches.length > 0) {
           // Substituir de trás para frente (para manter índices)
           for (let i = matches.length - 1; i >= 0; i--) {
             const m = matches[i];
-            encontrados.pessoa.push(m.original);
             result = result.substring(0, m.start) + placeholder + result.substring(m.start + m.len);
           }
           matchCount = matches.length;
@@ -0,0 +1,157 @@
+/**
+ * @file workspaces.ts
+ * @description Gabinetes (workspaces) com papéis juiz/assessor/estagiário.
+ * @version 1.53.43
+ *
+ * O juiz cria o gabinete e convida a equipe por email; modelos, pacotes de
+ * conhecimento e análises criados com o gabinete ativo passam a pertencer a
+ * ele e ficam visíveis a todos os membros, sem re-compartilhar recurso a
+ * recurso (como em library_shares). O gabinete ativo fica no localStorage e
+ * segue em todas as chamadas ao backend no header X-Workspace-Id
+ * (installApiAuthInterceptor).
+ *
+ * @usedBy WorkspacesModal, installApiAuthInterceptor
+ */
+
+import { API_BASE } from '../constants/api';
+
+const AUTH_KEY = 'sentencify-auth-token';
+const ACTIVE_KEY = 'sentencify-active-workspace';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type WorkspaceRole = 'juiz' | 'assessor' | 'estagiario';
+
+export type WorkspaceAction = 'view' | 'create' | 'edit' | 'delete' | 'approve' | 'manage';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerEmail: string;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  role: WorkspaceRole;
+  invitedByEmail: string | null;
+  invitedAt: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  userId: string | null;
+  email: string;
+  role: WorkspaceRole;
+  invitedAt: string;
+  acceptedAt: string | null;
+}
+
+export interface PendingModel {
+  id: string;
+  title: string;
+  category: string | null;
+  updatedAt: string;
+  authorEmail: string;
+}
+
+/** Itens movidos para o gabinete por tabela */
+export type AdoptedCounts = Record<'models' | 'knowledge_packages' | 'analyses' | 'prova_oral_analyses', number>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PAPÉIS (espelha server/services/WorkspaceService.js)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  juiz: 'Juiz',
+  assessor: 'Assessor',
+  estagiario: 'Estagiário',
+};
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+  juiz: ['view', 'create', 'edit', 'delete', 'approve', 'manage'],
+  assessor: ['view', 'create', 'edit', 'delete'],
+  estagiario: ['view', 'create', 'edit'],
+};
+
+export const canWorkspace = (role: WorkspaceRole | undefined, action: WorkspaceAction): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(action);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GABINETE ATIVO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const getActiveWorkspaceId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+/** null = acervo pessoal */
+export const setActiveWorkspaceId = (id: string | null): void => {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function requestJson<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = localStorage.getItem(AUTH_KEY);
+  const res = await fetch(`${API_BASE}/api/workspaces${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || `Erro ${res.status} nos gabinetes`);
+  }
+  return data as T;
+}
+
+const post = (body?: object): RequestInit => ({ method: 'POST', body: body ? JSON.stringify(body) : undefined });
+
+export const listWorkspaces = () =>
+  requestJson<{ workspaces: Workspace[]; invites: WorkspaceInvite[] }>('');
+
+export const createWorkspace = (name: string) =>
+  requestJson<{ id: string; name: string }>('', post({ name }));
+
+export const deleteWorkspace = (id: string) =>
+  requestJson<{ success: boolean }>(`/${id}`, { method: 'DELETE' });
+
+export const acceptInvite = (inviteId: string) =>
+  requestJson<{ workspaces: Workspace[] }>(`/invites/${inviteId}/accept`, post());
+
+export const declineInvite = (inviteId: string) =>
+  requestJson<{ success: boolean }>(`/invites/${inviteId}/decline`, post());
+
+export const listMembers = async (workspaceId: string) =>
+  (await requestJson<{ members: WorkspaceMember[] }>(`/${workspaceId}/members`)).members;
+
+export const inviteMember = async (workspaceId: string, email: string, role: WorkspaceRole) =>
+  (await requestJson<{ members: WorkspaceMember[] }>(`/${workspaceId}/members`, post({ email, role }))).members;
+
+export const updateMemberRole = async (workspaceId: string, memberId: string, role: WorkspaceRole) =>
+  (await requestJson<{ members: WorkspaceMember[] }>(`/${workspaceId}/members/${memberId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role }),
+  })).members;
+
+export const removeMember = async (workspaceId: string, memberId: string) =>
+  (await requestJson<{ members: WorkspaceMember[] }>(`/${workspaceId}/members/${memberId}`, { method: 'DELETE' })).members;
+
+export const adoptPersonalLibrary = async (workspaceId: string) =>
+  (await requestJson<{ moved: AdoptedCounts }>(`/${workspaceId}/adopt`, post())).moved;
+
+export const listPendingModels = async (workspaceId: string) =>
+  (await requestJson<{ models: PendingModel[] }>(`/${workspaceId}/pending-models`)).models;
+
+export const approveModel = async (workspaceId: string, modelId: string) =>
+  (await requestJson<{ models: PendingModel[] }>(`/${workspaceId}/models/${modelId}/approve`, post())).models;
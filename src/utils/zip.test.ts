@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+/** Lê as entradas de um ZIP STORE percorrendo os local file headers */
+const readZip = (bytes: Uint8Array): Record<string, string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    const size = view.getUint32(pos + 18, true);
+    const nameLen = view.getUint16(pos + 26, true);
+    const name = decoder.decode(bytes.subarray(pos + 30, pos + 30 + nameLen));
+    const start = pos + 30 + nameLen;
+    files[name] = decoder.decode(bytes.subarray(start, start + size));
+    pos = start + size;
+  }
+  return files;
+};
+
+describe('crc32', () => {
+  it('calcula o valor de referência para "123456789"', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('retorna 0 para entrada vazia', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('grava as entradas na ordem recebida, em UTF-8', () => {
+    const zip = createZip([
+      { name: '[Content_Types].xml', data: '<Types/>' },
+      { name: 'word/document.xml', data: '<p>Sentença</p>' },
+    ]);
+    const files = readZip(zip);
+    expect(Object.keys(files)).toEqual(['[Content_Types].xml', 'word/document.xml']);
+    expect(files['word/document.xml']).toBe('<p>Sentença</p>');
+  });
+
+  it('termina com o registro end of central directory apontando o total de entradas', () => {
+    const zip = createZip([{ name: 'a.txt', data: 'a' }, { name: 'b.txt', data: new Uint8Array([98]) }]);
+    const view = new DataView(zip.buffer);
+    const eocd = zip.length - 22;
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(eocd + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+
+  it('é determinístico para a mesma entrada', () => {
+    const entries = [{ name: 'x.xml', data: '<x/>' }];
+    expect(createZip(entries)).toEqual(createZip(entries));
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @file zip.ts
+ * @description Escritor mínimo de arquivos ZIP (método STORE, sem compressão)
+ * @version 1.53.29
+ *
+ * Usado para empacotar formatos baseados em OOXML (ex.: .docx) inteiramente no
+ * navegador, sem depender de biblioteca externa via CDN. Como os arquivos gerados
+ * são pequenos (XML de uma sentença), a ausência de compressão é irrelevante e o
+ * Word/LibreOffice/Google Docs aceitam o pacote normalmente.
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TIPOS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ZipEntry {
+  /** Caminho dentro do pacote (ex.: "word/document.xml") */
+  name: string;
+  /** Conteúdo: strings são codificadas em UTF-8 */
+  data: string | Uint8Array;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CRC-32
+// ═══════════════════════════════════════════════════════════════════════════
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * Calcula o CRC-32 (polinômio IEEE 802.3) exigido pelo cabeçalho ZIP
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ESCRITA DO PACOTE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Data/hora fixa (1980-01-01 00:00) — mantém a saída determinística */
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * Monta um arquivo ZIP a partir das entradas, na ordem recebida.
+ * A ordem importa para OOXML: "[Content_Types].xml" deve vir primeiro.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);     // assinatura local file header
+    lv.setUint16(4, 20, true);             // versão necessária
+    lv.setUint16(6, 0x0800, true);         // flag: nomes em UTF-8
+    lv.setUint16(8, 0, true);              // método STORE
+    lv.setUint16(10, DOS_TIME, true);
+    lv.setUint16(12, DOS_DATE, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);   // tamanho comprimido
+    lv.setUint32(22, data.length, true);   // tamanho original
+    lv.setUint16(26, nameBytes.length, true);
+    lv.setUint16(28, 0, true);             // extra field
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);     // assinatura central directory
+    cv.setUint16(4, 20, true);             // versão que criou
+    cv.setUint16(6, 20, true);             // versão necessária
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, DOS_TIME, true);
+    cv.setUint16(14, DOS_DATE, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);        // offset do local header
+    central.set(nameBytes, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);       // assinatura end of central directory
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
@@ -13,7 +13,9 @@ export default defineConfig(({ mode }) => ({
     globals: true,
     environment: 'jsdom',
     setupFiles: './src/test/setup.js',
-    include: ['src/**/*.{test,spec}.{js,jsx,ts,tsx}'],
+    // Testes do servidor: só os que não dependem do SQLite (marcam @vitest-environment node)
+    // shared/: módulos usados pelo servidor e pelo cliente
+    include: ['src/**/*.{test,spec}.{js,jsx,ts,tsx}', 'server/**/*.{test,spec}.js', 'shared/**/*.{test,spec}.{js,ts}'],
     coverage: {
       reporter: ['text', 'html'],
       exclude: [